@@ -5,11 +5,16 @@ type EnvironmentVariables = {
   PORT?: string;
   DATABASE_URL: string;
   JWT_SECRET: string;
-  JWT_EXPIRES_IN: string;
+  JWT_EXPIRES_IN?: string;
+  REFRESH_TOKEN_EXPIRES_IN_DAYS?: string;
+  PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES?: string;
+  DOCUMENT_SIGNING_SECRET?: string;
+  CERTIFICATE_VALIDITY_DAYS?: string;
 };
 
 export interface TokenPayload extends JwtPayload {
   userId: string;
+  sid: string; // Login session (UserSession) the token was issued for
   iat?: number;
   exp?: number;
 }
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "sent_reminders" (
+    "id" TEXT NOT NULL,
+    "reminderKey" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sent_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sent_reminders_reminderKey_key" ON "sent_reminders"("reminderKey");
+
+-- CreateIndex
+CREATE INDEX "sent_reminders_userId_idx" ON "sent_reminders"("userId");
+
+-- AddForeignKey
+ALTER TABLE "sent_reminders" ADD CONSTRAINT "sent_reminders_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "OutboxEventStatus" AS ENUM ('PENDING', 'PROCESSING', 'PROCESSED', 'DEAD_LETTERED');
+
+-- CreateTable
+CREATE TABLE "outbox_events" (
+    "id" TEXT NOT NULL,
+    "eventName" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "OutboxEventStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "pendingHandlers" TEXT[],
+    "lastError" TEXT,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "outbox_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "dead_letter_events" (
+    "id" TEXT NOT NULL,
+    "eventName" TEXT NOT NULL,
+    "handlerName" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "error" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL,
+    "outboxEventId" TEXT NOT NULL,
+    "replayedAt" TIMESTAMP(3),
+    "replayedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "dead_letter_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "outbox_events_status_nextAttemptAt_idx" ON "outbox_events"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "dead_letter_events_eventName_idx" ON "dead_letter_events"("eventName");
+
+-- CreateIndex
+CREATE INDEX "dead_letter_events_replayedAt_idx" ON "dead_letter_events"("replayedAt");
+
+-- AddForeignKey
+ALTER TABLE "dead_letter_events" ADD CONSTRAINT "dead_letter_events_outboxEventId_fkey" FOREIGN KEY ("outboxEventId") REFERENCES "outbox_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "dead_letter_events" ADD CONSTRAINT "dead_letter_events_replayedById_fkey" FOREIGN KEY ("replayedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "photoContentType" TEXT,
+ADD COLUMN     "photoKey" TEXT;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "StockMovementType" AS ENUM ('RECEIPT', 'APPLICATION', 'ADJUSTMENT', 'DISCARD', 'EXPIRY', 'TRANSFER');
+
+-- CreateTable
+CREATE TABLE "stock_movements" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "vaccineId" TEXT NOT NULL,
+    "type" "StockMovementType" NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "balanceAfter" INTEGER NOT NULL,
+    "reason" TEXT,
+    "applicationId" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_movements_batchId_createdAt_idx" ON "stock_movements"("batchId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_vaccineId_createdAt_idx" ON "stock_movements"("vaccineId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_type_createdAt_idx" ON "stock_movements"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_applicationId_idx" ON "stock_movements"("applicationId");
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "vaccine_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_vaccineId_fkey" FOREIGN KEY ("vaccineId") REFERENCES "vaccines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "vaccine_applications"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Opening balance: existing batches start the ledger with their current quantity
+INSERT INTO "stock_movements" ("id", "batchId", "vaccineId", "type", "quantity", "balanceAfter", "reason", "createdById", "createdAt")
+SELECT gen_random_uuid()::text, "id", "vaccineId", 'RECEIPT', "currentQuantity", "currentQuantity", 'Opening balance', "createdById", CURRENT_TIMESTAMP
+FROM "vaccine_batches"
+WHERE "currentQuantity" > 0;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "ReportType" ADD VALUE 'WASTE';
+
+-- CreateEnum
+CREATE TYPE "DiscardReason" AS ENUM ('COLD_CHAIN_BREAK', 'BROKEN_VIAL', 'CONTAMINATION', 'EXPIRY');
+
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN "discardReason" "DiscardReason";
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "vaccine_application_voids" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "voidedById" TEXT NOT NULL,
+    "schedulingId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vaccine_application_voids_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccine_application_voids_applicationId_key" ON "vaccine_application_voids"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "vaccine_application_voids_voidedById_idx" ON "vaccine_application_voids"("voidedById");
+
+-- CreateIndex
+CREATE INDEX "vaccine_application_voids_createdAt_idx" ON "vaccine_application_voids"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "vaccine_application_voids" ADD CONSTRAINT "vaccine_application_voids_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "vaccine_applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vaccine_application_voids" ADD CONSTRAINT "vaccine_application_voids_voidedById_fkey" FOREIGN KEY ("voidedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vaccine_application_voids" ADD CONSTRAINT "vaccine_application_voids_schedulingId_fkey" FOREIGN KEY ("schedulingId") REFERENCES "vaccine_schedulings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- A voided dose can be recorded again, so uniqueness only applies to
+-- applications that are not soft-deleted (not expressible in schema.prisma)
+DROP INDEX "vaccine_applications_userId_vaccineId_doseNumber_key";
+
+CREATE UNIQUE INDEX "vaccine_applications_active_dose_key" ON "vaccine_applications"("userId", "vaccineId", "doseNumber") WHERE "deletedAt" IS NULL;
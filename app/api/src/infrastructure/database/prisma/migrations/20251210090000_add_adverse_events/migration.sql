@@ -0,0 +1,63 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'ADVERSE_EVENT';
+
+-- CreateEnum
+CREATE TYPE "AdverseEventSeverity" AS ENUM ('MILD', 'MODERATE', 'SEVERE');
+
+-- CreateEnum
+CREATE TYPE "AdverseEventSymptom" AS ENUM ('LOCAL_REACTION', 'FEVER', 'HEADACHE', 'MYALGIA', 'FATIGUE', 'NAUSEA', 'RASH', 'ALLERGIC_REACTION', 'ANAPHYLAXIS', 'SEIZURE', 'SYNCOPE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "AdverseEventOutcome" AS ENUM ('UNKNOWN', 'RECOVERING', 'RECOVERED', 'RECOVERED_WITH_SEQUELAE', 'NOT_RECOVERED', 'HOSPITALIZED', 'DEATH');
+
+-- CreateTable
+CREATE TABLE "adverse_events" (
+    "id" TEXT NOT NULL,
+    "applicationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "vaccineId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "symptoms" "AdverseEventSymptom"[],
+    "severity" "AdverseEventSeverity" NOT NULL,
+    "onsetAt" TIMESTAMP(3) NOT NULL,
+    "outcome" "AdverseEventOutcome" NOT NULL DEFAULT 'UNKNOWN',
+    "description" TEXT,
+    "reportedById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "adverse_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "adverse_events_applicationId_idx" ON "adverse_events"("applicationId");
+
+-- CreateIndex
+CREATE INDEX "adverse_events_userId_idx" ON "adverse_events"("userId");
+
+-- CreateIndex
+CREATE INDEX "adverse_events_vaccineId_onsetAt_idx" ON "adverse_events"("vaccineId", "onsetAt");
+
+-- CreateIndex
+CREATE INDEX "adverse_events_batchId_onsetAt_idx" ON "adverse_events"("batchId", "onsetAt");
+
+-- CreateIndex
+CREATE INDEX "adverse_events_severity_idx" ON "adverse_events"("severity");
+
+-- CreateIndex
+CREATE INDEX "adverse_events_reportedById_idx" ON "adverse_events"("reportedById");
+
+-- AddForeignKey
+ALTER TABLE "adverse_events" ADD CONSTRAINT "adverse_events_applicationId_fkey" FOREIGN KEY ("applicationId") REFERENCES "vaccine_applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "adverse_events" ADD CONSTRAINT "adverse_events_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "adverse_events" ADD CONSTRAINT "adverse_events_vaccineId_fkey" FOREIGN KEY ("vaccineId") REFERENCES "vaccines"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "adverse_events" ADD CONSTRAINT "adverse_events_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "vaccine_batches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "adverse_events" ADD CONSTRAINT "adverse_events_reportedById_fkey" FOREIGN KEY ("reportedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
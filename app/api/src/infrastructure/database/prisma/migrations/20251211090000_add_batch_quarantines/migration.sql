@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "BatchStatus" ADD VALUE 'QUARANTINED';
+ALTER TYPE "BatchStatus" ADD VALUE 'RECALLED';
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'BATCH_RECALL';
+
+-- CreateEnum
+CREATE TYPE "BatchQuarantineType" AS ENUM ('QUARANTINE', 'RECALL');
+
+-- CreateTable
+CREATE TABLE "batch_quarantines" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "type" "BatchQuarantineType" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "cancelledSchedulings" INTEGER NOT NULL DEFAULT 0,
+    "releasedAt" TIMESTAMP(3),
+    "releasedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "batch_quarantines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "batch_quarantines_batchId_createdAt_idx" ON "batch_quarantines"("batchId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "batch_quarantines" ADD CONSTRAINT "batch_quarantines_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "vaccine_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batch_quarantines" ADD CONSTRAINT "batch_quarantines_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "batch_quarantines" ADD CONSTRAINT "batch_quarantines_releasedById_fkey" FOREIGN KEY ("releasedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "CampaignStatus" AS ENUM ('DRAFT', 'ACTIVE', 'FINISHED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "vaccine_schedulings" ADD COLUMN "campaignId" TEXT;
+
+-- CreateTable
+CREATE TABLE "campaigns" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "vaccineId" TEXT NOT NULL,
+    "doseNumber" INTEGER NOT NULL DEFAULT 1,
+    "targetRoles" "Role"[],
+    "onlyActiveUsers" BOOLEAN NOT NULL DEFAULT true,
+    "onlyMissingDoses" BOOLEAN NOT NULL DEFAULT true,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "dailyCapacity" INTEGER NOT NULL,
+    "status" "CampaignStatus" NOT NULL DEFAULT 'DRAFT',
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "campaigns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_CampaignNurses" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_CampaignNurses_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "vaccine_schedulings_campaignId_status_idx" ON "vaccine_schedulings"("campaignId", "status");
+
+-- CreateIndex
+CREATE INDEX "campaigns_vaccineId_idx" ON "campaigns"("vaccineId");
+
+-- CreateIndex
+CREATE INDEX "campaigns_status_startDate_idx" ON "campaigns"("status", "startDate");
+
+-- CreateIndex
+CREATE INDEX "_CampaignNurses_B_index" ON "_CampaignNurses"("B");
+
+-- AddForeignKey
+ALTER TABLE "vaccine_schedulings" ADD CONSTRAINT "vaccine_schedulings_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_vaccineId_fkey" FOREIGN KEY ("vaccineId") REFERENCES "vaccines"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CampaignNurses" ADD CONSTRAINT "_CampaignNurses_A_fkey" FOREIGN KEY ("A") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CampaignNurses" ADD CONSTRAINT "_CampaignNurses_B_fkey" FOREIGN KEY ("B") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "nurse_availabilities" (
+    "id" TEXT NOT NULL,
+    "nurseId" TEXT NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "breakStart" TEXT,
+    "breakEnd" TEXT,
+    "slotMinutes" INTEGER NOT NULL DEFAULT 15,
+    "maxPerSlot" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "nurse_availabilities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "nurse_availabilities_weekday_idx" ON "nurse_availabilities"("weekday");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "nurse_availabilities_nurseId_weekday_key" ON "nurse_availabilities"("nurseId", "weekday");
+
+-- AddForeignKey
+ALTER TABLE "nurse_availabilities" ADD CONSTRAINT "nurse_availabilities_nurseId_fkey" FOREIGN KEY ("nurseId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
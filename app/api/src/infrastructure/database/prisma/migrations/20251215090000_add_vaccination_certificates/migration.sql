@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "vaccination_certificates" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "issuedById" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "revocationReason" TEXT,
+
+    CONSTRAINT "vaccination_certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_CertificateApplications" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_CertificateApplications_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "vaccination_certificates_userId_idx" ON "vaccination_certificates"("userId");
+
+-- CreateIndex
+CREATE INDEX "_CertificateApplications_B_index" ON "_CertificateApplications"("B");
+
+-- AddForeignKey
+ALTER TABLE "vaccination_certificates" ADD CONSTRAINT "vaccination_certificates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vaccination_certificates" ADD CONSTRAINT "vaccination_certificates_issuedById_fkey" FOREIGN KEY ("issuedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CertificateApplications" ADD CONSTRAINT "_CertificateApplications_A_fkey" FOREIGN KEY ("A") REFERENCES "vaccination_certificates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_CertificateApplications" ADD CONSTRAINT "_CertificateApplications_B_fkey" FOREIGN KEY ("B") REFERENCES "vaccine_applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
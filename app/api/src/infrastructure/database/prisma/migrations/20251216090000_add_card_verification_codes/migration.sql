@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "vaccination_certificates" ADD COLUMN "verificationCode" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccination_certificates_verificationCode_key" ON "vaccination_certificates"("verificationCode");
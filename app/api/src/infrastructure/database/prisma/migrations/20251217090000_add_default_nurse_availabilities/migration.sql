@@ -0,0 +1,13 @@
+-- Default weekly template for nurses without one, so schedulings keep
+-- finding slots until each nurse sets their own hours:
+-- Monday to Friday, 08:00-17:00, break 12:00-13:00, 15 min slots
+INSERT INTO "nurse_availabilities" ("id", "nurseId", "weekday", "startTime", "endTime", "breakStart", "breakEnd", "slotMinutes", "maxPerSlot", "updatedAt")
+SELECT gen_random_uuid()::text, "users"."id", weekdays.weekday, '08:00', '17:00', '12:00', '13:00', 15, 2, CURRENT_TIMESTAMP
+FROM "users"
+CROSS JOIN generate_series(1, 5) AS weekdays(weekday)
+WHERE "users"."role" = 'NURSE'
+  AND "users"."deletedAt" IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "nurse_availabilities"
+    WHERE "nurse_availabilities"."nurseId" = "users"."id"
+  );
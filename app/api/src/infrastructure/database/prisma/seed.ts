@@ -1,8 +1,27 @@
 import bcrypt from 'bcrypt';
-import { PrismaClient } from '../generated/prisma';
+import { type Prisma, PrismaClient } from '../generated/prisma';
 
 const prisma = new PrismaClient();
 
+/**
+ * Creates the application unless the dose was already recorded
+ * (dose uniqueness is a partial index, so upsert cannot be used)
+ */
+async function ensureApplication(
+  data: Prisma.VaccineApplicationUncheckedCreateInput,
+) {
+  const existing = await prisma.vaccineApplication.findFirst({
+    where: {
+      userId: data.userId,
+      vaccineId: data.vaccineId,
+      doseNumber: data.doseNumber,
+      deletedAt: null,
+    },
+  });
+
+  return existing ?? prisma.vaccineApplication.create({ data });
+}
+
 async function main() {
   console.log('Starting database seed...');
 
@@ -696,47 +715,27 @@ async function main() {
     const batch = i % 2 === 0 ? covidBatch1 : covidBatch2;
 
     // Dose 1
-    await prisma.vaccineApplication.upsert({
-      where: {
-        userId_vaccineId_doseNumber: {
-          userId: employee.id,
-          vaccineId: covidVaccine.id,
-          doseNumber: 1,
-        },
-      },
-      update: {},
-      create: {
-        userId: employee.id,
-        vaccineId: covidVaccine.id,
-        batchId: batch.id,
-        appliedById: nurse.id,
-        doseNumber: 1,
-        applicationDate: new Date('2025-06-10'),
-        applicationSite: 'Left Deltoid',
-        observations: 'Primeira dose COVID-19',
-      },
+    await ensureApplication({
+      userId: employee.id,
+      vaccineId: covidVaccine.id,
+      batchId: batch.id,
+      appliedById: nurse.id,
+      doseNumber: 1,
+      applicationDate: new Date('2025-06-10'),
+      applicationSite: 'Left Deltoid',
+      observations: 'Primeira dose COVID-19',
     });
 
     // Dose 2
-    await prisma.vaccineApplication.upsert({
-      where: {
-        userId_vaccineId_doseNumber: {
-          userId: employee.id,
-          vaccineId: covidVaccine.id,
-          doseNumber: 2,
-        },
-      },
-      update: {},
-      create: {
-        userId: employee.id,
-        vaccineId: covidVaccine.id,
-        batchId: batch.id,
-        appliedById: nurse.id,
-        doseNumber: 2,
-        applicationDate: new Date('2025-07-01'),
-        applicationSite: 'Right Deltoid',
-        observations: 'Segunda dose COVID-19 - esquema completo',
-      },
+    await ensureApplication({
+      userId: employee.id,
+      vaccineId: covidVaccine.id,
+      batchId: batch.id,
+      appliedById: nurse.id,
+      doseNumber: 2,
+      applicationDate: new Date('2025-07-01'),
+      applicationSite: 'Right Deltoid',
+      observations: 'Segunda dose COVID-19 - esquema completo',
     });
   }
 
@@ -745,25 +744,15 @@ async function main() {
     const user = allActiveUsers[i];
     const applierNurse = allNurses[i % allNurses.length];
 
-    await prisma.vaccineApplication.upsert({
-      where: {
-        userId_vaccineId_doseNumber: {
-          userId: user.id,
-          vaccineId: fluVaccine.id,
-          doseNumber: 1,
-        },
-      },
-      update: {},
-      create: {
-        userId: user.id,
-        vaccineId: fluVaccine.id,
-        batchId: fluBatch1.id,
-        appliedById: applierNurse.id,
-        doseNumber: 1,
-        applicationDate: new Date('2025-08-05'),
-        applicationSite: 'Left Arm',
-        observations: 'Vacinação anual contra gripe - cobertura 100%',
-      },
+    await ensureApplication({
+      userId: user.id,
+      vaccineId: fluVaccine.id,
+      batchId: fluBatch1.id,
+      appliedById: applierNurse.id,
+      doseNumber: 1,
+      applicationDate: new Date('2025-08-05'),
+      applicationSite: 'Left Arm',
+      observations: 'Vacinação anual contra gripe - cobertura 100%',
     });
   }
 
@@ -778,25 +767,15 @@ async function main() {
       const baseDate = new Date('2025-04-01');
       baseDate.setDate(baseDate.getDate() + daysOffset);
 
-      await prisma.vaccineApplication.upsert({
-        where: {
-          userId_vaccineId_doseNumber: {
-            userId: employee.id,
-            vaccineId: hepatitisVaccine.id,
-            doseNumber: dose,
-          },
-        },
-        update: {},
-        create: {
-          userId: employee.id,
-          vaccineId: hepatitisVaccine.id,
-          batchId: hepatitisBatch1.id,
-          appliedById: nurse.id,
-          doseNumber: dose,
-          applicationDate: baseDate,
-          applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
-          observations: `Dose ${dose}/3 de Hepatite B`,
-        },
+      await ensureApplication({
+        userId: employee.id,
+        vaccineId: hepatitisVaccine.id,
+        batchId: hepatitisBatch1.id,
+        appliedById: nurse.id,
+        doseNumber: dose,
+        applicationDate: baseDate,
+        applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
+        observations: `Dose ${dose}/3 de Hepatite B`,
       });
     }
   }
@@ -811,25 +790,15 @@ async function main() {
       const baseDate = new Date('2025-05-15');
       baseDate.setDate(baseDate.getDate() + daysOffset);
 
-      await prisma.vaccineApplication.upsert({
-        where: {
-          userId_vaccineId_doseNumber: {
-            userId: employee.id,
-            vaccineId: hepatitisVaccine.id,
-            doseNumber: dose,
-          },
-        },
-        update: {},
-        create: {
-          userId: employee.id,
-          vaccineId: hepatitisVaccine.id,
-          batchId: hepatitisBatch1.id,
-          appliedById: nurse.id,
-          doseNumber: dose,
-          applicationDate: baseDate,
-          applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
-          observations: `Dose ${dose}/3 de Hepatite B - falta dose 3`,
-        },
+      await ensureApplication({
+        userId: employee.id,
+        vaccineId: hepatitisVaccine.id,
+        batchId: hepatitisBatch1.id,
+        appliedById: nurse.id,
+        doseNumber: dose,
+        applicationDate: baseDate,
+        applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
+        observations: `Dose ${dose}/3 de Hepatite B - falta dose 3`,
       });
     }
   }
@@ -839,25 +808,15 @@ async function main() {
     const employee = allEmployees[i];
     const nurse = allNurses[i % allNurses.length];
 
-    await prisma.vaccineApplication.upsert({
-      where: {
-        userId_vaccineId_doseNumber: {
-          userId: employee.id,
-          vaccineId: hepatitisVaccine.id,
-          doseNumber: 1,
-        },
-      },
-      update: {},
-      create: {
-        userId: employee.id,
-        vaccineId: hepatitisVaccine.id,
-        batchId: hepatitisBatch1.id,
-        appliedById: nurse.id,
-        doseNumber: 1,
-        applicationDate: new Date('2025-07-20'),
-        applicationSite: 'Left Deltoid',
-        observations: 'Dose 1/3 de Hepatite B - faltam doses 2 e 3',
-      },
+    await ensureApplication({
+      userId: employee.id,
+      vaccineId: hepatitisVaccine.id,
+      batchId: hepatitisBatch1.id,
+      appliedById: nurse.id,
+      doseNumber: 1,
+      applicationDate: new Date('2025-07-20'),
+      applicationSite: 'Left Deltoid',
+      observations: 'Dose 1/3 de Hepatite B - faltam doses 2 e 3',
     });
   }
 
@@ -868,25 +827,15 @@ async function main() {
     const user = allActiveUsers[i];
     const applierNurse = allNurses[i % allNurses.length];
 
-    await prisma.vaccineApplication.upsert({
-      where: {
-        userId_vaccineId_doseNumber: {
-          userId: user.id,
-          vaccineId: tetanusVaccine.id,
-          doseNumber: 1,
-        },
-      },
-      update: {},
-      create: {
-        userId: user.id,
-        vaccineId: tetanusVaccine.id,
-        batchId: tetanusBatch.id,
-        appliedById: applierNurse.id,
-        doseNumber: 1,
-        applicationDate: new Date('2025-09-10'),
-        applicationSite: 'Right Arm',
-        observations: 'Reforço de tétano - cobertura 100%',
-      },
+    await ensureApplication({
+      userId: user.id,
+      vaccineId: tetanusVaccine.id,
+      batchId: tetanusBatch.id,
+      appliedById: applierNurse.id,
+      doseNumber: 1,
+      applicationDate: new Date('2025-09-10'),
+      applicationSite: 'Right Arm',
+      observations: 'Reforço de tétano - cobertura 100%',
     });
   }
 
@@ -906,25 +855,15 @@ async function main() {
       const baseDate = new Date('2025-05-01');
       baseDate.setDate(baseDate.getDate() + daysOffset);
 
-      await prisma.vaccineApplication.upsert({
-        where: {
-          userId_vaccineId_doseNumber: {
-            userId: user.id,
-            vaccineId: mmrVaccine.id,
-            doseNumber: dose,
-          },
-        },
-        update: {},
-        create: {
-          userId: user.id,
-          vaccineId: mmrVaccine.id,
-          batchId: mmrBatch1.id,
-          appliedById: applierNurse.id,
-          doseNumber: dose,
-          applicationDate: baseDate,
-          applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
-          observations: `Dose ${dose}/2 de MMR - cobertura 90%`,
-        },
+      await ensureApplication({
+        userId: user.id,
+        vaccineId: mmrVaccine.id,
+        batchId: mmrBatch1.id,
+        appliedById: applierNurse.id,
+        doseNumber: dose,
+        applicationDate: baseDate,
+        applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
+        observations: `Dose ${dose}/2 de MMR - cobertura 90%`,
       });
     }
   }
@@ -934,25 +873,15 @@ async function main() {
     const user = allActiveUsers[i];
     const applierNurse = allNurses[i % allNurses.length];
 
-    await prisma.vaccineApplication.upsert({
-      where: {
-        userId_vaccineId_doseNumber: {
-          userId: user.id,
-          vaccineId: mmrVaccine.id,
-          doseNumber: 1,
-        },
-      },
-      update: {},
-      create: {
-        userId: user.id,
-        vaccineId: mmrVaccine.id,
-        batchId: mmrBatch1.id,
-        appliedById: applierNurse.id,
-        doseNumber: 1,
-        applicationDate: new Date('2025-06-15'),
-        applicationSite: 'Left Deltoid',
-        observations: 'Dose 1/2 de MMR - falta dose 2 (10% incompleto)',
-      },
+    await ensureApplication({
+      userId: user.id,
+      vaccineId: mmrVaccine.id,
+      batchId: mmrBatch1.id,
+      appliedById: applierNurse.id,
+      doseNumber: 1,
+      applicationDate: new Date('2025-06-15'),
+      applicationSite: 'Left Deltoid',
+      observations: 'Dose 1/2 de MMR - falta dose 2 (10% incompleto)',
     });
   }
 
@@ -961,25 +890,15 @@ async function main() {
     const employee = allEmployees[i];
     const nurse = allNurses[i % allNurses.length];
 
-    await prisma.vaccineApplication.upsert({
-      where: {
-        userId_vaccineId_doseNumber: {
-          userId: employee.id,
-          vaccineId: yellowFeverVaccine.id,
-          doseNumber: 1,
-        },
-      },
-      update: {},
-      create: {
-        userId: employee.id,
-        vaccineId: yellowFeverVaccine.id,
-        batchId: yellowFeverBatch.id,
-        appliedById: nurse.id,
-        doseNumber: 1,
-        applicationDate: new Date('2025-07-05'),
-        applicationSite: 'Right Arm',
-        observations: 'Dose única - válida por 10 anos',
-      },
+    await ensureApplication({
+      userId: employee.id,
+      vaccineId: yellowFeverVaccine.id,
+      batchId: yellowFeverBatch.id,
+      appliedById: nurse.id,
+      doseNumber: 1,
+      applicationDate: new Date('2025-07-05'),
+      applicationSite: 'Right Arm',
+      observations: 'Dose única - válida por 10 anos',
     });
   }
 
@@ -994,25 +913,15 @@ async function main() {
       const baseDate = new Date('2025-03-01');
       baseDate.setDate(baseDate.getDate() + daysOffset);
 
-      await prisma.vaccineApplication.upsert({
-        where: {
-          userId_vaccineId_doseNumber: {
-            userId: employee.id,
-            vaccineId: hpvVaccine.id,
-            doseNumber: dose,
-          },
-        },
-        update: {},
-        create: {
-          userId: employee.id,
-          vaccineId: hpvVaccine.id,
-          batchId: hpvBatch1.id,
-          appliedById: nurse.id,
-          doseNumber: dose,
-          applicationDate: baseDate,
-          applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
-          observations: `Dose ${dose}/3 de HPV`,
-        },
+      await ensureApplication({
+        userId: employee.id,
+        vaccineId: hpvVaccine.id,
+        batchId: hpvBatch1.id,
+        appliedById: nurse.id,
+        doseNumber: dose,
+        applicationDate: baseDate,
+        applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
+        observations: `Dose ${dose}/3 de HPV`,
       });
     }
   }
@@ -1027,25 +936,15 @@ async function main() {
       const baseDate = new Date('2025-04-01');
       baseDate.setDate(baseDate.getDate() + daysOffset);
 
-      await prisma.vaccineApplication.upsert({
-        where: {
-          userId_vaccineId_doseNumber: {
-            userId: employee.id,
-            vaccineId: hpvVaccine.id,
-            doseNumber: dose,
-          },
-        },
-        update: {},
-        create: {
-          userId: employee.id,
-          vaccineId: hpvVaccine.id,
-          batchId: hpvBatch1.id,
-          appliedById: nurse.id,
-          doseNumber: dose,
-          applicationDate: baseDate,
-          applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
-          observations: `Dose ${dose}/3 de HPV - falta dose 3`,
-        },
+      await ensureApplication({
+        userId: employee.id,
+        vaccineId: hpvVaccine.id,
+        batchId: hpvBatch1.id,
+        appliedById: nurse.id,
+        doseNumber: dose,
+        applicationDate: baseDate,
+        applicationSite: dose % 2 === 0 ? 'Right Deltoid' : 'Left Deltoid',
+        observations: `Dose ${dose}/3 de HPV - falta dose 3`,
       });
     }
   }
@@ -1055,25 +954,15 @@ async function main() {
     const employee = allEmployees[i];
     const nurse = allNurses[i % allNurses.length];
 
-    await prisma.vaccineApplication.upsert({
-      where: {
-        userId_vaccineId_doseNumber: {
-          userId: employee.id,
-          vaccineId: hpvVaccine.id,
-          doseNumber: 1,
-        },
-      },
-      update: {},
-      create: {
-        userId: employee.id,
-        vaccineId: hpvVaccine.id,
-        batchId: hpvBatch1.id,
-        appliedById: nurse.id,
-        doseNumber: 1,
-        applicationDate: new Date('2025-08-20'),
-        applicationSite: 'Left Deltoid',
-        observations: 'Dose 1/3 de HPV - faltam doses 2 e 3',
-      },
+    await ensureApplication({
+      userId: employee.id,
+      vaccineId: hpvVaccine.id,
+      batchId: hpvBatch1.id,
+      appliedById: nurse.id,
+      doseNumber: 1,
+      applicationDate: new Date('2025-08-20'),
+      applicationSite: 'Left Deltoid',
+      observations: 'Dose 1/3 de HPV - faltam doses 2 e 3',
     });
   }
 
@@ -1203,13 +1092,12 @@ async function main() {
   });
 
   // Linkando o agendamento completado à aplicação de influenza do manager
-  await prisma.vaccineApplication.update({
+  await prisma.vaccineApplication.updateMany({
     where: {
-      userId_vaccineId_doseNumber: {
-        userId: manager.id,
-        vaccineId: fluVaccine.id,
-        doseNumber: 1,
-      },
+      userId: manager.id,
+      vaccineId: fluVaccine.id,
+      doseNumber: 1,
+      deletedAt: null,
     },
     data: {
       schedulingId: completedScheduling1.id,
@@ -1230,13 +1118,12 @@ async function main() {
   });
 
   // Linkando o agendamento completado à aplicação de tétano do employee1
-  await prisma.vaccineApplication.update({
+  await prisma.vaccineApplication.updateMany({
     where: {
-      userId_vaccineId_doseNumber: {
-        userId: employee1.id,
-        vaccineId: tetanusVaccine.id,
-        doseNumber: 1,
-      },
+      userId: employee1.id,
+      vaccineId: tetanusVaccine.id,
+      doseNumber: 1,
+      deletedAt: null,
     },
     data: {
       schedulingId: completedScheduling2.id,
@@ -1307,6 +1194,53 @@ async function main() {
     data: { totalStock: 525 },
   });
 
+  // ============================================
+  // STOCK LEDGER (OPENING BALANCE)
+  // ============================================
+
+  // Only batches without movements, so running the seed again is harmless
+  const seededBatches = await prisma.vaccineBatch.findMany({
+    where: { movements: { none: {} } },
+  });
+
+  await prisma.stockMovement.createMany({
+    data: seededBatches
+      .filter((batch) => batch.currentQuantity > 0)
+      .map((batch) => ({
+        batchId: batch.id,
+        vaccineId: batch.vaccineId,
+        type: 'RECEIPT' as const,
+        quantity: batch.currentQuantity,
+        balanceAfter: batch.currentQuantity,
+        reason: 'Saldo inicial',
+        createdById: batch.createdById,
+      })),
+  });
+
+  // ============================================
+  // NURSE AVAILABILITY
+  // ============================================
+
+  // Monday to Friday, 08:00-17:00 with lunch break
+  for (const nurse of allNurses) {
+    for (const weekday of [1, 2, 3, 4, 5]) {
+      await prisma.nurseAvailability.upsert({
+        where: { nurseId_weekday: { nurseId: nurse.id, weekday } },
+        update: {},
+        create: {
+          nurseId: nurse.id,
+          weekday,
+          startTime: '08:00',
+          endTime: '17:00',
+          breakStart: '12:00',
+          breakEnd: '13:00',
+          slotMinutes: 15,
+          maxPerSlot: 2,
+        },
+      });
+    }
+  }
+
   console.log('✅ Seed completed successfully!\n');
   console.log('📋 Created users:');
   console.log('   - 2 Managers');
@@ -1323,6 +1257,11 @@ async function main() {
   console.log('   - Febre Amarela - 1 dose');
   console.log('   - HPV Quadrivalente - 3 doses, 60 days interval\n');
 
+  console.log('🗓️ Created nurse availability:');
+  console.log(
+    '   - All nurses: Mon-Fri 08:00-17:00, break 12:00-13:00, 15 min slots\n',
+  );
+
   console.log('📦 Created vaccine batches:');
   console.log('   - 11 batches total');
   console.log('   - 8 batches with future expiration dates');
@@ -1,12 +1,37 @@
+import { InMemoryNotificationStream } from '@infrastructure/messaging/InMemoryNotificationStream';
+import { AdverseEventController } from '@modules/adverse-event/controllers/adverseEventController';
+import { AdverseEventService } from '@modules/adverse-event/services/adverseEventService';
+import { AdverseEventStore } from '@modules/adverse-event/stores/adverseEventStore';
 import { AlertsController } from '@modules/alerts/controllers/alertsController';
 import { AlertsService } from '@modules/alerts/services/alertsService';
+import { CampaignController } from '@modules/campaign/controllers/campaignController';
+import { CampaignService } from '@modules/campaign/services/campaignService';
+import { CampaignStore } from '@modules/campaign/stores/campaignStore';
+import { CertificateController } from '@modules/certificate/controllers/certificateController';
+import { CertificateService } from '@modules/certificate/services/certificateService';
+import { VaccinationCertificateStore } from '@modules/certificate/stores/vaccinationCertificateStore';
+import { InvitationController } from '@modules/invitation/controllers/invitationController';
+import { EmailInvitationNotifier } from '@modules/invitation/notifiers/EmailInvitationNotifier';
+import { InvitationService } from '@modules/invitation/services/invitationService';
+import { InvitationStore } from '@modules/invitation/stores/invitationStore';
+import { NurseAvailabilityController } from '@modules/nurse-availability/controllers/nurseAvailabilityController';
+import { NurseAssignmentService } from '@modules/nurse-availability/services/nurseAssignmentService';
+import { NurseAvailabilityService } from '@modules/nurse-availability/services/nurseAvailabilityService';
+import { NurseAvailabilityStore } from '@modules/nurse-availability/stores/nurseAvailabilityStore';
+import { ReportController } from '@modules/reports/controllers/reportController';
+import { ReportService } from '@modules/reports/services/reportService';
+import { ReportStore } from '@modules/reports/stores/reportStore';
+import { EmailPasswordResetNotifier } from '@modules/user/notifiers/EmailPasswordResetNotifier';
 import { UserService } from '@modules/user/services/userService';
+import { PasswordResetTokenStore } from '@modules/user/stores/passwordResetTokenStore';
+import { UserSessionStore } from '@modules/user/stores/userSessionStore';
 import { UserStore } from '@modules/user/stores/userStore';
 import { VaccinationCoverageController } from '@modules/vaccination-coverage/controllers/vaccinationCoverageController';
 import { VaccinationCoverageService } from '@modules/vaccination-coverage/services/vaccinationCoverage';
 import { VaccineApplicationService } from '@modules/vaccine-application/services/vaccineApplicationService';
 import { VaccineApplicationStore } from '@modules/vaccine-application/stores/vaccineApplicationStore';
 import { VaccineBatchService } from '@modules/vaccine-batch/services/vaccineBatchService';
+import { StockMovementStore } from '@modules/vaccine-batch/stores/stockMovementStore';
 import { VaccineBatchStore } from '@modules/vaccine-batch/stores/vaccineBatchStore';
 import { VaccineSchedulingService } from '@modules/vaccine-scheduling/services/vaccineSchedulingService';
 import { VaccineSchedulingStore } from '@modules/vaccine-scheduling/stores/vaccineSchedulingStore';
@@ -16,18 +41,34 @@ import { container } from 'tsyringe';
 import { TOKENS } from './tokens';
 
 // Notification module imports
+import { createMailTransport } from '@infrastructure/mail';
 import { NodeEventBus } from '@infrastructure/messaging/NodeEventBus';
+import { createFileStorage } from '@infrastructure/storage';
 import { JobServiceManager } from '@modules/jobs/services/jobServiceManager';
+import { DeadLetterController } from '@modules/notifications/controllers/DeadLetterController';
 import { NotificationController } from '@modules/notifications/controllers/NotificationController';
+import { EmailBatchExpiringHandler } from '@modules/notifications/handlers/EmailBatchExpiringHandler';
+import { EmailLowStockHandler } from '@modules/notifications/handlers/EmailLowStockHandler';
+import { EmailNurseChangedHandler } from '@modules/notifications/handlers/EmailNurseChangedHandler';
+import { EmailSevereAdverseEventHandler } from '@modules/notifications/handlers/EmailSevereAdverseEventHandler';
+import { EmailVaccineAppliedHandler } from '@modules/notifications/handlers/EmailVaccineAppliedHandler';
+import { EmailVaccineScheduledHandler } from '@modules/notifications/handlers/EmailVaccineScheduledHandler';
 import { InAppBatchExpiringHandler } from '@modules/notifications/handlers/InAppBatchExpiringHandler';
+import { InAppBatchQuarantinedHandler } from '@modules/notifications/handlers/InAppBatchQuarantinedHandler';
+import { InAppDoseReminderHandler } from '@modules/notifications/handlers/InAppDoseReminderHandler';
 import { InAppLowStockHandler } from '@modules/notifications/handlers/InAppLowStockHandler';
 import { InAppNurseChangedHandler } from '@modules/notifications/handlers/InAppNurseChangedHandler';
 import { InAppReportGeneratedHandler } from '@modules/notifications/handlers/InAppReportGeneratedHandler';
+import { InAppSevereAdverseEventHandler } from '@modules/notifications/handlers/InAppSevereAdverseEventHandler';
 import { InAppVaccineAppliedHandler } from '@modules/notifications/handlers/InAppVaccineAppliedHandler';
 import { InAppVaccineScheduledHandler } from '@modules/notifications/handlers/InAppVaccineScheduledHandler';
+import { DeadLetterService } from '@modules/notifications/services/DeadLetterService';
 import { NotificationBootstrap } from '@modules/notifications/services/NotificationBootstrap';
 import { NotificationService } from '@modules/notifications/services/NotificationService';
+import { DeadLetterEventStore } from '@modules/notifications/stores/DeadLetterEventStore';
 import { NotificationStore } from '@modules/notifications/stores/NotificationStore';
+import { OutboxEventStore } from '@modules/notifications/stores/OutboxEventStore';
+import { SentReminderStore } from '@modules/notifications/stores/SentReminderStore';
 import { getAndResolveAllCronJobs } from '@shared/helpers/cronJobHelper';
 
 /**
@@ -61,8 +102,14 @@ export function setupContainer(): void {
   // Using singleton ensures all services share the same store instance,
   // which is critical for caching and connection pooling
   container.registerSingleton(TOKENS.IUserStore, UserStore);
+  container.registerSingleton(TOKENS.IUserSessionStore, UserSessionStore);
+  container.registerSingleton(
+    TOKENS.IPasswordResetTokenStore,
+    PasswordResetTokenStore,
+  );
   container.registerSingleton(TOKENS.IVaccineStore, VaccineStore);
   container.registerSingleton(TOKENS.IVaccineBatchStore, VaccineBatchStore);
+  container.registerSingleton(TOKENS.IStockMovementStore, StockMovementStore);
   container.registerSingleton(
     TOKENS.IVaccineApplicationStore,
     VaccineApplicationStore,
@@ -71,9 +118,31 @@ export function setupContainer(): void {
     TOKENS.IVaccineSchedulingStore,
     VaccineSchedulingStore,
   );
+  container.registerSingleton(TOKENS.IReportStore, ReportStore);
+  container.registerSingleton(TOKENS.IAdverseEventStore, AdverseEventStore);
+  container.registerSingleton(TOKENS.ICampaignStore, CampaignStore);
+  container.registerSingleton(
+    TOKENS.INurseAvailabilityStore,
+    NurseAvailabilityStore,
+  );
+  container.registerSingleton(TOKENS.IInvitationStore, InvitationStore);
+  container.registerSingleton(
+    TOKENS.IVaccinationCertificateStore,
+    VaccinationCertificateStore,
+  );
 
   // Register notification module stores
   container.registerSingleton(TOKENS.INotificationStore, NotificationStore);
+  container.registerSingleton(TOKENS.ISentReminderStore, SentReminderStore);
+  container.registerSingleton(TOKENS.IOutboxEventStore, OutboxEventStore);
+  container.registerSingleton(
+    TOKENS.IDeadLetterEventStore,
+    DeadLetterEventStore,
+  );
+
+  // Register file storage (profile photos)
+  const fileStorage = createFileStorage();
+  container.registerInstance(TOKENS.IFileStorage, fileStorage);
 
   // Register services as singletons
   // Services are stateless and can be safely shared across the application
@@ -94,10 +163,38 @@ export function setupContainer(): void {
     TOKENS.VaccinationCoverageService,
     VaccinationCoverageService,
   );
+  container.registerSingleton(TOKENS.ReportService, ReportService);
+  container.registerSingleton(TOKENS.AdverseEventService, AdverseEventService);
+  container.registerSingleton(TOKENS.CampaignService, CampaignService);
+  container.registerSingleton(
+    TOKENS.NurseAvailabilityService,
+    NurseAvailabilityService,
+  );
+  container.registerSingleton(
+    TOKENS.NurseAssignmentService,
+    NurseAssignmentService,
+  );
+  container.registerSingleton(TOKENS.InvitationService, InvitationService);
+  container.registerSingleton(TOKENS.CertificateService, CertificateService);
 
   // Register notification module services and infrastructure
   container.registerSingleton(TOKENS.IEventBus, NodeEventBus);
+  container.registerSingleton(
+    TOKENS.INotificationStream,
+    InMemoryNotificationStream,
+  );
+  const mailTransport = createMailTransport();
+  container.registerInstance(TOKENS.IMailTransport, mailTransport);
+  container.registerSingleton(
+    TOKENS.IPasswordResetNotifier,
+    EmailPasswordResetNotifier,
+  );
+  container.registerSingleton(
+    TOKENS.IInvitationNotifier,
+    EmailInvitationNotifier,
+  );
   container.registerSingleton(TOKENS.NotificationService, NotificationService);
+  container.registerSingleton(TOKENS.DeadLetterService, DeadLetterService);
   container.registerSingleton(
     TOKENS.NotificationBootstrap,
     NotificationBootstrap,
@@ -125,11 +222,56 @@ export function setupContainer(): void {
     TOKENS.VaccineAppliedHandler,
     InAppVaccineAppliedHandler,
   );
+  container.registerSingleton(
+    TOKENS.DoseReminderHandler,
+    InAppDoseReminderHandler,
+  );
+  container.registerSingleton(
+    TOKENS.SevereAdverseEventHandler,
+    InAppSevereAdverseEventHandler,
+  );
+  container.registerSingleton(
+    TOKENS.BatchQuarantinedHandler,
+    InAppBatchQuarantinedHandler,
+  );
+
+  // Register email event handlers
+  container.registerSingleton(
+    TOKENS.EmailVaccineScheduledHandler,
+    EmailVaccineScheduledHandler,
+  );
+  container.registerSingleton(
+    TOKENS.EmailNurseChangedHandler,
+    EmailNurseChangedHandler,
+  );
+  container.registerSingleton(
+    TOKENS.EmailVaccineAppliedHandler,
+    EmailVaccineAppliedHandler,
+  );
+  container.registerSingleton(
+    TOKENS.EmailBatchExpiringHandler,
+    EmailBatchExpiringHandler,
+  );
+  container.registerSingleton(
+    TOKENS.EmailLowStockHandler,
+    EmailLowStockHandler,
+  );
+  container.registerSingleton(
+    TOKENS.EmailSevereAdverseEventHandler,
+    EmailSevereAdverseEventHandler,
+  );
 
   // Register controllers
   container.registerSingleton(NotificationController);
+  container.registerSingleton(DeadLetterController);
   container.registerSingleton(AlertsController);
   container.registerSingleton(VaccinationCoverageController);
+  container.registerSingleton(ReportController);
+  container.registerSingleton(AdverseEventController);
+  container.registerSingleton(CampaignController);
+  container.registerSingleton(NurseAvailabilityController);
+  container.registerSingleton(InvitationController);
+  container.registerSingleton(CertificateController);
 
   // Initialize notification system (register event handlers with event bus)
   const notificationBootstrap = container.resolve<NotificationBootstrap>(
@@ -147,15 +289,35 @@ export function setupContainer(): void {
   console.log('📦 DI Container configured');
   console.log('   Stores:');
   console.log('   └─ IUserStore → Using UserStore (Prisma)');
+  console.log('   └─ IUserSessionStore → Using UserSessionStore (Prisma)');
+  console.log(
+    '   └─ IPasswordResetTokenStore → Using PasswordResetTokenStore (Prisma)',
+  );
   console.log('   └─ IVaccineStore → Using VaccineStore (Prisma)');
   console.log('   └─ IVaccineBatchStore → Using VaccineBatchStore (Prisma)');
+  console.log('   └─ IStockMovementStore → Using StockMovementStore (Prisma)');
   console.log(
     '   └─ IVaccineApplicationStore → Using VaccineApplicationStore (Prisma)',
   );
   console.log(
     '   └─ IVaccineSchedulingStore → Using VaccineSchedulingStore (Prisma)',
   );
+  console.log('   └─ IReportStore → Using ReportStore (Prisma)');
+  console.log('   └─ IAdverseEventStore → Using AdverseEventStore (Prisma)');
+  console.log('   └─ ICampaignStore → Using CampaignStore (Prisma)');
+  console.log(
+    '   └─ INurseAvailabilityStore → Using NurseAvailabilityStore (Prisma)',
+  );
+  console.log('   └─ IInvitationStore → Using InvitationStore (Prisma)');
+  console.log(
+    '   └─ IVaccinationCertificateStore → Using VaccinationCertificateStore (Prisma)',
+  );
   console.log('   └─ INotificationStore → Using NotificationStore (Prisma)');
+  console.log('   └─ ISentReminderStore → Using SentReminderStore (Prisma)');
+  console.log('   └─ IOutboxEventStore → Using OutboxEventStore (Prisma)');
+  console.log(
+    '   └─ IDeadLetterEventStore → Using DeadLetterEventStore (Prisma)',
+  );
   console.log('   Services:');
   console.log('   └─ UserService → Registered as singleton');
   console.log('   └─ VaccineService → Registered as singleton');
@@ -164,9 +326,30 @@ export function setupContainer(): void {
   console.log('   └─ VaccineSchedulingService → Registered as singleton');
   console.log('   └─ AlertsService → Registered as singleton');
   console.log('   └─ VaccinationCoverageService → Registered as singleton');
+  console.log('   └─ ReportService → Registered as singleton');
+  console.log('   └─ AdverseEventService → Registered as singleton');
+  console.log('   └─ CampaignService → Registered as singleton');
+  console.log('   └─ NurseAvailabilityService → Registered as singleton');
+  console.log('   └─ NurseAssignmentService → Registered as singleton');
+  console.log('   └─ InvitationService → Registered as singleton');
+  console.log('   └─ CertificateService → Registered as singleton');
   console.log('   └─ NotificationService → Registered as singleton');
+  console.log('   └─ DeadLetterService → Registered as singleton');
   console.log('   Infrastructure:');
-  console.log('   └─ IEventBus → Using NodeEventBus (EventEmitter)');
+  console.log('   └─ IEventBus → Using NodeEventBus (Postgres outbox)');
+  console.log(
+    '   └─ INotificationStream → Using InMemoryNotificationStream (SSE)',
+  );
+  console.log(
+    `   └─ IMailTransport → Using ${mailTransport.constructor.name} (${mailTransport.name})`,
+  );
+  console.log(
+    '   └─ IPasswordResetNotifier → Using EmailPasswordResetNotifier',
+  );
+  console.log('   └─ IInvitationNotifier → Using EmailInvitationNotifier');
+  console.log(
+    `   └─ IFileStorage → Using ${fileStorage.constructor.name} (${fileStorage.name})`,
+  );
 
   // Future: Add environment-based switching
   // if (process.env.NODE_ENV === 'test') {
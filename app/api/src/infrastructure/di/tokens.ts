@@ -23,8 +23,27 @@ export const TOKENS = {
   IUserStore: Symbol.for('IUserStore'),
   IVaccineStore: Symbol.for('IVaccineStore'),
   IVaccineBatchStore: Symbol.for('IVaccineBatchStore'),
+  IStockMovementStore: Symbol.for('IStockMovementStore'),
   IVaccineApplicationStore: Symbol.for('IVaccineApplicationStore'),
   IVaccineSchedulingStore: Symbol.for('IVaccineSchedulingStore'),
+  IReportStore: Symbol.for('IReportStore'),
+  IAdverseEventStore: Symbol.for('IAdverseEventStore'),
+  ICampaignStore: Symbol.for('ICampaignStore'),
+  INurseAvailabilityStore: Symbol.for('INurseAvailabilityStore'),
+  IInvitationStore: Symbol.for('IInvitationStore'),
+  IVaccinationCertificateStore: Symbol.for('IVaccinationCertificateStore'),
+  ISentReminderStore: Symbol.for('ISentReminderStore'),
+  IOutboxEventStore: Symbol.for('IOutboxEventStore'),
+  IDeadLetterEventStore: Symbol.for('IDeadLetterEventStore'),
+
+  /**
+   * Token for IUserSessionStore interface
+   *
+   * Login sessions backing refresh tokens. Also read by authMiddleware to
+   * reject access tokens of revoked sessions.
+   */
+  IUserSessionStore: Symbol.for('IUserSessionStore'),
+  IPasswordResetTokenStore: Symbol.for('IPasswordResetTokenStore'),
 
   /**
    * Token for UserService
@@ -43,6 +62,13 @@ export const TOKENS = {
   VaccineSchedulingService: Symbol.for('VaccineSchedulingService'),
   AlertsService: Symbol.for('AlertsService'),
   VaccinationCoverageService: Symbol.for('VaccinationCoverageService'),
+  ReportService: Symbol.for('ReportService'),
+  AdverseEventService: Symbol.for('AdverseEventService'),
+  CampaignService: Symbol.for('CampaignService'),
+  NurseAvailabilityService: Symbol.for('NurseAvailabilityService'),
+  NurseAssignmentService: Symbol.for('NurseAssignmentService'),
+  InvitationService: Symbol.for('InvitationService'),
+  CertificateService: Symbol.for('CertificateService'),
 
   // ============================================
   // Notification Module Tokens
@@ -52,7 +78,7 @@ export const TOKENS = {
    * Token for IEventBus interface
    *
    * Implementations:
-   * - NodeEventBus (EventEmitter-based, MVP)
+   * - NodeEventBus (Postgres outbox with retry and dead letters, MVP)
    * - BullMQEventBus (Redis queue-based, future production)
    * - RabbitMQEventBus (AMQP-based, future scale)
    *
@@ -62,6 +88,16 @@ export const TOKENS = {
    */
   IEventBus: Symbol.for('IEventBus'),
 
+  /**
+   * Token for INotificationStream interface
+   *
+   * Implementations:
+   * - InMemoryNotificationStream (EventEmitter, single server)
+   *
+   * Pushes notification changes to clients connected via SSE.
+   */
+  INotificationStream: Symbol.for('INotificationStream'),
+
   /**
    * Token for INotificationStore interface
    *
@@ -80,6 +116,13 @@ export const TOKENS = {
    */
   NotificationService: Symbol.for('NotificationService'),
 
+  /**
+   * Token for DeadLetterService
+   *
+   * Lets managers inspect and replay events that exhausted their retries.
+   */
+  DeadLetterService: Symbol.for('DeadLetterService'),
+
   /**
    * Token for NotificationBootstrap
    *
@@ -88,6 +131,39 @@ export const TOKENS = {
    */
   NotificationBootstrap: Symbol.for('NotificationBootstrap'),
 
+  /**
+   * Token for IMailTransport interface
+   *
+   * Implementations:
+   * - SmtpMailTransport (nodemailer, MAIL_TRANSPORT=smtp)
+   * - ConsoleMailTransport (development, MAIL_TRANSPORT=console)
+   */
+  IMailTransport: Symbol.for('IMailTransport'),
+
+  /**
+   * Token for IPasswordResetNotifier interface
+   *
+   * Implementations:
+   * - EmailPasswordResetNotifier (sends the link through IMailTransport)
+   */
+  IPasswordResetNotifier: Symbol.for('IPasswordResetNotifier'),
+
+  /**
+   * Token for IInvitationNotifier interface
+   *
+   * Implementations:
+   * - EmailInvitationNotifier (sends the invite link through IMailTransport)
+   */
+  IInvitationNotifier: Symbol.for('IInvitationNotifier'),
+
+  /**
+   * Token for IFileStorage interface
+   *
+   * Implementations:
+   * - LocalFileStorage (local disk, STORAGE_DRIVER=local)
+   */
+  IFileStorage: Symbol.for('IFileStorage'),
+
   // ============================================
   // Notification Event Handler Tokens
   // ============================================
@@ -117,4 +193,30 @@ export const TOKENS = {
    */
   ReportGeneratedHandler: Symbol.for('ReportGeneratedHandler'),
   VaccineAppliedHandler: Symbol.for('VaccineAppliedHandler'),
+
+  /**
+   * Dose reminder in-app notification handler
+   */
+  DoseReminderHandler: Symbol.for('DoseReminderHandler'),
+
+  /**
+   * Severe adverse event in-app notification handler
+   */
+  SevereAdverseEventHandler: Symbol.for('SevereAdverseEventHandler'),
+
+  /**
+   * Batch quarantine/recall in-app notification handler
+   */
+  BatchQuarantinedHandler: Symbol.for('BatchQuarantinedHandler'),
+
+  // ============================================
+  // Email Event Handler Tokens
+  // ============================================
+
+  EmailVaccineScheduledHandler: Symbol.for('EmailVaccineScheduledHandler'),
+  EmailNurseChangedHandler: Symbol.for('EmailNurseChangedHandler'),
+  EmailVaccineAppliedHandler: Symbol.for('EmailVaccineAppliedHandler'),
+  EmailBatchExpiringHandler: Symbol.for('EmailBatchExpiringHandler'),
+  EmailLowStockHandler: Symbol.for('EmailLowStockHandler'),
+  EmailSevereAdverseEventHandler: Symbol.for('EmailSevereAdverseEventHandler'),
 } as const;
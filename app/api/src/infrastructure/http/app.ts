@@ -48,7 +48,9 @@ export class App {
     // Request logging (simple version - replace with morgan in production)
     this.server.use((req, _res, next) => {
       const timestamp = new Date().toISOString();
-      console.log(`[${timestamp}] ${req.method} ${req.url} - IP: ${req.ip}`);
+      // EventSource clients authenticate with ?token=, keep it out of the logs
+      const url = req.url.replace(/([?&]token=)[^&]*/, '$1[REDACTED]');
+      console.log(`[${timestamp}] ${req.method} ${url} - IP: ${req.ip}`);
       next();
     });
 
@@ -0,0 +1,40 @@
+/**
+ * ConsoleMailTransport - Development transport
+ *
+ * Logs every email to the console instead of sending it. When
+ * MAIL_OUTPUT_DIR is set, the HTML version is also written to a file so
+ * the template can be opened in a browser.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type {
+  IMailTransport,
+  MailMessage,
+} from '@shared/interfaces/mailTransport';
+import type { MailConfig } from './mailConfig';
+
+export class ConsoleMailTransport implements IMailTransport {
+  readonly name = 'console';
+
+  constructor(private readonly config: MailConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(
+      `[ConsoleMailTransport] To: ${message.to} | Subject: ${message.subject}\n${message.text}`,
+    );
+
+    if (!this.config.outputDir) {
+      return;
+    }
+
+    await mkdir(this.config.outputDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9]/g, '_')}.html`;
+    await writeFile(
+      path.join(this.config.outputDir, fileName),
+      message.html,
+      'utf-8',
+    );
+  }
+}
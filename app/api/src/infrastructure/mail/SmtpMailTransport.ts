@@ -0,0 +1,40 @@
+/**
+ * SmtpMailTransport - nodemailer-based SMTP transport
+ *
+ * Delivers emails through any SMTP server. For local development, run
+ * MailHog (see docker-compose.yml) and open http://localhost:8025 to
+ * inspect the messages.
+ */
+
+import type {
+  IMailTransport,
+  MailMessage,
+} from '@shared/interfaces/mailTransport';
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { MailConfig } from './mailConfig';
+
+export class SmtpMailTransport implements IMailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(private readonly config: MailConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user
+        ? { user: config.user, pass: config.password }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import type { IMailTransport } from '@shared/interfaces/mailTransport';
+import { ConsoleMailTransport } from './ConsoleMailTransport';
+import { SmtpMailTransport } from './SmtpMailTransport';
+import { getMailConfig } from './mailConfig';
+
+export { ConsoleMailTransport } from './ConsoleMailTransport';
+export { SmtpMailTransport } from './SmtpMailTransport';
+export { getMailConfig, type MailConfig } from './mailConfig';
+
+/**
+ * Creates the mail transport selected by MAIL_TRANSPORT
+ */
+export const createMailTransport = (): IMailTransport => {
+  const config = getMailConfig();
+
+  if (config.transport === 'smtp') {
+    return new SmtpMailTransport(config);
+  }
+
+  return new ConsoleMailTransport(config);
+};
@@ -0,0 +1,44 @@
+/**
+ * Mail configuration
+ *
+ * Reads email settings from environment variables.
+ *
+ * Variables:
+ * - MAIL_TRANSPORT: 'smtp' | 'console' (default: 'console')
+ * - MAIL_FROM: sender address (default: 'Univas Enfermagem <no-reply@univas.edu.br>')
+ * - MAIL_HOST / MAIL_PORT: SMTP server (default: localhost:1025, MailHog)
+ * - MAIL_SECURE: 'true' to use TLS from the start (port 465)
+ * - MAIL_USER / MAIL_PASSWORD: SMTP credentials (optional, MailHog needs none)
+ * - MAIL_OUTPUT_DIR: directory where the console transport writes emails (optional)
+ * - APP_WEB_URL: web app URL used in email links (default: http://localhost:5173)
+ */
+
+export type MailTransportType = 'smtp' | 'console';
+
+export interface MailConfig {
+  transport: MailTransportType;
+  from: string;
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  outputDir?: string;
+  webUrl: string;
+}
+
+export const getMailConfig = (): MailConfig => {
+  const port = Number(process.env.MAIL_PORT);
+
+  return {
+    transport: process.env.MAIL_TRANSPORT === 'smtp' ? 'smtp' : 'console',
+    from: process.env.MAIL_FROM || 'Univas Enfermagem <no-reply@univas.edu.br>',
+    host: process.env.MAIL_HOST || 'localhost',
+    port: Number.isInteger(port) && port > 0 ? port : 1025,
+    secure: process.env.MAIL_SECURE === 'true',
+    user: process.env.MAIL_USER || undefined,
+    password: process.env.MAIL_PASSWORD || undefined,
+    outputDir: process.env.MAIL_OUTPUT_DIR || undefined,
+    webUrl: process.env.APP_WEB_URL || 'http://localhost:5173',
+  };
+};
@@ -0,0 +1,39 @@
+/**
+ * InMemoryNotificationStream - EventEmitter-based INotificationStream
+ *
+ * Keeps one channel per user in memory. Like NodeEventBus delivery, it only
+ * reaches clients connected to this server instance; a multi-instance
+ * deployment needs a shared broker (e.g. Redis pub/sub) behind the same
+ * interface.
+ */
+
+import { EventEmitter } from 'node:events';
+import type {
+  INotificationStream,
+  NotificationStreamListener,
+  NotificationStreamMessage,
+} from '@shared/interfaces/notificationStream';
+import { injectable } from 'tsyringe';
+
+@injectable()
+export class InMemoryNotificationStream implements INotificationStream {
+  private readonly emitter: EventEmitter;
+
+  constructor() {
+    this.emitter = new EventEmitter();
+    // One listener per open connection (tabs, devices), no fixed limit
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(userId: string, message: NotificationStreamMessage): void {
+    this.emitter.emit(userId, message);
+  }
+
+  subscribe(userId: string, listener: NotificationStreamListener): () => void {
+    this.emitter.on(userId, listener);
+
+    return () => {
+      this.emitter.off(userId, listener);
+    };
+  }
+}
@@ -1,24 +1,26 @@
 /**
- * NodeEventBus - EventEmitter-based Event Bus Implementation
+ * NodeEventBus - Outbox-backed Event Bus Implementation
  *
- * Simple in-process event bus using Node.js EventEmitter.
- * Suitable for MVP and single-server deployments.
+ * In-process event bus that persists every event to the outbox table
+ * (outbox_events) before delivering it. Suitable for single-server deployments.
  *
  * Characteristics:
- * - In-memory, in-process (single server only)
- * - Supports both fire-and-forget and wait-for-completion modes
- * - No persistence (events lost on restart)
- * - Low latency (microseconds)
+ * - In-process delivery (single server only)
+ * - Fire-and-forget: emit() returns as soon as the event is persisted
+ * - Persistent: events survive crashes and are delivered by OutboxDispatchJob
+ * - Retry with exponential backoff (OUTBOX_MAX_ATTEMPTS, OUTBOX_RETRY_BASE_DELAY_SECONDS)
+ * - Dead letter queue: handlers that exhaust their attempts are recorded in
+ *   dead_letter_events and can be replayed by a manager
  *
- * Emission Modes:
- * 1. Fire-and-forget (default): emit() returns immediately, handlers run in background
- * 2. Wait-for-completion: emit(..., {waitForCompletion: true}) waits for all handlers
- *    and returns EmitResult with succeeded/failed handlers (useful for retry logic)
+ * Delivery Paths:
+ * 1. emit(): persists the event and delivers it right away in the background
+ * 2. enqueueOutboxEvent() inside a store transaction: the event is only
+ *    persisted if the domain write commits, dispatchPending() delivers it
  *
  * Handler Isolation:
- * - All handlers are wrapped in error boundaries
+ * - Each handler runs in its own error boundary (Promise.allSettled)
  * - One handler failure does not affect others
- * - Failed handlers are tracked in EmitResult when using wait-for-completion mode
+ * - Only the failed handlers are retried, tracked by their registered name
  *
  * Future migration path:
  * When ready to migrate to BullMQ, create BullMQEventBus.ts:
@@ -28,57 +30,86 @@
  * - Zero changes to services or handlers!
  */
 
-import { EventEmitter } from 'node:events';
-import { injectable } from 'tsyringe';
+import { TOKENS } from '@infrastructure/di/tokens';
 import type { IEventBus } from '@modules/notifications/contracts';
+import {
+  OUTBOX_DISPATCH_BATCH_SIZE,
+  OUTBOX_LOCK_TIMEOUT_MS,
+} from '@shared/constants/eventOutbox';
+import {
+  deserializeEventPayload,
+  getOutboxMaxAttempts,
+  getOutboxRetryDelayMs,
+} from '@shared/helpers/outboxHelper';
+import { getCurrentTimestamp } from '@shared/helpers/timeHelper';
 import type { HandlerResult } from '@shared/interfaces/eventBus';
+import type { IOutboxEventStore } from '@shared/interfaces/outboxEvent';
+import type { OutboxEvent } from '@shared/models/outboxEvent';
+import { inject, injectable } from 'tsyringe';
+
+type EventHandler = (...args: any[]) => Promise<void>;
+
+interface RegisteredHandler {
+  name: string;
+  handler: EventHandler;
+}
 
 @injectable()
 export class NodeEventBus implements IEventBus {
-  private readonly emitter: EventEmitter;
-
   /**
-   * Map to store the relationship between original handlers and their wrapped versions.
-   * This is necessary because we wrap handlers in error boundaries, but we need to be able
-   * to unsubscribe using the original handler reference.
+   * Handlers registered per event, keyed by the original handler reference
+   * so they can be unsubscribed with off().
    *
-   * Structure: Map<eventName, Map<originalHandler, wrappedHandler>>
+   * Structure: Map<eventName, Map<handler, RegisteredHandler>>
    */
   private readonly handlerMap: Map<
     string,
-    Map<(...args: any[]) => Promise<void>, (...args: any[]) => Promise<void>>
+    Map<EventHandler, RegisteredHandler>
   > = new Map();
 
-  constructor() {
-    this.emitter = new EventEmitter();
-    // Increase max listeners to avoid memory leak warnings
-    // (we may have multiple handlers per event type)
-    this.emitter.setMaxListeners(100);
-  }
+  // Prevents overlapping dispatcher runs in this process
+  private isDispatching = false;
+
+  constructor(
+    @inject(TOKENS.IOutboxEventStore)
+    private readonly outboxEventStore: IOutboxEventStore,
+  ) {}
 
   async emit<T = unknown>(eventName: string, payload: T): Promise<void> {
     try {
-      // Get all wrapped handlers for this event
-      const eventHandlers = this.handlerMap.get(eventName);
-
-      // If no handlers registered, return early
-      if (!eventHandlers?.size) {
+      // If no handlers registered, there is nothing to deliver
+      if (!this.handlerMap.get(eventName)?.size) {
         return;
       }
 
-      // Get all wrapped handlers
-      const wrappedHandlers = Array.from(eventHandlers.values());
+      let outboxEvent: OutboxEvent | null = null;
 
-      // Execute all handlers in background using Promise.allSettled
-      // This ensures we track all results without blocking the caller
-      this.executeHandlersInBackground(
-        eventName,
-        payload,
-        wrappedHandlers,
-        eventHandlers,
-      );
+      try {
+        // Created as PROCESSING: it is delivered right below, the dispatcher
+        // only takes it over if this delivery never finishes
+        outboxEvent = await this.outboxEventStore.create({
+          eventName,
+          payload,
+          status: 'PROCESSING',
+        });
+      } catch (error) {
+        console.error(
+          `[NodeEventBus] Could not persist event '${eventName}', delivering without retry:`,
+          error,
+        );
+      }
+
+      const delivery = outboxEvent
+        ? this.deliver(outboxEvent, payload)
+        : this.executeHandlers(eventName, payload, this.getHandlers(eventName));
 
       // Return immediately - handlers execute in background
+      delivery.catch((error) => {
+        console.error(
+          `[NodeEventBus] Unexpected error in background handler execution for '${eventName}':`,
+          error,
+        );
+      });
     } catch (error) {
       // Log error but don't throw - we don't want event emission to crash the app
       console.error(
@@ -88,136 +119,198 @@ export class NodeEventBus implements IEventBus {
     }
   }
 
+  async dispatchPending(): Promise<number> {
+    if (this.isDispatching) {
+      return 0;
+    }
+
+    this.isDispatching = true;
+
+    try {
+      const staleBefore = new Date(
+        getCurrentTimestamp() - OUTBOX_LOCK_TIMEOUT_MS,
+      );
+      const events = await this.outboxEventStore.claimDue(
+        OUTBOX_DISPATCH_BATCH_SIZE,
+        staleBefore,
+      );
+
+      for (const event of events) {
+        try {
+          await this.deliver(event);
+        } catch (error) {
+          // The event stays PROCESSING and is claimed again once its lock expires
+          console.error(
+            `[NodeEventBus] Error delivering outbox event '${event.id}':`,
+            error,
+          );
+        }
+      }
+
+      return events.length;
+    } finally {
+      this.isDispatching = false;
+    }
+  }
+
   /**
-   * Execute handlers in background and track results
+   * Deliver an outbox event and record the outcome
    *
-   * This method runs asynchronously without blocking the emit() caller.
-   * It uses Promise.allSettled to track all handler executions and logs
-   * any failures for monitoring/debugging purposes.
+   * - All handlers succeeded → PROCESSED
+   * - Some handler failed → PENDING again, only the failed handlers are
+   *   retried after an exponential backoff
+   * - Attempts exhausted → DEAD_LETTERED, one dead letter per failed handler
    *
-   * In the future, this is where you could:
-   * - Send failures to a dead letter queue
-   * - Retry failed handlers
-   * - Emit monitoring events
-   * - Send alerts for critical failures
+   * @param event - Claimed outbox event
+   * @param payload - In-memory payload, read from the outbox when omitted
    */
-  private executeHandlersInBackground<T>(
-    eventName: string,
-    payload: T,
-    wrappedHandlers: Array<(payload: T) => Promise<void>>,
-    eventHandlers: Map<
-      (payload: T) => Promise<void>,
-      (payload: T) => Promise<void>
-    >,
-  ): void {
-    // Execute asynchronously without blocking
-    (async () => {
-      const promises = wrappedHandlers.map((wrappedHandler) =>
-        wrappedHandler(payload),
+  private async deliver(
+    event: OutboxEvent,
+    payload: unknown = deserializeEventPayload(event.payload),
+  ): Promise<void> {
+    const handlers = this.getHandlers(event.eventName, event.pendingHandlers);
+    const failed = await this.executeHandlers(
+      event.eventName,
+      payload,
+      handlers,
+    );
+    const attempts = event.attempts + 1;
+
+    if (!failed.length) {
+      await this.outboxEventStore.markProcessed(event.id, attempts);
+      return;
+    }
+
+    const failures = failed.map((failure) => ({
+      handlerName: failure.handlerName,
+      error:
+        failure.reason instanceof Error
+          ? failure.reason.message
+          : String(failure.reason),
+    }));
+
+    if (attempts >= getOutboxMaxAttempts()) {
+      await this.outboxEventStore.moveToDeadLetter(event, failures, attempts);
+      console.error(
+        `[NodeEventBus] Event '${event.eventName}' (${event.id}) moved to dead letter after ${attempts} attempt(s)`,
       );
+      return;
+    }
 
-      const results = await Promise.allSettled(promises);
+    const nextAttemptAt = new Date(
+      getCurrentTimestamp() + getOutboxRetryDelayMs(attempts),
+    );
 
-      // Track successes and failures
-      const succeeded: HandlerResult<T>[] = [];
-      const failed: HandlerResult<T>[] = [];
+    await this.outboxEventStore.scheduleRetry(event.id, {
+      attempts,
+      pendingHandlers: failures.map((failure) => failure.handlerName),
+      lastError: failures.map((failure) => failure.error).join('; '),
+      nextAttemptAt,
+    });
 
-      results.forEach((result, index) => {
-        const wrappedHandler = wrappedHandlers[index];
+    console.warn(
+      `[NodeEventBus] Event '${event.eventName}' (${event.id}) will be retried at ${nextAttemptAt.toISOString()}`,
+    );
+  }
 
-        // Find the original handler for this wrapped handler
-        let originalHandler: ((payload: T) => Promise<void>) | null = null;
-        for (const [original, wrapped] of eventHandlers.entries()) {
-          if (wrapped === wrappedHandler) {
-            originalHandler = original;
-            break;
-          }
-        }
+  /**
+   * Execute handlers and track results
+   *
+   * Uses Promise.allSettled so every handler runs even if others fail,
+   * logs a summary and returns the failed handlers.
+   */
+  private async executeHandlers<T>(
+    eventName: string,
+    payload: T,
+    handlers: RegisteredHandler[],
+  ): Promise<HandlerResult<T>[]> {
+    const results = await Promise.allSettled(
+      handlers.map(({ handler }) => handler(payload)),
+    );
 
-        if (result.status === 'fulfilled') {
-          succeeded.push({
-            handler: originalHandler!,
-            status: 'fulfilled',
-          });
-        } else {
-          failed.push({
-            handler: originalHandler!,
-            status: 'rejected',
-            reason: result.reason,
-          });
-        }
-      });
+    // Track successes and failures
+    const succeeded: HandlerResult<T>[] = [];
+    const failed: HandlerResult<T>[] = [];
 
-      // Log summary
-      if (succeeded.length > 0) {
-        console.log(
-          `[NodeEventBus] Event '${eventName}' completed: ${succeeded.length} succeeded, ${failed.length} failed`,
-        );
+    results.forEach((result, index) => {
+      const { handler, name } = handlers[index];
+
+      if (result.status === 'fulfilled') {
+        succeeded.push({
+          handler,
+          handlerName: name,
+          status: 'fulfilled',
+        });
+      } else {
+        failed.push({
+          handler,
+          handlerName: name,
+          status: 'rejected',
+          reason: result.reason,
+        });
       }
+    });
 
-      // Log failures for monitoring
-      if (failed.length > 0) {
+    // Log summary
+    if (succeeded.length > 0) {
+      console.log(
+        `[NodeEventBus] Event '${eventName}' completed: ${succeeded.length} succeeded, ${failed.length} failed`,
+      );
+    }
+
+    // Log failures for monitoring
+    if (failed.length > 0) {
+      console.error(
+        `[NodeEventBus] Event '${eventName}' had ${failed.length} handler failure(s):`,
+      );
+      for (const failure of failed) {
         console.error(
-          `[NodeEventBus] Event '${eventName}' had ${failed.length} handler failure(s):`,
+          `  - Handler '${failure.handlerName}' failed:`,
+          failure.reason,
         );
-        for (const failure of failed) {
-          console.error(
-            `  - Handler '${failure.handler.name}' failed:`,
-            failure.reason,
-          );
-        }
+      }
+    }
 
-        // Future: Send to dead letter queue for retry
-        // await this.sendToDeadLetterQueue(eventName, payload, failed);
+    return failed;
+  }
 
-        // Future: Emit monitoring event
-        // await this.emit('handler.failures', { eventName, failures: failed });
-      }
-    })().catch((error) => {
-      // Catch any unexpected errors in the background execution
-      console.error(
-        `[NodeEventBus] Unexpected error in background handler execution for '${eventName}':`,
-        error,
-      );
-    });
+  /**
+   * Registered handlers for an event
+   *
+   * @param handlerNames - Restrict to these handlers (empty = all)
+   */
+  private getHandlers(
+    eventName: string,
+    handlerNames: string[] = [],
+  ): RegisteredHandler[] {
+    const handlers = Array.from(this.handlerMap.get(eventName)?.values() ?? []);
+
+    if (!handlerNames.length) {
+      return handlers;
+    }
+
+    return handlers.filter(({ name }) => handlerNames.includes(name));
   }
 
   on<T = unknown>(
     eventName: string,
     handler: (payload: T) => Promise<void>,
+    handlerName?: string,
   ): void {
-    // Wrap handler in error boundary to prevent one handler from crashing others
-    const wrappedHandler = async (payload: T) => {
-      try {
-        await handler(payload);
-      } catch (error) {
-        // Log error but don't throw - isolate handler failures
-        console.error(
-          `[NodeEventBus] Handler error for event '${eventName}':`,
-          error,
-        );
-        // In production, you might want to:
-        // 1. Use a proper logger
-        // 2. Emit a 'handler.error' event for monitoring
-        // 3. Implement retry logic for critical handlers
-      }
-    };
-
-    // Store the mapping between original and wrapped handler
     if (!this.handlerMap.has(eventName)) {
       this.handlerMap.set(eventName, new Map());
     }
-    this.handlerMap.get(eventName)!.set(handler, wrappedHandler);
 
-    // Register the wrapped handler with EventEmitter
-    this.emitter.on(eventName, wrappedHandler);
+    this.handlerMap.get(eventName)!.set(handler, {
+      name: handlerName ?? handler.name,
+      handler,
+    });
   }
 
   off<T = unknown>(
     eventName: string,
     handler: (payload: T) => Promise<void>,
   ): void {
-    // Get the wrapped handler from our map
     const eventHandlers = this.handlerMap.get(eventName);
     if (!eventHandlers) {
       console.warn(
@@ -226,18 +319,11 @@ export class NodeEventBus implements IEventBus {
       return;
     }
 
-    const wrappedHandler = eventHandlers.get(handler);
-    if (!wrappedHandler) {
+    if (!eventHandlers.delete(handler)) {
       console.warn(`[NodeEventBus] Handler not found for event '${eventName}'`);
       return;
     }
 
-    // Remove the wrapped handler from EventEmitter
-    this.emitter.off(eventName, wrappedHandler);
-
-    // Clean up the mapping
-    eventHandlers.delete(handler);
-
     // If no more handlers for this event, remove the event from the map
     if (eventHandlers.size === 0) {
       this.handlerMap.delete(eventName);
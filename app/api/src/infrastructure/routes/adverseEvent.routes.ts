@@ -0,0 +1,137 @@
+import { container } from '@infrastructure/di/container';
+import { AdverseEventController } from '@modules/adverse-event/controllers/adverseEventController';
+import { AdverseEventStatisticsQuerySchema } from '@modules/adverse-event/validators/adverseEventStatisticsValidator';
+import { CreateAdverseEventBodySchema } from '@modules/adverse-event/validators/createAdverseEventValidator';
+import { ListAdverseEventsQuerySchema } from '@modules/adverse-event/validators/listAdverseEventsValidator';
+import { UpdateAdverseEventBodySchema } from '@modules/adverse-event/validators/updateAdverseEventValidator';
+import { Permissions } from '@shared/constants/permissions';
+import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
+import { validateRequest } from '@shared/middlewares/validateRequest';
+import { idParamsSchema } from '@shared/validators/idParamsSchema';
+import { Router } from 'express';
+
+/**
+ * Adverse Event Routes
+ *
+ * Defines all HTTP endpoints for adverse events following immunization.
+ * Controller is resolved from DI container to ensure all dependencies
+ * are properly injected.
+ *
+ * Patients report and follow up their own events without any permission,
+ * so most access rules are checked in the service layer.
+ */
+const adverseEventRoutes = Router();
+
+// Resolve AdverseEventController from DI container
+const adverseEventController = container.resolve(AdverseEventController);
+
+/**
+ * POST /adverse-events
+ * Report an adverse event for a vaccine application
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: The patient of the application, or adverse-event:create (NURSE)
+ *
+ * Request Body:
+ * - applicationId: UUID (required)
+ * - symptoms: AdverseEventSymptom[] (required, at least one)
+ * - severity: MILD | MODERATE | SEVERE (required)
+ * - onsetAt: ISO 8601 datetime between the application date and now (required)
+ * - outcome: AdverseEventOutcome (optional, default UNKNOWN)
+ * - description: string (optional, max 1000)
+ *
+ * Side effects:
+ * - SEVERE events emit adverse-event.severe (in-app + email to managers)
+ *
+ * Errors:
+ * - 400 Bad Request: Invalid body or onset outside the allowed range
+ * - 401 Unauthorized: No authentication token
+ * - 403 Forbidden: Reporting for someone else without adverse-event:create
+ * - 404 Not Found: Application not found or voided
+ */
+adverseEventRoutes.post(
+  '/',
+  authMiddleware,
+  validateRequest({ body: CreateAdverseEventBodySchema }),
+  adverseEventController.create.bind(adverseEventController),
+);
+
+/**
+ * GET /adverse-events
+ * List adverse events with pagination and filters
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: adverse-event:read lists all events, others only their own
+ *
+ * Query Parameters:
+ * - page, perPage, sortBy (onsetAt | severity | outcome | createdAt), sortOrder
+ * - userId, vaccineId, batchId: UUID
+ * - severity: MILD | MODERATE | SEVERE
+ * - onsetFrom, onsetTo: ISO 8601 datetime
+ */
+adverseEventRoutes.get(
+  '/',
+  authMiddleware,
+  validateRequest({ query: ListAdverseEventsQuerySchema }),
+  adverseEventController.list.bind(adverseEventController),
+);
+
+/**
+ * GET /adverse-events/statistics
+ * Adverse event counts and rates per vaccine or per batch
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: adverse-event:read permission (NURSE, MANAGER)
+ *
+ * Query Parameters:
+ * - groupBy: vaccine | batch (default: vaccine)
+ * - vaccineId: UUID (optional)
+ * - from, to: YYYY-MM-DD, applied to the application date (optional)
+ *
+ * Note: Declared before /:id so "statistics" is not parsed as an ID
+ */
+adverseEventRoutes.get(
+  '/statistics',
+  authMiddleware,
+  requirePermission(Permissions.ADVERSE_EVENT_READ),
+  validateRequest({ query: AdverseEventStatisticsQuerySchema }),
+  adverseEventController.statistics.bind(adverseEventController),
+);
+
+/**
+ * GET /adverse-events/:id
+ * Get an adverse event
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: Patient, reporter or adverse-event:read
+ */
+adverseEventRoutes.get(
+  '/:id',
+  authMiddleware,
+  validateRequest({ params: idParamsSchema }),
+  adverseEventController.getById.bind(adverseEventController),
+);
+
+/**
+ * PATCH /adverse-events/:id
+ * Update the outcome of an adverse event
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: Patient, reporter or adverse-event:create (NURSE)
+ *
+ * Request Body:
+ * - outcome: AdverseEventOutcome (required)
+ * - description: string (optional, max 1000)
+ */
+adverseEventRoutes.patch(
+  '/:id',
+  authMiddleware,
+  validateRequest({
+    params: idParamsSchema,
+    body: UpdateAdverseEventBodySchema,
+  }),
+  adverseEventController.update.bind(adverseEventController),
+);
+
+export default adverseEventRoutes;
@@ -1,6 +1,8 @@
 import { container } from '@infrastructure/di/container';
 import { AlertsController } from '@modules/alerts/controllers/alertsController';
+import { Permissions } from '@shared/constants/permissions';
 import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
 import { Router } from 'express';
 
 /**
@@ -26,7 +28,7 @@ const alertsController = container.resolve(AlertsController);
  * Get all alerts for the authenticated manager
  *
  * Authentication: Required (JWT token via authMiddleware)
- * Authorization: Only MANAGER role can access alerts (enforced in service layer)
+ * Authorization: alert:read permission (MANAGER), checked by requirePermission
  *
  * This endpoint aggregates multiple alert types in a single response:
  * - LOW_STOCK: Vaccines where totalStock <= minStockLevel
@@ -97,15 +99,17 @@ const alertsController = container.resolve(AlertsController);
  *
  * Errors:
  * - 401 Unauthorized: No authentication token
- * - 403 Forbidden: User is not a MANAGER
+ * - 403 Forbidden: Missing alert:read permission
  *
  * Middleware Chain:
  * 1. authMiddleware - Verifies JWT token, sets req.user
- * 2. alertsController.getAllAlerts - Handles business logic
+ * 2. requirePermission - Requires alert:read
+ * 3. alertsController.getAllAlerts - Handles business logic
  */
 alertsRoutes.get(
   '/',
   authMiddleware,
+  requirePermission(Permissions.ALERT_READ),
   alertsController.getAllAlerts.bind(alertsController),
 );
 
@@ -1,8 +1,16 @@
 import { container } from '@infrastructure/di/container';
 import { AuthController } from '@modules/user/controllers/authController';
+import { ForgotPasswordSchema } from '@modules/user/validators/forgotPasswordValidator';
 import { LoginSchema } from '@modules/user/validators/loginValidator';
+import { RefreshTokenSchema } from '@modules/user/validators/refreshTokenValidator';
 import { RegisterSchema } from '@modules/user/validators/registerValidator';
-import { registerRateLimiter } from '@shared/middlewares/rateLimiter';
+import { ResetPasswordSchema } from '@modules/user/validators/resetPasswordValidator';
+import { SessionIdParamSchema } from '@modules/user/validators/sessionIdParamValidator';
+import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import {
+  passwordResetRateLimiter,
+  registerRateLimiter,
+} from '@shared/middlewares/rateLimiter';
 import { validateRequest } from '@shared/middlewares/validateRequest';
 import { Router } from 'express';
 
@@ -22,7 +30,7 @@ const authController = container.resolve(AuthController);
 
 /**
  * POST /auth/login
- * Authenticate a user and return JWT token
+ * Authenticate a user, open a session and return its tokens
  *
  * Body:
  * {
@@ -36,7 +44,9 @@ const authController = container.resolve(AuthController);
  *   "data": {
  *     "user": { ... },
  *     "token": "jwt_token_here",
- *     "expiresIn": "7d"
+ *     "expiresIn": "15m",
+ *     "refreshToken": "opaque_refresh_token",
+ *     "refreshTokenExpiresAt": "2025-01-31T12:00:00.000Z"
  *   }
  * }
  */
@@ -48,7 +58,10 @@ authRoutes.post(
 
 /**
  * POST /auth/register
- * Register a new user and return JWT token
+ * Register a new EMPLOYEE, open a session and return its tokens
+ *
+ * Nurses and managers join through an invitation (POST /invitations/accept).
+ * Disabled when OPEN_REGISTRATION_ENABLED=false.
  *
  * Body:
  * {
@@ -57,8 +70,7 @@ authRoutes.post(
  *   "password": "Password123!",
  *   "cpf": "12345678900",
  *   "phone": "11999999999",
- *   "role": "EMPLOYEE" | "NURSE" | "MANAGER",
- *   "coren": "COREN-123456" (required if role = NURSE)
+ *   "role": "EMPLOYEE" (optional, the only accepted value)
  * }
  *
  * Response:
@@ -67,7 +79,9 @@ authRoutes.post(
  *   "data": {
  *     "user": { ... },
  *     "token": "jwt_token_here",
- *     "expiresIn": "7d"
+ *     "expiresIn": "15m",
+ *     "refreshToken": "opaque_refresh_token",
+ *     "refreshTokenExpiresAt": "2025-01-31T12:00:00.000Z"
  *   }
  * }
  */
@@ -78,4 +92,200 @@ authRoutes.post(
   authController.register.bind(authController),
 );
 
+/**
+ * POST /auth/refresh
+ * Exchange a refresh token for a new access token
+ *
+ * The refresh token is single-use: the response carries a new one that
+ * replaces it. Reusing an already rotated token revokes the whole session.
+ *
+ * Body:
+ * {
+ *   "refreshToken": "opaque_refresh_token"
+ * }
+ *
+ * Response: 200 OK (same shape as /auth/login)
+ *
+ * Errors:
+ * - 401: Refresh token unknown, reused, revoked or expired, or user deactivated
+ */
+authRoutes.post(
+  '/refresh',
+  validateRequest(RefreshTokenSchema),
+  authController.refresh.bind(authController),
+);
+
+/**
+ * POST /auth/logout
+ * End the session of a refresh token
+ *
+ * Idempotent: unknown or already revoked tokens also return 204.
+ *
+ * Body:
+ * {
+ *   "refreshToken": "opaque_refresh_token"
+ * }
+ *
+ * Response: 204 No Content
+ */
+authRoutes.post(
+  '/logout',
+  validateRequest(RefreshTokenSchema),
+  authController.logout.bind(authController),
+);
+
+/**
+ * POST /auth/forgot-password
+ * Send a password reset link to the email, if it belongs to an active user
+ *
+ * The response is the same whether or not the email is registered, so the
+ * endpoint cannot be used to discover accounts. The link is single-use and
+ * expires after PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES (default: 30).
+ *
+ * Body:
+ * {
+ *   "email": "user@example.com"
+ * }
+ *
+ * Response: 200 OK
+ * {
+ *   "success": true,
+ *   "message": "If the email is registered, a password reset link has been sent"
+ * }
+ */
+authRoutes.post(
+  '/forgot-password',
+  passwordResetRateLimiter,
+  validateRequest(ForgotPasswordSchema),
+  authController.forgotPassword.bind(authController),
+);
+
+/**
+ * POST /auth/reset-password
+ * Set a new password with the token from the reset link
+ *
+ * All sessions of the user are revoked, so they must login again.
+ *
+ * Body:
+ * {
+ *   "token": "token_from_reset_link",
+ *   "newPassword": "NewPassword1!"
+ * }
+ *
+ * Response: 204 No Content
+ *
+ * Errors:
+ * - 400: Token unknown, already used or expired, or password breaks the policy
+ */
+authRoutes.post(
+  '/reset-password',
+  passwordResetRateLimiter,
+  validateRequest(ResetPasswordSchema),
+  authController.resetPassword.bind(authController),
+);
+
+/**
+ * GET /auth/me
+ * Get the authenticated user and their permissions
+ *
+ * Permissions come from the role (see ROLE_PERMISSIONS) and are the same
+ * ones checked by the API, the web app uses them to show or hide features.
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ *
+ * Response: 200 OK
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "user": { "id": "uuid", "name": "...", "role": "NURSE", ... },
+ *     "permissions": ["user:read", "vaccine:read", "application:create", ...]
+ *   }
+ * }
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. authController.me - Handles business logic
+ */
+authRoutes.get('/me', authMiddleware, authController.me.bind(authController));
+
+/**
+ * GET /auth/sessions
+ * List the active sessions (devices) of the authenticated user
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ *
+ * Response: 200 OK
+ * {
+ *   "success": true,
+ *   "data": [
+ *     {
+ *       "id": "uuid",
+ *       "userAgent": "Mozilla/5.0 ...",
+ *       "ipAddress": "::1",
+ *       "createdAt": "2025-01-01T12:00:00.000Z",
+ *       "lastUsedAt": "2025-01-01T12:30:00.000Z",
+ *       "expiresAt": "2025-01-31T12:00:00.000Z",
+ *       "current": true
+ *     }
+ *   ]
+ * }
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. authController.listSessions - Handles business logic
+ */
+authRoutes.get(
+  '/sessions',
+  authMiddleware,
+  authController.listSessions.bind(authController),
+);
+
+/**
+ * DELETE /auth/sessions
+ * Revoke every session of the authenticated user except the current one
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ *
+ * Response: 200 OK
+ * {
+ *   "success": true,
+ *   "data": { "revoked": 2 }
+ * }
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. authController.revokeOtherSessions - Handles business logic
+ */
+authRoutes.delete(
+  '/sessions',
+  authMiddleware,
+  authController.revokeOtherSessions.bind(authController),
+);
+
+/**
+ * DELETE /auth/sessions/:id
+ * Revoke one session of the authenticated user
+ *
+ * Access tokens issued for the session stop being accepted immediately
+ * and its refresh token can no longer be used.
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ *
+ * Response: 204 No Content
+ *
+ * Errors:
+ * - 404: Session not found, already revoked or owned by another user
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. validateRequest - Validates session ID param
+ * 3. authController.revokeSession - Handles business logic
+ */
+authRoutes.delete(
+  '/sessions/:id',
+  authMiddleware,
+  validateRequest({ params: SessionIdParamSchema }),
+  authController.revokeSession.bind(authController),
+);
+
 export default authRoutes;
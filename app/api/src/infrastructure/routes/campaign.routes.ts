@@ -0,0 +1,167 @@
+import { container } from '@infrastructure/di/container';
+import { CampaignController } from '@modules/campaign/controllers/campaignController';
+import { CreateCampaignBodySchema } from '@modules/campaign/validators/createCampaignValidator';
+import { ListCampaignsQuerySchema } from '@modules/campaign/validators/listCampaignsValidator';
+import { UpdateCampaignBodySchema } from '@modules/campaign/validators/updateCampaignValidator';
+import { Permissions } from '@shared/constants/permissions';
+import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
+import { validateRequest } from '@shared/middlewares/validateRequest';
+import { idParamsSchema } from '@shared/validators/idParamsSchema';
+import { Router } from 'express';
+
+/**
+ * Campaign Routes
+ *
+ * Defines all HTTP endpoints for vaccination campaigns.
+ * Controller is resolved from DI container to ensure all dependencies
+ * are properly injected.
+ */
+const campaignRoutes = Router();
+
+// Resolve CampaignController from DI container
+const campaignController = container.resolve(CampaignController);
+
+/**
+ * POST /campaigns
+ * Create a campaign in DRAFT status
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: campaign:manage permission (MANAGER)
+ *
+ * Request Body:
+ * - name: string (required, 3-120)
+ * - description: string (optional, max 1000)
+ * - vaccineId: UUID (required)
+ * - doseNumber: number (optional, default 1)
+ * - targetRoles: (EMPLOYEE | NURSE | MANAGER)[] (required, at least one)
+ * - onlyActiveUsers: boolean (optional, default true)
+ * - onlyMissingDoses: boolean (optional, default true)
+ * - startDate, endDate: YYYY-MM-DD (required, startDate not in the past)
+ * - dailyCapacity: number (required, 1-500)
+ * - nurseIds: UUID[] (optional, users with NURSE role)
+ *
+ * Errors:
+ * - 400 Bad Request: Invalid body, period or dose number
+ * - 401 Unauthorized: No authentication token
+ * - 403 Forbidden: Missing campaign:manage
+ * - 404 Not Found: Vaccine or nurse not found
+ */
+campaignRoutes.post(
+  '/',
+  authMiddleware,
+  requirePermission(Permissions.CAMPAIGN_MANAGE),
+  validateRequest({ body: CreateCampaignBodySchema }),
+  campaignController.create.bind(campaignController),
+);
+
+/**
+ * GET /campaigns
+ * List campaigns with their progress
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: campaign:read permission (NURSE, MANAGER)
+ *
+ * Query Parameters:
+ * - page, perPage, sortBy (name | startDate | endDate | status | createdAt), sortOrder
+ * - status: DRAFT | ACTIVE | FINISHED | CANCELLED
+ * - vaccineId: UUID
+ */
+campaignRoutes.get(
+  '/',
+  authMiddleware,
+  requirePermission(Permissions.CAMPAIGN_READ),
+  validateRequest({ query: ListCampaignsQuerySchema }),
+  campaignController.list.bind(campaignController),
+);
+
+/**
+ * GET /campaigns/:id
+ * Get a campaign with its progress
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: campaign:read permission (NURSE, MANAGER)
+ */
+campaignRoutes.get(
+  '/:id',
+  authMiddleware,
+  requirePermission(Permissions.CAMPAIGN_READ),
+  validateRequest({ params: idParamsSchema }),
+  campaignController.getById.bind(campaignController),
+);
+
+/**
+ * PATCH /campaigns/:id
+ * Update a DRAFT campaign
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: campaign:manage permission (MANAGER)
+ *
+ * Request Body: same fields as POST /campaigns, all optional, except vaccineId
+ *
+ * Errors:
+ * - 409 Conflict: Campaign is not DRAFT
+ */
+campaignRoutes.patch(
+  '/:id',
+  authMiddleware,
+  requirePermission(Permissions.CAMPAIGN_MANAGE),
+  validateRequest({ params: idParamsSchema, body: UpdateCampaignBodySchema }),
+  campaignController.update.bind(campaignController),
+);
+
+/**
+ * POST /campaigns/:id/generate
+ * Generate the schedulings of a campaign
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: campaign:manage permission (MANAGER)
+ *
+ * Side effects:
+ * - Creates SCHEDULED schedulings through the stock-validated path
+ * - Emits vaccine.scheduled for each patient
+ * - A DRAFT campaign becomes ACTIVE
+ *
+ * Errors:
+ * - 400 Bad Request: Campaign period has ended
+ * - 409 Conflict: Campaign is FINISHED or CANCELLED
+ */
+campaignRoutes.post(
+  '/:id/generate',
+  authMiddleware,
+  requirePermission(Permissions.CAMPAIGN_MANAGE),
+  validateRequest({ params: idParamsSchema }),
+  campaignController.generate.bind(campaignController),
+);
+
+/**
+ * POST /campaigns/:id/finish
+ * Finish an ACTIVE campaign (pending schedulings are kept)
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: campaign:manage permission (MANAGER)
+ */
+campaignRoutes.post(
+  '/:id/finish',
+  authMiddleware,
+  requirePermission(Permissions.CAMPAIGN_MANAGE),
+  validateRequest({ params: idParamsSchema }),
+  campaignController.finish.bind(campaignController),
+);
+
+/**
+ * POST /campaigns/:id/cancel
+ * Cancel a campaign and its pending schedulings
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: campaign:manage permission (MANAGER)
+ */
+campaignRoutes.post(
+  '/:id/cancel',
+  authMiddleware,
+  requirePermission(Permissions.CAMPAIGN_MANAGE),
+  validateRequest({ params: idParamsSchema }),
+  campaignController.cancel.bind(campaignController),
+);
+
+export default campaignRoutes;
@@ -0,0 +1,74 @@
+import { container } from '@infrastructure/di/container';
+import { CertificateController } from '@modules/certificate/controllers/certificateController';
+import { IssueCertificateBodySchema } from '@modules/certificate/validators/issueCertificateValidator';
+import { VerifyCertificateParamsSchema } from '@modules/certificate/validators/verifyCertificateValidator';
+import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { certificateVerifyRateLimiter } from '@shared/middlewares/rateLimiter';
+import { validateRequest } from '@shared/middlewares/validateRequest';
+import { Router } from 'express';
+
+/**
+ * Certificate Routes
+ *
+ * Defines all HTTP endpoints for publicly verifiable vaccination certificates.
+ * Controllers are resolved from DI container to ensure all dependencies
+ * are properly injected.
+ */
+const certificateRoutes = Router();
+
+// Resolve CertificateController from DI container
+const certificateController = container.resolve(CertificateController);
+
+/**
+ * GET /certificates/verify/:code
+ * Check a certificate read from its QR code
+ *
+ * Authentication: None (the signed code is the credential)
+ *
+ * Response: 200 OK
+ * {
+ *   "status": "VALID" | "EXPIRED" | "REVOKED",
+ *   "holderInitials": "A. M. S.",
+ *   "issuedAt": "...",
+ *   "expiresAt": "...",
+ *   "revokedAt": null,
+ *   "vaccines": [{ "name", "isComplete", "doses": [{ "doseNumber", "applicationDate" }] }]
+ * }
+ *
+ * Errors:
+ * - 404 Not Found: Unknown code or invalid signature
+ * - 429 Too Many Requests: Rate limit exceeded
+ */
+certificateRoutes.get(
+  '/verify/:code',
+  certificateVerifyRateLimiter,
+  validateRequest({ params: VerifyCertificateParamsSchema }),
+  certificateController.verify.bind(certificateController),
+);
+
+/**
+ * POST /certificates
+ * Issue a vaccination certificate with a signed QR code
+ *
+ * Authentication: Required
+ * Authorization: Own certificate, or any user with application:read (NURSE, MANAGER)
+ *
+ * Body:
+ * {
+ *   "userId": "uuid"
+ * }
+ *
+ * Response: 201 Created with code, verifyUrl and qrCode (PNG data URL)
+ *
+ * Errors:
+ * - 400 Bad Request: Invalid body, another user's certificate, or no applied vaccine
+ * - 404 Not Found: User not found
+ */
+certificateRoutes.post(
+  '/',
+  authMiddleware,
+  validateRequest({ body: IssueCertificateBodySchema }),
+  certificateController.issue.bind(certificateController),
+);
+
+export default certificateRoutes;
@@ -0,0 +1,102 @@
+import { container } from '@infrastructure/di/container';
+import { DeadLetterController } from '@modules/notifications/controllers/DeadLetterController';
+import { ListDeadLettersQuerySchema } from '@modules/notifications/validators/listDeadLettersValidator';
+import { Permissions } from '@shared/constants/permissions';
+import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
+import { validateRequest } from '@shared/middlewares/validateRequest';
+import { idParamsSchema } from '@shared/validators/idParamsSchema';
+import { Router } from 'express';
+
+/**
+ * Dead Letter Routes
+ *
+ * Defines the HTTP endpoints to inspect and replay event deliveries that
+ * exhausted their retries. Controller is resolved from DI container to
+ * ensure all dependencies are properly injected.
+ *
+ * All endpoints require the dead-letter:manage permission (MANAGER),
+ * checked by requirePermission and again in the service layer.
+ */
+const deadLetterRoutes = Router();
+
+// Resolve DeadLetterController from DI container
+const deadLetterController = container.resolve(DeadLetterController);
+
+/**
+ * GET /dead-letters
+ * List dead letters
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: dead-letter:manage permission (MANAGER)
+ *
+ * Query Parameters:
+ * - page, perPage (default: 1, 10)
+ * - eventName: event name filter (e.g. vaccine.applied)
+ * - handlerName: handler filter (e.g. EmailVaccineAppliedHandler)
+ * - replayed: true | false
+ *
+ * Response: 200 OK
+ * {
+ *   "data": [{
+ *     "id": "uuid",
+ *     "eventName": "vaccine.applied",
+ *     "handlerName": "EmailVaccineAppliedHandler",
+ *     "payload": { "type": "vaccine.applied", "channels": [...], "data": {...} },
+ *     "error": "connect ECONNREFUSED 127.0.0.1:587",
+ *     "attempts": 5,
+ *     "outboxEventId": "uuid",
+ *     "replayedAt": null,
+ *     "replayedBy": null,
+ *     "createdAt": "2025-12-03T10:00:00.000Z"
+ *   }],
+ *   "pagination": { "page": 1, "perPage": 10, "total": 1, ... }
+ * }
+ */
+deadLetterRoutes.get(
+  '/',
+  authMiddleware,
+  requirePermission(Permissions.DEAD_LETTER_MANAGE),
+  validateRequest({ query: ListDeadLettersQuerySchema }),
+  deadLetterController.listDeadLetters,
+);
+
+/**
+ * GET /dead-letters/:id
+ * Get a single dead letter
+ *
+ * Errors:
+ * - 403 Forbidden: Missing dead-letter:manage permission
+ * - 404 Not Found: Dead letter not found
+ */
+deadLetterRoutes.get(
+  '/:id',
+  authMiddleware,
+  requirePermission(Permissions.DEAD_LETTER_MANAGE),
+  validateRequest({ params: idParamsSchema }),
+  deadLetterController.getDeadLetter,
+);
+
+/**
+ * POST /dead-letters/:id/replay
+ * Replay a dead letter
+ *
+ * Enqueues the original payload again, targeting only the handler that
+ * failed. Delivery happens asynchronously (OutboxDispatchJob).
+ *
+ * Response: 202 Accepted (dead letter with replayedAt/replayedBy filled)
+ *
+ * Errors:
+ * - 403 Forbidden: Missing dead-letter:manage permission
+ * - 404 Not Found: Dead letter not found
+ * - 409 Conflict: Dead letter was already replayed
+ */
+deadLetterRoutes.post(
+  '/:id/replay',
+  authMiddleware,
+  requirePermission(Permissions.DEAD_LETTER_MANAGE),
+  validateRequest({ params: idParamsSchema }),
+  deadLetterController.replayDeadLetter,
+);
+
+export default deadLetterRoutes;
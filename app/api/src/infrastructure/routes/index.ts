@@ -9,6 +9,13 @@ import vaccineSchedulingRoutes from './vaccineScheduling.routes';
 import notificationRoutes from './notification.routes';
 import alertsRoutes from './alerts.routes';
 import vaccinationCoverageRoutes from './vaccinationCoverage.routes';
+import reportRoutes from './report.routes';
+import deadLetterRoutes from './deadLetter.routes';
+import adverseEventRoutes from './adverseEvent.routes';
+import campaignRoutes from './campaign.routes';
+import nurseAvailabilityRoutes from './nurseAvailability.routes';
+import invitationRoutes from './invitation.routes';
+import certificateRoutes from './certificate.routes';
 
 /**
  * 
@@ -34,7 +41,7 @@ routes.get('/health', (_req, res) => {
  * Prefix: /api/auth
  *
  * - POST /api/auth/login - User login
- * - POST /api/auth/register - User registration
+ * - POST /api/auth/register - Employee self-registration
  */
 routes.use('/auth', authRoutes);
 
@@ -105,4 +112,98 @@ routes.use('/alerts', alertsRoutes);
  */
 routes.use('/vaccination-coverage', vaccinationCoverageRoutes);
 
+/**
+ * Report routes
+ * Prefix: /api/reports
+ *
+ * Report generation and history for managers:
+ * - GENERAL, BY_EMPLOYEE, BY_VACCINE, BY_PERIOD, COVERAGE and WASTE reports
+ * - Reports are persisted and can be downloaded later (CSV or JSON)
+ *
+ * - POST /api/reports - Generate a report (MANAGER only)
+ * - GET /api/reports - List past reports (MANAGER only)
+ * - GET /api/reports/:id - Get report with content (MANAGER only)
+ * - GET /api/reports/:id/download - Download report file (MANAGER only)
+ * - DELETE /api/reports/:id - Delete a report (MANAGER only)
+ */
+routes.use('/reports', reportRoutes);
+
+/**
+ * Dead letter routes
+ * Prefix: /api/dead-letters
+ *
+ * Event deliveries that exhausted their retries:
+ *
+ * - GET /api/dead-letters - List dead letters (MANAGER only)
+ * - GET /api/dead-letters/:id - Get a dead letter (MANAGER only)
+ * - POST /api/dead-letters/:id/replay - Replay a dead letter (MANAGER only)
+ */
+routes.use('/dead-letters', deadLetterRoutes);
+
+/**
+ * Adverse event routes
+ * Prefix: /api/adverse-events
+ *
+ * Adverse events following immunization (ESAVI):
+ *
+ * - POST /api/adverse-events - Report an event (patient or NURSE)
+ * - GET /api/adverse-events - List events (own events unless NURSE/MANAGER)
+ * - GET /api/adverse-events/statistics - Rates per vaccine or batch (NURSE, MANAGER)
+ * - GET /api/adverse-events/:id - Get an event
+ * - PATCH /api/adverse-events/:id - Update the outcome
+ */
+routes.use('/adverse-events', adverseEventRoutes);
+
+/**
+ * Campaign routes
+ * Prefix: /api/campaigns
+ *
+ * Vaccination campaigns with bulk scheduling:
+ *
+ * - POST /api/campaigns - Create a campaign (MANAGER)
+ * - GET /api/campaigns - List campaigns with progress (NURSE, MANAGER)
+ * - GET /api/campaigns/:id - Get a campaign with progress (NURSE, MANAGER)
+ * - PATCH /api/campaigns/:id - Update a DRAFT campaign (MANAGER)
+ * - POST /api/campaigns/:id/generate - Generate the schedulings (MANAGER)
+ * - POST /api/campaigns/:id/finish - Finish an ACTIVE campaign (MANAGER)
+ * - POST /api/campaigns/:id/cancel - Cancel a campaign (MANAGER)
+ */
+routes.use('/campaigns', campaignRoutes);
+
+/**
+ * Nurse availability routes
+ * Prefix: /api/nurse-availability
+ *
+ * Weekly working hours of nurses (appointment slots):
+ *
+ * - GET /api/nurse-availability/:id - Get a nurse's template (the nurse or MANAGER)
+ * - PUT /api/nurse-availability/:id - Replace a nurse's template (the nurse or MANAGER)
+ */
+routes.use('/nurse-availability', nurseAvailabilityRoutes);
+
+/**
+ * Invitation routes
+ * Prefix: /api/invitations
+ *
+ * Invitation-based onboarding:
+ *
+ * - POST /api/invitations - Invite a person with a given role (MANAGER)
+ * - GET /api/invitations - List invitations (MANAGER)
+ * - DELETE /api/invitations/:id - Revoke a pending invitation (MANAGER)
+ * - GET /api/invitations/preview - Email and role of an invite link (public)
+ * - POST /api/invitations/accept - Create the account of an invite link (public)
+ */
+routes.use('/invitations', invitationRoutes);
+
+/**
+ * Certificate routes
+ * Prefix: /api/certificates
+ *
+ * Vaccination certificates checked by third parties through a QR code:
+ *
+ * - POST /api/certificates - Issue a signed certificate (own, or NURSE/MANAGER for anyone)
+ * - GET /api/certificates/verify/:code - Check a certificate (public)
+ */
+routes.use('/certificates', certificateRoutes);
+
 export default routes;
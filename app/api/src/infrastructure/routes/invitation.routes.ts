@@ -0,0 +1,146 @@
+import { container } from '@infrastructure/di/container';
+import { InvitationController } from '@modules/invitation/controllers/invitationController';
+import { AcceptInvitationBodySchema } from '@modules/invitation/validators/acceptInvitationValidator';
+import { CreateInvitationBodySchema } from '@modules/invitation/validators/createInvitationValidator';
+import { ListInvitationsQuerySchema } from '@modules/invitation/validators/listInvitationsValidator';
+import { PreviewInvitationQuerySchema } from '@modules/invitation/validators/previewInvitationValidator';
+import { AuthController } from '@modules/user/controllers/authController';
+import { Permissions } from '@shared/constants/permissions';
+import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
+import { registerRateLimiter } from '@shared/middlewares/rateLimiter';
+import { validateRequest } from '@shared/middlewares/validateRequest';
+import { idParamsSchema } from '@shared/validators/idParamsSchema';
+import { Router } from 'express';
+
+/**
+ * Invitation Routes
+ *
+ * Defines all HTTP endpoints for invitation-based onboarding.
+ * Controllers are resolved from DI container to ensure all dependencies
+ * are properly injected.
+ */
+const invitationRoutes = Router();
+
+// Resolve controllers from DI container
+const invitationController = container.resolve(InvitationController);
+const authController = container.resolve(AuthController);
+
+/**
+ * GET /invitations/preview
+ * Show the email and role of a pending invitation (registration page)
+ *
+ * Authentication: None (the token is the credential)
+ *
+ * Query Parameters:
+ * - token: string (required) - Token of the invite link
+ *
+ * Errors:
+ * - 400 Bad Request: Token unknown, accepted, revoked or expired
+ */
+invitationRoutes.get(
+  '/preview',
+  validateRequest({ query: PreviewInvitationQuerySchema }),
+  invitationController.preview.bind(invitationController),
+);
+
+/**
+ * POST /invitations/accept
+ * Create the account of an invited person, open a session and return its tokens
+ *
+ * Authentication: None (the token is the credential). Works even when
+ * open registration is disabled.
+ *
+ * Body:
+ * {
+ *   "token": "invite_token",
+ *   "name": "Ana Souza",
+ *   "password": "Password123!",
+ *   "cpf": "12345678900",
+ *   "phone": "11999999999",
+ *   "coren": "123456-SP" (required if the invitation role is NURSE)
+ * }
+ *
+ * Email and role come from the invitation.
+ *
+ * Response: 201 Created (same shape as /auth/register)
+ *
+ * Errors:
+ * - 400 Bad Request: Invalid body, token no longer valid, or NURSE without COREN
+ * - 409 Conflict: CPF or COREN already registered
+ */
+invitationRoutes.post(
+  '/accept',
+  registerRateLimiter,
+  validateRequest({ body: AcceptInvitationBodySchema }),
+  authController.registerWithInvitation.bind(authController),
+);
+
+/**
+ * POST /invitations
+ * Invite a person to create an account with a given role
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: user:invite permission (MANAGER)
+ *
+ * Request Body:
+ * - email: string (required)
+ * - role: EMPLOYEE | NURSE | MANAGER (required)
+ *
+ * Pending invitations to the same email are revoked. The link is sent by
+ * email and also returned as inviteUrl.
+ *
+ * Errors:
+ * - 400 Bad Request: Invalid body
+ * - 401 Unauthorized: No authentication token
+ * - 403 Forbidden: Missing user:invite
+ * - 409 Conflict: Email already registered
+ */
+invitationRoutes.post(
+  '/',
+  authMiddleware,
+  requirePermission(Permissions.USER_INVITE),
+  validateRequest({ body: CreateInvitationBodySchema }),
+  invitationController.create.bind(invitationController),
+);
+
+/**
+ * GET /invitations
+ * List invitations
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: user:invite permission (MANAGER)
+ *
+ * Query Parameters:
+ * - page, perPage, sortBy (email | role | expiresAt | createdAt), sortOrder
+ * - status: PENDING | ACCEPTED | EXPIRED | REVOKED
+ * - email: string
+ */
+invitationRoutes.get(
+  '/',
+  authMiddleware,
+  requirePermission(Permissions.USER_INVITE),
+  validateRequest({ query: ListInvitationsQuerySchema }),
+  invitationController.list.bind(invitationController),
+);
+
+/**
+ * DELETE /invitations/:id
+ * Revoke a pending invitation, so its link stops working
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: user:invite permission (MANAGER)
+ *
+ * Errors:
+ * - 404 Not Found: Invitation not found
+ * - 409 Conflict: Invitation already accepted, revoked or expired
+ */
+invitationRoutes.delete(
+  '/:id',
+  authMiddleware,
+  requirePermission(Permissions.USER_INVITE),
+  validateRequest({ params: idParamsSchema }),
+  invitationController.revoke.bind(invitationController),
+);
+
+export default invitationRoutes;
@@ -5,6 +5,8 @@ import { authMiddleware } from '@shared/middlewares/authMiddleware';
 import { validateRequest } from '@shared/middlewares/validateRequest';
 import { ListNotificationsQuerySchema } from '@modules/notifications/validators/listNotificationsValidator';
 import { NotificationIdParamSchema } from '@modules/notifications/validators/idParamValidator';
+import { StreamNotificationsQuerySchema } from '@modules/notifications/validators/streamNotificationsValidator';
+import { queryTokenMiddleware } from '@shared/middlewares/queryTokenMiddleware';
 
 /**
  * 
@@ -80,6 +82,54 @@ notificationRoutes.get(
   notificationController.listNotifications.bind(notificationController),
 );
 
+/**
+ * GET /notifications/stream
+ * Real-time notifications for the authenticated user (Server-Sent Events)
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * The browser EventSource API cannot send headers, so the token may also be
+ * sent as the `token` query parameter.
+ *
+ * Query Parameters:
+ * - token: string (optional) - JWT, when the Authorization header is not sent
+ * - lastEventId: string (UUID, optional) - Resume after this notification
+ *
+ * Headers:
+ * - Last-Event-ID (optional) - Sent by the browser on reconnection,
+ *   takes precedence over lastEventId
+ *
+ * Example:
+ * GET /api/notifications/stream?token=<JWT_TOKEN>
+ *
+ * Response: 200 OK (text/event-stream)
+ * retry: 5000
+ *
+ * event: unread-count
+ * data: {"unreadCount":3}
+ *
+ * id: 550e8400-e29b-41d4-a716-446655440000
+ * event: notification
+ * data: {"id":"550e8400-...","type":"GENERAL","title":"...",...}
+ *
+ * : heartbeat
+ *
+ * Errors:
+ * - 401 Unauthorized: No authentication token
+ *
+ * Middleware Chain:
+ * 1. queryTokenMiddleware - Copies ?token= into the Authorization header
+ * 2. authMiddleware - Verifies JWT token, sets req.user
+ * 3. validateRequest - Validates query params with Zod schema
+ * 4. notificationController.stream - Keeps the connection open
+ */
+notificationRoutes.get(
+  '/stream',
+  queryTokenMiddleware,
+  authMiddleware,
+  validateRequest({ query: StreamNotificationsQuerySchema }),
+  notificationController.stream.bind(notificationController),
+);
+
 /**
  * PATCH /notifications/:id/read
  * Mark a specific notification as read
@@ -0,0 +1,71 @@
+import { container } from '@infrastructure/di/container';
+import { NurseAvailabilityController } from '@modules/nurse-availability/controllers/nurseAvailabilityController';
+import { UpdateNurseAvailabilityBodySchema } from '@modules/nurse-availability/validators/updateNurseAvailabilityValidator';
+import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { validateRequest } from '@shared/middlewares/validateRequest';
+import { idParamsSchema } from '@shared/validators/idParamsSchema';
+import { Router } from 'express';
+
+/**
+ * Nurse Availability Routes
+ *
+ * Defines the HTTP endpoints for the weekly working hours of nurses, used to
+ * build the appointment slots of each day.
+ * Controller is resolved from DI container to ensure all dependencies
+ * are properly injected.
+ *
+ * Nurses manage their own template without any permission, so access rules
+ * are checked in the service layer.
+ */
+const nurseAvailabilityRoutes = Router();
+
+// Resolve NurseAvailabilityController from DI container
+const nurseAvailabilityController = container.resolve(
+  NurseAvailabilityController,
+);
+
+/**
+ * GET /nurse-availability/:id
+ * Get the weekly template of a nurse
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: The nurse, or availability:manage (MANAGER)
+ */
+nurseAvailabilityRoutes.get(
+  '/:id',
+  authMiddleware,
+  validateRequest({ params: idParamsSchema }),
+  nurseAvailabilityController.get.bind(nurseAvailabilityController),
+);
+
+/**
+ * PUT /nurse-availability/:id
+ * Replace the weekly template of a nurse
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: The nurse, or availability:manage (MANAGER)
+ *
+ * Request Body:
+ * - availabilities: array (max 7), one entry per weekday worked
+ *   - weekday: 0 (Sunday) to 6 (Saturday)
+ *   - startTime, endTime: HH:mm
+ *   - breakStart, breakEnd: HH:mm (optional, together)
+ *   - slotMinutes: 5-240 (optional, default 15)
+ *   - maxPerSlot: 1-50 (optional, default 1)
+ *
+ * Errors:
+ * - 400 Bad Request: Invalid body, inconsistent hours or user is not a NURSE
+ * - 403 Forbidden: Another nurse's template without availability:manage
+ * - 404 Not Found: User not found
+ */
+nurseAvailabilityRoutes.put(
+  '/:id',
+  authMiddleware,
+  validateRequest({
+    params: idParamsSchema,
+    body: UpdateNurseAvailabilityBodySchema,
+  }),
+  nurseAvailabilityController.update.bind(nurseAvailabilityController),
+);
+
+export default nurseAvailabilityRoutes;
@@ -0,0 +1,177 @@
+import { container } from '@infrastructure/di/container';
+import { ReportController } from '@modules/reports/controllers/reportController';
+import { DownloadReportQuerySchema } from '@modules/reports/validators/downloadReportValidator';
+import { GenerateReportBodySchema } from '@modules/reports/validators/generateReportValidator';
+import { ListReportsQuerySchema } from '@modules/reports/validators/listReportsValidator';
+import { Permissions } from '@shared/constants/permissions';
+import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
+import { validateRequest } from '@shared/middlewares/validateRequest';
+import { idParamsSchema } from '@shared/validators/idParamsSchema';
+import { Router } from 'express';
+
+/**
+ * Report Routes
+ *
+ * Defines all HTTP endpoints for report generation and retrieval.
+ * Controller is resolved from DI container to ensure all dependencies
+ * are properly injected.
+ *
+ * All endpoints require the report:manage permission (MANAGER),
+ * checked by requirePermission and again in the service layer.
+ */
+const reportRoutes = Router();
+
+// Resolve ReportController from DI container
+const reportController = container.resolve(ReportController);
+
+/**
+ * POST /reports
+ * Generate a new report
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: report:manage permission (MANAGER)
+ *
+ * Request Body:
+ * - type: GENERAL | BY_EMPLOYEE | BY_VACCINE | BY_PERIOD | COVERAGE | WASTE (required)
+ * - title: string (optional, defaults to a title per type)
+ * - description: string (optional)
+ * - startDate / endDate: YYYY-MM-DD (required for BY_PERIOD, optional otherwise)
+ * - userId: UUID (required for BY_EMPLOYEE, optional filter otherwise)
+ * - vaccineId: UUID (optional filter)
+ *
+ * Example:
+ * POST /api/reports
+ * {
+ *   "type": "BY_PERIOD",
+ *   "title": "Vacinações - Janeiro 2025",
+ *   "startDate": "2025-01-01",
+ *   "endDate": "2025-01-31"
+ * }
+ *
+ * Response: 201 Created
+ * {
+ *   "id": "uuid",
+ *   "title": "Vacinações - Janeiro 2025",
+ *   "type": "BY_PERIOD",
+ *   "fileUrl": "/api/reports/uuid/download",
+ *   "startDate": "2025-01-01T03:00:00.000Z",
+ *   "endDate": "2025-02-01T02:59:59.999Z",
+ *   "data": {
+ *     "summary": { "totalApplications": 42, "totalPatients": 30, ... },
+ *     "rows": [{ "applicationDate": "02/01/2025", "patientName": "...", ... }]
+ *   },
+ *   "generatedBy": { "id": "uuid", "name": "...", "email": "..." },
+ *   "user": null,
+ *   ...
+ * }
+ *
+ * Side effects:
+ * - Emits report.generated (in-app notification to the requester)
+ *
+ * Errors:
+ * - 400 Bad Request: Invalid body, missing userId/period for the type
+ * - 401 Unauthorized: No authentication token
+ * - 403 Forbidden: Missing report:manage permission
+ * - 404 Not Found: Target user or vaccine not found
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. requirePermission - Requires report:manage
+ * 3. validateRequest - Validates body against GenerateReportBodySchema
+ * 4. reportController.generate - Handles business logic
+ */
+reportRoutes.post(
+  '/',
+  authMiddleware,
+  requirePermission(Permissions.REPORT_MANAGE),
+  validateRequest({ body: GenerateReportBodySchema }),
+  reportController.generate.bind(reportController),
+);
+
+/**
+ * GET /reports
+ * List past reports (content omitted)
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: report:manage permission (MANAGER)
+ *
+ * Query Parameters:
+ * - page, perPage (default: 1, 10)
+ * - sortBy: title | type | startDate | endDate | createdAt (default: createdAt)
+ * - sortOrder: asc | desc (default: desc)
+ * - type: ReportType filter
+ * - generatedById: UUID filter
+ * - userId: UUID filter (target user)
+ * - createdFrom, createdTo: ISO 8601 datetime range on the generation date
+ *
+ * Response: 200 OK
+ * {
+ *   "data": [{ report objects without data }],
+ *   "pagination": { "page": 1, "perPage": 10, "total": 3, ... }
+ * }
+ */
+reportRoutes.get(
+  '/',
+  authMiddleware,
+  requirePermission(Permissions.REPORT_MANAGE),
+  validateRequest({ query: ListReportsQuerySchema }),
+  reportController.list.bind(reportController),
+);
+
+/**
+ * GET /reports/:id/download
+ * Download a report file
+ *
+ * Query Parameters:
+ * - format: csv | json (default: csv)
+ *
+ * Response: 200 OK (Content-Disposition: attachment)
+ *
+ * Errors:
+ * - 403 Forbidden: Missing report:manage permission
+ * - 404 Not Found: Report not found or deleted
+ */
+reportRoutes.get(
+  '/:id/download',
+  authMiddleware,
+  requirePermission(Permissions.REPORT_MANAGE),
+  validateRequest({ params: idParamsSchema, query: DownloadReportQuerySchema }),
+  reportController.download.bind(reportController),
+);
+
+/**
+ * GET /reports/:id
+ * Get a single report with its content
+ *
+ * Errors:
+ * - 403 Forbidden: Missing report:manage permission
+ * - 404 Not Found: Report not found or deleted
+ */
+reportRoutes.get(
+  '/:id',
+  authMiddleware,
+  requirePermission(Permissions.REPORT_MANAGE),
+  validateRequest({ params: idParamsSchema }),
+  reportController.getById.bind(reportController),
+);
+
+/**
+ * DELETE /reports/:id
+ * Soft delete a report
+ *
+ * Response: 204 No Content
+ *
+ * Errors:
+ * - 403 Forbidden: Missing report:manage permission
+ * - 404 Not Found: Report not found or already deleted
+ */
+reportRoutes.delete(
+  '/:id',
+  authMiddleware,
+  requirePermission(Permissions.REPORT_MANAGE),
+  validateRequest({ params: idParamsSchema }),
+  reportController.delete.bind(reportController),
+);
+
+export default reportRoutes;
@@ -1,11 +1,22 @@
 import { Router } from 'express';
 import { UserController } from '@modules/user/controllers/userController';
 import { container } from '@infrastructure/di/container';
+import { Permissions } from '@shared/constants/permissions';
 import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
 import { validateRequest } from '@shared/middlewares/validateRequest';
 import { ListUsersQuerySchema } from '@modules/user/validators/listUsersValidator';
 import { IdParamSchema } from '@modules/user/validators/idParamValidator';
 import { UpdateUserBodySchema } from '@modules/user/validators/updateUserValidator';
+import { ChangePasswordSchema } from '@modules/user/validators/changePasswordValidator';
+import { ImportUsersQuerySchema } from '@modules/user/validators/importUsersValidator';
+import {
+  USER_IMPORT_CONTENT_TYPES,
+  USER_IMPORT_MAX_SIZE_BYTES,
+  USER_PHOTO_EXTENSIONS,
+  USER_PHOTO_MAX_SIZE_BYTES,
+} from '@modules/user/constants';
+import { singleFileUpload } from '@shared/middlewares/uploadMiddleware';
 
 /**
  * User Routes
@@ -21,7 +32,10 @@ const userController = container.resolve(UserController);
 
 /**
  * POST /users
- * Create a new user
+ * Create a new user directly, with any role
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: user:write permission (MANAGER)
  *
  * Body:
  * {
@@ -34,14 +48,83 @@ const userController = container.resolve(UserController);
  *   "coren": "COREN-123456" (required if role = NURSE)
  * }
  */
-userRoutes.post('/', userController.create.bind(userController));
+userRoutes.post(
+  '/',
+  authMiddleware,
+  requirePermission(Permissions.USER_WRITE),
+  userController.create.bind(userController),
+);
+
+/**
+ * POST /users/import
+ * Import employees from a CSV file
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: user:write permission (MANAGER)
+ *
+ * Query Parameters:
+ * - dryRun: boolean (default: false) - Validate only, nothing is created
+ *
+ * Request Body (multipart/form-data):
+ * - file: CSV (max 1 MB, up to 500 employees), `;` or `,` separated
+ *
+ * CSV columns (header required, any order):
+ * - name (nome), email, cpf, phone (telefone): required
+ * - role (perfil): EMPLOYEE | NURSE | MANAGER, default EMPLOYEE
+ * - coren: required for NURSE
+ *
+ * Business Rules:
+ * - Each row follows the registration rules and must not repeat an email,
+ *   CPF or COREN already registered or used in another row
+ * - Valid rows are created in a single transaction, invalid rows are skipped
+ * - Imported employees set their password through "forgot password"
+ *
+ * Response: 200 OK (dry run) or 201 Created
+ * {
+ *   "dryRun": true,
+ *   "totalRows": 2,
+ *   "validRows": 1,
+ *   "invalidRows": 1,
+ *   "createdCount": 0,
+ *   "rows": [
+ *     { "line": 2, "name": "Ana", "email": "ana@example.com", "role": "EMPLOYEE", "errors": [] },
+ *     { "line": 3, "name": "Rui", "email": "rui@example", "role": "NURSE", "errors": ["Invalid email format"] }
+ *   ]
+ * }
+ *
+ * Errors:
+ * - 400 Bad Request: Missing file, too large, empty, too many rows or
+ *   missing required column
+ * - 401 Unauthorized: No authentication token
+ * - 403 Forbidden: Missing user:write permission
+ * - 409 Conflict: A row was registered concurrently (nothing is created)
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. requirePermission - Requires user:write
+ * 3. validateRequest - Validates query with Zod schema
+ * 4. singleFileUpload - Parses the `file` field, checks size and type
+ * 5. userController.importUsers - Handles business logic
+ */
+userRoutes.post(
+  '/import',
+  authMiddleware,
+  requirePermission(Permissions.USER_WRITE),
+  validateRequest({ query: ImportUsersQuerySchema }),
+  singleFileUpload({
+    fieldName: 'file',
+    maxSizeBytes: USER_IMPORT_MAX_SIZE_BYTES,
+    allowedContentTypes: USER_IMPORT_CONTENT_TYPES,
+  }),
+  userController.importUsers.bind(userController),
+);
 
 /**
  * GET /users
  * List users with pagination
  *
  * Authentication: Required (JWT token via authMiddleware)
- * Authorization: MANAGER role only (enforced in service layer)
+ * Authorization: user:read permission (MANAGER, NURSE)
  *
  * Query Parameters:
  * - page: number (default: 1) - Page number (1-indexed)
@@ -80,12 +163,14 @@ userRoutes.post('/', userController.create.bind(userController));
  *
  * Middleware Chain:
  * 1. authMiddleware - Verifies JWT token, sets req.user
- * 2. validateRequest - Validates query params with Zod schema
- * 3. userController.listUsers - Handles business logic
+ * 2. requirePermission - Requires user:read
+ * 3. validateRequest - Validates query params with Zod schema
+ * 4. userController.listUsers - Handles business logic
  */
 userRoutes.get(
   '/',
   authMiddleware,
+  requirePermission(Permissions.USER_READ),
   validateRequest({ query: ListUsersQuerySchema }),
   userController.listUsers.bind(userController),
 );
@@ -96,7 +181,7 @@ userRoutes.get(
  *
  * Authentication: Required (JWT token via authMiddleware)
  * Authorization:
- * - MANAGER: Can view any user
+ * - user:read (MANAGER, NURSE): Can view any user
  * - Other roles: Can only view their own profile
  *
  * Path Parameters:
@@ -116,6 +201,7 @@ userRoutes.get(
  *   "role": "EMPLOYEE",
  *   "coren": null,
  *   "isActive": true,
+ *   "photoUrl": null,
  *   "createdAt": "2024-01-01T00:00:00.000Z",
  *   "updatedAt": "2024-01-01T00:00:00.000Z"
  * }
@@ -143,7 +229,7 @@ userRoutes.get(
  *
  * Authentication: Required (JWT token via authMiddleware)
  * Authorization:
- * - MANAGER: Can update any user, all fields
+ * - user:write (MANAGER): Can update any user, all fields
  * - Other roles: Can only update their own profile (name, phone)
  *
  * Path Parameters:
@@ -153,8 +239,8 @@ userRoutes.get(
  * {
  *   "name": "João Silva",
  *   "phone": "11999999999",
- *   "isActive": true,      // MANAGER only
- *   "role": "NURSE",       // MANAGER only
+ *   "isActive": true,      // user:write only
+ *   "role": "NURSE",       // user:write only
  *   "coren": "123456"      // Required if role is NURSE
  * }
  *
@@ -192,12 +278,49 @@ userRoutes.patch(
   userController.update.bind(userController),
 );
 
+/**
+ * PATCH /users/me/password
+ * Change the authenticated user's password
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ *
+ * Body:
+ * {
+ *   "currentPassword": "OldPassword1!",
+ *   "newPassword": "NewPassword1!"
+ * }
+ *
+ * Business Rules:
+ * - currentPassword must match the stored password
+ * - newPassword must follow the password policy (8+ chars, upper and
+ *   lowercase letters, number and special character) and differ from the
+ *   current one
+ * - Every other session of the user is revoked, this one stays logged in
+ *
+ * Response: 204 No Content
+ *
+ * Errors:
+ * - 400: Wrong current password or new password breaks the policy
+ * - 401: Missing or invalid token
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. validateRequest - Validates body with Zod schema
+ * 3. userController.changePassword - Handles business logic
+ */
+userRoutes.patch(
+  '/me/password',
+  authMiddleware,
+  validateRequest({ body: ChangePasswordSchema }),
+  userController.changePassword.bind(userController),
+);
+
 /**
  * DELETE /users/:id
  * Delete a user (soft delete)
  *
  * Authentication: Required (JWT token via authMiddleware)
- * Authorization: Only MANAGER can delete users
+ * Authorization: user:delete permission (MANAGER)
  *
  * Business Rules:
  * - Sets deletedAt timestamp and isActive=false
@@ -215,19 +338,129 @@ userRoutes.patch(
  *
  * Errors:
  * - 401 Unauthorized: No authentication token
- * - 403 Forbidden: User is not MANAGER or trying to delete themselves
+ * - 403 Forbidden: Missing user:delete permission or trying to delete themselves
  * - 404 Not Found: User not found or already deleted
  *
  * Middleware Chain:
  * 1. authMiddleware - Verifies JWT token, sets req.user
- * 2. validateRequest - Validates params with Zod schema
- * 3. userController.delete - Handles business logic
+ * 2. requirePermission - Requires user:delete
+ * 3. validateRequest - Validates params with Zod schema
+ * 4. userController.delete - Handles business logic
  */
 userRoutes.delete(
   '/:id',
   authMiddleware,
+  requirePermission(Permissions.USER_DELETE),
   validateRequest({ params: IdParamSchema }),
   userController.delete.bind(userController),
 );
 
+/**
+ * POST /users/:id/photo
+ * Upload (or replace) a user's profile photo
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization:
+ * - user:write (MANAGER): Can update any user's photo
+ * - Other roles: Can only update their own photo
+ *
+ * Path Parameters:
+ * - id: string (UUID) - User ID
+ *
+ * Request Body (multipart/form-data):
+ * - photo: file (JPEG, PNG or WebP, max 2 MB)
+ *
+ * Example:
+ * POST /api/users/550e8400-e29b-41d4-a716-446655440000/photo
+ * Authorization: Bearer <JWT_TOKEN>
+ * Content-Type: multipart/form-data
+ *
+ * Response: 200 OK
+ * {
+ *   "url": "/api/users/550e8400-e29b-41d4-a716-446655440000/photo?v=1733306400000",
+ *   "user": { "id": "550e8400-...", "photoUrl": "/api/users/...", ... }
+ * }
+ *
+ * Errors:
+ * - 400 Bad Request: Missing file, too large, or not a JPEG/PNG/WebP image
+ * - 401 Unauthorized: No authentication token
+ * - 403 Forbidden: User trying to update another user's photo
+ * - 404 Not Found: User not found or deleted
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. validateRequest - Validates params with Zod schema
+ * 3. singleFileUpload - Parses the `photo` field, checks size and type
+ * 4. userController.uploadPhoto - Handles business logic
+ */
+userRoutes.post(
+  '/:id/photo',
+  authMiddleware,
+  validateRequest({ params: IdParamSchema }),
+  singleFileUpload({
+    fieldName: 'photo',
+    maxSizeBytes: USER_PHOTO_MAX_SIZE_BYTES,
+    allowedContentTypes: Object.keys(USER_PHOTO_EXTENSIONS),
+  }),
+  userController.uploadPhoto.bind(userController),
+);
+
+/**
+ * GET /users/:id/photo
+ * Download a user's profile photo
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: Same as GET /users/:id
+ *
+ * Path Parameters:
+ * - id: string (UUID) - User ID
+ *
+ * Response: 200 OK with the image (Content-Type: image/jpeg|png|webp)
+ *
+ * Errors:
+ * - 401 Unauthorized: No authentication token
+ * - 403 Forbidden: User trying to view another user's photo
+ * - 404 Not Found: User not found, deleted, or without photo
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. validateRequest - Validates params with Zod schema
+ * 3. userController.getPhoto - Handles business logic
+ */
+userRoutes.get(
+  '/:id/photo',
+  authMiddleware,
+  validateRequest({ params: IdParamSchema }),
+  userController.getPhoto.bind(userController),
+);
+
+/**
+ * DELETE /users/:id/photo
+ * Remove a user's profile photo
+ *
+ * Authentication: Required (JWT token via authMiddleware)
+ * Authorization: Same as POST /users/:id/photo
+ *
+ * Path Parameters:
+ * - id: string (UUID) - User ID
+ *
+ * Response: 204 No Content
+ *
+ * Errors:
+ * - 401 Unauthorized: No authentication token
+ * - 403 Forbidden: User trying to remove another user's photo
+ * - 404 Not Found: User not found, deleted, or without photo
+ *
+ * Middleware Chain:
+ * 1. authMiddleware - Verifies JWT token, sets req.user
+ * 2. validateRequest - Validates params with Zod schema
+ * 3. userController.deletePhoto - Handles business logic
+ */
+userRoutes.delete(
+  '/:id/photo',
+  authMiddleware,
+  validateRequest({ params: IdParamSchema }),
+  userController.deletePhoto.bind(userController),
+);
+
 export default userRoutes;
@@ -1,6 +1,8 @@
 import { container } from '@infrastructure/di/container';
 import { VaccinationCoverageController } from '@modules/vaccination-coverage/controllers/vaccinationCoverageController';
+import { Permissions } from '@shared/constants/permissions';
 import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
 import { Router } from 'express';
 
 /**
@@ -16,7 +18,7 @@ import { Router } from 'express';
  * - Critical vaccines that require immediate attention
  * - User vaccination completion rates (fully, partially, not started)
  *
- * All endpoints require MANAGER role authorization.
+ * All endpoints require the coverage:read permission (MANAGER).
  */
 const vaccinationCoverageRoutes = Router();
 
@@ -30,7 +32,7 @@ const vaccinationCoverageController = container.resolve(
  * Get comprehensive vaccination coverage statistics for the organization
  *
  * Authentication: Required (JWT token via authMiddleware)
- * Authorization: Only MANAGER role can access coverage data (enforced in service layer)
+ * Authorization: coverage:read permission (MANAGER), checked by requirePermission
  *
  * This endpoint calculates real-time vaccination coverage metrics across
  * all active users and vaccines in the system.
@@ -147,17 +149,19 @@ const vaccinationCoverageController = container.resolve(
  *
  * Errors:
  * - 401 Unauthorized: No authentication token or invalid token
- * - 403 Forbidden: User is not a MANAGER
+ * - 403 Forbidden: Missing coverage:read permission
  * - 404 Not Found: Requesting user not found in database
  * - 500 Internal Server Error: Database or calculation errors
  *
  * Middleware Chain:
  * 1. authMiddleware - Verifies JWT token, sets req.user
- * 2. vaccinationCoverageController.getCoverage - Handles business logic
+ * 2. requirePermission - Requires coverage:read
+ * 3. vaccinationCoverageController.getCoverage - Handles business logic
  */
 vaccinationCoverageRoutes.get(
   '/',
   authMiddleware,
+  requirePermission(Permissions.COVERAGE_READ),
   vaccinationCoverageController.getCoverage.bind(vaccinationCoverageController),
 );
 
@@ -5,7 +5,9 @@ import { GetVaccineByIdQuerySchema } from '@modules/vaccines/validators/getVacci
 import { ListVaccineBatchesQuerySchema } from '@modules/vaccines/validators/listVaccineBatchesValidator';
 import { ListVaccinesQuerySchema } from '@modules/vaccines/validators/listVaccinesValidator';
 import { UpdateVaccineBodySchema } from '@modules/vaccines/validators/updateVaccineValidator';
+import { Permissions } from '@shared/constants/permissions';
 import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
 import { validateRequest } from '@shared/middlewares/validateRequest';
 import { idParamsSchema } from '@shared/validators/idParamsSchema';
 import { Router } from 'express';
@@ -19,24 +21,27 @@ const vaccineController = container.resolve(VaccineController);
 vaccineRoutes.post(
   '/',
   authMiddleware,
+  requirePermission(Permissions.VACCINE_WRITE),
   validateRequest(CreateVaccineBodySchema),
   vaccineController.create.bind(vaccineController),
 );
 
-// GET /vaccines - List vaccines with pagination and filters
+// GET /vaccines - List vaccines with pagination and filters (?format=csv|xlsx exports all)
 vaccineRoutes.get(
   '/',
   authMiddleware,
+  requirePermission(Permissions.VACCINE_READ),
   validateRequest({ query: ListVaccinesQuerySchema }),
   vaccineController.getPaginatedVaccines.bind(vaccineController),
 );
 
 
-// GET /vaccines/:id/batches - Get paginated batches for a specific vaccine
+// GET /vaccines/:id/batches - Get paginated batches for a specific vaccine (?format=csv|xlsx exports all)
 // IMPORTANT: This route MUST be before /:id to avoid route conflicts
 vaccineRoutes.get(
   '/:id/batches',
   authMiddleware,
+  requirePermission(Permissions.BATCH_READ),
   validateRequest({
     params: idParamsSchema,
     query: ListVaccineBatchesQuerySchema,
@@ -48,6 +53,7 @@ vaccineRoutes.get(
 vaccineRoutes.get(
   '/:id',
   authMiddleware,
+  requirePermission(Permissions.VACCINE_READ),
   validateRequest({
     params: idParamsSchema,
     query: GetVaccineByIdQuerySchema,
@@ -59,6 +65,7 @@ vaccineRoutes.get(
 vaccineRoutes.patch(
   '/:id',
   authMiddleware,
+  requirePermission(Permissions.VACCINE_WRITE),
   validateRequest({
     params: idParamsSchema,
     body: UpdateVaccineBodySchema,
@@ -70,6 +77,7 @@ vaccineRoutes.patch(
 vaccineRoutes.delete(
   '/:id',
   authMiddleware,
+  requirePermission(Permissions.VACCINE_WRITE),
   validateRequest({ params: idParamsSchema }),
   vaccineController.delete.bind(vaccineController),
 );
@@ -1,9 +1,13 @@
 import { container } from '@infrastructure/di/container';
 import { VaccineApplicationController } from '@modules/vaccine-application';
+import { BatchSuggestionQuerySchema } from '@modules/vaccine-application/validators/batchSuggestionValidator';
 import { CreateVaccineApplicationBodySchema } from '@modules/vaccine-application/validators/createVaccineApplicationValidator';
 import { UpdateVaccineApplicationBodySchema } from '@modules/vaccine-application/validators/updateVaccineApplicationValidator';
+import { VoidVaccineApplicationBodySchema } from '@modules/vaccine-application/validators/voidVaccineApplicationValidator';
 import { ListVaccineApplicationsQuerySchema } from '@modules/vaccine-application/validators/listVaccineApplicationsValidator';
+import { Permissions } from '@shared/constants/permissions';
 import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
 import { validateRequest } from '@shared/middlewares/validateRequest';
 import { idParamsSchema } from '@shared/validators/idParamsSchema';
 import { Router } from 'express';
@@ -19,10 +23,29 @@ const vaccineApplicationController = container.resolve(
 vaccineApplicationRoutes.post(
   '/',
   authMiddleware,
+  requirePermission(Permissions.APPLICATION_CREATE),
   validateRequest(CreateVaccineApplicationBodySchema),
   vaccineApplicationController.create.bind(vaccineApplicationController),
 );
 
+// GET /vaccine-applications/batch-suggestion - Batch to use for a vaccine (FEFO)
+vaccineApplicationRoutes.get(
+  '/batch-suggestion',
+  authMiddleware,
+  requirePermission(Permissions.APPLICATION_CREATE),
+  validateRequest({ query: BatchSuggestionQuerySchema }),
+  vaccineApplicationController.suggestBatch.bind(vaccineApplicationController),
+);
+
+// GET /vaccine-applications/users/:id/history.pdf - Download user's vaccination card as PDF
+vaccineApplicationRoutes.get(
+  '/users/:id/history.pdf',
+  authMiddleware,
+  validateRequest({ params: idParamsSchema }),
+  vaccineApplicationController.getUserHistoryPdf.bind(
+    vaccineApplicationController,
+  ),
+);
 
 // GET /vaccine-applications/users/:id/history - Get user's vaccination history
 vaccineApplicationRoutes.get(
@@ -42,7 +65,7 @@ vaccineApplicationRoutes.get(
   vaccineApplicationController.getById.bind(vaccineApplicationController),
 );
 
-// GET /vaccine-applications - List vaccine applications with pagination
+// GET /vaccine-applications - List vaccine applications with pagination (?format=csv|xlsx exports all)
 vaccineApplicationRoutes.get(
   '/',
   authMiddleware,
@@ -61,4 +84,16 @@ vaccineApplicationRoutes.patch(
   vaccineApplicationController.update.bind(vaccineApplicationController),
 );
 
+// POST /vaccine-applications/:id/void - Void an application and restore stock
+vaccineApplicationRoutes.post(
+  '/:id/void',
+  authMiddleware,
+  requirePermission(Permissions.APPLICATION_VOID),
+  validateRequest({
+    body: VoidVaccineApplicationBodySchema,
+    params: idParamsSchema,
+  }),
+  vaccineApplicationController.void.bind(vaccineApplicationController),
+);
+
 export default vaccineApplicationRoutes;
@@ -1,8 +1,13 @@
 import { container } from '@infrastructure/di/container';
 import { VaccineBatchController } from '@modules/vaccine-batch';
 import { CreateVaccineBatchBodySchema } from '@modules/vaccine-batch/validators/createVaccineBatchValidator';
+import { DiscardVaccineBatchBodySchema } from '@modules/vaccine-batch/validators/discardVaccineBatchValidator';
+import { ListStockMovementsQuerySchema } from '@modules/vaccine-batch/validators/listStockMovementsValidator';
+import { QuarantineVaccineBatchBodySchema } from '@modules/vaccine-batch/validators/quarantineVaccineBatchValidator';
 import { UpdateVaccineBatchBodySchema } from '@modules/vaccine-batch/validators/updateVaccineBatchValidator';
+import { Permissions } from '@shared/constants/permissions';
 import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
 import { validateRequest } from '@shared/middlewares/validateRequest';
 import { idParamsSchema } from '@shared/validators/idParamsSchema';
 import { Router } from 'express';
@@ -16,6 +21,7 @@ const vaccineBatchController = container.resolve(VaccineBatchController);
 vaccineBatchRoutes.post(
   '/',
   authMiddleware,
+  requirePermission(Permissions.BATCH_WRITE),
   validateRequest(CreateVaccineBatchBodySchema),
   vaccineBatchController.create.bind(vaccineBatchController),
 );
@@ -23,6 +29,7 @@ vaccineBatchRoutes.post(
 vaccineBatchRoutes.patch(
   '/:id',
   authMiddleware,
+  requirePermission(Permissions.BATCH_WRITE),
   validateRequest({
     body: UpdateVaccineBatchBodySchema,
     params: idParamsSchema,
@@ -30,4 +37,78 @@ vaccineBatchRoutes.patch(
   vaccineBatchController.update.bind(vaccineBatchController),
 );
 
+// POST /vaccine-batches/:id/discard - Discard some or all doses of a batch, with a reason
+vaccineBatchRoutes.post(
+  '/:id/discard',
+  authMiddleware,
+  requirePermission(Permissions.BATCH_WRITE),
+  validateRequest({
+    body: DiscardVaccineBatchBodySchema,
+    params: idParamsSchema,
+  }),
+  vaccineBatchController.discard.bind(vaccineBatchController),
+);
+
+// POST /vaccine-batches/:id/quarantine - Suspend a batch under investigation, notifying its recipients
+vaccineBatchRoutes.post(
+  '/:id/quarantine',
+  authMiddleware,
+  requirePermission(Permissions.BATCH_WRITE),
+  validateRequest({
+    body: QuarantineVaccineBatchBodySchema,
+    params: idParamsSchema,
+  }),
+  vaccineBatchController.quarantine.bind(vaccineBatchController),
+);
+
+// POST /vaccine-batches/:id/recall - Recall a batch for good, notifying its recipients
+vaccineBatchRoutes.post(
+  '/:id/recall',
+  authMiddleware,
+  requirePermission(Permissions.BATCH_WRITE),
+  validateRequest({
+    body: QuarantineVaccineBatchBodySchema,
+    params: idParamsSchema,
+  }),
+  vaccineBatchController.recall.bind(vaccineBatchController),
+);
+
+// POST /vaccine-batches/:id/release - Lift the quarantine of a batch
+vaccineBatchRoutes.post(
+  '/:id/release',
+  authMiddleware,
+  requirePermission(Permissions.BATCH_WRITE),
+  validateRequest({ params: idParamsSchema }),
+  vaccineBatchController.release.bind(vaccineBatchController),
+);
+
+// GET /vaccine-batches/:id/recipients - Users who received a dose from the batch, for follow-up
+vaccineBatchRoutes.get(
+  '/:id/recipients',
+  authMiddleware,
+  requirePermission(Permissions.APPLICATION_READ),
+  validateRequest({ params: idParamsSchema }),
+  vaccineBatchController.getRecipients.bind(vaccineBatchController),
+);
+
+// GET /vaccine-batches/reconciliation - Check batch quantities against the stock ledger
+vaccineBatchRoutes.get(
+  '/reconciliation',
+  authMiddleware,
+  requirePermission(Permissions.BATCH_READ),
+  vaccineBatchController.reconcile.bind(vaccineBatchController),
+);
+
+// GET /vaccine-batches/:id/movements - Stock movement history of a batch
+vaccineBatchRoutes.get(
+  '/:id/movements',
+  authMiddleware,
+  requirePermission(Permissions.BATCH_READ),
+  validateRequest({
+    params: idParamsSchema,
+    query: ListStockMovementsQuerySchema,
+  }),
+  vaccineBatchController.getMovements.bind(vaccineBatchController),
+);
+
 export default vaccineBatchRoutes;
@@ -10,7 +10,11 @@ import { GetVaccineSchedulingParamsSchema } from '@modules/vaccine-scheduling/va
 import { DeleteVaccineSchedulingParamsSchema } from '@modules/vaccine-scheduling/validators/deleteVaccineSchedulingValidator';
 import { GetNurseSchedulingMonthlyQuerySchema } from '@modules/vaccine-scheduling/validators/getNurseSchedulingMonthlyValidator';
 import { GetSchedulingsByDateQuerySchema } from '@modules/vaccine-scheduling/validators/getSchedulingsByDateValidator';
+import { GetAvailableSlotsQuerySchema } from '@modules/vaccine-scheduling/validators/getAvailableSlotsValidator';
+import { RebalanceSchedulingsBodySchema } from '@modules/vaccine-scheduling/validators/rebalanceSchedulingsValidator';
+import { Permissions } from '@shared/constants/permissions';
 import { authMiddleware } from '@shared/middlewares/authMiddleware';
+import { requirePermission } from '@shared/middlewares/permissionMiddleware';
 import { validateRequest } from '@shared/middlewares/validateRequest';
 import { Router } from 'express';
 
@@ -25,14 +29,25 @@ const vaccineSchedulingController = container.resolve(
 vaccineSchedulingRoutes.post(
   '/',
   authMiddleware,
+  requirePermission(Permissions.SCHEDULING_CREATE),
   validateRequest({ body: CreateVaccineSchedulingBodySchema }),
   vaccineSchedulingController.create.bind(vaccineSchedulingController),
 );
 
+// POST /vaccine-schedulings/rebalance - Spread a day's schedulings between nurses
+vaccineSchedulingRoutes.post(
+  '/rebalance',
+  authMiddleware,
+  requirePermission(Permissions.SCHEDULING_REBALANCE),
+  validateRequest({ body: RebalanceSchedulingsBodySchema }),
+  vaccineSchedulingController.rebalance.bind(vaccineSchedulingController),
+);
+
 // GET /vaccine-schedulings/nurse/monthly - Get nurse monthly schedulings
 vaccineSchedulingRoutes.get(
   '/nurse/monthly',
   authMiddleware,
+  requirePermission(Permissions.SCHEDULING_ASSIGNED_READ),
   validateRequest({ query: GetNurseSchedulingMonthlyQuerySchema }),
   vaccineSchedulingController.getNurseSchedulingsDetailed.bind(
     vaccineSchedulingController,
@@ -43,12 +58,22 @@ vaccineSchedulingRoutes.get(
 vaccineSchedulingRoutes.get(
   '/by-date',
   authMiddleware,
+  requirePermission(Permissions.SCHEDULING_AGENDA_READ),
   validateRequest({ query: GetSchedulingsByDateQuerySchema }),
   vaccineSchedulingController.getSchedulingsByDate.bind(
     vaccineSchedulingController,
   ),
 );
 
+// GET /vaccine-schedulings/slots - Free appointment slots of a day
+vaccineSchedulingRoutes.get(
+  '/slots',
+  authMiddleware,
+  requirePermission(Permissions.SCHEDULING_CREATE),
+  validateRequest({ query: GetAvailableSlotsQuerySchema }),
+  vaccineSchedulingController.getSlots.bind(vaccineSchedulingController),
+);
+
 // GET /vaccine-schedulings/:id - Get single vaccine scheduling
 vaccineSchedulingRoutes.get(
   '/:id',
@@ -57,7 +82,7 @@ vaccineSchedulingRoutes.get(
   vaccineSchedulingController.getById.bind(vaccineSchedulingController),
 );
 
-// GET /vaccine-schedulings - List vaccine schedulings with pagination and filters
+// GET /vaccine-schedulings - List vaccine schedulings with pagination and filters (?format=csv|xlsx exports all)
 vaccineSchedulingRoutes.get(
   '/',
   authMiddleware,
@@ -0,0 +1,57 @@
+/**
+ * LocalFileStorage - Local disk storage
+ *
+ * Stores files under STORAGE_LOCAL_DIR, using the key as relative path.
+ * Only suitable for a single server (or a shared volume); a cloud storage
+ * implementation can replace it behind IFileStorage.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { IFileStorage } from '@shared/interfaces/fileStorage';
+import type { StorageConfig } from './storageConfig';
+
+export class LocalFileStorage implements IFileStorage {
+  readonly name = 'local';
+
+  private readonly rootDir: string;
+
+  constructor(config: StorageConfig) {
+    this.rootDir = path.resolve(config.localDir);
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, content);
+  }
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolvePath(key), { force: true });
+  }
+
+  /**
+   * Absolute path of a key, rejecting keys that escape the root directory
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(`${this.rootDir}${path.sep}`)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
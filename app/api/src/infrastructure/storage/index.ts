@@ -0,0 +1,15 @@
+import type { IFileStorage } from '@shared/interfaces/fileStorage';
+import { LocalFileStorage } from './LocalFileStorage';
+import { getStorageConfig } from './storageConfig';
+
+export { LocalFileStorage } from './LocalFileStorage';
+export { getStorageConfig, type StorageConfig } from './storageConfig';
+
+/**
+ * Creates the file storage selected by STORAGE_DRIVER
+ */
+export const createFileStorage = (): IFileStorage => {
+  const config = getStorageConfig();
+
+  return new LocalFileStorage(config);
+};
@@ -0,0 +1,21 @@
+/**
+ * Storage configuration
+ *
+ * Reads file storage settings from environment variables.
+ *
+ * Variables:
+ * - STORAGE_DRIVER: 'local' (default: 'local')
+ * - STORAGE_LOCAL_DIR: directory used by the local driver (default: 'uploads')
+ */
+
+export type StorageDriver = 'local';
+
+export interface StorageConfig {
+  driver: StorageDriver;
+  localDir: string;
+}
+
+export const getStorageConfig = (): StorageConfig => ({
+  driver: 'local',
+  localDir: process.env.STORAGE_LOCAL_DIR || 'uploads',
+});
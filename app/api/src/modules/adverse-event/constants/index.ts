@@ -0,0 +1,33 @@
+export const allowedAdverseEventSortFields = [
+  'onsetAt',
+  'severity',
+  'outcome',
+  'createdAt',
+];
+
+export const ADVERSE_EVENT_SEVERITIES = ['MILD', 'MODERATE', 'SEVERE'] as const;
+
+export const ADVERSE_EVENT_SYMPTOMS = [
+  'LOCAL_REACTION',
+  'FEVER',
+  'HEADACHE',
+  'MYALGIA',
+  'FATIGUE',
+  'NAUSEA',
+  'RASH',
+  'ALLERGIC_REACTION',
+  'ANAPHYLAXIS',
+  'SEIZURE',
+  'SYNCOPE',
+  'OTHER',
+] as const;
+
+export const ADVERSE_EVENT_OUTCOMES = [
+  'UNKNOWN',
+  'RECOVERING',
+  'RECOVERED',
+  'RECOVERED_WITH_SEQUELAE',
+  'NOT_RECOVERED',
+  'HOSPITALIZED',
+  'DEATH',
+] as const;
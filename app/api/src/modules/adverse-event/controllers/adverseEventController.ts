@@ -0,0 +1,199 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { AdverseEventService } from '@modules/adverse-event/services/adverseEventService';
+import type { AdverseEventStatisticsQueryDTO } from '@modules/adverse-event/validators/adverseEventStatisticsValidator';
+import type { CreateAdverseEventBodyDTO } from '@modules/adverse-event/validators/createAdverseEventValidator';
+import type { ListAdverseEventsQueryDTO } from '@modules/adverse-event/validators/listAdverseEventsValidator';
+import type { UpdateAdverseEventBodyDTO } from '@modules/adverse-event/validators/updateAdverseEventValidator';
+import type { AdverseEventFilterParams } from '@shared/interfaces/adverseEvent';
+import type { NextFunction, Request, Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+
+/**
+ * AdverseEventController - HTTP request handler for adverse event endpoints
+ *
+ * Responsibilities:
+ * - HTTP request/response handling
+ * - Extracting authenticated user information
+ * - Calling appropriate service methods
+ *
+ * Architecture:
+ * - Thin controller - all business logic in AdverseEventService
+ * - Own-event access (patient or reporter) is decided in the service layer
+ */
+@injectable()
+export class AdverseEventController {
+  constructor(
+    @inject(TOKENS.AdverseEventService)
+    private readonly adverseEventService: AdverseEventService,
+  ) {}
+
+  /**
+   * Reports an adverse event for an application
+   *
+   * HTTP Endpoint: POST /adverse-events
+   * Authorization: The patient of the application, or adverse-event:create (NURSE)
+   * Body: CreateAdverseEventBodyDTO (validated by Zod middleware)
+   *
+   * @example
+   * POST /adverse-events
+   * Headers: Authorization: Bearer <token>
+   * {
+   *   "applicationId": "uuid",
+   *   "symptoms": ["FEVER", "MYALGIA"],
+   *   "severity": "MILD",
+   *   "onsetAt": "2025-12-10T08:00:00.000Z"
+   * }
+   *
+   * Response: 201 Created
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = req.body as CreateAdverseEventBodyDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const adverseEvent = await this.adverseEventService.reportAdverseEvent(
+        data,
+        requestingUserId,
+      );
+
+      res.status(201).json(adverseEvent);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lists adverse events with pagination and filtering
+   *
+   * HTTP Endpoint: GET /adverse-events
+   * Authorization: Authenticated. Without adverse-event:read only own events are listed
+   * Query Parameters:
+   * - page, perPage, sortBy, sortOrder
+   * - userId, vaccineId, batchId: string (UUID)
+   * - severity: MILD | MODERATE | SEVERE
+   * - onsetFrom, onsetTo: ISO 8601 datetime
+   *
+   * Response: 200 OK
+   */
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = req.query as unknown as ListAdverseEventsQueryDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const paginationParams = {
+        page: query.page,
+        perPage: query.perPage,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+      };
+
+      const filters: AdverseEventFilterParams = {
+        userId: query.userId,
+        vaccineId: query.vaccineId,
+        batchId: query.batchId,
+        severity: query.severity,
+        onsetFrom: query.onsetFrom ? new Date(query.onsetFrom) : undefined,
+        onsetTo: query.onsetTo ? new Date(query.onsetTo) : undefined,
+      };
+
+      const result = await this.adverseEventService.listAdverseEvents(
+        paginationParams,
+        filters,
+        requestingUserId,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Adverse event counts and rates per vaccine or per batch
+   *
+   * HTTP Endpoint: GET /adverse-events/statistics
+   * Authorization: adverse-event:read (NURSE, MANAGER)
+   * Query Parameters:
+   * - groupBy: vaccine | batch (default: vaccine)
+   * - vaccineId: string (UUID)
+   * - from, to: YYYY-MM-DD (application date)
+   *
+   * Response: 200 OK
+   */
+  async statistics(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { groupBy, ...query } =
+        req.query as unknown as AdverseEventStatisticsQueryDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const result = await this.adverseEventService.getStatistics(
+        groupBy,
+        query,
+        requestingUserId,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Gets a single adverse event
+   *
+   * HTTP Endpoint: GET /adverse-events/:id
+   * Authorization: Patient, reporter or adverse-event:read
+   *
+   * Response: 200 OK
+   */
+  async getById(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      const adverseEvent = await this.adverseEventService.getAdverseEventById(
+        id,
+        requestingUserId,
+      );
+
+      res.status(200).json(adverseEvent);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Updates the outcome of an adverse event
+   *
+   * HTTP Endpoint: PATCH /adverse-events/:id
+   * Authorization: Patient, reporter or adverse-event:create (NURSE)
+   * Body: UpdateAdverseEventBodyDTO (validated by Zod middleware)
+   *
+   * Response: 200 OK
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = req.body as UpdateAdverseEventBodyDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const adverseEvent = await this.adverseEventService.updateAdverseEvent(
+        id,
+        data,
+        requestingUserId,
+      );
+
+      res.status(200).json(adverseEvent);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { AppError } from '@modules/user/errors';
+
+export class AdverseEventNotFoundError extends AppError {
+  constructor(message = 'Adverse event not found') {
+    super(message, 404);
+    this.name = 'AdverseEventNotFoundError';
+  }
+}
+
+export class InvalidAdverseEventOnsetError extends AppError {
+  constructor(message = 'Onset must be between the application date and now') {
+    super(message, 400);
+    this.name = 'InvalidAdverseEventOnsetError';
+  }
+}
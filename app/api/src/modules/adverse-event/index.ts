@@ -0,0 +1,5 @@
+export * from './controllers/adverseEventController';
+export * from './services/adverseEventService';
+export * from './stores/adverseEventStore';
+export * from './errors';
+export * from './constants';
@@ -0,0 +1,301 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import {
+  EventNames,
+  type SevereAdverseEventEvent,
+} from '@modules/notifications/contracts';
+import { ForbiddenError } from '@modules/user/errors';
+import type { UserService } from '@modules/user/services/userService';
+import { VaccineApplicationNotFoundError } from '@modules/vaccine-application/errors';
+import { Permissions } from '@shared/constants/permissions';
+import {
+  assertPermission,
+  hasPermission,
+} from '@shared/helpers/permissionHelper';
+import {
+  getCurrentDate,
+  getDate,
+  getEndOfDay,
+  getStartOfDay,
+} from '@shared/helpers/timeHelper';
+import type {
+  AdverseEventFilterParams,
+  AdverseEventStatisticsFilterParams,
+  IAdverseEventStore,
+} from '@shared/interfaces/adverseEvent';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+} from '@shared/interfaces/pagination';
+import type { IVaccineApplicationStore } from '@shared/interfaces/vaccineApplication';
+import type {
+  AdverseEventStatistics,
+  AdverseEventStatisticsGroupBy,
+  AdverseEventWithRelations,
+  CreateAdverseEventDTO,
+  UpdateAdverseEventDTO,
+} from '@shared/models/adverseEvent';
+import type { OutboxEventCreateInput } from '@shared/models/outboxEvent';
+import type { User } from '@shared/models/user';
+import { inject, injectable } from 'tsyringe';
+import {
+  AdverseEventNotFoundError,
+  InvalidAdverseEventOnsetError,
+} from '../errors';
+
+/**
+ * AdverseEventService - Service layer for adverse events following
+ * immunization (ESAVI)
+ *
+ * Responsible for:
+ * - Self-reports by the patient and registrations by nurses
+ * - Follow-up of the outcome
+ * - Alerting managers of SEVERE events (adverse-event.severe, via outbox)
+ * - Per-vaccine and per-batch statistics, to spot problematic batches
+ *
+ * Authorization:
+ * - The patient of the application can report and follow up their own events
+ * - adverse-event:create (NURSE) registers and updates events of any patient
+ * - adverse-event:read (NURSE, MANAGER) lists every event and the statistics
+ */
+@injectable()
+export class AdverseEventService {
+  constructor(
+    @inject(TOKENS.IAdverseEventStore)
+    private readonly adverseEventStore: IAdverseEventStore,
+    @inject(TOKENS.IVaccineApplicationStore)
+    private readonly vaccineApplicationStore: IVaccineApplicationStore,
+    @inject(TOKENS.UserService)
+    private readonly userService: UserService,
+  ) {}
+
+  /**
+   * Reports an adverse event for a vaccine application
+   *
+   * Business Rules:
+   * - Application must exist and not be voided
+   * - Requester must be the patient or have adverse-event:create
+   * - onsetAt must be between the application date and now
+   * - SEVERE events are published to managers in the same transaction
+   *
+   * @param data - Adverse event data
+   * @param requestingUserId - ID of the patient or nurse reporting
+   * @returns Created adverse event with its relations
+   * @throws UserNotFoundError if requesting user not found
+   * @throws VaccineApplicationNotFoundError if application not found or voided
+   * @throws ForbiddenError if reporting for someone else without adverse-event:create
+   * @throws InvalidAdverseEventOnsetError if onsetAt is outside the allowed range
+   */
+  async reportAdverseEvent(
+    data: CreateAdverseEventDTO,
+    requestingUserId: string,
+  ): Promise<AdverseEventWithRelations> {
+    const requestingUser =
+      await this.userService.validateUserExists(requestingUserId);
+
+    const application = await this.vaccineApplicationStore.findById(
+      data.applicationId,
+    );
+    if (!application || application.deletedAt) {
+      throw new VaccineApplicationNotFoundError(
+        `Application with ID ${data.applicationId} not found`,
+      );
+    }
+
+    if (application.userId !== requestingUser.id) {
+      assertPermission(requestingUser, Permissions.ADVERSE_EVENT_CREATE);
+    }
+
+    if (
+      data.onsetAt < application.applicationDate ||
+      data.onsetAt > getCurrentDate()
+    ) {
+      throw new InvalidAdverseEventOnsetError();
+    }
+
+    return this.adverseEventStore.createAdverseEvent(
+      {
+        applicationId: application.id,
+        userId: application.userId,
+        vaccineId: application.vaccineId,
+        batchId: application.batchId,
+        symptoms: data.symptoms,
+        severity: data.severity,
+        onsetAt: data.onsetAt,
+        outcome: data.outcome,
+        description: data.description,
+        reportedById: requestingUser.id,
+      },
+      data.severity === 'SEVERE'
+        ? (adverseEvent) => this.buildSevereAdverseEventEvent(adverseEvent)
+        : undefined,
+    );
+  }
+
+  /**
+   * Lists adverse events with pagination and filtering
+   *
+   * Authorization:
+   * - adverse-event:read (NURSE, MANAGER): Can see all events
+   * - Others: Can only see their own events (userId filter forced)
+   */
+  async listAdverseEvents(
+    params: PaginationParams,
+    filters: AdverseEventFilterParams,
+    requestingUserId: string,
+  ): Promise<PaginatedResponse<AdverseEventWithRelations>> {
+    const requestingUser =
+      await this.userService.validateUserExists(requestingUserId);
+
+    if (!hasPermission(requestingUser.role, Permissions.ADVERSE_EVENT_READ)) {
+      filters.userId = requestingUser.id;
+    }
+
+    return this.adverseEventStore.findPaginatedAdverseEvents(params, filters);
+  }
+
+  /**
+   * Gets an adverse event by ID
+   *
+   * Visible to the patient, the reporter and adverse-event:read holders.
+   *
+   * @throws AdverseEventNotFoundError if not found
+   * @throws ForbiddenError if not authorized
+   */
+  async getAdverseEventById(
+    id: string,
+    requestingUserId: string,
+  ): Promise<AdverseEventWithRelations> {
+    const requestingUser =
+      await this.userService.validateUserExists(requestingUserId);
+    const adverseEvent = await this.findAdverseEventOrThrow(id);
+
+    if (
+      !this.isInvolved(adverseEvent, requestingUser) &&
+      !hasPermission(requestingUser.role, Permissions.ADVERSE_EVENT_READ)
+    ) {
+      throw new ForbiddenError('You can only view your own adverse events');
+    }
+
+    return adverseEvent;
+  }
+
+  /**
+   * Updates the outcome (and optionally the description) of an adverse event
+   *
+   * Allowed for the patient, the reporter and adverse-event:create holders.
+   *
+   * @throws AdverseEventNotFoundError if not found
+   * @throws ForbiddenError if not authorized
+   */
+  async updateAdverseEvent(
+    id: string,
+    data: UpdateAdverseEventDTO,
+    requestingUserId: string,
+  ): Promise<AdverseEventWithRelations> {
+    const requestingUser =
+      await this.userService.validateUserExists(requestingUserId);
+    const adverseEvent = await this.findAdverseEventOrThrow(id);
+
+    if (!this.isInvolved(adverseEvent, requestingUser)) {
+      assertPermission(requestingUser, Permissions.ADVERSE_EVENT_CREATE);
+    }
+
+    await this.adverseEventStore.update(id, {
+      outcome: data.outcome,
+      description: data.description,
+    });
+
+    return this.findAdverseEventOrThrow(id);
+  }
+
+  /**
+   * Adverse event counts and rates per vaccine or per batch
+   *
+   * The period (YYYY-MM-DD, inclusive) applies to the application date, so
+   * events and doses are counted over the same applications.
+   *
+   * @throws ForbiddenError if requesting user lacks adverse-event:read
+   */
+  async getStatistics(
+    groupBy: AdverseEventStatisticsGroupBy,
+    query: { vaccineId?: string; from?: string; to?: string },
+    requestingUserId: string,
+  ): Promise<AdverseEventStatistics> {
+    await this.userService.validatePermission(
+      requestingUserId,
+      Permissions.ADVERSE_EVENT_READ,
+    );
+
+    const filters: AdverseEventStatisticsFilterParams = {
+      vaccineId: query.vaccineId,
+      from: query.from ? getStartOfDay(getDate(query.from)) : undefined,
+      to: query.to ? getEndOfDay(getDate(query.to)) : undefined,
+    };
+
+    const rows = await this.adverseEventStore.getStatistics(groupBy, filters);
+
+    return {
+      groupBy,
+      from: filters.from,
+      to: filters.to,
+      rows,
+    };
+  }
+
+  private async findAdverseEventOrThrow(
+    id: string,
+  ): Promise<AdverseEventWithRelations> {
+    const adverseEvent = await this.adverseEventStore.findByIdWithRelations(id);
+    if (!adverseEvent) {
+      throw new AdverseEventNotFoundError(
+        `Adverse event with ID ${id} not found`,
+      );
+    }
+    return adverseEvent;
+  }
+
+  /**
+   * Whether the user is the patient or the reporter of the event
+   */
+  private isInvolved(
+    adverseEvent: AdverseEventWithRelations,
+    user: User,
+  ): boolean {
+    return (
+      adverseEvent.userId === user.id || adverseEvent.reportedById === user.id
+    );
+  }
+
+  /**
+   * Builds the adverse-event.severe event written to the outbox in the same
+   * transaction as the adverse event
+   */
+  private buildSevereAdverseEventEvent(
+    adverseEvent: AdverseEventWithRelations,
+  ): OutboxEventCreateInput {
+    const payload: SevereAdverseEventEvent = {
+      channels: ['in-app', 'email'],
+      type: EventNames.SEVERE_ADVERSE_EVENT,
+      priority: 'urgent',
+      data: {
+        adverseEventId: adverseEvent.id,
+        applicationId: adverseEvent.applicationId,
+        patientId: adverseEvent.user.id,
+        patientName: adverseEvent.user.name,
+        vaccineId: adverseEvent.vaccine.id,
+        vaccineName: adverseEvent.vaccine.name,
+        batchId: adverseEvent.batch.id,
+        batchNumber: adverseEvent.batch.batchNumber,
+        doseNumber: adverseEvent.application.doseNumber,
+        severity: adverseEvent.severity,
+        symptoms: adverseEvent.symptoms,
+        outcome: adverseEvent.outcome,
+        onsetAt: adverseEvent.onsetAt,
+        reportedById: adverseEvent.reportedBy.id,
+        reportedByName: adverseEvent.reportedBy.name,
+      },
+    };
+
+    return { eventName: EventNames.SEVERE_ADVERSE_EVENT, payload };
+  }
+}
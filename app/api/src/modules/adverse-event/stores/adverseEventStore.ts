@@ -0,0 +1,253 @@
+import type { AdverseEvent, Prisma } from '@infrastructure/database';
+import { enqueueOutboxEvent } from '@shared/helpers/outboxHelper';
+import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
+import type {
+  AdverseEventFilterParams,
+  AdverseEventStatisticsFilterParams,
+  IAdverseEventStore,
+} from '@shared/interfaces/adverseEvent';
+import {
+  type PaginatedResponse,
+  type PaginationParams,
+  calculatePaginationMetadata,
+} from '@shared/interfaces/pagination';
+import type {
+  AdverseEventCreateInput,
+  AdverseEventDelegate,
+  AdverseEventSeverity,
+  AdverseEventStatisticsGroupBy,
+  AdverseEventStatisticsRow,
+  AdverseEventUpdateInput,
+  AdverseEventWithRelations,
+} from '@shared/models/adverseEvent';
+import type { OutboxEventCreateInput } from '@shared/models/outboxEvent';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+import { allowedAdverseEventSortFields } from '../constants';
+
+const adverseEventRelations = {
+  application: {
+    select: {
+      id: true,
+      applicationDate: true,
+      doseNumber: true,
+    },
+  },
+  user: { select: { id: true, name: true, email: true } },
+  vaccine: { select: { id: true, name: true, manufacturer: true } },
+  batch: { select: { id: true, batchNumber: true, status: true } },
+  reportedBy: { select: { id: true, name: true, role: true } },
+} as const;
+
+/**
+ * AdverseEventStore - Prisma-based implementation of IAdverseEventStore
+ *
+ * Persists adverse events following immunization. userId, vaccineId and
+ * batchId are copied from the application on creation, so statistics can
+ * group by vaccine or batch directly.
+ */
+@injectable()
+export class AdverseEventStore
+  extends BaseStore<
+    AdverseEvent,
+    AdverseEventDelegate,
+    AdverseEventCreateInput,
+    AdverseEventUpdateInput
+  >
+  implements IAdverseEventStore
+{
+  protected readonly model = this.prisma.adverseEvent;
+
+  async createAdverseEvent(
+    data: AdverseEventCreateInput,
+    buildOutboxEvent?: (
+      adverseEvent: AdverseEventWithRelations,
+    ) => OutboxEventCreateInput,
+  ): Promise<AdverseEventWithRelations> {
+    return this.prisma.$transaction(async (prisma) => {
+      const adverseEvent = await prisma.adverseEvent.create({
+        data: {
+          symptoms: data.symptoms,
+          severity: data.severity,
+          onsetAt: data.onsetAt,
+          outcome: data.outcome,
+          description: data.description,
+          application: { connect: { id: data.applicationId } },
+          user: { connect: { id: data.userId } },
+          vaccine: { connect: { id: data.vaccineId } },
+          batch: { connect: { id: data.batchId } },
+          reportedBy: { connect: { id: data.reportedById } },
+        },
+        include: adverseEventRelations,
+      });
+
+      if (buildOutboxEvent) {
+        await enqueueOutboxEvent(prisma, buildOutboxEvent(adverseEvent));
+      }
+
+      return adverseEvent;
+    });
+  }
+
+  async findByIdWithRelations(
+    id: string,
+  ): Promise<AdverseEventWithRelations | null> {
+    return this.model.findUnique({
+      where: { id },
+      include: adverseEventRelations,
+    });
+  }
+
+  async findPaginatedAdverseEvents(
+    params: PaginationParams,
+    filters?: AdverseEventFilterParams,
+  ): Promise<PaginatedResponse<AdverseEventWithRelations>> {
+    const { page, perPage } = params;
+
+    const where: Prisma.AdverseEventWhereInput = {
+      userId: filters?.userId,
+      vaccineId: filters?.vaccineId,
+      batchId: filters?.batchId,
+      severity: filters?.severity,
+    };
+
+    if (filters?.onsetFrom || filters?.onsetTo) {
+      where.onsetAt = {};
+      if (filters.onsetFrom) {
+        where.onsetAt.gte = filters.onsetFrom;
+      }
+      if (filters.onsetTo) {
+        where.onsetAt.lte = filters.onsetTo;
+      }
+    }
+
+    const [data, total] = await Promise.all([
+      this.model.findMany({
+        where,
+        ...buildPaginationArgs(params, allowedAdverseEventSortFields),
+        include: adverseEventRelations,
+      }),
+      this.model.count({ where }),
+    ]);
+
+    const pagination = calculatePaginationMetadata(page, perPage, total);
+
+    return {
+      data,
+      pagination,
+    };
+  }
+
+  /**
+   * Counts events and doses with two groupBy queries (one per table),
+   * then loads names for the groups that had adverse events
+   */
+  async getStatistics(
+    groupBy: AdverseEventStatisticsGroupBy,
+    filters?: AdverseEventStatisticsFilterParams,
+  ): Promise<AdverseEventStatisticsRow[]> {
+    const applicationWhere: Prisma.VaccineApplicationWhereInput = {
+      deletedAt: null,
+      vaccineId: filters?.vaccineId,
+      applicationDate:
+        filters?.from || filters?.to
+          ? { gte: filters.from, lte: filters.to }
+          : undefined,
+    };
+
+    const key = groupBy === 'batch' ? 'batchId' : 'vaccineId';
+
+    const eventGroups = await this.model.groupBy({
+      by: [key, 'severity'],
+      where: { application: applicationWhere },
+      _count: { _all: true },
+    });
+
+    const countsByKey = new Map<string, Record<AdverseEventSeverity, number>>();
+    for (const group of eventGroups) {
+      const counts = countsByKey.get(group[key]) ?? {
+        MILD: 0,
+        MODERATE: 0,
+        SEVERE: 0,
+      };
+      counts[group.severity] += group._count._all;
+      countsByKey.set(group[key], counts);
+    }
+
+    if (countsByKey.size === 0) {
+      return [];
+    }
+
+    const ids = [...countsByKey.keys()];
+
+    const doseGroups = await this.prisma.vaccineApplication.groupBy({
+      by: [key],
+      where: { ...applicationWhere, [key]: { in: ids } },
+      _count: { _all: true },
+    });
+    const dosesByKey = new Map(
+      doseGroups.map((group) => [group[key], group._count._all]),
+    );
+
+    const buildRow = (
+      id: string,
+      vaccine: { id: string; name: string; manufacturer: string },
+    ): AdverseEventStatisticsRow => {
+      const bySeverity = countsByKey.get(id) ?? {
+        MILD: 0,
+        MODERATE: 0,
+        SEVERE: 0,
+      };
+      const totalEvents =
+        bySeverity.MILD + bySeverity.MODERATE + bySeverity.SEVERE;
+      const dosesApplied = dosesByKey.get(id) ?? 0;
+
+      return {
+        vaccineId: vaccine.id,
+        vaccineName: vaccine.name,
+        manufacturer: vaccine.manufacturer,
+        dosesApplied,
+        totalEvents,
+        bySeverity,
+        ratePer1000Doses:
+          dosesApplied > 0
+            ? Math.round((totalEvents / dosesApplied) * 100000) / 100
+            : 0,
+      };
+    };
+
+    let rows: AdverseEventStatisticsRow[];
+
+    if (groupBy === 'batch') {
+      const batches = await this.prisma.vaccineBatch.findMany({
+        where: { id: { in: ids } },
+        select: {
+          id: true,
+          batchNumber: true,
+          status: true,
+          vaccine: { select: { id: true, name: true, manufacturer: true } },
+        },
+      });
+
+      rows = batches.map((batch) => ({
+        ...buildRow(batch.id, batch.vaccine),
+        batchId: batch.id,
+        batchNumber: batch.batchNumber,
+        batchStatus: batch.status,
+      }));
+    } else {
+      const vaccines = await this.prisma.vaccine.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, name: true, manufacturer: true },
+      });
+
+      rows = vaccines.map((vaccine) => buildRow(vaccine.id, vaccine));
+    }
+
+    return rows.sort(
+      (a, b) =>
+        b.ratePer1000Doses - a.ratePer1000Doses ||
+        b.totalEvents - a.totalEvents,
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+export const AdverseEventStatisticsQuerySchema = z
+  .object({
+    groupBy: z
+      .enum(['vaccine', 'batch'], {
+        message: 'Group by must be one of: vaccine, batch',
+      })
+      .optional()
+      .default('vaccine'),
+    vaccineId: z.string().uuid('Vaccine ID must be a valid UUID').optional(),
+    from: z
+      .string()
+      .date('Invalid from date format. Must be YYYY-MM-DD')
+      .optional(),
+    to: z
+      .string()
+      .date('Invalid to date format. Must be YYYY-MM-DD')
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      !data.from || !data.to || new Date(data.from) <= new Date(data.to),
+    { message: 'from must be before or equal to to' },
+  );
+
+export type AdverseEventStatisticsQueryDTO = z.infer<
+  typeof AdverseEventStatisticsQuerySchema
+>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import {
+  ADVERSE_EVENT_OUTCOMES,
+  ADVERSE_EVENT_SEVERITIES,
+  ADVERSE_EVENT_SYMPTOMS,
+} from '../constants';
+
+export const CreateAdverseEventBodySchema = z.object({
+  applicationId: z.string().uuid('Application ID must be a valid UUID'),
+  symptoms: z
+    .array(
+      z.enum(ADVERSE_EVENT_SYMPTOMS, {
+        message: `Symptom must be one of: ${ADVERSE_EVENT_SYMPTOMS.join(', ')}`,
+      }),
+    )
+    .min(1, 'At least one symptom is required')
+    .transform((symptoms) => [...new Set(symptoms)]),
+  severity: z.enum(ADVERSE_EVENT_SEVERITIES, {
+    message: `Severity must be one of: ${ADVERSE_EVENT_SEVERITIES.join(', ')}`,
+  }),
+  onsetAt: z
+    .string()
+    .datetime('Onset must be an ISO 8601 datetime')
+    .transform((val) => new Date(val)),
+  outcome: z
+    .enum(ADVERSE_EVENT_OUTCOMES, {
+      message: `Outcome must be one of: ${ADVERSE_EVENT_OUTCOMES.join(', ')}`,
+    })
+    .optional(),
+  description: z
+    .string()
+    .trim()
+    .max(1000, 'Description cannot exceed 1000 characters')
+    .optional(),
+});
+
+export type CreateAdverseEventBodyDTO = z.infer<
+  typeof CreateAdverseEventBodySchema
+>;
@@ -0,0 +1,45 @@
+import { PAGINATION_DEFAULTS } from '@shared/interfaces/pagination';
+import { z } from 'zod';
+import {
+  ADVERSE_EVENT_SEVERITIES,
+  allowedAdverseEventSortFields,
+} from '../constants';
+
+export const ListAdverseEventsQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) =>
+      val ? Number.parseInt(val, 10) : PAGINATION_DEFAULTS.PAGE,
+    )
+    .refine((val) => !Number.isNaN(val) && val >= 1, {
+      message: 'Page must be a positive integer',
+    }),
+  perPage: z
+    .string()
+    .optional()
+    .transform((val) =>
+      val ? Number.parseInt(val, 10) : PAGINATION_DEFAULTS.PER_PAGE,
+    )
+    .refine((val) => !Number.isNaN(val) && val >= 1 && val <= 100, {
+      message: 'Per page must be between 1 and 100',
+    }),
+  sortBy: z
+    .string()
+    .optional()
+    .default('onsetAt')
+    .refine((val) => allowedAdverseEventSortFields.includes(val), {
+      message: `Sort by must be one of: ${allowedAdverseEventSortFields.join(', ')}`,
+    }),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+  userId: z.string().uuid('User ID must be a valid UUID').optional(),
+  vaccineId: z.string().uuid('Vaccine ID must be a valid UUID').optional(),
+  batchId: z.string().uuid('Batch ID must be a valid UUID').optional(),
+  severity: z.enum(ADVERSE_EVENT_SEVERITIES).optional(),
+  onsetFrom: z.string().datetime().optional(),
+  onsetTo: z.string().datetime().optional(),
+});
+
+export type ListAdverseEventsQueryDTO = z.infer<
+  typeof ListAdverseEventsQuerySchema
+>;
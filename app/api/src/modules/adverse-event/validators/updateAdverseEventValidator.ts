@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { ADVERSE_EVENT_OUTCOMES } from '../constants';
+
+export const UpdateAdverseEventBodySchema = z.object({
+  outcome: z.enum(ADVERSE_EVENT_OUTCOMES, {
+    message: `Outcome must be one of: ${ADVERSE_EVENT_OUTCOMES.join(', ')}`,
+  }),
+  description: z
+    .string()
+    .trim()
+    .max(1000, 'Description cannot exceed 1000 characters')
+    .optional(),
+});
+
+export type UpdateAdverseEventBodyDTO = z.infer<
+  typeof UpdateAdverseEventBodySchema
+>;
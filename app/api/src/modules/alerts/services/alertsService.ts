@@ -1,5 +1,6 @@
 import { TOKENS } from '@infrastructure/di/tokens';
 import type { UserService } from '@modules/user';
+import { Permissions } from '@shared/constants/permissions';
 import { getVaccinesWithLowStock } from '@shared/helpers/cronJobHelper';
 import {
   MILLISECONDS_IN_A_DAY,
@@ -24,10 +25,9 @@ export class AlertsService {
   async getAllAlertsForManager(
     requestingUserId: string,
   ): Promise<AlertPayload[]> {
-    const user = await this.userService.getUserAndValidateRequestingRoles(
+    const user = await this.userService.validatePermission(
       requestingUserId,
-      ['MANAGER'],
-      'getAllAlertsForManager',
+      Permissions.ALERT_READ,
     );
 
     console.log(`Fetching alerts for manager: ${user.id}`);
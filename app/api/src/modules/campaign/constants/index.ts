@@ -0,0 +1,14 @@
+export const allowedCampaignSortFields = [
+  'name',
+  'startDate',
+  'endDate',
+  'status',
+  'createdAt',
+];
+
+export const CAMPAIGN_STATUSES = [
+  'DRAFT',
+  'ACTIVE',
+  'FINISHED',
+  'CANCELLED',
+] as const;
@@ -0,0 +1,237 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { CampaignService } from '@modules/campaign/services/campaignService';
+import type { CreateCampaignBodyDTO } from '@modules/campaign/validators/createCampaignValidator';
+import type { ListCampaignsQueryDTO } from '@modules/campaign/validators/listCampaignsValidator';
+import type { UpdateCampaignBodyDTO } from '@modules/campaign/validators/updateCampaignValidator';
+import type { CampaignFilterParams } from '@shared/interfaces/campaign';
+import type { NextFunction, Request, Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+
+/**
+ * CampaignController - HTTP request handler for vaccination campaign endpoints
+ *
+ * Responsibilities:
+ * - HTTP request/response handling
+ * - Extracting authenticated user information
+ * - Calling appropriate service methods
+ *
+ * Architecture:
+ * - Thin controller - all business logic in CampaignService
+ */
+@injectable()
+export class CampaignController {
+  constructor(
+    @inject(TOKENS.CampaignService)
+    private readonly campaignService: CampaignService,
+  ) {}
+
+  /**
+   * Creates a campaign in DRAFT status
+   *
+   * HTTP Endpoint: POST /campaigns
+   * Authorization: campaign:manage (MANAGER)
+   * Body: CreateCampaignBodyDTO (validated by Zod middleware)
+   *
+   * @example
+   * POST /campaigns
+   * Headers: Authorization: Bearer <token>
+   * {
+   *   "name": "Campanha Influenza 2026",
+   *   "vaccineId": "uuid",
+   *   "targetRoles": ["EMPLOYEE", "NURSE"],
+   *   "startDate": "2026-04-06",
+   *   "endDate": "2026-04-17",
+   *   "dailyCapacity": 40,
+   *   "nurseIds": ["uuid"]
+   * }
+   *
+   * Response: 201 Created
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = req.body as CreateCampaignBodyDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const campaign = await this.campaignService.createCampaign(
+        data,
+        requestingUserId,
+      );
+
+      res.status(201).json(campaign);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lists campaigns with their progress
+   *
+   * HTTP Endpoint: GET /campaigns
+   * Authorization: campaign:read (NURSE, MANAGER)
+   * Query Parameters:
+   * - page, perPage, sortBy, sortOrder
+   * - status: DRAFT | ACTIVE | FINISHED | CANCELLED
+   * - vaccineId: string (UUID)
+   *
+   * Response: 200 OK
+   */
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = req.query as unknown as ListCampaignsQueryDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const paginationParams = {
+        page: query.page,
+        perPage: query.perPage,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+      };
+
+      const filters: CampaignFilterParams = {
+        status: query.status,
+        vaccineId: query.vaccineId,
+      };
+
+      const result = await this.campaignService.listCampaigns(
+        paginationParams,
+        filters,
+        requestingUserId,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Gets a campaign with its progress
+   *
+   * HTTP Endpoint: GET /campaigns/:id
+   * Authorization: campaign:read (NURSE, MANAGER)
+   *
+   * Response: 200 OK
+   */
+  async getById(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      const campaign = await this.campaignService.getCampaign(
+        id,
+        requestingUserId,
+      );
+
+      res.status(200).json(campaign);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Updates a DRAFT campaign
+   *
+   * HTTP Endpoint: PATCH /campaigns/:id
+   * Authorization: campaign:manage (MANAGER)
+   * Body: UpdateCampaignBodyDTO (validated by Zod middleware)
+   *
+   * Response: 200 OK
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = req.body as UpdateCampaignBodyDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const campaign = await this.campaignService.updateCampaign(
+        id,
+        data,
+        requestingUserId,
+      );
+
+      res.status(200).json(campaign);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Generates the schedulings of a campaign
+   *
+   * HTTP Endpoint: POST /campaigns/:id/generate
+   * Authorization: campaign:manage (MANAGER)
+   *
+   * Response: 200 OK with the number of schedulings created and skipped
+   */
+  async generate(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      const result = await this.campaignService.generateSchedulings(
+        id,
+        requestingUserId,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Finishes an ACTIVE campaign
+   *
+   * HTTP Endpoint: POST /campaigns/:id/finish
+   * Authorization: campaign:manage (MANAGER)
+   *
+   * Response: 200 OK
+   */
+  async finish(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      const campaign = await this.campaignService.finishCampaign(
+        id,
+        requestingUserId,
+      );
+
+      res.status(200).json(campaign);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cancels a campaign and its pending schedulings
+   *
+   * HTTP Endpoint: POST /campaigns/:id/cancel
+   * Authorization: campaign:manage (MANAGER)
+   *
+   * Response: 200 OK
+   */
+  async cancel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      const campaign = await this.campaignService.cancelCampaign(
+        id,
+        requestingUserId,
+      );
+
+      res.status(200).json(campaign);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
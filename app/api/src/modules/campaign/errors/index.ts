@@ -0,0 +1,22 @@
+import { AppError } from '@modules/user/errors';
+
+export class CampaignNotFoundError extends AppError {
+  constructor(message = 'Campaign not found') {
+    super(message, 404);
+    this.name = 'CampaignNotFoundError';
+  }
+}
+
+export class InvalidCampaignStatusError extends AppError {
+  constructor(message = 'Operation not allowed for the campaign status') {
+    super(message, 409);
+    this.name = 'InvalidCampaignStatusError';
+  }
+}
+
+export class InvalidCampaignPeriodError extends AppError {
+  constructor(message = 'Invalid campaign period') {
+    super(message, 400);
+    this.name = 'InvalidCampaignPeriodError';
+  }
+}
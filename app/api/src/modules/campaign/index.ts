@@ -0,0 +1,5 @@
+export * from './controllers/campaignController';
+export * from './services/campaignService';
+export * from './stores/campaignStore';
+export * from './errors';
+export * from './constants';
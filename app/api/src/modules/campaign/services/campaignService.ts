@@ -0,0 +1,683 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import {
+  CampaignNotFoundError,
+  InvalidCampaignPeriodError,
+  InvalidCampaignStatusError,
+} from '@modules/campaign/errors';
+import {
+  EventNames,
+  type VaccineScheduledEvent,
+} from '@modules/notifications/contracts';
+import { SlotUnavailableError } from '@modules/nurse-availability/errors';
+import type { NurseAvailabilityService } from '@modules/nurse-availability/services/nurseAvailabilityService';
+import { DEFAULT_USER_SYSTEM_ID } from '@modules/user/constants';
+import { ValidationError } from '@modules/user/errors';
+import type { UserService } from '@modules/user/services/userService';
+import { InvalidDoseNumberError } from '@modules/vaccine-scheduling/errors';
+import {
+  InsufficientStockError,
+  VaccineNotFoundError,
+} from '@modules/vaccines/errors';
+import { Permissions } from '@shared/constants/permissions';
+import { hasPermission } from '@shared/helpers/permissionHelper';
+import {
+  addDays,
+  formatDate,
+  getCurrentDate,
+  getEndOfDay,
+  getStartOfDay,
+} from '@shared/helpers/timeHelper';
+import type {
+  CampaignFilterParams,
+  ICampaignStore,
+} from '@shared/interfaces/campaign';
+import type { IEventBus } from '@shared/interfaces/eventBus';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+} from '@shared/interfaces/pagination';
+import type { IVaccineStore } from '@shared/interfaces/vaccine';
+import type { IVaccineSchedulingStore } from '@shared/interfaces/vaccineScheduling';
+import type {
+  CampaignAudienceMember,
+  CampaignGenerationResult,
+  CampaignWithProgress,
+  CampaignWithRelations,
+  CreateCampaignDTO,
+  UpdateCampaignDTO,
+} from '@shared/models/campaign';
+import type { SchedulingSlot } from '@shared/models/nurseAvailability';
+import type { UserResponse } from '@shared/models/user';
+import type { Vaccine } from '@shared/models/vaccine';
+import type { VaccineScheduling } from '@shared/models/vaccineScheduling';
+import { inject, injectable } from 'tsyringe';
+
+/**
+ * CampaignService - Service layer for vaccination campaigns
+ *
+ * Responsible for:
+ * - Campaign CRUD with authorization
+ * - Generating the schedulings of a campaign in bulk
+ * - Campaign progress (scheduled / applied / no-show)
+ *
+ * Architecture:
+ * - Schedulings are created one by one through
+ *   IVaccineSchedulingStore.createSchedulingWithStockValidation, so a
+ *   campaign can never reserve more doses than the stock, nor more places
+ *   than a nurse slot holds
+ * - Slots come from NurseAvailabilityService, like regular schedulings
+ * - Depends on UserService for authorization and nurse validation
+ */
+@injectable()
+export class CampaignService {
+  constructor(
+    @inject(TOKENS.ICampaignStore)
+    private readonly campaignStore: ICampaignStore,
+    @inject(TOKENS.IVaccineSchedulingStore)
+    private readonly vaccineSchedulingStore: IVaccineSchedulingStore,
+    @inject(TOKENS.IVaccineStore)
+    private readonly vaccineStore: IVaccineStore,
+    @inject(TOKENS.UserService)
+    private readonly userService: UserService,
+    @inject(TOKENS.IEventBus)
+    private readonly eventBus: IEventBus,
+    @inject(TOKENS.NurseAvailabilityService)
+    private readonly nurseAvailabilityService: NurseAvailabilityService,
+  ) {}
+
+  /**
+   * Creates a campaign in DRAFT status
+   *
+   * Business Rules:
+   * - Requires the campaign:manage permission (MANAGER)
+   * - Vaccine must exist and not be deleted
+   * - Dose number must not exceed the vaccine's dosesRequired
+   * - The date window cannot start in the past
+   * - Every nurse must exist and be a NURSE
+   *
+   * @param data - Campaign data (startDate/endDate are whole days)
+   * @param userId - ID of the manager
+   * @returns Created campaign with its vaccine and nurses
+   * @throws ForbiddenError if user lacks campaign:manage (from UserService)
+   * @throws VaccineNotFoundError if vaccine not found or deleted
+   * @throws InvalidDoseNumberError if the dose exceeds the vaccine doses
+   * @throws InvalidCampaignPeriodError if the window starts in the past
+   * @throws ValidationError if a nurseId is not a NURSE
+   */
+  async createCampaign(
+    data: CreateCampaignDTO,
+    userId: string,
+  ): Promise<CampaignWithProgress> {
+    await this.userService.validatePermission(
+      userId,
+      Permissions.CAMPAIGN_MANAGE,
+    );
+
+    const vaccine = await this.findVaccine(data.vaccineId);
+    const doseNumber = data.doseNumber ?? 1;
+    if (doseNumber > vaccine.dosesRequired) {
+      throw new InvalidDoseNumberError(vaccine.id, vaccine.dosesRequired);
+    }
+
+    const startDate = getStartOfDay(data.startDate);
+    const endDate = getEndOfDay(data.endDate);
+    this.validatePeriod(startDate, endDate);
+
+    const nurseIds = data.nurseIds ?? [];
+    await this.validateNurses(nurseIds);
+
+    const campaign = await this.campaignStore.createCampaign({
+      name: data.name,
+      description: data.description,
+      vaccineId: vaccine.id,
+      doseNumber,
+      targetRoles: data.targetRoles,
+      onlyActiveUsers: data.onlyActiveUsers ?? true,
+      onlyMissingDoses: data.onlyMissingDoses ?? true,
+      startDate,
+      endDate,
+      dailyCapacity: data.dailyCapacity,
+      nurseIds,
+      createdById: userId,
+    });
+
+    return this.withProgress(campaign);
+  }
+
+  /**
+   * Lists campaigns with their progress
+   *
+   * Authorization: campaign:read (NURSE, MANAGER)
+   */
+  async listCampaigns(
+    params: PaginationParams,
+    filters: CampaignFilterParams,
+    userId: string,
+  ): Promise<PaginatedResponse<CampaignWithProgress>> {
+    await this.userService.validatePermission(
+      userId,
+      Permissions.CAMPAIGN_READ,
+    );
+
+    const result = await this.campaignStore.findPaginatedCampaigns(
+      params,
+      filters,
+    );
+    const progress = await this.campaignStore.getProgress(
+      result.data.map(({ id }) => id),
+    );
+
+    return {
+      ...result,
+      data: result.data.map((campaign) => ({
+        ...campaign,
+        progress: progress.get(campaign.id)!,
+      })),
+    };
+  }
+
+  /**
+   * Gets a campaign with its progress
+   *
+   * Authorization: campaign:read (NURSE, MANAGER)
+   *
+   * @throws CampaignNotFoundError if campaign not found or deleted
+   */
+  async getCampaign(id: string, userId: string): Promise<CampaignWithProgress> {
+    await this.userService.validatePermission(
+      userId,
+      Permissions.CAMPAIGN_READ,
+    );
+
+    const campaign = await this.findCampaign(id);
+    return this.withProgress(campaign);
+  }
+
+  /**
+   * Updates a DRAFT campaign
+   *
+   * Business Rules:
+   * - Requires the campaign:manage permission (MANAGER)
+   * - Only DRAFT campaigns can be changed, schedulings of an ACTIVE
+   *   campaign were generated with the current settings
+   * - Same validations as createCampaign
+   *
+   * @throws CampaignNotFoundError if campaign not found or deleted
+   * @throws InvalidCampaignStatusError if the campaign is not DRAFT
+   */
+  async updateCampaign(
+    id: string,
+    data: UpdateCampaignDTO,
+    userId: string,
+  ): Promise<CampaignWithProgress> {
+    if (!Object.keys(data).length) {
+      throw new ValidationError(
+        'At least one field must be provided for update',
+      );
+    }
+    await this.userService.validatePermission(
+      userId,
+      Permissions.CAMPAIGN_MANAGE,
+    );
+
+    const campaign = await this.findCampaign(id);
+    if (campaign.status !== 'DRAFT') {
+      throw new InvalidCampaignStatusError(
+        `Only DRAFT campaigns can be updated (status: ${campaign.status})`,
+      );
+    }
+
+    if (
+      data.doseNumber !== undefined &&
+      data.doseNumber > campaign.vaccine.dosesRequired
+    ) {
+      throw new InvalidDoseNumberError(
+        campaign.vaccine.id,
+        campaign.vaccine.dosesRequired,
+      );
+    }
+
+    const startDate = data.startDate
+      ? getStartOfDay(data.startDate)
+      : undefined;
+    const endDate = data.endDate ? getEndOfDay(data.endDate) : undefined;
+    if (startDate || endDate) {
+      this.validatePeriod(
+        startDate ?? campaign.startDate,
+        endDate ?? campaign.endDate,
+      );
+    }
+
+    if (data.nurseIds) {
+      await this.validateNurses(data.nurseIds);
+    }
+
+    const updatedCampaign = await this.campaignStore.updateCampaign(id, {
+      ...data,
+      startDate,
+      endDate,
+    });
+
+    return this.withProgress(updatedCampaign);
+  }
+
+  /**
+   * Generates the schedulings of a campaign
+   *
+   * Business Rules:
+   * - Requires the campaign:manage permission (MANAGER)
+   * - Only DRAFT or ACTIVE campaigns, before the end of the window. Running
+   *   it again schedules users who joined the audience since, in the slots
+   *   left
+   * - Each user of the audience gets the first free slot of the first day
+   *   with room, at least intervalDays after their previous dose for doses
+   *   above 1
+   * - Slots are those of the nurse availability templates, of the campaign
+   *   nurses (of any nurse when the campaign has none), up to dailyCapacity
+   *   per day
+   * - Each scheduling goes through createSchedulingWithStockValidation,
+   *   which recounts the slot under lock: generation stops when the stock
+   *   runs out, keeping what was created
+   * - Each patient receives the vaccine.scheduled notification
+   * - A DRAFT campaign becomes ACTIVE
+   *
+   * @param id - Campaign UUID
+   * @param userId - ID of the manager
+   * @returns Number of schedulings created and users skipped
+   * @throws CampaignNotFoundError if campaign not found or deleted
+   * @throws InvalidCampaignStatusError if the campaign is FINISHED/CANCELLED
+   * @throws InvalidCampaignPeriodError if the window has ended
+   */
+  async generateSchedulings(
+    id: string,
+    userId: string,
+  ): Promise<CampaignGenerationResult> {
+    await this.userService.validatePermission(
+      userId,
+      Permissions.CAMPAIGN_MANAGE,
+    );
+
+    const campaign = await this.findCampaign(id);
+    if (campaign.status !== 'DRAFT' && campaign.status !== 'ACTIVE') {
+      throw new InvalidCampaignStatusError(
+        `Cannot generate schedulings for a ${campaign.status} campaign`,
+      );
+    }
+
+    const now = getCurrentDate();
+    if (campaign.endDate <= now) {
+      throw new InvalidCampaignPeriodError('The campaign period has ended');
+    }
+
+    const [audience, countsPerDay] = await Promise.all([
+      this.campaignStore.findAudience(campaign),
+      this.campaignStore.countSchedulingsPerDay(campaign.id),
+    ]);
+
+    // Days of the window that are not over yet
+    const days: Date[] = [];
+    for (
+      let day = getStartOfDay(
+        campaign.startDate > now ? campaign.startDate : now,
+      );
+      day <= campaign.endDate;
+      day = addDays(day, 1)
+    ) {
+      days.push(day);
+    }
+
+    const result: CampaignGenerationResult = {
+      campaignId: campaign.id,
+      created: 0,
+      skipped: { previousDoseMissing: 0, noCapacity: 0 },
+      stoppedByStock: false,
+    };
+
+    const slotsPerDay = await this.getCampaignSlots(campaign, days);
+
+    for (const member of audience) {
+      const earliestDate = this.getEarliestDate(campaign, member);
+      if (earliestDate === undefined) {
+        result.skipped.previousDoseMissing++;
+        continue;
+      }
+
+      const after = earliestDate && earliestDate > now ? earliestDate : now;
+
+      let scheduled: {
+        scheduling: VaccineScheduling;
+        slot: SchedulingSlot;
+      } | null;
+      try {
+        scheduled = await this.scheduleInFreeSlot(
+          campaign,
+          member.id,
+          days,
+          slotsPerDay,
+          countsPerDay,
+          after,
+        );
+      } catch (error) {
+        if (error instanceof InsufficientStockError) {
+          result.stoppedByStock = true;
+          break;
+        }
+        throw error;
+      }
+
+      if (!scheduled) {
+        result.skipped.noCapacity++;
+        continue;
+      }
+
+      const day = formatDate(scheduled.scheduling.scheduledDate);
+      countsPerDay.set(day, (countsPerDay.get(day) ?? 0) + 1);
+      result.created++;
+
+      await this.notifyPatient(
+        campaign,
+        scheduled.scheduling,
+        scheduled.slot,
+        member.id,
+      );
+    }
+
+    if (campaign.status === 'DRAFT') {
+      await this.campaignStore.updateCampaign(campaign.id, {
+        status: 'ACTIVE',
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Closes an ACTIVE campaign
+   *
+   * Pending schedulings are kept: they can still be applied.
+   *
+   * @throws CampaignNotFoundError if campaign not found or deleted
+   * @throws InvalidCampaignStatusError if the campaign is not ACTIVE
+   */
+  async finishCampaign(
+    id: string,
+    userId: string,
+  ): Promise<CampaignWithProgress> {
+    await this.userService.validatePermission(
+      userId,
+      Permissions.CAMPAIGN_MANAGE,
+    );
+
+    const campaign = await this.findCampaign(id);
+    if (campaign.status !== 'ACTIVE') {
+      throw new InvalidCampaignStatusError(
+        `Only ACTIVE campaigns can be finished (status: ${campaign.status})`,
+      );
+    }
+
+    const updatedCampaign = await this.campaignStore.updateCampaign(id, {
+      status: 'FINISHED',
+    });
+    return this.withProgress(updatedCampaign);
+  }
+
+  /**
+   * Cancels a campaign and its pending schedulings
+   *
+   * @throws CampaignNotFoundError if campaign not found or deleted
+   * @throws InvalidCampaignStatusError if the campaign is FINISHED/CANCELLED
+   */
+  async cancelCampaign(
+    id: string,
+    userId: string,
+  ): Promise<CampaignWithProgress> {
+    await this.userService.validatePermission(
+      userId,
+      Permissions.CAMPAIGN_MANAGE,
+    );
+
+    const campaign = await this.findCampaign(id);
+    if (campaign.status === 'FINISHED' || campaign.status === 'CANCELLED') {
+      throw new InvalidCampaignStatusError(
+        `Cannot cancel a ${campaign.status} campaign`,
+      );
+    }
+
+    await this.campaignStore.cancelCampaign(id);
+
+    return this.getCampaign(id, userId);
+  }
+
+  private async findCampaign(id: string): Promise<CampaignWithRelations> {
+    const campaign = await this.campaignStore.findByIdWithRelations(id);
+    if (!campaign) {
+      throw new CampaignNotFoundError(`Campaign with ID ${id} not found`);
+    }
+    return campaign;
+  }
+
+  private async findVaccine(vaccineId: string): Promise<Vaccine> {
+    const vaccine = await this.vaccineStore.findById(vaccineId);
+    if (!vaccine || vaccine.deletedAt) {
+      throw new VaccineNotFoundError(`Vaccine with ID ${vaccineId} not found`);
+    }
+    return vaccine;
+  }
+
+  private validatePeriod(startDate: Date, endDate: Date): void {
+    if (startDate < getStartOfDay(getCurrentDate())) {
+      throw new InvalidCampaignPeriodError(
+        'The campaign cannot start in the past',
+      );
+    }
+    if (endDate < startDate) {
+      throw new InvalidCampaignPeriodError(
+        'The campaign must end after its start date',
+      );
+    }
+  }
+
+  private async validateNurses(nurseIds: string[]): Promise<void> {
+    const nurses: UserResponse[] = await Promise.all(
+      nurseIds.map((nurseId) =>
+        this.userService.getUserById(nurseId, DEFAULT_USER_SYSTEM_ID),
+      ),
+    );
+
+    const invalidNurse = nurses.find(
+      (nurse) =>
+        !hasPermission(nurse.role, Permissions.SCHEDULING_ASSIGNED_READ),
+    );
+    if (invalidNurse) {
+      throw new ValidationError(
+        `User ${invalidNurse.id} does not belong to a user with NURSE role`,
+      );
+    }
+  }
+
+  /**
+   * Earliest date a user can receive the campaign dose
+   *
+   * @returns null when there is no constraint (dose 1), undefined when the
+   * previous dose was not applied
+   */
+  private getEarliestDate(
+    campaign: CampaignWithRelations,
+    member: CampaignAudienceMember,
+  ): Date | null | undefined {
+    if (campaign.doseNumber === 1) {
+      return null;
+    }
+    if (!member.previousDoseAppliedAt) {
+      return undefined;
+    }
+    return addDays(
+      member.previousDoseAppliedAt,
+      campaign.vaccine.intervalDays ?? 0,
+    );
+  }
+
+  /**
+   * Slots of each day of the window (keyed by YYYY-MM-DD), restricted to
+   * the campaign nurses when it has any
+   */
+  private async getCampaignSlots(
+    campaign: CampaignWithRelations,
+    days: Date[],
+  ): Promise<Map<string, SchedulingSlot[]>> {
+    const nurseIds = new Set(campaign.nurses.map(({ id }) => id));
+    const slotsPerDay = new Map<string, SchedulingSlot[]>();
+
+    for (const day of days) {
+      const slots = await this.nurseAvailabilityService.getDaySlots(day);
+      slotsPerDay.set(
+        formatDate(day),
+        nurseIds.size
+          ? slots.filter((slot) => nurseIds.has(slot.nurseId))
+          : slots,
+      );
+    }
+
+    return slotsPerDay;
+  }
+
+  /**
+   * First slot with room starting after `after`, on a day below the daily
+   * capacity
+   */
+  private findFreeSlot(
+    days: Date[],
+    slotsPerDay: Map<string, SchedulingSlot[]>,
+    countsPerDay: Map<string, number>,
+    dailyCapacity: number,
+    after: Date,
+  ): SchedulingSlot | null {
+    for (const day of days) {
+      const key = formatDate(day);
+      if (getEndOfDay(day) <= after) continue;
+      if ((countsPerDay.get(key) ?? 0) >= dailyCapacity) continue;
+
+      const slot = slotsPerDay
+        .get(key)
+        ?.find((daySlot) => daySlot.available > 0 && daySlot.startTime > after);
+      if (slot) {
+        return slot;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Creates the scheduling of a user in the first free slot
+   *
+   * A slot taken by a concurrent scheduling since the slots were loaded is
+   * marked full and the next one is tried.
+   *
+   * @returns null when no slot is left
+   * @throws InsufficientStockError if the stock ran out
+   */
+  private async scheduleInFreeSlot(
+    campaign: CampaignWithRelations,
+    userId: string,
+    days: Date[],
+    slotsPerDay: Map<string, SchedulingSlot[]>,
+    countsPerDay: Map<string, number>,
+    after: Date,
+  ): Promise<{ scheduling: VaccineScheduling; slot: SchedulingSlot } | null> {
+    for (
+      let slot = this.findFreeSlot(
+        days,
+        slotsPerDay,
+        countsPerDay,
+        campaign.dailyCapacity,
+        after,
+      );
+      slot;
+      slot = this.findFreeSlot(
+        days,
+        slotsPerDay,
+        countsPerDay,
+        campaign.dailyCapacity,
+        after,
+      )
+    ) {
+      try {
+        const scheduling =
+          await this.vaccineSchedulingStore.createSchedulingWithStockValidation(
+            {
+              scheduledDate: slot.startTime,
+              doseNumber: campaign.doseNumber,
+              notes: `Campanha: ${campaign.name}`,
+              status: 'SCHEDULED',
+              userId,
+              vaccineId: campaign.vaccineId,
+              nurseId: slot.nurseId,
+              campaignId: campaign.id,
+            },
+            campaign.vaccineId,
+            slot,
+          );
+
+        slot.booked++;
+        slot.available--;
+        return { scheduling, slot };
+      } catch (error) {
+        if (!(error instanceof SlotUnavailableError)) {
+          throw error;
+        }
+        slot.available = 0;
+      }
+    }
+
+    return null;
+  }
+
+  private async withProgress(
+    campaign: CampaignWithRelations,
+  ): Promise<CampaignWithProgress> {
+    const progress = await this.campaignStore.getProgress([campaign.id]);
+    return { ...campaign, progress: progress.get(campaign.id)! };
+  }
+
+  private async notifyPatient(
+    campaign: CampaignWithRelations,
+    scheduling: VaccineScheduling,
+    slot: SchedulingSlot,
+    patientId: string,
+  ): Promise<void> {
+    try {
+      const patient = await this.userService.getUserById(
+        patientId,
+        DEFAULT_USER_SYSTEM_ID,
+      );
+
+      await this.eventBus.emit<VaccineScheduledEvent>(
+        EventNames.VACCINE_SCHEDULED,
+        {
+          type: EventNames.VACCINE_SCHEDULED,
+          channels: ['in-app', 'email'],
+          data: {
+            schedulingId: scheduling.id,
+            patientId: patient.id,
+            patientName: patient.name,
+            patientEmail: patient.email,
+            nurseId: slot.nurseId,
+            nurseName: slot.nurseName,
+            userRole: 'patient',
+            vaccineId: campaign.vaccine.id,
+            vaccineName: campaign.vaccine.name,
+            scheduledDate: scheduling.scheduledDate,
+            doseNumber: scheduling.doseNumber,
+          },
+          priority: 'normal',
+        },
+      );
+    } catch (error) {
+      console.error(
+        `[CampaignService] Failed to emit vaccine.scheduled event for user ${patientId}:`,
+        error,
+      );
+    }
+  }
+}
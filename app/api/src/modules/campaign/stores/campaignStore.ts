@@ -0,0 +1,279 @@
+import type { Campaign, Prisma } from '@infrastructure/database';
+import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
+import { formatDate, getCurrentDate } from '@shared/helpers/timeHelper';
+import type {
+  CampaignFilterParams,
+  ICampaignStore,
+} from '@shared/interfaces/campaign';
+import {
+  type PaginatedResponse,
+  type PaginationParams,
+  calculatePaginationMetadata,
+} from '@shared/interfaces/pagination';
+import type {
+  CampaignAudienceMember,
+  CampaignCreateInput,
+  CampaignDelegate,
+  CampaignProgress,
+  CampaignUpdateInput,
+  CampaignWithRelations,
+} from '@shared/models/campaign';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+import { allowedCampaignSortFields } from '../constants';
+
+const campaignRelations = {
+  vaccine: {
+    select: {
+      id: true,
+      name: true,
+      manufacturer: true,
+      dosesRequired: true,
+      intervalDays: true,
+    },
+  },
+  nurses: { select: { id: true, name: true, coren: true } },
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+const PENDING_STATUSES: Prisma.VaccineSchedulingWhereInput['status'] = {
+  in: ['SCHEDULED', 'CONFIRMED'],
+};
+
+/**
+ * CampaignStore - Prisma-based implementation of ICampaignStore
+ *
+ * Campaign schedulings are regular VaccineScheduling rows with a campaignId,
+ * so progress is computed from their status.
+ */
+@injectable()
+export class CampaignStore
+  extends BaseStore<
+    Campaign,
+    CampaignDelegate,
+    CampaignCreateInput,
+    CampaignUpdateInput
+  >
+  implements ICampaignStore
+{
+  protected readonly model = this.prisma.campaign;
+
+  async createCampaign(
+    data: CampaignCreateInput,
+  ): Promise<CampaignWithRelations> {
+    const { vaccineId, createdById, nurseIds, ...fields } = data;
+
+    return this.model.create({
+      data: {
+        ...fields,
+        vaccine: { connect: { id: vaccineId } },
+        createdBy: { connect: { id: createdById } },
+        nurses: { connect: nurseIds.map((id) => ({ id })) },
+      },
+      include: campaignRelations,
+    });
+  }
+
+  async updateCampaign(
+    id: string,
+    data: CampaignUpdateInput,
+  ): Promise<CampaignWithRelations> {
+    const { nurseIds, ...fields } = data;
+
+    return this.model.update({
+      where: { id },
+      data: {
+        ...fields,
+        nurses: nurseIds ? { set: nurseIds.map((id) => ({ id })) } : undefined,
+      },
+      include: campaignRelations,
+    });
+  }
+
+  async findByIdWithRelations(
+    id: string,
+  ): Promise<CampaignWithRelations | null> {
+    return this.model.findFirst({
+      where: { id, deletedAt: null },
+      include: campaignRelations,
+    });
+  }
+
+  async findPaginatedCampaigns(
+    params: PaginationParams,
+    filters?: CampaignFilterParams,
+  ): Promise<PaginatedResponse<CampaignWithRelations>> {
+    const { page, perPage } = params;
+
+    const where: Prisma.CampaignWhereInput = {
+      deletedAt: null,
+      status: filters?.status,
+      vaccineId: filters?.vaccineId,
+    };
+
+    const [data, total] = await Promise.all([
+      this.model.findMany({
+        where,
+        ...buildPaginationArgs(params, allowedCampaignSortFields),
+        include: campaignRelations,
+      }),
+      this.model.count({ where }),
+    ]);
+
+    const pagination = calculatePaginationMetadata(page, perPage, total);
+
+    return {
+      data,
+      pagination,
+    };
+  }
+
+  async findAudience(campaign: Campaign): Promise<CampaignAudienceMember[]> {
+    const { vaccineId, doseNumber } = campaign;
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        deletedAt: null,
+        role: { in: campaign.targetRoles },
+        isActive: campaign.onlyActiveUsers ? true : undefined,
+        schedulingsReceived: {
+          none: {
+            vaccineId,
+            doseNumber,
+            deletedAt: null,
+            status: PENDING_STATUSES,
+          },
+        },
+        applicationsReceived: campaign.onlyMissingDoses
+          ? { none: { vaccineId, doseNumber, deletedAt: null } }
+          : undefined,
+      },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        // Previous dose, to respect the vaccine interval (none for dose 1)
+        applicationsReceived: {
+          where: { vaccineId, doseNumber: doseNumber - 1, deletedAt: null },
+          orderBy: { applicationDate: 'desc' },
+          take: 1,
+          select: { applicationDate: true },
+        },
+      },
+    });
+
+    return users.map(({ applicationsReceived, ...user }) => ({
+      ...user,
+      previousDoseAppliedAt: applicationsReceived[0]?.applicationDate ?? null,
+    }));
+  }
+
+  async countSchedulingsPerDay(
+    campaignId: string,
+  ): Promise<Map<string, number>> {
+    const schedulings = await this.prisma.vaccineScheduling.findMany({
+      where: { campaignId, deletedAt: null, status: { not: 'CANCELLED' } },
+      select: { scheduledDate: true },
+    });
+
+    const countsPerDay = new Map<string, number>();
+    for (const { scheduledDate } of schedulings) {
+      const day = formatDate(scheduledDate);
+      countsPerDay.set(day, (countsPerDay.get(day) ?? 0) + 1);
+    }
+    return countsPerDay;
+  }
+
+  /**
+   * Counts schedulings per campaign and status, plus the pending ones whose
+   * date has passed (no-shows)
+   */
+  async getProgress(
+    campaignIds: string[],
+  ): Promise<Map<string, CampaignProgress>> {
+    const where: Prisma.VaccineSchedulingWhereInput = {
+      campaignId: { in: campaignIds },
+      deletedAt: null,
+    };
+
+    const [byStatus, noShows] = await Promise.all([
+      this.prisma.vaccineScheduling.groupBy({
+        by: ['campaignId', 'status'],
+        where,
+        _count: { _all: true },
+      }),
+      this.prisma.vaccineScheduling.groupBy({
+        by: ['campaignId'],
+        where: {
+          ...where,
+          status: PENDING_STATUSES,
+          scheduledDate: { lt: getCurrentDate() },
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const progressByCampaign = new Map<string, CampaignProgress>(
+      campaignIds.map((id) => [
+        id,
+        {
+          total: 0,
+          scheduled: 0,
+          applied: 0,
+          noShow: 0,
+          cancelled: 0,
+          completionRate: 0,
+        },
+      ]),
+    );
+
+    for (const row of byStatus) {
+      const progress = progressByCampaign.get(row.campaignId as string);
+      if (!progress) continue;
+
+      const count = row._count._all;
+      progress.total += count;
+      if (row.status === 'COMPLETED') {
+        progress.applied += count;
+      } else if (row.status === 'CANCELLED') {
+        progress.cancelled += count;
+      } else {
+        progress.scheduled += count;
+      }
+    }
+
+    for (const row of noShows) {
+      const progress = progressByCampaign.get(row.campaignId as string);
+      if (!progress) continue;
+
+      progress.noShow = row._count._all;
+      progress.scheduled -= row._count._all;
+    }
+
+    for (const progress of progressByCampaign.values()) {
+      const expected = progress.total - progress.cancelled;
+      progress.completionRate =
+        expected > 0
+          ? Math.round((progress.applied / expected) * 10000) / 100
+          : 0;
+    }
+
+    return progressByCampaign;
+  }
+
+  async cancelCampaign(id: string): Promise<number> {
+    return this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.vaccineScheduling.updateMany({
+        where: { campaignId: id, deletedAt: null, status: PENDING_STATUSES },
+        data: { status: 'CANCELLED' },
+      });
+
+      await tx.campaign.update({
+        where: { id },
+        data: { status: 'CANCELLED' },
+      });
+
+      return count;
+    });
+  }
+}
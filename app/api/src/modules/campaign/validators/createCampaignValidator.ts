@@ -0,0 +1,55 @@
+import { getDate } from '@shared/helpers/timeHelper';
+import { z } from 'zod';
+
+export const CampaignTargetRoleSchema = z.enum(
+  ['EMPLOYEE', 'NURSE', 'MANAGER'],
+  { message: 'Target role must be one of: EMPLOYEE, NURSE, MANAGER' },
+);
+
+export const CreateCampaignBodySchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(3, 'Name must have at least 3 characters')
+      .max(120, 'Name cannot exceed 120 characters'),
+    description: z
+      .string()
+      .trim()
+      .max(1000, 'Description cannot exceed 1000 characters')
+      .optional(),
+    vaccineId: z.string().uuid('Vaccine ID must be a valid UUID'),
+    doseNumber: z
+      .number()
+      .int('Dose number must be an integer')
+      .min(1, 'Dose number must be at least 1')
+      .optional(),
+    targetRoles: z
+      .array(CampaignTargetRoleSchema)
+      .min(1, 'At least one target role is required')
+      .transform((roles) => [...new Set(roles)]),
+    onlyActiveUsers: z.boolean().optional(),
+    onlyMissingDoses: z.boolean().optional(),
+    startDate: z
+      .string()
+      .date('Invalid start date format. Must be YYYY-MM-DD')
+      .transform(getDate),
+    endDate: z
+      .string()
+      .date('Invalid end date format. Must be YYYY-MM-DD')
+      .transform(getDate),
+    dailyCapacity: z
+      .number()
+      .int('Daily capacity must be an integer')
+      .min(1, 'Daily capacity must be at least 1')
+      .max(500, 'Daily capacity cannot exceed 500'),
+    nurseIds: z
+      .array(z.string().uuid('Nurse ID must be a valid UUID'))
+      .transform((ids) => [...new Set(ids)])
+      .optional(),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: 'startDate must be before or equal to endDate',
+  });
+
+export type CreateCampaignBodyDTO = z.infer<typeof CreateCampaignBodySchema>;
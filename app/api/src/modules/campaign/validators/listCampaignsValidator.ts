@@ -0,0 +1,40 @@
+import { PAGINATION_DEFAULTS } from '@shared/interfaces/pagination';
+import { z } from 'zod';
+import { CAMPAIGN_STATUSES, allowedCampaignSortFields } from '../constants';
+
+export const ListCampaignsQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) =>
+      val ? Number.parseInt(val, 10) : PAGINATION_DEFAULTS.PAGE,
+    )
+    .refine((val) => !Number.isNaN(val) && val >= 1, {
+      message: 'Page must be a positive integer',
+    }),
+  perPage: z
+    .string()
+    .optional()
+    .transform((val) =>
+      val ? Number.parseInt(val, 10) : PAGINATION_DEFAULTS.PER_PAGE,
+    )
+    .refine((val) => !Number.isNaN(val) && val >= 1 && val <= 100, {
+      message: 'Per page must be between 1 and 100',
+    }),
+  sortBy: z
+    .string()
+    .optional()
+    .default('startDate')
+    .refine((val) => allowedCampaignSortFields.includes(val), {
+      message: `Sort by must be one of: ${allowedCampaignSortFields.join(', ')}`,
+    }),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+  status: z
+    .enum(CAMPAIGN_STATUSES, {
+      message: `Status must be one of: ${CAMPAIGN_STATUSES.join(', ')}`,
+    })
+    .optional(),
+  vaccineId: z.string().uuid('Vaccine ID must be a valid UUID').optional(),
+});
+
+export type ListCampaignsQueryDTO = z.infer<typeof ListCampaignsQuerySchema>;
@@ -0,0 +1,51 @@
+import { getDate } from '@shared/helpers/timeHelper';
+import { z } from 'zod';
+import { CampaignTargetRoleSchema } from './createCampaignValidator';
+
+export const UpdateCampaignBodySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'Name must have at least 3 characters')
+    .max(120, 'Name cannot exceed 120 characters')
+    .optional(),
+  description: z
+    .string()
+    .trim()
+    .max(1000, 'Description cannot exceed 1000 characters')
+    .optional(),
+  doseNumber: z
+    .number()
+    .int('Dose number must be an integer')
+    .min(1, 'Dose number must be at least 1')
+    .optional(),
+  targetRoles: z
+    .array(CampaignTargetRoleSchema)
+    .min(1, 'At least one target role is required')
+    .transform((roles) => [...new Set(roles)])
+    .optional(),
+  onlyActiveUsers: z.boolean().optional(),
+  onlyMissingDoses: z.boolean().optional(),
+  startDate: z
+    .string()
+    .date('Invalid start date format. Must be YYYY-MM-DD')
+    .transform(getDate)
+    .optional(),
+  endDate: z
+    .string()
+    .date('Invalid end date format. Must be YYYY-MM-DD')
+    .transform(getDate)
+    .optional(),
+  dailyCapacity: z
+    .number()
+    .int('Daily capacity must be an integer')
+    .min(1, 'Daily capacity must be at least 1')
+    .max(500, 'Daily capacity cannot exceed 500')
+    .optional(),
+  nurseIds: z
+    .array(z.string().uuid('Nurse ID must be a valid UUID'))
+    .transform((ids) => [...new Set(ids)])
+    .optional(),
+});
+
+export type UpdateCampaignBodyDTO = z.infer<typeof UpdateCampaignBodySchema>;
@@ -0,0 +1,2 @@
+// Certificates stay valid for this many days unless revoked
+export const DEFAULT_CERTIFICATE_VALIDITY_DAYS = 365;
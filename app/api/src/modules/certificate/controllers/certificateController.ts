@@ -0,0 +1,79 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { CertificateService } from '@modules/certificate/services/certificateService';
+import type { IssueCertificateBodyDTO } from '@modules/certificate/validators/issueCertificateValidator';
+import type { VerifyCertificateParamsDTO } from '@modules/certificate/validators/verifyCertificateValidator';
+import type { NextFunction, Request, Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+
+/**
+ * CertificateController - HTTP request handler for vaccination certificates
+ *
+ * Responsibilities:
+ * - HTTP request/response handling
+ * - Extracting authenticated user information
+ * - Calling appropriate service methods
+ *
+ * Architecture:
+ * - Thin controller - all business logic in CertificateService
+ */
+@injectable()
+export class CertificateController {
+  constructor(
+    @inject(TOKENS.CertificateService)
+    private readonly certificateService: CertificateService,
+  ) {}
+
+  /**
+   * Issues a vaccination certificate with a signed QR code
+   *
+   * HTTP Endpoint: POST /certificates
+   * Authorization: Required
+   * - EMPLOYEE: Only their own certificate
+   * - NURSE/MANAGER: Any user's certificate
+   *
+   * @example
+   * POST /certificates
+   * Headers: Authorization: Bearer <token>
+   * {
+   *   "userId": "uuid"
+   * }
+   *
+   * Response: 201 Created with the code, verification URL and QR code
+   */
+  async issue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { userId } = req.body as IssueCertificateBodyDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const certificate = await this.certificateService.issueCertificate(
+        userId,
+        requestingUserId,
+      );
+
+      res.status(201).json(certificate);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Verifies a certificate code
+   *
+   * HTTP Endpoint: GET /certificates/verify/:code
+   * Authorization: Public (the signed code is the credential)
+   *
+   * Response: 200 OK with initials, vaccines, dates and status
+   */
+  async verify(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code } = req.params as unknown as VerifyCertificateParamsDTO;
+
+      const verification =
+        await this.certificateService.verifyCertificate(code);
+
+      res.status(200).json(verification);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
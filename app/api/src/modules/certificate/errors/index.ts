@@ -0,0 +1,15 @@
+import { AppError } from '@modules/user/errors';
+
+export class CertificateNotFoundError extends AppError {
+  constructor(message = 'Certificate not found') {
+    super(message, 404);
+    this.name = 'CertificateNotFoundError';
+  }
+}
+
+export class NoVaccinationsToCertifyError extends AppError {
+  constructor(message = 'The user has no vaccine applications to certify') {
+    super(message, 400);
+    this.name = 'NoVaccinationsToCertifyError';
+  }
+}
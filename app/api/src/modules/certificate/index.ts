@@ -0,0 +1,5 @@
+export * from './controllers/certificateController';
+export * from './services/certificateService';
+export * from './stores/vaccinationCertificateStore';
+export * from './errors';
+export * from './constants';
@@ -0,0 +1,347 @@
+import { env } from 'node:process';
+import { TOKENS } from '@infrastructure/di/tokens';
+import { getMailConfig } from '@infrastructure/mail';
+import { UserNotFoundError } from '@modules/user/errors';
+import type {
+  VaccinationHistoryResponse,
+  VaccineApplicationService,
+} from '@modules/vaccine-application/services/vaccineApplicationService';
+import { buildVaccinationCardPdf } from '@modules/vaccine-application/templates/vaccinationCardPdf';
+import {
+  generateVerificationCode,
+  isValidDocumentSignature,
+  signDocument,
+} from '@shared/helpers/signatureHelper';
+import {
+  addDays,
+  formatDate,
+  getCurrentDate,
+} from '@shared/helpers/timeHelper';
+import type { IUserStore } from '@shared/interfaces/user';
+import type { IVaccinationCertificateStore } from '@shared/interfaces/vaccinationCertificate';
+import type { User } from '@shared/models/user';
+import type {
+  CertificatePayload,
+  CertificateStatus,
+  CertificateVerification,
+  IssuedCertificate,
+  VaccinationCertificate,
+} from '@shared/models/vaccinationCertificate';
+import type { VaccinationCardFile } from '@shared/models/vaccineApplication';
+import QRCode from 'qrcode';
+import { inject, injectable } from 'tsyringe';
+import { DEFAULT_CERTIFICATE_VALIDITY_DAYS } from '../constants';
+import {
+  CertificateNotFoundError,
+  NoVaccinationsToCertifyError,
+} from '../errors';
+
+const CODE_SEPARATOR = '.';
+
+// Short code printed on the vaccination card, e.g. "3F9A-0C1E-77B2-D4E8"
+const CARD_CODE_PATTERN = /^[0-9A-F]{4}(-[0-9A-F]{4}){3}$/;
+
+// Name particles left out of the initials
+const NAME_PARTICLES = ['da', 'das', 'de', 'do', 'dos', 'e'];
+
+/**
+ * Initials shown instead of the name of the holder
+ *
+ * @example
+ * getInitials('Ana Maria de Souza') // "A. M. S."
+ */
+const getInitials = (name: string): string =>
+  name
+    .trim()
+    .split(/\s+/)
+    .filter((part) => !NAME_PARTICLES.includes(part.toLowerCase()))
+    .map((part) => `${part.charAt(0).toUpperCase()}.`)
+    .join(' ');
+
+/**
+ * Text signed for a certificate. The ID binds the signature to the row, so
+ * the payload of a certificate cannot be moved to another one.
+ */
+const signedContent = (certificate: VaccinationCertificate): string =>
+  `vaccination-certificate|${certificate.id}|${certificate.payload}`;
+
+/**
+ * Text behind the short code of a vaccination card. The code is stored with
+ * the certificate, recomputing it rejects rows not issued with the secret.
+ */
+const cardContent = (
+  certificate: Pick<VaccinationCertificate, 'userId' | 'issuedAt'>,
+): string =>
+  `vaccination-card|${certificate.userId}|${certificate.issuedAt.toISOString()}`;
+
+const getCertificateStatus = (
+  certificate: VaccinationCertificate,
+  now: Date,
+): CertificateStatus => {
+  if (certificate.revokedAt) return 'REVOKED';
+  if (certificate.expiresAt <= now) return 'EXPIRED';
+  return 'VALID';
+};
+
+const getCertificateValidityDays = (): number => {
+  const days = Number(env.CERTIFICATE_VALIDITY_DAYS);
+  return Number.isInteger(days) && days > 0
+    ? days
+    : DEFAULT_CERTIFICATE_VALIDITY_DAYS;
+};
+
+/**
+ * CertificateService - Service layer for publicly verifiable vaccination
+ * certificates
+ *
+ * Responsible for:
+ * - Issuing a certificate from the vaccination history of a user, signed
+ *   and encoded in a QR code
+ * - Issuing the vaccination card PDF, backed by a certificate whose short
+ *   verification code is printed on the card
+ * - Verifying a certificate or card code without authentication
+ *
+ * Certificates:
+ * - The code is `<certificate id>.<HMAC-SHA256 of id and payload>`, keyed
+ *   by DOCUMENT_SIGNING_SECRET (see signatureHelper)
+ * - Cards carry a shorter code (generateVerificationCode), looked up by
+ *   its stored value
+ * - The QR code points to the verification page of the web app
+ * - Only initials, vaccines and dates are exposed by the verification
+ * - Valid for CERTIFICATE_VALIDITY_DAYS (default 365), revoked when one of
+ *   the applications it lists is voided
+ */
+@injectable()
+export class CertificateService {
+  constructor(
+    @inject(TOKENS.IVaccinationCertificateStore)
+    private readonly certificateStore: IVaccinationCertificateStore,
+    @inject(TOKENS.IUserStore)
+    private readonly userStore: IUserStore,
+    @inject(TOKENS.VaccineApplicationService)
+    private readonly vaccineApplicationService: VaccineApplicationService,
+  ) {}
+
+  /**
+   * Issues a certificate of the vaccines applied to a user
+   *
+   * Authorization is the same as the vaccination history: own certificate,
+   * or any user with application:read (NURSE, MANAGER).
+   *
+   * @param userId - ID of the certificate holder
+   * @param requestingUserId - ID of the user issuing it
+   * @returns Certificate with its code, verification URL and QR code
+   * @throws UserNotFoundError if the holder does not exist
+   * @throws ValidationError if a user without application:read issues another user's certificate
+   * @throws NoVaccinationsToCertifyError if the holder has no applied vaccine
+   */
+  async issueCertificate(
+    userId: string,
+    requestingUserId: string,
+  ): Promise<IssuedCertificate> {
+    const holder = await this.userStore.findById(userId);
+    if (!holder) {
+      throw new UserNotFoundError(`User with ID ${userId} not found`);
+    }
+
+    const history =
+      await this.vaccineApplicationService.getUserVaccinationHistory(
+        userId,
+        requestingUserId,
+      );
+
+    if (!history.applied.length) {
+      throw new NoVaccinationsToCertifyError();
+    }
+
+    const issuedAt = getCurrentDate();
+    const expiresAt = addDays(issuedAt, getCertificateValidityDays());
+    const payload = this.buildPayload(holder, history, issuedAt, expiresAt);
+
+    const certificate = await this.certificateStore.createCertificate({
+      userId,
+      issuedById: requestingUserId,
+      payload: JSON.stringify(payload),
+      expiresAt,
+      applicationIds: history.applied.map((application) => application.id),
+    });
+
+    const code = `${certificate.id}${CODE_SEPARATOR}${signDocument(signedContent(certificate))}`;
+    const verifyUrl = this.getVerifyUrl(code);
+
+    return {
+      id: certificate.id,
+      code,
+      verifyUrl,
+      qrCode: await QRCode.toDataURL(verifyUrl, {
+        errorCorrectionLevel: 'M',
+        margin: 1,
+        width: 320,
+      }),
+      issuedAt: certificate.issuedAt,
+      expiresAt: certificate.expiresAt,
+      vaccines: payload.vaccines,
+    };
+  }
+
+  /**
+   * Renders the vaccination card of a user as a PDF
+   *
+   * Same data and authorization as the vaccination history. Each card is
+   * stored as a certificate (same payload, validity and revocation) with a
+   * short verification code, printed on every page and checkable through
+   * verifyCertificate. Unlike issueCertificate, a user without applications
+   * still gets a card, listing the mandatory vaccines not started.
+   *
+   * @param userId - ID of the user whose card is being requested
+   * @param requestingUserId - ID of the user requesting the card
+   * @returns PDF file and its name
+   * @throws UserNotFoundError if the user does not exist
+   * @throws ValidationError if a user without application:read requests another user's card
+   */
+  async issueVaccinationCard(
+    userId: string,
+    requestingUserId: string,
+  ): Promise<VaccinationCardFile> {
+    const holder = await this.userStore.findById(userId);
+    if (!holder) {
+      throw new UserNotFoundError(`User with ID ${userId} not found`);
+    }
+
+    const history =
+      await this.vaccineApplicationService.getUserVaccinationHistory(
+        userId,
+        requestingUserId,
+      );
+
+    const { issuedAt } = history;
+    const expiresAt = addDays(issuedAt, getCertificateValidityDays());
+    const payload = this.buildPayload(holder, history, issuedAt, expiresAt);
+    const verificationCode = generateVerificationCode(
+      cardContent({ userId, issuedAt }),
+    );
+
+    await this.certificateStore.createCertificate({
+      userId,
+      issuedById: requestingUserId,
+      payload: JSON.stringify(payload),
+      verificationCode,
+      issuedAt,
+      expiresAt,
+      applicationIds: history.applied.map((application) => application.id),
+    });
+
+    const content = await buildVaccinationCardPdf({
+      user: holder,
+      history,
+      verificationCode,
+      verifyUrl: this.getVerifyUrl(verificationCode),
+    });
+
+    return {
+      fileName: `cartao-vacinacao-${formatDate(issuedAt)}.pdf`,
+      content,
+    };
+  }
+
+  /**
+   * Checks a certificate or vaccination card code (public, no authentication)
+   *
+   * Revoked and expired certificates are still returned, with their status,
+   * so the third party knows why the certificate is no longer valid.
+   *
+   * @param code - Code read from the QR code, or typed from a vaccination card
+   * @returns Minimal certificate data and its status
+   * @throws CertificateNotFoundError if the code is unknown or its signature is invalid
+   */
+  async verifyCertificate(code: string): Promise<CertificateVerification> {
+    const certificate = CARD_CODE_PATTERN.test(code.toUpperCase())
+      ? await this.findCardCertificate(code.toUpperCase())
+      : await this.findSignedCertificate(code);
+
+    if (!certificate) {
+      throw new CertificateNotFoundError();
+    }
+
+    const payload = JSON.parse(certificate.payload) as CertificatePayload;
+
+    return {
+      ...payload,
+      status: getCertificateStatus(certificate, getCurrentDate()),
+      revokedAt: certificate.revokedAt,
+    };
+  }
+
+  /**
+   * Certificate of a `<id>.<signature>` code, null if the signature is invalid
+   * @private
+   */
+  private async findSignedCertificate(
+    code: string,
+  ): Promise<VaccinationCertificate | null> {
+    const separatorIndex = code.lastIndexOf(CODE_SEPARATOR);
+    if (separatorIndex <= 0) return null;
+
+    const certificate = await this.certificateStore.findById(
+      code.slice(0, separatorIndex),
+    );
+
+    return certificate &&
+      isValidDocumentSignature(
+        signedContent(certificate),
+        code.slice(separatorIndex + 1),
+      )
+      ? certificate
+      : null;
+  }
+
+  /**
+   * Certificate behind the short code of a vaccination card
+   * @private
+   */
+  private async findCardCertificate(
+    code: string,
+  ): Promise<VaccinationCertificate | null> {
+    const certificate =
+      await this.certificateStore.findByVerificationCode(code);
+
+    return certificate &&
+      generateVerificationCode(cardContent(certificate)) === code
+      ? certificate
+      : null;
+  }
+
+  /**
+   * Minimal data shown by the public verification
+   * @private
+   */
+  private buildPayload(
+    holder: User,
+    history: VaccinationHistoryResponse,
+    issuedAt: Date,
+    expiresAt: Date,
+  ): CertificatePayload {
+    return {
+      holderInitials: getInitials(holder.name),
+      issuedAt: issuedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+      vaccines: history.vaccinesByType.map((item) => ({
+        name: item.vaccine.name,
+        isComplete: item.isComplete,
+        doses: item.doses.map((dose) => ({
+          doseNumber: dose.doseNumber,
+          applicationDate: dose.applicationDate.toISOString(),
+        })),
+      })),
+    };
+  }
+
+  /**
+   * Verification page of the web app for a code
+   * @private
+   */
+  private getVerifyUrl(code: string): string {
+    const { webUrl } = getMailConfig();
+    return `${webUrl}/certificates/verify/${code}`;
+  }
+}
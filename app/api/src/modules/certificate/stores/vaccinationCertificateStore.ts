@@ -0,0 +1,49 @@
+import type { IVaccinationCertificateStore } from '@shared/interfaces/vaccinationCertificate';
+import type {
+  VaccinationCertificate,
+  VaccinationCertificateCreateInput,
+  VaccinationCertificateDelegate,
+  VaccinationCertificateUpdateInput,
+} from '@shared/models/vaccinationCertificate';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+
+/**
+ * VaccinationCertificateStore - Prisma-based implementation of
+ * IVaccinationCertificateStore
+ *
+ * Keeps the issued certificates and the applications each one covers.
+ */
+@injectable()
+export class VaccinationCertificateStore
+  extends BaseStore<
+    VaccinationCertificate,
+    VaccinationCertificateDelegate,
+    VaccinationCertificateCreateInput,
+    VaccinationCertificateUpdateInput
+  >
+  implements IVaccinationCertificateStore
+{
+  protected readonly model = this.prisma.vaccinationCertificate;
+
+  async createCertificate(
+    data: VaccinationCertificateCreateInput,
+  ): Promise<VaccinationCertificate> {
+    const { applicationIds, ...fields } = data;
+
+    return this.model.create({
+      data: {
+        ...fields,
+        applications: {
+          connect: applicationIds.map((id) => ({ id })),
+        },
+      },
+    });
+  }
+
+  async findByVerificationCode(
+    code: string,
+  ): Promise<VaccinationCertificate | null> {
+    return this.model.findUnique({ where: { verificationCode: code } });
+  }
+}
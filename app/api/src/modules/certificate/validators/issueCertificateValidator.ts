@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const IssueCertificateBodySchema = z.object({
+  userId: z.string().uuid('User ID must be a valid UUID'),
+});
+
+export type IssueCertificateBodyDTO = z.infer<
+  typeof IssueCertificateBodySchema
+>;
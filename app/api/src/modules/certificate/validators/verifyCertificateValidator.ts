@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const VerifyCertificateParamsSchema = z.object({
+  code: z.string().min(1, 'Certificate code is required').max(200),
+});
+
+export type VerifyCertificateParamsDTO = z.infer<
+  typeof VerifyCertificateParamsSchema
+>;
@@ -0,0 +1,13 @@
+export const allowedInvitationSortFields = [
+  'email',
+  'role',
+  'expiresAt',
+  'createdAt',
+];
+
+export const INVITATION_STATUSES = [
+  'PENDING',
+  'ACCEPTED',
+  'EXPIRED',
+  'REVOKED',
+] as const;
@@ -0,0 +1,151 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { InvitationService } from '@modules/invitation/services/invitationService';
+import type { CreateInvitationBodyDTO } from '@modules/invitation/validators/createInvitationValidator';
+import type { ListInvitationsQueryDTO } from '@modules/invitation/validators/listInvitationsValidator';
+import type { PreviewInvitationQueryDTO } from '@modules/invitation/validators/previewInvitationValidator';
+import type { InvitationFilterParams } from '@shared/interfaces/invitation';
+import type { NextFunction, Request, Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+
+/**
+ * InvitationController - HTTP request handler for invitation endpoints
+ *
+ * Responsibilities:
+ * - HTTP request/response handling
+ * - Extracting authenticated user information
+ * - Calling appropriate service methods
+ *
+ * Architecture:
+ * - Thin controller - all business logic in InvitationService
+ * - Accepting an invitation opens a session, so it is handled by
+ *   AuthController.registerWithInvitation
+ */
+@injectable()
+export class InvitationController {
+  constructor(
+    @inject(TOKENS.InvitationService)
+    private readonly invitationService: InvitationService,
+  ) {}
+
+  /**
+   * Invites a person to create an account
+   *
+   * HTTP Endpoint: POST /invitations
+   * Authorization: user:invite (MANAGER)
+   * Body: CreateInvitationBodyDTO (validated by Zod middleware)
+   *
+   * @example
+   * POST /invitations
+   * Headers: Authorization: Bearer <token>
+   * {
+   *   "email": "ana@example.com",
+   *   "role": "NURSE"
+   * }
+   *
+   * Response: 201 Created with the invitation and its link
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = req.body as CreateInvitationBodyDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const invitation = await this.invitationService.createInvitation(
+        data,
+        requestingUserId,
+      );
+
+      res.status(201).json(invitation);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lists invitations
+   *
+   * HTTP Endpoint: GET /invitations
+   * Authorization: user:invite (MANAGER)
+   * Query Parameters:
+   * - page, perPage, sortBy, sortOrder
+   * - status: PENDING | ACCEPTED | EXPIRED | REVOKED
+   * - email: string
+   *
+   * Response: 200 OK
+   */
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = req.query as unknown as ListInvitationsQueryDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const paginationParams = {
+        page: query.page,
+        perPage: query.perPage,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+      };
+
+      const filters: InvitationFilterParams = {
+        status: query.status,
+        email: query.email,
+      };
+
+      const result = await this.invitationService.listInvitations(
+        paginationParams,
+        filters,
+        requestingUserId,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Revokes a pending invitation
+   *
+   * HTTP Endpoint: DELETE /invitations/:id
+   * Authorization: user:invite (MANAGER)
+   *
+   * Response: 200 OK with the revoked invitation
+   */
+  async revoke(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      const invitation = await this.invitationService.revokeInvitation(
+        id,
+        requestingUserId,
+      );
+
+      res.status(200).json(invitation);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Shows the email and role of a pending invitation
+   *
+   * HTTP Endpoint: GET /invitations/preview?token=...
+   * Authorization: Public (the token is the credential)
+   *
+   * Response: 200 OK
+   */
+  async preview(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { token } = req.query as unknown as PreviewInvitationQueryDTO;
+
+      const preview = await this.invitationService.previewInvitation(token);
+
+      res.status(200).json(preview);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
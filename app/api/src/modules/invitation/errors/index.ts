@@ -0,0 +1,22 @@
+import { AppError } from '@modules/user/errors';
+
+export class InvitationNotFoundError extends AppError {
+  constructor(message = 'Invitation not found') {
+    super(message, 404);
+    this.name = 'InvitationNotFoundError';
+  }
+}
+
+export class InvalidInvitationTokenError extends AppError {
+  constructor(message = 'Invalid or expired invitation') {
+    super(message, 400);
+    this.name = 'InvalidInvitationTokenError';
+  }
+}
+
+export class InvitationNotPendingError extends AppError {
+  constructor(message = 'Invitation is no longer pending') {
+    super(message, 409);
+    this.name = 'InvitationNotPendingError';
+  }
+}
@@ -0,0 +1,5 @@
+export * from './controllers/invitationController';
+export * from './services/invitationService';
+export * from './stores/invitationStore';
+export * from './errors';
+export * from './constants';
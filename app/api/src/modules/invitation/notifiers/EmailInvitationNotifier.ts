@@ -0,0 +1,30 @@
+/**
+ * EmailInvitationNotifier - Sends invite links by email
+ *
+ * Uses the configured mail transport: SMTP in production, console in
+ * development (the link shows up in the API logs).
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import { buildInvitationEmail } from '@modules/notifications/templates';
+import type {
+  IInvitationNotifier,
+  InvitationNotification,
+} from '@shared/interfaces/invitationNotifier';
+import type { IMailTransport } from '@shared/interfaces/mailTransport';
+import { inject, injectable } from 'tsyringe';
+
+@injectable()
+export class EmailInvitationNotifier implements IInvitationNotifier {
+  constructor(
+    @inject(TOKENS.IMailTransport)
+    private readonly mailTransport: IMailTransport,
+  ) {}
+
+  async sendInvitation(notification: InvitationNotification): Promise<void> {
+    await this.mailTransport.send({
+      to: notification.email,
+      ...buildInvitationEmail(notification),
+    });
+  }
+}
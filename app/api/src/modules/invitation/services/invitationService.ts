@@ -0,0 +1,281 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import { getMailConfig } from '@infrastructure/mail';
+import { ValidationError } from '@modules/user/errors';
+import type { UserService } from '@modules/user/services/userService';
+import { Permissions } from '@shared/constants/permissions';
+import { getCurrentDate } from '@shared/helpers/timeHelper';
+import {
+  generateInvitationToken,
+  getInvitationExpiresAt,
+  hashInvitationToken,
+} from '@shared/helpers/tokenHelper';
+import { normalizeEmail, toUserResponse } from '@shared/helpers/userHelper';
+import type {
+  IInvitationStore,
+  InvitationFilterParams,
+} from '@shared/interfaces/invitation';
+import type { IInvitationNotifier } from '@shared/interfaces/invitationNotifier';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+} from '@shared/interfaces/pagination';
+import type {
+  AcceptInvitationDTO,
+  CreateInvitationDTO,
+  CreatedInvitation,
+  Invitation,
+  InvitationPreview,
+  InvitationResponse,
+  InvitationStatus,
+  InvitationWithRelations,
+} from '@shared/models/invitation';
+import type { UserResponse } from '@shared/models/user';
+import { inject, injectable } from 'tsyringe';
+import {
+  InvalidInvitationTokenError,
+  InvitationNotFoundError,
+  InvitationNotPendingError,
+} from '../errors';
+
+const getInvitationStatus = (
+  invitation: Pick<Invitation, 'acceptedAt' | 'revokedAt' | 'expiresAt'>,
+  now: Date,
+): InvitationStatus => {
+  if (invitation.acceptedAt) return 'ACCEPTED';
+  if (invitation.revokedAt) return 'REVOKED';
+  if (invitation.expiresAt <= now) return 'EXPIRED';
+  return 'PENDING';
+};
+
+const toInvitationResponse = (
+  { tokenHash: _tokenHash, ...invitation }: InvitationWithRelations,
+  now: Date = getCurrentDate(),
+): InvitationResponse => ({
+  ...invitation,
+  status: getInvitationStatus(invitation, now),
+});
+
+/**
+ * InvitationService - Service layer for invitation-based onboarding
+ *
+ * Responsible for:
+ * - Issuing invitations with a given role (user:invite, MANAGER)
+ * - Listing and revoking invitations
+ * - Creating the account of an invited person through
+ *   UserService.createUser, with the email and role of the invitation
+ *
+ * Tokens:
+ * - Opaque random strings sent in the invite link, valid for
+ *   INVITATION_EXPIRES_IN_DAYS (default 7). Only their hash is stored
+ * - Single-use: an accepted, revoked or expired invitation cannot be used
+ *   again, and inviting the same email again revokes the previous link
+ */
+@injectable()
+export class InvitationService {
+  constructor(
+    @inject(TOKENS.IInvitationStore)
+    private readonly invitationStore: IInvitationStore,
+    @inject(TOKENS.IInvitationNotifier)
+    private readonly invitationNotifier: IInvitationNotifier,
+    @inject(TOKENS.UserService)
+    private readonly userService: UserService,
+  ) {}
+
+  /**
+   * Invites a person to create an account with a given role
+   *
+   * Business Rules:
+   * - Requires the user:invite permission (MANAGER)
+   * - The email must not belong to a registered user
+   * - Pending invitations to the same email are revoked
+   * - The link is delivered in the background; failures are only logged,
+   *   and the link is also returned so it can be shared by other means
+   *
+   * @param data - Email and role of the invited person
+   * @param userId - ID of the manager
+   * @returns Created invitation with its link
+   * @throws ForbiddenError if user lacks user:invite (from UserService)
+   * @throws EmailAlreadyExistsError if the email is already registered
+   */
+  async createInvitation(
+    data: CreateInvitationDTO,
+    userId: string,
+  ): Promise<CreatedInvitation> {
+    const inviter = await this.userService.validatePermission(
+      userId,
+      Permissions.USER_INVITE,
+    );
+
+    const email = normalizeEmail(data.email);
+    await this.userService.assertEmailAvailable(email);
+
+    const token = generateInvitationToken();
+    const expiresAt = getInvitationExpiresAt();
+
+    await this.invitationStore.revokePendingByEmail(email);
+    const invitation = await this.invitationStore.createInvitation({
+      email,
+      role: data.role,
+      tokenHash: hashInvitationToken(token),
+      expiresAt,
+      invitedById: inviter.id,
+    });
+
+    const { webUrl } = getMailConfig();
+    const inviteUrl = `${webUrl}/register?invite=${encodeURIComponent(token)}`;
+
+    this.invitationNotifier
+      .sendInvitation({
+        email,
+        role: data.role,
+        invitedByName: inviter.name,
+        inviteUrl,
+        expiresAt,
+      })
+      .catch((error) => {
+        console.error(
+          `[InvitationService] Could not send invitation ${invitation.id}:`,
+          error,
+        );
+      });
+
+    return { ...toInvitationResponse(invitation), inviteUrl };
+  }
+
+  /**
+   * Lists invitations, newest first by default
+   *
+   * @throws ForbiddenError if user lacks user:invite (from UserService)
+   */
+  async listInvitations(
+    params: PaginationParams,
+    filters: InvitationFilterParams,
+    userId: string,
+  ): Promise<PaginatedResponse<InvitationResponse>> {
+    await this.userService.validatePermission(userId, Permissions.USER_INVITE);
+
+    const result = await this.invitationStore.findPaginatedInvitations(params, {
+      ...filters,
+      email: filters.email ? normalizeEmail(filters.email) : undefined,
+    });
+
+    const now = getCurrentDate();
+
+    return {
+      ...result,
+      data: result.data.map((invitation) =>
+        toInvitationResponse(invitation, now),
+      ),
+    };
+  }
+
+  /**
+   * Revokes a pending invitation, so its link stops working
+   *
+   * @throws ForbiddenError if user lacks user:invite (from UserService)
+   * @throws InvitationNotFoundError if the invitation does not exist
+   * @throws InvitationNotPendingError if it was already accepted, revoked or expired
+   */
+  async revokeInvitation(
+    id: string,
+    userId: string,
+  ): Promise<InvitationResponse> {
+    await this.userService.validatePermission(userId, Permissions.USER_INVITE);
+
+    const invitation = await this.invitationStore.findById(id);
+    if (!invitation) {
+      throw new InvitationNotFoundError();
+    }
+
+    const status = getInvitationStatus(invitation, getCurrentDate());
+    if (status !== 'PENDING') {
+      throw new InvitationNotPendingError(`Invitation is already ${status}`);
+    }
+
+    const revoked = await this.invitationStore.revoke(id);
+    return toInvitationResponse(revoked);
+  }
+
+  /**
+   * Email and role of a pending invitation, shown on the registration page
+   *
+   * @param token - Token received in the invite link
+   * @throws InvalidInvitationTokenError if the token is unknown or no longer pending
+   */
+  async previewInvitation(token: string): Promise<InvitationPreview> {
+    const invitation = await this.findPendingByToken(token);
+
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  /**
+   * Creates the account of an invited person
+   *
+   * Business Rules:
+   * - The invitation must be pending (not accepted, revoked or expired)
+   * - Email and role come from the invitation, never from the request
+   * - A NURSE invitation requires a COREN
+   * - The account follows the UserService.createUser rules (password
+   *   policy, uniqueness of email, CPF and COREN)
+   * - The invitation is claimed and the account created in one transaction,
+   *   so an invitation revoked or expired meanwhile grants nothing and two
+   *   concurrent accepts of the same link create a single account
+   *
+   * @param token - Token received in the invite link
+   * @param data - Account data filled in by the invited person
+   * @returns Created user
+   * @throws InvalidInvitationTokenError if the token is unknown or no longer pending
+   * @throws ValidationError if a NURSE invitation is accepted without COREN
+   */
+  async acceptInvitation(
+    token: string,
+    data: AcceptInvitationDTO,
+  ): Promise<UserResponse> {
+    const invitation = await this.findPendingByToken(token);
+
+    if (invitation.role === 'NURSE' && !data.coren?.trim()) {
+      throw new ValidationError('COREN is required for NURSE role');
+    }
+
+    const userInput = await this.userService.buildUserCreateInput({
+      name: data.name,
+      email: invitation.email,
+      password: data.password,
+      cpf: data.cpf,
+      phone: data.phone,
+      role: invitation.role,
+      coren: invitation.role === 'NURSE' ? data.coren : undefined,
+    });
+
+    const user = await this.invitationStore.acceptWithNewUser(
+      invitation.id,
+      userInput,
+    );
+
+    // Revoked, expired or accepted by a concurrent request meanwhile
+    if (!user) {
+      throw new InvalidInvitationTokenError();
+    }
+
+    return toUserResponse(user);
+  }
+
+  private async findPendingByToken(token: string): Promise<Invitation> {
+    const invitation = await this.invitationStore.findByTokenHash(
+      hashInvitationToken(token),
+    );
+
+    if (
+      !invitation ||
+      getInvitationStatus(invitation, getCurrentDate()) !== 'PENDING'
+    ) {
+      throw new InvalidInvitationTokenError();
+    }
+
+    return invitation;
+  }
+}
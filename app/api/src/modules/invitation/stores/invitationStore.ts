@@ -0,0 +1,163 @@
+import type { Prisma } from '@infrastructure/database';
+import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
+import { getCurrentDate } from '@shared/helpers/timeHelper';
+import type {
+  IInvitationStore,
+  InvitationFilterParams,
+} from '@shared/interfaces/invitation';
+import {
+  type PaginatedResponse,
+  type PaginationParams,
+  calculatePaginationMetadata,
+} from '@shared/interfaces/pagination';
+import type {
+  Invitation,
+  InvitationCreateInput,
+  InvitationDelegate,
+  InvitationStatus,
+  InvitationUpdateInput,
+  InvitationWithRelations,
+} from '@shared/models/invitation';
+import type { User, UserCreateInput } from '@shared/models/user';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+import { allowedInvitationSortFields } from '../constants';
+
+const invitationRelations = {
+  invitedBy: { select: { id: true, name: true } },
+  acceptedUser: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Where clause matching invitations in the given status at the given moment
+ */
+const whereStatus = (
+  status: InvitationStatus,
+  now: Date,
+): Prisma.InvitationWhereInput => {
+  switch (status) {
+    case 'ACCEPTED':
+      return { acceptedAt: { not: null } };
+    case 'REVOKED':
+      return { acceptedAt: null, revokedAt: { not: null } };
+    case 'EXPIRED':
+      return { acceptedAt: null, revokedAt: null, expiresAt: { lte: now } };
+    case 'PENDING':
+      return { acceptedAt: null, revokedAt: null, expiresAt: { gt: now } };
+  }
+};
+
+/**
+ * InvitationStore - Prisma-based implementation of IInvitationStore
+ *
+ * Keeps the single-use invitations sent to new users. The status of an
+ * invitation is derived from its dates, see whereStatus.
+ */
+@injectable()
+export class InvitationStore
+  extends BaseStore<
+    Invitation,
+    InvitationDelegate,
+    InvitationCreateInput,
+    InvitationUpdateInput
+  >
+  implements IInvitationStore
+{
+  protected readonly model = this.prisma.invitation;
+
+  async createInvitation(
+    data: InvitationCreateInput,
+  ): Promise<InvitationWithRelations> {
+    const { invitedById, ...fields } = data;
+
+    return this.model.create({
+      data: {
+        ...fields,
+        invitedBy: { connect: { id: invitedById } },
+      },
+      include: invitationRelations,
+    });
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<Invitation | null> {
+    return this.model.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  async findPaginatedInvitations(
+    params: PaginationParams,
+    filters?: InvitationFilterParams,
+  ): Promise<PaginatedResponse<InvitationWithRelations>> {
+    const { page, perPage } = params;
+
+    const where: Prisma.InvitationWhereInput = {
+      email: filters?.email,
+      ...(filters?.status && whereStatus(filters.status, getCurrentDate())),
+    };
+
+    const [data, total] = await Promise.all([
+      this.model.findMany({
+        where,
+        ...buildPaginationArgs(params, allowedInvitationSortFields),
+        include: invitationRelations,
+      }),
+      this.model.count({ where }),
+    ]);
+
+    const pagination = calculatePaginationMetadata(page, perPage, total);
+
+    return {
+      data,
+      pagination,
+    };
+  }
+
+  async revokePendingByEmail(email: string): Promise<number> {
+    const now = getCurrentDate();
+
+    const result = await this.model.updateMany({
+      where: { email, ...whereStatus('PENDING', now) },
+      data: { revokedAt: now },
+    });
+
+    return result.count;
+  }
+
+  async revoke(id: string): Promise<InvitationWithRelations> {
+    return this.model.update({
+      where: { id },
+      data: { revokedAt: getCurrentDate() },
+      include: invitationRelations,
+    });
+  }
+
+  async acceptWithNewUser(
+    id: string,
+    user: UserCreateInput,
+  ): Promise<User | null> {
+    const now = getCurrentDate();
+
+    return this.prisma.$transaction(async (tx) => {
+      // Conditional update: a concurrent revoke or accept waits for this
+      // row lock and then no longer sees the invitation as pending
+      const claimed = await tx.invitation.updateMany({
+        where: { id, ...whereStatus('PENDING', now) },
+        data: { acceptedAt: now },
+      });
+
+      if (claimed.count !== 1) {
+        return null;
+      }
+
+      const created = await tx.user.create({ data: user });
+
+      await tx.invitation.update({
+        where: { id },
+        data: { acceptedUserId: created.id },
+      });
+
+      return created;
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { RegisterSchema } from '@modules/user/validators/registerValidator';
+import { z } from 'zod';
+
+/**
+ * Same account fields as the open registration, except email and role,
+ * which come from the invitation
+ */
+export const AcceptInvitationBodySchema = RegisterSchema.pick({
+  password: true,
+  name: true,
+  cpf: true,
+  phone: true,
+}).extend({
+  token: z.string().min(1, 'Invitation token is required'),
+  coren: z
+    .string()
+    .trim()
+    .min(1, 'COREN cannot be empty if provided')
+    .optional(),
+});
+
+export type AcceptInvitationBodyDTO = z.infer<
+  typeof AcceptInvitationBodySchema
+>;
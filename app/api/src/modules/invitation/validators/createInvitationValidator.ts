@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+export const CreateInvitationBodySchema = z.object({
+  email: z
+    .string()
+    .min(1, 'Email is required')
+    .email('Invalid email format')
+    .toLowerCase()
+    .trim()
+    .max(255, 'Email too long'),
+  role: z.enum(['EMPLOYEE', 'NURSE', 'MANAGER'], {
+    message: 'Role must be one of: EMPLOYEE, NURSE, MANAGER',
+  }),
+});
+
+export type CreateInvitationBodyDTO = z.infer<
+  typeof CreateInvitationBodySchema
+>;
@@ -0,0 +1,42 @@
+import { PAGINATION_DEFAULTS } from '@shared/interfaces/pagination';
+import { z } from 'zod';
+import { INVITATION_STATUSES, allowedInvitationSortFields } from '../constants';
+
+export const ListInvitationsQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) =>
+      val ? Number.parseInt(val, 10) : PAGINATION_DEFAULTS.PAGE,
+    )
+    .refine((val) => !Number.isNaN(val) && val >= 1, {
+      message: 'Page must be a positive integer',
+    }),
+  perPage: z
+    .string()
+    .optional()
+    .transform((val) =>
+      val ? Number.parseInt(val, 10) : PAGINATION_DEFAULTS.PER_PAGE,
+    )
+    .refine((val) => !Number.isNaN(val) && val >= 1 && val <= 100, {
+      message: 'Per page must be between 1 and 100',
+    }),
+  sortBy: z
+    .string()
+    .optional()
+    .default('createdAt')
+    .refine((val) => allowedInvitationSortFields.includes(val), {
+      message: `Sort by must be one of: ${allowedInvitationSortFields.join(', ')}`,
+    }),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+  status: z
+    .enum(INVITATION_STATUSES, {
+      message: `Status must be one of: ${INVITATION_STATUSES.join(', ')}`,
+    })
+    .optional(),
+  email: z.string().trim().toLowerCase().optional(),
+});
+
+export type ListInvitationsQueryDTO = z.infer<
+  typeof ListInvitationsQuerySchema
+>;
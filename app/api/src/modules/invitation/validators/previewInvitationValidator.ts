@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const PreviewInvitationQuerySchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+});
+
+export type PreviewInvitationQueryDTO = z.infer<
+  typeof PreviewInvitationQuerySchema
+>;
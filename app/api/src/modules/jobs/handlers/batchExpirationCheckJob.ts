@@ -0,0 +1,134 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import {
+  type BatchExpiringEvent,
+  EventNames,
+  type IEventBus,
+} from '@modules/notifications';
+import {
+  BATCH_EXPIRATION_CHECK_JOB_NAME,
+  URGENT_BATCH_EXPIRING_DAYS,
+} from '@shared/constants/cronJobs';
+import { getBatchExpiringDaysThreshold } from '@shared/helpers/cronJobHelper';
+import { getDifferenceBetweenDatesInDays } from '@shared/helpers/timeHelper';
+import type { ICronJob } from '@shared/interfaces/cronJob';
+import type { IVaccineBatchStore } from '@shared/interfaces/vaccineBatch';
+import cron from 'node-cron';
+import type { ScheduledTask } from 'node-cron';
+import pLimit from 'p-limit';
+import { inject, injectable } from 'tsyringe';
+
+/**
+ * Daily job that keeps batch expiration under control:
+ * - Marks AVAILABLE batches past their expiration date as EXPIRED (their
+ *   remaining doses are written off with EXPIRY stock movements, which
+ *   also take them out of the vaccines' totalStock)
+ * - Emits batch.expiring for batches expiring within
+ *   BATCH_EXPIRING_DAYS_THRESHOLD days (default: 30)
+ */
+@injectable()
+export class BatchExpirationCheckJob implements ICronJob {
+  name: string;
+  task?: ScheduledTask;
+  schedule: string;
+  limit!: pLimit.Limit;
+
+  constructor(
+    @inject(TOKENS.IVaccineBatchStore)
+    private vaccineBatchStore: IVaccineBatchStore,
+    @inject(TOKENS.IEventBus)
+    private eventBus: IEventBus,
+  ) {
+    this.name = BATCH_EXPIRATION_CHECK_JOB_NAME;
+    this.schedule = '0 7 * * *'; // Every day at 07:00 AM
+    this.task = undefined;
+    this.initializePlimit();
+  }
+
+  initialize(): void {
+    if (!cron.validate(this.schedule)) {
+      throw new Error(`Invalid cron schedule: ${this.schedule}`);
+    }
+    this.task = cron.schedule(
+      this.schedule,
+      async () => {
+        await this.execute();
+      },
+      {
+        timezone: 'America/Sao_Paulo',
+      },
+    );
+  }
+
+  initializePlimit(): void {
+    this.limit = pLimit(5);
+  }
+
+  async execute(): Promise<void> {
+    try {
+      // Expire first so batches already past their date are not reported as expiring
+      await this.expireBatches();
+      await this.notifyExpiringBatches();
+      console.log('BatchExpirationCheckJob executed successfully.');
+    } catch (error) {
+      console.error(`Error executing ${this.name}:`, error);
+    }
+  }
+
+  private async expireBatches(): Promise<void> {
+    const expiredBatches = await this.vaccineBatchStore.findExpiredBatches();
+
+    if (!expiredBatches.length) {
+      console.log('No expired batches found.');
+      return;
+    }
+
+    const count = await this.vaccineBatchStore.markMultipleAsExpired(
+      expiredBatches.map((batch) => batch.id),
+    );
+
+    console.log(`${count} batch(es) marked as EXPIRED.`);
+  }
+
+  private async notifyExpiringBatches(): Promise<void> {
+    const threshold = getBatchExpiringDaysThreshold();
+    const expiringBatches =
+      await this.vaccineBatchStore.findBatchesExpiringSoon(threshold);
+
+    if (!expiringBatches.length) {
+      console.log(`No batches expiring in the next ${threshold} days.`);
+      return;
+    }
+
+    const now = new Date();
+
+    await Promise.all(
+      expiringBatches.map((batch) =>
+        this.limit(async () => {
+          const daysUntilExpiration = getDifferenceBetweenDatesInDays(
+            now,
+            batch.expirationDate,
+          );
+
+          this.eventBus.emit<BatchExpiringEvent>(EventNames.BATCH_EXPIRING, {
+            type: EventNames.BATCH_EXPIRING,
+            channels: ['in-app', 'email'],
+            data: {
+              batchId: batch.id,
+              batchNumber: batch.batchNumber,
+              vaccineId: batch.vaccineId,
+              vaccineName: batch.vaccine.name,
+              manufacturer: batch.vaccine.manufacturer,
+              expirationDate: batch.expirationDate,
+              daysUntilExpiration,
+              currentQuantity: batch.currentQuantity,
+            },
+            priority:
+              daysUntilExpiration <= URGENT_BATCH_EXPIRING_DAYS
+                ? 'urgent'
+                : 'high',
+          });
+        }),
+      ),
+    );
+  }
+}
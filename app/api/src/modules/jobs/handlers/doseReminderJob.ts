@@ -0,0 +1,240 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import {
+  type DoseReminderEvent,
+  type DoseReminderEventData,
+  EventNames,
+  type IEventBus,
+} from '@modules/notifications';
+import type { VaccineApplicationService } from '@modules/vaccine-application/services/vaccineApplicationService';
+import { DOSE_REMINDER_JOB_NAME } from '@shared/constants/cronJobs';
+import {
+  getDoseDueReminderOffsetsDays,
+  getSchedulingReminderOffsetsHours,
+} from '@shared/helpers/cronJobHelper';
+import { MILLISECONDS_IN_A_DAY } from '@shared/helpers/timeHelper';
+import type { ICronJob } from '@shared/interfaces/cronJob';
+import type { ISentReminderStore } from '@shared/interfaces/sentReminder';
+import type { IUserStore } from '@shared/interfaces/user';
+import type { IVaccineSchedulingStore } from '@shared/interfaces/vaccineScheduling';
+import cron from 'node-cron';
+import type { ScheduledTask } from 'node-cron';
+import pLimit from 'p-limit';
+import { inject, injectable } from 'tsyringe';
+
+const MILLISECONDS_IN_AN_HOUR = 60 * 60 * 1000;
+
+/**
+ * Hourly job that emits dose.reminder events:
+ * - Before appointments (SCHEDULED/CONFIRMED), according to
+ *   SCHEDULING_REMINDER_OFFSETS_HOURS (default: 24,2)
+ * - Before/when the next dose of an incomplete vaccine is due, according to
+ *   DOSE_DUE_REMINDER_OFFSETS_DAYS (default: 7,0), when the user has no
+ *   appointment for that vaccine yet
+ *
+ * Every reminder is registered in sent_reminders before being emitted, so
+ * the same appointment/dose is never reminded twice for the same offset.
+ */
+@injectable()
+export class DoseReminderJob implements ICronJob {
+  name: string;
+  task?: ScheduledTask;
+  schedule: string;
+  limit!: pLimit.Limit;
+
+  constructor(
+    @inject(TOKENS.IVaccineSchedulingStore)
+    private vaccineSchedulingStore: IVaccineSchedulingStore,
+    @inject(TOKENS.IUserStore)
+    private userStore: IUserStore,
+    @inject(TOKENS.ISentReminderStore)
+    private sentReminderStore: ISentReminderStore,
+    @inject(TOKENS.VaccineApplicationService)
+    private vaccineApplicationService: VaccineApplicationService,
+    @inject(TOKENS.IEventBus)
+    private eventBus: IEventBus,
+  ) {
+    this.name = DOSE_REMINDER_JOB_NAME;
+    this.schedule = '0 * * * *'; // Every hour
+    this.task = undefined;
+    this.initializePlimit();
+  }
+
+  initialize(): void {
+    if (!cron.validate(this.schedule)) {
+      throw new Error(`Invalid cron schedule: ${this.schedule}`);
+    }
+    this.task = cron.schedule(
+      this.schedule,
+      async () => {
+        await this.execute();
+      },
+      {
+        timezone: 'America/Sao_Paulo',
+      },
+    );
+  }
+
+  initializePlimit(): void {
+    this.limit = pLimit(5);
+  }
+
+  async execute(): Promise<void> {
+    try {
+      const now = new Date();
+      const schedulingReminders = await this.remindUpcomingSchedulings(now);
+      const doseDueReminders = await this.remindDueDoses(now);
+      console.log(
+        `DoseReminderJob executed successfully. Reminders sent: ${schedulingReminders} scheduling(s), ${doseDueReminders} due dose(s).`,
+      );
+    } catch (error) {
+      console.error(`Error executing ${this.name}:`, error);
+    }
+  }
+
+  private async remindUpcomingSchedulings(now: Date): Promise<number> {
+    const offsets = getSchedulingReminderOffsetsHours();
+    const windowEnd = new Date(
+      now.getTime() + offsets[0] * MILLISECONDS_IN_AN_HOUR,
+    );
+
+    const schedulings =
+      await this.vaccineSchedulingStore.findUpcomingSchedulings(now, windowEnd);
+
+    const results = await Promise.all(
+      schedulings.map((scheduling) =>
+        this.limit(async () => {
+          const hoursUntil =
+            (scheduling.scheduledDate.getTime() - now.getTime()) /
+            MILLISECONDS_IN_AN_HOUR;
+          const offset = this.findReachedOffset(offsets, hoursUntil);
+
+          if (offset === undefined) {
+            return false;
+          }
+
+          // The date is part of the key so a rescheduled appointment is reminded again
+          return this.emitOnce(
+            `scheduling:${scheduling.id}:${scheduling.scheduledDate.getTime()}:${offset}h`,
+            {
+              reminderType: 'scheduling',
+              userId: scheduling.userId,
+              userName: scheduling.user.name,
+              vaccineId: scheduling.vaccineId,
+              vaccineName: scheduling.vaccine.name,
+              doseNumber: scheduling.doseNumber,
+              dueDate: scheduling.scheduledDate,
+              schedulingId: scheduling.id,
+            },
+          );
+        }),
+      ),
+    );
+
+    return results.filter(Boolean).length;
+  }
+
+  private async remindDueDoses(now: Date): Promise<number> {
+    const offsets = getDoseDueReminderOffsetsDays();
+    const users = await this.userStore.findAllActive();
+
+    const results = await Promise.all(
+      users.map((user) =>
+        this.limit(async () => {
+          const history =
+            await this.vaccineApplicationService.getUserVaccinationHistory(
+              user.id,
+              user.id,
+            );
+
+          let sent = 0;
+
+          for (const pendingDose of history.pendingDoses) {
+            if (!pendingDose.expectedDate) {
+              continue;
+            }
+
+            const daysUntil =
+              (pendingDose.expectedDate.getTime() - now.getTime()) /
+              MILLISECONDS_IN_A_DAY;
+            const offset = this.findReachedOffset(offsets, daysUntil);
+
+            if (offset === undefined) {
+              continue;
+            }
+
+            // Appointments already have their own reminders
+            const activeSchedulings =
+              await this.vaccineSchedulingStore.findByUserAndVaccine(
+                user.id,
+                pendingDose.vaccine.id,
+              );
+
+            if (activeSchedulings.length) {
+              continue;
+            }
+
+            const emitted = await this.emitOnce(
+              `dose:${user.id}:${pendingDose.vaccine.id}:${pendingDose.nextDose}:${offset}d`,
+              {
+                reminderType: 'dose_due',
+                userId: user.id,
+                userName: user.name,
+                vaccineId: pendingDose.vaccine.id,
+                vaccineName: pendingDose.vaccine.name,
+                doseNumber: pendingDose.nextDose,
+                dueDate: pendingDose.expectedDate,
+              },
+            );
+
+            if (emitted) {
+              sent++;
+            }
+          }
+
+          return sent;
+        }),
+      ),
+    );
+
+    return results.reduce((total, sent) => total + sent, 0);
+  }
+
+  /**
+   * Returns the smallest offset already reached (remaining time <= offset)
+   *
+   * Using only the smallest reached offset means a reminder that was missed
+   * (e.g. appointment created 1h before) is sent once, not once per offset.
+   *
+   * @param offsets - Offsets sorted in descending order
+   * @param remaining - Remaining time, in the same unit as the offsets
+   */
+  private findReachedOffset(
+    offsets: number[],
+    remaining: number,
+  ): number | undefined {
+    return [...offsets].reverse().find((offset) => remaining <= offset);
+  }
+
+  private async emitOnce(
+    reminderKey: string,
+    data: DoseReminderEventData,
+  ): Promise<boolean> {
+    const registered = await this.sentReminderStore.registerIfAbsent(
+      reminderKey,
+      data.userId,
+    );
+
+    if (!registered) {
+      return false;
+    }
+
+    this.eventBus.emit<DoseReminderEvent>(EventNames.DOSE_REMINDER, {
+      type: EventNames.DOSE_REMINDER,
+      channels: ['in-app'],
+      data,
+      priority: 'normal',
+    });
+
+    return true;
+  }
+}
@@ -66,7 +66,7 @@ export class LowStockCheckJob implements ICronJob {
           this.limit(async () => {
             this.eventBus.emit<LowStockEvent>(EventNames.LOW_STOCK, {
               type: EventNames.LOW_STOCK,
-              channels: ['in-app'],
+              channels: ['in-app', 'email'],
               data: {
                 currentStock: vaccine.totalStock,
                 vaccineId: vaccine.id,
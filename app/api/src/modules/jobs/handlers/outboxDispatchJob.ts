@@ -0,0 +1,67 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { IEventBus } from '@modules/notifications';
+import { OUTBOX_DISPATCH_JOB_NAME } from '@shared/constants/cronJobs';
+import type { ICronJob } from '@shared/interfaces/cronJob';
+import cron from 'node-cron';
+import type { ScheduledTask } from 'node-cron';
+import pLimit from 'p-limit';
+import { inject, injectable } from 'tsyringe';
+
+/**
+ * Job that delivers events persisted in the outbox:
+ * - Events written inside a store transaction (enqueueOutboxEvent)
+ * - Failed deliveries whose backoff has elapsed
+ * - Replayed dead letters
+ * - Deliveries abandoned by a crash (lock older than OUTBOX_LOCK_TIMEOUT_MS)
+ */
+@injectable()
+export class OutboxDispatchJob implements ICronJob {
+  name: string;
+  task?: ScheduledTask;
+  schedule: string;
+  limit!: pLimit.Limit;
+
+  constructor(
+    @inject(TOKENS.IEventBus)
+    private eventBus: IEventBus,
+  ) {
+    this.name = OUTBOX_DISPATCH_JOB_NAME;
+    this.schedule = '*/10 * * * * *'; // Every 10 seconds
+    this.task = undefined;
+    this.initializePlimit();
+  }
+
+  initialize(): void {
+    if (!cron.validate(this.schedule)) {
+      throw new Error(`Invalid cron schedule: ${this.schedule}`);
+    }
+    this.task = cron.schedule(
+      this.schedule,
+      async () => {
+        await this.execute();
+      },
+      {
+        timezone: 'America/Sao_Paulo',
+      },
+    );
+  }
+
+  initializePlimit(): void {
+    this.limit = pLimit(5);
+  }
+
+  async execute(): Promise<void> {
+    try {
+      const processed = await this.eventBus.dispatchPending();
+
+      // Runs every few seconds, only log when there was work to do
+      if (processed > 0) {
+        console.log(
+          `OutboxDispatchJob executed successfully. Events processed: ${processed}.`,
+        );
+      }
+    } catch (error) {
+      console.error(`Error executing ${this.name}:`, error);
+    }
+  }
+}
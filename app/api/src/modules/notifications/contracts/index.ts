@@ -39,6 +39,8 @@ export type {
   NurseChangedEventData,
   VaccineAppliedEvent,
   VaccineAppliedEventData,
+  DoseReminderEvent,
+  DoseReminderEventData,
 } from '@shared/models/vaccineNotificationEvents';
 
 export type {
@@ -46,6 +48,8 @@ export type {
   BatchExpiringEventData,
   LowStockEvent,
   LowStockEventData,
+  BatchQuarantinedEvent,
+  BatchQuarantinedEventData,
 } from '@shared/models/batchNotificationEvents';
 
 export type {
@@ -53,5 +57,10 @@ export type {
   ReportGeneratedEventData,
 } from '@shared/models/reportNotificationEvents';
 
+export type {
+  SevereAdverseEventEvent,
+  SevereAdverseEventEventData,
+} from '@shared/models/adverseEventNotificationEvents';
+
 // Re-export event names
 export { EventNames, type EventName } from '@shared/constants/eventNames';
@@ -0,0 +1,115 @@
+/**
+ * DeadLetterController - HTTP request handler for dead letter endpoints
+ *
+ * Handles REST API requests for the event dead letter queue.
+ * Delegates business logic to DeadLetterService.
+ *
+ * Endpoints:
+ * - GET /dead-letters - List dead letters with pagination and filters
+ * - GET /dead-letters/:id - Get a dead letter with its payload
+ * - POST /dead-letters/:id/replay - Replay a dead letter
+ *
+ * All endpoints require authentication via authMiddleware.
+ * Authorization (MANAGER only) is enforced in the service layer.
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { DeadLetterService } from '@modules/notifications/services/DeadLetterService';
+import type { ListDeadLettersQuery } from '@modules/notifications/validators/listDeadLettersValidator';
+import type { NextFunction, Request, Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+
+@injectable()
+export class DeadLetterController {
+  constructor(
+    @inject(TOKENS.DeadLetterService)
+    private readonly deadLetterService: DeadLetterService,
+  ) {}
+
+  /**
+   * List dead letters
+   *
+   * @route GET /dead-letters
+   * @authentication Required (authMiddleware)
+   * @param req.query - Pagination and filter parameters
+   * @returns 200 with paginated dead letters
+   * @throws 403 ForbiddenError if user is not a MANAGER
+   */
+  listDeadLetters = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = req.user!.userId;
+      const { page, perPage, eventName, handlerName, replayed } =
+        req.query as unknown as ListDeadLettersQuery;
+
+      const result = await this.deadLetterService.getDeadLetters(
+        userId,
+        { page, perPage },
+        { eventName, handlerName, replayed },
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Get a single dead letter
+   *
+   * @route GET /dead-letters/:id
+   * @authentication Required (authMiddleware)
+   * @returns 200 with the dead letter
+   * @throws 403 ForbiddenError if user is not a MANAGER
+   * @throws 404 DeadLetterEventNotFoundError if it doesn't exist
+   */
+  getDeadLetter = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params as { id: string };
+
+      const deadLetter = await this.deadLetterService.getDeadLetter(id, userId);
+
+      res.status(200).json(deadLetter);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  /**
+   * Replay a dead letter
+   *
+   * @route POST /dead-letters/:id/replay
+   * @authentication Required (authMiddleware)
+   * @returns 202 with the dead letter marked as replayed
+   * @throws 403 ForbiddenError if user is not a MANAGER
+   * @throws 404 DeadLetterEventNotFoundError if it doesn't exist
+   * @throws 409 DeadLetterAlreadyReplayedError if it was already replayed
+   */
+  replayDeadLetter = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    try {
+      const userId = req.user!.userId;
+      const { id } = req.params as { id: string };
+
+      const deadLetter = await this.deadLetterService.replayDeadLetter(
+        id,
+        userId,
+      );
+
+      res.status(202).json(deadLetter);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
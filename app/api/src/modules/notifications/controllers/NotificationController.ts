@@ -8,20 +8,36 @@
  * - GET /notifications - List notifications with pagination and filters
  * - PATCH /notifications/:id/read - Mark a notification as read
  * - PATCH /notifications/read-all - Mark all notifications as read
+ * - GET /notifications/stream - Real-time notifications (Server-Sent Events)
  *
  * All endpoints require authentication via authMiddleware.
  * Authorization is enforced in the service layer.
  */
 
-import { injectable } from 'tsyringe';
+import { inject, injectable } from 'tsyringe';
 import type { Request, Response, NextFunction } from 'express';
+import { TOKENS } from '@infrastructure/di/tokens';
 import { NotificationService } from '@modules/notifications/services/NotificationService';
 import type { ListNotificationsQuery } from '@modules/notifications/validators/listNotificationsValidator';
 import type { NotificationIdParam } from '@modules/notifications/validators/idParamValidator';
+import type { StreamNotificationsQuery } from '@modules/notifications/validators/streamNotificationsValidator';
+import {
+  SSE_HEARTBEAT_INTERVAL_MS,
+  SSE_RETRY_MS,
+  formatSseComment,
+  formatSseMessage,
+} from '@shared/helpers/sseHelper';
+import type { NotificationStreamMessage } from '@shared/interfaces/notificationStream';
+import type { IUserSessionStore } from '@shared/interfaces/userSession';
+import type { Notification } from '@shared/models/notification';
 
 @injectable()
 export class NotificationController {
-  constructor(private readonly notificationService: NotificationService) {}
+  constructor(
+    private readonly notificationService: NotificationService,
+    @inject(TOKENS.IUserSessionStore)
+    private readonly userSessionStore: IUserSessionStore,
+  ) {}
 
   /**
    * List all notifications for the authenticated user
@@ -120,4 +136,156 @@ export class NotificationController {
       next(error);
     }
   };
+
+  /**
+   * Stream notification changes for the authenticated user
+   *
+   * Keeps the connection open and pushes:
+   * - `unread-count` on connection and whenever the count changes
+   * - `notification` for each notification created, with the notification
+   *   ID as event ID so the browser resumes from it (Last-Event-ID)
+   *
+   * A comment is sent every SSE_HEARTBEAT_INTERVAL_MS so proxies do not
+   * close idle connections. authMiddleware only checks the login session
+   * when the stream opens, so each heartbeat checks it again and ends the
+   * stream after logout or session revocation.
+   *
+   * @route GET /notifications/stream
+   * @authentication Required (authMiddleware, token may come from ?token=)
+   * @param req.headers.last-event-id - Last notification received (reconnection)
+   * @param req.query.lastEventId - Same as Last-Event-ID, for the first connection
+   * @returns 200 text/event-stream
+   */
+  stream = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    let unsubscribe: (() => void) | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe?.();
+    };
+
+    try {
+      const { userId, sid } = req.user!;
+      const { lastEventId } = req.query as unknown as StreamNotificationsQuery;
+      const resumeFrom = req.get('Last-Event-ID') || lastEventId;
+
+      // Buffer live messages until the initial state has been written,
+      // so a notification created meanwhile is not sent before older ones
+      const buffered: NotificationStreamMessage[] = [];
+      let ready = false;
+
+      const write = (message: NotificationStreamMessage) => {
+        if (message.type === 'notification') {
+          res.write(this.formatNotification(message.notification));
+          return;
+        }
+
+        res.write(
+          formatSseMessage({
+            event: 'unread-count',
+            data: { unreadCount: message.unreadCount },
+          }),
+        );
+      };
+
+      unsubscribe = this.notificationService.subscribe(userId, (message) => {
+        if (ready) {
+          write(message);
+        } else {
+          buffered.push(message);
+        }
+      });
+      req.on('close', close);
+
+      const [unreadCount, missed] = await Promise.all([
+        this.notificationService.getUnreadCount(userId),
+        resumeFrom
+          ? this.notificationService.getMissedNotifications(userId, resumeFrom)
+          : Promise.resolve([]),
+      ]);
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Disables response buffering in nginx
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+
+      res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+      const sentIds = new Set<string>();
+      for (const notification of missed) {
+        sentIds.add(notification.id);
+        res.write(this.formatNotification(notification));
+      }
+
+      write({ type: 'unread-count', unreadCount });
+
+      for (const message of buffered) {
+        if (
+          message.type === 'notification' &&
+          sentIds.has(message.notification.id)
+        ) {
+          continue;
+        }
+        write(message);
+      }
+      ready = true;
+
+      heartbeat = setInterval(async () => {
+        if (!(await this.isSessionActive(userId, sid))) {
+          close();
+          res.end();
+          return;
+        }
+
+        res.write(formatSseComment('heartbeat'));
+      }, SSE_HEARTBEAT_INTERVAL_MS);
+    } catch (error) {
+      close();
+
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+
+      next(error);
+    }
+  };
+
+  /**
+   * Whether the login session of a stream is still active
+   *
+   * A failed lookup keeps the stream open, the next heartbeat checks again.
+   */
+  private async isSessionActive(
+    userId: string,
+    sessionId: string,
+  ): Promise<boolean> {
+    try {
+      const session = await this.userSessionStore.findActiveById(sessionId);
+      return session?.userId === userId;
+    } catch (error) {
+      console.error(
+        `[NotificationController] Could not check session ${sessionId} of a notification stream:`,
+        error,
+      );
+      return true;
+    }
+  }
+
+  private formatNotification(notification: Notification): string {
+    return formatSseMessage({
+      id: notification.id,
+      event: 'notification',
+      data: notification,
+    });
+  }
 }
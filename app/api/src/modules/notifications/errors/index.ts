@@ -5,6 +5,8 @@
  * All errors extend a base AppError class with HTTP status codes.
  */
 
+import { AppError as OperationalError } from '@modules/user/errors';
+
 /**
  * Base application error
  * All custom errors in the application extend this class
@@ -94,3 +96,29 @@ export class EventHandlerError extends AppError {
     this.name = 'EventHandlerError';
   }
 }
+
+/**
+ * Dead letter event not found error
+ *
+ * Thrown when a manager tries to inspect or replay a dead letter that
+ * doesn't exist.
+ */
+export class DeadLetterEventNotFoundError extends OperationalError {
+  constructor(message = 'Dead letter event not found') {
+    super(message, 404);
+    this.name = 'DeadLetterEventNotFoundError';
+  }
+}
+
+/**
+ * Dead letter already replayed error
+ *
+ * Thrown when replaying a dead letter that was already replayed, so the
+ * same failed delivery is not enqueued twice.
+ */
+export class DeadLetterAlreadyReplayedError extends OperationalError {
+  constructor(message = 'Dead letter event was already replayed') {
+    super(message, 409);
+    this.name = 'DeadLetterAlreadyReplayedError';
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * EmailBatchExpiringHandler - Batch expiring email handler
+ *
+ * Sends an email to ALL managers when a batch is close to expiration.
+ *
+ * Triggered by:
+ * - BatchExpirationCheckJob
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import { getMailConfig } from '@infrastructure/mail';
+import type { BatchExpiringEvent } from '@modules/notifications/contracts';
+import type { IMailTransport } from '@shared/interfaces/mailTransport';
+import type { IUserStore } from '@shared/interfaces/user';
+import { inject, injectable } from 'tsyringe';
+import { buildBatchExpiringEmail } from '../templates';
+
+@injectable()
+export class EmailBatchExpiringHandler {
+  constructor(
+    @inject(TOKENS.IMailTransport)
+    private readonly mailTransport: IMailTransport,
+    @inject(TOKENS.IUserStore)
+    private readonly userStore: IUserStore,
+  ) {}
+
+  /**
+   * Handle batch expiring event
+   *
+   * Sends one email per manager. Errors are logged and rethrown
+   * so the event bus can retry the delivery.
+   */
+  async handle(event: BatchExpiringEvent): Promise<void> {
+    try {
+      // Only handle email notifications
+      if (!event.channels.includes('email')) {
+        return;
+      }
+
+      const managers = await this.userStore.findByRole('MANAGER');
+
+      if (managers.length === 0) {
+        console.warn('[EmailBatchExpiringHandler] No managers found to notify');
+        return;
+      }
+
+      const { webUrl } = getMailConfig();
+
+      await Promise.all(
+        managers.map((manager) =>
+          this.mailTransport.send({
+            to: manager.email,
+            ...buildBatchExpiringEmail(event.data, manager.name, webUrl),
+          }),
+        ),
+      );
+    } catch (error) {
+      console.error('[EmailBatchExpiringHandler] Error sending emails:', error);
+      throw error;
+    }
+  }
+}
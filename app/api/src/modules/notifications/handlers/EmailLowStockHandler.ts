@@ -0,0 +1,62 @@
+/**
+ * EmailLowStockHandler - Low stock email handler
+ *
+ * Sends an email to ALL managers when vaccine stock is low.
+ *
+ * Triggered by:
+ * - LowStockCheckJob
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import { getMailConfig } from '@infrastructure/mail';
+import type { LowStockEvent } from '@modules/notifications/contracts';
+import type { IMailTransport } from '@shared/interfaces/mailTransport';
+import type { IUserStore } from '@shared/interfaces/user';
+import { inject, injectable } from 'tsyringe';
+import { buildLowStockEmail } from '../templates';
+
+@injectable()
+export class EmailLowStockHandler {
+  constructor(
+    @inject(TOKENS.IMailTransport)
+    private readonly mailTransport: IMailTransport,
+    @inject(TOKENS.IUserStore)
+    private readonly userStore: IUserStore,
+  ) {}
+
+  /**
+   * Handle low stock event
+   *
+   * Sends one email per manager. Errors are logged and rethrown
+   * so the event bus can retry the delivery.
+   */
+  async handle(event: LowStockEvent): Promise<void> {
+    try {
+      // Only handle email notifications
+      if (!event.channels.includes('email')) {
+        return;
+      }
+
+      const managers = await this.userStore.findByRole('MANAGER');
+
+      if (managers.length === 0) {
+        console.warn('[EmailLowStockHandler] No managers found to notify');
+        return;
+      }
+
+      const { webUrl } = getMailConfig();
+
+      await Promise.all(
+        managers.map((manager) =>
+          this.mailTransport.send({
+            to: manager.email,
+            ...buildLowStockEmail(event.data, manager.name, webUrl),
+          }),
+        ),
+      );
+    } catch (error) {
+      console.error('[EmailLowStockHandler] Error sending emails:', error);
+      throw error;
+    }
+  }
+}
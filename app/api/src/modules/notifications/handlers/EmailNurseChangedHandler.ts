@@ -0,0 +1,93 @@
+/**
+ * EmailNurseChangedHandler - Nurse reassignment email handler
+ *
+ * Sends emails when a nurse is reassigned on a scheduling.
+ *
+ * Email recipients:
+ * - Patient - informed of the new nurse
+ * - Old nurse - informed they were removed
+ * - New nurse - informed of the new assignment
+ *
+ * Triggered by:
+ * - VaccineSchedulingService.update() (when nurseId changes)
+ * - NurseAssignmentService (automatic assignment, without an old nurse)
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import { getMailConfig } from '@infrastructure/mail';
+import type { NurseChangedEvent } from '@modules/notifications/contracts';
+import type { IMailTransport } from '@shared/interfaces/mailTransport';
+import type { IUserStore } from '@shared/interfaces/user';
+import type { IVaccineSchedulingStore } from '@shared/interfaces/vaccineScheduling';
+import { inject, injectable } from 'tsyringe';
+import {
+  buildNewNurseChangedEmail,
+  buildOldNurseChangedEmail,
+  buildPatientNurseChangedEmail,
+} from '../templates';
+
+@injectable()
+export class EmailNurseChangedHandler {
+  constructor(
+    @inject(TOKENS.IMailTransport)
+    private readonly mailTransport: IMailTransport,
+    @inject(TOKENS.IVaccineSchedulingStore)
+    private readonly vaccineSchedulingStore: IVaccineSchedulingStore,
+    @inject(TOKENS.IUserStore)
+    private readonly userStore: IUserStore,
+  ) {}
+
+  /**
+   * Handle nurse changed event
+   *
+   * Errors are logged and rethrown so the event bus can retry the delivery.
+   */
+  async handle(event: NurseChangedEvent): Promise<void> {
+    try {
+      // Only handle email notifications
+      if (!event.channels.includes('email')) {
+        return;
+      }
+
+      const { data } = event;
+
+      const [scheduling, oldNurse, newNurse] = await Promise.all([
+        this.vaccineSchedulingStore.findByIdWithRelations(data.schedulingId),
+        data.oldNurseId ? this.userStore.findById(data.oldNurseId) : null,
+        this.userStore.findById(data.newNurseId),
+      ]);
+
+      if (!scheduling || (data.oldNurseId && !oldNurse) || !newNurse) {
+        throw new Error(
+          `Scheduling or nurses not found for IDs provided. Data: ${JSON.stringify(data)}`,
+        );
+      }
+
+      const { webUrl } = getMailConfig();
+
+      await Promise.all([
+        this.mailTransport.send({
+          to: scheduling.user.email,
+          ...buildPatientNurseChangedEmail(
+            scheduling,
+            newNurse,
+            webUrl,
+            !oldNurse,
+          ),
+        }),
+        oldNurse &&
+          this.mailTransport.send({
+            to: oldNurse.email,
+            ...buildOldNurseChangedEmail(scheduling, oldNurse, webUrl),
+          }),
+        this.mailTransport.send({
+          to: newNurse.email,
+          ...buildNewNurseChangedEmail(scheduling, newNurse, webUrl),
+        }),
+      ]);
+    } catch (error) {
+      console.error('[EmailNurseChangedHandler] Error sending emails:', error);
+      throw error;
+    }
+  }
+}
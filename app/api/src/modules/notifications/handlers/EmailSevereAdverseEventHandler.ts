@@ -0,0 +1,67 @@
+/**
+ * EmailSevereAdverseEventHandler - Severe adverse event email handler
+ *
+ * Sends an email to ALL managers when a SEVERE adverse event is reported.
+ *
+ * Triggered by:
+ * - AdverseEventService when a SEVERE event is reported (via outbox)
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import { getMailConfig } from '@infrastructure/mail';
+import type { SevereAdverseEventEvent } from '@modules/notifications/contracts';
+import type { IMailTransport } from '@shared/interfaces/mailTransport';
+import type { IUserStore } from '@shared/interfaces/user';
+import { inject, injectable } from 'tsyringe';
+import { buildSevereAdverseEventEmail } from '../templates';
+
+@injectable()
+export class EmailSevereAdverseEventHandler {
+  constructor(
+    @inject(TOKENS.IMailTransport)
+    private readonly mailTransport: IMailTransport,
+    @inject(TOKENS.IUserStore)
+    private readonly userStore: IUserStore,
+  ) {}
+
+  /**
+   * Handle severe adverse event
+   *
+   * Sends one email per manager. Errors are logged and rethrown
+   * so the event bus can retry the delivery.
+   */
+  async handle(event: SevereAdverseEventEvent): Promise<void> {
+    try {
+      // Only handle email notifications
+      if (!event.channels.includes('email')) {
+        return;
+      }
+
+      const managers = await this.userStore.findByRole('MANAGER');
+
+      if (managers.length === 0) {
+        console.warn(
+          '[EmailSevereAdverseEventHandler] No managers found to notify',
+        );
+        return;
+      }
+
+      const { webUrl } = getMailConfig();
+
+      await Promise.all(
+        managers.map((manager) =>
+          this.mailTransport.send({
+            to: manager.email,
+            ...buildSevereAdverseEventEmail(event.data, manager.name, webUrl),
+          }),
+        ),
+      );
+    } catch (error) {
+      console.error(
+        '[EmailSevereAdverseEventHandler] Error sending emails:',
+        error,
+      );
+      throw error;
+    }
+  }
+}
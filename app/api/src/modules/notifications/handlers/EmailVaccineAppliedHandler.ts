@@ -0,0 +1,93 @@
+/**
+ * EmailVaccineAppliedHandler - Vaccine applied email handler
+ *
+ * Sends the patient an email confirming a vaccine application, so the
+ * record reaches them even if they don't open the web app.
+ *
+ * Email recipients:
+ * - Patient (receiver)
+ *
+ * Triggered by:
+ * - VaccineApplicationService.create()
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import { getMailConfig } from '@infrastructure/mail';
+import type { VaccineAppliedEvent } from '@modules/notifications/contracts';
+import type { IMailTransport } from '@shared/interfaces/mailTransport';
+import type { IUserStore } from '@shared/interfaces/user';
+import type { IVaccineStore } from '@shared/interfaces/vaccine';
+import type { IVaccineApplicationStore } from '@shared/interfaces/vaccineApplication';
+import type { IVaccineBatchStore } from '@shared/interfaces/vaccineBatch';
+import { inject, injectable } from 'tsyringe';
+import { buildVaccineAppliedEmail } from '../templates';
+
+@injectable()
+export class EmailVaccineAppliedHandler {
+  constructor(
+    @inject(TOKENS.IMailTransport)
+    private readonly mailTransport: IMailTransport,
+    @inject(TOKENS.IVaccineApplicationStore)
+    private readonly vaccineApplicationStore: IVaccineApplicationStore,
+    @inject(TOKENS.IVaccineStore)
+    private readonly vaccineStore: IVaccineStore,
+    @inject(TOKENS.IUserStore)
+    private readonly userStore: IUserStore,
+    @inject(TOKENS.IVaccineBatchStore)
+    private readonly vaccineBatchStore: IVaccineBatchStore,
+  ) {}
+
+  /**
+   * Handle vaccine applied event
+   *
+   * Errors are logged and rethrown so the event bus can retry the delivery.
+   */
+  async handle(event: VaccineAppliedEvent): Promise<void> {
+    try {
+      // Only handle email notifications
+      if (!event.channels.includes('email')) {
+        return;
+      }
+
+      const { data } = event;
+
+      const [application, batch, vaccine, receiver, applicator] =
+        await Promise.all([
+          this.vaccineApplicationStore.findById(data.applicationId),
+          this.vaccineBatchStore.findById(data.batchId),
+          this.vaccineStore.findById(data.vaccineId),
+          this.userStore.findById(data.receiverId),
+          this.userStore.findById(data.appliedById),
+        ]);
+
+      if (!application || !batch || !vaccine || !receiver || !applicator) {
+        console.error(
+          '[EmailVaccineAppliedHandler] Missing required entity for email:',
+          {
+            applicationMissing: !application,
+            batchMissing: !batch,
+            vaccineMissing: !vaccine,
+            receiverMissing: !receiver,
+            applicatorMissing: !applicator,
+          },
+        );
+        return;
+      }
+
+      await this.mailTransport.send({
+        to: receiver.email,
+        ...buildVaccineAppliedEmail(
+          receiver,
+          applicator,
+          application,
+          vaccine,
+          batch,
+          getMailConfig().webUrl,
+        ),
+      });
+    } catch (error) {
+      console.error('[EmailVaccineAppliedHandler] Error sending email:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * EmailVaccineScheduledHandler - Vaccine scheduled email handler
+ *
+ * Sends an email when a vaccine is scheduled.
+ * Like the in-app handler, each event targets a single user identified by userRole.
+ *
+ * Email recipients:
+ * - Patient (userRole: 'patient') - scheduling confirmation with date and dose
+ * - Nurse (userRole: 'nurse') - new assignment
+ *
+ * Triggered by:
+ * - VaccineSchedulingService.create() (emits parallel events for patient and nurse)
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import { getMailConfig } from '@infrastructure/mail';
+import type { VaccineScheduledEvent } from '@modules/notifications/contracts';
+import type { IMailTransport } from '@shared/interfaces/mailTransport';
+import { inject, injectable } from 'tsyringe';
+import {
+  buildNurseVaccineScheduledEmail,
+  buildPatientVaccineScheduledEmail,
+} from '../templates';
+
+@injectable()
+export class EmailVaccineScheduledHandler {
+  constructor(
+    @inject(TOKENS.IMailTransport)
+    private readonly mailTransport: IMailTransport,
+  ) {}
+
+  /**
+   * Handle vaccine scheduled event
+   *
+   * Errors are logged and rethrown so the event bus can retry the delivery.
+   */
+  async handle(event: VaccineScheduledEvent): Promise<void> {
+    try {
+      // Only handle email notifications
+      if (!event.channels.includes('email')) {
+        return;
+      }
+
+      const { data } = event;
+      const { webUrl } = getMailConfig();
+
+      if (data.userRole === 'patient') {
+        await this.mailTransport.send({
+          to: data.patientEmail,
+          ...buildPatientVaccineScheduledEmail(data, webUrl),
+        });
+      } else if (data.userRole === 'nurse') {
+        if (!data.nurseEmail || !data.nurseName) {
+          console.warn(
+            `[EmailVaccineScheduledHandler] Missing nurse information for schedulingId: ${data.schedulingId}`,
+          );
+          return;
+        }
+
+        await this.mailTransport.send({
+          to: data.nurseEmail,
+          ...buildNurseVaccineScheduledEmail(data, webUrl),
+        });
+      } else {
+        console.warn(
+          `[EmailVaccineScheduledHandler] Unknown userRole: ${data.userRole}`,
+        );
+      }
+    } catch (error) {
+      console.error(
+        '[EmailVaccineScheduledHandler] Error sending email:',
+        error,
+      );
+      throw error;
+    }
+  }
+}
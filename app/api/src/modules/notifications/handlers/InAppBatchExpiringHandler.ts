@@ -35,7 +35,7 @@ export class InAppBatchExpiringHandler {
    * Handle batch expiring event
    *
    * Fetches all managers and creates notifications for each.
-   * Errors are logged but don't throw to prevent event bus failures.
+   * Errors are logged and rethrown so the event bus can retry the delivery.
    */
   async handle(event: BatchExpiringEvent): Promise<void> {
     try {
@@ -86,12 +86,11 @@ export class InAppBatchExpiringHandler {
         ),
       );
     } catch (error) {
-      // Log error but don't throw - we don't want to break the event bus
       console.error(
         '[InAppBatchExpiringHandler] Error creating notifications:',
         error,
       );
-      // In production, use proper logger and maybe emit a monitoring event
+      throw error;
     }
   }
 }
@@ -0,0 +1,93 @@
+/**
+ * InAppBatchQuarantinedHandler - Batch quarantine/recall handler
+ *
+ * Creates in-app notifications when a batch is quarantined or recalled, so
+ * everyone who received a dose from it can be followed up.
+ *
+ * Notification recipients:
+ * - Every patient with a non-voided application from the batch (once each)
+ * - Patients whose schedulings were cancelled for lack of stock
+ *
+ * Triggered by:
+ * - VaccineBatchService quarantine/recall (via outbox)
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { INotificationStore } from '@modules/notifications/contracts';
+import type { BatchQuarantinedEvent } from '@modules/notifications/contracts';
+import type { IVaccineApplicationStore } from '@shared/interfaces/vaccineApplication';
+import { inject, injectable } from 'tsyringe';
+
+@injectable()
+export class InAppBatchQuarantinedHandler {
+  constructor(
+    @inject(TOKENS.INotificationStore)
+    private readonly notificationStore: INotificationStore,
+    @inject(TOKENS.IVaccineApplicationStore)
+    private readonly vaccineApplicationStore: IVaccineApplicationStore,
+  ) {}
+
+  /**
+   * Handle batch quarantined event
+   *
+   * Recipients are read when the event is handled, not when it is emitted.
+   * Errors are logged and rethrown so the event bus can retry the delivery.
+   */
+  async handle(event: BatchQuarantinedEvent): Promise<void> {
+    try {
+      // Only handle in-app notifications
+      if (!event.channels.includes('in-app')) {
+        return;
+      }
+
+      const { data } = event;
+      const isRecall = data.type === 'RECALL';
+
+      const recipients =
+        await this.vaccineApplicationStore.findRecipientsByBatchId(
+          data.batchId,
+        );
+      const recipientIds = [...new Set(recipients.map(({ user }) => user.id))];
+
+      const metadata = {
+        quarantineId: data.quarantineId,
+        quarantineType: data.type,
+        batchId: data.batchId,
+        batchNumber: data.batchNumber,
+        vaccineId: data.vaccineId,
+        vaccineName: data.vaccineName,
+      };
+
+      const recipientMessage = isRecall
+        ? `O lote ${data.batchNumber} da vacina ${data.vaccineName} (${data.manufacturer}), do qual você recebeu uma dose, foi recolhido. Motivo: ${data.reason}. A equipe de saúde entrará em contato para acompanhamento.`
+        : `O lote ${data.batchNumber} da vacina ${data.vaccineName} (${data.manufacturer}), do qual você recebeu uma dose, está em quarentena. Motivo: ${data.reason}. Informe qualquer reação à equipe de saúde.`;
+
+      await Promise.all([
+        ...recipientIds.map((userId) =>
+          this.notificationStore.create({
+            userId,
+            type: 'BATCH_RECALL',
+            title: isRecall ? 'Recolhimento de Lote' : 'Lote em Quarentena',
+            message: recipientMessage,
+            metadata,
+          }),
+        ),
+        ...data.cancelledSchedulings.map((scheduling) =>
+          this.notificationStore.create({
+            userId: scheduling.userId,
+            type: 'BATCH_RECALL',
+            title: 'Agendamento Cancelado',
+            message: `Seu agendamento da ${scheduling.doseNumber}ª dose de ${data.vaccineName} em ${new Date(scheduling.scheduledDate).toLocaleDateString('pt-BR')} foi cancelado por falta de estoque após ${isRecall ? 'o recolhimento' : 'a quarentena'} de um lote. Por favor, faça um novo agendamento.`,
+            metadata: { ...metadata, schedulingId: scheduling.id },
+          }),
+        ),
+      ]);
+    } catch (error) {
+      console.error(
+        '[InAppBatchQuarantinedHandler] Error creating notifications:',
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * InAppDoseReminderHandler - Dose reminder event handler
+ *
+ * Creates DOSE_REMINDER in-app notifications.
+ *
+ * Notification recipients:
+ * - Patient with an upcoming appointment (reminderType: 'scheduling')
+ * - Patient whose next dose is due (reminderType: 'dose_due')
+ *
+ * Triggered by:
+ * - DoseReminderJob
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import type {
+  DoseReminderEvent,
+  INotificationStore,
+} from '@modules/notifications/contracts';
+import { createDoseReminderNotification } from '@shared/helpers/notificationHelper';
+import { inject, injectable } from 'tsyringe';
+
+@injectable()
+export class InAppDoseReminderHandler {
+  constructor(
+    @inject(TOKENS.INotificationStore)
+    private readonly notificationStore: INotificationStore,
+  ) {}
+
+  /**
+   * Handle dose reminder event
+   *
+   * Errors are logged and rethrown so the event bus can retry the delivery.
+   */
+  async handle(event: DoseReminderEvent): Promise<void> {
+    try {
+      // Only handle in-app notifications
+      if (!event.channels.includes('in-app')) {
+        return;
+      }
+
+      await createDoseReminderNotification(this.notificationStore, event.data);
+    } catch (error) {
+      console.error(
+        '[InAppDoseReminderHandler] Error creating notification:',
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -35,7 +35,7 @@ export class InAppLowStockHandler {
    * Handle low stock event
    *
    * Fetches all managers and creates notifications for each.
-   * Errors are logged but don't throw to prevent event bus failures.
+   * Errors are logged and rethrown so the event bus can retry the delivery.
    */
   async handle(event: LowStockEvent): Promise<void> {
     try {
@@ -79,12 +79,11 @@ export class InAppLowStockHandler {
         ),
       );
     } catch (error) {
-      // Log error but don't throw - we don't want to break the event bus
       console.error(
         '[InAppLowStockHandler] Error creating notifications:',
         error,
       );
-      // In production, use proper logger and maybe emit a monitoring event
+      throw error;
     }
   }
 }
@@ -10,6 +10,7 @@
  *
  * Triggered by:
  * - VaccineSchedulingService.update() (when nurseId changes)
+ * - NurseAssignmentService (automatic assignment, without an old nurse)
  */
 
 import { TOKENS } from '@infrastructure/di/tokens';
@@ -35,7 +36,7 @@ export class InAppNurseChangedHandler {
    * Handle nurse changed event
    *
    * Creates notifications for all affected parties: patient, old nurse, new nurse.
-   * Errors are logged but don't throw to prevent event bus failures.
+   * Errors are logged and rethrown so the event bus can retry the delivery.
    */
   async handle(event: NurseChangedEvent): Promise<void> {
     try {
@@ -48,11 +49,11 @@ export class InAppNurseChangedHandler {
 
       const [scheduling, oldNurse, newNurse] = await Promise.all([
         this.vaccineSchedulingStore.findByIdWithRelations(data.schedulingId),
-        this.userStore.findById(data.oldNurseId),
+        data.oldNurseId ? this.userStore.findById(data.oldNurseId) : null,
         this.userStore.findById(data.newNurseId),
       ]);
 
-      if (!scheduling || !oldNurse || !newNurse) {
+      if (!scheduling || (data.oldNurseId && !oldNurse) || !newNurse) {
         throw new Error(
           `Scheduling or nurses not found for IDs provided. Data: ${JSON.stringify(data)}`,
         );
@@ -65,12 +66,11 @@ export class InAppNurseChangedHandler {
         newNurse,
       );
     } catch (error) {
-      // Log error but don't throw - we don't want to break the event bus
       console.error(
         '[InAppNurseChangedHandler] Error creating notifications:',
         error,
       );
-      // In production, use proper logger and maybe emit a monitoring event
+      throw error;
     }
   }
 }
@@ -27,7 +27,7 @@ export class InAppReportGeneratedHandler {
    * Handle report generated event
    *
    * Creates notification for report creator with download information.
-   * Errors are logged but don't throw to prevent event bus failures.
+   * Errors are logged and rethrown so the event bus can retry the delivery.
    */
   async handle(event: ReportGeneratedEvent): Promise<void> {
     try {
@@ -72,12 +72,11 @@ export class InAppReportGeneratedHandler {
         },
       });
     } catch (error) {
-      // Log error but don't throw - we don't want to break the event bus
       console.error(
         '[InAppReportGeneratedHandler] Error creating notification:',
         error,
       );
-      // In production, use proper logger and maybe emit a monitoring event
+      throw error;
     }
   }
 }
@@ -0,0 +1,84 @@
+/**
+ * InAppSevereAdverseEventHandler - Severe adverse event handler
+ *
+ * Creates in-app notifications for ALL managers when a SEVERE adverse
+ * event following immunization is reported, so the batch can be reviewed.
+ *
+ * Notification recipients:
+ * - All users with MANAGER role
+ *
+ * Triggered by:
+ * - AdverseEventService when a SEVERE event is reported (via outbox)
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { INotificationStore } from '@modules/notifications/contracts';
+import type { SevereAdverseEventEvent } from '@modules/notifications/contracts';
+import { formatAdverseEventSymptoms } from '@shared/constants/adverseEvents';
+import type { IUserStore } from '@shared/interfaces/user';
+import { inject, injectable } from 'tsyringe';
+
+@injectable()
+export class InAppSevereAdverseEventHandler {
+  constructor(
+    @inject(TOKENS.INotificationStore)
+    private readonly notificationStore: INotificationStore,
+    @inject(TOKENS.IUserStore)
+    private readonly userStore: IUserStore,
+  ) {}
+
+  /**
+   * Handle severe adverse event
+   *
+   * Fetches all managers and creates notifications for each.
+   * Errors are logged and rethrown so the event bus can retry the delivery.
+   */
+  async handle(event: SevereAdverseEventEvent): Promise<void> {
+    try {
+      // Only handle in-app notifications
+      if (!event.channels.includes('in-app')) {
+        return;
+      }
+
+      const { data } = event;
+
+      const managers = await this.userStore.findByRole('MANAGER');
+
+      if (managers.length === 0) {
+        console.warn(
+          '[InAppSevereAdverseEventHandler] No managers found to notify',
+        );
+        return;
+      }
+
+      const message = `Evento adverso grave após ${data.vaccineName} (${data.doseNumber}ª dose, lote ${data.batchNumber}) em ${data.patientName}. Sintomas: ${formatAdverseEventSymptoms(data.symptoms)}.`;
+
+      await Promise.all(
+        managers.map((manager) =>
+          this.notificationStore.create({
+            userId: manager.id,
+            type: 'ADVERSE_EVENT',
+            title: 'Evento Adverso Grave',
+            message,
+            metadata: {
+              adverseEventId: data.adverseEventId,
+              applicationId: data.applicationId,
+              vaccineId: data.vaccineId,
+              vaccineName: data.vaccineName,
+              batchId: data.batchId,
+              batchNumber: data.batchNumber,
+              severity: data.severity,
+              symptoms: data.symptoms,
+            },
+          }),
+        ),
+      );
+    } catch (error) {
+      console.error(
+        '[InAppSevereAdverseEventHandler] Error creating notifications:',
+        error,
+      );
+      throw error;
+    }
+  }
+}
@@ -50,7 +50,7 @@ export class InAppVaccineAppliedHandler {
    * Handle vaccine applied event
    *
    * Routes notification creation to the appropriate helper based on the event data
-   * (receiver/applicator). Errors are logged but not thrown to avoid breaking the event bus.
+   * (receiver/applicator). Errors are logged and rethrown so the event bus can retry the delivery.
    */
   async handle(event: VaccineAppliedEvent): Promise<void> {
     try {
@@ -102,6 +102,7 @@ export class InAppVaccineAppliedHandler {
         '[InAppVaccineAppliedHandler] Error creating notification:',
         error,
       );
+      throw error;
     }
   }
 }
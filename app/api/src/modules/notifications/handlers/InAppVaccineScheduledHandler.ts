@@ -34,7 +34,7 @@ export class InAppVaccineScheduledHandler {
    * Handle vaccine scheduled event
    *
    * Routes notification creation to the appropriate helper based on userRole.
-   * Errors are logged but don't throw to prevent event bus failures.
+   * Errors are logged and rethrown so the event bus can retry the delivery.
    */
   async handle(event: VaccineScheduledEvent): Promise<void> {
     try {
@@ -62,12 +62,11 @@ export class InAppVaccineScheduledHandler {
         );
       }
     } catch (error) {
-      // Log error but don't throw - we don't want to break the event bus
       console.error(
         '[InAppVaccineScheduledHandler] Error creating notification:',
         error,
       );
-      // In production, use proper logger and maybe emit a monitoring event
+      throw error;
     }
   }
 }
@@ -30,6 +30,7 @@ export { NotificationBootstrap } from './services/NotificationBootstrap';
 // Stores
 // ============================================
 export { NotificationStore } from './stores/NotificationStore';
+export { SentReminderStore } from './stores/SentReminderStore';
 
 // ============================================
 // Infrastructure
@@ -45,3 +46,9 @@ export { InAppNurseChangedHandler } from './handlers/InAppNurseChangedHandler';
 export { InAppBatchExpiringHandler } from './handlers/InAppBatchExpiringHandler';
 export { InAppLowStockHandler } from './handlers/InAppLowStockHandler';
 export { InAppReportGeneratedHandler } from './handlers/InAppReportGeneratedHandler';
+export { InAppDoseReminderHandler } from './handlers/InAppDoseReminderHandler';
+export { EmailVaccineScheduledHandler } from './handlers/EmailVaccineScheduledHandler';
+export { EmailNurseChangedHandler } from './handlers/EmailNurseChangedHandler';
+export { EmailVaccineAppliedHandler } from './handlers/EmailVaccineAppliedHandler';
+export { EmailBatchExpiringHandler } from './handlers/EmailBatchExpiringHandler';
+export { EmailLowStockHandler } from './handlers/EmailLowStockHandler';
@@ -0,0 +1,120 @@
+/**
+ * DeadLetterService - Business logic for the event dead letter queue
+ *
+ * Lets managers inspect deliveries that exhausted their retries and
+ * replay them once the cause (e.g. SMTP outage) is fixed.
+ *
+ * Business rules:
+ * - Requires the dead-letter:manage permission (MANAGER) to list, inspect or replay dead letters
+ * - A dead letter can be replayed only once; the replay enqueues a new
+ *   outbox event for the failed handler, delivered by OutboxDispatchJob
+ *
+ * Used by:
+ * - DeadLetterController (REST API endpoints)
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import {
+  DeadLetterAlreadyReplayedError,
+  DeadLetterEventNotFoundError,
+} from '@modules/notifications/errors';
+import type { UserService } from '@modules/user/services/userService';
+import { Permissions } from '@shared/constants/permissions';
+import type {
+  DeadLetterEventFilterParams,
+  IDeadLetterEventStore,
+} from '@shared/interfaces/outboxEvent';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+} from '@shared/interfaces/pagination';
+import type { DeadLetterEventWithRelations } from '@shared/models/outboxEvent';
+import { inject, injectable } from 'tsyringe';
+
+@injectable()
+export class DeadLetterService {
+  constructor(
+    @inject(TOKENS.IDeadLetterEventStore)
+    private readonly deadLetterEventStore: IDeadLetterEventStore,
+    @inject(TOKENS.UserService)
+    private readonly userService: UserService,
+  ) {}
+
+  /**
+   * Get paginated dead letters
+   *
+   * @param requestingUserId - ID of the manager
+   * @param params - Pagination parameters
+   * @param filters - Optional filters (eventName, handlerName, replayed)
+   * @throws ForbiddenError if requesting user lacks dead-letter:manage
+   */
+  async getDeadLetters(
+    requestingUserId: string,
+    params: PaginationParams,
+    filters?: DeadLetterEventFilterParams,
+  ): Promise<PaginatedResponse<DeadLetterEventWithRelations>> {
+    await this.userService.validatePermission(
+      requestingUserId,
+      Permissions.DEAD_LETTER_MANAGE,
+    );
+
+    return this.deadLetterEventStore.findPaginated(params, filters);
+  }
+
+  /**
+   * Get a single dead letter, including its payload and last error
+   *
+   * @throws ForbiddenError if requesting user lacks dead-letter:manage
+   * @throws DeadLetterEventNotFoundError if the dead letter doesn't exist
+   */
+  async getDeadLetter(
+    id: string,
+    requestingUserId: string,
+  ): Promise<DeadLetterEventWithRelations> {
+    await this.userService.validatePermission(
+      requestingUserId,
+      Permissions.DEAD_LETTER_MANAGE,
+    );
+
+    const deadLetter =
+      await this.deadLetterEventStore.findByIdWithRelations(id);
+
+    if (!deadLetter) {
+      throw new DeadLetterEventNotFoundError(
+        `Dead letter event with ID ${id} not found`,
+      );
+    }
+
+    return deadLetter;
+  }
+
+  /**
+   * Replay a dead letter
+   *
+   * @throws ForbiddenError if requesting user lacks dead-letter:manage
+   * @throws DeadLetterEventNotFoundError if the dead letter doesn't exist
+   * @throws DeadLetterAlreadyReplayedError if it was already replayed
+   */
+  async replayDeadLetter(
+    id: string,
+    requestingUserId: string,
+  ): Promise<DeadLetterEventWithRelations> {
+    const deadLetter = await this.getDeadLetter(id, requestingUserId);
+
+    if (deadLetter.replayedAt) {
+      throw new DeadLetterAlreadyReplayedError();
+    }
+
+    const replayed = await this.deadLetterEventStore.replay(
+      id,
+      requestingUserId,
+    );
+
+    // Another request replayed it between the check and the update
+    if (!replayed) {
+      throw new DeadLetterAlreadyReplayedError();
+    }
+
+    return replayed;
+  }
+}
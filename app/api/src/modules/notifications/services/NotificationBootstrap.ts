@@ -10,6 +10,17 @@
  * - BatchExpiringHandler → 'batch.expiring'
  * - LowStockHandler → 'stock.low'
  * - ReportGeneratedHandler → 'report.generated'
+ * - DoseReminderHandler → 'dose.reminder'
+ * - SevereAdverseEventHandler → 'adverse-event.severe'
+ * - BatchQuarantinedHandler → 'batch.quarantined'
+ *
+ * Email handlers (only act on events whose channels include 'email'):
+ * - EmailVaccineScheduledHandler → 'vaccine.scheduled'
+ * - EmailVaccineAppliedHandler → 'vaccine.applied'
+ * - EmailNurseChangedHandler → 'nurse.changed'
+ * - EmailBatchExpiringHandler → 'batch.expiring'
+ * - EmailLowStockHandler → 'stock.low'
+ * - EmailSevereAdverseEventHandler → 'adverse-event.severe'
  *
  * Usage:
  * After DI container is configured, call:
@@ -23,10 +34,19 @@ import { TOKENS } from '@infrastructure/di/tokens';
 import type { IEventBus } from '@modules/notifications/contracts';
 import { EventNames } from '@modules/notifications/contracts';
 import { inject, injectable } from 'tsyringe';
+import type { EmailBatchExpiringHandler } from '../handlers/EmailBatchExpiringHandler';
+import type { EmailLowStockHandler } from '../handlers/EmailLowStockHandler';
+import type { EmailNurseChangedHandler } from '../handlers/EmailNurseChangedHandler';
+import type { EmailSevereAdverseEventHandler } from '../handlers/EmailSevereAdverseEventHandler';
+import type { EmailVaccineAppliedHandler } from '../handlers/EmailVaccineAppliedHandler';
+import type { EmailVaccineScheduledHandler } from '../handlers/EmailVaccineScheduledHandler';
 import type { InAppBatchExpiringHandler } from '../handlers/InAppBatchExpiringHandler';
+import type { InAppBatchQuarantinedHandler } from '../handlers/InAppBatchQuarantinedHandler';
+import type { InAppDoseReminderHandler } from '../handlers/InAppDoseReminderHandler';
 import type { InAppLowStockHandler } from '../handlers/InAppLowStockHandler';
 import type { InAppNurseChangedHandler } from '../handlers/InAppNurseChangedHandler';
 import type { InAppReportGeneratedHandler } from '../handlers/InAppReportGeneratedHandler';
+import type { InAppSevereAdverseEventHandler } from '../handlers/InAppSevereAdverseEventHandler';
 import type { InAppVaccineAppliedHandler } from '../handlers/InAppVaccineAppliedHandler';
 import type { InAppVaccineScheduledHandler } from '../handlers/InAppVaccineScheduledHandler';
 
@@ -47,6 +67,24 @@ export class NotificationBootstrap {
     private readonly reportGeneratedHandler: InAppReportGeneratedHandler,
     @inject(TOKENS.VaccineAppliedHandler)
     private readonly vaccineAppliedHandler: InAppVaccineAppliedHandler,
+    @inject(TOKENS.DoseReminderHandler)
+    private readonly doseReminderHandler: InAppDoseReminderHandler,
+    @inject(TOKENS.SevereAdverseEventHandler)
+    private readonly severeAdverseEventHandler: InAppSevereAdverseEventHandler,
+    @inject(TOKENS.BatchQuarantinedHandler)
+    private readonly batchQuarantinedHandler: InAppBatchQuarantinedHandler,
+    @inject(TOKENS.EmailVaccineScheduledHandler)
+    private readonly emailVaccineScheduledHandler: EmailVaccineScheduledHandler,
+    @inject(TOKENS.EmailNurseChangedHandler)
+    private readonly emailNurseChangedHandler: EmailNurseChangedHandler,
+    @inject(TOKENS.EmailVaccineAppliedHandler)
+    private readonly emailVaccineAppliedHandler: EmailVaccineAppliedHandler,
+    @inject(TOKENS.EmailBatchExpiringHandler)
+    private readonly emailBatchExpiringHandler: EmailBatchExpiringHandler,
+    @inject(TOKENS.EmailLowStockHandler)
+    private readonly emailLowStockHandler: EmailLowStockHandler,
+    @inject(TOKENS.EmailSevereAdverseEventHandler)
+    private readonly emailSevereAdverseEventHandler: EmailSevereAdverseEventHandler,
   ) {}
 
   /**
@@ -56,6 +94,8 @@ export class NotificationBootstrap {
    * Should be called once during application startup (in setupContainer).
    *
    * IMPORTANT: Handler methods are bound to preserve 'this' context.
+   * Handler names are stored in outbox and dead letter rows to retry a
+   * single handler, so renaming one orphans its pending retries.
    */
   initialize(): void {
     console.log('[NotificationBootstrap] Initializing notification system...');
@@ -64,34 +104,107 @@ export class NotificationBootstrap {
     this.eventBus.on(
       EventNames.VACCINE_SCHEDULED,
       this.vaccineScheduledHandler.handle.bind(this.vaccineScheduledHandler),
+      'InAppVaccineScheduledHandler',
     );
 
     // Register vaccine applied events
     this.eventBus.on(
       EventNames.VACCINE_APPLIED,
       this.vaccineAppliedHandler.handle.bind(this.vaccineAppliedHandler),
+      'InAppVaccineAppliedHandler',
     );
 
     this.eventBus.on(
       EventNames.NURSE_CHANGED,
       this.nurseChangedHandler.handle.bind(this.nurseChangedHandler),
+      'InAppNurseChangedHandler',
+    );
+
+    // Register dose reminder events
+    this.eventBus.on(
+      EventNames.DOSE_REMINDER,
+      this.doseReminderHandler.handle.bind(this.doseReminderHandler),
+      'InAppDoseReminderHandler',
     );
 
     // Register batch/inventory events
     this.eventBus.on(
       EventNames.BATCH_EXPIRING,
       this.batchExpiringHandler.handle.bind(this.batchExpiringHandler),
+      'InAppBatchExpiringHandler',
     );
 
     this.eventBus.on(
       EventNames.LOW_STOCK,
       this.lowStockHandler.handle.bind(this.lowStockHandler),
+      'InAppLowStockHandler',
+    );
+
+    this.eventBus.on(
+      EventNames.BATCH_QUARANTINED,
+      this.batchQuarantinedHandler.handle.bind(this.batchQuarantinedHandler),
+      'InAppBatchQuarantinedHandler',
     );
 
     // Register report events
     this.eventBus.on(
       EventNames.REPORT_GENERATED,
       this.reportGeneratedHandler.handle.bind(this.reportGeneratedHandler),
+      'InAppReportGeneratedHandler',
+    );
+
+    // Register adverse event events
+    this.eventBus.on(
+      EventNames.SEVERE_ADVERSE_EVENT,
+      this.severeAdverseEventHandler.handle.bind(
+        this.severeAdverseEventHandler,
+      ),
+      'InAppSevereAdverseEventHandler',
+    );
+
+    // Register email handlers
+    this.eventBus.on(
+      EventNames.VACCINE_SCHEDULED,
+      this.emailVaccineScheduledHandler.handle.bind(
+        this.emailVaccineScheduledHandler,
+      ),
+      'EmailVaccineScheduledHandler',
+    );
+
+    this.eventBus.on(
+      EventNames.VACCINE_APPLIED,
+      this.emailVaccineAppliedHandler.handle.bind(
+        this.emailVaccineAppliedHandler,
+      ),
+      'EmailVaccineAppliedHandler',
+    );
+
+    this.eventBus.on(
+      EventNames.NURSE_CHANGED,
+      this.emailNurseChangedHandler.handle.bind(this.emailNurseChangedHandler),
+      'EmailNurseChangedHandler',
+    );
+
+    this.eventBus.on(
+      EventNames.BATCH_EXPIRING,
+      this.emailBatchExpiringHandler.handle.bind(
+        this.emailBatchExpiringHandler,
+      ),
+      'EmailBatchExpiringHandler',
+    );
+
+    this.eventBus.on(
+      EventNames.LOW_STOCK,
+      this.emailLowStockHandler.handle.bind(this.emailLowStockHandler),
+      'EmailLowStockHandler',
+    );
+
+    this.eventBus.on(
+      EventNames.SEVERE_ADVERSE_EVENT,
+      this.emailSevereAdverseEventHandler.handle.bind(
+        this.emailSevereAdverseEventHandler,
+      ),
+      'EmailSevereAdverseEventHandler',
     );
 
     console.log(
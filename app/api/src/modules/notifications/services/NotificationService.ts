@@ -9,7 +9,7 @@
  * - Authorization checks performed before sensitive operations
  *
  * Used by:
- * - NotificationController (REST API endpoints)
+ * - NotificationController (REST API endpoints and SSE stream)
  */
 
 import { TOKENS } from '@infrastructure/di/tokens';
@@ -18,6 +18,11 @@ import {
   NotificationNotFoundError,
   UnauthorizedNotificationAccessError,
 } from '@modules/notifications/errors';
+import { SSE_MAX_REPLAYED_EVENTS } from '@shared/helpers/sseHelper';
+import type {
+  INotificationStream,
+  NotificationStreamListener,
+} from '@shared/interfaces/notificationStream';
 import type {
   PaginatedResponse,
   PaginationParams,
@@ -33,6 +38,8 @@ export class NotificationService {
   constructor(
     @inject(TOKENS.INotificationStore)
     private readonly notificationStore: INotificationStore,
+    @inject(TOKENS.INotificationStream)
+    private readonly notificationStream: INotificationStream,
   ) {}
 
   /**
@@ -145,4 +152,33 @@ export class NotificationService {
   async clearReadNotifications(userId: string): Promise<number> {
     return this.notificationStore.deleteReadNotifications(userId);
   }
+
+  /**
+   * Listen to real-time changes of the user's notifications
+   *
+   * @param userId - User ID
+   * @param listener - Called for each new notification / unread count change
+   * @returns Function that stops listening
+   */
+  subscribe(userId: string, listener: NotificationStreamListener): () => void {
+    return this.notificationStream.subscribe(userId, listener);
+  }
+
+  /**
+   * Get the notifications a client missed while disconnected
+   *
+   * @param userId - User ID
+   * @param lastNotificationId - Last notification received (Last-Event-ID)
+   * @returns Up to SSE_MAX_REPLAYED_EVENTS notifications, oldest first
+   */
+  async getMissedNotifications(
+    userId: string,
+    lastNotificationId: string,
+  ): Promise<Notification[]> {
+    return this.notificationStore.findCreatedAfter(
+      userId,
+      lastNotificationId,
+      SSE_MAX_REPLAYED_EVENTS,
+    );
+  }
 }
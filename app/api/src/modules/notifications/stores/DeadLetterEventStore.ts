@@ -0,0 +1,134 @@
+/**
+ * DeadLetterEventStore - Prisma-based implementation of IDeadLetterEventStore
+ *
+ * Keeps the deliveries that exhausted their attempts so a manager can
+ * inspect and replay them.
+ */
+
+import type { Prisma } from '@infrastructure/database';
+import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
+import { getCurrentDate } from '@shared/helpers/timeHelper';
+import type {
+  DeadLetterEventFilterParams,
+  IDeadLetterEventStore,
+} from '@shared/interfaces/outboxEvent';
+import {
+  type PaginatedResponse,
+  type PaginationParams,
+  calculatePaginationMetadata,
+} from '@shared/interfaces/pagination';
+import type {
+  DeadLetterEvent,
+  DeadLetterEventCreateInput,
+  DeadLetterEventDelegate,
+  DeadLetterEventUpdateInput,
+  DeadLetterEventWithRelations,
+} from '@shared/models/outboxEvent';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+
+const deadLetterRelations = {
+  replayedBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+@injectable()
+export class DeadLetterEventStore
+  extends BaseStore<
+    DeadLetterEvent,
+    DeadLetterEventDelegate,
+    DeadLetterEventCreateInput,
+    DeadLetterEventUpdateInput
+  >
+  implements IDeadLetterEventStore
+{
+  protected readonly model = this.prisma.deadLetterEvent;
+
+  async findByIdWithRelations(
+    id: string,
+  ): Promise<DeadLetterEventWithRelations | null> {
+    return this.model.findUnique({
+      where: { id },
+      include: deadLetterRelations,
+    });
+  }
+
+  async findPaginated(
+    params: PaginationParams,
+    filters?: DeadLetterEventFilterParams,
+  ): Promise<PaginatedResponse<DeadLetterEventWithRelations>> {
+    const { page, perPage } = params;
+
+    const where: Prisma.DeadLetterEventWhereInput = {};
+
+    if (filters?.eventName) {
+      where.eventName = filters.eventName;
+    }
+
+    if (filters?.handlerName) {
+      where.handlerName = filters.handlerName;
+    }
+
+    if (filters?.replayed !== undefined) {
+      where.replayedAt = filters.replayed ? { not: null } : null;
+    }
+
+    const [data, total] = await Promise.all([
+      this.model.findMany({
+        where,
+        ...buildPaginationArgs(params),
+        include: deadLetterRelations,
+      }),
+      this.model.count({ where }),
+    ]);
+
+    const pagination = calculatePaginationMetadata(page, perPage, total);
+
+    return {
+      data,
+      pagination,
+    };
+  }
+
+  async replay(
+    id: string,
+    replayedById: string,
+  ): Promise<DeadLetterEventWithRelations | null> {
+    return this.prisma.$transaction(async (prisma) => {
+      // Conditional update so concurrent replays enqueue the event only once
+      const { count } = await prisma.deadLetterEvent.updateMany({
+        where: { id, replayedAt: null },
+        data: {
+          replayedAt: getCurrentDate(),
+          replayedById,
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const deadLetter = await prisma.deadLetterEvent.findUniqueOrThrow({
+        where: { id },
+        include: deadLetterRelations,
+      });
+
+      // A new outbox event targeting only the failed handler, so the other
+      // handlers of the original event are not executed twice
+      await prisma.outboxEvent.create({
+        data: {
+          eventName: deadLetter.eventName,
+          payload: deadLetter.payload as Prisma.InputJsonValue,
+          pendingHandlers: [deadLetter.handlerName],
+        },
+      });
+
+      return deadLetter;
+    });
+  }
+}
@@ -18,9 +18,16 @@
  * - markAllAsRead() - Bulk mark all as read for a user
  * - countUnread() - Count unread notifications
  * - deleteReadNotifications() - Bulk delete read notifications
+ * - findCreatedAfter() - Notifications created after another (SSE resume)
+ *
+ * Every write that creates a notification or changes the unread count is
+ * published to INotificationStream, so connected clients are updated in
+ * real time (GET /notifications/stream).
  */
 
-import { injectable } from 'tsyringe';
+import { inject, injectable } from 'tsyringe';
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { INotificationStream } from '@shared/interfaces/notificationStream';
 import { BaseStore } from '@shared/stores/baseStore';
 import type { INotificationStore } from '@shared/interfaces/notification';
 import type {
@@ -51,6 +58,84 @@ export class NotificationStore
 {
   protected readonly model = this.prisma.notification;
 
+  constructor(
+    @inject(TOKENS.INotificationStream)
+    private readonly notificationStream: INotificationStream,
+  ) {
+    super();
+  }
+
+  /**
+   * Create a notification and push it to the user's open streams
+   *
+   * @param data - Notification creation data
+   * @returns Created notification
+   */
+  async create(data: NotificationCreateInput): Promise<Notification> {
+    const notification = await super.create(data);
+
+    this.notificationStream.publish(notification.userId, {
+      type: 'notification',
+      notification,
+    });
+    await this.publishUnreadCount(notification.userId);
+
+    return notification;
+  }
+
+  /**
+   * Delete a notification (hard delete)
+   *
+   * @param id - Notification ID
+   * @returns Deleted notification
+   */
+  async delete(id: string): Promise<Notification> {
+    const notification = await super.delete(id);
+
+    if (!notification.isRead) {
+      await this.publishUnreadCount(notification.userId);
+    }
+
+    return notification;
+  }
+
+  /**
+   * Find notifications created after a given notification
+   *
+   * Used to resume a stream from the Last-Event-ID sent by the client.
+   *
+   * @param userId - User ID
+   * @param notificationId - Last notification received by the client
+   * @param limit - Maximum number of notifications returned
+   * @returns Notifications ordered by createdAt ASC (empty if the reference
+   * notification does not exist or belongs to another user)
+   */
+  async findCreatedAfter(
+    userId: string,
+    notificationId: string,
+    limit: number,
+  ): Promise<Notification[]> {
+    const reference = await this.model.findFirst({
+      where: { id: notificationId, userId },
+      select: { createdAt: true },
+    });
+
+    if (!reference) {
+      return [];
+    }
+
+    return this.model.findMany({
+      where: {
+        userId,
+        createdAt: { gt: reference.createdAt },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+      take: limit,
+    });
+  }
+
   /**
    * Find all notifications for a specific user with optional filters
    *
@@ -144,13 +229,17 @@ export class NotificationStore
    * @returns Updated notification
    */
   async markAsRead(id: string): Promise<Notification> {
-    return this.model.update({
+    const notification = await this.model.update({
       where: { id },
       data: {
         isRead: true,
         readAt: getCurrentDate(),
       },
     });
+
+    await this.publishUnreadCount(notification.userId);
+
+    return notification;
   }
 
   /**
@@ -171,6 +260,10 @@ export class NotificationStore
       },
     });
 
+    if (result.count) {
+      await this.publishUnreadCount(userId);
+    }
+
     return result.count;
   }
 
@@ -206,4 +299,26 @@ export class NotificationStore
 
     return result.count;
   }
+
+  /**
+   * Publish the current unread count of a user
+   *
+   * Failures are only logged: the write already succeeded and clients
+   * resync the count when they reconnect.
+   */
+  private async publishUnreadCount(userId: string): Promise<void> {
+    try {
+      const unreadCount = await this.countUnread(userId);
+
+      this.notificationStream.publish(userId, {
+        type: 'unread-count',
+        unreadCount,
+      });
+    } catch (error) {
+      console.error(
+        `[NotificationStore] Could not publish unread count for user ${userId}:`,
+        error,
+      );
+    }
+  }
 }
@@ -0,0 +1,153 @@
+/**
+ * OutboxEventStore - Prisma-based implementation of IOutboxEventStore
+ *
+ * Persists events published through the event bus so they survive crashes
+ * and can be retried. Delivery itself is done by NodeEventBus.
+ */
+
+import type { Prisma } from '@infrastructure/database';
+import { serializeEventPayload } from '@shared/helpers/outboxHelper';
+import { getCurrentDate } from '@shared/helpers/timeHelper';
+import type { IOutboxEventStore } from '@shared/interfaces/outboxEvent';
+import type {
+  HandlerFailure,
+  OutboxEvent,
+  OutboxEventCreateInput,
+  OutboxEventDelegate,
+  OutboxEventRetryInput,
+  OutboxEventUpdateInput,
+} from '@shared/models/outboxEvent';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+
+@injectable()
+export class OutboxEventStore
+  extends BaseStore<
+    OutboxEvent,
+    OutboxEventDelegate,
+    OutboxEventCreateInput,
+    OutboxEventUpdateInput
+  >
+  implements IOutboxEventStore
+{
+  protected readonly model = this.prisma.outboxEvent;
+
+  /**
+   * Creates an outbox event
+   *
+   * Events created as PROCESSING are delivered right away by the caller,
+   * so they are locked to keep the dispatcher from picking them up.
+   */
+  async create(data: OutboxEventCreateInput): Promise<OutboxEvent> {
+    return this.model.create({
+      data: {
+        eventName: data.eventName,
+        payload: serializeEventPayload(data.payload),
+        pendingHandlers: data.pendingHandlers ?? [],
+        status: data.status,
+        lockedAt: data.status === 'PROCESSING' ? getCurrentDate() : undefined,
+      },
+    });
+  }
+
+  /**
+   * Claims events ready for delivery
+   *
+   * Each candidate is locked with a conditional update, so when more than one
+   * dispatcher runs at the same time every event is claimed only once.
+   */
+  async claimDue(limit: number, staleBefore: Date): Promise<OutboxEvent[]> {
+    const now = getCurrentDate();
+    const claimable: Prisma.OutboxEventWhereInput = {
+      OR: [
+        { status: 'PENDING', nextAttemptAt: { lte: now } },
+        { status: 'PROCESSING', lockedAt: { lt: staleBefore } },
+      ],
+    };
+
+    const candidates = await this.model.findMany({
+      where: claimable,
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+      select: { id: true },
+    });
+
+    const claimed: OutboxEvent[] = [];
+
+    for (const { id } of candidates) {
+      const { count } = await this.model.updateMany({
+        where: { id, ...claimable },
+        data: { status: 'PROCESSING', lockedAt: now },
+      });
+
+      if (count === 1) {
+        const event = await this.model.findUnique({ where: { id } });
+        if (event) {
+          claimed.push(event);
+        }
+      }
+    }
+
+    return claimed;
+  }
+
+  async markProcessed(id: string, attempts: number): Promise<OutboxEvent> {
+    return this.model.update({
+      where: { id },
+      data: {
+        status: 'PROCESSED',
+        attempts,
+        pendingHandlers: [],
+        lastError: null,
+        lockedAt: null,
+        processedAt: getCurrentDate(),
+      },
+    });
+  }
+
+  async scheduleRetry(
+    id: string,
+    data: OutboxEventRetryInput,
+  ): Promise<OutboxEvent> {
+    return this.model.update({
+      where: { id },
+      data: {
+        status: 'PENDING',
+        attempts: data.attempts,
+        pendingHandlers: data.pendingHandlers,
+        lastError: data.lastError,
+        nextAttemptAt: data.nextAttemptAt,
+        lockedAt: null,
+      },
+    });
+  }
+
+  async moveToDeadLetter(
+    event: OutboxEvent,
+    failures: HandlerFailure[],
+    attempts: number,
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.model.update({
+        where: { id: event.id },
+        data: {
+          status: 'DEAD_LETTERED',
+          attempts,
+          pendingHandlers: failures.map((failure) => failure.handlerName),
+          lastError: failures.map((failure) => failure.error).join('; '),
+          lockedAt: null,
+        },
+      }),
+      this.prisma.deadLetterEvent.createMany({
+        data: failures.map((failure) => ({
+          eventName: event.eventName,
+          handlerName: failure.handlerName,
+          payload: event.payload as Prisma.InputJsonValue,
+          error: failure.error,
+          attempts,
+          outboxEventId: event.id,
+        })),
+      }),
+    ]);
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * SentReminderStore - Prisma-based implementation of ISentReminderStore
+ *
+ * Keeps track of reminders already delivered by DoseReminderJob.
+ */
+
+import type { ISentReminderStore } from '@shared/interfaces/sentReminder';
+import type {
+  SentReminder,
+  SentReminderCreateInput,
+  SentReminderDelegate,
+  SentReminderUpdateInput,
+} from '@shared/models/sentReminder';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+
+@injectable()
+export class SentReminderStore
+  extends BaseStore<
+    SentReminder,
+    SentReminderDelegate,
+    SentReminderCreateInput,
+    SentReminderUpdateInput
+  >
+  implements ISentReminderStore
+{
+  protected readonly model = this.prisma.sentReminder;
+
+  /**
+   * Registers the reminder key unless it already exists
+   *
+   * skipDuplicates turns the insert into ON CONFLICT DO NOTHING, so the
+   * returned count tells whether this call claimed the reminder.
+   */
+  async registerIfAbsent(
+    reminderKey: string,
+    userId: string,
+  ): Promise<boolean> {
+    const result = await this.model.createMany({
+      data: [{ reminderKey, userId }],
+      skipDuplicates: true,
+    });
+
+    return result.count === 1;
+  }
+}
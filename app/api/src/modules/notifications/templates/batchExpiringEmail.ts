@@ -0,0 +1,34 @@
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { EmailContent } from '@shared/interfaces/mailTransport';
+import type { BatchExpiringEventData } from '@shared/models/batchNotificationEvents';
+import { renderEmail } from './layout';
+
+/**
+ * Email sent to managers when a batch is close to its expiration date
+ */
+export const buildBatchExpiringEmail = (
+  data: BatchExpiringEventData,
+  managerName: string,
+  webUrl: string,
+): EmailContent =>
+  renderEmail({
+    subject: `Lote próximo ao vencimento: ${data.batchNumber} (${data.vaccineName})`,
+    title: 'Lote Próximo ao Vencimento',
+    recipientName: managerName,
+    paragraphs: [
+      `O lote ${data.batchNumber} da vacina ${data.vaccineName} vence em ${data.daysUntilExpiration} dia(s). Priorize o uso das doses restantes.`,
+    ],
+    details: [
+      { label: 'Vacina', value: `${data.vaccineName} (${data.manufacturer})` },
+      { label: 'Lote', value: data.batchNumber },
+      {
+        label: 'Vencimento',
+        value: formatDate(data.expirationDate, 'DD/MM/YYYY'),
+      },
+      { label: 'Doses restantes', value: String(data.currentQuantity) },
+    ],
+    action: {
+      label: 'Ver vacina',
+      url: `${webUrl}/vaccines/${data.vaccineId}`,
+    },
+  });
@@ -0,0 +1,16 @@
+export { renderEmail, escapeHtml } from './layout';
+export {
+  buildPatientVaccineScheduledEmail,
+  buildNurseVaccineScheduledEmail,
+} from './vaccineScheduledEmail';
+export {
+  buildPatientNurseChangedEmail,
+  buildOldNurseChangedEmail,
+  buildNewNurseChangedEmail,
+} from './nurseChangedEmail';
+export { buildVaccineAppliedEmail } from './vaccineAppliedEmail';
+export { buildLowStockEmail } from './lowStockEmail';
+export { buildBatchExpiringEmail } from './batchExpiringEmail';
+export { buildSevereAdverseEventEmail } from './severeAdverseEventEmail';
+export { buildPasswordResetEmail } from './passwordResetEmail';
+export { buildInvitationEmail } from './invitationEmail';
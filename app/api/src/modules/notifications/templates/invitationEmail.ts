@@ -0,0 +1,38 @@
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { InvitationNotification } from '@shared/interfaces/invitationNotifier';
+import type { EmailContent } from '@shared/interfaces/mailTransport';
+import type { UserRole } from '@shared/models/user';
+import { renderEmail } from './layout';
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  EMPLOYEE: 'Funcionário',
+  NURSE: 'Enfermeiro',
+  MANAGER: 'Gerente',
+};
+
+/**
+ * Email with the invite link (sent on POST /invitations)
+ */
+export const buildInvitationEmail = (
+  notification: InvitationNotification,
+): EmailContent =>
+  renderEmail({
+    subject: 'Convite para o Univas Enfermagem',
+    title: 'Você foi convidado',
+    recipientName: notification.email,
+    paragraphs: [
+      `${notification.invitedByName} convidou você para criar uma conta no sistema. Use o link abaixo para completar seu cadastro. O link só pode ser usado uma vez.`,
+      'Se você não esperava este convite, ignore este email.',
+    ],
+    details: [
+      { label: 'Função', value: ROLE_LABELS[notification.role] },
+      {
+        label: 'Válido até',
+        value: formatDate(notification.expiresAt, 'DD/MM/YYYY HH:mm'),
+      },
+    ],
+    action: {
+      label: 'Criar conta',
+      url: notification.inviteUrl,
+    },
+  });
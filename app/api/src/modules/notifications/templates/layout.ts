@@ -0,0 +1,118 @@
+/**
+ * Email layout
+ *
+ * Renders the HTML and plain text versions of an email from the same
+ * structured content, so every template keeps both versions in sync.
+ * All values are escaped before being placed in the HTML.
+ */
+
+import type { EmailContent } from '@shared/interfaces/mailTransport';
+
+export interface EmailDetail {
+  label: string;
+  value: string;
+}
+
+export interface EmailAction {
+  label: string;
+  url: string;
+}
+
+export interface EmailLayoutParams {
+  subject: string;
+  title: string;
+  recipientName: string;
+  paragraphs: string[];
+  details?: EmailDetail[];
+  action?: EmailAction;
+}
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderHtml = (params: EmailLayoutParams): string => {
+  const paragraphs = params.paragraphs
+    .map(
+      (paragraph) =>
+        `<p style="margin:0 0 16px;color:#374151;font-size:15px;line-height:22px;">${escapeHtml(paragraph)}</p>`,
+    )
+    .join('');
+
+  const details = params.details?.length
+    ? `<table role="presentation" width="100%" style="border-collapse:collapse;margin:0 0 24px;">${params.details
+        .map(
+          (detail) =>
+            `<tr><td style="padding:8px 12px;border-bottom:1px solid #e5e7eb;color:#6b7280;font-size:14px;">${escapeHtml(detail.label)}</td><td style="padding:8px 12px;border-bottom:1px solid #e5e7eb;color:#111827;font-size:14px;font-weight:600;">${escapeHtml(detail.value)}</td></tr>`,
+        )
+        .join('')}</table>`
+    : '';
+
+  const action = params.action
+    ? `<p style="margin:0 0 24px;"><a href="${escapeHtml(params.action.url)}" style="display:inline-block;padding:12px 20px;background:#2563eb;color:#ffffff;border-radius:6px;text-decoration:none;font-weight:600;font-size:14px;">${escapeHtml(params.action.label)}</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(params.subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;">
+<table role="presentation" width="100%" style="border-collapse:collapse;background:#f3f4f6;padding:24px 0;">
+<tr><td align="center">
+<table role="presentation" width="600" style="border-collapse:collapse;background:#ffffff;border-radius:8px;overflow:hidden;">
+<tr><td style="background:#2563eb;padding:20px 24px;color:#ffffff;font-size:18px;font-weight:700;">Univas Enfermagem</td></tr>
+<tr><td style="padding:24px;">
+<h1 style="margin:0 0 16px;color:#111827;font-size:20px;">${escapeHtml(params.title)}</h1>
+<p style="margin:0 0 16px;color:#374151;font-size:15px;">Olá, ${escapeHtml(params.recipientName)}!</p>
+${paragraphs}
+${details}
+${action}
+</td></tr>
+<tr><td style="padding:16px 24px;background:#f9fafb;color:#9ca3af;font-size:12px;">Este é um e-mail automático, por favor não responda.</td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`;
+};
+
+const renderText = (params: EmailLayoutParams): string => {
+  const lines = [
+    params.title,
+    '',
+    `Olá, ${params.recipientName}!`,
+    '',
+    ...params.paragraphs.flatMap((paragraph) => [paragraph, '']),
+  ];
+
+  if (params.details?.length) {
+    lines.push(
+      ...params.details.map((detail) => `${detail.label}: ${detail.value}`),
+      '',
+    );
+  }
+
+  if (params.action) {
+    lines.push(`${params.action.label}: ${params.action.url}`, '');
+  }
+
+  lines.push('Este é um e-mail automático, por favor não responda.');
+
+  return lines.join('\n');
+};
+
+/**
+ * Builds the final email content (subject + HTML + text)
+ */
+export const renderEmail = (params: EmailLayoutParams): EmailContent => ({
+  subject: params.subject,
+  html: renderHtml(params),
+  text: renderText(params),
+});
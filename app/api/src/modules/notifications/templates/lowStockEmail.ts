@@ -0,0 +1,30 @@
+import type { EmailContent } from '@shared/interfaces/mailTransport';
+import type { LowStockEventData } from '@shared/models/batchNotificationEvents';
+import { renderEmail } from './layout';
+
+/**
+ * Email sent to managers when a vaccine reaches its minimum stock level
+ */
+export const buildLowStockEmail = (
+  data: LowStockEventData,
+  managerName: string,
+  webUrl: string,
+): EmailContent =>
+  renderEmail({
+    subject: `Estoque baixo: ${data.vaccineName}`,
+    title: 'Estoque Baixo',
+    recipientName: managerName,
+    paragraphs: [
+      `O estoque da vacina ${data.vaccineName} (${data.manufacturer}) está no nível mínimo ou abaixo dele. Providencie a reposição.`,
+    ],
+    details: [
+      { label: 'Vacina', value: `${data.vaccineName} (${data.manufacturer})` },
+      { label: 'Estoque atual', value: `${data.currentStock} doses` },
+      { label: 'Estoque mínimo', value: `${data.minStockLevel} doses` },
+      { label: 'Percentual do mínimo', value: `${data.stockPercentage}%` },
+    ],
+    action: {
+      label: 'Ver vacina',
+      url: `${webUrl}/vaccines/${data.vaccineId}`,
+    },
+  });
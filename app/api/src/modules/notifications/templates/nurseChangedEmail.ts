@@ -0,0 +1,79 @@
+import type { User } from '@infrastructure/database';
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { EmailContent } from '@shared/interfaces/mailTransport';
+import type { VaccineSchedulingWithRelations } from '@shared/models/vaccineScheduling';
+import { type EmailDetail, renderEmail } from './layout';
+
+const buildSchedulingDetails = (
+  scheduling: VaccineSchedulingWithRelations,
+): EmailDetail[] => [
+  { label: 'Paciente', value: scheduling.user.name },
+  { label: 'Vacina', value: scheduling.vaccine.name },
+  { label: 'Dose', value: `${scheduling.doseNumber}ª dose` },
+  {
+    label: 'Data',
+    value: formatDate(scheduling.scheduledDate, 'DD/MM/YYYY HH:mm'),
+  },
+];
+
+/**
+ * Email sent to the patient when the responsible nurse changes, or is
+ * assigned for the first time (firstAssignment)
+ */
+export const buildPatientNurseChangedEmail = (
+  scheduling: VaccineSchedulingWithRelations,
+  newNurse: User,
+  webUrl: string,
+  firstAssignment = false,
+): EmailContent =>
+  renderEmail({
+    subject: `${firstAssignment ? 'Enfermeiro(a) designado(a)' : 'Alteração de enfermeiro(a)'}: ${scheduling.vaccine.name}`,
+    title: firstAssignment
+      ? 'Enfermeiro(a) Designado(a)'
+      : 'Alteração de Enfermagem',
+    recipientName: scheduling.user.name,
+    paragraphs: [
+      firstAssignment
+        ? `O(a) enfermeiro(a) ${newNurse.name} foi designado(a) para a aplicação da sua vacina.`
+        : `O(a) enfermeiro(a) responsável pela aplicação da sua vacina foi alterado(a). O novo responsável é ${newNurse.name}.`,
+      'A data e o horário do agendamento continuam os mesmos.',
+    ],
+    details: buildSchedulingDetails(scheduling),
+    action: { label: 'Ver meus agendamentos', url: `${webUrl}/schedulings` },
+  });
+
+/**
+ * Email sent to the nurse removed from a scheduling
+ */
+export const buildOldNurseChangedEmail = (
+  scheduling: VaccineSchedulingWithRelations,
+  oldNurse: User,
+  webUrl: string,
+): EmailContent =>
+  renderEmail({
+    subject: `Remoção de agendamento: ${scheduling.vaccine.name} - ${scheduling.user.name}`,
+    title: 'Remoção de Agendamento',
+    recipientName: oldNurse.name,
+    paragraphs: ['Você foi removido(a) do agendamento abaixo.'],
+    details: buildSchedulingDetails(scheduling),
+    action: { label: 'Ver minha agenda', url: `${webUrl}/nurse-schedule` },
+  });
+
+/**
+ * Email sent to the nurse newly assigned to a scheduling
+ */
+export const buildNewNurseChangedEmail = (
+  scheduling: VaccineSchedulingWithRelations,
+  newNurse: User,
+  webUrl: string,
+): EmailContent =>
+  renderEmail({
+    subject: `Novo agendamento: ${scheduling.vaccine.name} - ${scheduling.user.name}`,
+    title: 'Novo Agendamento',
+    recipientName: newNurse.name,
+    paragraphs: [
+      `Você foi designado(a) para aplicar a vacina ${scheduling.vaccine.name} em ${scheduling.user.name}.`,
+    ],
+    details: buildSchedulingDetails(scheduling),
+    action: { label: 'Ver minha agenda', url: `${webUrl}/nurse-schedule` },
+  });
@@ -0,0 +1,30 @@
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { EmailContent } from '@shared/interfaces/mailTransport';
+import type { PasswordResetNotification } from '@shared/interfaces/passwordResetNotifier';
+import { renderEmail } from './layout';
+
+/**
+ * Email with the password reset link (sent on POST /auth/forgot-password)
+ */
+export const buildPasswordResetEmail = (
+  notification: PasswordResetNotification,
+): EmailContent =>
+  renderEmail({
+    subject: 'Redefinição de senha',
+    title: 'Redefinição de Senha',
+    recipientName: notification.name,
+    paragraphs: [
+      'Recebemos uma solicitação para redefinir a senha da sua conta. Use o link abaixo para escolher uma nova senha. O link só pode ser usado uma vez.',
+      'Se você não fez essa solicitação, ignore este email: sua senha continua a mesma.',
+    ],
+    details: [
+      {
+        label: 'Válido até',
+        value: formatDate(notification.expiresAt, 'DD/MM/YYYY HH:mm'),
+      },
+    ],
+    action: {
+      label: 'Redefinir senha',
+      url: notification.resetUrl,
+    },
+  });
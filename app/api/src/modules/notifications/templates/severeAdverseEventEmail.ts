@@ -0,0 +1,44 @@
+import {
+  ADVERSE_EVENT_OUTCOME_LABELS,
+  formatAdverseEventSymptoms,
+} from '@shared/constants/adverseEvents';
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { EmailContent } from '@shared/interfaces/mailTransport';
+import type { SevereAdverseEventEventData } from '@shared/models/adverseEventNotificationEvents';
+import { renderEmail } from './layout';
+
+/**
+ * Email sent to managers when a severe adverse event is reported
+ */
+export const buildSevereAdverseEventEmail = (
+  data: SevereAdverseEventEventData,
+  managerName: string,
+  webUrl: string,
+): EmailContent =>
+  renderEmail({
+    subject: `Evento adverso grave: ${data.vaccineName} (lote ${data.batchNumber})`,
+    title: 'Evento Adverso Grave',
+    recipientName: managerName,
+    paragraphs: [
+      `Um evento adverso grave foi notificado após a aplicação da vacina ${data.vaccineName}. Avalie a necessidade de suspender o uso do lote ${data.batchNumber}.`,
+    ],
+    details: [
+      { label: 'Paciente', value: data.patientName },
+      {
+        label: 'Vacina',
+        value: `${data.vaccineName} - ${data.doseNumber}ª dose`,
+      },
+      { label: 'Lote', value: data.batchNumber },
+      { label: 'Sintomas', value: formatAdverseEventSymptoms(data.symptoms) },
+      {
+        label: 'Início dos sintomas',
+        value: formatDate(data.onsetAt, 'DD/MM/YYYY HH:mm'),
+      },
+      { label: 'Evolução', value: ADVERSE_EVENT_OUTCOME_LABELS[data.outcome] },
+      { label: 'Notificado por', value: data.reportedByName },
+    ],
+    action: {
+      label: 'Ver vacina',
+      url: `${webUrl}/vaccines/${data.vaccineId}`,
+    },
+  });
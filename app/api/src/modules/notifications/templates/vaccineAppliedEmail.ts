@@ -0,0 +1,44 @@
+import type { User } from '@infrastructure/database';
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { EmailContent } from '@shared/interfaces/mailTransport';
+import type { Vaccine } from '@shared/models/vaccine';
+import type { VaccineApplication } from '@shared/models/vaccineApplication';
+import type { VaccineBatch } from '@shared/models/vaccineBatch';
+import { renderEmail } from './layout';
+
+/**
+ * Email sent to the patient after a vaccine is applied
+ */
+export const buildVaccineAppliedEmail = (
+  receiver: User,
+  applicator: User,
+  application: VaccineApplication,
+  vaccine: Vaccine,
+  batch: VaccineBatch,
+  webUrl: string,
+): EmailContent =>
+  renderEmail({
+    subject: `Vacina aplicada: ${vaccine.name}`,
+    title: 'Vacina Aplicada',
+    recipientName: receiver.name,
+    paragraphs: [
+      'A aplicação da vacina abaixo foi registrada no seu cartão de vacinação.',
+    ],
+    details: [
+      { label: 'Vacina', value: `${vaccine.name} (${vaccine.manufacturer})` },
+      {
+        label: 'Dose',
+        value: `${application.doseNumber}ª de ${vaccine.dosesRequired}`,
+      },
+      {
+        label: 'Data',
+        value: formatDate(application.applicationDate, 'DD/MM/YYYY HH:mm'),
+      },
+      { label: 'Lote', value: batch.batchNumber },
+      { label: 'Aplicado por', value: applicator.name },
+    ],
+    action: {
+      label: 'Ver cartão de vacinação',
+      url: `${webUrl}/vaccination-card`,
+    },
+  });
@@ -0,0 +1,58 @@
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { EmailContent } from '@shared/interfaces/mailTransport';
+import type { VaccineScheduledEventData } from '@shared/models/vaccineNotificationEvents';
+import { renderEmail } from './layout';
+
+/**
+ * Email sent to the patient when a vaccine is scheduled
+ */
+export const buildPatientVaccineScheduledEmail = (
+  data: VaccineScheduledEventData,
+  webUrl: string,
+): EmailContent =>
+  renderEmail({
+    subject: `Vacina agendada: ${data.vaccineName}`,
+    title: 'Vacina Agendada',
+    recipientName: data.patientName,
+    paragraphs: [
+      'Sua vacinação foi agendada. Compareça no horário marcado para receber a dose.',
+    ],
+    details: [
+      { label: 'Vacina', value: data.vaccineName },
+      { label: 'Dose', value: `${data.doseNumber}ª dose` },
+      {
+        label: 'Data',
+        value: formatDate(data.scheduledDate, 'DD/MM/YYYY HH:mm'),
+      },
+      ...(data.nurseName
+        ? [{ label: 'Enfermeiro(a)', value: data.nurseName }]
+        : []),
+    ],
+    action: { label: 'Ver meus agendamentos', url: `${webUrl}/schedulings` },
+  });
+
+/**
+ * Email sent to the nurse assigned to a new scheduling
+ */
+export const buildNurseVaccineScheduledEmail = (
+  data: VaccineScheduledEventData,
+  webUrl: string,
+): EmailContent =>
+  renderEmail({
+    subject: `Novo agendamento: ${data.vaccineName} - ${data.patientName}`,
+    title: 'Novo Agendamento',
+    recipientName: data.nurseName ?? '',
+    paragraphs: [
+      `Você foi designado(a) para aplicar a vacina ${data.vaccineName} em ${data.patientName}.`,
+    ],
+    details: [
+      { label: 'Paciente', value: data.patientName },
+      { label: 'Vacina', value: data.vaccineName },
+      { label: 'Dose', value: `${data.doseNumber}ª dose` },
+      {
+        label: 'Data',
+        value: formatDate(data.scheduledDate, 'DD/MM/YYYY HH:mm'),
+      },
+    ],
+    action: { label: 'Ver minha agenda', url: `${webUrl}/nurse-schedule` },
+  });
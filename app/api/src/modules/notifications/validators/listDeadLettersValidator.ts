@@ -0,0 +1,34 @@
+import { EventNames } from '@shared/constants/eventNames';
+import { z } from 'zod';
+
+/**
+ * Schema for validating query parameters when listing dead letter events
+ * Validates pagination params (page, perPage) and optional filters
+ * (eventName, handlerName, replayed)
+ */
+export const ListDeadLettersQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .default('1')
+    .transform((val) => Number.parseInt(val, 10))
+    .refine((val) => val >= 1, {
+      message: 'Page must be at least 1',
+    }),
+  perPage: z
+    .string()
+    .optional()
+    .default('10')
+    .transform((val) => Number.parseInt(val, 10))
+    .refine((val) => val >= 1 && val <= 100, {
+      message: 'PerPage must be between 1 and 100',
+    }),
+  eventName: z.enum(EventNames).optional(),
+  handlerName: z.string().trim().min(1).optional(),
+  replayed: z
+    .enum(['true', 'false'])
+    .optional()
+    .transform((val) => (val === undefined ? undefined : val === 'true')),
+});
+
+export type ListDeadLettersQuery = z.infer<typeof ListDeadLettersQuerySchema>;
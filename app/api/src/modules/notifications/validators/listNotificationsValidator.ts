@@ -25,11 +25,23 @@ export const ListNotificationsQuerySchema = z.object({
   isRead: z
     .enum(['true', 'false'])
     .optional()
-    .transform((val) => (val === 'true' ? true : val === 'false' ? false : undefined)),
+    .transform((val) =>
+      val === 'true' ? true : val === 'false' ? false : undefined,
+    ),
   type: z
-    .enum(['DOSE_REMINDER', 'VACCINE_EXPIRING', 'LOW_STOCK', 'SCHEDULING_CONFIRMED', 'GENERAL'])
+    .enum([
+      'DOSE_REMINDER',
+      'VACCINE_EXPIRING',
+      'LOW_STOCK',
+      'SCHEDULING_CONFIRMED',
+      'GENERAL',
+      'ADVERSE_EVENT',
+      'BATCH_RECALL',
+    ])
     .optional()
     .transform((val) => val as NotificationType),
 });
 
-export type ListNotificationsQuery = z.infer<typeof ListNotificationsQuerySchema>;
+export type ListNotificationsQuery = z.infer<
+  typeof ListNotificationsQuerySchema
+>;
@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * Schema for validating notification stream query parameters
+ *
+ * - token: JWT, EventSource cannot send the Authorization header
+ * - lastEventId: last notification received, for clients that cannot send
+ *   the Last-Event-ID header on their first connection
+ */
+export const StreamNotificationsQuerySchema = z.object({
+  token: z.string().optional(),
+  lastEventId: z.string().uuid('Invalid lastEventId format').optional(),
+});
+
+export type StreamNotificationsQuery = z.infer<
+  typeof StreamNotificationsQuerySchema
+>;
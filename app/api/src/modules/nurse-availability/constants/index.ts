@@ -0,0 +1,7 @@
+export const DEFAULT_SLOT_MINUTES = 15;
+export const DEFAULT_MAX_PER_SLOT = 1;
+
+/**
+ * HH:mm, 00:00 to 23:59
+ */
+export const TIME_OF_DAY_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
@@ -0,0 +1,88 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { NurseAvailabilityService } from '@modules/nurse-availability/services/nurseAvailabilityService';
+import type { UpdateNurseAvailabilityBodyDTO } from '@modules/nurse-availability/validators/updateNurseAvailabilityValidator';
+import type { NextFunction, Request, Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+
+/**
+ * NurseAvailabilityController - HTTP request handler for nurse working hours
+ *
+ * Responsibilities:
+ * - HTTP request/response handling
+ * - Extracting authenticated user information
+ * - Calling appropriate service methods
+ *
+ * Architecture:
+ * - Thin controller - all business logic in NurseAvailabilityService
+ * - Own-template access is decided in the service layer
+ */
+@injectable()
+export class NurseAvailabilityController {
+  constructor(
+    @inject(TOKENS.NurseAvailabilityService)
+    private readonly nurseAvailabilityService: NurseAvailabilityService,
+  ) {}
+
+  /**
+   * Gets the weekly template of a nurse
+   *
+   * HTTP Endpoint: GET /nurse-availability/:id
+   * Authorization: The nurse, or availability:manage (MANAGER)
+   *
+   * Response: 200 OK
+   */
+  async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      const availabilities =
+        await this.nurseAvailabilityService.getAvailability(
+          id,
+          requestingUserId,
+        );
+
+      res.status(200).json(availabilities);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replaces the weekly template of a nurse
+   *
+   * HTTP Endpoint: PUT /nurse-availability/:id
+   * Authorization: The nurse, or availability:manage (MANAGER)
+   * Body: UpdateNurseAvailabilityBodyDTO (validated by Zod middleware)
+   *
+   * @example
+   * PUT /nurse-availability/:id
+   * Headers: Authorization: Bearer <token>
+   * {
+   *   "availabilities": [
+   *     { "weekday": 1, "startTime": "08:00", "endTime": "17:00",
+   *       "breakStart": "12:00", "breakEnd": "13:00", "slotMinutes": 15 }
+   *   ]
+   * }
+   *
+   * Response: 200 OK
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { availabilities } = req.body as UpdateNurseAvailabilityBodyDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const updatedAvailabilities =
+        await this.nurseAvailabilityService.updateAvailability(
+          id,
+          availabilities,
+          requestingUserId,
+        );
+
+      res.status(200).json(updatedAvailabilities);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { AppError } from '@modules/user/errors';
+
+export class InvalidAvailabilityError extends AppError {
+  constructor(message = 'Invalid nurse availability') {
+    super(message, 400);
+    this.name = 'InvalidAvailabilityError';
+  }
+}
+
+export class OutsideAvailabilityError extends AppError {
+  constructor(message = 'No nurse is available at the requested time') {
+    super(message, 400);
+    this.name = 'OutsideAvailabilityError';
+  }
+}
+
+export class SlotUnavailableError extends AppError {
+  constructor(message = 'The requested slot is already full') {
+    super(message, 409);
+    this.name = 'SlotUnavailableError';
+  }
+}
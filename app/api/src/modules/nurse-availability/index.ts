@@ -0,0 +1,6 @@
+export * from './controllers/nurseAvailabilityController';
+export * from './services/nurseAvailabilityService';
+export * from './services/nurseAssignmentService';
+export * from './stores/nurseAvailabilityStore';
+export * from './errors';
+export * from './constants';
@@ -0,0 +1,278 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import { EventNames, type NurseChangedEvent } from '@modules/notifications';
+import {
+  formatDate,
+  getCurrentDate,
+  getEndOfDay,
+  getStartOfDay,
+} from '@shared/helpers/timeHelper';
+import type { IEventBus } from '@shared/interfaces/eventBus';
+import type { IVaccineSchedulingStore } from '@shared/interfaces/vaccineScheduling';
+import type {
+  NurseWorkload,
+  RebalanceResult,
+  SchedulingSlot,
+} from '@shared/models/nurseAvailability';
+import type { VaccineScheduling } from '@shared/models/vaccineScheduling';
+import { inject, injectable } from 'tsyringe';
+import { OutsideAvailabilityError, SlotUnavailableError } from '../errors';
+import type { NurseAvailabilityService } from './nurseAvailabilityService';
+
+/**
+ * Pending schedulings of each nurse
+ */
+const countByNurse = (
+  schedulings: VaccineScheduling[],
+): Map<string, number> => {
+  const counts = new Map<string, number>();
+
+  for (const scheduling of schedulings) {
+    if (scheduling.assignedNurseId) {
+      counts.set(
+        scheduling.assignedNurseId,
+        (counts.get(scheduling.assignedNurseId) ?? 0) + 1,
+      );
+    }
+  }
+
+  return counts;
+};
+
+const slotKey = (nurseId: string, startTime: Date): string =>
+  `${nurseId}|${startTime.getTime()}`;
+
+/**
+ * NurseAssignmentService - Assigns nurses to schedulings
+ *
+ * Responsible for:
+ * - Picking the least-loaded nurse with a free slot for a new scheduling
+ * - Rebalancing the nurse assignments of a day
+ *
+ * Architecture:
+ * - The load of a nurse is the number of pending (SCHEDULED/CONFIRMED)
+ *   schedulings assigned to them on that day
+ * - Uses NurseAvailabilityService for the slots of the day
+ * - Every automatic assignment emits nurse.changed
+ */
+@injectable()
+export class NurseAssignmentService {
+  constructor(
+    @inject(TOKENS.NurseAvailabilityService)
+    private readonly nurseAvailabilityService: NurseAvailabilityService,
+    @inject(TOKENS.IVaccineSchedulingStore)
+    private readonly vaccineSchedulingStore: IVaccineSchedulingStore,
+    @inject(TOKENS.IEventBus)
+    private readonly eventBus: IEventBus,
+  ) {}
+
+  /**
+   * Picks the nurse for a scheduling created without one
+   *
+   * Among the nurses with a slot starting at scheduledDate and room left,
+   * the one with the fewest pending schedulings that day wins. Ties go to
+   * the nurse first in alphabetical order.
+   *
+   * @param scheduledDate - Start of the slot
+   * @returns Slot of the chosen nurse
+   * @throws OutsideAvailabilityError if no slot starts at that time
+   * @throws SlotUnavailableError if every slot at that time is full
+   */
+  async findLeastLoadedNurse(scheduledDate: Date): Promise<SchedulingSlot> {
+    const [slots, schedulings] = await Promise.all([
+      this.nurseAvailabilityService.getDaySlots(scheduledDate),
+      this.vaccineSchedulingStore.findPendingByPeriod(
+        getStartOfDay(scheduledDate),
+        getEndOfDay(scheduledDate),
+      ),
+    ]);
+
+    const matchingSlots = slots.filter(
+      (slot) => slot.startTime.getTime() === scheduledDate.getTime(),
+    );
+
+    if (!matchingSlots.length) {
+      throw new OutsideAvailabilityError(
+        `No nurse has an appointment slot starting at ${formatDate(scheduledDate, 'YYYY-MM-DD HH:mm')}`,
+      );
+    }
+
+    const freeSlots = matchingSlots.filter((slot) => slot.available > 0);
+
+    if (!freeSlots.length) {
+      throw new SlotUnavailableError(
+        `The slot at ${formatDate(scheduledDate, 'YYYY-MM-DD HH:mm')} is already full`,
+      );
+    }
+
+    const loads = countByNurse(schedulings);
+
+    // Slots come ordered by nurse name, so the first minimum wins ties
+    return freeSlots.reduce((best, slot) =>
+      (loads.get(slot.nurseId) ?? 0) < (loads.get(best.nurseId) ?? 0)
+        ? slot
+        : best,
+    );
+  }
+
+  /**
+   * Spreads the pending schedulings of a day evenly between the nurses
+   *
+   * Schedulings that already started keep their nurse. The others are
+   * walked in time order and given the least-loaded nurse with room in the
+   * slot holding their time; their current nurse is kept on ties. When no
+   * nurse has room, the scheduling is left as is.
+   *
+   * Each scheduling that changes nurse emits nurse.changed.
+   *
+   * @param date - Any moment of the day
+   */
+  async rebalanceDay(date: Date): Promise<RebalanceResult> {
+    const [slots, schedulings] = await Promise.all([
+      this.nurseAvailabilityService.getDaySlots(date),
+      this.vaccineSchedulingStore.findPendingByPeriod(
+        getStartOfDay(date),
+        getEndOfDay(date),
+      ),
+    ]);
+
+    const now = getCurrentDate();
+    const started = schedulings.filter(
+      (scheduling) => scheduling.scheduledDate <= now,
+    );
+    const movable = schedulings.filter(
+      (scheduling) => scheduling.scheduledDate > now,
+    );
+
+    const before = countByNurse(schedulings);
+    const loads = countByNurse(started);
+    const bookings = new Map<string, number>();
+
+    const findSlot = (scheduling: VaccineScheduling, nurseId: string) =>
+      slots.find(
+        (slot) =>
+          slot.nurseId === nurseId &&
+          slot.startTime <= scheduling.scheduledDate &&
+          slot.endTime > scheduling.scheduledDate,
+      );
+
+    const bookSlot = (scheduling: VaccineScheduling, nurseId: string) => {
+      const slot = findSlot(scheduling, nurseId);
+      if (slot) {
+        const key = slotKey(nurseId, slot.startTime);
+        bookings.set(key, (bookings.get(key) ?? 0) + 1);
+      }
+    };
+
+    const book = (scheduling: VaccineScheduling, nurseId: string) => {
+      loads.set(nurseId, (loads.get(nurseId) ?? 0) + 1);
+      bookSlot(scheduling, nurseId);
+    };
+
+    for (const scheduling of started) {
+      if (scheduling.assignedNurseId) {
+        bookSlot(scheduling, scheduling.assignedNurseId);
+      }
+    }
+
+    let reassigned = 0;
+    let unchanged = 0;
+    let unassigned = 0;
+
+    for (const scheduling of movable) {
+      const candidates = slots.filter(
+        (slot) =>
+          slot.startTime <= scheduling.scheduledDate &&
+          slot.endTime > scheduling.scheduledDate &&
+          (bookings.get(slotKey(slot.nurseId, slot.startTime)) ?? 0) <
+            slot.capacity,
+      );
+
+      const currentNurseId = scheduling.assignedNurseId;
+
+      if (!candidates.length) {
+        if (currentNurseId) {
+          book(scheduling, currentNurseId);
+          unchanged++;
+        } else {
+          unassigned++;
+        }
+        continue;
+      }
+
+      const minLoad = Math.min(
+        ...candidates.map((slot) => loads.get(slot.nurseId) ?? 0),
+      );
+      const leastLoaded = candidates.filter(
+        (slot) => (loads.get(slot.nurseId) ?? 0) === minLoad,
+      );
+      const chosen =
+        leastLoaded.find((slot) => slot.nurseId === currentNurseId) ??
+        leastLoaded[0];
+
+      book(scheduling, chosen.nurseId);
+
+      if (chosen.nurseId === currentNurseId) {
+        unchanged++;
+        continue;
+      }
+
+      await this.vaccineSchedulingStore.update(scheduling.id, {
+        nurseId: chosen.nurseId,
+      });
+      await this.emitNurseChanged(
+        scheduling.id,
+        chosen.nurseId,
+        currentNurseId ?? undefined,
+      );
+      reassigned++;
+    }
+
+    const nurseNames = new Map(
+      slots.map((slot) => [slot.nurseId, slot.nurseName]),
+    );
+    const workload: NurseWorkload[] = Array.from(
+      nurseNames,
+      ([nurseId, nurseName]) => ({
+        nurseId,
+        nurseName,
+        before: before.get(nurseId) ?? 0,
+        after: loads.get(nurseId) ?? 0,
+      }),
+    );
+
+    return {
+      date: formatDate(date),
+      reassigned,
+      unchanged,
+      unassigned,
+      workload,
+    };
+  }
+
+  /**
+   * Emits nurse.changed for an automatic assignment
+   *
+   * Delivery failures are logged and do not undo the assignment.
+   *
+   * @param oldNurseId - Previous nurse, if the scheduling had one
+   */
+  async emitNurseChanged(
+    schedulingId: string,
+    newNurseId: string,
+    oldNurseId?: string,
+  ): Promise<void> {
+    try {
+      await this.eventBus.emit<NurseChangedEvent>(EventNames.NURSE_CHANGED, {
+        type: EventNames.NURSE_CHANGED,
+        channels: ['in-app', 'email'],
+        data: { schedulingId, newNurseId, oldNurseId },
+        priority: 'normal',
+      });
+    } catch (error) {
+      console.error(
+        `[NurseAssignmentService] Failed to emit nurse.changed event for scheduling ${schedulingId}:`,
+        error,
+      );
+    }
+  }
+}
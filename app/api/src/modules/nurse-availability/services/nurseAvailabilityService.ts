@@ -0,0 +1,324 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import { DEFAULT_USER_SYSTEM_ID } from '@modules/user/constants';
+import { ForbiddenError, ValidationError } from '@modules/user/errors';
+import type { UserService } from '@modules/user/services/userService';
+import { Permissions } from '@shared/constants/permissions';
+import { hasPermission } from '@shared/helpers/permissionHelper';
+import {
+  addMinutes,
+  formatDate,
+  getCurrentDate,
+  getEndOfDay,
+  getStartOfDay,
+} from '@shared/helpers/timeHelper';
+import type { INurseAvailabilityStore } from '@shared/interfaces/nurseAvailability';
+import type { IVaccineSchedulingStore } from '@shared/interfaces/vaccineScheduling';
+import type {
+  NurseAvailability,
+  NurseAvailabilityDTO,
+  SchedulingSlot,
+} from '@shared/models/nurseAvailability';
+import { inject, injectable } from 'tsyringe';
+import { DEFAULT_MAX_PER_SLOT, DEFAULT_SLOT_MINUTES } from '../constants';
+import {
+  InvalidAvailabilityError,
+  OutsideAvailabilityError,
+  SlotUnavailableError,
+} from '../errors';
+
+/**
+ * Minutes since midnight of a HH:mm time
+ */
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * NurseAvailabilityService - Service layer for nurse working hours
+ *
+ * Responsible for:
+ * - Weekly availability templates of each nurse
+ * - Building the appointment slots of a day from the templates
+ * - Checking that a scheduling takes a free slot
+ *
+ * Architecture:
+ * - Slots are not stored: they are derived from the templates and the
+ *   pending schedulings of the day every time
+ * - Depends on UserService for authorization
+ */
+@injectable()
+export class NurseAvailabilityService {
+  constructor(
+    @inject(TOKENS.INurseAvailabilityStore)
+    private readonly nurseAvailabilityStore: INurseAvailabilityStore,
+    @inject(TOKENS.IVaccineSchedulingStore)
+    private readonly vaccineSchedulingStore: IVaccineSchedulingStore,
+    @inject(TOKENS.UserService)
+    private readonly userService: UserService,
+  ) {}
+
+  /**
+   * Gets the weekly template of a nurse
+   *
+   * Authorization: the nurse, or availability:manage (MANAGER)
+   *
+   * @throws UserNotFoundError if the nurse is not found
+   * @throws ForbiddenError if the user cannot view this template
+   */
+  async getAvailability(
+    nurseId: string,
+    requestingUserId: string,
+  ): Promise<NurseAvailability[]> {
+    await this.assertCanManage(nurseId, requestingUserId);
+
+    return this.nurseAvailabilityStore.findByNurseId(nurseId);
+  }
+
+  /**
+   * Replaces the weekly template of a nurse
+   *
+   * Business Rules:
+   * - The target user must be a NURSE
+   * - At most one entry per weekday. Weekdays left out are days off
+   * - startTime < endTime, and the break (both ends or none) must lie
+   *   within the working hours
+   * - The working hours must fit at least one slot
+   *
+   * Authorization: the nurse, or availability:manage (MANAGER)
+   *
+   * Existing schedulings are kept even if they fall outside the new hours.
+   *
+   * @throws ValidationError if the target user is not a NURSE
+   * @throws InvalidAvailabilityError if an entry is inconsistent
+   * @throws ForbiddenError if the user cannot edit this template
+   */
+  async updateAvailability(
+    nurseId: string,
+    data: NurseAvailabilityDTO[],
+    requestingUserId: string,
+  ): Promise<NurseAvailability[]> {
+    await this.assertCanManage(nurseId, requestingUserId);
+
+    const weekdays = new Set<number>();
+    for (const availability of data) {
+      if (weekdays.has(availability.weekday)) {
+        throw new InvalidAvailabilityError(
+          `Weekday ${availability.weekday} is listed more than once`,
+        );
+      }
+      weekdays.add(availability.weekday);
+      this.validateAvailability(availability);
+    }
+
+    return this.nurseAvailabilityStore.replaceForNurse(
+      nurseId,
+      data.map((availability) => ({
+        weekday: availability.weekday,
+        startTime: availability.startTime,
+        endTime: availability.endTime,
+        breakStart: availability.breakStart,
+        breakEnd: availability.breakEnd,
+        slotMinutes: availability.slotMinutes ?? DEFAULT_SLOT_MINUTES,
+        maxPerSlot: availability.maxPerSlot ?? DEFAULT_MAX_PER_SLOT,
+      })),
+    );
+  }
+
+  /**
+   * Free slots of a day, ordered by time then nurse
+   *
+   * Slots that already started or are full are left out.
+   */
+  async getFreeSlots(date: Date): Promise<SchedulingSlot[]> {
+    const now = getCurrentDate();
+    const slots = await this.getDaySlots(date);
+
+    return slots.filter((slot) => slot.available > 0 && slot.startTime > now);
+  }
+
+  /**
+   * Checks that a scheduling can take the slot starting at scheduledDate
+   *
+   * With a nurseId, that nurse must have a slot starting at that time with
+   * room left. Without one, any nurse with such a slot will do.
+   *
+   * Schedulings without a nurse do not take anyone's slot.
+   *
+   * @param scheduledDate - Start of the slot
+   * @param nurseId - Assigned nurse (optional)
+   * @param excludeSchedulingId - Scheduling being rescheduled, not counted
+   * @returns A matching slot with room left
+   * @throws OutsideAvailabilityError if no slot starts at that time
+   * @throws SlotUnavailableError if every matching slot is full
+   */
+  async assertSlotAvailable(
+    scheduledDate: Date,
+    nurseId?: string,
+    excludeSchedulingId?: string,
+  ): Promise<SchedulingSlot> {
+    const slots = await this.getDaySlots(scheduledDate, excludeSchedulingId);
+
+    const matchingSlots = slots.filter(
+      (slot) =>
+        slot.startTime.getTime() === scheduledDate.getTime() &&
+        (!nurseId || slot.nurseId === nurseId),
+    );
+
+    if (!matchingSlots.length) {
+      throw new OutsideAvailabilityError(
+        nurseId
+          ? `The nurse has no appointment slot starting at ${formatDate(scheduledDate, 'YYYY-MM-DD HH:mm')}`
+          : `No nurse has an appointment slot starting at ${formatDate(scheduledDate, 'YYYY-MM-DD HH:mm')}`,
+      );
+    }
+
+    const freeSlot = matchingSlots.find((slot) => slot.available > 0);
+
+    if (!freeSlot) {
+      throw new SlotUnavailableError(
+        `The slot at ${formatDate(scheduledDate, 'YYYY-MM-DD HH:mm')} is already full`,
+      );
+    }
+
+    return freeSlot;
+  }
+
+  /**
+   * Every slot of a day with its bookings, from the templates of that
+   * weekday
+   *
+   * @param date - Any moment of the day
+   * @param excludeSchedulingId - Scheduling not counted as a booking
+   */
+  async getDaySlots(
+    date: Date,
+    excludeSchedulingId?: string,
+  ): Promise<SchedulingSlot[]> {
+    const dayStart = getStartOfDay(date);
+
+    const [availabilities, schedulings] = await Promise.all([
+      this.nurseAvailabilityStore.findByWeekday(dayStart.getDay()),
+      this.vaccineSchedulingStore.findPendingByPeriod(
+        dayStart,
+        getEndOfDay(date),
+      ),
+    ]);
+
+    const bookings = schedulings.filter(
+      (scheduling) =>
+        scheduling.id !== excludeSchedulingId && scheduling.assignedNurseId,
+    );
+
+    const slots: SchedulingSlot[] = [];
+
+    for (const availability of availabilities) {
+      const end = toMinutes(availability.endTime);
+      const breakStart = availability.breakStart
+        ? toMinutes(availability.breakStart)
+        : null;
+      const breakEnd = availability.breakEnd
+        ? toMinutes(availability.breakEnd)
+        : null;
+
+      for (
+        let minute = toMinutes(availability.startTime);
+        minute + availability.slotMinutes <= end;
+        minute += availability.slotMinutes
+      ) {
+        const overlapsBreak =
+          breakStart !== null &&
+          breakEnd !== null &&
+          minute < breakEnd &&
+          minute + availability.slotMinutes > breakStart;
+        if (overlapsBreak) continue;
+
+        const startTime = addMinutes(dayStart, minute);
+        const endTime = addMinutes(startTime, availability.slotMinutes);
+        const booked = bookings.filter(
+          (scheduling) =>
+            scheduling.assignedNurseId === availability.nurseId &&
+            scheduling.scheduledDate >= startTime &&
+            scheduling.scheduledDate < endTime,
+        ).length;
+
+        slots.push({
+          startTime,
+          endTime,
+          nurseId: availability.nurse.id,
+          nurseName: availability.nurse.name,
+          capacity: availability.maxPerSlot,
+          booked,
+          available: Math.max(availability.maxPerSlot - booked, 0),
+        });
+      }
+    }
+
+    return slots.sort(
+      (a, b) =>
+        a.startTime.getTime() - b.startTime.getTime() ||
+        a.nurseName.localeCompare(b.nurseName),
+    );
+  }
+
+  private validateAvailability(availability: NurseAvailabilityDTO): void {
+    const start = toMinutes(availability.startTime);
+    const end = toMinutes(availability.endTime);
+    const slotMinutes = availability.slotMinutes ?? DEFAULT_SLOT_MINUTES;
+
+    if (start >= end) {
+      throw new InvalidAvailabilityError(
+        `Weekday ${availability.weekday}: startTime must be before endTime`,
+      );
+    }
+
+    if (start + slotMinutes > end) {
+      throw new InvalidAvailabilityError(
+        `Weekday ${availability.weekday}: working hours are shorter than one slot`,
+      );
+    }
+
+    if (Boolean(availability.breakStart) !== Boolean(availability.breakEnd)) {
+      throw new InvalidAvailabilityError(
+        `Weekday ${availability.weekday}: breakStart and breakEnd must be provided together`,
+      );
+    }
+
+    if (availability.breakStart && availability.breakEnd) {
+      const breakStart = toMinutes(availability.breakStart);
+      const breakEnd = toMinutes(availability.breakEnd);
+
+      if (breakStart >= breakEnd || breakStart < start || breakEnd > end) {
+        throw new InvalidAvailabilityError(
+          `Weekday ${availability.weekday}: the break must be within the working hours`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Nurses manage their own template, availability:manage any template
+   */
+  private async assertCanManage(
+    nurseId: string,
+    requestingUserId: string,
+  ): Promise<void> {
+    const [nurse, requestingUser] = await Promise.all([
+      this.userService.getUserById(nurseId, DEFAULT_USER_SYSTEM_ID),
+      this.userService.getUserById(requestingUserId, DEFAULT_USER_SYSTEM_ID),
+    ]);
+
+    if (
+      nurse.id !== requestingUser.id &&
+      !hasPermission(requestingUser.role, Permissions.AVAILABILITY_MANAGE)
+    ) {
+      throw new ForbiddenError('You can only manage your own availability');
+    }
+
+    if (!hasPermission(nurse.role, Permissions.SCHEDULING_ASSIGNED_READ)) {
+      throw new ValidationError(
+        `User ${nurse.id} does not belong to a user with NURSE role`,
+      );
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import type { NurseAvailability } from '@infrastructure/database';
+import type { INurseAvailabilityStore } from '@shared/interfaces/nurseAvailability';
+import type {
+  NurseAvailabilityCreateInput,
+  NurseAvailabilityDelegate,
+  NurseAvailabilityUpdateInput,
+  NurseAvailabilityWithNurse,
+} from '@shared/models/nurseAvailability';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+
+/**
+ * NurseAvailabilityStore - Prisma-based implementation of
+ * INurseAvailabilityStore
+ */
+@injectable()
+export class NurseAvailabilityStore
+  extends BaseStore<
+    NurseAvailability,
+    NurseAvailabilityDelegate,
+    NurseAvailabilityCreateInput,
+    NurseAvailabilityUpdateInput
+  >
+  implements INurseAvailabilityStore
+{
+  protected readonly model = this.prisma.nurseAvailability;
+
+  async findByNurseId(nurseId: string): Promise<NurseAvailability[]> {
+    return this.model.findMany({
+      where: { nurseId },
+      orderBy: { weekday: 'asc' },
+    });
+  }
+
+  async replaceForNurse(
+    nurseId: string,
+    data: Omit<NurseAvailabilityCreateInput, 'nurseId'>[],
+  ): Promise<NurseAvailability[]> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.nurseAvailability.deleteMany({ where: { nurseId } });
+      await tx.nurseAvailability.createMany({
+        data: data.map((availability) => ({ ...availability, nurseId })),
+      });
+
+      return tx.nurseAvailability.findMany({
+        where: { nurseId },
+        orderBy: { weekday: 'asc' },
+      });
+    });
+  }
+
+  async findByWeekday(weekday: number): Promise<NurseAvailabilityWithNurse[]> {
+    return this.model.findMany({
+      where: {
+        weekday,
+        nurse: { isActive: true, deletedAt: null },
+      },
+      include: { nurse: { select: { id: true, name: true } } },
+      orderBy: { nurse: { name: 'asc' } },
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { TIME_OF_DAY_REGEX } from '../constants';
+
+const timeOfDay = (field: string) =>
+  z.string().regex(TIME_OF_DAY_REGEX, `${field} must be in HH:mm format`);
+
+export const NurseAvailabilitySchema = z.object({
+  weekday: z
+    .number()
+    .int('Weekday must be an integer')
+    .min(0, 'Weekday must be between 0 (Sunday) and 6 (Saturday)')
+    .max(6, 'Weekday must be between 0 (Sunday) and 6 (Saturday)'),
+  startTime: timeOfDay('startTime'),
+  endTime: timeOfDay('endTime'),
+  breakStart: timeOfDay('breakStart').optional(),
+  breakEnd: timeOfDay('breakEnd').optional(),
+  slotMinutes: z
+    .number()
+    .int('Slot length must be an integer')
+    .min(5, 'Slot length must be at least 5 minutes')
+    .max(240, 'Slot length cannot exceed 240 minutes')
+    .optional(),
+  maxPerSlot: z
+    .number()
+    .int('Max per slot must be an integer')
+    .min(1, 'Max per slot must be at least 1')
+    .max(50, 'Max per slot cannot exceed 50')
+    .optional(),
+});
+
+export const UpdateNurseAvailabilityBodySchema = z.object({
+  availabilities: z
+    .array(NurseAvailabilitySchema)
+    .max(7, 'At most one entry per weekday'),
+});
+
+export type UpdateNurseAvailabilityBodyDTO = z.infer<
+  typeof UpdateNurseAvailabilityBodySchema
+>;
@@ -0,0 +1,34 @@
+import type { ReportType } from '@infrastructure/database';
+
+export const allowedReportSortFields = [
+  'title',
+  'type',
+  'startDate',
+  'endDate',
+  'createdAt',
+];
+
+/**
+ * Default titles (pt-BR) used when the manager does not provide one
+ */
+export const REPORT_TYPE_TITLES: Record<ReportType, string> = {
+  GENERAL: 'Relatório Geral',
+  BY_EMPLOYEE: 'Relatório por Funcionário',
+  BY_VACCINE: 'Relatório por Vacina',
+  BY_PERIOD: 'Relatório por Período',
+  COVERAGE: 'Relatório de Cobertura Vacinal',
+  WASTE: 'Relatório de Perdas de Doses',
+};
+
+/**
+ * Maximum length (in days) of the period covered by a single report
+ *
+ * Keeps the generated content (and the JSON column) at a reasonable size.
+ */
+export const MAX_REPORT_PERIOD_DAYS = 366;
+
+/**
+ * Builds the API path used to download a report
+ */
+export const buildReportDownloadPath = (reportId: string): string =>
+  `/api/reports/${reportId}/download`;
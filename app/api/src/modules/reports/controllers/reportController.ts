@@ -0,0 +1,198 @@
+import { TOKENS } from '@infrastructure/di/tokens';
+import type { ReportService } from '@modules/reports/services/reportService';
+import type { DownloadReportQueryDTO } from '@modules/reports/validators/downloadReportValidator';
+import type { GenerateReportBodyDTO } from '@modules/reports/validators/generateReportValidator';
+import type { ListReportsQueryDTO } from '@modules/reports/validators/listReportsValidator';
+import { getDate } from '@shared/helpers/timeHelper';
+import type { ReportFilterParams } from '@shared/interfaces/report';
+import type { NextFunction, Request, Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+
+/**
+ * ReportController - HTTP request handler for report endpoints
+ *
+ * Responsibilities:
+ * - HTTP request/response handling
+ * - Extracting authenticated user information
+ * - Calling appropriate service methods
+ * - Setting download headers for exported files
+ *
+ * Architecture:
+ * - Thin controller - all business logic in ReportService
+ * - Authorization (MANAGER only) is enforced in the service layer
+ */
+@injectable()
+export class ReportController {
+  constructor(
+    @inject(TOKENS.ReportService)
+    private readonly reportService: ReportService,
+  ) {}
+
+  /**
+   * Generates a new report
+   *
+   * HTTP Endpoint: POST /reports
+   * Authorization: MANAGER only
+   * Body: GenerateReportBodyDTO (validated by Zod middleware)
+   *
+   * @example
+   * POST /reports
+   * Headers: Authorization: Bearer <token>
+   * {
+   *   "type": "BY_PERIOD",
+   *   "startDate": "2025-01-01",
+   *   "endDate": "2025-01-31"
+   * }
+   *
+   * Response: 201 Created
+   */
+  async generate(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const data = req.body as GenerateReportBodyDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const report = await this.reportService.generateReport(
+        data,
+        requestingUserId,
+      );
+
+      res.status(201).json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lists past reports with pagination and filtering
+   *
+   * HTTP Endpoint: GET /reports
+   * Authorization: MANAGER only
+   * Query Parameters:
+   * - page, perPage, sortBy, sortOrder
+   * - type: GENERAL | BY_EMPLOYEE | BY_VACCINE | BY_PERIOD | COVERAGE | WASTE
+   * - generatedById: string (UUID)
+   * - userId: string (UUID)
+   * - createdFrom, createdTo: ISO 8601 datetime - Generation date range
+   *
+   * Response: 200 OK
+   */
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = req.query as unknown as ListReportsQueryDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const paginationParams = {
+        page: query.page,
+        perPage: query.perPage,
+        sortBy: query.sortBy,
+        sortOrder: query.sortOrder,
+      };
+
+      const filters: ReportFilterParams = {
+        type: query.type,
+        generatedById: query.generatedById,
+        userId: query.userId,
+        createdFrom: query.createdFrom ? getDate(query.createdFrom) : undefined,
+        createdTo: query.createdTo ? getDate(query.createdTo) : undefined,
+      };
+
+      const result = await this.reportService.listReports(
+        paginationParams,
+        filters,
+        requestingUserId,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Gets a single report with its content
+   *
+   * HTTP Endpoint: GET /reports/:id
+   * Authorization: MANAGER only
+   *
+   * Response: 200 OK
+   */
+  async getById(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      const report = await this.reportService.getReportById(
+        id,
+        requestingUserId,
+      );
+
+      res.status(200).json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Downloads a report as a file
+   *
+   * HTTP Endpoint: GET /reports/:id/download?format=csv|json
+   * Authorization: MANAGER only
+   *
+   * Response: 200 OK with Content-Disposition: attachment
+   */
+  async download(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { format } = req.query as unknown as DownloadReportQueryDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const file = await this.reportService.downloadReport(
+        id,
+        format,
+        requestingUserId,
+      );
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${file.fileName}"`,
+      );
+      res.status(200).send(file.content);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Deletes a report (soft delete)
+   *
+   * HTTP Endpoint: DELETE /reports/:id
+   * Authorization: MANAGER only
+   *
+   * Response: 204 No Content
+   */
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      await this.reportService.deleteReport(id, requestingUserId);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
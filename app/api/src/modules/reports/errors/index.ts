@@ -0,0 +1,22 @@
+import { AppError } from '@modules/user/errors';
+
+export class ReportNotFoundError extends AppError {
+  constructor(message = 'Report not found') {
+    super(message, 404);
+    this.name = 'ReportNotFoundError';
+  }
+}
+
+export class InvalidReportPeriodError extends AppError {
+  constructor(message = 'Invalid report period') {
+    super(message, 400);
+    this.name = 'InvalidReportPeriodError';
+  }
+}
+
+export class MissingReportTargetError extends AppError {
+  constructor(message = 'Report target is required for this report type') {
+    super(message, 400);
+    this.name = 'MissingReportTargetError';
+  }
+}
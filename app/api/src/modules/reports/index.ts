@@ -0,0 +1,5 @@
+export * from './controllers/reportController';
+export * from './services/reportService';
+export * from './stores/reportStore';
+export * from './errors';
+export * from './constants';
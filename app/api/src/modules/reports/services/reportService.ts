@@ -0,0 +1,653 @@
+import type { ReportType } from '@infrastructure/database';
+import { TOKENS } from '@infrastructure/di/tokens';
+import { EventNames, type ReportGeneratedEvent } from '@modules/notifications';
+import type { UserService } from '@modules/user/services/userService';
+import type { VaccinationCoverageService } from '@modules/vaccination-coverage/services/vaccinationCoverage';
+import { VaccineNotFoundError } from '@modules/vaccines/errors';
+import { Permissions } from '@shared/constants/permissions';
+import { toCsv } from '@shared/helpers/csvHelper';
+import {
+  formatDate,
+  getDate,
+  getDifferenceBetweenDatesInDays,
+  getEndOfDay,
+  getStartOfDay,
+} from '@shared/helpers/timeHelper';
+import type { IEventBus } from '@shared/interfaces/eventBus';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+} from '@shared/interfaces/pagination';
+import type {
+  IReportStore,
+  ReportFilterParams,
+} from '@shared/interfaces/report';
+import type { IStockMovementStore } from '@shared/interfaces/stockMovement';
+import type { IVaccineStore } from '@shared/interfaces/vaccine';
+import type {
+  IVaccineApplicationStore,
+  VaccineApplicationFilterParams,
+} from '@shared/interfaces/vaccineApplication';
+import type { IVaccineSchedulingStore } from '@shared/interfaces/vaccineScheduling';
+import type {
+  GenerateReportDTO,
+  ReportContent,
+  ReportDownload,
+  ReportDownloadFormat,
+  ReportRow,
+  ReportSummary,
+  ReportWithRelations,
+} from '@shared/models/report';
+import type {
+  DiscardReason,
+  StockMovementWithBatch,
+} from '@shared/models/stockMovement';
+import type { VaccineApplicationDetailed } from '@shared/models/vaccineApplication';
+import { inject, injectable } from 'tsyringe';
+import {
+  MAX_REPORT_PERIOD_DAYS,
+  REPORT_TYPE_TITLES,
+  buildReportDownloadPath,
+} from '../constants';
+import {
+  InvalidReportPeriodError,
+  MissingReportTargetError,
+  ReportNotFoundError,
+} from '../errors';
+
+interface ReportPeriod {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * ReportService - Service layer for report generation and retrieval
+ *
+ * Responsible for:
+ * - Generating each ReportType (GENERAL, BY_EMPLOYEE, BY_VACCINE, BY_PERIOD, COVERAGE, WASTE)
+ * - Persisting the generated content as a Report row
+ * - Emitting report.generated so the requester gets notified
+ * - Listing, downloading (JSON/CSV) and deleting past reports
+ *
+ * Authorization:
+ * - Requires the report:manage permission (MANAGER) to generate, list, download or delete reports
+ *
+ * Architecture:
+ * - Reads data through the existing stores (applications, schedulings, vaccines, stock movements)
+ * - Reuses VaccinationCoverageService for COVERAGE reports
+ * - Report content is stored as { summary, rows } so any report can be exported to CSV
+ */
+@injectable()
+export class ReportService {
+  constructor(
+    @inject(TOKENS.IReportStore)
+    private readonly reportStore: IReportStore,
+    @inject(TOKENS.UserService)
+    private readonly userService: UserService,
+    @inject(TOKENS.IVaccineStore)
+    private readonly vaccineStore: IVaccineStore,
+    @inject(TOKENS.IVaccineApplicationStore)
+    private readonly vaccineApplicationStore: IVaccineApplicationStore,
+    @inject(TOKENS.IVaccineSchedulingStore)
+    private readonly vaccineSchedulingStore: IVaccineSchedulingStore,
+    @inject(TOKENS.IStockMovementStore)
+    private readonly stockMovementStore: IStockMovementStore,
+    @inject(TOKENS.VaccinationCoverageService)
+    private readonly vaccinationCoverageService: VaccinationCoverageService,
+    @inject(TOKENS.IEventBus)
+    private readonly eventBus: IEventBus,
+  ) {}
+
+  /**
+   * Generates and persists a new report
+   *
+   * Business Rules:
+   * - Requires the report:manage permission (MANAGER)
+   * - BY_EMPLOYEE requires a target userId
+   * - BY_PERIOD requires both startDate and endDate
+   * - Period cannot exceed MAX_REPORT_PERIOD_DAYS
+   * - userId/vaccineId, when provided, narrow the applications considered
+   *
+   * @param data - Report generation data
+   * @param requestingUserId - ID of the manager requesting the report
+   * @returns Persisted report with its content
+   * @throws ForbiddenError if requesting user lacks report:manage
+   * @throws MissingReportTargetError if BY_EMPLOYEE has no userId
+   * @throws InvalidReportPeriodError if the period is missing or invalid
+   * @throws UserNotFoundError if target user not found
+   * @throws VaccineNotFoundError if vaccine not found
+   */
+  async generateReport(
+    data: GenerateReportDTO,
+    requestingUserId: string,
+  ): Promise<ReportWithRelations> {
+    const requestingUser = await this.userService.validatePermission(
+      requestingUserId,
+      Permissions.REPORT_MANAGE,
+    );
+
+    if (data.type === 'BY_EMPLOYEE' && !data.userId) {
+      throw new MissingReportTargetError(
+        'userId is required for BY_EMPLOYEE reports',
+      );
+    }
+
+    const period = this.resolvePeriod(data);
+
+    if (data.type === 'BY_PERIOD' && (!period.startDate || !period.endDate)) {
+      throw new InvalidReportPeriodError(
+        'startDate and endDate are required for BY_PERIOD reports',
+      );
+    }
+
+    if (data.userId) {
+      await this.userService.validateUserExists(data.userId);
+    }
+
+    if (data.vaccineId) {
+      const vaccine = await this.vaccineStore.findById(data.vaccineId);
+      if (!vaccine || vaccine.deletedAt) {
+        throw new VaccineNotFoundError(
+          `Vaccine with ID ${data.vaccineId} not found`,
+        );
+      }
+    }
+
+    const content = await this.buildReportContent(
+      data,
+      period,
+      requestingUserId,
+    );
+
+    const report = await this.reportStore.create({
+      title: data.title ?? REPORT_TYPE_TITLES[data.type],
+      type: data.type,
+      description: data.description,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      data: content,
+      generatedById: requestingUser.id,
+      userId: data.userId,
+    });
+
+    const fileUrl = buildReportDownloadPath(report.id);
+    await this.reportStore.update(report.id, { fileUrl });
+
+    await this.eventBus.emit<ReportGeneratedEvent>(
+      EventNames.REPORT_GENERATED,
+      {
+        type: EventNames.REPORT_GENERATED,
+        channels: ['in-app'],
+        data: {
+          reportId: report.id,
+          title: report.title,
+          type: report.type,
+          description: report.description ?? undefined,
+          fileUrl,
+          generatedById: requestingUser.id,
+          generatedByName: requestingUser.name,
+          generatedByEmail: requestingUser.email,
+          startDate: report.startDate ?? undefined,
+          endDate: report.endDate ?? undefined,
+          createdAt: report.createdAt,
+        },
+        priority: 'normal',
+      },
+    );
+
+    return this.getReportById(report.id, requestingUserId);
+  }
+
+  /**
+   * Lists past reports (content omitted)
+   *
+   * @param params - Pagination parameters
+   * @param filters - Optional filters (type, generatedById, userId)
+   * @param requestingUserId - ID of the user requesting
+   * @returns Paginated reports
+   * @throws ForbiddenError if requesting user lacks report:manage
+   */
+  async listReports(
+    params: PaginationParams,
+    filters: ReportFilterParams,
+    requestingUserId: string,
+  ): Promise<PaginatedResponse<ReportSummary>> {
+    await this.userService.validatePermission(
+      requestingUserId,
+      Permissions.REPORT_MANAGE,
+    );
+
+    return this.reportStore.findPaginatedReports(params, filters);
+  }
+
+  /**
+   * Retrieves a single report with its content
+   *
+   * @throws ForbiddenError if requesting user lacks report:manage
+   * @throws ReportNotFoundError if report not found or deleted
+   */
+  async getReportById(
+    id: string,
+    requestingUserId: string,
+  ): Promise<ReportWithRelations> {
+    await this.userService.validatePermission(
+      requestingUserId,
+      Permissions.REPORT_MANAGE,
+    );
+
+    const report = await this.reportStore.findByIdWithRelations(id);
+
+    if (!report) {
+      throw new ReportNotFoundError(`Report with ID ${id} not found`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Builds a downloadable file for a report
+   *
+   * - json: metadata + summary + rows
+   * - csv: rows only (one line per row, `;` separated)
+   *
+   * @throws ForbiddenError if requesting user lacks report:manage
+   * @throws ReportNotFoundError if report not found or deleted
+   */
+  async downloadReport(
+    id: string,
+    format: ReportDownloadFormat,
+    requestingUserId: string,
+  ): Promise<ReportDownload> {
+    const report = await this.getReportById(id, requestingUserId);
+    const content = (report.data as unknown as ReportContent | null) ?? {
+      summary: {},
+      rows: [],
+    };
+
+    const baseFileName = `relatorio-${report.type.toLowerCase()}-${formatDate(
+      report.createdAt,
+      'YYYYMMDD-HHmmss',
+    )}`;
+
+    if (format === 'json') {
+      const { data: _data, ...metadata } = report;
+      return {
+        fileName: `${baseFileName}.json`,
+        contentType: 'application/json; charset=utf-8',
+        content: JSON.stringify({ ...metadata, ...content }, null, 2),
+      };
+    }
+
+    return {
+      fileName: `${baseFileName}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      content: toCsv(content.rows),
+    };
+  }
+
+  /**
+   * Soft deletes a report
+   *
+   * @throws ForbiddenError if requesting user lacks report:manage
+   * @throws ReportNotFoundError if report not found or already deleted
+   */
+  async deleteReport(id: string, requestingUserId: string): Promise<void> {
+    await this.getReportById(id, requestingUserId);
+    await this.reportStore.softDelete(id);
+  }
+
+  /**
+   * Normalizes the requested period to full days and validates it
+   */
+  private resolvePeriod(data: GenerateReportDTO): ReportPeriod {
+    const startDate = data.startDate
+      ? getStartOfDay(getDate(data.startDate))
+      : undefined;
+    const endDate = data.endDate
+      ? getEndOfDay(getDate(data.endDate))
+      : undefined;
+
+    if (startDate && endDate) {
+      if (startDate > endDate) {
+        throw new InvalidReportPeriodError(
+          'startDate must be before or equal to endDate',
+        );
+      }
+
+      if (
+        getDifferenceBetweenDatesInDays(startDate, endDate) >
+        MAX_REPORT_PERIOD_DAYS
+      ) {
+        throw new InvalidReportPeriodError(
+          `Report period cannot exceed ${MAX_REPORT_PERIOD_DAYS} days`,
+        );
+      }
+    }
+
+    return { startDate, endDate };
+  }
+
+  private async buildReportContent(
+    data: GenerateReportDTO,
+    period: ReportPeriod,
+    requestingUserId: string,
+  ): Promise<ReportContent> {
+    const filters: VaccineApplicationFilterParams = {
+      userId: data.userId,
+      vaccineId: data.vaccineId,
+      applicationDateFrom: period.startDate,
+      applicationDateTo: period.endDate,
+    };
+
+    const builders: Record<ReportType, () => Promise<ReportContent>> = {
+      GENERAL: () => this.buildGeneralContent(filters, period),
+      BY_EMPLOYEE: () => this.buildEmployeeContent(filters, requestingUserId),
+      BY_VACCINE: () => this.buildVaccineContent(filters),
+      BY_PERIOD: () => this.buildPeriodContent(filters, period),
+      COVERAGE: () => this.buildCoverageContent(requestingUserId),
+      WASTE: () => this.buildWasteContent(data.vaccineId, period),
+    };
+
+    return builders[data.type]();
+  }
+
+  /**
+   * GENERAL - overview of applications, schedulings and stock per vaccine
+   */
+  private async buildGeneralContent(
+    filters: VaccineApplicationFilterParams,
+    period: ReportPeriod,
+  ): Promise<ReportContent> {
+    const [applications, schedulingsByStatus, vaccines] = await Promise.all([
+      this.vaccineApplicationStore.findApplications(filters),
+      this.vaccineSchedulingStore.countByStatus(
+        period.startDate,
+        period.endDate,
+      ),
+      this.vaccineStore.findAll(),
+    ]);
+
+    const activeVaccines = vaccines.filter((vaccine) => !vaccine.deletedAt);
+
+    const rows: ReportRow[] = activeVaccines.map((vaccine) => {
+      const vaccineApplications = applications.filter(
+        (application) => application.vaccineId === vaccine.id,
+      );
+
+      return {
+        vaccineName: vaccine.name,
+        manufacturer: vaccine.manufacturer,
+        isObligatory: vaccine.isObligatory,
+        applications: vaccineApplications.length,
+        patients: this.countDistinctPatients(vaccineApplications),
+        totalStock: vaccine.totalStock,
+        minStockLevel: vaccine.minStockLevel,
+        lowStock: vaccine.totalStock <= vaccine.minStockLevel,
+      };
+    });
+
+    return {
+      summary: {
+        totalApplications: applications.length,
+        totalPatients: this.countDistinctPatients(applications),
+        totalVaccines: activeVaccines.length,
+        lowStockVaccines: rows.filter((row) => row.lowStock).length,
+        schedulingsScheduled: schedulingsByStatus.SCHEDULED ?? 0,
+        schedulingsConfirmed: schedulingsByStatus.CONFIRMED ?? 0,
+        schedulingsCompleted: schedulingsByStatus.COMPLETED ?? 0,
+        schedulingsCancelled: schedulingsByStatus.CANCELLED ?? 0,
+      },
+      rows,
+    };
+  }
+
+  /**
+   * BY_EMPLOYEE - vaccination history of a single user
+   */
+  private async buildEmployeeContent(
+    filters: VaccineApplicationFilterParams,
+    requestingUserId: string,
+  ): Promise<ReportContent> {
+    const userId = filters.userId!;
+
+    const [employee, applications, mandatoryNotTaken] = await Promise.all([
+      this.userService.getUserById(userId, requestingUserId),
+      this.vaccineApplicationStore.findApplications(filters),
+      this.vaccineStore.findMandatoryVaccinesNotTakenByUser(userId),
+    ]);
+
+    return {
+      summary: {
+        employeeName: employee.name,
+        employeeEmail: employee.email,
+        totalApplications: applications.length,
+        vaccinesReceived: new Set(
+          applications.map((application) => application.vaccineId),
+        ).size,
+        mandatoryVaccinesPending: mandatoryNotTaken.length,
+      },
+      rows: applications.map((application) =>
+        this.toApplicationRow(application),
+      ),
+    };
+  }
+
+  /**
+   * BY_VACCINE - applications grouped by vaccine and dose
+   */
+  private async buildVaccineContent(
+    filters: VaccineApplicationFilterParams,
+  ): Promise<ReportContent> {
+    const applications =
+      await this.vaccineApplicationStore.findApplications(filters);
+
+    const groups = new Map<string, VaccineApplicationDetailed[]>();
+
+    for (const application of applications) {
+      const key = `${application.vaccineId}:${application.doseNumber}`;
+      groups.set(key, [...(groups.get(key) ?? []), application]);
+    }
+
+    const rows: ReportRow[] = Array.from(groups.values())
+      .map((group) => {
+        const { vaccine, doseNumber } = group[0];
+        return {
+          vaccineName: vaccine.name,
+          manufacturer: vaccine.manufacturer,
+          doseNumber,
+          dosesRequired: vaccine.dosesRequired,
+          applications: group.length,
+          patients: this.countDistinctPatients(group),
+        };
+      })
+      .sort(
+        (a, b) =>
+          String(a.vaccineName).localeCompare(String(b.vaccineName)) ||
+          Number(a.doseNumber) - Number(b.doseNumber),
+      );
+
+    return {
+      summary: {
+        totalApplications: applications.length,
+        totalPatients: this.countDistinctPatients(applications),
+        totalVaccines: new Set(
+          applications.map((application) => application.vaccineId),
+        ).size,
+        completedSchedules: applications.filter(
+          (application) =>
+            application.doseNumber === application.vaccine.dosesRequired,
+        ).length,
+      },
+      rows,
+    };
+  }
+
+  /**
+   * BY_PERIOD - every application performed within the period
+   */
+  private async buildPeriodContent(
+    filters: VaccineApplicationFilterParams,
+    period: ReportPeriod,
+  ): Promise<ReportContent> {
+    const [applications, schedulingsByStatus] = await Promise.all([
+      this.vaccineApplicationStore.findApplications(filters),
+      this.vaccineSchedulingStore.countByStatus(
+        period.startDate,
+        period.endDate,
+      ),
+    ]);
+
+    return {
+      summary: {
+        startDate: formatDate(period.startDate!, 'DD/MM/YYYY'),
+        endDate: formatDate(period.endDate!, 'DD/MM/YYYY'),
+        totalApplications: applications.length,
+        totalPatients: this.countDistinctPatients(applications),
+        schedulingsCompleted: schedulingsByStatus.COMPLETED ?? 0,
+        schedulingsCancelled: schedulingsByStatus.CANCELLED ?? 0,
+      },
+      rows: applications.map((application) =>
+        this.toApplicationRow(application),
+      ),
+    };
+  }
+
+  /**
+   * COVERAGE - snapshot of the vaccination coverage statistics
+   */
+  private async buildCoverageContent(
+    requestingUserId: string,
+  ): Promise<ReportContent> {
+    const coverage =
+      await this.vaccinationCoverageService.calculateVaccinationCoverage(
+        requestingUserId,
+      );
+
+    return {
+      summary: {
+        ...coverage.summary,
+        ...coverage.completion,
+      },
+      rows: coverage.details.map((detail) => ({
+        vaccineName: detail.vaccineName,
+        isObligatory: detail.isObligatory,
+        coveragePercentage: detail.coveragePercentage,
+        status: detail.status,
+        completeDoses: detail.completeDoses,
+        partialDoses: detail.partialDoses ?? null,
+      })),
+    };
+  }
+
+  /**
+   * WASTE - doses discarded or expired, per vaccine and discard reason
+   *
+   * Read from the stock ledger (DISCARD and EXPIRY movements). Batches
+   * expired by the daily job count as EXPIRY.
+   */
+  private async buildWasteContent(
+    vaccineId: string | undefined,
+    period: ReportPeriod,
+  ): Promise<ReportContent> {
+    const writeOffs = await this.stockMovementStore.findWriteOffs({
+      vaccineId,
+      from: period.startDate,
+      to: period.endDate,
+    });
+
+    const emptyTotals = (): Record<DiscardReason, number> => ({
+      COLD_CHAIN_BREAK: 0,
+      BROKEN_VIAL: 0,
+      CONTAMINATION: 0,
+      EXPIRY: 0,
+    });
+
+    const totals = emptyTotals();
+    const groups = new Map<
+      string,
+      {
+        movements: StockMovementWithBatch[];
+        byReason: Record<DiscardReason, number>;
+      }
+    >();
+
+    for (const movement of writeOffs) {
+      const doses = Math.abs(movement.quantity);
+      const reason =
+        movement.discardReason ??
+        (movement.type === 'EXPIRY' ? 'EXPIRY' : undefined);
+
+      const group = groups.get(movement.vaccineId) ?? {
+        movements: [],
+        byReason: emptyTotals(),
+      };
+      group.movements.push(movement);
+      if (reason) {
+        group.byReason[reason] += doses;
+        totals[reason] += doses;
+      }
+      groups.set(movement.vaccineId, group);
+    }
+
+    const rows: ReportRow[] = Array.from(groups.values())
+      .map(({ movements, byReason }) => ({
+        vaccineName: movements[0].vaccine.name,
+        manufacturer: movements[0].vaccine.manufacturer,
+        discardedDoses: this.sumDoses(movements),
+        coldChainBreak: byReason.COLD_CHAIN_BREAK,
+        brokenVial: byReason.BROKEN_VIAL,
+        contamination: byReason.CONTAMINATION,
+        expiry: byReason.EXPIRY,
+        batches: new Set(movements.map((movement) => movement.batchId)).size,
+      }))
+      .sort((a, b) => b.discardedDoses - a.discardedDoses);
+
+    return {
+      summary: {
+        startDate: period.startDate
+          ? formatDate(period.startDate, 'DD/MM/YYYY')
+          : null,
+        endDate: period.endDate
+          ? formatDate(period.endDate, 'DD/MM/YYYY')
+          : null,
+        totalDiscardedDoses: this.sumDoses(writeOffs),
+        coldChainBreak: totals.COLD_CHAIN_BREAK,
+        brokenVial: totals.BROKEN_VIAL,
+        contamination: totals.CONTAMINATION,
+        expiry: totals.EXPIRY,
+        vaccinesAffected: groups.size,
+        batchesAffected: new Set(writeOffs.map((movement) => movement.batchId))
+          .size,
+      },
+      rows,
+    };
+  }
+
+  private sumDoses(movements: StockMovementWithBatch[]): number {
+    return movements.reduce(
+      (sum, movement) => sum + Math.abs(movement.quantity),
+      0,
+    );
+  }
+
+  private toApplicationRow(application: VaccineApplicationDetailed): ReportRow {
+    return {
+      applicationDate: formatDate(application.applicationDate, 'DD/MM/YYYY'),
+      patientName: application.user.name,
+      patientEmail: application.user.email,
+      vaccineName: application.vaccine.name,
+      manufacturer: application.vaccine.manufacturer,
+      doseNumber: application.doseNumber,
+      dosesRequired: application.vaccine.dosesRequired,
+      batchNumber: application.batch.batchNumber,
+      applicationSite: application.applicationSite,
+      appliedByName: application.appliedBy.name,
+    };
+  }
+
+  private countDistinctPatients(
+    applications: VaccineApplicationDetailed[],
+  ): number {
+    return new Set(applications.map((application) => application.userId)).size;
+  }
+}
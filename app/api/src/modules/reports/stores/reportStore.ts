@@ -0,0 +1,152 @@
+import type { Prisma, Report } from '@infrastructure/database';
+import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
+import {
+  type PaginatedResponse,
+  type PaginationParams,
+  calculatePaginationMetadata,
+} from '@shared/interfaces/pagination';
+import type {
+  IReportStore,
+  ReportFilterParams,
+} from '@shared/interfaces/report';
+import type {
+  ReportCreateInput,
+  ReportDelegate,
+  ReportSummary,
+  ReportUpdateInput,
+  ReportWithRelations,
+} from '@shared/models/report';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+import { allowedReportSortFields } from '../constants';
+
+const reportRelations = {
+  generatedBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+/**
+ * ReportStore - Prisma-based implementation of IReportStore
+ *
+ * Persists generated reports. The report content lives in the `data`
+ * JSON column and is only loaded when a single report is requested,
+ * keeping listings light.
+ */
+@injectable()
+export class ReportStore
+  extends BaseStore<
+    Report,
+    ReportDelegate,
+    ReportCreateInput,
+    ReportUpdateInput
+  >
+  implements IReportStore
+{
+  protected readonly model = this.prisma.report;
+
+  /**
+   * Creates a new report
+   * Converts our store input format to Prisma format
+   */
+  async create(data: ReportCreateInput): Promise<Report> {
+    return this.model.create({
+      data: {
+        title: data.title,
+        type: data.type,
+        description: data.description,
+        fileUrl: data.fileUrl,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        data: data.data as unknown as Prisma.InputJsonValue,
+        generatedBy: {
+          connect: { id: data.generatedById },
+        },
+        user: data.userId
+          ? {
+              connect: { id: data.userId },
+            }
+          : undefined,
+      },
+    });
+  }
+
+  /**
+   * Finds a non-deleted report by ID with author and target user
+   */
+  async findByIdWithRelations(id: string): Promise<ReportWithRelations | null> {
+    return this.model.findFirst({
+      where: {
+        id,
+        deletedAt: null,
+      },
+      include: reportRelations,
+    });
+  }
+
+  /**
+   * Finds paginated reports with filters
+   *
+   * The `data` column is omitted, use findByIdWithRelations to get the content.
+   */
+  async findPaginatedReports(
+    params: PaginationParams,
+    filters?: ReportFilterParams,
+  ): Promise<PaginatedResponse<ReportSummary>> {
+    const { page, perPage } = params;
+
+    const where: Prisma.ReportWhereInput = {
+      deletedAt: null,
+    };
+
+    if (filters?.type) {
+      where.type = filters.type;
+    }
+
+    if (filters?.generatedById) {
+      where.generatedById = filters.generatedById;
+    }
+
+    if (filters?.userId) {
+      where.userId = filters.userId;
+    }
+
+    if (filters?.createdFrom || filters?.createdTo) {
+      where.createdAt = {};
+      if (filters.createdFrom) {
+        where.createdAt.gte = filters.createdFrom;
+      }
+      if (filters.createdTo) {
+        where.createdAt.lte = filters.createdTo;
+      }
+    }
+
+    const [data, total] = await Promise.all([
+      this.model.findMany({
+        where,
+        ...buildPaginationArgs(params, allowedReportSortFields),
+        omit: { data: true },
+        include: reportRelations,
+      }),
+      this.model.count({ where }),
+    ]);
+
+    const pagination = calculatePaginationMetadata(page, perPage, total);
+
+    return {
+      data,
+      pagination,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+export const DownloadReportQuerySchema = z.object({
+  format: z
+    .enum(['json', 'csv'], { message: 'Format must be one of: json, csv' })
+    .optional()
+    .default('csv'),
+});
+
+export type DownloadReportQueryDTO = z.infer<typeof DownloadReportQuerySchema>;
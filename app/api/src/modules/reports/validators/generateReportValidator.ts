@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+export const GenerateReportBodySchema = z
+  .object({
+    type: z.enum(
+      [
+        'GENERAL',
+        'BY_EMPLOYEE',
+        'BY_VACCINE',
+        'BY_PERIOD',
+        'COVERAGE',
+        'WASTE',
+      ],
+      {
+        message:
+          'Type must be one of: GENERAL, BY_EMPLOYEE, BY_VACCINE, BY_PERIOD, COVERAGE, WASTE',
+      },
+    ),
+    title: z
+      .string()
+      .min(3, 'Title must have at least 3 characters')
+      .max(150, 'Title cannot exceed 150 characters')
+      .optional(),
+    description: z
+      .string()
+      .max(500, 'Description cannot exceed 500 characters')
+      .optional(),
+    startDate: z
+      .string()
+      .date('Invalid start date format. Must be YYYY-MM-DD')
+      .optional(),
+    endDate: z
+      .string()
+      .date('Invalid end date format. Must be YYYY-MM-DD')
+      .optional(),
+    userId: z.string().uuid('User ID must be a valid UUID').optional(),
+    vaccineId: z.string().uuid('Vaccine ID must be a valid UUID').optional(),
+  })
+  .refine(
+    (data) =>
+      !data.startDate ||
+      !data.endDate ||
+      new Date(data.startDate) <= new Date(data.endDate),
+    { message: 'startDate must be before or equal to endDate' },
+  )
+  .refine((data) => data.type !== 'BY_EMPLOYEE' || Boolean(data.userId), {
+    message: 'userId is required for BY_EMPLOYEE reports',
+  })
+  .refine(
+    (data) =>
+      data.type !== 'BY_PERIOD' || Boolean(data.startDate && data.endDate),
+    { message: 'startDate and endDate are required for BY_PERIOD reports' },
+  );
+
+export type GenerateReportBodyDTO = z.infer<typeof GenerateReportBodySchema>;
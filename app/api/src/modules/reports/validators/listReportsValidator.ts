@@ -0,0 +1,65 @@
+import { PAGINATION_DEFAULTS } from '@shared/interfaces/pagination';
+import { z } from 'zod';
+import { allowedReportSortFields } from '../constants';
+
+export const ListReportsQuerySchema = z
+  .object({
+    page: z
+      .string()
+      .optional()
+      .transform((val) =>
+        val ? Number.parseInt(val, 10) : PAGINATION_DEFAULTS.PAGE,
+      )
+      .refine((val) => !Number.isNaN(val) && val >= 1, {
+        message: 'Page must be a positive integer',
+      }),
+    perPage: z
+      .string()
+      .optional()
+      .transform((val) =>
+        val ? Number.parseInt(val, 10) : PAGINATION_DEFAULTS.PER_PAGE,
+      )
+      .refine((val) => !Number.isNaN(val) && val >= 1 && val <= 100, {
+        message: 'Per page must be between 1 and 100',
+      }),
+    sortBy: z
+      .string()
+      .optional()
+      .default('createdAt')
+      .refine((val) => allowedReportSortFields.includes(val), {
+        message: `Sort by must be one of: ${allowedReportSortFields.join(', ')}`,
+      }),
+    sortOrder: z.enum(['asc', 'desc']).optional().default('desc'),
+    type: z
+      .enum([
+        'GENERAL',
+        'BY_EMPLOYEE',
+        'BY_VACCINE',
+        'BY_PERIOD',
+        'COVERAGE',
+        'WASTE',
+      ])
+      .optional(),
+    generatedById: z
+      .string()
+      .uuid('Generated by ID must be a valid UUID')
+      .optional(),
+    userId: z.string().uuid('User ID must be a valid UUID').optional(),
+    createdFrom: z
+      .string()
+      .datetime('Invalid created from date format. Must be ISO 8601 datetime')
+      .optional(),
+    createdTo: z
+      .string()
+      .datetime('Invalid created to date format. Must be ISO 8601 datetime')
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      !data.createdFrom ||
+      !data.createdTo ||
+      new Date(data.createdFrom) <= new Date(data.createdTo),
+    { message: 'createdFrom must be before or equal to createdTo' },
+  );
+
+export type ListReportsQueryDTO = z.infer<typeof ListReportsQuerySchema>;
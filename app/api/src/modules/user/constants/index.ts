@@ -28,8 +28,68 @@ export const DEFAULT_USER_SYSTEM: User = {
   role: 'MANAGER',
   coren: '12345',
   isActive: true,
+  photoKey: null,
+  photoContentType: null,
   createdAt: new Date(),
   updatedAt: new Date(),
   password: '',
   deletedAt: null,
 };
+
+/**
+ * Maximum profile photo size (2 MB)
+ */
+export const USER_PHOTO_MAX_SIZE_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Accepted profile photo content types and their file extensions
+ */
+export const USER_PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/**
+ * Maximum employee import CSV size (1 MB)
+ */
+export const USER_IMPORT_MAX_SIZE_BYTES = 1024 * 1024;
+
+/**
+ * Maximum employees per import, keeps password hashing and the insert
+ * transaction within a single request
+ */
+export const USER_IMPORT_MAX_ROWS = 500;
+
+/**
+ * Content types browsers declare for .csv files (Excel on Windows sends
+ * application/vnd.ms-excel)
+ */
+export const USER_IMPORT_CONTENT_TYPES = [
+  'text/csv',
+  'application/csv',
+  'application/vnd.ms-excel',
+  'text/plain',
+];
+
+/**
+ * Accepted CSV headers for each imported field, compared in lowercase and
+ * without accents. role and coren columns are optional.
+ */
+export const USER_IMPORT_COLUMNS = {
+  name: ['name', 'nome'],
+  email: ['email', 'e-mail'],
+  cpf: ['cpf'],
+  phone: ['phone', 'telefone', 'celular'],
+  role: ['role', 'perfil', 'funcao', 'cargo'],
+  coren: ['coren'],
+} as const;
+
+export type UserImportField = keyof typeof USER_IMPORT_COLUMNS;
+
+export const USER_IMPORT_REQUIRED_FIELDS: UserImportField[] = [
+  'name',
+  'email',
+  'cpf',
+  'phone',
+];
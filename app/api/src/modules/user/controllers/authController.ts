@@ -1,7 +1,9 @@
+import type { AcceptInvitationBodyDTO } from '@modules/invitation/validators/acceptInvitationValidator';
 import type { NextFunction, Request, Response } from 'express';
 import { injectable } from 'tsyringe';
 // biome-ignore lint/style/useImportType: I need to import types this way because of TSyringe
 import { AuthService } from '../services/authService';
+import type { SessionContext } from '../types/authTypes';
 
 /**
  * AuthController - HTTP layer for authentication endpoints
@@ -20,7 +22,11 @@ export class AuthController {
     try {
       const { email, password } = req.body;
 
-      const result = await this.authService.login(email, password);
+      const result = await this.authService.login(
+        email,
+        password,
+        this.getSessionContext(req),
+      );
 
       res.status(200).json({
         success: true,
@@ -39,7 +45,10 @@ export class AuthController {
     try {
       const userData = req.body;
 
-      const result = await this.authService.register(userData);
+      const result = await this.authService.register(
+        userData,
+        this.getSessionContext(req),
+      );
 
       res.status(201).json({
         success: true,
@@ -49,4 +58,211 @@ export class AuthController {
       next(error);
     }
   }
+
+  async registerWithInvitation(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { token, ...userData } = req.body as AcceptInvitationBodyDTO;
+
+      const result = await this.authService.registerWithInvitation(
+        token,
+        userData,
+        this.getSessionContext(req),
+      );
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async refresh(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      const result = await this.authService.refresh(refreshToken);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { refreshToken } = req.body;
+
+      await this.authService.logout(refreshToken);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async forgotPassword(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { email } = req.body;
+
+      await this.authService.forgotPassword(email);
+
+      // Same response whether or not the email is registered
+      res.status(200).json({
+        success: true,
+        message:
+          'If the email is registered, a password reset link has been sent',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resetPassword(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { token, newPassword } = req.body;
+
+      await this.authService.resetPassword(token, newPassword);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async me(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await this.authService.getCurrentUser(userId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async listSessions(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const sessions = await this.authService.listSessions(
+        userId,
+        req.user?.sid,
+      );
+
+      res.status(200).json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async revokeSession(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      await this.authService.revokeSession(userId, id);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async revokeOtherSessions(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const sessionId = req.user?.sid;
+
+      if (!userId || !sessionId) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const revoked = await this.authService.revokeOtherSessions(
+        userId,
+        sessionId,
+      );
+
+      res.status(200).json({
+        success: true,
+        data: { revoked },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private getSessionContext(req: Request): SessionContext {
+    return {
+      userAgent: req.get('user-agent')?.slice(0, 512),
+      ipAddress: req.ip,
+    };
+  }
 }
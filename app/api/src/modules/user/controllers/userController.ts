@@ -11,6 +11,7 @@ import { injectable } from 'tsyringe';
 import { PAGINATION_DEFAULTS } from '@shared/interfaces/pagination';
 import type { UserFilterParams } from '@shared/interfaces/user';
 import type { ListUsersQuery } from '@modules/user/validators/listUsersValidator';
+import type { ImportUsersQuery } from '@modules/user/validators/importUsersValidator';
 
 /**
  * UserController - HTTP request handler for user endpoints
@@ -75,6 +76,48 @@ export class UserController {
     }
   }
 
+  /**
+   * Imports employees from a CSV file
+   *
+   * HTTP Endpoint: POST /users/import
+   * Query Parameters:
+   * - dryRun: boolean (optional, default: false) - Only validate the file
+   * Body: multipart/form-data with the CSV in the `file` field
+   *
+   * Response: 200 OK (dry run) or 201 Created
+   * {
+   *   "dryRun": false,
+   *   "totalRows": 2,
+   *   "validRows": 1,
+   *   "invalidRows": 1,
+   *   "createdCount": 1,
+   *   "rows": [{ "line": 2, "name": "...", "email": "...", "role": "EMPLOYEE", "errors": [] }, ...]
+   * }
+   *
+   * @param req - Express request with the uploaded file
+   * @param res - Express response
+   * @param next - Express next function for error handling
+   */
+  async importUsers(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      // req.query is already validated and transformed by validateRequest middleware
+      const { dryRun } = req.query as unknown as ImportUsersQuery;
+
+      const result = await this.userService.importUsers(
+        req.file!.buffer,
+        dryRun,
+      );
+
+      res.status(dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Lists users with pagination and filtering
    *
@@ -317,4 +360,202 @@ export class UserController {
       next(error);
     }
   }
+
+  /**
+   * Uploads a user's profile photo
+   *
+   * HTTP Endpoint: POST /users/:id/photo (multipart/form-data, field `photo`)
+   *
+   * Authorization:
+   * - MANAGER: Can update any user's photo
+   * - Other roles: Can only update their own photo
+   *
+   * Response: 200 OK
+   * {
+   *   "url": "/api/users/uuid/photo?v=1733306400000",
+   *   "user": { "id": "uuid", "name": "João Silva", "photoUrl": "...", ... }
+   * }
+   *
+   * Errors:
+   * - 400 Bad Request: Missing file, too large, or not a JPEG/PNG/WebP image
+   * - 401 Unauthorized: No authentication token
+   * - 403 Forbidden: User trying to update another user's photo
+   * - 404 Not Found: User not found or deleted
+   *
+   * @param req - Express request with id param and file (set by upload middleware)
+   * @param res - Express response
+   * @param next - Express next function
+   */
+  async uploadPhoto(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const user = await this.userService.uploadPhoto(
+        id,
+        { content: req.file!.buffer, contentType: req.file!.mimetype },
+        userId,
+      );
+
+      res.status(200).json({ url: user.photoUrl, user });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Serves a user's profile photo
+   *
+   * HTTP Endpoint: GET /users/:id/photo
+   *
+   * Authorization: Same as viewing the user
+   *
+   * Response: 200 OK with the image (Content-Type: image/jpeg|png|webp)
+   *
+   * Errors:
+   * - 401 Unauthorized: No authentication token
+   * - 403 Forbidden: User trying to view another user's photo
+   * - 404 Not Found: User not found, deleted, or without photo
+   *
+   * @param req - Express request with id param
+   * @param res - Express response
+   * @param next - Express next function
+   */
+  async getPhoto(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const photo = await this.userService.getPhoto(id, userId);
+
+      res
+        .status(200)
+        .set({
+          'Content-Type': photo.contentType,
+          // The URL is versioned, but the photo is only for authorized users
+          'Cache-Control': 'private, max-age=86400',
+        })
+        .send(photo.content);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Changes the authenticated user's password
+   *
+   * @param req - Express request object
+   * @param res - Express response object
+   * @param next - Express next function for error handling
+   * @returns Promise<void> - Delegates error handling to next()
+   *
+   * @example
+   * PATCH /users/me/password
+   * {
+   *   "currentPassword": "OldPassword1!",
+   *   "newPassword": "NewPassword1!"
+   * }
+   *
+   * Response:
+   * - 204 No Content: Password changed, other sessions revoked
+   * - 400 Bad Request: Wrong current password or new password breaks the policy
+   * - 401 Unauthorized: No authentication token
+   */
+  async changePassword(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { currentPassword, newPassword } = req.body;
+
+      await this.userService.changePassword(
+        userId,
+        currentPassword,
+        newPassword,
+        req.user?.sid,
+      );
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Removes a user's profile photo
+   *
+   * HTTP Endpoint: DELETE /users/:id/photo
+   *
+   * Authorization: Same as uploading the photo
+   *
+   * Response: 204 No Content
+   *
+   * Errors:
+   * - 401 Unauthorized: No authentication token
+   * - 403 Forbidden: User trying to remove another user's photo
+   * - 404 Not Found: User not found, deleted, or without photo
+   *
+   * @param req - Express request with id param
+   * @param res - Express response
+   * @param next - Express next function
+   */
+  async deletePhoto(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      await this.userService.deletePhoto(id, userId);
+
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
 }
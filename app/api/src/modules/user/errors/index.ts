@@ -59,3 +59,47 @@ export class ForbiddenError extends AppError {
     this.name = 'ForbiddenError';
   }
 }
+
+export class UserPhotoNotFoundError extends AppError {
+  constructor(message = 'User has no profile photo') {
+    super(message, 404);
+    this.name = 'UserPhotoNotFoundError';
+  }
+}
+
+export class InvalidRefreshTokenError extends AppError {
+  constructor(message = 'Invalid or expired refresh token') {
+    super(message, 401);
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+export class SessionNotFoundError extends AppError {
+  constructor(message = 'Session not found') {
+    super(message, 404);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+export class InvalidPasswordResetTokenError extends AppError {
+  constructor(message = 'Invalid or expired password reset token') {
+    super(message, 400);
+    this.name = 'InvalidPasswordResetTokenError';
+  }
+}
+
+export class InvalidCurrentPasswordError extends AppError {
+  constructor(message = 'Current password is incorrect') {
+    super(message, 400);
+    this.name = 'InvalidCurrentPasswordError';
+  }
+}
+
+export class RegistrationDisabledError extends AppError {
+  constructor(
+    message = 'Open registration is disabled. Ask a manager for an invitation',
+  ) {
+    super(message, 403);
+    this.name = 'RegistrationDisabledError';
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * EmailPasswordResetNotifier - Sends password reset links by email
+ *
+ * Uses the configured mail transport: SMTP in production, console in
+ * development (the link shows up in the API logs).
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import { buildPasswordResetEmail } from '@modules/notifications/templates';
+import type { IMailTransport } from '@shared/interfaces/mailTransport';
+import type {
+  IPasswordResetNotifier,
+  PasswordResetNotification,
+} from '@shared/interfaces/passwordResetNotifier';
+import { inject, injectable } from 'tsyringe';
+
+@injectable()
+export class EmailPasswordResetNotifier implements IPasswordResetNotifier {
+  constructor(
+    @inject(TOKENS.IMailTransport)
+    private readonly mailTransport: IMailTransport,
+  ) {}
+
+  async sendResetLink(notification: PasswordResetNotification): Promise<void> {
+    await this.mailTransport.send({
+      to: notification.email,
+      ...buildPasswordResetEmail(notification),
+    });
+  }
+}
@@ -1,13 +1,49 @@
+import { env } from 'node:process';
 import type { User } from '@infrastructure/database';
 import { TOKENS } from '@infrastructure/di/tokens';
-import { comparePassword } from '@shared/helpers/passwordHelper';
-import { generateToken } from '@shared/helpers/tokenHelper';
+import { getMailConfig } from '@infrastructure/mail';
+import type { InvitationService } from '@modules/invitation/services/invitationService';
+import { REFRESH_TOKEN_REUSE_GRACE_MS } from '@shared/constants/auth';
+import {
+  assertPasswordPolicy,
+  comparePassword,
+} from '@shared/helpers/passwordHelper';
+import { getPermissionsForRole } from '@shared/helpers/permissionHelper';
+import {
+  generatePasswordResetToken,
+  generateRefreshToken,
+  generateToken,
+  getAccessTokenExpiresIn,
+  getPasswordResetTokenExpiresAt,
+  getRefreshTokenExpiresAt,
+  hashPasswordResetToken,
+  hashRefreshToken,
+} from '@shared/helpers/tokenHelper';
 import { normalizeEmail, toUserResponse } from '@shared/helpers/userHelper';
+import type { IPasswordResetNotifier } from '@shared/interfaces/passwordResetNotifier';
+import type { IPasswordResetTokenStore } from '@shared/interfaces/passwordResetToken';
 import type { IUserStore } from '@shared/interfaces/user';
+import type { IUserSessionStore } from '@shared/interfaces/userSession';
+import type { AcceptInvitationDTO } from '@shared/models/invitation';
+import type { UserResponse } from '@shared/models/user';
+import type {
+  UserSession,
+  UserSessionResponse,
+} from '@shared/models/userSession';
 import { inject, injectable } from 'tsyringe';
 import type { TokenPayload } from '../../../@types/express';
-import { InvalidCredentialsError } from '../errors';
-import type { AuthResponse } from '../types/authTypes';
+import {
+  InvalidCredentialsError,
+  InvalidPasswordResetTokenError,
+  InvalidRefreshTokenError,
+  RegistrationDisabledError,
+  SessionNotFoundError,
+} from '../errors';
+import type {
+  AuthResponse,
+  CurrentUserResponse,
+  SessionContext,
+} from '../types/authTypes';
 import type { RegisterDTO } from '../validators/registerValidator';
 // biome-ignore lint/style/useImportType: I need to import types this way because of TSyringe
 import { UserService } from './userService';
@@ -17,21 +53,49 @@ import { UserService } from './userService';
  *
  * Handles:
  * - User login with credential validation
- * - User registration via UserService
- * - JWT token generation
+ * - Open registration (EMPLOYEE only) via UserService, and registration
+ *   through an invitation via InvitationService
+ * - Session management: every login opens a UserSession holding a refresh token
+ * - Access token refresh with refresh token rotation
+ * - Logout and revocation of sessions
+ * - Password recovery (forgot/reset password)
+ *
+ * Tokens:
+ * - Access token: short-lived JWT (JWT_EXPIRES_IN, default 15m) carrying
+ *   the user ID and the session ID (`sid`)
+ * - Refresh token: opaque random string, valid for
+ *   REFRESH_TOKEN_EXPIRES_IN_DAYS (default 30). Only its hash is stored and
+ *   it is replaced on every refresh. Presenting a rotated token again means it
+ *   was copied, so the whole session is revoked.
  *
  * Dependencies:
- * - IUserStore: For direct user lookups during login
- * - UserService: For user creation during registration
+ * - IUserStore: For direct user lookups during login and refresh
+ * - IUserSessionStore: For login sessions and refresh tokens
+ * - IPasswordResetTokenStore: For single-use password reset tokens
+ * - IPasswordResetNotifier: Delivers password reset links
+ * - UserService: For user creation during registration and password updates
+ * - InvitationService: For accounts created from an invitation
  */
 @injectable()
 export class AuthService {
   constructor(
     @inject(TOKENS.IUserStore) private readonly userStore: IUserStore,
+    @inject(TOKENS.IUserSessionStore)
+    private readonly userSessionStore: IUserSessionStore,
+    @inject(TOKENS.IPasswordResetTokenStore)
+    private readonly passwordResetTokenStore: IPasswordResetTokenStore,
+    @inject(TOKENS.IPasswordResetNotifier)
+    private readonly passwordResetNotifier: IPasswordResetNotifier,
+    @inject(TOKENS.InvitationService)
+    private readonly invitationService: InvitationService,
     private readonly userService: UserService,
   ) {}
 
-  async login(email: string, password: string): Promise<AuthResponse> {
+  async login(
+    email: string,
+    password: string,
+    context: SessionContext = {},
+  ): Promise<AuthResponse> {
     const normalizedEmail = normalizeEmail(email);
 
     const user = await this.userStore.findByEmail(normalizedEmail);
@@ -45,35 +109,367 @@ export class AuthService {
       throw new InvalidCredentialsError();
     }
 
-    const token = this.generateToken(user);
+    return this.startSession(toUserResponse(user), context);
+  }
+
+  /**
+   * Open self-registration
+   *
+   * Business Rules:
+   * - Only EMPLOYEE accounts (enforced by RegisterSchema); other roles
+   *   join through an invitation
+   * - Disabled when OPEN_REGISTRATION_ENABLED is 'false'
+   *
+   * @throws RegistrationDisabledError if open registration is disabled
+   */
+  async register(
+    data: RegisterDTO,
+    context: SessionContext = {},
+  ): Promise<AuthResponse> {
+    if (env.OPEN_REGISTRATION_ENABLED === 'false') {
+      throw new RegistrationDisabledError();
+    }
+
+    const user = await this.userService.createUser({
+      ...data,
+    });
+
+    return this.startSession(user, context);
+  }
+
+  /**
+   * Creates the account of an invited person and opens their first session
+   *
+   * Available even when open registration is disabled.
+   *
+   * @param token - Token received in the invite link
+   * @param data - Account data; email and role come from the invitation
+   * @throws InvalidInvitationTokenError if the invitation is unknown or no longer pending
+   */
+  async registerWithInvitation(
+    token: string,
+    data: AcceptInvitationDTO,
+    context: SessionContext = {},
+  ): Promise<AuthResponse> {
+    const user = await this.invitationService.acceptInvitation(token, data);
+
+    return this.startSession(user, context);
+  }
+
+  /**
+   * Issues a new access token and rotates the refresh token
+   *
+   * Business Rules:
+   * - The session must be active (not revoked, not expired)
+   * - The user must still be active and not deleted
+   * - The refresh token is single-use: a new one is returned every time
+   * - A rotated token presented again after REFRESH_TOKEN_REUSE_GRACE_MS
+   *   revokes the session (REFRESH_TOKEN_REUSED). Within the grace window
+   *   it is only rejected, as it is most likely a concurrent refresh from
+   *   another tab that already holds the new token.
+   *
+   * @param refreshToken - Refresh token received on login or on the last refresh
+   * @returns New access token and refresh token
+   * @throws InvalidRefreshTokenError if the token is unknown, reused, revoked or expired
+   */
+  async refresh(refreshToken: string): Promise<AuthResponse> {
+    const refreshTokenHash = hashRefreshToken(refreshToken);
+
+    const session =
+      await this.userSessionStore.findByRefreshTokenHash(refreshTokenHash);
+
+    if (!session) {
+      await this.handleRotatedTokenReuse(refreshTokenHash);
+      throw new InvalidRefreshTokenError();
+    }
+
+    if (!this.isSessionActive(session)) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    const user = await this.userStore.findById(session.userId);
+
+    if (!user || !user.isActive || user.deletedAt) {
+      await this.userSessionStore.revoke(
+        session.id,
+        user?.deletedAt ? 'USER_DELETED' : 'USER_DEACTIVATED',
+      );
+      throw new InvalidRefreshTokenError();
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+
+    const rotated = await this.userSessionStore.rotate(
+      session.id,
+      refreshTokenHash,
+      hashRefreshToken(nextRefreshToken),
+    );
+
+    // Another request rotated (or revoked) the session in the meantime
+    if (!rotated) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    return this.buildAuthResponse(
+      toUserResponse(user),
+      session,
+      nextRefreshToken,
+    );
+  }
+
+  /**
+   * Ends the session of a refresh token
+   *
+   * Idempotent: unknown, rotated or already revoked tokens are ignored, so
+   * logging out never fails on the client.
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const session = await this.userSessionStore.findByRefreshTokenHash(
+      hashRefreshToken(refreshToken),
+    );
+
+    if (session) {
+      await this.userSessionStore.revoke(session.id, 'LOGOUT');
+    }
+  }
+
+  /**
+   * Returns the authenticated user with the permissions of their role
+   *
+   * The web app uses the permissions to show or hide features, so UI and
+   * API rely on the same catalog (ROLE_PERMISSIONS).
+   *
+   * @param userId - Authenticated user
+   * @throws UserNotFoundError if user not found or deleted
+   */
+  async getCurrentUser(userId: string): Promise<CurrentUserResponse> {
+    const user = await this.userService.validateUserExists(userId);
 
     return {
       user: toUserResponse(user),
-      token,
-      expiresIn: '7d',
+      permissions: getPermissionsForRole(user.role),
     };
   }
 
-  async register(data: RegisterDTO): Promise<AuthResponse> {
-    const user = await this.userService.createUser({
-      ...data,
+  /**
+   * Lists the active sessions (devices) of a user
+   *
+   * @param userId - Authenticated user
+   * @param currentSessionId - Session of the request, flagged as `current`
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<UserSessionResponse[]> {
+    const sessions = await this.userSessionStore.findActiveByUser(userId);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revokes one of the user's sessions (e.g. a lost device)
+   *
+   * @throws SessionNotFoundError if the session does not exist, is not
+   * active or belongs to another user
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const session = await this.userSessionStore.findActiveById(sessionId);
+
+    if (!session || session.userId !== userId) {
+      throw new SessionNotFoundError();
+    }
+
+    await this.userSessionStore.revoke(session.id, 'USER_REVOKED');
+  }
+
+  /**
+   * Revokes every session of the user except the current one
+   *
+   * @returns Number of revoked sessions
+   */
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<number> {
+    return this.userSessionStore.revokeAllForUser(
+      userId,
+      'USER_REVOKED',
+      currentSessionId,
+    );
+  }
+
+  /**
+   * Starts a password recovery
+   *
+   * Business Rules:
+   * - Only active, non-deleted users receive a link
+   * - The response never reveals whether the email is registered: the link
+   *   is delivered in the background and failures are only logged
+   * - Requesting a new link invalidates the previous ones
+   * - Links expire after PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES (default 30)
+   *
+   * @param email - Email of the account to recover
+   */
+  async forgotPassword(email: string): Promise<void> {
+    const user = await this.userStore.findByEmail(normalizeEmail(email));
+
+    if (!user || !user.isActive || user.deletedAt) {
+      return;
+    }
+
+    const token = generatePasswordResetToken();
+    const expiresAt = getPasswordResetTokenExpiresAt();
+
+    await this.passwordResetTokenStore.invalidateAllForUser(user.id);
+    await this.passwordResetTokenStore.create({
+      userId: user.id,
+      tokenHash: hashPasswordResetToken(token),
+      expiresAt,
     });
 
-    const token = this.generateToken(user);
+    const { webUrl } = getMailConfig();
+
+    this.passwordResetNotifier
+      .sendResetLink({
+        name: user.name,
+        email: user.email,
+        resetUrl: `${webUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        expiresAt,
+      })
+      .catch((error) => {
+        console.error(
+          `[AuthService] Could not send password reset link to user ${user.id}:`,
+          error,
+        );
+      });
+  }
+
+  /**
+   * Sets a new password using a password reset token
+   *
+   * Business Rules:
+   * - The token is single-use and must not be expired
+   * - The user must still be active and not deleted
+   * - The new password must follow the password policy
+   * - Every login session of the user is revoked (PASSWORD_CHANGED)
+   *
+   * @param token - Token received in the reset link
+   * @param newPassword - Password to set
+   * @throws InvalidPasswordResetTokenError if the token is unknown, used or expired
+   * @throws ValidationError if the new password breaks the policy
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const resetToken = await this.passwordResetTokenStore.findByTokenHash(
+      hashPasswordResetToken(token),
+    );
+
+    if (!resetToken) {
+      throw new InvalidPasswordResetTokenError();
+    }
+
+    const user = await this.userStore.findById(resetToken.userId);
+
+    if (!user || !user.isActive || user.deletedAt) {
+      throw new InvalidPasswordResetTokenError();
+    }
+
+    // Checked before consuming, so a password rejected by the policy does
+    // not burn the link
+    assertPasswordPolicy(newPassword);
+
+    const consumed = await this.passwordResetTokenStore.consume(resetToken.id);
+
+    if (!consumed) {
+      throw new InvalidPasswordResetTokenError();
+    }
+
+    await this.userService.setPassword(user.id, newPassword);
+    await this.passwordResetTokenStore.invalidateAllForUser(user.id);
+  }
+
+  private async startSession(
+    user: UserResponse,
+    context: SessionContext,
+  ): Promise<AuthResponse> {
+    const refreshToken = generateRefreshToken();
+
+    const session = await this.userSessionStore.create({
+      userId: user.id,
+      refreshTokenHash: hashRefreshToken(refreshToken),
+      userAgent: context.userAgent ?? null,
+      ipAddress: context.ipAddress ?? null,
+      expiresAt: getRefreshTokenExpiresAt(),
+    });
+
+    return this.buildAuthResponse(user, session, refreshToken);
+  }
+
+  /**
+   * Revokes a session whose rotated-out refresh token is presented again
+   * after the grace window
+   */
+  private async handleRotatedTokenReuse(
+    refreshTokenHash: string,
+  ): Promise<void> {
+    const session =
+      await this.userSessionStore.findByPreviousTokenHash(refreshTokenHash);
+
+    if (!session || session.revokedAt) {
+      return;
+    }
+
+    const rotatedAgo = Date.now() - (session.rotatedAt?.getTime() ?? 0);
+
+    if (rotatedAgo <= REFRESH_TOKEN_REUSE_GRACE_MS) {
+      return;
+    }
+
+    await this.userSessionStore.revoke(session.id, 'REFRESH_TOKEN_REUSED');
+
+    console.warn(
+      `[AuthService] Reused refresh token for session ${session.id} (user ${session.userId}), session revoked`,
+    );
+  }
+
+  private isSessionActive(session: UserSession): boolean {
+    return !session.revokedAt && session.expiresAt.getTime() > Date.now();
+  }
+
+  private buildAuthResponse(
+    user: UserResponse,
+    session: UserSession,
+    refreshToken: string,
+  ): AuthResponse {
+    const expiresIn = getAccessTokenExpiresIn();
 
     return {
       user,
-      token,
-      expiresIn: '7d',
+      token: this.generateToken(user, session.id, expiresIn),
+      expiresIn,
+      refreshToken,
+      refreshTokenExpiresAt: session.expiresAt,
     };
   }
 
-  private generateToken(user: Omit<User, 'password' | 'deletedAt'>): string {
+  private generateToken(
+    user: Pick<User, 'id'>,
+    sessionId: string,
+    expiresIn: string,
+  ): string {
     const payload: TokenPayload = {
       userId: user.id,
+      sid: sessionId,
       iat: Math.floor(Date.now() / 1000),
     };
 
-    return generateToken(payload, '7d');
+    return generateToken(payload, expiresIn);
   }
 }
@@ -1,33 +1,77 @@
+import { randomBytes, randomUUID } from 'node:crypto';
 import { TOKENS } from '@infrastructure/di/tokens';
-import { hashPassword } from '@shared/helpers/passwordHelper';
+import { type Permission, Permissions } from '@shared/constants/permissions';
+import { parseCsv } from '@shared/helpers/csvHelper';
+import { detectImageContentType } from '@shared/helpers/imageHelper';
+import {
+  assertPasswordPolicy,
+  comparePassword,
+  hashPassword,
+} from '@shared/helpers/passwordHelper';
+import {
+  assertPermission,
+  getPermissionsForRole,
+} from '@shared/helpers/permissionHelper';
 import {
   canAccessUser,
   normalizeEmail,
   toUserResponse,
 } from '@shared/helpers/userHelper';
+import type { IFileStorage } from '@shared/interfaces/fileStorage';
 import type {
   PaginatedResponse,
   PaginationParams,
 } from '@shared/interfaces/pagination';
 import type { IUserStore, UserFilterParams } from '@shared/interfaces/user';
+import type { IUserSessionStore } from '@shared/interfaces/userSession';
 import type {
   CreateUserDTO,
   UpdateUserDTO,
+  UploadUserPhotoDTO,
   User,
+  UserCreateInput,
+  UserImportResult,
+  UserImportRowResult,
+  UserPhoto,
   UserResponse,
   UserRole,
 } from '@shared/models/user';
 import dayjs from 'dayjs';
 import { inject, injectable } from 'tsyringe';
-import { DEFAULT_USER_SYSTEM, DEFAULT_USER_SYSTEM_ID } from '../constants';
 import {
+  DEFAULT_USER_SYSTEM,
+  DEFAULT_USER_SYSTEM_ID,
+  USER_IMPORT_COLUMNS,
+  USER_IMPORT_MAX_ROWS,
+  USER_IMPORT_REQUIRED_FIELDS,
+  USER_PHOTO_EXTENSIONS,
+  type UserImportField,
+} from '../constants';
+import {
+  AppError,
   CORENAlreadyExistsError,
   CPFAlreadyExistsError,
   EmailAlreadyExistsError,
   ForbiddenError,
+  InvalidCurrentPasswordError,
   UserNotFoundError,
+  UserPhotoNotFoundError,
   ValidationError,
 } from '../errors';
+import {
+  type ImportUserRow,
+  ImportUserRowSchema,
+} from '../validators/importUsersValidator';
+
+type UserImportColumns = Partial<Record<UserImportField, number>>;
+
+/**
+ * Values already seen in the import file, with the line they appeared in
+ */
+type UserImportSeenValues = Record<
+  'email' | 'cpf' | 'coren',
+  Map<string, number>
+>;
 
 /**
  * UserService - Service layer for user business logic
@@ -44,11 +88,17 @@ import {
  * Dependencies:
  * - IUserStore: Injected via constructor for data access operations
  *   Allows switching between Prisma (production) and Mock (testing)
+ * - IFileStorage: Stores profile photos
+ * - IUserSessionStore: Revokes login sessions of deactivated/deleted users
+ *   and on password changes
  */
 @injectable()
 export class UserService {
   constructor(
     @inject(TOKENS.IUserStore) private readonly userStore: IUserStore,
+    @inject(TOKENS.IFileStorage) private readonly fileStorage: IFileStorage,
+    @inject(TOKENS.IUserSessionStore)
+    private readonly userSessionStore: IUserSessionStore,
   ) {}
 
   /**
@@ -58,6 +108,7 @@ export class UserService {
    * - Email must be unique
    * - CPF must be unique
    * - NURSE role requires a unique COREN
+   * - Password must follow the password policy
    * - Password is hashed before storage
    * - Response excludes sensitive data (password)
    *
@@ -76,20 +127,9 @@ export class UserService {
    */
   async createUser(data: CreateUserDTO): Promise<UserResponse> {
     try {
-      await this.validateUserUniqueness(data);
-
-      const hashedPassword = await hashPassword(data.password);
-
-      const user = await this.userStore.create({
-        name: data.name,
-        email: normalizeEmail(data.email),
-        password: hashedPassword,
-        cpf: data.cpf,
-        phone: data.phone,
-        role: data.role,
-        coren: data.coren,
-        updatedAt: dayjs().toDate(),
-      });
+      const user = await this.userStore.create(
+        await this.buildUserCreateInput(data),
+      );
 
       return toUserResponse(user);
     } catch (error) {
@@ -98,11 +138,160 @@ export class UserService {
     }
   }
 
+  /**
+   * Validates a new user and prepares the store input, without saving it
+   *
+   * Same rules as createUser (password policy, uniqueness of email, CPF
+   * and COREN). Lets other flows create the user inside their own
+   * transaction, e.g. accepting an invitation.
+   *
+   * @param data - User creation data
+   * @returns Store input with the password hashed
+   * @throws ValidationError if the password breaks the policy
+   * @throws EmailAlreadyExistsError, CPFAlreadyExistsError or
+   *   CORENAlreadyExistsError if the data is already registered
+   */
+  async buildUserCreateInput(data: CreateUserDTO): Promise<UserCreateInput> {
+    assertPasswordPolicy(data.password);
+    await this.validateUserUniqueness(data);
+
+    return {
+      name: data.name,
+      email: normalizeEmail(data.email),
+      password: await hashPassword(data.password),
+      cpf: data.cpf,
+      phone: data.phone,
+      role: data.role,
+      coren: data.coren,
+      updatedAt: dayjs().toDate(),
+    };
+  }
+
+  /**
+   * Imports employees from a CSV file
+   *
+   * Business Rules:
+   * - Columns: name, email, cpf, phone (required), role and coren (optional),
+   *   see USER_IMPORT_COLUMNS for the accepted headers
+   * - Each row is checked with the registration rules and the same
+   *   uniqueness checks as createUser, plus duplicates inside the file
+   * - role defaults to EMPLOYEE, NURSE rows require a COREN
+   * - At most USER_IMPORT_MAX_ROWS employees per file
+   * - Dry run: only validates, nothing is created
+   * - Otherwise valid rows are created in a single transaction and invalid
+   *   rows are skipped
+   * - Imported users get an unknown random password and set their own
+   *   through the password recovery
+   *
+   * @param content - Uploaded CSV file
+   * @param dryRun - Validate without creating
+   * @returns Per-row validation result and number of users created
+   * @throws ValidationError if the file is empty, too long or lacks a
+   *   required column
+   *
+   * @example
+   * const preview = await userService.importUsers(file.buffer, true);
+   * // preview.rows[0] → { line: 2, name: 'Ana', ..., errors: ['CPF already registered'] }
+   */
+  async importUsers(
+    content: Buffer,
+    dryRun: boolean,
+  ): Promise<UserImportResult> {
+    const [header = [], ...lines] = parseCsv(content.toString('utf8'));
+    const columns = this.mapImportColumns(header);
+
+    const entries = lines
+      .map((values, index) => ({ values, line: index + 2 }))
+      .filter(({ values }) => values.some((value) => value.trim() !== ''));
+
+    if (entries.length === 0) {
+      throw new ValidationError('The CSV file has no employees to import');
+    }
+
+    if (entries.length > USER_IMPORT_MAX_ROWS) {
+      throw new ValidationError(
+        `The CSV file must have at most ${USER_IMPORT_MAX_ROWS} employees`,
+      );
+    }
+
+    const seen: UserImportSeenValues = {
+      email: new Map(),
+      cpf: new Map(),
+      coren: new Map(),
+    };
+    const rows: UserImportRowResult[] = [];
+    const validUsers: ImportUserRow[] = [];
+
+    for (const { values, line } of entries) {
+      const read = (field: UserImportField) => {
+        const index = columns[field];
+        return index === undefined ? '' : (values[index] ?? '').trim();
+      };
+      const role = read('role').toUpperCase();
+
+      const { user, errors } = await this.validateImportRow(
+        {
+          name: read('name'),
+          email: read('email'),
+          cpf: read('cpf').replace(/\D/g, ''),
+          phone: read('phone').replace(/\D/g, ''),
+          role: role || undefined,
+          coren: read('coren') || undefined,
+        },
+        line,
+        seen,
+      );
+
+      if (user) {
+        validUsers.push(user);
+      }
+
+      rows.push({
+        line,
+        name: read('name'),
+        email: read('email'),
+        role: user?.role ?? role,
+        errors,
+      });
+    }
+
+    let createdCount = 0;
+
+    if (!dryRun && validUsers.length > 0) {
+      const updatedAt = dayjs().toDate();
+      const users = await Promise.all(
+        validUsers.map(async (user) => ({
+          name: user.name,
+          email: normalizeEmail(user.email),
+          // Nobody knows this password: the employee sets theirs through
+          // the password recovery before the first login
+          password: await hashPassword(randomBytes(32).toString('hex')),
+          cpf: user.cpf,
+          phone: user.phone,
+          role: user.role,
+          coren: user.coren,
+          updatedAt,
+        })),
+      );
+
+      createdCount = (await this.userStore.createMany(users)).length;
+    }
+
+    return {
+      dryRun,
+      totalRows: rows.length,
+      validRows: validUsers.length,
+      invalidRows: rows.length - validUsers.length,
+      createdCount,
+      rows,
+    };
+  }
+
   /**
    * Lists users with pagination, sorting, and filtering
    *
    * Business Rules:
-   * - Only MANAGER role can access user list
+   * - Requires the user:read permission (MANAGER, NURSE)
    * - Supports filtering by role (EMPLOYEE, NURSE, MANAGER)
    * - Supports filtering by active status
    * - Default: Returns only active, non-deleted users
@@ -110,7 +299,7 @@ export class UserService {
    * - Pagination prevents excessive data transfer
    *
    * Authorization:
-   * This method requires the requesting user to have MANAGER role.
+   * This method requires the requesting user to have the user:read permission.
    * Authentication check must be done at controller/middleware level.
    *
    * @param requestingUserId - ID of user making the request (for authorization)
@@ -118,7 +307,7 @@ export class UserService {
    * @param filters - Optional filter criteria (role, isActive, excludeDeleted)
    * @returns Paginated list of users without sensitive data
    * @throws UserNotFoundError if requesting user not found
-   * @throws ForbiddenError if requesting user is not MANAGER
+   * @throws ForbiddenError if requesting user lacks user:read
    *
    * @example
    * // List all active nurses
@@ -141,18 +330,14 @@ export class UserService {
     params: PaginationParams,
     filters?: UserFilterParams,
   ): Promise<PaginatedResponse<UserResponse>> {
-    // Authorization: verify requesting user exists and has MANAGER role
+    // Authorization: verify requesting user exists and can read users
     const requestingUser = await this.userStore.findById(requestingUserId);
 
     if (!requestingUser) {
       throw new UserNotFoundError('User not found');
     }
 
-    if (requestingUser.role !== 'MANAGER' && requestingUser.role !== 'NURSE') {
-      throw new ForbiddenError(
-        'Only MANAGER or NURSE role can access user list',
-      );
-    }
+    assertPermission(requestingUser, Permissions.USER_READ);
 
     // Fetch paginated users from store with filters
     const result = await this.userStore.findUsersPaginated(params, filters);
@@ -168,7 +353,7 @@ export class UserService {
    * Gets a user by ID
    *
    * Business Rules:
-   * - MANAGER: Can view any user
+   * - user:read (MANAGER, NURSE): Can view any user
    * - Other roles: Can only view their own profile
    * - Deleted users are treated as not found
    *
@@ -226,11 +411,12 @@ export class UserService {
    * Updates a user
    *
    * Business Rules:
-   * - MANAGER: Can update any user, all fields (name, phone, isActive, role, coren)
+   * - user:write (MANAGER): Can update any user, all fields (name, phone, isActive, role, coren)
    * - Other roles: Can only update their own profile (name, phone only)
    * - Role change to NURSE requires COREN
    * - COREN must be unique if changed
    * - Deleted users cannot be updated
+   * - Deactivating a user revokes all their login sessions
    *
    * @param id - ID of the user to update
    * @param data - Fields to update (all optional)
@@ -317,6 +503,10 @@ export class UserService {
       updatedAt: dayjs().toDate(),
     });
 
+    if (data.isActive === false && user.isActive) {
+      await this.userSessionStore.revokeAllForUser(id, 'USER_DEACTIVATED');
+    }
+
     return toUserResponse(updatedUser);
   }
 
@@ -324,15 +514,16 @@ export class UserService {
    * Deletes a user (soft delete)
    *
    * Business Rules:
-   * - Only MANAGER can delete users
+   * - Requires the user:delete permission (MANAGER)
    * - Cannot delete yourself (prevent accidental lockout)
    * - Uses soft delete (sets deletedAt and isActive=false)
    * - Deleted users are preserved for audit trail
+   * - All login sessions of the user are revoked
    *
    * @param id - ID of the user to delete
    * @param requestingUserId - ID of user making the request (for authorization)
    * @throws UserNotFoundError if user not found or already deleted
-   * @throws ForbiddenError if user is not MANAGER or trying to delete themselves
+   * @throws ForbiddenError if user lacks user:delete or is trying to delete themselves
    *
    * @example
    * await userService.deleteUser('user-to-delete-id', 'manager-id');
@@ -361,12 +552,196 @@ export class UserService {
 
     if (!hasAccess) {
       throw new ForbiddenError(
-        'Only MANAGER can delete users and you cannot delete yourself',
+        'You do not have permission to delete this user and you cannot delete yourself',
       );
     }
 
     // Soft delete the user
     await this.userStore.softDelete(id);
+    await this.userSessionStore.revokeAllForUser(id, 'USER_DELETED');
+  }
+
+  /**
+   * Changes the password of the authenticated user
+   *
+   * Business Rules:
+   * - The current password must be confirmed
+   * - The new password must follow the password policy and differ from the current one
+   * - Every other login session is revoked (PASSWORD_CHANGED); the session
+   *   making the request stays logged in
+   *
+   * @param userId - Authenticated user
+   * @param currentPassword - Password the user has now
+   * @param newPassword - Password to set
+   * @param currentSessionId - Session of the request, kept active
+   * @throws UserNotFoundError if user not found or deleted
+   * @throws InvalidCurrentPasswordError if the current password does not match
+   * @throws ValidationError if the new password breaks the policy or equals the current one
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentSessionId?: string,
+  ): Promise<void> {
+    const user = await this.validateUserExists(userId);
+
+    const isPasswordValid = await comparePassword(
+      currentPassword,
+      user.password,
+    );
+
+    if (!isPasswordValid) {
+      throw new InvalidCurrentPasswordError();
+    }
+
+    if (currentPassword === newPassword) {
+      throw new ValidationError(
+        'New password must be different from the current password',
+      );
+    }
+
+    await this.setPassword(userId, newPassword, currentSessionId);
+  }
+
+  /**
+   * Replaces a user's password and ends their login sessions
+   *
+   * Used by changePassword and by the password reset flow (AuthService).
+   *
+   * @param userId - User whose password changes
+   * @param newPassword - Password to set (checked against the password policy)
+   * @param keepSessionId - Session kept active (omit to revoke all sessions)
+   * @throws ValidationError if the password breaks the policy
+   */
+  async setPassword(
+    userId: string,
+    newPassword: string,
+    keepSessionId?: string,
+  ): Promise<void> {
+    assertPasswordPolicy(newPassword);
+
+    const hashedPassword = await hashPassword(newPassword);
+
+    await this.userStore.update(userId, {
+      password: hashedPassword,
+      updatedAt: dayjs().toDate(),
+    });
+
+    await this.userSessionStore.revokeAllForUser(
+      userId,
+      'PASSWORD_CHANGED',
+      keepSessionId,
+    );
+  }
+
+  /**
+   * Uploads (or replaces) a user's profile photo
+   *
+   * Business Rules:
+   * - Same permissions as updating the user (MANAGER: anyone, others: themselves)
+   * - Only JPEG, PNG and WebP are accepted, detected from the file content
+   * - The previous photo is removed from the storage after the upload
+   *
+   * @param id - ID of the user whose photo is uploaded
+   * @param photo - Uploaded file content and declared content type
+   * @param requestingUserId - ID of user making the request (for authorization)
+   * @returns Updated user object with the new photoUrl
+   * @throws UserNotFoundError if user not found or deleted
+   * @throws ForbiddenError if user lacks permission to update
+   * @throws ValidationError if the file is not a supported image
+   *
+   * @example
+   * const user = await userService.uploadPhoto(
+   *   'user-id',
+   *   { content: buffer, contentType: 'image/png' },
+   *   'user-id'
+   * );
+   */
+  async uploadPhoto(
+    id: string,
+    photo: UploadUserPhotoDTO,
+    requestingUserId: string,
+  ): Promise<UserResponse> {
+    const user = await this.validatePhotoAccess(id, requestingUserId, 'modify');
+
+    const contentType = detectImageContentType(photo.content);
+
+    if (!contentType || !USER_PHOTO_EXTENSIONS[contentType]) {
+      throw new ValidationError('Photo must be a JPEG, PNG or WebP image');
+    }
+
+    const photoKey = `users/${id}/${randomUUID()}.${USER_PHOTO_EXTENSIONS[contentType]}`;
+    await this.fileStorage.save(photoKey, photo.content);
+
+    const updatedUser = await this.userStore.update(id, {
+      photoKey,
+      photoContentType: contentType,
+      updatedAt: dayjs().toDate(),
+    });
+
+    if (user.photoKey) {
+      await this.removeStoredPhoto(user.photoKey);
+    }
+
+    return toUserResponse(updatedUser);
+  }
+
+  /**
+   * Gets a user's profile photo
+   *
+   * Business Rules:
+   * - Same permissions as viewing the user
+   *
+   * @param id - ID of the user whose photo is requested
+   * @param requestingUserId - ID of user making the request (for authorization)
+   * @returns Photo content and content type
+   * @throws UserNotFoundError if user not found or deleted
+   * @throws ForbiddenError if user lacks permission to view the user
+   * @throws UserPhotoNotFoundError if the user has no photo
+   */
+  async getPhoto(id: string, requestingUserId: string): Promise<UserPhoto> {
+    const user = await this.validatePhotoAccess(id, requestingUserId, 'view');
+
+    if (!user.photoKey || !user.photoContentType) {
+      throw new UserPhotoNotFoundError();
+    }
+
+    const content = await this.fileStorage.read(user.photoKey);
+
+    if (!content) {
+      throw new UserPhotoNotFoundError();
+    }
+
+    return { content, contentType: user.photoContentType };
+  }
+
+  /**
+   * Removes a user's profile photo
+   *
+   * Business Rules:
+   * - Same permissions as updating the user
+   *
+   * @param id - ID of the user whose photo is removed
+   * @param requestingUserId - ID of user making the request (for authorization)
+   * @throws UserNotFoundError if user not found or deleted
+   * @throws ForbiddenError if user lacks permission to update
+   * @throws UserPhotoNotFoundError if the user has no photo
+   */
+  async deletePhoto(id: string, requestingUserId: string): Promise<void> {
+    const user = await this.validatePhotoAccess(id, requestingUserId, 'modify');
+
+    if (!user.photoKey) {
+      throw new UserPhotoNotFoundError();
+    }
+
+    await this.userStore.update(id, {
+      photoKey: null,
+      photoContentType: null,
+      updatedAt: dayjs().toDate(),
+    });
+
+    await this.removeStoredPhoto(user.photoKey);
   }
 
   /**
@@ -395,32 +770,64 @@ export class UserService {
   }
 
   /**
-   * Validates if a user has MANAGER role
+   * Validates that no user is registered with an email
    *
-   * This utility method provides authorization validation for operations
-   * that require MANAGER role. It combines existence check with role validation
-   * in a single operation.
+   * Deleted users keep their email, so it cannot be reused either.
+   *
+   * @param email - Email to check (normalized before the lookup)
+   * @throws EmailAlreadyExistsError if the email is taken
+   */
+  async assertEmailAvailable(email: string): Promise<void> {
+    const emailExists = await this.userStore.emailExists(normalizeEmail(email));
+    if (emailExists) {
+      throw new EmailAlreadyExistsError();
+    }
+  }
+
+  /**
+   * Validates that a user has a permission
+   *
+   * This utility method provides authorization validation for other
+   * services. It combines existence check with the permission check
+   * (see ROLE_PERMISSIONS) in a single operation.
    *
    * Business Rules:
    * - User must exist and not be deleted
-   * - User must have MANAGER role
+   * - User's role must grant the permission
+   * - The system user has every permission
    *
    * @param userId - ID of the user to validate
+   * @param permission - Permission required by the action
+   * @returns The validated user
    * @throws UserNotFoundError if user not found or deleted
-   * @throws ForbiddenError if user is not a MANAGER
+   * @throws ForbiddenError if the user lacks the permission
    *
    * @example
-   * await userService.validateManagerRole('user-id');
-   * // If no exception thrown, user is a MANAGER and can proceed
+   * await userService.validatePermission('user-id', Permissions.BATCH_WRITE);
+   * // If no exception thrown, the user can proceed
    */
-  async validateManagerRole(userId: string): Promise<void> {
+  async validatePermission(
+    userId: string,
+    permission: Permission,
+  ): Promise<User> {
     if (userId === DEFAULT_USER_SYSTEM_ID) {
-      return;
+      return DEFAULT_USER_SYSTEM;
     }
     const user = await this.validateUserExists(userId);
-    if (user.role !== 'MANAGER') {
-      throw new ForbiddenError('Only MANAGER can perform this action');
-    }
+    assertPermission(user, permission);
+    return user;
+  }
+
+  /**
+   * Lists the permissions of a user
+   *
+   * @param userId - ID of the user
+   * @returns Permissions granted by the user's role
+   * @throws UserNotFoundError if user not found or deleted
+   */
+  async getUserPermissions(userId: string): Promise<Permission[]> {
+    const user = await this.validateUserExists(userId);
+    return getPermissionsForRole(user.role);
   }
 
   /**
@@ -447,27 +854,145 @@ export class UserService {
     return user.role;
   }
 
-  async getUserAndValidateRequestingRoles(
-    userId: string,
-    requiredRoles: UserRole[],
-    actionDescription: string,
+  /**
+   * Loads the target user and checks the requester's permission on it
+   */
+  private async validatePhotoAccess(
+    id: string,
+    requestingUserId: string,
+    reqType: 'view' | 'modify',
   ): Promise<User> {
-    const user = await this.validateUserExists(userId);
-    if (!requiredRoles.includes(user.role)) {
+    const user = await this.validateUserExists(id);
+    const requestingUser = await this.userStore.findById(requestingUserId);
+
+    if (!requestingUser) {
+      throw new UserNotFoundError('Requesting user not found');
+    }
+
+    const hasAccess = canAccessUser({
+      requester: requestingUser,
+      targetUser: user,
+      reqType,
+    });
+
+    if (!hasAccess) {
       throw new ForbiddenError(
-        `Only users with roles ${requiredRoles.join(', ')} can perform this action: ${actionDescription}`,
+        reqType === 'view'
+          ? 'You do not have permission to view this user'
+          : 'You do not have permission to modify this user',
       );
     }
+
     return user;
   }
 
-  private async validateUserUniqueness(data: CreateUserDTO): Promise<void> {
-    const normalizedEmail = normalizeEmail(data.email);
-    const emailExists = await this.userStore.emailExists(normalizedEmail);
-    if (emailExists) {
-      throw new EmailAlreadyExistsError();
+  /**
+   * Removes a photo that is no longer referenced
+   *
+   * Failures are only logged: the user is already updated and an orphan
+   * file does not affect the API.
+   */
+  private async removeStoredPhoto(photoKey: string): Promise<void> {
+    try {
+      await this.fileStorage.delete(photoKey);
+    } catch (error) {
+      console.error(`Error removing photo '${photoKey}':`, error);
+    }
+  }
+
+  /**
+   * Finds the index of each import field in the CSV header
+   *
+   * @throws ValidationError if a required column is missing
+   */
+  private mapImportColumns(header: string[]): UserImportColumns {
+    const normalized = header.map((name) =>
+      name
+        .normalize('NFD')
+        .replace(/\p{Diacritic}/gu, '')
+        .trim()
+        .toLowerCase(),
+    );
+    const columns: UserImportColumns = {};
+
+    for (const [field, names] of Object.entries(USER_IMPORT_COLUMNS)) {
+      const index = normalized.findIndex((name) =>
+        (names as readonly string[]).includes(name),
+      );
+      if (index !== -1) {
+        columns[field as UserImportField] = index;
+      }
     }
 
+    const missing = USER_IMPORT_REQUIRED_FIELDS.filter(
+      (field) => columns[field] === undefined,
+    );
+
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `The CSV file is missing the required columns: ${missing.join(', ')}`,
+      );
+    }
+
+    return columns;
+  }
+
+  /**
+   * Validates one employee of the import
+   *
+   * Format errors are all reported together; duplicates inside the file and
+   * uniqueness in the database are only checked once the format is valid.
+   *
+   * @returns The parsed user when the row can be imported, and its errors
+   */
+  private async validateImportRow(
+    row: Record<string, string | undefined>,
+    line: number,
+    seen: UserImportSeenValues,
+  ): Promise<{ user?: ImportUserRow; errors: string[] }> {
+    const parsed = ImportUserRowSchema.safeParse(row);
+
+    if (!parsed.success) {
+      return { errors: parsed.error.issues.map((issue) => issue.message) };
+    }
+
+    const user = parsed.data;
+    const errors: string[] = [];
+    const labels = { email: 'Email', cpf: 'CPF', coren: 'COREN' };
+
+    for (const field of ['email', 'cpf', 'coren'] as const) {
+      const value = user[field];
+      if (!value) continue;
+
+      const firstLine = seen[field].get(value);
+      if (firstLine !== undefined) {
+        errors.push(`${labels[field]} repeated from line ${firstLine}`);
+      } else {
+        seen[field].set(value, line);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    try {
+      await this.validateUserUniqueness(user);
+    } catch (error) {
+      if (error instanceof AppError) {
+        return { errors: [error.message] };
+      }
+      throw error;
+    }
+
+    return { user, errors };
+  }
+
+  private async validateUserUniqueness(
+    data: Pick<CreateUserDTO, 'email' | 'cpf' | 'role' | 'coren'>,
+  ): Promise<void> {
+    await this.assertEmailAvailable(data.email);
+
     const cpfExists = await this.userStore.cpfExists(data.cpf);
     if (cpfExists) {
       throw new CPFAlreadyExistsError();
@@ -55,6 +55,8 @@ export class MockUserStore
         role: "MANAGER",
         isActive: true,
         coren: null,
+        photoKey: null,
+        photoContentType: null,
         createdAt: new Date("2024-01-01"),
         updatedAt: new Date("2024-01-01"),
         deletedAt: null,
@@ -69,6 +71,8 @@ export class MockUserStore
         role: "NURSE",
         isActive: true,
         coren: "COREN-SP-123456",
+        photoKey: null,
+        photoContentType: null,
         createdAt: new Date("2024-01-02"),
         updatedAt: new Date("2024-01-02"),
         deletedAt: null,
@@ -83,6 +87,8 @@ export class MockUserStore
         role: "EMPLOYEE",
         isActive: true,
         coren: null,
+        photoKey: null,
+        photoContentType: null,
         createdAt: new Date("2024-01-03"),
         updatedAt: new Date("2024-01-03"),
         deletedAt: null,
@@ -117,6 +123,8 @@ export class MockUserStore
       role: data.role || "EMPLOYEE",
       isActive: data.isActive ?? true,
       coren: data.coren || null,
+      photoKey: null,
+      photoContentType: null,
       createdAt: now,
       updatedAt: now,
       deletedAt: null,
@@ -137,6 +145,11 @@ export class MockUserStore
       role: (data.role as any) ?? existing.role,
       isActive: data.isActive !== undefined ? (data.isActive as boolean) : existing.isActive,
       coren: data.coren !== undefined ? (data.coren as string | null) : existing.coren,
+      photoKey: data.photoKey !== undefined ? (data.photoKey as string | null) : existing.photoKey,
+      photoContentType:
+        data.photoContentType !== undefined
+          ? (data.photoContentType as string | null)
+          : existing.photoContentType,
       updatedAt: new Date(),
     };
   }
@@ -359,6 +372,20 @@ export class MockUserStore
     return count;
   }
 
+  /**
+   * Creates several users
+   *
+   * @param data - Users to create, passwords already hashed
+   * @returns Created users, in the same order
+   */
+  async createMany(data: Prisma.UserCreateInput[]): Promise<User[]> {
+    const users: User[] = [];
+    for (const user of data) {
+      users.push(await this.create(user));
+    }
+    return users;
+  }
+
   /**
    * Finds users with pagination, sorting, and optional filtering (In-Memory Implementation)
    *
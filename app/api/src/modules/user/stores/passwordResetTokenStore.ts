@@ -0,0 +1,58 @@
+/**
+ * PasswordResetTokenStore - Prisma-based implementation of IPasswordResetTokenStore
+ *
+ * Keeps the single-use tokens sent in password reset links.
+ */
+
+import type { IPasswordResetTokenStore } from '@shared/interfaces/passwordResetToken';
+import type {
+  PasswordResetToken,
+  PasswordResetTokenCreateInput,
+  PasswordResetTokenDelegate,
+  PasswordResetTokenUpdateInput,
+} from '@shared/models/passwordResetToken';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+
+@injectable()
+export class PasswordResetTokenStore
+  extends BaseStore<
+    PasswordResetToken,
+    PasswordResetTokenDelegate,
+    PasswordResetTokenCreateInput,
+    PasswordResetTokenUpdateInput
+  >
+  implements IPasswordResetTokenStore
+{
+  protected readonly model = this.prisma.passwordResetToken;
+
+  async findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    return this.model.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  async consume(id: string): Promise<boolean> {
+    const now = new Date();
+
+    const result = await this.model.updateMany({
+      where: {
+        id,
+        usedAt: null,
+        expiresAt: { gt: now },
+      },
+      data: { usedAt: now },
+    });
+
+    return result.count === 1;
+  }
+
+  async invalidateAllForUser(userId: string): Promise<number> {
+    const result = await this.model.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return result.count;
+  }
+}
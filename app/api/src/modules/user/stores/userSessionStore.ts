@@ -0,0 +1,125 @@
+/**
+ * UserSessionStore - Prisma-based implementation of IUserSessionStore
+ *
+ * Keeps the login sessions used by AuthService to issue, rotate and revoke
+ * refresh tokens. Revocations use updateMany with `revokedAt: null` so a
+ * session is only revoked once and keeps its original revocation reason.
+ */
+
+import type { SessionRevocationReason } from '@infrastructure/database';
+import type { IUserSessionStore } from '@shared/interfaces/userSession';
+import type {
+  UserSession,
+  UserSessionCreateInput,
+  UserSessionDelegate,
+  UserSessionUpdateInput,
+} from '@shared/models/userSession';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+
+@injectable()
+export class UserSessionStore
+  extends BaseStore<
+    UserSession,
+    UserSessionDelegate,
+    UserSessionCreateInput,
+    UserSessionUpdateInput
+  >
+  implements IUserSessionStore
+{
+  protected readonly model = this.prisma.userSession;
+
+  async findActiveById(id: string): Promise<UserSession | null> {
+    return this.model.findFirst({
+      where: {
+        id,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+    });
+  }
+
+  async findActiveByUser(userId: string): Promise<UserSession[]> {
+    return this.model.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  async findByRefreshTokenHash(
+    refreshTokenHash: string,
+  ): Promise<UserSession | null> {
+    return this.model.findUnique({
+      where: { refreshTokenHash },
+    });
+  }
+
+  async findByPreviousTokenHash(
+    previousTokenHash: string,
+  ): Promise<UserSession | null> {
+    return this.model.findUnique({
+      where: { previousTokenHash },
+    });
+  }
+
+  async rotate(
+    id: string,
+    currentHash: string,
+    nextHash: string,
+  ): Promise<boolean> {
+    const now = new Date();
+
+    const result = await this.model.updateMany({
+      where: {
+        id,
+        refreshTokenHash: currentHash,
+        revokedAt: null,
+        expiresAt: { gt: now },
+      },
+      data: {
+        refreshTokenHash: nextHash,
+        previousTokenHash: currentHash,
+        rotatedAt: now,
+        lastUsedAt: now,
+      },
+    });
+
+    return result.count === 1;
+  }
+
+  async revoke(id: string, reason: SessionRevocationReason): Promise<boolean> {
+    const result = await this.model.updateMany({
+      where: { id, revokedAt: null },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason,
+      },
+    });
+
+    return result.count === 1;
+  }
+
+  async revokeAllForUser(
+    userId: string,
+    reason: SessionRevocationReason,
+    exceptId?: string,
+  ): Promise<number> {
+    const result = await this.model.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptId && { id: { not: exceptId } }),
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason,
+      },
+    });
+
+    return result.count;
+  }
+}
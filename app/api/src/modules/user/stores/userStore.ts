@@ -237,6 +237,18 @@ export class UserStore
     });
   }
 
+  /**
+   * Creates several users in a single transaction
+   *
+   * @param data - Users to create, passwords already hashed
+   * @returns Created users, in the same order
+   */
+  async createMany(data: UserCreateInput[]): Promise<User[]> {
+    return this.prisma.$transaction(
+      data.map((user) => this.model.create({ data: user })),
+    );
+  }
+
   /**
    * Finds users with pagination, sorting, and optional filtering
    *
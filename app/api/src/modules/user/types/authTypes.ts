@@ -1,7 +1,27 @@
+import type { Permission } from '@shared/constants/permissions';
 import { UserResponse } from '@shared/models/user';
 
 export interface AuthResponse {
   user: UserResponse;
   token: string;
   expiresIn: string;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+/**
+ * Authenticated user and the permissions granted by their role
+ */
+export interface CurrentUserResponse {
+  user: UserResponse;
+  permissions: Permission[];
+}
+
+/**
+ * Client information recorded on the session when a user logs in,
+ * so the user can recognize their devices in the session list
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
 }
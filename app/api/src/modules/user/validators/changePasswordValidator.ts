@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { PasswordSchema } from './passwordValidator';
+
+/**
+ * Validation schema for changing the authenticated user's password
+ *
+ * The current password is only checked for presence here; it is compared
+ * with the stored hash in the service layer.
+ */
+export const ChangePasswordSchema = z.object({
+  currentPassword: z
+    .string()
+    .min(1, 'Current password is required')
+    .max(128, 'Password too long'),
+  newPassword: PasswordSchema,
+});
+
+export type ChangePasswordDTO = z.infer<typeof ChangePasswordSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const ForgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .min(1, 'Email is required')
+    .email('Invalid email format')
+    .toLowerCase()
+    .trim()
+    .max(255, 'Email too long'),
+});
+
+export type ForgotPasswordDTO = z.infer<typeof ForgotPasswordSchema>;
@@ -0,0 +1,41 @@
+import { Role } from '@infrastructure/database/generated/prisma';
+import { z } from 'zod';
+import { RegisterSchema } from './registerValidator';
+
+/**
+ * Query of POST /users/import
+ * - dryRun: 'true' validates the file without creating anyone
+ */
+export const ImportUsersQuerySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'], { message: 'dryRun must be true or false' })
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
+export type ImportUsersQuery = z.infer<typeof ImportUsersQuerySchema>;
+
+/**
+ * One employee of the import CSV
+ *
+ * Same account fields as the open registration, except the password (the
+ * employee sets it through the password recovery), plus the role and COREN
+ * a manager can assign
+ */
+export const ImportUserRowSchema = RegisterSchema.pick({
+  email: true,
+  name: true,
+  cpf: true,
+  phone: true,
+}).extend({
+  role: z
+    .nativeEnum(Role, { message: 'Role must be EMPLOYEE, NURSE or MANAGER' })
+    .default(Role.EMPLOYEE),
+  coren: z
+    .string()
+    .trim()
+    .min(1, 'COREN cannot be empty if provided')
+    .optional(),
+});
+
+export type ImportUserRow = z.infer<typeof ImportUserRowSchema>;
@@ -0,0 +1,15 @@
+import { getPasswordPolicyViolations } from '@shared/helpers/passwordHelper';
+import { z } from 'zod';
+
+/**
+ * Validation schema for a new password
+ * Applies the password policy from passwordHelper (one issue per broken rule)
+ */
+export const PasswordSchema = z.string().superRefine((password, ctx) => {
+  for (const message of getPasswordPolicyViolations(password)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message,
+    });
+  }
+});
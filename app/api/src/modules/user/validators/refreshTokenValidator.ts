@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for endpoints receiving a refresh token
+ * (POST /auth/refresh and POST /auth/logout)
+ */
+export const RefreshTokenSchema = z.object({
+  refreshToken: z
+    .string()
+    .trim()
+    .min(1, 'Refresh token is required')
+    .max(255, 'Refresh token too long'),
+});
+
+export type RefreshTokenDTO = z.infer<typeof RefreshTokenSchema>;
@@ -1,5 +1,10 @@
 import { z } from 'zod';
+import { PasswordSchema } from './passwordValidator';
 
+/**
+ * Open self-registration only creates EMPLOYEE accounts. Nurses and
+ * managers join through an invitation (see POST /invitations).
+ */
 export const RegisterSchema = z.object({
   email: z
     .string()
@@ -8,14 +13,7 @@ export const RegisterSchema = z.object({
     .toLowerCase()
     .trim()
     .max(255, 'Email too long'),
-  password: z
-    .string()
-    .min(8, 'Password must be at least 8 characters')
-    .max(128, 'Password too long')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number')
-    .regex(/[^A-Za-z0-9]/, 'Password must contain at least one special character'),
+  password: PasswordSchema,
   name: z
     .string()
     .min(2, 'Name must be at least 2 characters')
@@ -29,27 +27,12 @@ export const RegisterSchema = z.object({
     .string()
     .min(1, 'Phone is required')
     .regex(/^\d{10,11}$/, 'Phone must be 10 or 11 digits'),
-  role: z.enum(['EMPLOYEE', 'NURSE', 'MANAGER']),
-  coren: z
-    .string()
-    .optional()
-})
-  .superRefine((data, ctx) => {
-    if (data.role === 'NURSE') {
-      if (!data.coren || data.coren.trim().length === 0) {
-        ctx.addIssue({
-          path: ['coren'],
-          code: z.ZodIssueCode.custom,
-          message: 'COREN is required for NURSE role',
-        });
-      }
-    } else if (data.coren && data.coren.trim().length === 0) {
-      ctx.addIssue({
-        path: ['coren'],
-        code: z.ZodIssueCode.custom,
-        message: 'COREN cannot be empty if provided',
-      });
-    }
-  });
+  role: z
+    .enum(['EMPLOYEE'], {
+      message:
+        'Self-registration is only available for the EMPLOYEE role; other roles require an invitation',
+    })
+    .default('EMPLOYEE'),
+});
 
 export type RegisterDTO = z.infer<typeof RegisterSchema>;
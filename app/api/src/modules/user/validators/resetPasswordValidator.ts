@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { PasswordSchema } from './passwordValidator';
+
+export const ResetPasswordSchema = z.object({
+  token: z
+    .string()
+    .trim()
+    .min(1, 'Reset token is required')
+    .max(255, 'Reset token too long'),
+  newPassword: PasswordSchema,
+});
+
+export type ResetPasswordDTO = z.infer<typeof ResetPasswordSchema>;
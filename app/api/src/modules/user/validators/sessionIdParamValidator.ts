@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for session ID parameter
+ * Ensures the ID is a valid UUID format
+ */
+export const SessionIdParamSchema = z.object({
+  id: z.string().uuid('Invalid session ID format'),
+});
+
+export type SessionIdParam = z.infer<typeof SessionIdParamSchema>;
@@ -1,5 +1,7 @@
 import { TOKENS } from '@infrastructure/di/tokens';
 import { ForbiddenError, UserNotFoundError } from '@modules/user/errors';
+import { Permissions } from '@shared/constants/permissions';
+import { hasPermission } from '@shared/helpers/permissionHelper';
 import type { IUserStore } from '@shared/interfaces/user';
 import type { IVaccineStore } from '@shared/interfaces/vaccine';
 import type { IVaccineApplicationStore } from '@shared/interfaces/vaccineApplication';
@@ -34,7 +36,7 @@ export class VaccinationCoverageService {
       throw new UserNotFoundError(`User with ID ${requestingUserId} not found`);
     }
 
-    if (user.role !== 'MANAGER') {
+    if (!hasPermission(user.role, Permissions.COVERAGE_READ)) {
       throw new ForbiddenError(
         `User with ID ${requestingUserId} does not have permission to access vaccination coverage data`,
       );
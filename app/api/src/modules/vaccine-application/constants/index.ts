@@ -1,3 +1,8 @@
+import { EXPORT_DATE_FORMAT } from '@shared/helpers/exportHelper';
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { ExportColumn } from '@shared/models/export';
+import type { VaccineApplicationDetailed } from '@shared/models/vaccineApplication';
+
 export const allowedVaccineApplicationSortFields = [
   'applicationDate',
   'doseNumber',
@@ -15,3 +20,56 @@ export const APPLICATION_SITE_OPTIONS = [
   'Abdomen',
   'Buttocks',
 ] as const;
+
+/**
+ * Columns of the application list export
+ * (GET /vaccine-applications?format=csv|xlsx)
+ */
+export const APPLICATION_EXPORT_COLUMNS: ExportColumn<VaccineApplicationDetailed>[] =
+  [
+    {
+      header: 'Data da aplicação',
+      value: (application) => application.applicationDate,
+    },
+    {
+      header: 'Funcionário',
+      value: (application) => application.user.name,
+      width: 30,
+    },
+    {
+      header: 'E-mail',
+      value: (application) => application.user.email,
+      width: 30,
+    },
+    {
+      header: 'Vacina',
+      value: (application) => application.vaccine.name,
+      width: 30,
+    },
+    {
+      header: 'Fabricante',
+      value: (application) => application.vaccine.manufacturer,
+      width: 24,
+    },
+    { header: 'Dose', value: (application) => application.doseNumber },
+    { header: 'Lote', value: (application) => application.batch.batchNumber },
+    {
+      header: 'Validade do lote',
+      value: (application) =>
+        formatDate(application.batch.expirationDate, EXPORT_DATE_FORMAT),
+    },
+    {
+      header: 'Local de aplicação',
+      value: (application) => application.applicationSite,
+    },
+    {
+      header: 'Aplicada por',
+      value: (application) => application.appliedBy.name,
+      width: 30,
+    },
+    {
+      header: 'Observações',
+      value: (application) => application.observations,
+      width: 40,
+    },
+  ];
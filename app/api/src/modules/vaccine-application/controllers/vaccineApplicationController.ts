@@ -1,9 +1,13 @@
 import type { NextFunction, Request, Response } from 'express';
+import type { CertificateService } from '@modules/certificate/services/certificateService';
 import type { VaccineApplicationService } from '@modules/vaccine-application/services/vaccineApplicationService';
+import type { BatchSuggestionQueryDTO } from '@modules/vaccine-application/validators/batchSuggestionValidator';
 import type { CreateVaccineApplicationDTO } from '@modules/vaccine-application/validators/createVaccineApplicationValidator';
 import type { UpdateVaccineApplicationDTO } from '@modules/vaccine-application/validators/updateVaccineApplicationValidator';
+import type { VoidVaccineApplicationDTO } from '@modules/vaccine-application/validators/voidVaccineApplicationValidator';
 import type { ListVaccineApplicationsQueryDTO } from '@modules/vaccine-application/validators/listVaccineApplicationsValidator';
 import type { VaccineApplicationFilterParams } from '@shared/interfaces/vaccineApplication';
+import { sendExport } from '@shared/helpers/exportHelper';
 import { inject, injectable } from 'tsyringe';
 import { TOKENS } from '@infrastructure/di/tokens';
 
@@ -27,6 +31,8 @@ export class VaccineApplicationController {
   constructor(
     @inject(TOKENS.VaccineApplicationService)
     private readonly vaccineApplicationService: VaccineApplicationService,
+    @inject(TOKENS.CertificateService)
+    private readonly certificateService: CertificateService,
   ) {}
 
   /**
@@ -40,7 +46,7 @@ export class VaccineApplicationController {
    * - receivedById: UUID of the patient receiving the vaccine
    * - appliedById: UUID of the NURSE who physically applies the vaccine
    * - vaccineId: UUID of the vaccine being applied
-   * - batchId: UUID of the vaccine batch
+   * - batchId: Optional UUID of the vaccine batch (FEFO pick when omitted)
    * - doseNumber: Dose number (1, 2, 3, etc.)
    * - applicationSite: Body location where vaccine is applied
    * - observations: Optional notes about the application
@@ -65,7 +71,7 @@ export class VaccineApplicationController {
    *   "observations": "Patient tolerated well"
    * }
    *
-   * Response: 201 Created
+   * Response: 201 Created (application plus `batch` and `batchAutoSelected`)
    */
   async create(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -84,6 +90,37 @@ export class VaccineApplicationController {
     }
   }
 
+  /**
+   * Suggests the batch to use for a vaccine (FEFO)
+   *
+   * HTTP Endpoint: GET /vaccine-applications/batch-suggestion
+   * Authorization: application:create (NURSE)
+   * Query Parameters:
+   * - vaccineId: string (UUID) - Vaccine to be applied
+   *
+   * Response: 200 OK
+   * { batch object }
+   */
+  async suggestBatch(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { vaccineId } = req.query as unknown as BatchSuggestionQueryDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const batch = await this.vaccineApplicationService.suggestBatch(
+        vaccineId,
+        requestingUserId,
+      );
+
+      res.status(200).json(batch);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get a single vaccine application by ID
    *
@@ -131,11 +168,13 @@ export class VaccineApplicationController {
    * - appliedById: string (UUID) - Filter by nurse who applied
    * - batchId: string (UUID) - Filter by batch
    * - doseNumber: number - Filter by dose number
+   * - format: 'csv' | 'xlsx' - Download every matching application instead of a page
    *
    * Examples:
    * - GET /vaccine-applications → List all (role-filtered)
    * - GET /vaccine-applications?userId=uuid → List for specific user
    * - GET /vaccine-applications?vaccineId=uuid&doseNumber=1 → List first doses of vaccine
+   * - GET /vaccine-applications?vaccineId=uuid&format=xlsx → Spreadsheet of a vaccine's applications
    *
    * Response: 200 OK
    * {
@@ -175,6 +214,20 @@ export class VaccineApplicationController {
       if (query.batchId) filters.batchId = query.batchId;
       if (query.doseNumber !== undefined) filters.doseNumber = query.doseNumber;
 
+      if (query.format) {
+        const dataExport =
+          await this.vaccineApplicationService.exportApplications(
+            {
+              sortBy: paginationParams.sortBy,
+              sortOrder: paginationParams.sortOrder,
+            },
+            requestingUserId,
+            filters,
+          );
+        await sendExport(res, query.format, dataExport);
+        return;
+      }
+
       const result =
         await this.vaccineApplicationService.getPaginatedApplications(
           paginationParams,
@@ -224,6 +277,43 @@ export class VaccineApplicationController {
     }
   }
 
+  /**
+   * Void a mistakenly recorded vaccine application
+   *
+   * HTTP Endpoint: POST /vaccine-applications/:id/void
+   * Authorization: application:void (MANAGER)
+   * Body: { reason: string }
+   *
+   * The application is soft-deleted, its dose returns to the batch and a
+   * linked scheduling is reopened.
+   *
+   * @example
+   * POST /vaccine-applications/uuid/void
+   * Headers: Authorization: Bearer <token>
+   * {
+   *   "reason": "Recorded for the wrong patient"
+   * }
+   *
+   * Response: 200 OK (application with its voidRecord)
+   */
+  async void(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body as VoidVaccineApplicationDTO;
+      const requestingUserId = req.user?.userId!;
+
+      const application = await this.vaccineApplicationService.voidApplication(
+        id,
+        reason,
+        requestingUserId,
+      );
+
+      res.status(200).json(application);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get user's complete vaccination history
    *
@@ -255,4 +345,40 @@ export class VaccineApplicationController {
       next(error);
     }
   }
+
+  /**
+   * Download user's vaccination card as a PDF
+   *
+   * HTTP Endpoint: GET /vaccine-applications/users/:userId/history.pdf
+   * Authorization: Same as getUserHistory
+   *
+   * The card is issued by CertificateService, so its verification code can
+   * be checked at GET /certificates/verify/:code.
+   *
+   * Response: 200 OK with Content-Disposition: attachment
+   */
+  async getUserHistoryPdf(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+      const requestingUserId = req.user?.userId!;
+
+      const file = await this.certificateService.issueVaccinationCard(
+        id,
+        requestingUserId,
+      );
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${file.fileName}"`,
+      );
+      res.status(200).send(file.content);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
@@ -70,3 +70,23 @@ export class UnauthorizedApplicationUpdateError extends AppError {
     this.name = 'UnauthorizedApplicationUpdateError';
   }
 }
+
+export class NoAvailableBatchError extends AppError {
+  constructor(vaccineId: string) {
+    super(
+      `No available batch with remaining doses for vaccine ${vaccineId}`,
+      400,
+    );
+    this.name = 'NoAvailableBatchError';
+  }
+}
+
+export class LaterDosesAppliedError extends AppError {
+  constructor(doseNumber: number, laterDoses: number[]) {
+    super(
+      `Dose ${doseNumber} cannot be voided while later doses are applied (${laterDoses.join(', ')}). Void them first`,
+      409,
+    );
+    this.name = 'LaterDosesAppliedError';
+  }
+}
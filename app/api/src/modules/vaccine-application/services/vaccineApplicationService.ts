@@ -1,7 +1,6 @@
 import { TOKENS } from '@infrastructure/di/tokens';
 import {
   EventNames,
-  type IEventBus,
   type VaccineAppliedEvent,
 } from '@modules/notifications/contracts';
 import { UserNotFoundError, ValidationError } from '@modules/user/errors';
@@ -15,16 +14,23 @@ import type { UpdateVaccineApplicationDTO } from '@modules/vaccine-application/v
 import { VaccineBatchNotFoundError } from '@modules/vaccine-batch/errors';
 import { VaccineSchedulingNotFoundError } from '@modules/vaccine-scheduling';
 import { VaccineNotFoundError } from '@modules/vaccines/errors';
+import { Permissions } from '@shared/constants/permissions';
+import {
+  assertPermission,
+  hasPermission,
+} from '@shared/helpers/permissionHelper';
 import { normalizeText } from '@shared/helpers/textHelper';
 import {
   MILLISECONDS_IN_A_DAY,
   getCurrentDate,
   getCurrentTimestamp,
+  isDateBeforeToday,
   transformDateToTimestamp,
 } from '@shared/helpers/timeHelper';
 import type {
   PaginatedResponse,
   PaginationParams,
+  SortParams,
 } from '@shared/interfaces/pagination';
 import type { IUserStore } from '@shared/interfaces/user';
 import type { IVaccineStore } from '@shared/interfaces/vaccine';
@@ -34,21 +40,29 @@ import type {
 } from '@shared/interfaces/vaccineApplication';
 import type { IVaccineBatchStore } from '@shared/interfaces/vaccineBatch';
 import type { IVaccineSchedulingStore } from '@shared/interfaces/vaccineScheduling';
+import type { DataExport } from '@shared/models/export';
+import type { OutboxEventCreateInput } from '@shared/models/outboxEvent';
 import type { User } from '@shared/models/user';
 import type { Vaccine } from '@shared/models/vaccine';
 import type {
+  CreatedVaccineApplication,
   VaccineApplication,
+  VaccineApplicationDetailed,
   VaccineApplicationWithRelations,
+  VoidedVaccineApplication,
 } from '@shared/models/vaccineApplication';
 import type { VaccineBatch } from '@shared/models/vaccineBatch';
 import { inject, injectable } from 'tsyringe';
+import { APPLICATION_EXPORT_COLUMNS } from '../constants';
 import {
   BatchNotAvailableError,
   DuplicateDoseError,
   ExceededRequiredDosesError,
   InsufficientBatchQuantityError,
   InvalidDoseSequenceError,
+  LaterDosesAppliedError,
   MinimumIntervalNotMetError,
+  NoAvailableBatchError,
   UnauthorizedApplicationUpdateError,
   VaccineApplicationNotFoundError,
 } from '../errors';
@@ -126,6 +140,7 @@ export interface VaccinationHistoryResponse {
  * - Depends on UserService for authorization
  * - Uses multiple stores to orchestrate complex operations
  * - Implements atomic transactions for stock management
+ * - vaccine.applied is written to the event outbox inside the same transaction
  */
 @injectable()
 export class VaccineApplicationService {
@@ -140,19 +155,18 @@ export class VaccineApplicationService {
     private readonly vaccineStore: IVaccineStore,
     @inject(TOKENS.IVaccineBatchStore)
     private readonly vaccineBatchStore: IVaccineBatchStore,
-    @inject(TOKENS.IEventBus)
-    private readonly eventBus: IEventBus,
   ) {}
 
   /**
    * Creates a new vaccine application
    *
    * Business Rules:
-   * - Requesting user (who initiates the registration) must be NURSE or MANAGER
-   * - Applicator (who physically applies the vaccine) must be NURSE
+   * - Requesting user is the applicator and must have application:create (NURSE)
    * - Applicator and receiver must be different people
    * - Receiver (patient) must exist and be active
    * - Vaccine must exist and not be deleted
+   * - If batchId is omitted, the AVAILABLE, non-expired batch with remaining
+   *   doses that expires first is used (FEFO)
    * - Batch must exist, be AVAILABLE, and have sufficient quantity
    * - Batch must not be expired
    * - Cannot apply duplicate dose (receivedById + vaccineId + doseNumber must be unique)
@@ -162,18 +176,17 @@ export class VaccineApplicationService {
    * - Batch quantity is decremented atomically in a transaction
    *
    * Authorization:
-   * - Requesting user: NURSE or MANAGER can initiate vaccine application registration
-   * - Applicator: Only NURSE can be the one who physically applies the vaccine
+   * - Requires the application:create permission (NURSE)
    *
    * @param data - Vaccine application creation data including receivedById and appliedById
    * @param requestingUserId - ID of the user initiating the registration (from req.user)
-   * @returns Created vaccine application with all related data
-   * @throws ValidationError if requesting user is not NURSE or MANAGER
-   * @throws ValidationError if applicator is not NURSE
+   * @returns Created vaccine application with the batch used
+   * @throws ForbiddenError if requesting user lacks application:create
    * @throws ValidationError if applicator and receiver are the same person
    * @throws UserNotFoundError if receiver not found
    * @throws VaccineNotFoundError if vaccine not found or deleted
    * @throws VaccineBatchNotFoundError if batch not found or deleted
+   * @throws NoAvailableBatchError if batchId is omitted and no batch can be used
    * @throws ValidationError if batch does not belong to the specified vaccine
    * @throws BatchNotAvailableError if batch status is not AVAILABLE
    * @throws InsufficientBatchQuantityError if batch has no remaining doses
@@ -186,46 +199,104 @@ export class VaccineApplicationService {
   async createApplication(
     data: CreateVaccineApplicationDTO,
     requestingUserId: string,
-  ): Promise<VaccineApplication> {
-    const [requestingUser, batch] = await Promise.all([
+  ): Promise<CreatedVaccineApplication> {
+    const requestingUser = await this.userStore.findById(requestingUserId);
+
+    if (!requestingUser) {
+      throw new UserNotFoundError(`User with ID ${requestingUserId} not found`);
+    }
+
+    assertPermission(requestingUser, Permissions.APPLICATION_CREATE);
+
+    const { application, batch } = isScheduledApplication(data)
+      ? await this.createApplicationWithExistingScheduling(data, requestingUser)
+      : await this.createWalkInApplication(data, requestingUser);
+
+    return {
+      ...application,
+      batch: {
+        id: batch.id,
+        batchNumber: batch.batchNumber,
+        expirationDate: batch.expirationDate,
+      },
+      batchAutoSelected: !data.batchId,
+    };
+  }
+
+  /**
+   * Suggests the batch to use for the next application of a vaccine
+   *
+   * Same FEFO rule used when an application is created without batchId,
+   * so the application form can pre-fill the batch.
+   *
+   * @param vaccineId - Vaccine to be applied
+   * @param requestingUserId - ID of the user requesting the suggestion
+   * @returns AVAILABLE, non-expired batch with remaining doses that expires first
+   * @throws ForbiddenError if requesting user lacks application:create
+   * @throws VaccineNotFoundError if vaccine not found or deleted
+   * @throws NoAvailableBatchError if the vaccine has no usable batch
+   */
+  async suggestBatch(
+    vaccineId: string,
+    requestingUserId: string,
+  ): Promise<VaccineBatch> {
+    const [requestingUser, vaccine] = await Promise.all([
       this.userStore.findById(requestingUserId),
-      this.vaccineBatchStore.findById(data.batchId),
+      this.vaccineStore.findById(vaccineId),
     ]);
 
     if (!requestingUser) {
       throw new UserNotFoundError(`User with ID ${requestingUserId} not found`);
     }
 
-    if (requestingUser.role !== 'NURSE' && requestingUser.role !== 'MANAGER') {
-      throw new ValidationError(
-        'Only users with NURSE or MANAGER role can register vaccines',
-      );
+    assertPermission(requestingUser, Permissions.APPLICATION_CREATE);
+
+    if (!vaccine || vaccine.deletedAt) {
+      throw new VaccineNotFoundError(`Vaccine with ID ${vaccineId} not found`);
     }
 
-    if (!batch || batch.deletedAt) {
-      throw new VaccineBatchNotFoundError(
-        `Batch with ID ${data.batchId} not found`,
-      );
+    return this.resolveBatch(undefined, vaccineId);
+  }
+
+  /**
+   * Loads the batch chosen by the nurse or, when none was chosen,
+   * picks one by FEFO (first expired, first out)
+   *
+   * The chosen batch is still checked by validateApplicationData.
+   */
+  private async resolveBatch(
+    batchId: string | undefined,
+    vaccineId: string,
+  ): Promise<VaccineBatch> {
+    if (!batchId) {
+      const batch =
+        await this.vaccineBatchStore.findBatchClosestToExpiration(vaccineId);
+
+      if (!batch) {
+        throw new NoAvailableBatchError(vaccineId);
+      }
+
+      return batch;
     }
 
-    let application: VaccineApplication;
+    const batch = await this.vaccineBatchStore.findById(batchId);
 
-    if (isScheduledApplication(data)) {
-      application = await this.createApplicationWithExistingScheduling(
-        data,
-        batch,
-        requestingUser,
-      );
-    } else {
-      application = await this.createWalkInApplication(
-        data,
-        batch,
-        requestingUser,
-      );
+    if (!batch || batch.deletedAt) {
+      throw new VaccineBatchNotFoundError(`Batch with ID ${batchId} not found`);
     }
 
-    await this.eventBus.emit<VaccineAppliedEvent>(EventNames.VACCINE_APPLIED, {
-      channels: ['in-app'],
+    return batch;
+  }
+
+  /**
+   * Builds the vaccine.applied event written to the outbox in the same
+   * transaction as the application, so the notification is never lost
+   */
+  private buildVaccineAppliedEvent(
+    application: VaccineApplication,
+  ): OutboxEventCreateInput {
+    const payload: VaccineAppliedEvent = {
+      channels: ['in-app', 'email'],
       type: EventNames.VACCINE_APPLIED,
       priority: 'normal',
       data: {
@@ -234,18 +305,17 @@ export class VaccineApplicationService {
         vaccineId: application.vaccineId,
         doseNumber: application.doseNumber,
         appliedById: application.appliedById,
-        batchId: batch.id,
+        batchId: application.batchId,
       },
-    });
+    };
 
-    return application;
+    return { eventName: EventNames.VACCINE_APPLIED, payload };
   }
 
   async createApplicationWithExistingScheduling(
     data: ScheduledApplicationDTO,
-    batch: VaccineBatch,
     requestingUser: User,
-  ): Promise<VaccineApplication> {
+  ): Promise<{ application: VaccineApplication; batch: VaccineBatch }> {
     const { applicationSite, observations, schedulingId } = data;
     const scheduling =
       await this.vaccineSchedulingStore.findByIdWithRelations(schedulingId);
@@ -265,6 +335,8 @@ export class VaccineApplicationService {
       );
     }
 
+    const batch = await this.resolveBatch(data.batchId, scheduling.vaccineId);
+
     await this.validateApplicationData({
       applicator: requestingUser,
       receiver: scheduling.user,
@@ -273,26 +345,31 @@ export class VaccineApplicationService {
       doseNumber: scheduling.doseNumber,
     });
 
-    return this.vaccineApplicationStore.createApplicationAndDecrementStock({
-      receivedById: scheduling.userId,
-      appliedById: scheduling.assignedNurseId
-        ? scheduling.assignedNurseId
-        : requestingUser.id,
-      applicationDate: getCurrentDate(),
-      vaccineId: scheduling.vaccineId,
-      batchId: batch.id,
-      doseNumber: scheduling.doseNumber,
-      applicationSite: normalizeText(applicationSite),
-      observations: observations ? normalizeText(observations) : undefined,
-      schedulingId: scheduling.id,
-    });
+    const application =
+      await this.vaccineApplicationStore.createApplicationAndDecrementStock(
+        {
+          receivedById: scheduling.userId,
+          appliedById: scheduling.assignedNurseId
+            ? scheduling.assignedNurseId
+            : requestingUser.id,
+          applicationDate: getCurrentDate(),
+          vaccineId: scheduling.vaccineId,
+          batchId: batch.id,
+          doseNumber: scheduling.doseNumber,
+          applicationSite: normalizeText(applicationSite),
+          observations: observations ? normalizeText(observations) : undefined,
+          schedulingId: scheduling.id,
+        },
+        (application) => this.buildVaccineAppliedEvent(application),
+      );
+
+    return { application, batch };
   }
 
   async createWalkInApplication(
     data: WalkInApplicationDTO,
-    batch: VaccineBatch,
     requestingUser: User,
-  ): Promise<VaccineApplication> {
+  ): Promise<{ application: VaccineApplication; batch: VaccineBatch }> {
     const {
       receivedById,
       vaccineId,
@@ -314,6 +391,8 @@ export class VaccineApplicationService {
       throw new VaccineNotFoundError(`Vaccine with ID ${vaccineId} not found`);
     }
 
+    const batch = await this.resolveBatch(batchId, vaccineId);
+
     await this.validateApplicationData({
       applicator: requestingUser,
       receiver,
@@ -322,16 +401,22 @@ export class VaccineApplicationService {
       doseNumber,
     });
 
-    return this.vaccineApplicationStore.createApplicationAndDecrementStock({
-      receivedById,
-      appliedById: requestingUser.id,
-      applicationDate: getCurrentDate(),
-      vaccineId,
-      batchId,
-      doseNumber,
-      applicationSite: normalizeText(applicationSite),
-      observations: observations ? normalizeText(observations) : undefined,
-    });
+    const application =
+      await this.vaccineApplicationStore.createApplicationAndDecrementStock(
+        {
+          receivedById,
+          appliedById: requestingUser.id,
+          applicationDate: getCurrentDate(),
+          vaccineId,
+          batchId: batch.id,
+          doseNumber,
+          applicationSite: normalizeText(applicationSite),
+          observations: observations ? normalizeText(observations) : undefined,
+        },
+        (application) => this.buildVaccineAppliedEvent(application),
+      );
+
+    return { application, batch };
   }
 
   private async validateApplicationData({
@@ -341,12 +426,6 @@ export class VaccineApplicationService {
     vaccine,
     doseNumber,
   }: ValidateApplicationDataParams): Promise<void> {
-    if (applicator.role !== 'NURSE') {
-      throw new ValidationError(
-        'Only users with NURSE role can apply vaccines',
-      );
-    }
-
     if (applicator.id === receiver.id) {
       throw new ValidationError(
         'The applicator and the receiver cannot be the same person',
@@ -365,6 +444,12 @@ export class VaccineApplicationService {
       );
     }
 
+    if (batch.status === 'QUARANTINED' || batch.status === 'RECALLED') {
+      throw new BatchNotAvailableError(
+        `Batch ${batch.batchNumber} is under ${batch.status === 'RECALLED' ? 'recall' : 'quarantine'} and cannot be applied`,
+      );
+    }
+
     if (batch.status !== 'AVAILABLE') {
       throw new BatchNotAvailableError(
         `Batch ${batch.batchNumber} is not available (status: ${batch.status})`,
@@ -376,10 +461,7 @@ export class VaccineApplicationService {
         `Batch ${batch.batchNumber} has no remaining doses`,
       );
     }
-    if (
-      new Date(batch.expirationDate).setHours(23, 59, 59, 999) <
-      getCurrentTimestamp()
-    ) {
+    if (isDateBeforeToday(batch.expirationDate)) {
       throw new BatchNotAvailableError(
         `Batch ${batch.batchNumber} has expired`,
       );
@@ -436,9 +518,8 @@ export class VaccineApplicationService {
    * Get a single vaccine application by ID
    *
    * Authorization:
-   * - EMPLOYEE: Can only see their own applications
-   * - NURSE: Can see applications they performed + their own
-   * - MANAGER: Can see all applications
+   * - application:read (NURSE, MANAGER): Can see all applications
+   * - Others: Can see applications they received or performed
    *
    * @param applicationId - ID of the application
    * @param requestingUserId - ID of the user requesting the data
@@ -469,9 +550,8 @@ export class VaccineApplicationService {
    * Get paginated list of vaccine applications with filters
    *
    * Authorization:
-   * - EMPLOYEE: Can only see their own applications (userId filter forced)
-   * - NURSE: Can see all applications
-   * - MANAGER: Can see all applications
+   * - application:read (NURSE, MANAGER): Can see all applications
+   * - Others: Can only see their own applications (userId filter forced)
    *
    * @param params - Pagination parameters
    * @param filters - Filter parameters
@@ -483,39 +563,44 @@ export class VaccineApplicationService {
     requestingUserId: string,
     filters: VaccineApplicationFilterParams = {},
   ): Promise<PaginatedResponse<VaccineApplication>> {
-    const user = await this.userStore.findById(requestingUserId);
-    if (!user) {
-      throw new UserNotFoundError(`User with ID ${requestingUserId} not found`);
-    }
-    const role = user.role;
-
-    // Apply role-based filtering
-    if (role === 'EMPLOYEE') {
-      // Employees can only see their own applications
-      filters.userId = requestingUserId;
-    } else if (role === 'NURSE') {
-      // Nurses can see applications they performed OR their own
-      // If no filter specified, show both
-      if (!filters.userId && !filters.appliedById) {
-        // This would require OR logic in the store
-        // For simplicity, we'll just allow the filters as-is
-        // The nurse can use filters to narrow down results
-      }
-    }
-    // MANAGER can see all without restrictions
-
     return this.vaccineApplicationStore.findPaginatedApplications(
       params,
-      filters,
+      await this.restrictListFilters(filters, requestingUserId),
     );
   }
 
+  /**
+   * Export every vaccine application matching the filters (no pagination)
+   *
+   * Same authorization and filters as getPaginatedApplications.
+   *
+   * @param sort - Sorting (sortBy, sortOrder)
+   * @param requestingUserId - ID of the user requesting the export
+   * @param filters - Filter parameters
+   * @returns Export columns and row batches
+   */
+  async exportApplications(
+    sort: SortParams,
+    requestingUserId: string,
+    filters: VaccineApplicationFilterParams = {},
+  ): Promise<DataExport<VaccineApplicationDetailed>> {
+    return {
+      fileName: 'aplicacoes',
+      sheetName: 'Aplicações',
+      columns: APPLICATION_EXPORT_COLUMNS,
+      batches: this.vaccineApplicationStore.findApplicationsForExport(
+        sort,
+        await this.restrictListFilters(filters, requestingUserId),
+      ),
+    };
+  }
+
   /**
    * Update a vaccine application
    *
    * Business Rules:
    * - Only applicationSite and observations can be updated
-   * - Only the nurse who applied it or a MANAGER can update
+   * - Only the nurse who applied it or application:update (MANAGER) can update
    *
    * @param applicationId - ID of the application to update
    * @param data - Update data
@@ -548,13 +633,15 @@ export class VaccineApplicationService {
     if (!user) {
       throw new UserNotFoundError(`User with ID ${requestingUserId} not found`);
     }
-    const role = user.role;
 
-    // Authorization: Only the nurse who applied it or a MANAGER can update
+    // Authorization: Only the nurse who applied it or application:update
     const isApplier = application.appliedById === requestingUserId;
-    const isManager = role === 'MANAGER';
+    const canUpdateAny = hasPermission(
+      user.role,
+      Permissions.APPLICATION_UPDATE,
+    );
 
-    if (!isApplier && !isManager) {
+    if (!isApplier && !canUpdateAny) {
       throw new UnauthorizedApplicationUpdateError();
     }
 
@@ -574,6 +661,71 @@ export class VaccineApplicationService {
     return this.vaccineApplicationStore.update(applicationId, updateData);
   }
 
+  /**
+   * Voids a mistakenly recorded vaccine application
+   *
+   * Business Rules:
+   * - Requires application:void (MANAGER)
+   * - The application is soft-deleted and the void is kept as an audit record
+   *   with the reason and who voided it
+   * - The dose returns to its batch (currentQuantity and totalStock) through
+   *   an ADJUSTMENT stock movement
+   * - A linked scheduling is reopened (SCHEDULED) so the dose can be applied
+   * - Vaccination certificates listing the application are revoked
+   * - Later doses of the same vaccine depend on this one (sequence and
+   *   interval rules), so they must be voided first
+   * - After the void the same dose can be recorded again
+   *
+   * @param applicationId - ID of the application to void
+   * @param reason - Why the application is being voided
+   * @param requestingUserId - ID of the user voiding it
+   * @returns The voided application with its void record
+   * @throws ForbiddenError if requesting user lacks application:void
+   * @throws VaccineApplicationNotFoundError if not found or already voided
+   * @throws LaterDosesAppliedError if later doses of the vaccine are applied
+   */
+  async voidApplication(
+    applicationId: string,
+    reason: string,
+    requestingUserId: string,
+  ): Promise<VoidedVaccineApplication> {
+    const [user, application] = await Promise.all([
+      this.userStore.findById(requestingUserId),
+      this.vaccineApplicationStore.findById(applicationId),
+    ]);
+
+    if (!user) {
+      throw new UserNotFoundError(`User with ID ${requestingUserId} not found`);
+    }
+
+    assertPermission(user, Permissions.APPLICATION_VOID);
+
+    if (!application || application.deletedAt) {
+      throw new VaccineApplicationNotFoundError(
+        `Application with ID ${applicationId} not found`,
+      );
+    }
+
+    const applications =
+      await this.vaccineApplicationStore.findByUserAndVaccine(
+        application.userId,
+        application.vaccineId,
+      );
+    const laterDoses = applications
+      .filter((other) => other.doseNumber > application.doseNumber)
+      .map((other) => other.doseNumber)
+      .sort((a, b) => a - b);
+
+    if (laterDoses.length > 0) {
+      throw new LaterDosesAppliedError(application.doseNumber, laterDoses);
+    }
+
+    return this.vaccineApplicationStore.voidApplicationAndRestoreStock(
+      application,
+      { reason, voidedById: requestingUserId },
+    );
+  }
+
   /**
    * Get user's complete vaccination history with comprehensive statistics
    *
@@ -586,13 +738,13 @@ export class VaccineApplicationService {
    * - Pending doses with expected dates
    *
    * Authorization:
-   * - EMPLOYEE: Can only view their own vaccination history
-   * - NURSE/MANAGER: Can view any user's vaccination history
+   * - application:read (NURSE, MANAGER): Can view any user's vaccination history
+   * - Others: Can only view their own vaccination history
    *
    * @param userId - ID of the user whose history is being requested
    * @param requestingUserId - ID of the user requesting the data
    * @returns Comprehensive vaccination history with statistics and grouping
-   * @throws ValidationError if employee tries to view another user's history
+   * @throws ValidationError if a user without application:read views another user's history
    */
   async getUserVaccinationHistory(
     userId: string,
@@ -607,13 +759,14 @@ export class VaccineApplicationService {
       throw new UserNotFoundError(`User with ID ${requestingUserId} not found`);
     }
 
-    // Authorization: Employees can only view their own history
-    if (requestingUserId !== userId) {
-      if (requestingUser.role === 'EMPLOYEE') {
-        throw new ValidationError(
-          'Employees can only view their own vaccination history',
-        );
-      }
+    // Authorization: without application:read, only the own history
+    if (
+      requestingUserId !== userId &&
+      !hasPermission(requestingUser.role, Permissions.APPLICATION_READ)
+    ) {
+      throw new ValidationError(
+        'You can only view your own vaccination history',
+      );
     }
 
     // Fetch all necessary data in parallel
@@ -785,29 +938,41 @@ export class VaccineApplicationService {
     if (!user) {
       throw new UserNotFoundError(`User with ID ${requestingUserId} not found`);
     }
-    const role = user.role;
 
-    if (role === 'MANAGER') {
-      return; // Managers can see everything
+    if (hasPermission(user.role, Permissions.APPLICATION_READ)) {
+      return; // Can see every application
     }
 
-    if (role === 'NURSE') {
-      // Nurses can see applications they performed or their own
-      if (
-        application.appliedById === requestingUserId ||
-        application.userId === requestingUserId
-      ) {
-        return;
-      }
+    // Otherwise only applications received or performed by the user
+    if (
+      application.userId === requestingUserId ||
+      application.appliedById === requestingUserId
+    ) {
+      return;
     }
 
-    if (role === 'EMPLOYEE') {
-      // Employees can only see their own
-      if (application.userId === requestingUserId) {
-        return;
-      }
+    throw new ValidationError('You do not have access to this application');
+  }
+
+  /**
+   * Restrict list filters to the requesting user's own applications when
+   * they lack application:read
+   * @private
+   */
+  private async restrictListFilters(
+    filters: VaccineApplicationFilterParams,
+    requestingUserId: string,
+  ): Promise<VaccineApplicationFilterParams> {
+    const user = await this.userStore.findById(requestingUserId);
+    if (!user) {
+      throw new UserNotFoundError(`User with ID ${requestingUserId} not found`);
     }
 
-    throw new ValidationError('You do not have access to this application');
+    // Without application:read, users can only see their own applications
+    if (!hasPermission(user.role, Permissions.APPLICATION_READ)) {
+      return { ...filters, userId: requestingUserId };
+    }
+
+    return filters;
   }
 }
@@ -1,22 +1,37 @@
 import type { VaccineApplication } from '@infrastructure/database';
 import type { Prisma } from '@infrastructure/database/generated/prisma';
-import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
+import { enqueueOutboxEvent } from '@shared/helpers/outboxHelper';
+import {
+  buildExportOrderBy,
+  buildPaginationArgs,
+  findInBatches,
+} from '@shared/helpers/prismaHelper';
+import {
+  applyBatchStockChange,
+  lockBatch,
+} from '@shared/helpers/stockMovementHelper';
 import { getCurrentDate } from '@shared/helpers/timeHelper';
 import {
   type PaginatedResponse,
   type PaginationParams,
+  type SortParams,
   calculatePaginationMetadata,
 } from '@shared/interfaces/pagination';
 import type {
   IVaccineApplicationStore,
   VaccineApplicationFilterParams,
 } from '@shared/interfaces/vaccineApplication';
+import type { OutboxEventCreateInput } from '@shared/models/outboxEvent';
 import type { Vaccine } from '@shared/models/vaccine';
 import type {
+  BatchRecipient,
   VaccineApplicationCreateInput,
   VaccineApplicationDelegate,
+  VaccineApplicationDetailed,
   VaccineApplicationUpdateInput,
+  VaccineApplicationVoidInput,
   VaccineApplicationWithRelations,
+  VoidedVaccineApplication,
 } from '@shared/models/vaccineApplication';
 import { BaseStore } from '@shared/stores/baseStore';
 import { injectable } from 'tsyringe';
@@ -92,16 +107,26 @@ export class VaccineApplicationStore
    * all succeed or fail together.
    *
    * Transaction ensures:
-   * - Atomicity: All three operations complete or none do
-   * - Consistency: Both batch.currentQuantity and vaccine.totalStock are updated
+   * - Atomicity: All operations complete or none do
+   * - Consistency: The dose goes through applyBatchStockChange like every other
+   *   stock movement: batch.currentQuantity and status, vaccine.totalStock (only
+   *   for AVAILABLE batches) and the APPLICATION ledger entry
    * - Isolation: Concurrent operations don't interfere
    *
+   * When buildOutboxEvent is provided, the event it returns is written to the
+   * event outbox in the same transaction, so it exists only if the
+   * application was committed.
+   *
    * @param data - Complete vaccine application data including receivedById and appliedById
+   * @param buildOutboxEvent - Builds the event to publish from the created application
    * @returns Created vaccine application record
    * @throws Prisma errors if transaction fails (constraint violations, etc.)
    */
   async createApplicationAndDecrementStock(
     data: VaccineApplicationCreateInput,
+    buildOutboxEvent?: (
+      application: VaccineApplication,
+    ) => OutboxEventCreateInput,
   ): Promise<VaccineApplication> {
     return this.prisma.$transaction(async (prisma) => {
       // Step 1: Create vaccine application record
@@ -132,30 +157,112 @@ export class VaccineApplicationStore
         },
       });
 
-      // Step 2: Atomically decrement batch quantity
-      await prisma.vaccineBatch.update({
-        where: { id: data.batchId },
-        data: { currentQuantity: { decrement: 1 } },
-      });
+      // Step 2: Take the dose from the batch (quantity, status, totalStock and ledger)
+      const batch = await lockBatch(prisma, data.batchId);
 
-      // Step 3: Decrement vaccine stock
-      await prisma.vaccine.update({
-        where: { id: data.vaccineId },
-        data: { totalStock: { decrement: 1 } },
+      await applyBatchStockChange(prisma, batch, {
+        type: 'APPLICATION',
+        quantity: -1,
+        applicationId: application.id,
+        createdById: data.appliedById,
       });
 
       if (data.schedulingId) {
-        // Step 4: Update scheduling status to COMPLETED if schedulingId is provided
+        // Step 3: Update scheduling status to COMPLETED if schedulingId is provided
         await prisma.vaccineScheduling.update({
           where: { id: data.schedulingId },
           data: { status: 'COMPLETED' },
         });
       }
 
+      if (buildOutboxEvent) {
+        // Step 4: Publish the event through the outbox
+        await enqueueOutboxEvent(prisma, buildOutboxEvent(application));
+      }
+
       return application;
     });
   }
 
+  /**
+   * Voids a vaccine application and returns its dose to stock atomically
+   *
+   * Transaction ensures:
+   * - The application is soft-deleted and unlinked from its scheduling
+   *   (schedulingId is unique, so the scheduling can be applied again)
+   * - The void is recorded with its reason, author and original scheduling
+   * - The batch gets the dose back through an ADJUSTMENT stock movement
+   *   linked to the application (totalStock follows the batch status)
+   * - The scheduling, if any, is reopened as SCHEDULED when it is not
+   *   deleted and still COMPLETED
+   *
+   * @param application - Application to void (not yet deleted)
+   * @param data - Reason and the user who voided it
+   * @returns The voided application with its void record
+   * @throws Prisma errors if the application was already voided
+   */
+  async voidApplicationAndRestoreStock(
+    application: VaccineApplication,
+    data: VaccineApplicationVoidInput,
+  ): Promise<VoidedVaccineApplication> {
+    return this.prisma.$transaction(async (prisma) => {
+      const voided = await prisma.vaccineApplication.update({
+        where: { id: application.id },
+        data: {
+          deletedAt: getCurrentDate(),
+          scheduling: application.schedulingId
+            ? { disconnect: true }
+            : undefined,
+          voidRecord: {
+            create: {
+              reason: data.reason,
+              voidedById: data.voidedById,
+              schedulingId: application.schedulingId,
+            },
+          },
+        },
+        include: { voidRecord: true },
+      });
+
+      const batch = await lockBatch(prisma, application.batchId);
+
+      await applyBatchStockChange(prisma, batch, {
+        type: 'ADJUSTMENT',
+        quantity: 1,
+        reason: `Application voided: ${data.reason}`,
+        applicationId: application.id,
+        createdById: data.voidedById,
+      });
+
+      if (application.schedulingId) {
+        // Only a scheduling still closed by this dose is reopened; a deleted
+        // or since-changed scheduling is just unlinked
+        await prisma.vaccineScheduling.updateMany({
+          where: {
+            id: application.schedulingId,
+            status: 'COMPLETED',
+            deletedAt: null,
+          },
+          data: { status: 'SCHEDULED' },
+        });
+      }
+
+      // Certificates listing the dose no longer reflect the vaccination record
+      await prisma.vaccinationCertificate.updateMany({
+        where: {
+          revokedAt: null,
+          applications: { some: { id: application.id } },
+        },
+        data: {
+          revokedAt: getCurrentDate(),
+          revocationReason: `Application voided: ${data.reason}`,
+        },
+      });
+
+      return voided;
+    });
+  }
+
   /**
    * Find all applications for a user
    */
@@ -188,6 +295,73 @@ export class VaccineApplicationStore
     });
   }
 
+  /**
+   * Find the doses applied from a batch, with their patient
+   *
+   * Used to follow up recipients when a batch is quarantined or recalled.
+   */
+  async findRecipientsByBatchId(batchId: string): Promise<BatchRecipient[]> {
+    return this.model.findMany({
+      where: {
+        batchId,
+        deletedAt: null,
+      },
+      orderBy: { applicationDate: 'asc' },
+      select: {
+        id: true,
+        applicationDate: true,
+        doseNumber: true,
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true,
+          },
+        },
+        _count: { select: { adverseEvents: true } },
+      },
+    });
+  }
+
+  /**
+   * Find all applications matching the filters (no pagination)
+   *
+   * Used by aggregated views such as reports, where the whole result set
+   * is needed. Ordered chronologically by application date.
+   */
+  async findApplications(
+    filters?: VaccineApplicationFilterParams,
+  ): Promise<VaccineApplicationDetailed[]> {
+    return this.model.findMany({
+      where: this.buildWhereClause(filters),
+      orderBy: { applicationDate: 'asc' },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+        vaccine: true,
+        batch: {
+          select: {
+            batchNumber: true,
+            expirationDate: true,
+          },
+        },
+        appliedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+  }
+
   /**
    * Find paginated applications with filters
    */
@@ -197,43 +371,11 @@ export class VaccineApplicationStore
   ): Promise<PaginatedResponse<VaccineApplication>> {
     const { page, perPage } = params;
 
-    const where: Prisma.VaccineApplicationWhereInput = {
-      deletedAt: null,
-    };
-
-    if (filters?.userId) {
-      where.userId = filters.userId;
-    }
-
-    if (filters?.vaccineId) {
-      where.vaccineId = filters.vaccineId;
-    }
-
-    if (filters?.appliedById) {
-      where.appliedById = filters.appliedById;
-    }
-
-    if (filters?.batchId) {
-      where.batchId = filters.batchId;
-    }
-
-    if (filters?.doseNumber !== undefined) {
-      where.doseNumber = filters.doseNumber;
-    }
-
-    if (filters?.applicationDateFrom || filters?.applicationDateTo) {
-      where.applicationDate = {};
-      if (filters.applicationDateFrom) {
-        where.applicationDate.gte = filters.applicationDateFrom;
-      }
-      if (filters.applicationDateTo) {
-        where.applicationDate.lte = filters.applicationDateTo;
-      }
-    }
+    const where = this.buildWhereClause(filters);
 
     const [data, total] = await Promise.all([
       this.model.findMany({
-        where: where ? where : undefined,
+        where,
         ...buildPaginationArgs(params, allowedVaccineApplicationSortFields),
         include: {
           user: {
@@ -266,6 +408,51 @@ export class VaccineApplicationStore
     };
   }
 
+  /**
+   * Find every application matching the filters, in batches, for exports
+   */
+  findApplicationsForExport(
+    sort: SortParams,
+    filters?: VaccineApplicationFilterParams,
+  ): AsyncIterable<VaccineApplicationDetailed[]> {
+    const where = this.buildWhereClause(filters);
+    const orderBy = buildExportOrderBy(
+      sort,
+      allowedVaccineApplicationSortFields,
+    );
+
+    return findInBatches((batch) =>
+      this.model.findMany({
+        where,
+        orderBy,
+        ...batch,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+          vaccine: true,
+          batch: {
+            select: {
+              batchNumber: true,
+              expirationDate: true,
+            },
+          },
+          appliedBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      }),
+    );
+  }
+
   /**
    * Check if a user already received a specific dose of a vaccine
    */
@@ -304,4 +491,47 @@ export class VaccineApplicationStore
       },
     });
   }
+
+  /**
+   * Builds the WHERE clause shared by the application listing queries
+   */
+  private buildWhereClause(
+    filters?: VaccineApplicationFilterParams,
+  ): Prisma.VaccineApplicationWhereInput {
+    const where: Prisma.VaccineApplicationWhereInput = {
+      deletedAt: null,
+    };
+
+    if (filters?.userId) {
+      where.userId = filters.userId;
+    }
+
+    if (filters?.vaccineId) {
+      where.vaccineId = filters.vaccineId;
+    }
+
+    if (filters?.appliedById) {
+      where.appliedById = filters.appliedById;
+    }
+
+    if (filters?.batchId) {
+      where.batchId = filters.batchId;
+    }
+
+    if (filters?.doseNumber !== undefined) {
+      where.doseNumber = filters.doseNumber;
+    }
+
+    if (filters?.applicationDateFrom || filters?.applicationDateTo) {
+      where.applicationDate = {};
+      if (filters.applicationDateFrom) {
+        where.applicationDate.gte = filters.applicationDateFrom;
+      }
+      if (filters.applicationDateTo) {
+        where.applicationDate.lte = filters.applicationDateTo;
+      }
+    }
+
+    return where;
+  }
 }
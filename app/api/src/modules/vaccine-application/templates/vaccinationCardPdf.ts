@@ -0,0 +1,401 @@
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { User } from '@shared/models/user';
+import PDFDocument from 'pdfkit';
+import type { VaccinationHistoryResponse } from '../services/vaccineApplicationService';
+
+export interface VaccinationCardPdfData {
+  user: Pick<User, 'name' | 'cpf' | 'email'>;
+  history: VaccinationHistoryResponse;
+  verificationCode: string;
+  verifyUrl: string;
+}
+
+interface TableColumn {
+  header: string;
+  width: number;
+}
+
+const PAGE_MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const CELL_PADDING = 4;
+
+const COLORS = {
+  primary: '#1d4ed8',
+  text: '#111827',
+  muted: '#6b7280',
+  border: '#d1d5db',
+  headerBackground: '#eff6ff',
+};
+
+const formatCpf = (cpf: string): string =>
+  cpf.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4');
+
+const formatPercentage = (value: number): string =>
+  `${value.toFixed(value % 1 === 0 ? 0 : 2).replace('.', ',')}%`;
+
+const contentBottom = (doc: PDFKit.PDFDocument): number =>
+  doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT;
+
+const ensureSpace = (doc: PDFKit.PDFDocument, height: number): void => {
+  if (doc.y + height > contentBottom(doc)) {
+    doc.addPage();
+  }
+};
+
+const sectionTitle = (doc: PDFKit.PDFDocument, title: string): void => {
+  ensureSpace(doc, 40);
+  doc
+    .moveDown(0.8)
+    .font('Helvetica-Bold')
+    .fontSize(12)
+    .fillColor(COLORS.primary)
+    .text(title, PAGE_MARGIN)
+    .moveDown(0.3);
+};
+
+const emptyNote = (doc: PDFKit.PDFDocument, text: string): void => {
+  doc
+    .font('Helvetica-Oblique')
+    .fontSize(9)
+    .fillColor(COLORS.muted)
+    .text(text, PAGE_MARGIN);
+};
+
+const setCellFont = (doc: PDFKit.PDFDocument, isHeader: boolean): void => {
+  doc.font(isHeader ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+};
+
+const measureRow = (
+  doc: PDFKit.PDFDocument,
+  columns: TableColumn[],
+  cells: string[],
+  isHeader: boolean,
+): number => {
+  setCellFont(doc, isHeader);
+
+  return (
+    Math.max(
+      ...cells.map((cell, index) =>
+        doc.heightOfString(cell, {
+          width: columns[index].width - CELL_PADDING * 2,
+        }),
+      ),
+    ) +
+    CELL_PADDING * 2
+  );
+};
+
+const drawRow = (
+  doc: PDFKit.PDFDocument,
+  columns: TableColumn[],
+  cells: string[],
+  isHeader: boolean,
+): void => {
+  const rowHeight = measureRow(doc, columns, cells, isHeader);
+  const top = doc.y;
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+
+  if (isHeader) {
+    doc
+      .rect(PAGE_MARGIN, top, tableWidth, rowHeight)
+      .fill(COLORS.headerBackground);
+  }
+
+  setCellFont(doc, isHeader);
+  doc.fillColor(COLORS.text);
+
+  let x = PAGE_MARGIN;
+  cells.forEach((cell, index) => {
+    doc.text(cell, x + CELL_PADDING, top + CELL_PADDING, {
+      width: columns[index].width - CELL_PADDING * 2,
+    });
+    x += columns[index].width;
+  });
+
+  doc
+    .moveTo(PAGE_MARGIN, top + rowHeight)
+    .lineTo(PAGE_MARGIN + tableWidth, top + rowHeight)
+    .strokeColor(COLORS.border)
+    .lineWidth(0.5)
+    .stroke();
+
+  doc.y = top + rowHeight;
+};
+
+/**
+ * Draws a table, repeating the header when it continues on a new page
+ */
+const drawTable = (
+  doc: PDFKit.PDFDocument,
+  columns: TableColumn[],
+  rows: string[][],
+): void => {
+  const headers = columns.map((column) => column.header);
+  const headerHeight = measureRow(doc, columns, headers, true);
+
+  rows.forEach((row, index) => {
+    const rowHeight = measureRow(doc, columns, row, false);
+
+    if (index === 0) {
+      ensureSpace(doc, headerHeight + rowHeight);
+      drawRow(doc, columns, headers, true);
+    } else if (doc.y + rowHeight > contentBottom(doc)) {
+      doc.addPage();
+      drawRow(doc, columns, headers, true);
+    }
+
+    drawRow(doc, columns, row, false);
+  });
+};
+
+const drawHeader = (
+  doc: PDFKit.PDFDocument,
+  { user, history, verifyUrl }: VaccinationCardPdfData,
+): void => {
+  doc
+    .font('Helvetica-Bold')
+    .fontSize(18)
+    .fillColor(COLORS.primary)
+    .text('Cartão de Vacinação', PAGE_MARGIN, PAGE_MARGIN)
+    .font('Helvetica')
+    .fontSize(10)
+    .fillColor(COLORS.muted)
+    .text('Univas Enfermagem - Saúde Ocupacional')
+    .moveDown(1);
+
+  const details: Array<[string, string]> = [
+    ['Nome', user.name],
+    ['CPF', formatCpf(user.cpf)],
+    ['Email', user.email],
+    ['Emitido em', formatDate(history.issuedAt, 'DD/MM/YYYY HH:mm')],
+  ];
+
+  for (const [label, value] of details) {
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(10)
+      .fillColor(COLORS.text)
+      .text(`${label}: `, PAGE_MARGIN, doc.y, { continued: true })
+      .font('Helvetica')
+      .text(value);
+  }
+
+  doc
+    .moveDown(0.3)
+    .font('Helvetica')
+    .fontSize(8)
+    .fillColor(COLORS.muted)
+    .text(`Confira a autenticidade deste cartão em ${verifyUrl}`, PAGE_MARGIN);
+};
+
+const drawSummary = (
+  doc: PDFKit.PDFDocument,
+  { summary }: VaccinationHistoryResponse,
+): void => {
+  sectionTitle(doc, 'Resumo');
+
+  drawTable(
+    doc,
+    [
+      { header: 'Vacinas aplicadas', width: 99 },
+      { header: 'Vacinas completas', width: 99 },
+      { header: 'Doses pendentes', width: 99 },
+      { header: 'Obrigatórias não iniciadas', width: 99 },
+      { header: 'Conformidade', width: 99 },
+    ],
+    [
+      [
+        String(summary.totalVaccinesApplied),
+        String(summary.totalVaccinesCompleted),
+        String(summary.totalDosesPending),
+        String(summary.totalMandatoryPending),
+        formatPercentage(summary.compliancePercentage),
+      ],
+    ],
+  );
+};
+
+const drawAppliedVaccines = (
+  doc: PDFKit.PDFDocument,
+  { vaccinesByType }: VaccinationHistoryResponse,
+): void => {
+  sectionTitle(doc, 'Vacinas aplicadas');
+
+  if (!vaccinesByType.length) {
+    emptyNote(doc, 'Nenhuma vacina aplicada.');
+    return;
+  }
+
+  const columns: TableColumn[] = [
+    { header: 'Dose', width: 40 },
+    { header: 'Data', width: 65 },
+    { header: 'Lote', width: 85 },
+    { header: 'Local', width: 95 },
+    { header: 'Aplicado por', width: 130 },
+    { header: 'COREN', width: 80 },
+  ];
+
+  for (const item of vaccinesByType) {
+    ensureSpace(doc, 60);
+
+    const status = item.isComplete ? 'Completa' : 'Em andamento';
+
+    doc
+      .moveDown(0.5)
+      .font('Helvetica-Bold')
+      .fontSize(10)
+      .fillColor(COLORS.text)
+      .text(`${item.vaccine.name} (${item.vaccine.manufacturer})`, PAGE_MARGIN)
+      .font('Helvetica')
+      .fontSize(9)
+      .fillColor(COLORS.muted)
+      .text(
+        `${item.dosesApplied}/${item.totalDosesRequired} doses - ${status}${item.vaccine.isObligatory ? ' - Obrigatória' : ''}`,
+      )
+      .moveDown(0.3);
+
+    drawTable(
+      doc,
+      columns,
+      item.doses.map((dose) => [
+        `${dose.doseNumber}ª`,
+        formatDate(dose.applicationDate, 'DD/MM/YYYY'),
+        dose.batch.batchNumber,
+        dose.applicationSite,
+        dose.appliedBy.name,
+        dose.appliedBy.coren ?? '-',
+      ]),
+    );
+  }
+};
+
+const drawPendingDoses = (
+  doc: PDFKit.PDFDocument,
+  { pendingDoses, mandatoryNotTaken }: VaccinationHistoryResponse,
+): void => {
+  sectionTitle(doc, 'Doses pendentes');
+
+  if (pendingDoses.length) {
+    drawTable(
+      doc,
+      [
+        { header: 'Vacina', width: 255 },
+        { header: 'Próxima dose', width: 120 },
+        { header: 'Data prevista', width: 120 },
+      ],
+      pendingDoses.map((pending) => [
+        pending.vaccine.name,
+        `${pending.nextDose}ª de ${pending.vaccine.dosesRequired}`,
+        pending.expectedDate
+          ? formatDate(pending.expectedDate, 'DD/MM/YYYY')
+          : '-',
+      ]),
+    );
+  } else {
+    emptyNote(doc, 'Nenhuma dose pendente.');
+  }
+
+  sectionTitle(doc, 'Vacinas obrigatórias não iniciadas');
+
+  if (mandatoryNotTaken.length) {
+    drawTable(
+      doc,
+      [
+        { header: 'Vacina', width: 255 },
+        { header: 'Fabricante', width: 160 },
+        { header: 'Doses', width: 80 },
+      ],
+      mandatoryNotTaken.map((vaccine) => [
+        vaccine.name,
+        vaccine.manufacturer,
+        String(vaccine.dosesRequired),
+      ]),
+    );
+  } else {
+    emptyNote(doc, 'Todas as vacinas obrigatórias foram iniciadas.');
+  }
+};
+
+/**
+ * Verification code, issue date and page number at the bottom of every page
+ */
+const drawFooters = (
+  doc: PDFKit.PDFDocument,
+  { history, verificationCode }: VaccinationCardPdfData,
+): void => {
+  const { start, count } = doc.bufferedPageRange();
+  const issuedAt = formatDate(history.issuedAt, 'DD/MM/YYYY HH:mm');
+
+  for (let index = start; index < start + count; index++) {
+    doc.switchToPage(index);
+
+    // Writing below the bottom margin would otherwise open a new page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+
+    const top = doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT / 2;
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    doc
+      .moveTo(PAGE_MARGIN, top - 6)
+      .lineTo(PAGE_MARGIN + width, top - 6)
+      .strokeColor(COLORS.border)
+      .lineWidth(0.5)
+      .stroke()
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor(COLORS.muted)
+      .text(
+        `Código de verificação: ${verificationCode} - Emitido em ${issuedAt}`,
+        PAGE_MARGIN,
+        top,
+        { width, lineBreak: false },
+      )
+      .text(`Página ${index - start + 1} de ${count}`, PAGE_MARGIN, top, {
+        width,
+        align: 'right',
+        lineBreak: false,
+      });
+
+    doc.page.margins.bottom = bottomMargin;
+  }
+};
+
+/**
+ * Renders the vaccination card (GET /vaccine-applications/users/:id/history.pdf)
+ *
+ * A4 document with the patient, the summary, every applied dose (batch,
+ * site, applicator and COREN), pending doses and mandatory vaccines not
+ * started. Every page carries the verification code and issue date, and
+ * the header links to the public verification page.
+ *
+ * @returns PDF file contents
+ */
+export const buildVaccinationCardPdf = (
+  data: VaccinationCardPdfData,
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `Cartão de Vacinação - ${data.user.name}`,
+        Author: 'Univas Enfermagem',
+        CreationDate: data.history.issuedAt,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    drawHeader(doc, data);
+    drawSummary(doc, data.history);
+    drawAppliedVaccines(doc, data.history);
+    drawPendingDoses(doc, data.history);
+    drawFooters(doc, data);
+
+    doc.end();
+  });
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const BatchSuggestionQuerySchema = z.object({
+  vaccineId: z.string().uuid('Vaccine ID must be a valid UUID'),
+});
+
+export type BatchSuggestionQueryDTO = z.infer<
+  typeof BatchSuggestionQuerySchema
+>;
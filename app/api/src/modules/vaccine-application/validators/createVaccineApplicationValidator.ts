@@ -2,9 +2,10 @@ import { z } from 'zod';
 
 /**
  * Common fields shared between both application types
+ * batchId is optional: when omitted the batch is picked by FEFO
  */
 const CommonApplicationFields = {
-  batchId: z.string().uuid('Batch ID must be a valid UUID'),
+  batchId: z.string().uuid('Batch ID must be a valid UUID').optional(),
   applicationSite: z
     .string()
     .min(1, 'Application site is required')
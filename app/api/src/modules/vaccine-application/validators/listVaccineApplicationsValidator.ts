@@ -1,4 +1,5 @@
 import { PAGINATION_DEFAULTS } from '@shared/interfaces/pagination';
+import { exportFormatSchema } from '@shared/validators/exportFormatSchema';
 import { z } from 'zod';
 import { allowedVaccineApplicationSortFields } from '../constants';
 
@@ -47,6 +48,7 @@ export const ListVaccineApplicationsQuerySchema = z.object({
     .refine((val) => val === undefined || (!isNaN(val) && val >= 1), {
       message: 'Dose number must be a positive integer',
     }),
+  format: exportFormatSchema,
 });
 
 export type ListVaccineApplicationsQueryDTO = z.infer<
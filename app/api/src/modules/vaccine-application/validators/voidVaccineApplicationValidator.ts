@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const VoidVaccineApplicationBodySchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Reason is required')
+    .max(500, 'Reason cannot exceed 500 characters'),
+});
+
+export type VoidVaccineApplicationDTO = z.infer<
+  typeof VoidVaccineApplicationBodySchema
+>;
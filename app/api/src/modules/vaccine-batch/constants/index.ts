@@ -1,3 +1,11 @@
+import { EXPORT_DATE_FORMAT } from '@shared/helpers/exportHelper';
+import { formatDate } from '@shared/helpers/timeHelper';
+import type { ExportColumn } from '@shared/models/export';
+import type {
+  VaccineBatchStatus,
+  VaccineBatchWithCreator,
+} from '@shared/models/vaccineBatch';
+
 export const allowedVaccineBatchSortFields = [
   'batchNumber',
   'expirationDate',
@@ -7,3 +15,40 @@ export const allowedVaccineBatchSortFields = [
   'status',
   'createdAt',
 ];
+
+export const allowedStockMovementSortFields = ['createdAt', 'type', 'quantity'];
+
+/**
+ * Batch status labels (pt-BR) used in exports
+ */
+export const BATCH_STATUS_LABELS: Record<VaccineBatchStatus, string> = {
+  AVAILABLE: 'Disponível',
+  EXPIRED: 'Vencido',
+  DEPLETED: 'Esgotado',
+  DISCARDED: 'Descartado',
+  QUARANTINED: 'Em quarentena',
+  RECALLED: 'Recolhido',
+};
+
+/**
+ * Columns of the batch list export (GET /vaccines/:id/batches?format=csv|xlsx)
+ */
+export const BATCH_EXPORT_COLUMNS: ExportColumn<VaccineBatchWithCreator>[] = [
+  { header: 'Lote', value: (batch) => batch.batchNumber },
+  { header: 'Status', value: (batch) => BATCH_STATUS_LABELS[batch.status] },
+  { header: 'Quantidade inicial', value: (batch) => batch.initialQuantity },
+  { header: 'Quantidade atual', value: (batch) => batch.currentQuantity },
+  {
+    header: 'Validade',
+    value: (batch) => formatDate(batch.expirationDate, EXPORT_DATE_FORMAT),
+  },
+  {
+    header: 'Recebido em',
+    value: (batch) => formatDate(batch.receivedDate, EXPORT_DATE_FORMAT),
+  },
+  {
+    header: 'Cadastrado por',
+    value: (batch) => batch.createdBy.name,
+    width: 30,
+  },
+];
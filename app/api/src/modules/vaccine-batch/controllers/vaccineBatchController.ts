@@ -1,11 +1,14 @@
 import type {
   CreateVaccineBatchDTO,
+  DiscardBatchDTO,
+  QuarantineBatchDTO,
   UpdateVaccineBatchDTO,
 } from '@shared/models/vaccineBatch';
 import type { NextFunction, Request, Response } from 'express';
 import { injectable } from 'tsyringe';
 // biome-ignore lint/style/useImportType: I need to import types this way because of TSyringe
 import { VaccineBatchService } from '../services/vaccineBatchService';
+import type { ListStockMovementsQuery } from '../validators/listStockMovementsValidator';
 
 @injectable()
 export class VaccineBatchController {
@@ -43,4 +46,139 @@ export class VaccineBatchController {
       next(error);
     }
   }
+
+  async discard(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const batchId: string = req.params.id;
+      const data: DiscardBatchDTO = req.body;
+
+      const userId = req.user?.userId!;
+      const updatedVaccineBatch =
+        await this.vaccineBatchService.discardFromBatch(batchId, data, userId);
+      res.status(200).json(updatedVaccineBatch);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async quarantine(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const batchId: string = req.params.id;
+      const data: QuarantineBatchDTO = req.body;
+
+      const userId = req.user?.userId!;
+      const result = await this.vaccineBatchService.quarantineBatch(
+        batchId,
+        data,
+        userId,
+      );
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async recall(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const batchId: string = req.params.id;
+      const data: QuarantineBatchDTO = req.body;
+
+      const userId = req.user?.userId!;
+      const result = await this.vaccineBatchService.recallBatch(
+        batchId,
+        data,
+        userId,
+      );
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async release(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const batchId: string = req.params.id;
+
+      const userId = req.user?.userId!;
+      const updatedVaccineBatch = await this.vaccineBatchService.releaseBatch(
+        batchId,
+        userId,
+      );
+      res.status(200).json(updatedVaccineBatch);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getRecipients(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const batchId: string = req.params.id;
+
+      const userId = req.user?.userId!;
+      const recipients = await this.vaccineBatchService.getBatchRecipients(
+        batchId,
+        userId,
+      );
+      res.status(200).json(recipients);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getMovements(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const batchId: string = req.params.id;
+      const { page, perPage, sortBy, sortOrder, type, from, to } =
+        req.query as unknown as ListStockMovementsQuery;
+
+      const userId = req.user?.userId!;
+      const movements = await this.vaccineBatchService.getBatchMovements(
+        batchId,
+        userId,
+        { page, perPage, sortBy, sortOrder },
+        {
+          type,
+          from: from ? new Date(from) : undefined,
+          to: to ? new Date(to) : undefined,
+        },
+      );
+      res.status(200).json(movements);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async reconcile(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const userId = req.user?.userId!;
+      const result = await this.vaccineBatchService.reconcileStock(userId);
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
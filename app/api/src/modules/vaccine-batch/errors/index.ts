@@ -53,3 +53,16 @@ export class ExpiredBatchError extends AppError {
     this.name = 'ExpiredBatchError';
   }
 }
+
+/**
+ * InvalidBatchStatusTransitionError
+ *
+ * Thrown when a quarantine, recall or release is requested for a batch whose
+ * current status does not allow it (e.g. releasing a recalled batch).
+ */
+export class InvalidBatchStatusTransitionError extends AppError {
+  constructor(message = 'Invalid batch status transition') {
+    super(message, 409);
+    this.name = 'InvalidBatchStatusTransitionError';
+  }
+}
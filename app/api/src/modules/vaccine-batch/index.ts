@@ -1,3 +1,4 @@
 export { VaccineBatchService } from './services/vaccineBatchService';
 export { VaccineBatchController } from './controllers/vaccineBatchController';
 export { VaccineBatchStore } from './stores/vaccineBatchStore';
+export { StockMovementStore } from './stores/stockMovementStore';
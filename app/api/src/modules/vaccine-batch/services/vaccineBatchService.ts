@@ -1,25 +1,52 @@
 import { TOKENS } from '@infrastructure/di/tokens';
+import {
+  type BatchQuarantinedEvent,
+  EventNames,
+} from '@modules/notifications/contracts';
 import { ValidationError } from '@modules/user/errors';
 import type { UserService } from '@modules/user/services/userService';
 import {
   BatchNumberAlreadyExistsError,
   ExpiredBatchError,
   InvalidBatchQuantityError,
+  InvalidBatchStatusTransitionError,
   VaccineBatchNotFoundError,
 } from '@modules/vaccine-batch/errors';
 import { VaccineNotFoundError } from '@modules/vaccines/errors';
-import { getCurrentDate, isDateInFuture } from '@shared/helpers/timeHelper';
+import { Permissions } from '@shared/constants/permissions';
+import {
+  getCurrentDate,
+  isDateBeforeToday,
+  isDateInFuture,
+} from '@shared/helpers/timeHelper';
 import type {
   PaginatedResponse,
   PaginationParams,
 } from '@shared/interfaces/pagination';
+import type {
+  IStockMovementStore,
+  StockMovementFilterParams,
+} from '@shared/interfaces/stockMovement';
 import type { IVaccineStore } from '@shared/interfaces/vaccine';
+import type { IVaccineApplicationStore } from '@shared/interfaces/vaccineApplication';
 import type {
   IVaccineBatchStore,
   VaccineBatchFilterParams,
 } from '@shared/interfaces/vaccineBatch';
+import type { OutboxEventCreateInput } from '@shared/models/outboxEvent';
 import type {
+  StockMovementWithCreator,
+  StockReconciliationMismatch,
+  StockReconciliationResult,
+} from '@shared/models/stockMovement';
+import type { Vaccine } from '@shared/models/vaccine';
+import type { BatchRecipient } from '@shared/models/vaccineApplication';
+import type {
+  BatchQuarantineResult,
+  BatchQuarantineType,
   CreateVaccineBatchDTO,
+  DiscardBatchDTO,
+  QuarantineBatchDTO,
   UpdateVaccineBatchDTO,
   VaccineBatch,
 } from '@shared/models/vaccineBatch';
@@ -31,7 +58,8 @@ import { inject, injectable } from 'tsyringe';
  * Responsible for:
  * - Vaccine batch creation with validation and authorization
  * - Vaccine batch retrieval with filtering
- * - Stock management operations
+ * - Stock management operations, recorded in the stock ledger
+ * - Quarantine and recall of batches
  * - Business rules enforcement
  * - Orchestrating store operations
  *
@@ -49,13 +77,17 @@ export class VaccineBatchService {
     @inject(TOKENS.UserService) private readonly userService: UserService,
     @inject(TOKENS.IVaccineStore)
     private readonly vaccineStore: IVaccineStore,
+    @inject(TOKENS.IStockMovementStore)
+    private readonly stockMovementStore: IStockMovementStore,
+    @inject(TOKENS.IVaccineApplicationStore)
+    private readonly vaccineApplicationStore: IVaccineApplicationStore,
   ) {}
 
   /**
    * Creates a new vaccine batch in the system
    *
    * Business Rules:
-   * - Only MANAGER role can create vaccine batches
+   * - Requires the batch:write permission (MANAGER)
    * - Vaccine must exist in the system
    * - Batch number must be unique
    * - Quantity must be a positive integer
@@ -63,16 +95,17 @@ export class VaccineBatchService {
    * - Both initialQuantity and currentQuantity are set to input quantity
    * - Received date defaults to now() if not provided
    * - Updates the vaccine's totalStock by incrementing it with the batch quantity
+   * - Records a RECEIPT stock movement
    * - Tracks which user created the batch
    *
    * Authorization:
-   * - Uses UserService.validateManagerRole() for encapsulated authorization
+   * - Uses UserService.validatePermission() for encapsulated authorization
    *
    * @param data - Vaccine batch creation data
    * @param userId - ID of the user creating the batch
    * @returns Created vaccine batch object
    * @throws UserNotFoundError if user not found (from UserService)
-   * @throws ForbiddenError if user is not MANAGER (from UserService)
+   * @throws ForbiddenError if user lacks batch:write (from UserService)
    * @throws VaccineNotFoundError if vaccine does not exist
    * @throws BatchNumberAlreadyExistsError if batch number already exists
    * @throws InvalidBatchQuantityError if quantity is invalid
@@ -91,9 +124,9 @@ export class VaccineBatchService {
     data: CreateVaccineBatchDTO,
     userId: string,
   ): Promise<VaccineBatch> {
-    // Authorization: validate user exists and has MANAGER role
+    // Authorization: validate user exists and has batch:write
     // This delegates to UserService, respecting bounded contexts
-    await this.userService.validateManagerRole(userId);
+    await this.userService.validatePermission(userId, Permissions.BATCH_WRITE);
 
     // Validate vaccine exists using store directly
     const vaccine = await this.vaccineStore.findById(data.vaccineId);
@@ -117,7 +150,9 @@ export class VaccineBatchService {
 
     // Create vaccine batch
     // Both initialQuantity and currentQuantity are set to the input quantity
-    const newBatch = await this.vaccineBatchStore.create({
+    // The store increments the vaccine's totalStock and records the receipt
+    // in the stock ledger in the same transaction
+    const newBatch = await this.vaccineBatchStore.createWithReceipt({
       batchNumber: data.batchNumber,
       initialQuantity: data.quantity,
       currentQuantity: data.quantity,
@@ -128,10 +163,6 @@ export class VaccineBatchService {
       createdById: userId, // Simple ID, Store handles Prisma conversion
     });
 
-    // Atomically increment the vaccine's totalStock
-    // Uses store's atomic operation to prevent race conditions
-    await this.vaccineStore.incrementStock(data.vaccineId, data.quantity);
-
     return newBatch;
   }
 
@@ -145,7 +176,7 @@ export class VaccineBatchService {
         'At least one field must be provided for update',
       );
     }
-    await this.userService.validateManagerRole(userId);
+    await this.userService.validatePermission(userId, Permissions.BATCH_WRITE);
     const existingBatch = await this.vaccineBatchStore.findById(batchId);
     if (!existingBatch) {
       throw new VaccineBatchNotFoundError(`Batch with ID ${batchId} not found`);
@@ -157,6 +188,28 @@ export class VaccineBatchService {
       );
     }
 
+    // Business rule: Quarantined and recalled batches change status through
+    // releaseBatch/recallBatch only
+    if (
+      data.status !== undefined &&
+      data.status !== existingBatch.status &&
+      (existingBatch.status === 'QUARANTINED' ||
+        existingBatch.status === 'RECALLED')
+    ) {
+      throw new ValidationError(
+        existingBatch.status === 'QUARANTINED'
+          ? 'Use POST /vaccine-batches/:id/release to lift the quarantine of a batch'
+          : 'The status of a recalled batch cannot be changed',
+      );
+    }
+
+    // Business rule: Discards need a reason, so they go through discardFromBatch
+    if (data.status === 'DISCARDED' && existingBatch.status !== 'DISCARDED') {
+      throw new ValidationError(
+        'Use POST /vaccine-batches/:id/discard to discard a batch',
+      );
+    }
+
     // Business rule: Cannot update quantity and status at the same time
     const isUpdatingQuantity = data.quantity !== undefined;
     const isUpdatingStatus =
@@ -171,56 +224,305 @@ export class VaccineBatchService {
     const normalizedData: UpdateVaccineBatchDTO =
       await this.normalizeAndValidateUpdateData(data, existingBatch);
 
-    // Prepare data for Prisma update (exclude quantity, use currentQuantity instead)
-    const { quantity, ...prismaData } = normalizedData;
-    const updatedBatch = await this.vaccineBatchStore.update(batchId, {
-      ...prismaData,
-      updatedAt: getCurrentDate(),
-      currentQuantity: quantity ?? existingBatch.currentQuantity,
-    });
+    // Prepare data for Prisma update (quantity and reason go to the stock movement)
+    const { quantity, reason, ...fields } = normalizedData;
+    const updateData = { ...fields, updatedAt: getCurrentDate() };
 
-    // Handle stock adjustments using atomic operations
-    // Check if status is changing from AVAILABLE to DISCARDED/EXPIRED
-    const isBecomingUnavailable =
-      normalizedData.status &&
-      (normalizedData.status === 'DISCARDED' ||
-        normalizedData.status === 'EXPIRED') &&
-      existingBatch.status === 'AVAILABLE';
-
-    if (isBecomingUnavailable) {
-      // If becoming unavailable, atomically decrement stock by current quantity
-      const decrementAmount = existingBatch.currentQuantity;
-      if (decrementAmount > 0) {
-        await this.vaccineStore.decrementStock(
-          existingBatch.vaccineId,
-          decrementAmount,
-        );
-      }
-    } else if (
-      normalizedData.quantity !== undefined &&
-      existingBatch.status === 'AVAILABLE'
-    ) {
-      // Adjust stock based on quantity correction using atomic operations
-      const stockDelta =
-        normalizedData.quantity - existingBatch.currentQuantity;
-
-      if (stockDelta > 0) {
-        // Quantity increased - atomically increment
-        await this.vaccineStore.incrementStock(
-          existingBatch.vaccineId,
-          stockDelta,
-        );
-      } else if (stockDelta < 0) {
-        // Quantity decreased - atomically decrement
-        await this.vaccineStore.decrementStock(
-          existingBatch.vaccineId,
-          Math.abs(stockDelta),
-        );
-      }
-      // If stockDelta === 0, no stock update needed
+    // Expiring an AVAILABLE batch writes off its remaining doses
+    const isBecomingExpired =
+      fields.status === 'EXPIRED' && existingBatch.status === 'AVAILABLE';
+
+    if (isBecomingExpired) {
+      return this.vaccineBatchStore.applyStockChange(
+        batchId,
+        {
+          type: 'EXPIRY',
+          quantity: -existingBatch.currentQuantity,
+          reason,
+          createdById: userId,
+        },
+        updateData,
+      );
+    }
+
+    if (quantity !== undefined) {
+      // Quantity correction: the store adjusts totalStock for AVAILABLE batches
+      return this.vaccineBatchStore.applyStockChange(
+        batchId,
+        {
+          type: 'ADJUSTMENT',
+          quantity: quantity - existingBatch.currentQuantity,
+          reason,
+          createdById: userId,
+        },
+        updateData,
+      );
+    }
+
+    return this.vaccineBatchStore.update(batchId, updateData);
+  }
+
+  /**
+   * Discards doses of a batch (broken vials, cold-chain break...)
+   *
+   * Business Rules:
+   * - Requires the batch:write permission (MANAGER)
+   * - A reason is mandatory and is recorded in the DISCARD stock movement
+   * - Without quantity, every remaining dose is discarded
+   * - Quantity cannot exceed the batch's currentQuantity
+   * - Discarding every remaining dose sets the status to DISCARDED
+   * - The vaccine's totalStock is reduced by the discarded doses of an
+   *   AVAILABLE batch, in the same transaction
+   *
+   * @param batchId - Batch UUID
+   * @param data - Quantity (optional), reason and notes
+   * @param userId - ID of the manager discarding the doses
+   * @returns Updated vaccine batch
+   * @throws ForbiddenError if user lacks batch:write (from UserService)
+   * @throws VaccineBatchNotFoundError if batch does not exist
+   * @throws InvalidBatchQuantityError if there is nothing to discard or
+   * quantity exceeds the current quantity
+   *
+   * @example
+   * // 3 vials broken on arrival
+   * await vaccineBatchService.discardFromBatch(
+   *   'batch-id',
+   *   { quantity: 3, reason: 'BROKEN_VIAL' },
+   *   'manager-user-id',
+   * );
+   */
+  async discardFromBatch(
+    batchId: string,
+    data: DiscardBatchDTO,
+    userId: string,
+  ): Promise<VaccineBatch> {
+    await this.userService.validatePermission(userId, Permissions.BATCH_WRITE);
+
+    const batch = await this.vaccineBatchStore.findById(batchId);
+    if (!batch || batch.deletedAt) {
+      throw new VaccineBatchNotFoundError(`Batch with ID ${batchId} not found`);
+    }
+
+    if (batch.currentQuantity === 0) {
+      throw new InvalidBatchQuantityError('Batch has no doses to discard');
+    }
+
+    const quantity = data.quantity ?? batch.currentQuantity;
+    if (quantity > batch.currentQuantity) {
+      throw new InvalidBatchQuantityError(
+        `Cannot discard ${quantity} doses. Available: ${batch.currentQuantity}`,
+      );
+    }
+
+    // A recalled batch keeps its status when its doses are disposed of
+    const isWholeBatch =
+      quantity === batch.currentQuantity && batch.status !== 'RECALLED';
+
+    return this.vaccineBatchStore.applyStockChange(
+      batchId,
+      {
+        type: 'DISCARD',
+        quantity: -quantity,
+        discardReason: data.reason,
+        reason: data.notes,
+        createdById: userId,
+      },
+      {
+        status: isWholeBatch ? 'DISCARDED' : undefined,
+        updatedAt: getCurrentDate(),
+      },
+    );
+  }
+
+  /**
+   * Puts a batch in quarantine while it is under investigation
+   *
+   * Business Rules:
+   * - Requires the batch:write permission (MANAGER)
+   * - Only AVAILABLE or DEPLETED batches can be quarantined
+   * - Doses are kept, but leave the vaccine's totalStock and can no longer
+   *   be applied
+   * - Pending schedulings of the vaccine that the remaining stock no longer
+   *   covers are cancelled, latest scheduled date first. The others stay
+   *   reserved against the other batches
+   * - Every user who received a dose from the batch, and every patient whose
+   *   scheduling was cancelled, is notified in-app
+   * - Reversible through releaseBatch
+   *
+   * @param batchId - Batch UUID
+   * @param data - Reason of the quarantine
+   * @param userId - ID of the manager
+   * @returns Updated batch, quarantine record and affected schedulings
+   * @throws ForbiddenError if user lacks batch:write (from UserService)
+   * @throws VaccineBatchNotFoundError if batch does not exist
+   * @throws InvalidBatchStatusTransitionError if the batch cannot be quarantined
+   */
+  async quarantineBatch(
+    batchId: string,
+    data: QuarantineBatchDTO,
+    userId: string,
+  ): Promise<BatchQuarantineResult> {
+    return this.blockBatch(batchId, 'QUARANTINE', data, userId);
+  }
+
+  /**
+   * Recalls a batch, e.g. after a manufacturer recall notice
+   *
+   * Same rules as quarantineBatch, except that QUARANTINED batches can also
+   * be recalled and a recall is final: the batch cannot be released.
+   *
+   * @param batchId - Batch UUID
+   * @param data - Reason of the recall
+   * @param userId - ID of the manager
+   * @returns Updated batch, recall record and affected schedulings
+   * @throws ForbiddenError if user lacks batch:write (from UserService)
+   * @throws VaccineBatchNotFoundError if batch does not exist
+   * @throws InvalidBatchStatusTransitionError if the batch cannot be recalled
+   */
+  async recallBatch(
+    batchId: string,
+    data: QuarantineBatchDTO,
+    userId: string,
+  ): Promise<BatchQuarantineResult> {
+    return this.blockBatch(batchId, 'RECALL', data, userId);
+  }
+
+  /**
+   * Lifts the quarantine of a batch
+   *
+   * Business Rules:
+   * - Requires the batch:write permission (MANAGER)
+   * - Only QUARANTINED batches can be released, recalls are final
+   * - An expired batch cannot be released
+   * - The batch becomes AVAILABLE again (DEPLETED without doses) and its
+   *   doses count towards the vaccine's totalStock
+   * - Schedulings cancelled by the quarantine are not restored
+   *
+   * @param batchId - Batch UUID
+   * @param userId - ID of the manager
+   * @returns Updated vaccine batch
+   * @throws ForbiddenError if user lacks batch:write (from UserService)
+   * @throws VaccineBatchNotFoundError if batch does not exist
+   * @throws InvalidBatchStatusTransitionError if the batch is not QUARANTINED
+   * @throws ExpiredBatchError if the batch expired during the quarantine
+   */
+  async releaseBatch(batchId: string, userId: string): Promise<VaccineBatch> {
+    await this.userService.validatePermission(userId, Permissions.BATCH_WRITE);
+
+    const batch = await this.findActiveBatch(batchId);
+
+    if (batch.status !== 'QUARANTINED') {
+      throw new InvalidBatchStatusTransitionError(
+        `Batch ${batch.batchNumber} is not in quarantine (status: ${batch.status})`,
+      );
+    }
+
+    if (isDateBeforeToday(batch.expirationDate)) {
+      throw new ExpiredBatchError(
+        `Batch ${batch.batchNumber} expired during the quarantine`,
+      );
+    }
+
+    return this.vaccineBatchStore.releaseQuarantine(batchId, userId);
+  }
+
+  /**
+   * Lists everyone who received a dose from a batch, for follow-up after a
+   * quarantine or recall
+   *
+   * Business Rules:
+   * - Requires the application:read permission (NURSE, MANAGER)
+   * - Voided applications are not listed
+   * - Each application carries its number of reported adverse events
+   *
+   * @param batchId - Batch UUID
+   * @param userId - ID of the requesting user
+   * @returns Applications of the batch with their patient, oldest first
+   * @throws ForbiddenError if user lacks application:read (from UserService)
+   * @throws VaccineBatchNotFoundError if batch does not exist
+   */
+  async getBatchRecipients(
+    batchId: string,
+    userId: string,
+  ): Promise<BatchRecipient[]> {
+    await this.userService.validatePermission(
+      userId,
+      Permissions.APPLICATION_READ,
+    );
+
+    await this.findActiveBatch(batchId);
+
+    return this.vaccineApplicationStore.findRecipientsByBatchId(batchId);
+  }
+
+  private async blockBatch(
+    batchId: string,
+    type: BatchQuarantineType,
+    data: QuarantineBatchDTO,
+    userId: string,
+  ): Promise<BatchQuarantineResult> {
+    await this.userService.validatePermission(userId, Permissions.BATCH_WRITE);
+
+    const batch = await this.findActiveBatch(batchId);
+
+    const allowedStatuses =
+      type === 'RECALL'
+        ? ['AVAILABLE', 'DEPLETED', 'QUARANTINED']
+        : ['AVAILABLE', 'DEPLETED'];
+    if (!allowedStatuses.includes(batch.status)) {
+      throw new InvalidBatchStatusTransitionError(
+        `Batch ${batch.batchNumber} cannot be ${type === 'RECALL' ? 'recalled' : 'quarantined'} (status: ${batch.status})`,
+      );
+    }
+
+    const vaccine = await this.vaccineStore.findById(batch.vaccineId);
+    if (!vaccine) {
+      throw new VaccineNotFoundError(
+        `Vaccine with ID ${batch.vaccineId} not found`,
+      );
+    }
+
+    return this.vaccineBatchStore.quarantineBatch(
+      batchId,
+      { type, reason: data.reason, createdById: userId },
+      (result) => this.buildBatchQuarantinedEvent(result, vaccine),
+    );
+  }
+
+  private async findActiveBatch(batchId: string): Promise<VaccineBatch> {
+    const batch = await this.vaccineBatchStore.findById(batchId);
+    if (!batch || batch.deletedAt) {
+      throw new VaccineBatchNotFoundError(`Batch with ID ${batchId} not found`);
     }
+    return batch;
+  }
+
+  /**
+   * Builds the batch.quarantined event written to the outbox in the same
+   * transaction as the quarantine
+   */
+  private buildBatchQuarantinedEvent(
+    result: BatchQuarantineResult,
+    vaccine: Vaccine,
+  ): OutboxEventCreateInput {
+    const payload: BatchQuarantinedEvent = {
+      channels: ['in-app'],
+      type: EventNames.BATCH_QUARANTINED,
+      priority: result.quarantine.type === 'RECALL' ? 'urgent' : 'high',
+      data: {
+        quarantineId: result.quarantine.id,
+        type: result.quarantine.type,
+        batchId: result.batch.id,
+        batchNumber: result.batch.batchNumber,
+        vaccineId: vaccine.id,
+        vaccineName: vaccine.name,
+        manufacturer: vaccine.manufacturer,
+        reason: result.quarantine.reason,
+        cancelledSchedulings: result.cancelledSchedulings,
+      },
+    };
 
-    return updatedBatch;
+    return { eventName: EventNames.BATCH_QUARANTINED, payload };
   }
 
   private async normalizeAndValidateUpdateData(
@@ -263,6 +565,10 @@ export class VaccineBatchService {
       normalizedData.status = data.status;
     }
 
+    if (data.reason !== undefined) {
+      normalizedData.reason = data.reason;
+    }
+
     return normalizedData;
   }
 
@@ -306,6 +612,86 @@ export class VaccineBatchService {
     return this.vaccineBatchStore.findPaginatedBatches(params, mergedFilters);
   }
 
+  /**
+   * Retrieves the stock movement history of a batch
+   *
+   * Business Rules:
+   * - Requires the batch:read permission
+   * - Batch must exist
+   * - Newest movements first by default
+   *
+   * @param batchId - Batch UUID
+   * @param userId - ID of the user requesting the history
+   * @param params - Pagination parameters (page, perPage, sortBy, sortOrder)
+   * @param filters - Optional movement type and period
+   * @returns Paginated stock movements, with the user who recorded each one
+   * @throws ForbiddenError if user lacks batch:read (from UserService)
+   * @throws VaccineBatchNotFoundError if batch does not exist
+   */
+  async getBatchMovements(
+    batchId: string,
+    userId: string,
+    params: PaginationParams,
+    filters?: StockMovementFilterParams,
+  ): Promise<PaginatedResponse<StockMovementWithCreator>> {
+    await this.userService.validatePermission(userId, Permissions.BATCH_READ);
+
+    const batch = await this.vaccineBatchStore.findById(batchId);
+    if (!batch) {
+      throw new VaccineBatchNotFoundError(`Batch with ID ${batchId} not found`);
+    }
+
+    return this.stockMovementStore.findPaginatedByBatchId(
+      batchId,
+      params,
+      filters,
+    );
+  }
+
+  /**
+   * Checks that the quantity of every batch matches its stock ledger
+   *
+   * Business Rules:
+   * - Requires the batch:read permission
+   * - A batch is consistent when currentQuantity equals the sum of its
+   *   stock movements
+   * - Soft-deleted batches are not checked
+   *
+   * @param userId - ID of the user requesting the check
+   * @returns Number of batches checked and the ones that do not match
+   * @throws ForbiddenError if user lacks batch:read (from UserService)
+   */
+  async reconcileStock(userId: string): Promise<StockReconciliationResult> {
+    await this.userService.validatePermission(userId, Permissions.BATCH_READ);
+
+    const batches = (await this.vaccineBatchStore.findAll()).filter(
+      (batch) => !batch.deletedAt,
+    );
+    const balances = await this.stockMovementStore.getBalancesByBatch();
+
+    const mismatches: StockReconciliationMismatch[] = batches
+      .map((batch) => {
+        const ledgerBalance = balances.get(batch.id) ?? 0;
+
+        return {
+          batchId: batch.id,
+          batchNumber: batch.batchNumber,
+          vaccineId: batch.vaccineId,
+          currentQuantity: batch.currentQuantity,
+          ledgerBalance,
+          difference: batch.currentQuantity - ledgerBalance,
+        };
+      })
+      .filter((result) => result.difference !== 0);
+
+    return {
+      checkedBatches: batches.length,
+      consistent: mismatches.length === 0,
+      mismatches,
+      checkedAt: getCurrentDate(),
+    };
+  }
+
   async deleteVaccineBatch(batchId: string): Promise<void> {
     // Retrieve the batch before deletion
     const batch = await this.vaccineBatchStore.findById(batchId);
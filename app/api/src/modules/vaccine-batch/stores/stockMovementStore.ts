@@ -0,0 +1,130 @@
+/**
+ * StockMovementStore - Prisma-based implementation of IStockMovementStore
+ *
+ * Reads the stock ledger. Movements are written by VaccineBatchStore and
+ * VaccineApplicationStore inside their transactions (recordStockMovement).
+ */
+
+import type { Prisma } from '@infrastructure/database';
+import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
+import {
+  type PaginatedResponse,
+  type PaginationParams,
+  calculatePaginationMetadata,
+} from '@shared/interfaces/pagination';
+import type {
+  IStockMovementStore,
+  StockMovementFilterParams,
+} from '@shared/interfaces/stockMovement';
+import type {
+  StockMovement,
+  StockMovementCreateInput,
+  StockMovementDelegate,
+  StockMovementUpdateInput,
+  StockMovementWithBatch,
+  StockMovementWithCreator,
+} from '@shared/models/stockMovement';
+import { BaseStore } from '@shared/stores/baseStore';
+import { injectable } from 'tsyringe';
+import { allowedStockMovementSortFields } from '../constants';
+
+@injectable()
+export class StockMovementStore
+  extends BaseStore<
+    StockMovement,
+    StockMovementDelegate,
+    StockMovementCreateInput,
+    StockMovementUpdateInput
+  >
+  implements IStockMovementStore
+{
+  protected readonly model = this.prisma.stockMovement;
+
+  async findPaginatedByBatchId(
+    batchId: string,
+    params: PaginationParams,
+    filters?: StockMovementFilterParams,
+  ): Promise<PaginatedResponse<StockMovementWithCreator>> {
+    const where: Prisma.StockMovementWhereInput = { batchId };
+
+    if (filters?.type) {
+      where.type = filters.type;
+    }
+
+    if (filters?.from || filters?.to) {
+      where.createdAt = {
+        gte: filters.from,
+        lte: filters.to,
+      };
+    }
+
+    const [total, movements] = await Promise.all([
+      this.model.count({ where }),
+      this.model.findMany({
+        where,
+        ...buildPaginationArgs(params, allowedStockMovementSortFields),
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    return {
+      data: movements,
+      pagination: calculatePaginationMetadata(
+        params.page,
+        params.perPage,
+        total,
+      ),
+    };
+  }
+
+  async getBalancesByBatch(batchIds?: string[]): Promise<Map<string, number>> {
+    const groups = await this.model.groupBy({
+      by: ['batchId'],
+      where: batchIds ? { batchId: { in: batchIds } } : undefined,
+      _sum: { quantity: true },
+    });
+
+    return new Map(
+      groups.map((group) => [group.batchId, group._sum.quantity ?? 0]),
+    );
+  }
+
+  async findWriteOffs(
+    filters?: StockMovementFilterParams,
+  ): Promise<StockMovementWithBatch[]> {
+    return this.model.findMany({
+      where: {
+        type: { in: ['DISCARD', 'EXPIRY'] },
+        vaccineId: filters?.vaccineId,
+        createdAt:
+          filters?.from || filters?.to
+            ? { gte: filters.from, lte: filters.to }
+            : undefined,
+      },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        vaccine: {
+          select: {
+            id: true,
+            name: true,
+            manufacturer: true,
+          },
+        },
+        batch: {
+          select: {
+            id: true,
+            batchNumber: true,
+          },
+        },
+      },
+    });
+  }
+}
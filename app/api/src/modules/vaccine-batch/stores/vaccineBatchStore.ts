@@ -6,6 +6,7 @@ import type {
 import type {
   PaginatedResponse,
   PaginationParams,
+  SortParams,
 } from '@shared/interfaces/pagination';
 import { calculatePaginationMetadata } from '@shared/interfaces/pagination';
 import type {
@@ -13,12 +14,34 @@ import type {
   VaccineBatchFilterParams,
   VaccineBatchStatistics,
 } from '@shared/interfaces/vaccineBatch';
+import { enqueueOutboxEvent } from '@shared/helpers/outboxHelper';
+import {
+  applyBatchStockChange,
+  lockBatch,
+  recordStockMovement,
+} from '@shared/helpers/stockMovementHelper';
+import {
+  getCurrentDate,
+  getStartOfDay,
+  isDateBeforeToday,
+} from '@shared/helpers/timeHelper';
+import type { OutboxEventCreateInput } from '@shared/models/outboxEvent';
+import type { BatchStockChange } from '@shared/models/stockMovement';
 import type {
+  BatchQuarantine,
+  BatchQuarantineInput,
+  BatchQuarantineResult,
   VaccineBatchCreateInput,
   VaccineBatchDelegate,
   VaccineBatchUpdateInput,
+  VaccineBatchWithCreator,
+  VaccineBatchWithVaccine,
 } from '@shared/models/vaccineBatch';
-import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
+import {
+  buildExportOrderBy,
+  buildPaginationArgs,
+  findInBatches,
+} from '@shared/helpers/prismaHelper';
 import { BaseStore } from '@shared/stores/baseStore';
 import { injectable } from 'tsyringe';
 import { allowedVaccineBatchSortFields } from '../constants';
@@ -40,6 +63,9 @@ import { allowedVaccineBatchSortFields } from '../constants';
  * - exists(where)
  *
  * And adds VaccineBatch-specific methods for stock management, expiration tracking, and reporting.
+ *
+ * Every change to currentQuantity goes through a transaction that also
+ * writes a StockMovement, so the stock ledger is a complete history.
  */
 
 @injectable()
@@ -69,10 +95,10 @@ export class VaccineBatchStore
         receivedDate: data.receivedDate,
         status: data.status as any,
         vaccine: {
-          connect: { id: data.vaccineId },  // Store handles Prisma conversion
+          connect: { id: data.vaccineId }, // Store handles Prisma conversion
         },
         createdBy: {
-          connect: { id: data.createdById },  // Store handles Prisma conversion
+          connect: { id: data.createdById }, // Store handles Prisma conversion
         },
       },
     });
@@ -110,30 +136,7 @@ export class VaccineBatchStore
   ): Promise<PaginatedResponse<VaccineBatch>> {
     const { page, perPage } = params;
 
-    const where: Prisma.VaccineBatchWhereInput = {
-      deletedAt: filters?.includeDeleted ? undefined : null,
-    };
-
-    if (filters?.vaccineId) {
-      where.vaccineId = filters.vaccineId;
-    }
-
-    if (filters?.status) {
-      where.status = filters.status;
-    }
-
-    if (filters?.expiringBefore || filters?.expiringAfter) {
-      const expirationFilter: Prisma.DateTimeFilter = {};
-      if (filters.expiringBefore) expirationFilter.lte = filters.expiringBefore;
-      if (filters.expiringAfter) expirationFilter.gte = filters.expiringAfter;
-      where.expirationDate = expirationFilter;
-    }
-
-    if (filters?.minQuantity !== undefined) {
-      where.currentQuantity = {
-        gte: filters.minQuantity,
-      };
-    }
+    const where = this.buildWhereClause(filters);
 
     const [total, batches] = await Promise.all([
       this.count(where),
@@ -162,52 +165,252 @@ export class VaccineBatchStore
   }
 
   /**
-   * Decrements the current quantity of a batch
-   * Automatically updates status to DEPLETED if quantity reaches 0
+   * Finds every batch matching the filters, in batches of rows, for exports
    */
-  async decrementQuantity(id: string, quantity: number): Promise<VaccineBatch> {
-    const batch = await this.findById(id);
-    if (!batch) {
-      throw new Error(`Vaccine batch with id ${id} not found`);
-    }
+  findBatchesForExport(
+    sort: SortParams,
+    filters?: VaccineBatchFilterParams,
+  ): AsyncIterable<VaccineBatchWithCreator[]> {
+    const where = this.buildWhereClause(filters);
+    const orderBy = buildExportOrderBy(sort, allowedVaccineBatchSortFields);
 
-    const newQuantity = batch.currentQuantity - quantity;
-    if (newQuantity < 0) {
-      throw new Error(
-        `Insufficient quantity. Available: ${batch.currentQuantity}, Requested: ${quantity}`,
-      );
-    }
+    return findInBatches((batch) =>
+      this.model.findMany({
+        where,
+        orderBy,
+        ...batch,
+        include: {
+          createdBy: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      }),
+    );
+  }
 
-    return this.model.update({
-      where: { id },
-      data: {
-        currentQuantity: newQuantity,
-        status: newQuantity === 0 ? 'DEPLETED' : batch.status,
-      },
+  /**
+   * Creates a batch and records its receipt in the stock ledger
+   *
+   * The batch, the RECEIPT movement and the vaccine's totalStock increment
+   * are written in the same transaction.
+   */
+  async createWithReceipt(
+    data: VaccineBatchCreateInput,
+  ): Promise<VaccineBatch> {
+    return this.prisma.$transaction(async (tx) => {
+      const batch = await tx.vaccineBatch.create({
+        data: {
+          batchNumber: data.batchNumber,
+          initialQuantity: data.initialQuantity,
+          currentQuantity: data.currentQuantity,
+          expirationDate: data.expirationDate,
+          receivedDate: data.receivedDate,
+          status: data.status as BatchStatus,
+          vaccine: {
+            connect: { id: data.vaccineId },
+          },
+          createdBy: {
+            connect: { id: data.createdById },
+          },
+        },
+      });
+
+      if (batch.status === 'AVAILABLE') {
+        await tx.vaccine.update({
+          where: { id: batch.vaccineId },
+          data: { totalStock: { increment: batch.currentQuantity } },
+        });
+      }
+
+      await recordStockMovement(tx, {
+        batchId: batch.id,
+        vaccineId: batch.vaccineId,
+        type: 'RECEIPT',
+        quantity: batch.currentQuantity,
+        balanceAfter: batch.currentQuantity,
+        createdById: data.createdById,
+      });
+
+      return batch;
     });
   }
 
   /**
-   * Increments the current quantity of a batch
-   * Updates status to AVAILABLE if was DEPLETED
+   * Applies a stock change to a batch and records it in the stock ledger
+   *
+   * Runs in a single transaction:
+   * 1. Updates currentQuantity by change.quantity (and the optional fields)
+   * 2. Adjusts the vaccine's totalStock by the change in usable doses
+   * 3. Writes the stock movement
+   *
+   * Unless data.status is given, the status follows the quantity:
+   * AVAILABLE becomes DEPLETED at 0 and DEPLETED becomes AVAILABLE above 0.
    */
-  async incrementQuantity(id: string, quantity: number): Promise<VaccineBatch> {
-    const batch = await this.findById(id);
-    if (!batch) {
-      throw new Error(`Vaccine batch with id ${id} not found`);
-    }
+  async applyStockChange(
+    id: string,
+    change: BatchStockChange,
+    data: VaccineBatchUpdateInput = {},
+  ): Promise<VaccineBatch> {
+    return this.prisma.$transaction(async (tx) => {
+      const batch = await lockBatch(tx, id);
 
-    const newQuantity = batch.currentQuantity + quantity;
+      return applyBatchStockChange(tx, batch, change, data);
+    });
+  }
 
-    return this.model.update({
-      where: { id },
-      data: {
-        currentQuantity: newQuantity,
-        status: batch.status === 'DEPLETED' ? 'AVAILABLE' : batch.status,
-      },
+  async quarantineBatch(
+    id: string,
+    data: BatchQuarantineInput,
+    buildOutboxEvent?: (
+      result: BatchQuarantineResult,
+    ) => OutboxEventCreateInput,
+  ): Promise<BatchQuarantineResult> {
+    return this.prisma.$transaction(async (tx) => {
+      const { vaccineId } = await tx.vaccineBatch.findUniqueOrThrow({
+        where: { id },
+        select: { vaccineId: true },
+      });
+
+      // Step 1: Lock the vaccine row, as schedulings are booked against its stock
+      await tx.$queryRaw`
+        SELECT id FROM vaccines
+        WHERE id = ${vaccineId}
+        FOR UPDATE
+      `;
+
+      // Step 2: Block the batch, removing its doses from totalStock
+      const batch = await lockBatch(tx, id);
+      const updatedBatch = await applyBatchStockChange(
+        tx,
+        batch,
+        { type: 'ADJUSTMENT', quantity: 0 },
+        {
+          status: data.type === 'RECALL' ? 'RECALLED' : 'QUARANTINED',
+          updatedAt: new Date(),
+        },
+      );
+
+      // Step 3: Cancel the reservations the remaining stock no longer covers
+      const vaccine = await tx.vaccine.findUniqueOrThrow({
+        where: { id: vaccineId },
+        select: { totalStock: true },
+      });
+      const pendingSchedulings = await tx.vaccineScheduling.findMany({
+        where: {
+          vaccineId,
+          deletedAt: null,
+          status: { in: ['SCHEDULED', 'CONFIRMED'] },
+        },
+        orderBy: { scheduledDate: 'desc' },
+        select: {
+          id: true,
+          userId: true,
+          scheduledDate: true,
+          doseNumber: true,
+        },
+      });
+
+      const uncovered =
+        pendingSchedulings.length - Math.max(vaccine.totalStock, 0);
+      const cancelledSchedulings =
+        uncovered > 0 ? pendingSchedulings.slice(0, uncovered) : [];
+
+      if (cancelledSchedulings.length > 0) {
+        await tx.vaccineScheduling.updateMany({
+          where: { id: { in: cancelledSchedulings.map(({ id }) => id) } },
+          data: { status: 'CANCELLED' },
+        });
+      }
+
+      // Step 4: Audit record
+      const quarantine = await tx.batchQuarantine.create({
+        data: {
+          type: data.type,
+          reason: data.reason,
+          cancelledSchedulings: cancelledSchedulings.length,
+          batch: { connect: { id } },
+          createdBy: { connect: { id: data.createdById } },
+        },
+      });
+
+      const result: BatchQuarantineResult = {
+        batch: updatedBatch,
+        quarantine,
+        cancelledSchedulings,
+        reassignedSchedulings:
+          pendingSchedulings.length - cancelledSchedulings.length,
+      };
+
+      if (buildOutboxEvent) {
+        // Step 5: Publish the event through the outbox
+        await enqueueOutboxEvent(tx, buildOutboxEvent(result));
+      }
+
+      return result;
+    });
+  }
+
+  async releaseQuarantine(
+    id: string,
+    releasedById: string,
+  ): Promise<VaccineBatch> {
+    return this.prisma.$transaction(async (tx) => {
+      const batch = await lockBatch(tx, id);
+
+      const updatedBatch = await applyBatchStockChange(
+        tx,
+        batch,
+        { type: 'ADJUSTMENT', quantity: 0 },
+        {
+          status: batch.currentQuantity > 0 ? 'AVAILABLE' : 'DEPLETED',
+          updatedAt: new Date(),
+        },
+      );
+
+      await tx.batchQuarantine.updateMany({
+        where: { batchId: id, type: 'QUARANTINE', releasedAt: null },
+        data: { releasedAt: new Date(), releasedById },
+      });
+
+      return updatedBatch;
     });
   }
 
+  async findQuarantinesByBatchId(batchId: string): Promise<BatchQuarantine[]> {
+    return this.prisma.batchQuarantine.findMany({
+      where: { batchId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Decrements the current quantity of a batch
+   * Automatically updates status to DEPLETED if quantity reaches 0
+   */
+  async decrementQuantity(
+    id: string,
+    quantity: number,
+    movement: Omit<BatchStockChange, 'quantity'>,
+  ): Promise<VaccineBatch> {
+    return this.applyStockChange(id, { ...movement, quantity: -quantity });
+  }
+
+  /**
+   * Increments the current quantity of a batch
+   * Updates status to AVAILABLE if was DEPLETED
+   */
+  async incrementQuantity(
+    id: string,
+    quantity: number,
+    movement: Omit<BatchStockChange, 'quantity'>,
+  ): Promise<VaccineBatch> {
+    return this.applyStockChange(id, { ...movement, quantity });
+  }
+
   /**
    * Gets the current available quantity for a batch
    */
@@ -233,14 +436,14 @@ export class VaccineBatchStore
   }
 
   /**
-   * Finds all batches that have expired (expiration date < now)
+   * Finds all batches that have expired (expiration date before today)
    * but status is still AVAILABLE
    */
   async findExpiredBatches(): Promise<VaccineBatch[]> {
     return this.model.findMany({
       where: {
         expirationDate: {
-          lt: new Date(),
+          lt: getStartOfDay(getCurrentDate()),
         },
         status: 'AVAILABLE',
         deletedAt: null,
@@ -251,14 +454,16 @@ export class VaccineBatchStore
   /**
    * Finds batches expiring within a specified number of days
    */
-  async findBatchesExpiringSoon(days: number): Promise<VaccineBatch[]> {
+  async findBatchesExpiringSoon(
+    days: number,
+  ): Promise<VaccineBatchWithVaccine[]> {
     const futureDate = new Date();
     futureDate.setDate(futureDate.getDate() + days);
 
     return this.model.findMany({
       where: {
         expirationDate: {
-          gte: new Date(),
+          gte: getStartOfDay(getCurrentDate()),
           lte: futureDate,
         },
         status: 'AVAILABLE',
@@ -275,32 +480,60 @@ export class VaccineBatchStore
 
   /**
    * Marks a batch as expired
+   * The remaining doses are written off with an EXPIRY movement
    */
   async markAsExpired(id: string): Promise<VaccineBatch> {
-    return this.model.update({
-      where: { id },
-      data: {
-        status: 'EXPIRED',
-      },
+    return this.prisma.$transaction(async (tx) => {
+      const batch = await lockBatch(tx, id);
+
+      return applyBatchStockChange(
+        tx,
+        batch,
+        {
+          type: 'EXPIRY',
+          quantity: -batch.currentQuantity,
+          reason: 'Batch expired',
+        },
+        { status: 'EXPIRED' },
+      );
     });
   }
 
   /**
-   * Marks multiple batches as expired in a single transaction
+   * Marks multiple AVAILABLE batches as expired in a single transaction
+   * The remaining doses of each batch are written off with an EXPIRY movement
    */
   async markMultipleAsExpired(ids: string[]): Promise<number> {
-    const result = await this.model.updateMany({
-      where: {
-        id: {
-          in: ids,
+    return this.prisma.$transaction(async (tx) => {
+      const candidates = await tx.vaccineBatch.findMany({
+        where: {
+          id: { in: ids },
+          status: 'AVAILABLE',
         },
-      },
-      data: {
-        status: 'EXPIRED',
-      },
-    });
+        select: { id: true },
+      });
+
+      let expired = 0;
+      for (const { id } of candidates) {
+        // Re-read under lock: the batch may have changed since the query
+        const batch = await lockBatch(tx, id);
+        if (batch.status !== 'AVAILABLE') continue;
+
+        await applyBatchStockChange(
+          tx,
+          batch,
+          {
+            type: 'EXPIRY',
+            quantity: -batch.currentQuantity,
+            reason: 'Batch expired',
+          },
+          { status: 'EXPIRED' },
+        );
+        expired++;
+      }
 
-    return result.count;
+      return expired;
+    });
   }
 
   /**
@@ -313,7 +546,7 @@ export class VaccineBatchStore
     });
 
     if (!batch) return false;
-    return batch.expirationDate < new Date();
+    return isDateBeforeToday(batch.expirationDate);
   }
 
   /**
@@ -386,7 +619,7 @@ export class VaccineBatchStore
           gt: 0,
         },
         expirationDate: {
-          gte: new Date(),
+          gte: getStartOfDay(getCurrentDate()),
         },
         deletedAt: null,
       },
@@ -431,6 +664,7 @@ export class VaccineBatchStore
       expiredBatches,
       depletedBatches,
       discardedBatches,
+      quarantinedBatches,
       batchesExpiringSoon,
       availableQuantityResult,
     ] = await Promise.all([
@@ -439,10 +673,11 @@ export class VaccineBatchStore
       this.count({ ...where, status: 'EXPIRED' }),
       this.count({ ...where, status: 'DEPLETED' }),
       this.count({ ...where, status: 'DISCARDED' }),
+      this.count({ ...where, status: { in: ['QUARANTINED', 'RECALLED'] } }),
       this.count({
         ...where,
         expirationDate: {
-          gte: new Date(),
+          gte: getStartOfDay(getCurrentDate()),
           lte: futureDate,
         },
         status: 'AVAILABLE',
@@ -465,6 +700,7 @@ export class VaccineBatchStore
       expiredBatches,
       depletedBatches,
       discardedBatches,
+      quarantinedBatches,
       batchesExpiringSoon,
     };
   }
@@ -508,4 +744,38 @@ export class VaccineBatchStore
       },
     });
   }
+
+  /**
+   * Builds the WHERE clause shared by the batch listing queries
+   */
+  private buildWhereClause(
+    filters?: VaccineBatchFilterParams,
+  ): Prisma.VaccineBatchWhereInput {
+    const where: Prisma.VaccineBatchWhereInput = {
+      deletedAt: filters?.includeDeleted ? undefined : null,
+    };
+
+    if (filters?.vaccineId) {
+      where.vaccineId = filters.vaccineId;
+    }
+
+    if (filters?.status) {
+      where.status = filters.status;
+    }
+
+    if (filters?.expiringBefore || filters?.expiringAfter) {
+      const expirationFilter: Prisma.DateTimeFilter = {};
+      if (filters.expiringBefore) expirationFilter.lte = filters.expiringBefore;
+      if (filters.expiringAfter) expirationFilter.gte = filters.expiringAfter;
+      where.expirationDate = expirationFilter;
+    }
+
+    if (filters?.minQuantity !== undefined) {
+      where.currentQuantity = {
+        gte: filters.minQuantity,
+      };
+    }
+
+    return where;
+  }
 }
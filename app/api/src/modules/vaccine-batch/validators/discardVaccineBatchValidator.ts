@@ -0,0 +1,26 @@
+import { z } from 'zod';
+
+export const DiscardVaccineBatchBodySchema = z.object({
+  quantity: z
+    .number()
+    .int('Quantity must be an integer')
+    .min(1, 'Quantity must be at least 1')
+    .optional(),
+  reason: z.enum(
+    ['COLD_CHAIN_BREAK', 'BROKEN_VIAL', 'CONTAMINATION', 'EXPIRY'],
+    {
+      message:
+        'Reason must be one of: COLD_CHAIN_BREAK, BROKEN_VIAL, CONTAMINATION, EXPIRY',
+    },
+  ),
+  notes: z
+    .string()
+    .trim()
+    .min(1, 'Notes cannot be empty if provided')
+    .max(500, 'Notes too long')
+    .optional(),
+});
+
+export type DiscardVaccineBatchBody = z.infer<
+  typeof DiscardVaccineBatchBodySchema
+>;
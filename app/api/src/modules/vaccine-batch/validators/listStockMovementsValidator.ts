@@ -0,0 +1,24 @@
+import { z } from 'zod';
+
+export const ListStockMovementsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  perPage: z.coerce.number().int().min(1).max(100).default(20),
+  sortBy: z.enum(['createdAt', 'type', 'quantity']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  type: z
+    .enum([
+      'RECEIPT',
+      'APPLICATION',
+      'ADJUSTMENT',
+      'DISCARD',
+      'EXPIRY',
+      'TRANSFER',
+    ])
+    .optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+export type ListStockMovementsQuery = z.infer<
+  typeof ListStockMovementsQuerySchema
+>;
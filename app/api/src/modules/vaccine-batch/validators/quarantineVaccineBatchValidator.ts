@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+export const QuarantineVaccineBatchBodySchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Reason is required')
+    .max(500, 'Reason too long'),
+});
+
+export type QuarantineVaccineBatchBody = z.infer<
+  typeof QuarantineVaccineBatchBodySchema
+>;
@@ -26,4 +26,10 @@ export const UpdateVaccineBatchBodySchema = z.object({
     .transform((date) => new Date(date))
     .optional(),
   status: z.enum(['AVAILABLE', 'EXPIRED', 'DEPLETED', 'DISCARDED']).optional(),
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Reason cannot be empty if provided')
+    .max(500, 'Reason too long')
+    .optional(),
 });
@@ -1,3 +1,9 @@
+import type { ExportColumn } from '@shared/models/export';
+import type {
+  VaccineScheduling,
+  VaccineSchedulingListItem,
+} from '@shared/models/vaccineScheduling';
+
 export const allowedVaccineSchedulingSortFields = [
   'scheduledDate',
   'doseNumber',
@@ -7,3 +13,58 @@ export const allowedVaccineSchedulingSortFields = [
 ];
 
 export const DEFAULT_SCHEDULING_STATUS = 'SCHEDULED';
+
+/**
+ * Scheduling status labels (pt-BR) used in exports
+ */
+export const SCHEDULING_STATUS_LABELS: Record<
+  VaccineScheduling['status'],
+  string
+> = {
+  SCHEDULED: 'Agendado',
+  CONFIRMED: 'Confirmado',
+  CANCELLED: 'Cancelado',
+  COMPLETED: 'Concluído',
+};
+
+/**
+ * Columns of the scheduling list export
+ * (GET /vaccine-schedulings?format=csv|xlsx)
+ */
+export const SCHEDULING_EXPORT_COLUMNS: ExportColumn<VaccineSchedulingListItem>[] =
+  [
+    {
+      header: 'Data agendada',
+      value: (scheduling) => scheduling.scheduledDate,
+    },
+    {
+      header: 'Status',
+      value: (scheduling) => SCHEDULING_STATUS_LABELS[scheduling.status],
+    },
+    {
+      header: 'Funcionário',
+      value: (scheduling) => scheduling.user.name,
+      width: 30,
+    },
+    {
+      header: 'E-mail',
+      value: (scheduling) => scheduling.user.email,
+      width: 30,
+    },
+    {
+      header: 'Vacina',
+      value: (scheduling) => scheduling.vaccine.name,
+      width: 30,
+    },
+    { header: 'Dose', value: (scheduling) => scheduling.doseNumber },
+    {
+      header: 'Enfermeiro(a)',
+      value: (scheduling) => scheduling.assignedNurse?.name ?? 'Não atribuído',
+      width: 30,
+    },
+    {
+      header: 'Observações',
+      value: (scheduling) => scheduling.notes,
+      width: 40,
+    },
+  ];
@@ -1,7 +1,10 @@
 import { TOKENS } from '@infrastructure/di/tokens';
 import type { VaccineSchedulingService } from '@modules/vaccine-scheduling/services/vaccineSchedulingService';
+import type { GetAvailableSlotsDTO } from '@modules/vaccine-scheduling/validators/getAvailableSlotsValidator';
 import type { GetNurseSchedulingMonthlyDTO } from '@modules/vaccine-scheduling/validators/getNurseSchedulingMonthlyValidator';
 import type { ListVaccineSchedulingsDTO } from '@modules/vaccine-scheduling/validators/listVaccineSchedulingsValidator';
+import type { RebalanceSchedulingsDTO } from '@modules/vaccine-scheduling/validators/rebalanceSchedulingsValidator';
+import { sendExport } from '@shared/helpers/exportHelper';
 import { getDate } from '@shared/helpers/timeHelper';
 import type { VaccineSchedulingFilterParams } from '@shared/interfaces/vaccineScheduling';
 import type {
@@ -38,12 +41,12 @@ export class VaccineSchedulingController {
    *
    * HTTP Endpoint: POST /vaccine-schedulings
    * Authorization: Required
-   * - MANAGER: Can create for any user
-   * - EMPLOYEE/NURSE: Can only create for themselves
+   * - NURSE/MANAGER: Can create for any user (scheduling:create:others)
+   * - EMPLOYEE: Can only create for themselves
    * Body: CreateVaccineSchedulingDTO (validated by Zod middleware)
    *
    * Request Body:
-   * - userId: UUID of the user to schedule for
+   * - patientId: UUID of the user to schedule for (optional, defaults to the requesting user)
    * - vaccineId: UUID of the vaccine
    * - scheduledDate: ISO 8601 datetime string
    * - doseNumber: Dose number (default: 1)
@@ -53,7 +56,7 @@ export class VaccineSchedulingController {
    * POST /vaccine-schedulings
    * Headers: Authorization: Bearer <token>
    * {
-   *   "userId": "user-uuid",
+   *   "patientId": "user-uuid",
    *   "vaccineId": "vaccine-uuid",
    *   "scheduledDate": "2025-12-15T10:00:00.000Z",
    *   "doseNumber": 1,
@@ -147,12 +150,14 @@ export class VaccineSchedulingController {
    * - status: SCHEDULED | CONFIRMED | CANCELLED | COMPLETED
    * - startDate: ISO 8601 datetime - Filter by date range start
    * - endDate: ISO 8601 datetime - Filter by date range end
+   * - format: csv | xlsx - Download every matching scheduling instead of a page
    *
    * Examples:
    * - GET /vaccine-schedulings → List all (role-filtered)
    * - GET /vaccine-schedulings?userId=uuid → List for specific user (MANAGER only)
    * - GET /vaccine-schedulings?status=SCHEDULED → List scheduled appointments
    * - GET /vaccine-schedulings?startDate=2025-11-01T00:00:00Z&endDate=2025-11-30T23:59:59Z
+   * - GET /vaccine-schedulings?status=COMPLETED&format=csv → Spreadsheet of completed appointments
    *
    * Response: 200 OK
    * {
@@ -174,6 +179,16 @@ export class VaccineSchedulingController {
         endDate: query.endDate ? getDate(query.endDate) : undefined,
       };
 
+      if (query.format) {
+        const dataExport =
+          await this.vaccineSchedulingService.exportSchedulings(
+            filters,
+            requestingUserId,
+          );
+        await sendExport(res, query.format, dataExport);
+        return;
+      }
+
       const result = await this.vaccineSchedulingService.getSchedulings(
         filters,
         Number(query.page),
@@ -215,6 +230,73 @@ export class VaccineSchedulingController {
     }
   }
 
+  /**
+   * Lists the free appointment slots of a day for a vaccine
+   *
+   * HTTP Endpoint: GET /vaccine-schedulings/slots
+   * Authorization: Required (scheduling:create)
+   * Query Parameters:
+   * - date: YYYY-MM-DD
+   * - vaccineId: string (UUID)
+   *
+   * Response: 200 OK
+   * {
+   *   "date": "2026-04-06",
+   *   "vaccineId": "uuid",
+   *   "slots": [{ startTime, endTime, nurseId, nurseName, capacity, booked, available }]
+   * }
+   */
+  async getSlots(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { date, vaccineId } = req.query as unknown as GetAvailableSlotsDTO;
+
+      const result = await this.vaccineSchedulingService.getAvailableSlots(
+        date,
+        vaccineId,
+      );
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rebalances the nurse assignments of a day
+   *
+   * HTTP Endpoint: POST /vaccine-schedulings/rebalance
+   * Authorization: Required (scheduling:rebalance - MANAGER)
+   * Body: { date: YYYY-MM-DD }
+   *
+   * Response: 200 OK
+   * {
+   *   "date": "2026-04-06",
+   *   "reassigned": 3,
+   *   "unchanged": 12,
+   *   "unassigned": 0,
+   *   "workload": [{ nurseId, nurseName, before, after }]
+   * }
+   */
+  async rebalance(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> {
+    try {
+      const { date } = req.body as RebalanceSchedulingsDTO;
+
+      const result = await this.vaccineSchedulingService.rebalanceDay(date);
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Updates a vaccine scheduling
    *
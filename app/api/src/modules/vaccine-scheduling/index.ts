@@ -7,5 +7,7 @@ export * from './validators/listVaccineSchedulingsValidator';
 export * from './validators/getVaccineSchedulingValidator';
 export * from './validators/deleteVaccineSchedulingValidator';
 export * from './validators/getSchedulingsByDateValidator';
+export * from './validators/getAvailableSlotsValidator';
+export * from './validators/rebalanceSchedulingsValidator';
 export * from './errors';
 export * from './constants';
@@ -4,10 +4,17 @@ import {
   type NurseChangedEvent,
   type VaccineScheduledEvent,
 } from '@modules/notifications';
+import type { NurseAssignmentService } from '@modules/nurse-availability/services/nurseAssignmentService';
+import type { NurseAvailabilityService } from '@modules/nurse-availability/services/nurseAvailabilityService';
 import { DEFAULT_USER_SYSTEM_ID } from '@modules/user/constants';
-import { ForbiddenError, ValidationError } from '@modules/user/errors';
+import { ValidationError } from '@modules/user/errors';
 import type { UserService } from '@modules/user/services/userService';
 import { VaccineNotFoundError } from '@modules/vaccines/errors';
+import { Permissions } from '@shared/constants/permissions';
+import {
+  assertPermission,
+  hasPermission,
+} from '@shared/helpers/permissionHelper';
 import { defineFilterParams } from '@shared/helpers/schedulingsHelper';
 import {
   createDate,
@@ -15,7 +22,9 @@ import {
   getCurrentDate,
   getDate,
   getDifferenceBetweenDatesInDays,
+  getEndOfDay,
   getMonthDays,
+  getStartOfDay,
 } from '@shared/helpers/timeHelper';
 import type { IEventBus } from '@shared/interfaces/eventBus';
 import type { IVaccineStore } from '@shared/interfaces/vaccine';
@@ -23,15 +32,22 @@ import type {
   IVaccineSchedulingStore,
   VaccineSchedulingFilterParams,
 } from '@shared/interfaces/vaccineScheduling';
+import type { DataExport } from '@shared/models/export';
+import type {
+  RebalanceResult,
+  SchedulingSlot,
+} from '@shared/models/nurseAvailability';
 import type { UserResponse } from '@shared/models/user';
 import type {
   CreateVaccineSchedulingDTO,
   IntervalDateNurseScheduling,
   UpdateVaccineSchedulingDTO,
   VaccineScheduling,
+  VaccineSchedulingListItem,
   VaccineSchedulingWithRelations,
 } from '@shared/models/vaccineScheduling';
 import { inject, injectable } from 'tsyringe';
+import { SCHEDULING_EXPORT_COLUMNS } from '../constants';
 import {
   DuplicateSchedulingError,
   InvalidDoseNumberError,
@@ -67,31 +83,47 @@ export class VaccineSchedulingService {
     private readonly vaccineStore: IVaccineStore,
     @inject(TOKENS.IEventBus)
     private readonly eventBus: IEventBus,
+    @inject(TOKENS.NurseAvailabilityService)
+    private readonly nurseAvailabilityService: NurseAvailabilityService,
+    @inject(TOKENS.NurseAssignmentService)
+    private readonly nurseAssignmentService: NurseAssignmentService,
   ) {}
 
   /**
    * Creates a new vaccine scheduling
    *
    * Business Rules:
-   * - MANAGER can create scheduling for any user
-   * - EMPLOYEE/NURSE can only create scheduling for themselves
+   * - The patient is data.patientId, or the requesting user when omitted
+   * - Scheduling for another user requires scheduling:create:others
+   *   (NURSE, MANAGER)
    * - Vaccine must exist and not be deleted
    * - User (patient) must exist and be active
    * - Scheduled date must be in the future
+   * - Scheduled date must be the start of a free slot of the assigned nurse
+   * - Without nurseId, the least-loaded nurse with a free slot at that time
+   *   is assigned
    * - Dose number must not exceed vaccine.doses
    * - Cannot create duplicate scheduling for same user + vaccine + dose (with status SCHEDULED or CONFIRMED)
    *
    * Authorization:
-   * - MANAGER: Can create for any userId
-   * - EMPLOYEE/NURSE: Can only create for themselves (userId must match requestingUserId)
+   * - NURSE/MANAGER: Can create for any patientId
+   * - EMPLOYEE: Can only create for themselves
+   *
+   * The patient (and the chosen nurse) receive the vaccine.scheduled
+   * notification, whoever created the scheduling. An automatically
+   * assigned nurse is notified through nurse.changed instead.
    *
    * @param data - Vaccine scheduling creation data
    * @param requestingUserId - ID of the user initiating the request (from req.user)
    * @returns Created vaccine scheduling
-   * @throws ValidationError if EMPLOYEE/NURSE tries to create for another user
+   * @throws ForbiddenError if the user schedules for someone else without
+   * scheduling:create:others
+   * @throws ValidationError if the patient is inactive
    * @throws VaccineNotFoundError if vaccine not found or deleted
    * @throws UserNotFoundError if user not found
    * @throws InvalidSchedulingDateError if date is not in the future
+   * @throws OutsideAvailabilityError if no slot starts at the scheduled date
+   * @throws SlotUnavailableError if the slot is full
    * @throws MissingPreviousDoseError if previous dose is not scheduled
    * @throws DuplicateSchedulingError if scheduling already exists
    */
@@ -99,17 +131,36 @@ export class VaccineSchedulingService {
     data: CreateVaccineSchedulingDTO,
     requestingUserId: string,
   ): Promise<VaccineScheduling> {
-    // Fetch patient (requesting user), vaccine, and nurse in parallel
+    const patientId = data.patientId ?? requestingUserId;
+
+    // Scheduling on behalf of someone else (e.g. vaccination campaigns)
+    if (patientId !== requestingUserId) {
+      const requestingUser = await this.userService.getUserById(
+        requestingUserId,
+        DEFAULT_USER_SYSTEM_ID,
+      );
+      assertPermission(requestingUser, Permissions.SCHEDULING_CREATE_OTHERS);
+    }
 
+    // Fetch patient, vaccine, and nurse in parallel
     const [patient, vaccine, nurse] = await Promise.all([
-      this.userService.getUserById(requestingUserId, DEFAULT_USER_SYSTEM_ID),
+      this.userService.getUserById(patientId, DEFAULT_USER_SYSTEM_ID),
       this.vaccineStore.findById(data.vaccineId),
       data.nurseId
         ? this.userService.getUserById(data.nurseId, DEFAULT_USER_SYSTEM_ID)
         : Promise.resolve(null),
     ]);
 
-    if (nurse && nurse.role !== 'NURSE') {
+    if (!patient.isActive) {
+      throw new ValidationError(
+        'Cannot schedule a vaccine for an inactive user',
+      );
+    }
+
+    if (
+      nurse &&
+      !hasPermission(nurse.role, Permissions.SCHEDULING_ASSIGNED_READ)
+    ) {
       throw new ValidationError(
         'The assigned nurseId does not belong to a user with NURSE role',
       );
@@ -131,6 +182,20 @@ export class VaccineSchedulingService {
       );
     }
 
+    // Checked again, under lock, when the scheduling is created
+    const slot = nurse
+      ? await this.nurseAvailabilityService.assertSlotAvailable(
+          scheduledDate,
+          nurse.id,
+        )
+      : await this.nurseAssignmentService.findLeastLoadedNurse(scheduledDate);
+    const assignedNurse =
+      nurse ??
+      (await this.userService.getUserById(
+        slot.nurseId,
+        DEFAULT_USER_SYSTEM_ID,
+      ));
+
     // Validate dose number doesn't exceed vaccine doses
     if (data.doseNumber > vaccine.dosesRequired) {
       throw new InvalidDoseNumberError(data.vaccineId, vaccine.dosesRequired);
@@ -189,8 +254,8 @@ export class VaccineSchedulingService {
       }
     }
 
-    // Create the scheduling with atomic stock validation
-    // The store method handles stock validation atomically using pessimistic locking
+    // Create the scheduling with atomic stock and slot validation
+    // The store method handles both validations atomically using pessimistic locking
     // to prevent race conditions where concurrent requests could both pass validation
     // and create schedulings, leading to overbooking
     const scheduling =
@@ -202,9 +267,10 @@ export class VaccineSchedulingService {
           status: 'SCHEDULED',
           userId: patient.id,
           vaccineId: data.vaccineId,
-          nurseId: nurse ? nurse.id : undefined,
+          nurseId: assignedNurse.id,
         },
         data.vaccineId,
+        slot,
       );
 
     const usersInvolved: UserResponse[] = [];
@@ -222,15 +288,15 @@ export class VaccineSchedulingService {
             EventNames.VACCINE_SCHEDULED,
             {
               type: EventNames.VACCINE_SCHEDULED,
-              channels: ['in-app'],
+              channels: ['in-app', 'email'],
               data: {
                 schedulingId: scheduling.id,
                 patientId: patient.id,
                 patientName: patient.name,
                 patientEmail: patient.email,
-                nurseId: nurse?.id,
-                nurseName: nurse?.name,
-                nurseEmail: nurse?.email,
+                nurseId: assignedNurse?.id,
+                nurseName: assignedNurse?.name,
+                nurseEmail: assignedNurse?.email,
                 userRole: user.id === nurse?.id ? 'nurse' : 'patient',
                 vaccineId: vaccine.id,
                 vaccineName: vaccine.name,
@@ -252,9 +318,76 @@ export class VaccineSchedulingService {
       }),
     );
 
+    if (!nurse && assignedNurse) {
+      await this.nurseAssignmentService.emitNurseChanged(
+        scheduling.id,
+        assignedNurse.id,
+      );
+    }
+
     return scheduling;
   }
 
+  /**
+   * Lists the free appointment slots of a day for a vaccine
+   *
+   * Slots come from the nurses' availability templates. When the vaccine
+   * has no dose left to reserve, no slot is returned.
+   *
+   * @param date - Day to look up (YYYY-MM-DD)
+   * @param vaccineId - Vaccine to be applied
+   * @throws VaccineNotFoundError if vaccine not found or deleted
+   */
+  async getAvailableSlots(
+    date: string,
+    vaccineId: string,
+  ): Promise<{ date: string; vaccineId: string; slots: SchedulingSlot[] }> {
+    const [vaccine, vaccineSchedulings] = await Promise.all([
+      this.vaccineStore.findById(vaccineId),
+      this.vaccineSchedulingStore.findByVaccineId(vaccineId),
+    ]);
+
+    if (!vaccine || vaccine.deletedAt) {
+      throw new VaccineNotFoundError(`Vaccine with ID ${vaccineId} not found`);
+    }
+
+    const dosesReserved = vaccineSchedulings.filter(
+      (scheduling) =>
+        scheduling.status === 'SCHEDULED' || scheduling.status === 'CONFIRMED',
+    ).length;
+
+    const slots =
+      vaccine.totalStock - dosesReserved > 0
+        ? await this.nurseAvailabilityService.getFreeSlots(
+            getStartOfDay(getDate(date)),
+          )
+        : [];
+
+    return { date, vaccineId, slots };
+  }
+
+  /**
+   * Rebalances the nurse assignments of a day
+   *
+   * Pending schedulings that did not start yet are spread between the
+   * nurses working that day, least-loaded first. Unassigned schedulings get
+   * a nurse when one has room.
+   *
+   * Authorization: scheduling:rebalance (MANAGER), checked by the route
+   *
+   * @param date - Day to rebalance (YYYY-MM-DD)
+   * @throws InvalidSchedulingDateError if the day has already ended
+   */
+  async rebalanceDay(date: string): Promise<RebalanceResult> {
+    const day = getDate(date);
+
+    if (getEndOfDay(day) <= getCurrentDate()) {
+      throw new InvalidSchedulingDateError('Cannot rebalance a past day');
+    }
+
+    return this.nurseAssignmentService.rebalanceDay(day);
+  }
+
   async getNurseSchedulingsDetailed(
     requestingUserId: string,
     intervalDate: IntervalDateNurseScheduling,
@@ -264,11 +397,7 @@ export class VaccineSchedulingService {
       DEFAULT_USER_SYSTEM_ID,
     );
 
-    if (user.role !== 'NURSE') {
-      throw new ForbiddenError(
-        `You are not a nurse and are not allowed to see nurse's schedulings`,
-      );
-    }
+    assertPermission(user, Permissions.SCHEDULING_ASSIGNED_READ);
 
     const { year, month } = intervalDate;
 
@@ -376,6 +505,35 @@ export class VaccineSchedulingService {
     );
   }
 
+  /**
+   * Exports every scheduling matching the filters (no pagination)
+   *
+   * Same authorization, filters and order (newest first) as getSchedulings.
+   *
+   * @param filters - Filter parameters
+   * @param requestingUserId - ID of the user requesting the export
+   * @returns Export columns and row batches
+   */
+  async exportSchedulings(
+    filters: VaccineSchedulingFilterParams,
+    requestingUserId: string,
+  ): Promise<DataExport<VaccineSchedulingListItem>> {
+    const requestingUser = await this.userService.getUserById(
+      requestingUserId,
+      DEFAULT_USER_SYSTEM_ID,
+    );
+
+    return {
+      fileName: 'agendamentos',
+      sheetName: 'Agendamentos',
+      columns: SCHEDULING_EXPORT_COLUMNS,
+      batches: this.vaccineSchedulingStore.findSchedulingsForExport(
+        {},
+        defineFilterParams(requestingUser, filters),
+      ),
+    };
+  }
+
   async getSchedulingsByDate(
     userId: string,
     date?: Date,
@@ -385,16 +543,17 @@ export class VaccineSchedulingService {
       DEFAULT_USER_SYSTEM_ID,
     );
 
-    if (requestingUser.role === 'EMPLOYEE') {
-      throw new ForbiddenError(
-        'EMPLOYEE users are not allowed to access vaccine schedulings by date',
-      );
-    }
+    assertPermission(requestingUser, Permissions.SCHEDULING_AGENDA_READ);
     const dateToUse = date || getCurrentDate();
 
     const [nurseSchedulings, allSchedulingsToToday] = await Promise.all([
       this.vaccineSchedulingStore.getSchedulingsByDate(dateToUse, {
-        nurseId: requestingUser.role === 'NURSE' ? userId : undefined,
+        nurseId: hasPermission(
+          requestingUser.role,
+          Permissions.SCHEDULING_ASSIGNED_READ,
+        )
+          ? userId
+          : undefined,
       }),
       this.vaccineSchedulingStore.getSchedulingsByDate(dateToUse),
     ]);
@@ -423,6 +582,8 @@ export class VaccineSchedulingService {
    * - EMPLOYEE/NURSE can only update their own schedulings
    * - Cannot update if status is COMPLETED
    * - If changing scheduledDate, new date must be in the future
+   * - If changing scheduledDate or nurseId of a pending scheduling, the
+   *   resulting date must be the start of a free slot
    * - Cannot update deleted schedulings
    *
    * Authorization:
@@ -437,6 +598,8 @@ export class VaccineSchedulingService {
    * @throws UnauthorizedSchedulingAccessError if user doesn't have permission
    * @throws SchedulingAlreadyCompletedError if status is COMPLETED
    * @throws InvalidSchedulingDateError if new date is not in the future
+   * @throws OutsideAvailabilityError if no slot starts at the new date
+   * @throws SlotUnavailableError if the slot is full
    */
   async updateScheduling(
     id: string,
@@ -480,6 +643,20 @@ export class VaccineSchedulingService {
       await this.userService.getUserById(data.nurseId, DEFAULT_USER_SYSTEM_ID);
     }
 
+    const status = data.status ?? scheduling.status;
+    const isRescheduling =
+      (scheduledDate || data.nurseId) &&
+      status !== 'CANCELLED' &&
+      status !== 'COMPLETED';
+
+    if (isRescheduling) {
+      await this.nurseAvailabilityService.assertSlotAvailable(
+        scheduledDate ?? scheduling.scheduledDate,
+        data.nurseId ?? scheduling.assignedNurseId ?? undefined,
+        id,
+      );
+    }
+
     // Update the scheduling
     const updatedScheduling = await this.vaccineSchedulingStore.update(id, {
       scheduledDate,
@@ -500,7 +677,7 @@ export class VaccineSchedulingService {
     if (nurseChanged) {
       await this.eventBus.emit<NurseChangedEvent>(EventNames.NURSE_CHANGED, {
         type: EventNames.NURSE_CHANGED,
-        channels: ['in-app'],
+        channels: ['in-app', 'email'],
         data: {
           schedulingId: updatedScheduling.id,
           newNurseId: updatedScheduling.assignedNurseId!,
@@ -519,8 +696,8 @@ export class VaccineSchedulingService {
    * Sets deletedAt timestamp and changes status to CANCELLED
    *
    * Authorization:
-   * - MANAGER: Can delete any scheduling
-   * - EMPLOYEE/NURSE: Can only delete their own schedulings
+   * - scheduling:delete (MANAGER): Can delete any scheduling
+   * - Others: Can only delete their own schedulings
    *
    * @param id - Scheduling ID to delete
    * @param requestingUserId - ID of the user requesting deletion
@@ -547,9 +724,12 @@ export class VaccineSchedulingService {
 
     // Authorization check
     const isOwner = scheduling.userId === requestingUserId;
-    const isManager = requestingUser.role === 'MANAGER';
+    const canDeleteAny = hasPermission(
+      requestingUser.role,
+      Permissions.SCHEDULING_DELETE,
+    );
 
-    if (!isOwner && !isManager) {
+    if (!isOwner && !canDeleteAny) {
       throw new UnauthorizedSchedulingAccessError();
     }
 
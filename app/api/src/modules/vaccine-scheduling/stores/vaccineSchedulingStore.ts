@@ -1,23 +1,35 @@
 import type { Vaccine, VaccineScheduling } from '@infrastructure/database';
 import type { Prisma } from '@infrastructure/database/generated/prisma';
+import { SlotUnavailableError } from '@modules/nurse-availability/errors';
 import {
   InsufficientStockError,
   VaccineNotFoundError,
 } from '@modules/vaccines/errors';
-import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
-import { getEndOfDay, getStartOfDay } from '@shared/helpers/timeHelper';
+import {
+  buildExportOrderBy,
+  buildPaginationArgs,
+  findInBatches,
+} from '@shared/helpers/prismaHelper';
+import {
+  formatDate,
+  getEndOfDay,
+  getStartOfDay,
+} from '@shared/helpers/timeHelper';
 import type {
   PaginatedResponse,
   PaginationParams,
+  SortParams,
 } from '@shared/interfaces/pagination';
 import { calculatePaginationMetadata } from '@shared/interfaces/pagination';
 import type {
   IVaccineSchedulingStore,
   VaccineSchedulingFilterParams,
 } from '@shared/interfaces/vaccineScheduling';
+import type { SlotReservation } from '@shared/models/nurseAvailability';
 import type {
   VaccineSchedulingCreateInput,
   VaccineSchedulingDelegate,
+  VaccineSchedulingListItem,
   VaccineSchedulingUpdateInput,
   VaccineSchedulingWithRelations,
 } from '@shared/models/vaccineScheduling';
@@ -68,6 +80,94 @@ export class VaccineSchedulingStore
     });
   }
 
+  /**
+   * Counts active schedulings grouped by status
+   *
+   * When a period is provided, only schedulings whose scheduledDate falls
+   * within it are counted.
+   *
+   * @returns Map of status → number of schedulings
+   */
+  async countByStatus(
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<Record<string, number>> {
+    const where: Prisma.VaccineSchedulingWhereInput = {
+      deletedAt: null,
+    };
+
+    if (startDate || endDate) {
+      where.scheduledDate = {};
+      if (startDate) {
+        where.scheduledDate.gte = startDate;
+      }
+      if (endDate) {
+        where.scheduledDate.lte = endDate;
+      }
+    }
+
+    const groups = await this.model.groupBy({
+      by: ['status'],
+      where,
+      _count: { _all: true },
+    });
+
+    return Object.fromEntries(
+      groups.map((group) => [group.status, group._count._all]),
+    );
+  }
+
+  /**
+   * Finds active schedulings (SCHEDULED/CONFIRMED) between two dates
+   */
+  async findUpcomingSchedulings(
+    from: Date,
+    to: Date,
+  ): Promise<VaccineSchedulingWithRelations[]> {
+    return this.model.findMany({
+      where: {
+        scheduledDate: {
+          gte: from,
+          lte: to,
+        },
+        status: {
+          in: ['SCHEDULED', 'CONFIRMED'],
+        },
+        deletedAt: null,
+      },
+      include: {
+        user: {
+          omit: {
+            password: true,
+          },
+        },
+        vaccine: true,
+        assignedNurse: true,
+        application: true,
+      },
+      orderBy: { scheduledDate: 'asc' },
+    });
+  }
+
+  async findPendingByPeriod(
+    from: Date,
+    to: Date,
+  ): Promise<VaccineScheduling[]> {
+    return this.model.findMany({
+      where: {
+        scheduledDate: {
+          gte: from,
+          lte: to,
+        },
+        status: {
+          in: ['SCHEDULED', 'CONFIRMED'],
+        },
+        deletedAt: null,
+      },
+      orderBy: { scheduledDate: 'asc' },
+    });
+  }
+
   async getSchedulingsByDate(
     date: Date,
     relations?: {
@@ -153,41 +253,7 @@ export class VaccineSchedulingStore
   ): Promise<PaginatedResponse<VaccineScheduling>> {
     const { page, perPage } = params;
 
-    const where: Prisma.VaccineSchedulingWhereInput = {
-      deletedAt: null,
-    };
-
-    if (filters?.userId) {
-      where.userId = filters.userId;
-    }
-
-    if (filters?.vaccineId) {
-      where.vaccineId = filters.vaccineId;
-    }
-
-    if (filters?.status) {
-      where.status = filters.status as any;
-    }
-
-    if (filters?.startDate || filters?.endDate) {
-      where.scheduledDate = {};
-      if (filters.startDate) {
-        where.scheduledDate.gte = filters.startDate;
-      }
-      if (filters.endDate) {
-        where.scheduledDate.lte = filters.endDate;
-      }
-    }
-
-    // When filtering by assignedNurseId, include schedulings where:
-    // 1. assignedNurseId matches the filter (assigned to this nurse)
-    // 2. assignedNurseId is null (available to all nurses)
-    if (filters?.assignedNurseId) {
-      where.OR = [
-        { assignedNurseId: filters.assignedNurseId },
-        { assignedNurseId: null },
-      ];
-    }
+    const where = this.buildWhereClause(filters);
 
     const [data, total] = await Promise.all([
       this.model.findMany({
@@ -233,6 +299,56 @@ export class VaccineSchedulingStore
     };
   }
 
+  /**
+   * Finds every scheduling matching the filters, in batches, for exports
+   */
+  findSchedulingsForExport(
+    sort: SortParams,
+    filters?: VaccineSchedulingFilterParams,
+  ): AsyncIterable<VaccineSchedulingListItem[]> {
+    const where = this.buildWhereClause(filters);
+    const orderBy = buildExportOrderBy(
+      sort,
+      allowedVaccineSchedulingSortFields,
+    );
+
+    return findInBatches((batch) =>
+      this.model.findMany({
+        where,
+        orderBy,
+        ...batch,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              cpf: true,
+              role: true,
+            },
+          },
+          vaccine: {
+            select: {
+              id: true,
+              name: true,
+              manufacturer: true,
+              dosesRequired: true,
+            },
+          },
+          assignedNurse: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              cpf: true,
+              role: true,
+            },
+          },
+        },
+      }),
+    );
+  }
+
   /**
    * Checks if a scheduling already exists for a user, vaccine and dose
    */
@@ -313,6 +429,7 @@ export class VaccineSchedulingStore
   async createSchedulingWithStockValidation(
     data: VaccineSchedulingCreateInput,
     vaccineId: string,
+    slot?: SlotReservation,
   ): Promise<VaccineScheduling> {
     console.log(
       `Creating scheduling with stock validation for vaccine ID: ${vaccineId}`,
@@ -359,7 +476,33 @@ export class VaccineSchedulingStore
         );
       }
 
-      // Step 6: Create scheduling (stock is guaranteed available due to lock)
+      // Step 6: Lock the nurse and recount the slot, so two requests cannot
+      // both take its last place. Always after the vaccine lock, so the
+      // locks are taken in the same order by every transaction
+      if (slot) {
+        await tx.$queryRaw`
+          SELECT id FROM users
+          WHERE id = ${slot.nurseId}
+          FOR UPDATE
+        `;
+
+        const booked = await tx.vaccineScheduling.count({
+          where: {
+            assignedNurseId: slot.nurseId,
+            scheduledDate: { gte: slot.startTime, lt: slot.endTime },
+            status: { in: ['SCHEDULED', 'CONFIRMED'] },
+            deletedAt: null,
+          },
+        });
+
+        if (booked >= slot.capacity) {
+          throw new SlotUnavailableError(
+            `The slot at ${formatDate(slot.startTime, 'YYYY-MM-DD HH:mm')} is already full`,
+          );
+        }
+      }
+
+      // Step 7: Create scheduling (stock and slot are guaranteed available due to the locks)
       const scheduling = await tx.vaccineScheduling.create({
         data: {
           scheduledDate: data.scheduledDate,
@@ -377,6 +520,9 @@ export class VaccineSchedulingStore
                 connect: { id: data.nurseId },
               }
             : undefined,
+          campaign: data.campaignId
+            ? { connect: { id: data.campaignId } }
+            : undefined,
         },
       });
 
@@ -384,4 +530,49 @@ export class VaccineSchedulingStore
       return scheduling;
     });
   }
+
+  /**
+   * Builds the WHERE clause shared by the scheduling listing queries
+   */
+  private buildWhereClause(
+    filters?: VaccineSchedulingFilterParams,
+  ): Prisma.VaccineSchedulingWhereInput {
+    const where: Prisma.VaccineSchedulingWhereInput = {
+      deletedAt: null,
+    };
+
+    if (filters?.userId) {
+      where.userId = filters.userId;
+    }
+
+    if (filters?.vaccineId) {
+      where.vaccineId = filters.vaccineId;
+    }
+
+    if (filters?.status) {
+      where.status = filters.status as any;
+    }
+
+    if (filters?.startDate || filters?.endDate) {
+      where.scheduledDate = {};
+      if (filters.startDate) {
+        where.scheduledDate.gte = filters.startDate;
+      }
+      if (filters.endDate) {
+        where.scheduledDate.lte = filters.endDate;
+      }
+    }
+
+    // When filtering by assignedNurseId, include schedulings where:
+    // 1. assignedNurseId matches the filter (assigned to this nurse)
+    // 2. assignedNurseId is null (available to all nurses)
+    if (filters?.assignedNurseId) {
+      where.OR = [
+        { assignedNurseId: filters.assignedNurseId },
+        { assignedNurseId: null },
+      ];
+    }
+
+    return where;
+  }
 }
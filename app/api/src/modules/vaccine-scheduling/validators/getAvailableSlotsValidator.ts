@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const GetAvailableSlotsQuerySchema = z.object({
+  date: z.string().date('Invalid date format. Must be YYYY-MM-DD'),
+  vaccineId: z.string().uuid('Invalid vaccine ID format'),
+});
+
+export type GetAvailableSlotsDTO = z.infer<typeof GetAvailableSlotsQuerySchema>;
@@ -1,3 +1,4 @@
+import { exportFormatSchema } from '@shared/validators/exportFormatSchema';
 import { z } from 'zod';
 
 export const ListVaccineSchedulingsQuerySchema = z
@@ -37,6 +38,7 @@ export const ListVaccineSchedulingsQuerySchema = z
           .min(1, 'Limit must be at least 1')
           .max(100, 'Limit cannot exceed 100'),
       ),
+    format: exportFormatSchema,
   })
   .refine(
     (data) =>
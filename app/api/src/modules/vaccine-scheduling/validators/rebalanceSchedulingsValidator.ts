@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const RebalanceSchedulingsBodySchema = z.object({
+  date: z.string().date('Invalid date format. Must be YYYY-MM-DD'),
+});
+
+export type RebalanceSchedulingsDTO = z.infer<
+  typeof RebalanceSchedulingsBodySchema
+>;
@@ -1,3 +1,6 @@
+import type { ExportColumn } from '@shared/models/export';
+import type { Vaccine } from '@shared/models/vaccine';
+
 export const allowedVaccineSortFields = [
   'name',
   'manufacturer',
@@ -6,3 +9,22 @@ export const allowedVaccineSortFields = [
   'approvalDate',
   'createdAt',
 ];
+
+/**
+ * Columns of the vaccine list export (GET /vaccines?format=csv|xlsx)
+ */
+export const VACCINE_EXPORT_COLUMNS: ExportColumn<Vaccine>[] = [
+  { header: 'Nome', value: (vaccine) => vaccine.name, width: 30 },
+  { header: 'Fabricante', value: (vaccine) => vaccine.manufacturer, width: 24 },
+  { header: 'Descrição', value: (vaccine) => vaccine.description, width: 40 },
+  { header: 'Doses necessárias', value: (vaccine) => vaccine.dosesRequired },
+  {
+    header: 'Intervalo entre doses (dias)',
+    value: (vaccine) => vaccine.intervalDays,
+    width: 26,
+  },
+  { header: 'Estoque total', value: (vaccine) => vaccine.totalStock },
+  { header: 'Estoque mínimo', value: (vaccine) => vaccine.minStockLevel },
+  { header: 'Obrigatória', value: (vaccine) => vaccine.isObligatory },
+  { header: 'Cadastrada em', value: (vaccine) => vaccine.createdAt },
+];
@@ -2,6 +2,7 @@ import type {
   CreateVaccineDTO,
   UpdateVaccineDTO,
 } from '@shared/models/vaccine';
+import { sendExport } from '@shared/helpers/exportHelper';
 import type { NextFunction, Request, Response } from 'express';
 import { injectable } from 'tsyringe';
 // biome-ignore lint/style/useImportType: I need to import types this way because of TSyringe
@@ -52,8 +53,15 @@ export class VaccineController {
     next: NextFunction,
   ): Promise<void> {
     try {
-      const { isObligatory, page, perPage, manufacturer, sortBy, sortOrder } =
-        req.query as unknown as ListVaccinesQuery;
+      const {
+        isObligatory,
+        page,
+        perPage,
+        manufacturer,
+        sortBy,
+        sortOrder,
+        format,
+      } = req.query as unknown as ListVaccinesQuery;
 
       const userId = req.user?.userId!;
 
@@ -65,6 +73,16 @@ export class VaccineController {
         filters.isObligatory = isObligatory;
       }
 
+      if (format) {
+        const dataExport = await this.vaccineService.exportVaccines(
+          { sortBy, sortOrder },
+          userId,
+          Object.keys(filters).length ? filters : undefined,
+        );
+        await sendExport(res, format, dataExport);
+        return;
+      }
+
       const paginatedVaccines = await this.vaccineService.getPaginatedVaccines(
         { page, perPage, sortBy, sortOrder },
         userId,
@@ -117,6 +135,7 @@ export class VaccineController {
         expiringBefore,
         expiringAfter,
         minQuantity,
+        format,
       } = req.query as unknown as ListVaccineBatchesQuery;
 
       const userId = req.user?.userId!;
@@ -135,6 +154,17 @@ export class VaccineController {
         filters.minQuantity = minQuantity;
       }
 
+      if (format) {
+        const dataExport = await this.vaccineService.exportVaccineBatches(
+          id,
+          userId,
+          { sortBy, sortOrder },
+          Object.keys(filters).length ? filters : undefined,
+        );
+        await sendExport(res, format, dataExport);
+        return;
+      }
+
       const paginatedBatches = await this.vaccineService.getVaccineBatches(
         id,
         userId,
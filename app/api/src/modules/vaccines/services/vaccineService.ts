@@ -1,11 +1,14 @@
 import { TOKENS } from '@infrastructure/di/tokens';
 import { ValidationError } from '@modules/user/errors';
 import type { UserService } from '@modules/user/services/userService';
+import { BATCH_EXPORT_COLUMNS } from '@modules/vaccine-batch/constants';
 import { VaccineAlreadyExistsError } from '@modules/vaccines/errors';
+import { Permissions } from '@shared/constants/permissions';
 import { normalizeText } from '@shared/helpers/textHelper';
 import type {
   PaginatedResponse,
   PaginationParams,
+  SortParams,
 } from '@shared/interfaces/pagination';
 import type {
   IVaccineStore,
@@ -15,14 +18,19 @@ import type {
   IVaccineBatchStore,
   VaccineBatchFilterParams,
 } from '@shared/interfaces/vaccineBatch';
+import type { DataExport } from '@shared/models/export';
 import type { UserRole } from '@shared/models/user';
 import type {
   CreateVaccineDTO,
   UpdateVaccineDTO,
   Vaccine,
 } from '@shared/models/vaccine';
-import type { VaccineBatch } from '@shared/models/vaccineBatch';
+import type {
+  VaccineBatch,
+  VaccineBatchWithCreator,
+} from '@shared/models/vaccineBatch';
 import { inject, injectable } from 'tsyringe';
+import { VACCINE_EXPORT_COLUMNS } from '../constants';
 import { VaccineNotFoundError } from '../errors';
 
 /**
@@ -52,19 +60,19 @@ export class VaccineService {
    * Creates a new vaccine in the system
    *
    * Business Rules:
-   * - Only MANAGER role can create vaccines
+   * - Requires the vaccine:write permission (MANAGER)
    * - Vaccine name and manufacturer combination must be unique (case-insensitive)
    * - Name and manufacturer are normalized for consistent storage
    * - Tracks which user created the vaccine
    *
    * Authorization:
-   * - Uses UserService.validateManagerRole() for encapsulated authorization
+   * - Uses UserService.validatePermission() for encapsulated authorization
    *
    * @param data - Vaccine creation data
    * @param userId - ID of the user creating the vaccine
    * @returns Created vaccine object
    * @throws UserNotFoundError if user not found (from UserService)
-   * @throws ForbiddenError if user is not MANAGER (from UserService)
+   * @throws ForbiddenError if user lacks vaccine:write (from UserService)
    * @throws VaccineAlreadyExistsError if vaccine already exists
    *
    * @example
@@ -81,9 +89,12 @@ export class VaccineService {
     data: CreateVaccineDTO,
     userId: string,
   ): Promise<Vaccine> {
-    // Authorization: validate user exists and has MANAGER role
+    // Authorization: validate user exists and has vaccine:write
     // This delegates to UserService, respecting bounded contexts
-    await this.userService.validateManagerRole(userId);
+    await this.userService.validatePermission(
+      userId,
+      Permissions.VACCINE_WRITE,
+    );
 
     // Normalize input values for consistent storage and comparison
     // This ensures case-insensitive uniqueness and removes extra whitespace
@@ -156,10 +167,9 @@ export class VaccineService {
     // Validate user exists and get role for potential transformations
     // This delegates to UserService, respecting bounded contexts
 
-    const user = await this.userService.getUserAndValidateRequestingRoles(
+    const user = await this.userService.validatePermission(
       userId,
-      ['EMPLOYEE', 'NURSE', 'MANAGER'],
-      'getPaginatedVaccines',
+      Permissions.VACCINE_READ,
     );
 
     // Normalize manufacturer filter for consistent querying
@@ -183,6 +193,42 @@ export class VaccineService {
     };
   }
 
+  /**
+   * Exports every vaccine matching the filters (no pagination)
+   *
+   * Same authorization and filters as getPaginatedVaccines. Rows are read
+   * while the file is written (see sendExport).
+   *
+   * @param sort - Sorting (sortBy, sortOrder)
+   * @param userId - ID of the user requesting the export
+   * @param filters - Optional filter criteria (manufacturer, isObligatory)
+   * @returns Export columns and row batches
+   * @throws ForbiddenError if user lacks vaccine:read
+   */
+  async exportVaccines(
+    sort: SortParams,
+    userId: string,
+    filters?: VaccineFilterParams,
+  ): Promise<DataExport<Vaccine>> {
+    await this.userService.validatePermission(userId, Permissions.VACCINE_READ);
+
+    const normalizedFilters = filters
+      ? {
+          ...filters,
+          manufacturer: filters.manufacturer
+            ? normalizeText(filters.manufacturer)
+            : undefined,
+        }
+      : undefined;
+
+    return {
+      fileName: 'vacinas',
+      sheetName: 'Vacinas',
+      columns: VACCINE_EXPORT_COLUMNS,
+      batches: this.vaccineStore.findVaccinesForExport(sort, normalizedFilters),
+    };
+  }
+
   /**
    * Retrieves a single vaccine by ID with optional batches inclusion
    *
@@ -284,24 +330,61 @@ export class VaccineService {
     );
   }
 
+  /**
+   * Exports every batch of a vaccine matching the filters (no pagination)
+   *
+   * Same validation and filters as getVaccineBatches.
+   *
+   * @param vaccineId - Vaccine UUID
+   * @param userId - ID of the user requesting the export
+   * @param sort - Sorting (sortBy, sortOrder)
+   * @param filters - Optional additional filter criteria
+   * @returns Export columns and row batches
+   * @throws UserNotFoundError if user not found (from UserService)
+   * @throws VaccineNotFoundError if vaccine not found
+   */
+  async exportVaccineBatches(
+    vaccineId: string,
+    userId: string,
+    sort: SortParams,
+    filters?: Partial<VaccineBatchFilterParams>,
+  ): Promise<DataExport<VaccineBatchWithCreator>> {
+    await this.userService.validateUserExists(userId);
+
+    const vaccine = await this.vaccineStore.findById(vaccineId);
+    if (!vaccine) {
+      throw new VaccineNotFoundError(`Vaccine with ID ${vaccineId} not found`);
+    }
+
+    return {
+      fileName: 'lotes',
+      sheetName: 'Lotes',
+      columns: BATCH_EXPORT_COLUMNS,
+      batches: this.vaccineBatchStore.findBatchesForExport(sort, {
+        ...filters,
+        vaccineId,
+      }),
+    };
+  }
+
   /**
    * Updates an existing vaccine
    *
    * Business Rules:
-   * - Only MANAGER role can update vaccines
+   * - Requires the vaccine:write permission (MANAGER)
    * - Vaccine must exist and not be deleted
    * - If name/manufacturer changed, must maintain uniqueness
    * - Name and manufacturer are normalized for consistency
    *
    * Authorization:
-   * - Uses UserService.validateManagerRole() for encapsulated authorization
+   * - Uses UserService.validatePermission() for encapsulated authorization
    *
    * @param id - Vaccine UUID
    * @param data - Update data with optional fields
    * @param userId - ID of the user updating the vaccine
    * @returns Updated vaccine object
    * @throws UserNotFoundError if user not found (from UserService)
-   * @throws ForbiddenError if user is not MANAGER (from UserService)
+   * @throws ForbiddenError if user lacks vaccine:write (from UserService)
    * @throws VaccineNotFoundError if vaccine not found or deleted
    * @throws VaccineAlreadyExistsError if update causes duplicate name+manufacturer
    *
@@ -317,8 +400,11 @@ export class VaccineService {
     data: UpdateVaccineDTO,
     userId: string,
   ): Promise<Vaccine> {
-    // Authorization: validate user exists and has MANAGER role
-    await this.userService.validateManagerRole(userId);
+    // Authorization: validate user exists and has vaccine:write
+    await this.userService.validatePermission(
+      userId,
+      Permissions.VACCINE_WRITE,
+    );
 
     // Find existing vaccine and validate it exists
     const existingVaccine = await this.vaccineStore.findById(id);
@@ -408,7 +494,7 @@ export class VaccineService {
    * Deletes a vaccine and all associated batches atomically
    *
    * Business Rules:
-   * - Only MANAGER role can delete vaccines
+   * - Requires the vaccine:write permission (MANAGER)
    * - Vaccine must exist
    * - Hard delete (permanently removes from database)
    * - CASCADE delete: all vaccine batches are automatically deleted
@@ -426,20 +512,23 @@ export class VaccineService {
    * - Other batch statuses (EXPIRED, DEPLETED, DISCARDED) don't affect stock
    *
    * Authorization:
-   * - Uses UserService.validateManagerRole() for encapsulated authorization
+   * - Uses UserService.validatePermission() for encapsulated authorization
    *
    * @param id - Vaccine UUID
    * @param userId - ID of the user deleting the vaccine
    * @throws UserNotFoundError if user not found (from UserService)
-   * @throws ForbiddenError if user is not MANAGER (from UserService)
+   * @throws ForbiddenError if user lacks vaccine:write (from UserService)
    * @throws VaccineNotFoundError if vaccine not found
    *
    * @example
    * await vaccineService.deleteVaccine('vaccine-id', 'manager-user-id');
    */
   async deleteVaccine(id: string, userId: string): Promise<void> {
-    // Authorization: validate user exists and has MANAGER role
-    await this.userService.validateManagerRole(userId);
+    // Authorization: validate user exists and has vaccine:write
+    await this.userService.validatePermission(
+      userId,
+      Permissions.VACCINE_WRITE,
+    );
 
     // Validate vaccine exists before attempting deletion
     const vaccine = await this.vaccineStore.findById(id);
@@ -1,8 +1,13 @@
 import type { Prisma, Vaccine } from '@infrastructure/database';
-import { buildPaginationArgs } from '@shared/helpers/prismaHelper';
+import {
+  buildExportOrderBy,
+  buildPaginationArgs,
+  findInBatches,
+} from '@shared/helpers/prismaHelper';
 import type {
   PaginatedResponse,
   PaginationParams,
+  SortParams,
 } from '@shared/interfaces/pagination';
 import { calculatePaginationMetadata } from '@shared/interfaces/pagination';
 import type {
@@ -132,15 +137,7 @@ export class VaccineStore
   ): Promise<PaginatedResponse<Vaccine>> {
     const { page, perPage } = params;
 
-    const where: Prisma.VaccineWhereInput = {};
-
-    if (filters?.manufacturer) {
-      where.manufacturer = filters.manufacturer;
-    }
-
-    if (filters?.isObligatory !== undefined) {
-      where.isObligatory = filters.isObligatory;
-    }
+    const where = this.buildWhereClause(filters);
 
     const [total, vaccines] = await Promise.all([
       this.count(where),
@@ -158,6 +155,18 @@ export class VaccineStore
     };
   }
 
+  findVaccinesForExport(
+    sort: SortParams,
+    filters?: VaccineFilterParams,
+  ): AsyncIterable<Vaccine[]> {
+    const where = this.buildWhereClause(filters);
+    const orderBy = buildExportOrderBy(sort, allowedVaccineSortFields);
+
+    return findInBatches((batch) =>
+      this.model.findMany({ where, orderBy, ...batch }),
+    );
+  }
+
   /**
    * Finds vaccine by name
    *
@@ -382,4 +391,23 @@ export class VaccineStore
       });
     });
   }
+
+  /**
+   * Builds the WHERE clause shared by the vaccine listing queries
+   */
+  private buildWhereClause(
+    filters?: VaccineFilterParams,
+  ): Prisma.VaccineWhereInput {
+    const where: Prisma.VaccineWhereInput = {};
+
+    if (filters?.manufacturer) {
+      where.manufacturer = filters.manufacturer;
+    }
+
+    if (filters?.isObligatory !== undefined) {
+      where.isObligatory = filters.isObligatory;
+    }
+
+    return where;
+  }
 }
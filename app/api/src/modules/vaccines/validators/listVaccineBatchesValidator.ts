@@ -1,3 +1,4 @@
+import { exportFormatSchema } from '@shared/validators/exportFormatSchema';
 import { z } from 'zod';
 
 export const ListVaccineBatchesQuerySchema = z.object({
@@ -15,10 +16,20 @@ export const ListVaccineBatchesQuerySchema = z.object({
     ])
     .default('expirationDate'),
   sortOrder: z.enum(['asc', 'desc']).default('asc'),
-  status: z.enum(['AVAILABLE', 'EXPIRED', 'DEPLETED', 'DISCARDED']).optional(),
+  status: z
+    .enum([
+      'AVAILABLE',
+      'EXPIRED',
+      'DEPLETED',
+      'DISCARDED',
+      'QUARANTINED',
+      'RECALLED',
+    ])
+    .optional(),
   expiringBefore: z.string().datetime().optional(),
   expiringAfter: z.string().datetime().optional(),
   minQuantity: z.coerce.number().int().min(0).optional(),
+  format: exportFormatSchema,
 });
 
 export type ListVaccineBatchesQuery = z.infer<
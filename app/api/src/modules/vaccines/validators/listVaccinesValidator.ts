@@ -1,4 +1,5 @@
 import { PAGINATION_DEFAULTS } from '@shared/interfaces/pagination';
+import { exportFormatSchema } from '@shared/validators/exportFormatSchema';
 import { z } from 'zod';
 
 export const ListVaccinesQuerySchema = z.object({
@@ -49,6 +50,7 @@ export const ListVaccinesQuerySchema = z.object({
     .refine((val) => val === undefined || typeof val === 'boolean', {
       message: 'isObligatory must be true or false',
     }),
+  format: exportFormatSchema,
 });
 
 export type ListVaccinesQuery = z.infer<typeof ListVaccinesQuerySchema>;
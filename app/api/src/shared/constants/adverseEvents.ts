@@ -0,0 +1,49 @@
+import type {
+  AdverseEventOutcome,
+  AdverseEventSeverity,
+  AdverseEventSymptom,
+} from '@infrastructure/database';
+
+/**
+ * Labels (pt-BR) used in adverse event notifications
+ */
+export const ADVERSE_EVENT_SEVERITY_LABELS: Record<
+  AdverseEventSeverity,
+  string
+> = {
+  MILD: 'Leve',
+  MODERATE: 'Moderado',
+  SEVERE: 'Grave',
+};
+
+export const ADVERSE_EVENT_SYMPTOM_LABELS: Record<AdverseEventSymptom, string> =
+  {
+    LOCAL_REACTION: 'Reação no local da aplicação',
+    FEVER: 'Febre',
+    HEADACHE: 'Dor de cabeça',
+    MYALGIA: 'Dor muscular',
+    FATIGUE: 'Cansaço',
+    NAUSEA: 'Náusea',
+    RASH: 'Erupção cutânea',
+    ALLERGIC_REACTION: 'Reação alérgica',
+    ANAPHYLAXIS: 'Anafilaxia',
+    SEIZURE: 'Convulsão',
+    SYNCOPE: 'Desmaio',
+    OTHER: 'Outro',
+  };
+
+export const ADVERSE_EVENT_OUTCOME_LABELS: Record<AdverseEventOutcome, string> =
+  {
+    UNKNOWN: 'Desconhecido',
+    RECOVERING: 'Em recuperação',
+    RECOVERED: 'Recuperado',
+    RECOVERED_WITH_SEQUELAE: 'Recuperado com sequelas',
+    NOT_RECOVERED: 'Não recuperado',
+    HOSPITALIZED: 'Hospitalizado',
+    DEATH: 'Óbito',
+  };
+
+export const formatAdverseEventSymptoms = (
+  symptoms: AdverseEventSymptom[],
+): string =>
+  symptoms.map((symptom) => ADVERSE_EVENT_SYMPTOM_LABELS[symptom]).join(', ');
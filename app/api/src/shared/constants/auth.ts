@@ -0,0 +1,22 @@
+// Access tokens are short-lived, sessions are kept alive by refresh tokens
+export const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = '15m';
+export const DEFAULT_REFRESH_TOKEN_EXPIRES_IN_DAYS = 30;
+
+// Random bytes of a refresh token (base64url encoded before being sent)
+export const REFRESH_TOKEN_BYTES = 48;
+
+// A rotated refresh token presented again within this window is treated as a
+// concurrent refresh (e.g. two tabs) instead of a stolen token being reused
+export const REFRESH_TOKEN_REUSE_GRACE_MS = 30 * 1000;
+
+// Password reset links are single-use and expire after this many minutes
+export const DEFAULT_PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES = 30;
+export const PASSWORD_RESET_TOKEN_BYTES = 32;
+
+// Invitation links are single-use and expire after this many days
+export const DEFAULT_INVITATION_EXPIRES_IN_DAYS = 7;
+export const INVITATION_TOKEN_BYTES = 32;
+
+// Password policy (enforced by passwordHelper)
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
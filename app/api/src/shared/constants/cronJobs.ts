@@ -1 +1,10 @@
 export const LOW_STOCK_CHECK_JOB_NAME = 'LowStockCheckJob';
+export const BATCH_EXPIRATION_CHECK_JOB_NAME = 'BatchExpirationCheckJob';
+export const DOSE_REMINDER_JOB_NAME = 'DoseReminderJob';
+export const OUTBOX_DISPATCH_JOB_NAME = 'OutboxDispatchJob';
+
+export const DEFAULT_BATCH_EXPIRING_DAYS_THRESHOLD = 30;
+export const URGENT_BATCH_EXPIRING_DAYS = 7;
+
+export const DEFAULT_SCHEDULING_REMINDER_OFFSETS_HOURS = [24, 2];
+export const DEFAULT_DOSE_DUE_REMINDER_OFFSETS_DAYS = [7, 0];
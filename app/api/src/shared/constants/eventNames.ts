@@ -45,6 +45,12 @@ export const EventNames = {
    */
   VACCINE_APPLIED: 'vaccine.applied',
 
+  /**
+   * Emitted by DoseReminderJob before an appointment or when a next dose is due
+   * Triggers: In-app DOSE_REMINDER notification to the patient
+   */
+  DOSE_REMINDER: 'dose.reminder',
+
   // ============================================
   // Batch & Inventory Events
   // ============================================
@@ -62,6 +68,23 @@ export const EventNames = {
    */
   LOW_STOCK: 'stock.low',
 
+  /**
+   * Emitted when a batch is quarantined or recalled
+   * Triggers: In-app BATCH_RECALL notification to every recipient of the batch
+   * and to patients whose schedulings were cancelled
+   */
+  BATCH_QUARANTINED: 'batch.quarantined',
+
+  // ============================================
+  // Adverse Event Events
+  // ============================================
+
+  /**
+   * Emitted when a SEVERE adverse event following immunization is reported
+   * Triggers: In-app ADVERSE_EVENT notification + email to all managers
+   */
+  SEVERE_ADVERSE_EVENT: 'adverse-event.severe',
+
   // ============================================
   // Report Events
   // ============================================
@@ -0,0 +1,12 @@
+export const DEFAULT_OUTBOX_MAX_ATTEMPTS = 5;
+export const DEFAULT_OUTBOX_RETRY_BASE_DELAY_SECONDS = 30;
+
+// Upper bound for the exponential backoff between two attempts
+export const MAX_OUTBOX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Events claimed by each dispatcher run
+export const OUTBOX_DISPATCH_BATCH_SIZE = 50;
+
+// A PROCESSING event locked for longer than this is considered abandoned
+// (e.g. the server crashed during the delivery) and is claimed again
+export const OUTBOX_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
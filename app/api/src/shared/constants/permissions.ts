@@ -0,0 +1,188 @@
+/**
+ * Permissions - Centralized permission catalog
+ *
+ * Every authorization decision (route middleware, service guards and the
+ * web app, through GET /auth/me) is made against these permissions instead
+ * of comparing role names. Changing what a role can do only requires
+ * changing ROLE_PERMISSIONS.
+ *
+ * Naming Convention:
+ * - `<resource>:<action>` (e.g. 'batch:write', 'coverage:read')
+ * - Actions on the user's own data (own profile, own schedulings, own
+ *   vaccination card) need no permission; a permission grants access to
+ *   other users' data or to management features
+ *
+ * Usage:
+ * @example
+ * // Route
+ * router.post('/', authMiddleware, requirePermission(Permissions.BATCH_WRITE), ...);
+ *
+ * // Service
+ * assertPermission(user, Permissions.BATCH_WRITE);
+ */
+
+import type { UserRole } from '@shared/models/user';
+
+export const Permissions = {
+  // ============================================
+  // Users
+  // ============================================
+
+  /** List users and view other users' profiles */
+  USER_READ: 'user:read',
+
+  /** Create users directly and update any user, including role and active status */
+  USER_WRITE: 'user:write',
+
+  /** Delete other users */
+  USER_DELETE: 'user:delete',
+
+  /** Invite people to create an account with a given role */
+  USER_INVITE: 'user:invite',
+
+  // ============================================
+  // Vaccines and batches
+  // ============================================
+
+  /** List and view vaccines */
+  VACCINE_READ: 'vaccine:read',
+
+  /** Create, update and delete vaccines */
+  VACCINE_WRITE: 'vaccine:write',
+
+  /** View the batches (stock) of a vaccine */
+  BATCH_READ: 'batch:read',
+
+  /** Create and update vaccine batches */
+  BATCH_WRITE: 'batch:write',
+
+  // ============================================
+  // Vaccine applications
+  // ============================================
+
+  /** Apply vaccines (register applications) */
+  APPLICATION_CREATE: 'application:create',
+
+  /** View any user's applications and vaccination history */
+  APPLICATION_READ: 'application:read',
+
+  /** Update applications performed by someone else */
+  APPLICATION_UPDATE: 'application:update',
+
+  /** Void a mistakenly recorded application, returning the dose to stock */
+  APPLICATION_VOID: 'application:void',
+
+  // ============================================
+  // Adverse events
+  // ============================================
+
+  /** Register adverse events for any patient (own reports need no permission) */
+  ADVERSE_EVENT_CREATE: 'adverse-event:create',
+
+  /** View every adverse event and the per-vaccine/per-batch statistics */
+  ADVERSE_EVENT_READ: 'adverse-event:read',
+
+  // ============================================
+  // Vaccine schedulings
+  // ============================================
+
+  /** Schedule vaccines for yourself */
+  SCHEDULING_CREATE: 'scheduling:create',
+
+  /** Schedule vaccines on behalf of other users (patientId) */
+  SCHEDULING_CREATE_OTHERS: 'scheduling:create:others',
+
+  /** View the schedulings of a day (clinic agenda) */
+  SCHEDULING_AGENDA_READ: 'scheduling:agenda:read',
+
+  /** Be assigned to schedulings and view your own agenda */
+  SCHEDULING_ASSIGNED_READ: 'scheduling:assigned:read',
+
+  /** Cancel schedulings of other users */
+  SCHEDULING_DELETE: 'scheduling:delete',
+
+  /** Rebalance the nurse assignments of a day */
+  SCHEDULING_REBALANCE: 'scheduling:rebalance',
+
+  /** Edit the working hours of any nurse (nurses edit their own) */
+  AVAILABILITY_MANAGE: 'availability:manage',
+
+  // ============================================
+  // Vaccination campaigns
+  // ============================================
+
+  /** View campaigns and their progress */
+  CAMPAIGN_READ: 'campaign:read',
+
+  /** Create, generate schedulings for, finish and cancel campaigns */
+  CAMPAIGN_MANAGE: 'campaign:manage',
+
+  // ============================================
+  // Management
+  // ============================================
+
+  /** View vaccination coverage */
+  COVERAGE_READ: 'coverage:read',
+
+  /** View stock and expiration alerts */
+  ALERT_READ: 'alert:read',
+
+  /** Generate, view and delete reports */
+  REPORT_MANAGE: 'report:manage',
+
+  /** View and replay dead-lettered events */
+  DEAD_LETTER_MANAGE: 'dead-letter:manage',
+} as const;
+
+/**
+ * Type-safe permission
+ * Extracts the values from Permissions object
+ */
+export type Permission = (typeof Permissions)[keyof typeof Permissions];
+
+/**
+ * Permissions granted to each role
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  EMPLOYEE: [Permissions.VACCINE_READ, Permissions.SCHEDULING_CREATE],
+  NURSE: [
+    Permissions.USER_READ,
+    Permissions.VACCINE_READ,
+    Permissions.BATCH_READ,
+    Permissions.APPLICATION_CREATE,
+    Permissions.APPLICATION_READ,
+    Permissions.ADVERSE_EVENT_CREATE,
+    Permissions.ADVERSE_EVENT_READ,
+    Permissions.SCHEDULING_CREATE,
+    Permissions.SCHEDULING_CREATE_OTHERS,
+    Permissions.SCHEDULING_AGENDA_READ,
+    Permissions.SCHEDULING_ASSIGNED_READ,
+    Permissions.CAMPAIGN_READ,
+  ],
+  MANAGER: [
+    Permissions.USER_READ,
+    Permissions.USER_WRITE,
+    Permissions.USER_DELETE,
+    Permissions.USER_INVITE,
+    Permissions.VACCINE_READ,
+    Permissions.VACCINE_WRITE,
+    Permissions.BATCH_READ,
+    Permissions.BATCH_WRITE,
+    Permissions.APPLICATION_READ,
+    Permissions.APPLICATION_UPDATE,
+    Permissions.APPLICATION_VOID,
+    Permissions.ADVERSE_EVENT_READ,
+    Permissions.SCHEDULING_CREATE,
+    Permissions.SCHEDULING_CREATE_OTHERS,
+    Permissions.SCHEDULING_AGENDA_READ,
+    Permissions.SCHEDULING_DELETE,
+    Permissions.SCHEDULING_REBALANCE,
+    Permissions.AVAILABILITY_MANAGE,
+    Permissions.CAMPAIGN_READ,
+    Permissions.CAMPAIGN_MANAGE,
+    Permissions.COVERAGE_READ,
+    Permissions.ALERT_READ,
+    Permissions.REPORT_MANAGE,
+    Permissions.DEAD_LETTER_MANAGE,
+  ],
+};
@@ -1,11 +1,24 @@
+import { BatchExpirationCheckJob } from '@modules/jobs/handlers/batchExpirationCheckJob';
+import { DoseReminderJob } from '@modules/jobs/handlers/doseReminderJob';
 import { LowStockCheckJob } from '@modules/jobs/handlers/lowStockCheckJob';
+import { OutboxDispatchJob } from '@modules/jobs/handlers/outboxDispatchJob';
+import {
+  DEFAULT_BATCH_EXPIRING_DAYS_THRESHOLD,
+  DEFAULT_DOSE_DUE_REMINDER_OFFSETS_DAYS,
+  DEFAULT_SCHEDULING_REMINDER_OFFSETS_HOURS,
+} from '@shared/constants/cronJobs';
 import type {
   GetVaccinesWithLowStockParams,
   ICronJob,
 } from '@shared/interfaces/cronJob';
-import type { DependencyContainer } from 'tsyringe';
+import type { DependencyContainer, InjectionToken } from 'tsyringe';
 
-export const SERVER_CRON_JOBS = [LowStockCheckJob] as const;
+export const SERVER_CRON_JOBS: readonly InjectionToken<ICronJob>[] = [
+  LowStockCheckJob,
+  BatchExpirationCheckJob,
+  DoseReminderJob,
+  OutboxDispatchJob,
+];
 
 export const getVaccinesWithLowStock = async (
   params: GetVaccinesWithLowStockParams,
@@ -33,6 +46,53 @@ export const getVaccinesWithLowStock = async (
   return vaccinesWithLowStock;
 };
 
+export const getBatchExpiringDaysThreshold = (): number => {
+  const threshold = Number(process.env.BATCH_EXPIRING_DAYS_THRESHOLD);
+
+  if (!Number.isInteger(threshold) || threshold <= 0) {
+    return DEFAULT_BATCH_EXPIRING_DAYS_THRESHOLD;
+  }
+
+  return threshold;
+};
+
+/**
+ * Parses a comma-separated list of non-negative integers (e.g. "24,2")
+ * Returns the values sorted in descending order, or the defaults if the
+ * value is missing or invalid
+ */
+export const parseReminderOffsets = (
+  value: string | undefined,
+  defaults: number[],
+): number[] => {
+  const offsets = (value ?? '')
+    .split(',')
+    .map((offset) => offset.trim())
+    .filter(Boolean)
+    .map(Number);
+
+  if (
+    !offsets.length ||
+    offsets.some((offset) => !Number.isInteger(offset) || offset < 0)
+  ) {
+    return [...defaults].sort((a, b) => b - a);
+  }
+
+  return [...new Set(offsets)].sort((a, b) => b - a);
+};
+
+export const getSchedulingReminderOffsetsHours = (): number[] =>
+  parseReminderOffsets(
+    process.env.SCHEDULING_REMINDER_OFFSETS_HOURS,
+    DEFAULT_SCHEDULING_REMINDER_OFFSETS_HOURS,
+  );
+
+export const getDoseDueReminderOffsetsDays = (): number[] =>
+  parseReminderOffsets(
+    process.env.DOSE_DUE_REMINDER_OFFSETS_DAYS,
+    DEFAULT_DOSE_DUE_REMINDER_OFFSETS_DAYS,
+  );
+
 export const getAndResolveAllCronJobs = (container: DependencyContainer) => {
   const jobs: ICronJob[] = SERVER_CRON_JOBS.map((job) => {
     if (!container.isRegistered(job)) {
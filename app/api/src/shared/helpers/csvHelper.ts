@@ -0,0 +1,127 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+const CSV_SEPARATOR = ';';
+
+export const CSV_LINE_BREAK = '\r\n';
+
+// UTF-8 BOM so spreadsheet tools (Excel) keep pt-BR accents intact
+export const UTF8_BOM = '\uFEFF';
+
+// Leading characters that make spreadsheet tools evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Neutralizes text that a spreadsheet would run as a formula (CSV/formula
+ * injection), e.g. a user name like `=HYPERLINK(...)`
+ *
+ * The leading `'` makes Excel and LibreOffice show the value as plain text.
+ * Only strings are changed, numbers keep their sign.
+ */
+export const escapeFormula = (value: CsvValue): CsvValue =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const text =
+    value instanceof Date ? value.toISOString() : String(escapeFormula(value));
+
+  if (/[";\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+};
+
+/**
+ * Serializes the values of a single CSV line (without line break)
+ */
+export const toCsvLine = (values: CsvValue[]): string =>
+  values.map(escapeCsvValue).join(CSV_SEPARATOR);
+
+/**
+ * Serializes flat rows into a CSV document
+ *
+ * The header is the union of the keys of all rows, in order of appearance.
+ * Uses `;` as separator, the default for spreadsheets in pt-BR locales.
+ */
+export const toCsv = (rows: Record<string, CsvValue>[]): string => {
+  const headers: string[] = [];
+
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!headers.includes(key)) {
+        headers.push(key);
+      }
+    }
+  }
+
+  const lines = [
+    toCsvLine(headers),
+    ...rows.map((row) => toCsvLine(headers.map((header) => row[header]))),
+  ];
+
+  return `${UTF8_BOM}${lines.join(CSV_LINE_BREAK)}`;
+};
+
+/**
+ * Parses a CSV document into rows of raw values
+ *
+ * The separator (`;` or `,`) is detected from the header line, so files
+ * saved by pt-BR and en-US spreadsheets are both accepted. Supports quoted
+ * values (with `""` escapes and line breaks) and ignores a leading UTF-8 BOM.
+ * Blank lines are kept as rows, so the row index matches the file line.
+ */
+export const parseCsv = (content: string): string[][] => {
+  const text = content.startsWith(UTF8_BOM) ? content.slice(1) : content;
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const separator =
+    headerLine.split(',').length > headerLine.split(CSV_SEPARATOR).length
+      ? ','
+      : CSV_SEPARATOR;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        value += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(value);
+      value = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  // Last line, unless the file ends with a line break
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+
+  return rows;
+};
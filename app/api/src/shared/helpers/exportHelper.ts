@@ -0,0 +1,167 @@
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import {
+  CSV_LINE_BREAK,
+  type CsvValue,
+  UTF8_BOM,
+  escapeFormula,
+  toCsvLine,
+} from '@shared/helpers/csvHelper';
+import { formatDate, getCurrentDate } from '@shared/helpers/timeHelper';
+import type {
+  DataExport,
+  ExportColumn,
+  ExportFormat,
+} from '@shared/models/export';
+import ExcelJS from 'exceljs';
+import type { Response } from 'express';
+
+export const EXPORT_DATE_FORMAT = 'DD/MM/YYYY';
+export const EXPORT_DATE_TIME_FORMAT = 'DD/MM/YYYY HH:mm';
+
+const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const DEFAULT_XLSX_COLUMN_WIDTH = 18;
+
+/**
+ * Localizes a cell value, shared by the CSV and XLSX writers
+ * Text is escaped so spreadsheets never run it as a formula
+ */
+const toExportValue = (value: CsvValue): CsvValue => {
+  if (typeof value === 'boolean') {
+    return value ? 'Sim' : 'Não';
+  }
+
+  if (value instanceof Date) {
+    return formatDate(value, EXPORT_DATE_TIME_FORMAT);
+  }
+
+  return escapeFormula(value);
+};
+
+const toExportValues = <T>(columns: ExportColumn<T>[], item: T): CsvValue[] =>
+  columns.map((column) => toExportValue(column.value(item)));
+
+async function* generateCsv<T>(
+  dataExport: DataExport<T>,
+): AsyncGenerator<string> {
+  const { columns, batches } = dataExport;
+
+  yield `${UTF8_BOM}${toCsvLine(columns.map((column) => column.header))}`;
+
+  for await (const batch of batches) {
+    yield batch
+      .map(
+        (item) =>
+          `${CSV_LINE_BREAK}${toCsvLine(toExportValues(columns, item))}`,
+      )
+      .join('');
+  }
+}
+
+const writeXlsx = async <T>(
+  res: Response,
+  dataExport: DataExport<T>,
+): Promise<void> => {
+  const { sheetName, columns, batches } = dataExport;
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: res,
+    useStyles: true,
+  });
+  const worksheet = workbook.addWorksheet(sheetName, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  worksheet.columns = columns.map((column) => ({
+    header: column.header,
+    width: column.width ?? DEFAULT_XLSX_COLUMN_WIDTH,
+  }));
+  worksheet.getRow(1).font = { bold: true };
+
+  for await (const batch of batches) {
+    // Client went away, the workbook would never finish writing
+    if (res.destroyed) {
+      return;
+    }
+
+    for (const item of batch) {
+      worksheet.addRow(toExportValues(columns, item)).commit();
+    }
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+};
+
+/**
+ * Reads the first batch, so that errors of the first query (and an empty
+ * iterator) are known before the response starts
+ */
+const readAhead = async <T>(
+  batches: AsyncIterable<T[]>,
+): Promise<AsyncIterable<T[]>> => {
+  const iterator = batches[Symbol.asyncIterator]();
+  const first = await iterator.next();
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      if (first.done) {
+        return;
+      }
+
+      yield first.value;
+
+      for (
+        let next = await iterator.next();
+        !next.done;
+        next = await iterator.next()
+      ) {
+        yield next.value;
+      }
+    },
+  };
+};
+
+/**
+ * Streams a list export as a file download
+ *
+ * - csv: `;` separated with UTF-8 BOM (see csvHelper)
+ * - xlsx: a single worksheet with a bold, frozen header row
+ *
+ * Rows are written batch by batch, as they are read. An error in the first
+ * batch is rethrown (handled as a regular error response); after it, the
+ * response is aborted so the client does not keep a truncated file.
+ */
+export const sendExport = async <T>(
+  res: Response,
+  format: ExportFormat,
+  dataExport: DataExport<T>,
+): Promise<void> => {
+  const source = {
+    ...dataExport,
+    batches: await readAhead(dataExport.batches),
+  };
+  const fileName = `${dataExport.fileName}-${formatDate(
+    getCurrentDate(),
+    'YYYYMMDD-HHmmss',
+  )}.${format}`;
+
+  res.status(200);
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+
+  try {
+    if (format === 'xlsx') {
+      await writeXlsx(res, source);
+    } else {
+      await pipeline(Readable.from(generateCsv(source)), res);
+    }
+  } catch (error) {
+    console.error(`Export ${fileName} failed:`, error);
+    res.destroy();
+  }
+};
@@ -0,0 +1,38 @@
+/**
+ * Detects the content type of an image from its magic bytes
+ *
+ * The content type sent by the client is not trusted: a file is only
+ * accepted as an image if its signature matches.
+ *
+ * @param content - File content
+ * @returns 'image/jpeg', 'image/png', 'image/webp' or null if unknown
+ */
+export const detectImageContentType = (content: Buffer): string | null => {
+  if (
+    content.length >= 3 &&
+    content[0] === 0xff &&
+    content[1] === 0xd8 &&
+    content[2] === 0xff
+  ) {
+    return 'image/jpeg';
+  }
+
+  if (
+    content.length >= 8 &&
+    content
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return 'image/png';
+  }
+
+  if (
+    content.length >= 12 &&
+    content.toString('ascii', 0, 4) === 'RIFF' &&
+    content.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+
+  return null;
+};
@@ -12,7 +12,10 @@ import type { INotificationStore } from '@shared/interfaces/notification';
 import type { Vaccine } from '@shared/models/vaccine';
 import type { VaccineApplication } from '@shared/models/vaccineApplication';
 import type { VaccineBatch } from '@shared/models/vaccineBatch';
-import type { VaccineScheduledEventData } from '@shared/models/vaccineNotificationEvents';
+import type {
+  DoseReminderEventData,
+  VaccineScheduledEventData,
+} from '@shared/models/vaccineNotificationEvents';
 import type { VaccineSchedulingWithRelations } from '@shared/models/vaccineScheduling';
 import { formatDate } from './timeHelper';
 
@@ -140,7 +143,7 @@ export const createVaccineAppliedNotification = async (
 export const createNurseChangedNotification = async (
   store: INotificationStore,
   scheduling: VaccineSchedulingWithRelations,
-  oldNurse: User,
+  oldNurse: User | null,
   newNurse: User,
 ): Promise<void> => {
   console.log(
@@ -152,21 +155,22 @@ export const createNurseChangedNotification = async (
   );
 
   await Promise.all([
-    store.create({
-      userId: oldNurse.id,
-      type: 'GENERAL',
-      title: 'Remoção de Agendamento',
-      message: `Você foi removido(a) do agendamento da vacina ${scheduling.vaccine.name} para ${scheduling.user.name}, que estava marcado para ${formattedDate}.`,
-      metadata: {
-        schedulingId: scheduling.id,
-        vaccineId: scheduling.vaccine.id,
-        vaccineName: scheduling.vaccine.name,
-        scheduledDate: scheduling.scheduledDate,
-        doseNumber: scheduling.doseNumber,
-        patientName: scheduling.user.name,
-        patientEmail: scheduling.user.email,
-      },
-    }),
+    oldNurse &&
+      store.create({
+        userId: oldNurse.id,
+        type: 'GENERAL',
+        title: 'Remoção de Agendamento',
+        message: `Você foi removido(a) do agendamento da vacina ${scheduling.vaccine.name} para ${scheduling.user.name}, que estava marcado para ${formattedDate}.`,
+        metadata: {
+          schedulingId: scheduling.id,
+          vaccineId: scheduling.vaccine.id,
+          vaccineName: scheduling.vaccine.name,
+          scheduledDate: scheduling.scheduledDate,
+          doseNumber: scheduling.doseNumber,
+          patientName: scheduling.user.name,
+          patientEmail: scheduling.user.email,
+        },
+      }),
     store.create({
       userId: newNurse.id,
       type: 'GENERAL',
@@ -185,8 +189,12 @@ export const createNurseChangedNotification = async (
     store.create({
       userId: scheduling.user.id,
       type: 'GENERAL',
-      title: 'Alteração de Enfermagem',
-      message: `Seu(a) enfermeiro(a) responsável pela aplicação da vacina ${scheduling.vaccine.name} foi alterado(a). O novo enfermeiro(a) é ${newNurse.name}.`,
+      title: oldNurse
+        ? 'Alteração de Enfermagem'
+        : 'Enfermeiro(a) Designado(a)',
+      message: oldNurse
+        ? `Seu(a) enfermeiro(a) responsável pela aplicação da vacina ${scheduling.vaccine.name} foi alterado(a). O novo enfermeiro(a) é ${newNurse.name}.`
+        : `O(a) enfermeiro(a) ${newNurse.name} foi designado(a) para a aplicação da vacina ${scheduling.vaccine.name} no dia ${formattedDate}.`,
       metadata: {
         schedulingId: scheduling.id,
         vaccineId: scheduling.vaccine.id,
@@ -203,3 +211,42 @@ export const createNurseChangedNotification = async (
     '[createNurseChangedNotification] Nurse changed notifications created successfully',
   );
 };
+
+/**
+ * Creates a DOSE_REMINDER notification for an upcoming appointment or a due dose
+ *
+ * @param store - Notification store instance
+ * @param data - Event data emitted by DoseReminderJob
+ * @returns Promise that resolves when notification is created
+ */
+export const createDoseReminderNotification = async (
+  store: INotificationStore,
+  data: DoseReminderEventData,
+): Promise<void> => {
+  const isScheduling = data.reminderType === 'scheduling';
+  const isOverdue = data.dueDate.getTime() < Date.now();
+
+  const formattedDate = formatDate(
+    data.dueDate,
+    isScheduling ? 'DD/MM/YYYY HH:mm' : 'DD/MM/YYYY',
+  );
+
+  const message = isScheduling
+    ? `Lembrete: a ${data.doseNumber}ª dose da vacina ${data.vaccineName} está agendada para ${formattedDate}.`
+    : `A ${data.doseNumber}ª dose da vacina ${data.vaccineName} ${isOverdue ? 'estava prevista' : 'está prevista'} para ${formattedDate}. Agende sua aplicação.`;
+
+  await store.create({
+    userId: data.userId,
+    type: 'DOSE_REMINDER',
+    title: isScheduling ? 'Lembrete de Vacinação' : 'Próxima Dose',
+    message,
+    metadata: {
+      reminderType: data.reminderType,
+      schedulingId: data.schedulingId,
+      vaccineId: data.vaccineId,
+      vaccineName: data.vaccineName,
+      doseNumber: data.doseNumber,
+      dueDate: data.dueDate,
+    },
+  });
+};
@@ -0,0 +1,92 @@
+import type { Prisma } from '@infrastructure/database';
+import {
+  DEFAULT_OUTBOX_MAX_ATTEMPTS,
+  DEFAULT_OUTBOX_RETRY_BASE_DELAY_SECONDS,
+  MAX_OUTBOX_RETRY_DELAY_MS,
+} from '@shared/constants/eventOutbox';
+import type {
+  OutboxEvent,
+  OutboxEventCreateInput,
+} from '@shared/models/outboxEvent';
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+export const getOutboxMaxAttempts = (): number => {
+  const maxAttempts = Number(process.env.OUTBOX_MAX_ATTEMPTS);
+
+  if (!Number.isInteger(maxAttempts) || maxAttempts <= 0) {
+    return DEFAULT_OUTBOX_MAX_ATTEMPTS;
+  }
+
+  return maxAttempts;
+};
+
+/**
+ * Exponential backoff: base, 2x base, 4x base... capped at MAX_OUTBOX_RETRY_DELAY_MS
+ *
+ * @param attempts - Deliveries already attempted (>= 1)
+ */
+export const getOutboxRetryDelayMs = (attempts: number): number => {
+  const configured = Number(process.env.OUTBOX_RETRY_BASE_DELAY_SECONDS);
+  const baseSeconds =
+    Number.isInteger(configured) && configured > 0
+      ? configured
+      : DEFAULT_OUTBOX_RETRY_BASE_DELAY_SECONDS;
+
+  return Math.min(
+    baseSeconds * 1000 * 2 ** Math.max(attempts - 1, 0),
+    MAX_OUTBOX_RETRY_DELAY_MS,
+  );
+};
+
+/**
+ * Converts an event payload to a JSON value (Dates become ISO strings)
+ */
+export const serializeEventPayload = (
+  payload: unknown,
+): Prisma.InputJsonValue =>
+  JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue;
+
+/**
+ * Restores an event payload read from the outbox
+ *
+ * ISO date strings are converted back to Date, so handlers receive the same
+ * shape they get from an in-memory emit.
+ */
+export const deserializeEventPayload = <T = unknown>(
+  payload: Prisma.JsonValue,
+): T =>
+  JSON.parse(JSON.stringify(payload), (_key, value) =>
+    typeof value === 'string' && ISO_DATE_REGEX.test(value)
+      ? new Date(value)
+      : value,
+  ) as T;
+
+/**
+ * Writes an event to the outbox using the given transaction client
+ *
+ * Stores call this inside their $transaction so the event is only persisted
+ * if the domain write commits. OutboxDispatchJob delivers it afterwards.
+ *
+ * @example
+ * return this.prisma.$transaction(async (prisma) => {
+ *   const application = await prisma.vaccineApplication.create({ ... });
+ *   await enqueueOutboxEvent(prisma, {
+ *     eventName: EventNames.VACCINE_APPLIED,
+ *     payload: { ... },
+ *   });
+ *   return application;
+ * });
+ */
+export const enqueueOutboxEvent = (
+  tx: Prisma.TransactionClient,
+  event: OutboxEventCreateInput,
+): Promise<OutboxEvent> =>
+  tx.outboxEvent.create({
+    data: {
+      eventName: event.eventName,
+      payload: serializeEventPayload(event.payload),
+      pendingHandlers: event.pendingHandlers ?? [],
+      status: event.status,
+    },
+  });
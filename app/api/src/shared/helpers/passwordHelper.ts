@@ -1,10 +1,80 @@
-import bcrypt from "bcrypt";
+import { ValidationError } from '@modules/user/errors';
+import {
+  PASSWORD_MAX_LENGTH,
+  PASSWORD_MIN_LENGTH,
+} from '@shared/constants/auth';
+import bcrypt from 'bcrypt';
+
+interface PasswordRule {
+  test: (password: string) => boolean;
+  message: string;
+}
+
+/**
+ * Password policy
+ *
+ * Shared by the Zod validators (register, reset, change password) and by
+ * UserService, so every way of setting a password enforces the same rules.
+ */
+const PASSWORD_RULES: PasswordRule[] = [
+  {
+    test: (password) => password.length >= PASSWORD_MIN_LENGTH,
+    message: `Password must be at least ${PASSWORD_MIN_LENGTH} characters`,
+  },
+  {
+    test: (password) => password.length <= PASSWORD_MAX_LENGTH,
+    message: 'Password too long',
+  },
+  {
+    test: (password) => /[A-Z]/.test(password),
+    message: 'Password must contain at least one uppercase letter',
+  },
+  {
+    test: (password) => /[a-z]/.test(password),
+    message: 'Password must contain at least one lowercase letter',
+  },
+  {
+    test: (password) => /[0-9]/.test(password),
+    message: 'Password must contain at least one number',
+  },
+  {
+    test: (password) => /[^A-Za-z0-9]/.test(password),
+    message: 'Password must contain at least one special character',
+  },
+];
 
 export const hashPassword = async (password: string): Promise<string> => {
   const salt = await bcrypt.genSalt(10);
   return await bcrypt.hash(password, salt);
-}
+};
 
-export const comparePassword = async (password: string, hashedPassword: string): Promise<boolean> => {
+export const comparePassword = async (
+  password: string,
+  hashedPassword: string,
+): Promise<boolean> => {
   return await bcrypt.compare(password, hashedPassword);
-}
\ No newline at end of file
+};
+
+/**
+ * Lists the password policy rules the password breaks
+ *
+ * @returns Violation messages (empty when the password is valid)
+ */
+export const getPasswordPolicyViolations = (password: string): string[] => {
+  return PASSWORD_RULES.filter((rule) => !rule.test(password)).map(
+    (rule) => rule.message,
+  );
+};
+
+/**
+ * Ensures the password follows the password policy
+ *
+ * @throws ValidationError listing every broken rule
+ */
+export const assertPasswordPolicy = (password: string): void => {
+  const violations = getPasswordPolicyViolations(password);
+
+  if (violations.length) {
+    throw new ValidationError(violations.join('; '));
+  }
+};
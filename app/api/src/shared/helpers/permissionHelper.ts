@@ -0,0 +1,46 @@
+import { ForbiddenError } from '@modules/user/errors';
+import {
+  type Permission,
+  ROLE_PERMISSIONS,
+} from '@shared/constants/permissions';
+import type { User, UserRole } from '@shared/models/user';
+
+/**
+ * Permissions granted to a role
+ */
+export const getPermissionsForRole = (role: UserRole): Permission[] => {
+  return [...(ROLE_PERMISSIONS[role] ?? [])];
+};
+
+/**
+ * Checks whether a role grants a permission
+ *
+ * @example
+ * if (hasPermission(user.role, Permissions.APPLICATION_READ)) {
+ *   // may see other users' applications
+ * }
+ */
+export const hasPermission = (
+  role: UserRole,
+  permission: Permission,
+): boolean => {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+};
+
+/**
+ * Service-level guard: throws when the user lacks the permission
+ *
+ * @param user - User performing the action (only the role is used)
+ * @param permission - Permission required by the action
+ * @throws ForbiddenError if the user's role does not grant the permission
+ */
+export const assertPermission = (
+  user: Pick<User, 'role'>,
+  permission: Permission,
+): void => {
+  if (!hasPermission(user.role, permission)) {
+    throw new ForbiddenError(
+      `You do not have permission to perform this action (${permission})`,
+    );
+  }
+};
@@ -1,4 +1,10 @@
-import type { PaginationParams } from '@shared/interfaces/pagination';
+import type {
+  PaginationParams,
+  SortParams,
+} from '@shared/interfaces/pagination';
+
+// Rows read per query when a list is exported without pagination
+export const EXPORT_BATCH_SIZE = 500;
 
 export const buildPaginationArgs = (
   params: PaginationParams,
@@ -19,3 +25,41 @@ export const buildPaginationArgs = (
     orderBy,
   };
 };
+
+/**
+ * Sorting of an export: the requested field, then the ID, so that rows with
+ * equal values are neither repeated nor skipped between batches
+ */
+export const buildExportOrderBy = (
+  params: SortParams,
+  allowedSortFields?: string[],
+) => {
+  const { orderBy } = buildPaginationArgs(
+    { ...params, page: 1, perPage: EXPORT_BATCH_SIZE },
+    allowedSortFields,
+  );
+
+  return [orderBy, { id: 'asc' as const }];
+};
+
+/**
+ * Reads every row of a query, EXPORT_BATCH_SIZE rows at a time
+ *
+ * The next batch is only read when the previous one was consumed, so a
+ * large export never holds the full result set in memory.
+ */
+export async function* findInBatches<T>(
+  findBatch: (args: { skip: number; take: number }) => Promise<T[]>,
+): AsyncGenerator<T[]> {
+  for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+    const batch = await findBatch({ skip, take: EXPORT_BATCH_SIZE });
+
+    if (batch.length) {
+      yield batch;
+    }
+
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+  }
+}
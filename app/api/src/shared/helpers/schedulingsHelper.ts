@@ -1,17 +1,24 @@
+import { Permissions } from '@shared/constants/permissions';
 import type { VaccineSchedulingFilterParams } from '@shared/interfaces/vaccineScheduling';
 import type { User } from '@shared/models/user';
+import { hasPermission } from './permissionHelper';
 
 export const defineFilterParams = (
-  requestingUser: Omit<User, 'password' | 'deletedAt'>,
+  requestingUser: Omit<
+    User,
+    'password' | 'deletedAt' | 'photoKey' | 'photoContentType'
+  >,
   filters: VaccineSchedulingFilterParams,
 ): VaccineSchedulingFilterParams => {
-  const isNurse = requestingUser.role === 'NURSE';
-  const isEmployee = requestingUser.role === 'EMPLOYEE';
-  const isManager = requestingUser.role === 'MANAGER';
+  // Users that can be assigned to schedulings (NURSE) have a nurse dashboard
+  const hasAssignedAgenda = hasPermission(
+    requestingUser.role,
+    Permissions.SCHEDULING_ASSIGNED_READ,
+  );
 
   // SCENARIO 1: Nurse Dashboard (assignedNurseId provided)
   // Show schedulings assigned to this nurse + unassigned ones
-  if (isNurse && filters.assignedNurseId) {
+  if (hasAssignedAgenda && filters.assignedNurseId) {
     return {
       ...filters,
       assignedNurseId: requestingUser.id, // Security: force their own ID
@@ -33,7 +40,7 @@ export const defineFilterParams = (
   // SCENARIO 3: No explicit filter provided - Default behavior
 
   // For NURSE: Default to dashboard view (assigned + unassigned)
-  if (isNurse) {
+  if (hasAssignedAgenda) {
     return {
       ...filters,
       assignedNurseId: requestingUser.id,
@@ -41,15 +48,10 @@ export const defineFilterParams = (
     };
   }
 
-  // For EMPLOYEE and MANAGER: Default to "my appointments" view
-  if (isEmployee || isManager) {
-    return {
-      ...filters,
-      userId: requestingUser.id,
-      assignedNurseId: undefined,
-    };
-  }
-
-  // Fallback: return filters as-is
-  return filters;
+  // For everyone else (EMPLOYEE and MANAGER): Default to "my appointments" view
+  return {
+    ...filters,
+    userId: requestingUser.id,
+    assignedNurseId: undefined,
+  };
 };
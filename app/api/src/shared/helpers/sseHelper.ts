@@ -0,0 +1,38 @@
+/**
+ * Server-Sent Events helpers
+ *
+ * @see https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+
+export interface SseMessage {
+  id?: string;
+  event: string;
+  data: unknown;
+}
+
+// Interval between keep-alive comments, below common proxy idle timeouts
+export const SSE_HEARTBEAT_INTERVAL_MS = 25_000;
+
+// Delay the browser waits before reconnecting
+export const SSE_RETRY_MS = 5_000;
+
+// Events replayed on reconnection (Last-Event-ID), older ones are dropped
+export const SSE_MAX_REPLAYED_EVENTS = 50;
+
+/**
+ * Formats a message in the text/event-stream wire format
+ *
+ * Messages without id keep the client's last event ID, so only the
+ * messages that can be resumed should carry one.
+ */
+export const formatSseMessage = ({ id, event, data }: SseMessage): string => {
+  const lines = id ? [`id: ${id}`] : [];
+  lines.push(`event: ${event}`, `data: ${JSON.stringify(data)}`);
+
+  return `${lines.join('\n')}\n\n`;
+};
+
+/**
+ * Formats a comment line, ignored by the client (used as heartbeat)
+ */
+export const formatSseComment = (comment: string): string => `: ${comment}\n\n`;
@@ -0,0 +1,155 @@
+import type {
+  BatchStatus,
+  Prisma,
+  VaccineBatch,
+} from '@infrastructure/database';
+import type {
+  BatchStockChange,
+  StockMovement,
+  StockMovementCreateInput,
+} from '@shared/models/stockMovement';
+import type { VaccineBatchUpdateInput } from '@shared/models/vaccineBatch';
+
+/**
+ * Doses of the batch that count towards the vaccine's totalStock
+ */
+const getUsableQuantity = (batch: VaccineBatch): number =>
+  batch.status === 'AVAILABLE' ? batch.currentQuantity : 0;
+
+const getStatusAfterQuantityChange = (
+  status: BatchStatus,
+  quantity: number,
+): BatchStatus => {
+  if (status === 'AVAILABLE' && quantity === 0) return 'DEPLETED';
+  if (status === 'DEPLETED' && quantity > 0) return 'AVAILABLE';
+  return status;
+};
+
+/**
+ * Writes a stock movement using the given transaction client
+ *
+ * Stores call this inside the $transaction that changes the batch quantity,
+ * so the ledger never misses a change nor records one that rolled back.
+ * balanceAfter must be read from the updated batch. Changes to an existing
+ * batch go through applyBatchStockChange, which calls this.
+ *
+ * @example
+ * return this.prisma.$transaction(async (tx) => {
+ *   const batch = await tx.vaccineBatch.create({ data });
+ *   await recordStockMovement(tx, {
+ *     batchId: batch.id,
+ *     vaccineId: batch.vaccineId,
+ *     type: 'RECEIPT',
+ *     quantity: batch.currentQuantity,
+ *     balanceAfter: batch.currentQuantity,
+ *   });
+ * });
+ */
+export const recordStockMovement = (
+  tx: Prisma.TransactionClient,
+  movement: StockMovementCreateInput,
+): Promise<StockMovement> =>
+  tx.stockMovement.create({
+    data: {
+      batchId: movement.batchId,
+      vaccineId: movement.vaccineId,
+      type: movement.type,
+      quantity: movement.quantity,
+      balanceAfter: movement.balanceAfter,
+      reason: movement.reason,
+      discardReason: movement.discardReason,
+      applicationId: movement.applicationId,
+      createdById: movement.createdById ?? null,
+    },
+  });
+
+/**
+ * Reads a batch for a stock change, locking it until the transaction ends
+ *
+ * The vaccine row is locked first, like schedulings and quarantines do, so
+ * every transaction takes both locks in the same order. A concurrent stock
+ * change of the batch waits for this transaction, then reads its result.
+ *
+ * @throws Prisma NotFoundError if the batch does not exist
+ */
+export const lockBatch = async (
+  tx: Prisma.TransactionClient,
+  id: string,
+): Promise<VaccineBatch> => {
+  await tx.$queryRaw`
+    SELECT id FROM vaccines
+    WHERE id = (SELECT "vaccineId" FROM vaccine_batches WHERE id = ${id})
+    FOR UPDATE
+  `;
+  await tx.$queryRaw`
+    SELECT id FROM vaccine_batches
+    WHERE id = ${id}
+    FOR UPDATE
+  `;
+
+  return tx.vaccineBatch.findUniqueOrThrow({ where: { id } });
+};
+
+/**
+ * Applies a stock change to a batch using the given transaction client
+ *
+ * 1. Updates currentQuantity by change.quantity (and the optional fields)
+ * 2. Adjusts the vaccine's totalStock by the change in usable doses
+ * 3. Writes the stock movement
+ *
+ * Unless data.status is given, the status follows the quantity:
+ * AVAILABLE becomes DEPLETED at 0 and DEPLETED becomes AVAILABLE above 0.
+ *
+ * @param batch - Batch read with lockBatch in the same transaction, so no
+ *   concurrent change can slip between the quantity check and the update
+ * @throws Error if the change would leave a negative quantity
+ */
+export const applyBatchStockChange = async (
+  tx: Prisma.TransactionClient,
+  batch: VaccineBatch,
+  change: BatchStockChange,
+  data: VaccineBatchUpdateInput = {},
+): Promise<VaccineBatch> => {
+  const newQuantity = batch.currentQuantity + change.quantity;
+  if (newQuantity < 0) {
+    throw new Error(
+      `Insufficient quantity. Available: ${batch.currentQuantity}, Requested: ${-change.quantity}`,
+    );
+  }
+
+  const updatedBatch = await tx.vaccineBatch.update({
+    where: { id: batch.id },
+    data: {
+      ...data,
+      status:
+        (data.status as BatchStatus | undefined) ??
+        getStatusAfterQuantityChange(batch.status, newQuantity),
+      currentQuantity: { increment: change.quantity },
+    },
+  });
+
+  // Only AVAILABLE batches count towards the vaccine's totalStock
+  const stockDelta = getUsableQuantity(updatedBatch) - getUsableQuantity(batch);
+  if (stockDelta !== 0) {
+    await tx.vaccine.update({
+      where: { id: batch.vaccineId },
+      data: { totalStock: { increment: stockDelta } },
+    });
+  }
+
+  if (change.quantity !== 0) {
+    await recordStockMovement(tx, {
+      batchId: batch.id,
+      vaccineId: batch.vaccineId,
+      type: change.type,
+      quantity: change.quantity,
+      balanceAfter: updatedBatch.currentQuantity,
+      reason: change.reason,
+      discardReason: change.discardReason,
+      applicationId: change.applicationId,
+      createdById: change.createdById,
+    });
+  }
+
+  return updatedBatch;
+};
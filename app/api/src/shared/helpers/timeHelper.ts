@@ -39,6 +39,10 @@ export const isDateInPast = (date: Date): boolean => {
   return dayjs(date).isBefore(dayjs());
 };
 
+export const isDateBeforeToday = (date: Date): boolean => {
+  return dayjs(date).isBefore(dayjs().startOf('day'));
+};
+
 export const getStartOfDay = (date: Date): Date => {
   return dayjs(date).startOf('day').toDate();
 };
@@ -58,3 +62,11 @@ export const getMonthDays = (month: number, year: number) => {
 export const createDate = (day: number, month: number, year: number) => {
   return dayjs().year(year).month(month).date(day).toDate();
 };
+
+export const addDays = (date: Date, days: number): Date => {
+  return dayjs(date).add(days, 'day').toDate();
+};
+
+export const addMinutes = (date: Date, minutes: number): Date => {
+  return dayjs(date).add(minutes, 'minute').toDate();
+};
@@ -5,9 +5,20 @@
  * Uses centralized environment configuration for JWT_SECRET.
  */
 
+import {
+  DEFAULT_ACCESS_TOKEN_EXPIRES_IN,
+  DEFAULT_INVITATION_EXPIRES_IN_DAYS,
+  DEFAULT_PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES,
+  DEFAULT_REFRESH_TOKEN_EXPIRES_IN_DAYS,
+  INVITATION_TOKEN_BYTES,
+  PASSWORD_RESET_TOKEN_BYTES,
+  REFRESH_TOKEN_BYTES,
+} from '@shared/constants/auth';
 import * as jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'node:crypto';
 import { env } from 'node:process';
 import { TokenPayload } from '../../@types/express';
+import { MILLISECONDS_IN_A_DAY } from './timeHelper';
 
 /**
  * Custom error for token validation failures
@@ -76,4 +87,99 @@ export const generateToken = (
       issuer: 'univas-enfermagem-api',
     }
   );
-};
\ No newline at end of file
+};
+
+/**
+ * Access token lifetime, from JWT_EXPIRES_IN (default: 15m)
+ */
+export const getAccessTokenExpiresIn = (): string => {
+  return env.JWT_EXPIRES_IN || DEFAULT_ACCESS_TOKEN_EXPIRES_IN;
+};
+
+/**
+ * Expiration date of a refresh token issued now, from
+ * REFRESH_TOKEN_EXPIRES_IN_DAYS (default: 30)
+ */
+export const getRefreshTokenExpiresAt = (): Date => {
+  const configured = Number(env.REFRESH_TOKEN_EXPIRES_IN_DAYS);
+  const days =
+    Number.isInteger(configured) && configured > 0
+      ? configured
+      : DEFAULT_REFRESH_TOKEN_EXPIRES_IN_DAYS;
+
+  return new Date(Date.now() + days * MILLISECONDS_IN_A_DAY);
+};
+
+/**
+ * Generates an opaque refresh token
+ *
+ * @remarks
+ * Refresh tokens are random strings, not JWTs: they are only meaningful
+ * to the server, which stores their hash (see hashRefreshToken).
+ */
+export const generateRefreshToken = (): string => {
+  return randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+};
+
+/**
+ * SHA-256 hash of a refresh token, the only form persisted in the database
+ */
+export const hashRefreshToken = (refreshToken: string): string => {
+  return createHash('sha256').update(refreshToken).digest('hex');
+};
+
+/**
+ * Expiration date of a password reset token issued now, from
+ * PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES (default: 30)
+ */
+export const getPasswordResetTokenExpiresAt = (): Date => {
+  const configured = Number(env.PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES);
+  const minutes =
+    Number.isInteger(configured) && configured > 0
+      ? configured
+      : DEFAULT_PASSWORD_RESET_TOKEN_EXPIRES_IN_MINUTES;
+
+  return new Date(Date.now() + minutes * 60 * 1000);
+};
+
+/**
+ * Generates an opaque password reset token, sent in the reset link
+ */
+export const generatePasswordResetToken = (): string => {
+  return randomBytes(PASSWORD_RESET_TOKEN_BYTES).toString('base64url');
+};
+
+/**
+ * SHA-256 hash of a password reset token, the only form persisted in the database
+ */
+export const hashPasswordResetToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Expiration date of an invitation issued now, from
+ * INVITATION_EXPIRES_IN_DAYS (default: 7)
+ */
+export const getInvitationExpiresAt = (): Date => {
+  const configured = Number(env.INVITATION_EXPIRES_IN_DAYS);
+  const days =
+    Number.isInteger(configured) && configured > 0
+      ? configured
+      : DEFAULT_INVITATION_EXPIRES_IN_DAYS;
+
+  return new Date(Date.now() + days * MILLISECONDS_IN_A_DAY);
+};
+
+/**
+ * Generates an opaque invitation token, sent in the invite link
+ */
+export const generateInvitationToken = (): string => {
+  return randomBytes(INVITATION_TOKEN_BYTES).toString('base64url');
+};
+
+/**
+ * SHA-256 hash of an invitation token, the only form persisted in the database
+ */
+export const hashInvitationToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
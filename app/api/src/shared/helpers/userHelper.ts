@@ -1,9 +1,25 @@
+import { Permissions } from '@shared/constants/permissions';
 import type { User, UserResponse } from '@shared/models/user';
+import { hasPermission } from './permissionHelper';
 
 export const normalizeEmail = (email: string): string => {
   return email.toLowerCase().trim();
 };
 
+/**
+ * Builds the API path used to download a user's profile photo
+ *
+ * The version (updatedAt) changes on every upload so browsers do not reuse
+ * a cached photo after it is replaced.
+ */
+export const buildUserPhotoPath = (user: User): string | null => {
+  if (!user.photoKey) {
+    return null;
+  }
+
+  return `/api/users/${user.id}/photo?v=${user.updatedAt.getTime()}`;
+};
+
 export const toUserResponse = (user: User): UserResponse => {
   return {
     name: user.name,
@@ -14,6 +30,7 @@ export const toUserResponse = (user: User): UserResponse => {
     coren: user.coren,
     id: user.id,
     isActive: user.isActive,
+    photoUrl: buildUserPhotoPath(user),
     updatedAt: user.updatedAt,
     createdAt: user.createdAt,
   };
@@ -29,20 +46,21 @@ interface PermissionCheckParams {
 /**
  * Centralized authorization logic for user access control
  *
- * This function implements role-based access control (RBAC) with contextual rules:
+ * This function combines the permission catalog (see ROLE_PERMISSIONS)
+ * with contextual rules:
  *
  * Authorization Rules:
  * - VIEW:
- *   - MANAGER: Can view any user
+ *   - user:read: Can view any user (MANAGER, NURSE)
  *   - Others: Can only view themselves
  *
  * - MODIFY:
- *   - MANAGER: Can modify any user, all fields
+ *   - user:write: Can modify any user, all fields (MANAGER)
  *   - Others: Can only modify themselves, restricted fields only
- *   - Restricted fields for non-MANAGER: isActive, role
+ *   - Restricted fields without user:write: isActive, role
  *
  * - DELETE:
- *   - Only MANAGER can delete users
+ *   - user:delete: Can delete users (MANAGER)
  *   - Cannot delete yourself (prevents accidental lockout)
  *
  * @param params - Permission check parameters
@@ -108,23 +126,21 @@ export const canAccessUser = ({
   reqType,
   dataUpdates,
 }: PermissionCheckParams): boolean => {
-  const isManager = requester.role === 'MANAGER';
-  const isNurse = requester.role === 'NURSE';
   const isSelf = requester.id === targetUser.id;
 
   switch (reqType) {
     case 'view': {
-      // MANAGER can view any user, others can only view themselves
-      return isManager || isSelf || isNurse;
+      // user:read can view any user, others can only view themselves
+      return isSelf || hasPermission(requester.role, Permissions.USER_READ);
     }
 
     case 'modify': {
-      // MANAGER can modify any user
-      if (isManager) {
+      // user:write can modify any user
+      if (hasPermission(requester.role, Permissions.USER_WRITE)) {
         return true;
       }
 
-      // Non-managers can only modify themselves
+      // Others can only modify themselves
       if (!isSelf) {
         return false;
       }
@@ -137,7 +153,7 @@ export const canAccessUser = ({
         );
 
         if (isUpdatingRestrictedField) {
-          return false; // Non-managers cannot update restricted fields
+          return false; // Restricted fields require user:write
         }
       }
 
@@ -145,8 +161,7 @@ export const canAccessUser = ({
     }
 
     case 'delete': {
-      // Only MANAGER can delete users
-      if (!isManager) {
+      if (!hasPermission(requester.role, Permissions.USER_DELETE)) {
         return false;
       }
 
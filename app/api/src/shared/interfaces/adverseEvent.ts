@@ -0,0 +1,67 @@
+import type {
+  AdverseEvent,
+  AdverseEventCreateInput,
+  AdverseEventSeverity,
+  AdverseEventStatisticsGroupBy,
+  AdverseEventStatisticsRow,
+  AdverseEventUpdateInput,
+  AdverseEventWithRelations,
+} from '@shared/models/adverseEvent';
+import type { OutboxEventCreateInput } from '@shared/models/outboxEvent';
+import type { IBaseStore } from '@shared/stores/baseStore';
+import type { PaginatedResponse, PaginationParams } from './pagination';
+
+// Filter parameters for adverse event queries
+export interface AdverseEventFilterParams {
+  userId?: string;
+  vaccineId?: string;
+  batchId?: string;
+  severity?: AdverseEventSeverity;
+  onsetFrom?: Date;
+  onsetTo?: Date;
+}
+
+// Filter parameters for adverse event statistics
+export interface AdverseEventStatisticsFilterParams {
+  vaccineId?: string;
+  from?: Date; // Application date, inclusive
+  to?: Date; // Application date, inclusive
+}
+
+// Store interface extending IBaseStore
+export interface IAdverseEventStore
+  extends IBaseStore<
+    AdverseEvent,
+    AdverseEventCreateInput,
+    AdverseEventUpdateInput
+  > {
+  /**
+   * Creates an adverse event
+   *
+   * When buildOutboxEvent is provided, the event it returns is written to the
+   * event outbox in the same transaction, so it exists only if the adverse
+   * event was committed.
+   */
+  createAdverseEvent(
+    data: AdverseEventCreateInput,
+    buildOutboxEvent?: (
+      adverseEvent: AdverseEventWithRelations,
+    ) => OutboxEventCreateInput,
+  ): Promise<AdverseEventWithRelations>;
+  findByIdWithRelations(id: string): Promise<AdverseEventWithRelations | null>;
+  findPaginatedAdverseEvents(
+    params: PaginationParams,
+    filters?: AdverseEventFilterParams,
+  ): Promise<PaginatedResponse<AdverseEventWithRelations>>;
+
+  /**
+   * Adverse events per severity and doses applied, per vaccine or per batch
+   *
+   * Only applications that were not voided are counted, and only groups
+   * with at least one adverse event are returned (highest rate first).
+   */
+  getStatistics(
+    groupBy: AdverseEventStatisticsGroupBy,
+    filters?: AdverseEventStatisticsFilterParams,
+  ): Promise<AdverseEventStatisticsRow[]>;
+}
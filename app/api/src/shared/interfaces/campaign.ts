@@ -0,0 +1,58 @@
+import type {
+  Campaign,
+  CampaignAudienceMember,
+  CampaignCreateInput,
+  CampaignProgress,
+  CampaignStatus,
+  CampaignUpdateInput,
+  CampaignWithRelations,
+} from '@shared/models/campaign';
+import type { IBaseStore } from '@shared/stores/baseStore';
+import type { PaginatedResponse, PaginationParams } from './pagination';
+
+// Filter parameters for campaign queries
+export interface CampaignFilterParams {
+  status?: CampaignStatus;
+  vaccineId?: string;
+}
+
+// Store interface extending IBaseStore
+export interface ICampaignStore
+  extends IBaseStore<Campaign, CampaignCreateInput, CampaignUpdateInput> {
+  createCampaign(data: CampaignCreateInput): Promise<CampaignWithRelations>;
+  updateCampaign(
+    id: string,
+    data: CampaignUpdateInput,
+  ): Promise<CampaignWithRelations>;
+  findByIdWithRelations(id: string): Promise<CampaignWithRelations | null>;
+  findPaginatedCampaigns(
+    params: PaginationParams,
+    filters?: CampaignFilterParams,
+  ): Promise<PaginatedResponse<CampaignWithRelations>>;
+
+  /**
+   * Users matching the target audience of a campaign, oldest accounts first
+   *
+   * Users who already have a pending (SCHEDULED/CONFIRMED) scheduling for
+   * the vaccine dose are excluded, and so are users who already received it
+   * when onlyMissingDoses is set.
+   */
+  findAudience(campaign: Campaign): Promise<CampaignAudienceMember[]>;
+
+  /**
+   * Number of non-cancelled schedulings of a campaign per day (YYYY-MM-DD)
+   */
+  countSchedulingsPerDay(campaignId: string): Promise<Map<string, number>>;
+
+  /**
+   * Progress of each campaign, keyed by campaign ID
+   */
+  getProgress(campaignIds: string[]): Promise<Map<string, CampaignProgress>>;
+
+  /**
+   * Cancels a campaign and its pending schedulings in a single transaction
+   *
+   * @returns Number of schedulings cancelled
+   */
+  cancelCampaign(id: string): Promise<number>;
+}
@@ -11,7 +11,7 @@
  * - No coupling to specific implementations (EventEmitter, Redis, AMQP)
  *
  * Evolution Path:
- * 1. MVP: NodeEventBus (EventEmitter) - in-memory, fast, simple
+ * 1. MVP: NodeEventBus (Postgres outbox) - persistent, retry with backoff, dead letters
  * 2. Production: BullMQEventBus (Redis queue) - persistent, retry, scaling
  * 3. Scale: RabbitMQEventBus (AMQP) - distributed, complex routing
  *
@@ -23,17 +23,14 @@
  *   data: { userId: '123', vaccineName: 'COVID-19' }
  * });
  *
- * // Publishing an event and waiting for all handlers
- * const result = await eventBus.emit('vaccine.scheduled', payload, { waitForCompletion: true });
- * console.log('Succeeded:', result.succeeded.length);
- * console.log('Failed:', result.failed.length);
- * // Return failures to queue for retry
- * return result.failed;
- *
- * // Subscribing to an event
- * eventBus.on('vaccine.scheduled', async (payload) => {
- *   console.log('Vaccine scheduled:', payload.data);
- * });
+ * // Subscribing to an event (the name identifies the handler for retries)
+ * eventBus.on(
+ *   'vaccine.scheduled',
+ *   async (payload) => {
+ *     console.log('Vaccine scheduled:', payload.data);
+ *   },
+ *   'LogVaccineScheduledHandler',
+ * );
  */
 
 /**
@@ -41,6 +38,7 @@
  */
 export interface HandlerResult<T = unknown> {
   handler: (payload: T) => Promise<void>;
+  handlerName: string;
   status: 'fulfilled' | 'rejected';
   reason?: any;
 }
@@ -66,7 +64,9 @@ export interface IEventBus {
    * Emit an event with a typed data payload
    *
    * This method is ALWAYS non-blocking (fire-and-forget).
-   * The event bus handles all async execution internally.
+   * The event bus handles all async execution internally: the event is
+   * persisted first, so failed handlers are retried and, once they exhaust
+   * their attempts, moved to the dead letter queue.
    *
    * The generic type T represents the type of the event's data field,
    * enabling TypeScript autocomplete and type safety when building the payload.
@@ -98,21 +98,30 @@ export interface IEventBus {
    * The generic type T represents the complete NotificationEvent type,
    * including the data field and all metadata.
    *
+   * Handlers must throw when they fail, so the event bus can retry them.
+   *
    * @template T - Type of the complete event (e.g., VaccineScheduledEvent)
    * @param eventName - Name of the event to listen for
    * @param handler - Async function that processes the event
+   * @param handlerName - Stable name used to track retries and dead letters
+   *                      (defaults to handler.name)
    *
    * @example
    * // T = VaccineScheduledEvent (NotificationEvent<VaccineScheduledEventData>)
-   * eventBus.on<VaccineScheduledEvent>('vaccine.scheduled', async (event) => {
-   *   if (event.channels.includes('in-app')) {
-   *     await createNotification(event.data);  // event.data is typed!
-   *   }
-   * });
+   * eventBus.on<VaccineScheduledEvent>(
+   *   'vaccine.scheduled',
+   *   async (event) => {
+   *     if (event.channels.includes('in-app')) {
+   *       await createNotification(event.data); // event.data is typed!
+   *     }
+   *   },
+   *   'InAppVaccineScheduledHandler',
+   * );
    */
   on<T = unknown>(
     eventName: string,
     handler: (payload: T) => Promise<void>,
+    handlerName?: string,
   ): void;
 
   /**
@@ -134,4 +143,15 @@ export interface IEventBus {
     eventName: string,
     handler: (payload: T) => Promise<void>,
   ): void;
+
+  /**
+   * Deliver persisted events that are due
+   *
+   * Picks up events written to the outbox inside a database transaction
+   * and failed deliveries whose backoff has elapsed. Called periodically
+   * by OutboxDispatchJob.
+   *
+   * @returns Number of events processed in this run
+   */
+  dispatchPending(): Promise<number>;
 }
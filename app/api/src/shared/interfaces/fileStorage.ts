@@ -0,0 +1,38 @@
+/**
+ * IFileStorage - File Storage Interface
+ *
+ * Provider-agnostic abstraction for storing binary files (e.g. profile
+ * photos). Files are addressed by a key such as `users/<id>/<uuid>.png`;
+ * metadata (content type, owner) lives in the database, not in the storage.
+ *
+ * Implementations:
+ * - LocalFileStorage (local disk, STORAGE_DRIVER=local)
+ *
+ * @example
+ * await fileStorage.save('users/123/photo.png', buffer);
+ * const content = await fileStorage.read('users/123/photo.png');
+ */
+
+export interface IFileStorage {
+  /**
+   * Storage identifier used in logs (e.g., 'local')
+   */
+  readonly name: string;
+
+  /**
+   * Store a file, replacing any file with the same key
+   */
+  save(key: string, content: Buffer): Promise<void>;
+
+  /**
+   * Read a file
+   *
+   * @returns File content or null if the key does not exist
+   */
+  read(key: string): Promise<Buffer | null>;
+
+  /**
+   * Delete a file (no-op if the key does not exist)
+   */
+  delete(key: string): Promise<void>;
+}
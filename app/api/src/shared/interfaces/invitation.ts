@@ -0,0 +1,53 @@
+import type {
+  Invitation,
+  InvitationCreateInput,
+  InvitationStatus,
+  InvitationUpdateInput,
+  InvitationWithRelations,
+} from '@shared/models/invitation';
+import type { User, UserCreateInput } from '@shared/models/user';
+import type { IBaseStore } from '@shared/stores/baseStore';
+import type { PaginatedResponse, PaginationParams } from './pagination';
+
+// Filter parameters for invitation queries
+export interface InvitationFilterParams {
+  status?: InvitationStatus;
+  email?: string;
+}
+
+/**
+ * Store for onboarding invitations
+ *
+ * An invitation can be accepted while it is not accepted, not revoked and
+ * not expired. Inviting the same email again revokes the previous pending
+ * invitations, so only the latest link works.
+ */
+export interface IInvitationStore
+  extends IBaseStore<Invitation, InvitationCreateInput, InvitationUpdateInput> {
+  createInvitation(
+    data: InvitationCreateInput,
+  ): Promise<InvitationWithRelations>;
+  findByTokenHash(tokenHash: string): Promise<Invitation | null>;
+  findPaginatedInvitations(
+    params: PaginationParams,
+    filters?: InvitationFilterParams,
+  ): Promise<PaginatedResponse<InvitationWithRelations>>;
+  /**
+   * Revokes every pending invitation sent to the email
+   *
+   * @returns Number of revoked invitations
+   */
+  revokePendingByEmail(email: string): Promise<number>;
+  revoke(id: string): Promise<InvitationWithRelations>;
+  /**
+   * Claims the invitation if it is still pending and creates the invited
+   * user, in a single transaction
+   *
+   * The claim comes first, so a revoked or expired invitation never grants
+   * an account, and two concurrent accepts cannot both succeed. If the user
+   * cannot be created the invitation stays pending.
+   *
+   * @returns Created user, or null if the invitation was no longer pending
+   */
+  acceptWithNewUser(id: string, user: UserCreateInput): Promise<User | null>;
+}
@@ -0,0 +1,30 @@
+/**
+ * IInvitationNotifier - Invitation delivery interface
+ *
+ * Delivers the invite link to the invited person. InvitationService depends
+ * only on this interface, so the link can be sent by email (default) or any
+ * other channel without changing the onboarding flow.
+ *
+ * Implementations:
+ * - EmailInvitationNotifier (IMailTransport; with MAIL_TRANSPORT=console
+ *   the link is logged to the console in development)
+ */
+
+import type { UserRole } from '@shared/models/user';
+
+export interface InvitationNotification {
+  email: string;
+  role: UserRole;
+  invitedByName: string;
+  inviteUrl: string;
+  expiresAt: Date;
+}
+
+export interface IInvitationNotifier {
+  /**
+   * Send the invite link to the invited person
+   *
+   * @throws Error if the link could not be delivered
+   */
+  sendInvitation(notification: InvitationNotification): Promise<void>;
+}
@@ -0,0 +1,50 @@
+/**
+ * IMailTransport - Email Transport Interface
+ *
+ * Provider-agnostic abstraction for delivering emails.
+ * Email handlers depend only on this interface, so switching from the
+ * console transport (development) to SMTP (MailHog locally, real relay in
+ * production) is a matter of configuration.
+ *
+ * Implementations:
+ * - SmtpMailTransport (nodemailer, MAIL_TRANSPORT=smtp)
+ * - ConsoleMailTransport (logs and optionally writes .html files, MAIL_TRANSPORT=console)
+ *
+ * @example
+ * await mailTransport.send({
+ *   to: 'joao@example.com',
+ *   subject: 'Vacina Agendada',
+ *   html: '<p>Sua vacina foi agendada.</p>',
+ *   text: 'Sua vacina foi agendada.',
+ * });
+ */
+
+/**
+ * Rendered email content (output of a template)
+ */
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Email ready to be delivered
+ */
+export interface MailMessage extends EmailContent {
+  to: string;
+}
+
+export interface IMailTransport {
+  /**
+   * Transport identifier used in logs (e.g., 'smtp', 'console')
+   */
+  readonly name: string;
+
+  /**
+   * Deliver a single email
+   *
+   * @throws Error if the transport fails to deliver the message
+   */
+  send(message: MailMessage): Promise<void>;
+}
@@ -118,6 +118,20 @@ export interface INotificationStore {
    * @returns Number of notifications deleted
    */
   deleteReadNotifications(userId: string): Promise<number>;
+
+  /**
+   * Find notifications created after a given notification
+   *
+   * @param userId - User ID
+   * @param notificationId - Last notification received by the client
+   * @param limit - Maximum number of notifications returned
+   * @returns Notifications ordered by createdAt ASC
+   */
+  findCreatedAfter(
+    userId: string,
+    notificationId: string,
+    limit: number,
+  ): Promise<Notification[]>;
 }
 
 export type { NotificationFilterParams };
@@ -0,0 +1,39 @@
+/**
+ * INotificationStream - Real-time notification fan-out
+ *
+ * Publishes notification changes to the clients connected to
+ * GET /notifications/stream (Server-Sent Events).
+ *
+ * Messages:
+ * - notification: a notification was created for the user
+ * - unread-count: the user's unread count changed
+ */
+
+import type { Notification } from '@shared/models/notification';
+
+export type NotificationStreamMessage =
+  | { type: 'notification'; notification: Notification }
+  | { type: 'unread-count'; unreadCount: number };
+
+export type NotificationStreamListener = (
+  message: NotificationStreamMessage,
+) => void;
+
+export interface INotificationStream {
+  /**
+   * Publish a message to every connection of the user
+   *
+   * @param userId - Recipient user ID
+   * @param message - Message to deliver
+   */
+  publish(userId: string, message: NotificationStreamMessage): void;
+
+  /**
+   * Listen to the messages of a user
+   *
+   * @param userId - User ID
+   * @param listener - Called for each published message
+   * @returns Function that removes the listener
+   */
+  subscribe(userId: string, listener: NotificationStreamListener): () => void;
+}
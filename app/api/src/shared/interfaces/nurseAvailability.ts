@@ -0,0 +1,30 @@
+import type {
+  NurseAvailability,
+  NurseAvailabilityCreateInput,
+  NurseAvailabilityUpdateInput,
+  NurseAvailabilityWithNurse,
+} from '@shared/models/nurseAvailability';
+import type { IBaseStore } from '@shared/stores/baseStore';
+
+// Store interface extending IBaseStore
+export interface INurseAvailabilityStore
+  extends IBaseStore<
+    NurseAvailability,
+    NurseAvailabilityCreateInput,
+    NurseAvailabilityUpdateInput
+  > {
+  findByNurseId(nurseId: string): Promise<NurseAvailability[]>;
+
+  /**
+   * Replaces the weekly template of a nurse in a single transaction
+   */
+  replaceForNurse(
+    nurseId: string,
+    data: Omit<NurseAvailabilityCreateInput, 'nurseId'>[],
+  ): Promise<NurseAvailability[]>;
+
+  /**
+   * Templates of a weekday, restricted to active, non-deleted nurses
+   */
+  findByWeekday(weekday: number): Promise<NurseAvailabilityWithNurse[]>;
+}
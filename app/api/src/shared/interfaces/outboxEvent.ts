@@ -0,0 +1,70 @@
+import type {
+  DeadLetterEvent,
+  DeadLetterEventCreateInput,
+  DeadLetterEventUpdateInput,
+  DeadLetterEventWithRelations,
+  HandlerFailure,
+  OutboxEvent,
+  OutboxEventCreateInput,
+  OutboxEventRetryInput,
+  OutboxEventUpdateInput,
+} from '@shared/models/outboxEvent';
+import type { IBaseStore } from '@shared/stores/baseStore';
+import type { PaginatedResponse, PaginationParams } from './pagination';
+
+// Store interface extending IBaseStore
+export interface IOutboxEventStore
+  extends IBaseStore<
+    OutboxEvent,
+    OutboxEventCreateInput,
+    OutboxEventUpdateInput
+  > {
+  /**
+   * Atomically claims up to `limit` events ready for delivery (PENDING and due,
+   * or PROCESSING with a lock older than `staleBefore`) and marks them PROCESSING
+   */
+  claimDue(limit: number, staleBefore: Date): Promise<OutboxEvent[]>;
+  markProcessed(id: string, attempts: number): Promise<OutboxEvent>;
+  scheduleRetry(id: string, data: OutboxEventRetryInput): Promise<OutboxEvent>;
+  /**
+   * Marks the event as DEAD_LETTERED and records one dead letter per failed handler
+   */
+  moveToDeadLetter(
+    event: OutboxEvent,
+    failures: HandlerFailure[],
+    attempts: number,
+  ): Promise<void>;
+}
+
+// Filter parameters for dead letter queries
+export interface DeadLetterEventFilterParams {
+  eventName?: string;
+  handlerName?: string;
+  replayed?: boolean;
+}
+
+// Store interface extending IBaseStore
+export interface IDeadLetterEventStore
+  extends IBaseStore<
+    DeadLetterEvent,
+    DeadLetterEventCreateInput,
+    DeadLetterEventUpdateInput
+  > {
+  findByIdWithRelations(
+    id: string,
+  ): Promise<DeadLetterEventWithRelations | null>;
+  findPaginated(
+    params: PaginationParams,
+    filters?: DeadLetterEventFilterParams,
+  ): Promise<PaginatedResponse<DeadLetterEventWithRelations>>;
+  /**
+   * Marks the dead letter as replayed and enqueues a new outbox event that
+   * targets only its handler, in a single transaction
+   *
+   * @returns null if the dead letter does not exist or was already replayed
+   */
+  replay(
+    id: string,
+    replayedById: string,
+  ): Promise<DeadLetterEventWithRelations | null>;
+}
@@ -33,6 +33,11 @@ export interface PaginationParams {
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * SortParams - Sorting of unpaginated queries (e.g. list exports)
+ */
+export type SortParams = Pick<PaginationParams, 'sortBy' | 'sortOrder'>;
+
 /**
  * PaginationMetadata - Response metadata for paginated results
  *
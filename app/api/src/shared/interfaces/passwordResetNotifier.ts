@@ -0,0 +1,27 @@
+/**
+ * IPasswordResetNotifier - Password reset delivery interface
+ *
+ * Delivers the password reset link to the user. AuthService depends only on
+ * this interface, so the link can be sent by email (default), SMS or any
+ * other channel without changing the reset flow.
+ *
+ * Implementations:
+ * - EmailPasswordResetNotifier (IMailTransport; with MAIL_TRANSPORT=console
+ *   the link is logged to the console in development)
+ */
+
+export interface PasswordResetNotification {
+  name: string;
+  email: string;
+  resetUrl: string;
+  expiresAt: Date;
+}
+
+export interface IPasswordResetNotifier {
+  /**
+   * Send the reset link to the user
+   *
+   * @throws Error if the link could not be delivered
+   */
+  sendResetLink(notification: PasswordResetNotification): Promise<void>;
+}
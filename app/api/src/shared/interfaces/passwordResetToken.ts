@@ -0,0 +1,35 @@
+import type {
+  PasswordResetToken,
+  PasswordResetTokenCreateInput,
+  PasswordResetTokenUpdateInput,
+} from '@shared/models/passwordResetToken';
+import type { IBaseStore } from '@shared/stores/baseStore';
+
+/**
+ * Store for password reset tokens
+ *
+ * A token can be used while it is unused and not expired. Requesting a new
+ * reset invalidates the previous ones, so only the latest link works.
+ */
+export interface IPasswordResetTokenStore
+  extends IBaseStore<
+    PasswordResetToken,
+    PasswordResetTokenCreateInput,
+    PasswordResetTokenUpdateInput
+  > {
+  findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null>;
+  /**
+   * Marks the token as used if it is still unused and not expired
+   *
+   * Two concurrent resets with the same token cannot both succeed.
+   *
+   * @returns True if the token was consumed now
+   */
+  consume(id: string): Promise<boolean>;
+  /**
+   * Marks every unused token of the user as used
+   *
+   * @returns Number of invalidated tokens
+   */
+  invalidateAllForUser(userId: string): Promise<number>;
+}
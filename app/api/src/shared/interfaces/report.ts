@@ -0,0 +1,28 @@
+import type { Report, ReportType } from '@infrastructure/database';
+import type {
+  ReportCreateInput,
+  ReportSummary,
+  ReportUpdateInput,
+  ReportWithRelations,
+} from '@shared/models/report';
+import type { IBaseStore } from '@shared/stores/baseStore';
+import type { PaginatedResponse, PaginationParams } from './pagination';
+
+// Filter parameters for report queries
+export interface ReportFilterParams {
+  type?: ReportType;
+  generatedById?: string;
+  userId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+// Store interface extending IBaseStore
+export interface IReportStore
+  extends IBaseStore<Report, ReportCreateInput, ReportUpdateInput> {
+  findByIdWithRelations(id: string): Promise<ReportWithRelations | null>;
+  findPaginatedReports(
+    params: PaginationParams,
+    filters?: ReportFilterParams,
+  ): Promise<PaginatedResponse<ReportSummary>>;
+}
@@ -0,0 +1,31 @@
+import type {
+  SentReminder,
+  SentReminderCreateInput,
+  SentReminderUpdateInput,
+} from '@shared/models/sentReminder';
+import type { IBaseStore } from '@shared/stores/baseStore';
+
+/**
+ * Store for reminders already delivered
+ *
+ * Each reminder has a deterministic key (e.g. `scheduling:<id>:24h`), so
+ * the reminder job can run as often as needed without notifying the same
+ * appointment or dose twice.
+ */
+export interface ISentReminderStore
+  extends IBaseStore<
+    SentReminder,
+    SentReminderCreateInput,
+    SentReminderUpdateInput
+  > {
+  /**
+   * Registers a reminder key if it was never registered before
+   *
+   * Relies on the unique constraint of reminderKey, so concurrent runs
+   * cannot both claim the same reminder.
+   *
+   * @returns True if the key was registered now (reminder must be sent),
+   * false if it already existed
+   */
+  registerIfAbsent(reminderKey: string, userId: string): Promise<boolean>;
+}
@@ -0,0 +1,63 @@
+import type {
+  PaginatedResponse,
+  PaginationParams,
+} from '@shared/interfaces/pagination';
+import type {
+  StockMovement,
+  StockMovementCreateInput,
+  StockMovementType,
+  StockMovementUpdateInput,
+  StockMovementWithBatch,
+  StockMovementWithCreator,
+} from '@shared/models/stockMovement';
+import type { IBaseStore } from '@shared/stores/baseStore';
+
+/**
+ * Filter parameters for querying stock movements
+ */
+export interface StockMovementFilterParams {
+  type?: StockMovementType;
+  vaccineId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Store for the stock ledger
+ *
+ * Movements are append-only: they are written by the batch and application
+ * stores in the same transaction that changes the batch quantity (see
+ * recordStockMovement) and are never updated.
+ */
+export interface IStockMovementStore
+  extends IBaseStore<
+    StockMovement,
+    StockMovementCreateInput,
+    StockMovementUpdateInput
+  > {
+  /**
+   * Movement history of a batch, newest first by default
+   */
+  findPaginatedByBatchId(
+    batchId: string,
+    params: PaginationParams,
+    filters?: StockMovementFilterParams,
+  ): Promise<PaginatedResponse<StockMovementWithCreator>>;
+
+  /**
+   * Sum of the movements of each batch (the quantity the ledger expects)
+   *
+   * @returns Map of batchId to balance. Batches without movements are absent.
+   */
+  getBalancesByBatch(batchIds?: string[]): Promise<Map<string, number>>;
+
+  /**
+   * Doses written off (DISCARD and EXPIRY movements), oldest first
+   *
+   * @param filters - Optional vaccine and period (type is ignored)
+   * @returns Movements with their vaccine and batch number
+   */
+  findWriteOffs(
+    filters?: StockMovementFilterParams,
+  ): Promise<StockMovementWithBatch[]>;
+}
@@ -67,6 +67,15 @@ export interface IUserStore
   countByRole(role: 'EMPLOYEE' | 'NURSE' | 'MANAGER'): Promise<number>;
   countActive(): Promise<number>;
 
+  /**
+   * Creates several users in a single transaction: either all of them are
+   * created or none (e.g. a unique constraint fails)
+   *
+   * @param data - Users to create, passwords already hashed
+   * @returns Created users, in the same order
+   */
+  createMany(data: UserCreateInput[]): Promise<User[]>;
+
   /**
    * Finds users with pagination, sorting, and optional filtering
    *
@@ -0,0 +1,55 @@
+import type { SessionRevocationReason } from '@infrastructure/database';
+import type {
+  UserSession,
+  UserSessionCreateInput,
+  UserSessionUpdateInput,
+} from '@shared/models/userSession';
+import type { IBaseStore } from '@shared/stores/baseStore';
+
+/**
+ * Store for login sessions and their refresh tokens
+ *
+ * A session is active while it is neither revoked nor expired. Access tokens
+ * carry the session id (`sid`), so revoking a session also invalidates the
+ * access tokens issued for it.
+ */
+export interface IUserSessionStore
+  extends IBaseStore<
+    UserSession,
+    UserSessionCreateInput,
+    UserSessionUpdateInput
+  > {
+  findActiveById(id: string): Promise<UserSession | null>;
+  findActiveByUser(userId: string): Promise<UserSession[]>;
+  findByRefreshTokenHash(refreshTokenHash: string): Promise<UserSession | null>;
+  /**
+   * Finds the session whose last rotated-out token has this hash
+   */
+  findByPreviousTokenHash(
+    previousTokenHash: string,
+  ): Promise<UserSession | null>;
+  /**
+   * Replaces the refresh token of an active session
+   *
+   * Only succeeds if the session still holds `currentHash`, so two concurrent
+   * refreshes with the same token cannot both rotate it.
+   *
+   * @returns True if the token was rotated
+   */
+  rotate(id: string, currentHash: string, nextHash: string): Promise<boolean>;
+  /**
+   * @returns True if the session was active and is now revoked
+   */
+  revoke(id: string, reason: SessionRevocationReason): Promise<boolean>;
+  /**
+   * Revokes every active session of the user
+   *
+   * @param exceptId - Session kept active (e.g. the one making the request)
+   * @returns Number of revoked sessions
+   */
+  revokeAllForUser(
+    userId: string,
+    reason: SessionRevocationReason,
+    exceptId?: string,
+  ): Promise<number>;
+}
@@ -0,0 +1,24 @@
+import type {
+  VaccinationCertificate,
+  VaccinationCertificateCreateInput,
+  VaccinationCertificateUpdateInput,
+} from '@shared/models/vaccinationCertificate';
+import type { IBaseStore } from '@shared/stores/baseStore';
+
+/**
+ * Store for vaccination certificates
+ *
+ * Certificates are revoked when one of their applications is voided, see
+ * IVaccineApplicationStore.voidApplicationAndRestoreStock.
+ */
+export interface IVaccinationCertificateStore
+  extends IBaseStore<
+    VaccinationCertificate,
+    VaccinationCertificateCreateInput,
+    VaccinationCertificateUpdateInput
+  > {
+  createCertificate(
+    data: VaccinationCertificateCreateInput,
+  ): Promise<VaccinationCertificate>;
+  findByVerificationCode(code: string): Promise<VaccinationCertificate | null>;
+}
@@ -4,7 +4,11 @@ import type {
   VaccineUpdateInput,
 } from '@shared/models/vaccine';
 import type { IBaseStore } from '@shared/stores/baseStore';
-import type { PaginatedResponse, PaginationParams } from './pagination';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+  SortParams,
+} from './pagination';
 
 export interface VaccineFilterParams {
   /** Filter by manufacturer name */
@@ -28,6 +32,13 @@ export interface IVaccineStore
     params: PaginationParams,
     filters?: VaccineFilterParams,
   ): Promise<PaginatedResponse<Vaccine>>;
+  /**
+   * Same filters as findPaginatedVaccines, without pagination, read in batches
+   */
+  findVaccinesForExport(
+    sort: SortParams,
+    filters?: VaccineFilterParams,
+  ): AsyncIterable<Vaccine[]>;
   findMandatoryVaccinesNotTakenByUser(userId: string): Promise<Vaccine[]>;
   findOptionalVaccinesNotTakenByUser(userId: string): Promise<Vaccine[]>;
 
@@ -1,12 +1,21 @@
 import type { VaccineApplication } from '@infrastructure/database';
+import type { OutboxEventCreateInput } from '@shared/models/outboxEvent';
 import type { Vaccine } from '@shared/models/vaccine';
 import type {
+  BatchRecipient,
   VaccineApplicationCreateInput,
+  VaccineApplicationDetailed,
   VaccineApplicationUpdateInput,
+  VaccineApplicationVoidInput,
   VaccineApplicationWithRelations,
+  VoidedVaccineApplication,
 } from '@shared/models/vaccineApplication';
 import type { IBaseStore } from '@shared/stores/baseStore';
-import type { PaginatedResponse, PaginationParams } from './pagination';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+  SortParams,
+} from './pagination';
 
 export interface VaccineApplicationFilterParams {
   userId?: string;
@@ -26,16 +35,40 @@ export interface IVaccineApplicationStore
   > {
   createApplicationAndDecrementStock(
     data: VaccineApplicationCreateInput,
+    buildOutboxEvent?: (
+      application: VaccineApplication,
+    ) => OutboxEventCreateInput,
   ): Promise<VaccineApplication>;
+  /**
+   * Voids an application: soft-deletes it, writes the audit record, returns
+   * the dose to its batch (ADJUSTMENT movement), reopens its scheduling and
+   * revokes the certificates listing it, all in one transaction
+   */
+  voidApplicationAndRestoreStock(
+    application: VaccineApplication,
+    data: VaccineApplicationVoidInput,
+  ): Promise<VoidedVaccineApplication>;
   findByUserAndVaccine(
     userId: string,
     vaccineId: string,
   ): Promise<VaccineApplication[]>;
   findByUserId(userId: string): Promise<VaccineApplicationWithRelations[]>;
+  findRecipientsByBatchId(batchId: string): Promise<BatchRecipient[]>;
+  findApplications(
+    filters?: VaccineApplicationFilterParams,
+  ): Promise<VaccineApplicationDetailed[]>;
   findPaginatedApplications(
     params: PaginationParams,
     filters?: VaccineApplicationFilterParams,
   ): Promise<PaginatedResponse<VaccineApplication>>;
+  /**
+   * Same filters as findPaginatedApplications, without pagination, read in
+   * batches for exports
+   */
+  findApplicationsForExport(
+    sort: SortParams,
+    filters?: VaccineApplicationFilterParams,
+  ): AsyncIterable<VaccineApplicationDetailed[]>;
   existsByUserVaccineDose(
     userId: string,
     vaccineId: string,
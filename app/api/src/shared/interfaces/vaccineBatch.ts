@@ -1,9 +1,20 @@
 import type { VaccineBatch, BatchStatus } from '@infrastructure/database';
-import type { PaginatedResponse, PaginationParams } from './pagination';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+  SortParams,
+} from './pagination';
 import type { IBaseStore } from '@shared/stores/baseStore';
+import type { BatchStockChange } from '@shared/models/stockMovement';
+import type { OutboxEventCreateInput } from '@shared/models/outboxEvent';
 import type {
+  BatchQuarantine,
+  BatchQuarantineInput,
+  BatchQuarantineResult,
   VaccineBatchCreateInput,
   VaccineBatchUpdateInput,
+  VaccineBatchWithCreator,
+  VaccineBatchWithVaccine,
 } from '@shared/models/vaccineBatch';
 
 /**
@@ -21,6 +32,8 @@ export interface VaccineBatchFilterParams {
    * - EXPIRED: Batch has passed expiration date
    * - DEPLETED: Batch quantity is 0
    * - DISCARDED: Batch was manually discarded
+   * - QUARANTINED: Batch is suspended while under investigation
+   * - RECALLED: Batch was recalled by the manufacturer
    */
   status?: BatchStatus;
 
@@ -82,6 +95,11 @@ export interface VaccineBatchStatistics {
    */
   discardedBatches: number;
 
+  /**
+   * Number of batches that are QUARANTINED or RECALLED
+   */
+  quarantinedBatches: number;
+
   /**
    * Number of batches expiring within next 30 days
    */
@@ -153,24 +171,128 @@ export interface IVaccineBatchStore
     filters?: VaccineBatchFilterParams,
   ): Promise<PaginatedResponse<VaccineBatch>>;
 
+  /**
+   * Finds every batch matching the filters, in batches of rows, for exports
+   *
+   * @param sort - Same sorting as findPaginatedBatches
+   * @param filters - Same filter criteria as findPaginatedBatches
+   */
+  findBatchesForExport(
+    sort: SortParams,
+    filters?: VaccineBatchFilterParams,
+  ): AsyncIterable<VaccineBatchWithCreator[]>;
+
   // ==========================================
   // STOCK MANAGEMENT
   // ==========================================
 
+  /**
+   * Creates a batch and records its receipt in the stock ledger
+   * Also increments the vaccine's totalStock, all in one transaction
+   *
+   * @param data - Batch data (currentQuantity is the received quantity)
+   * @returns Created batch
+   *
+   * @example
+   * const batch = await batchStore.createWithReceipt({
+   *   batchNumber: 'LOT-2024-001',
+   *   initialQuantity: 100,
+   *   currentQuantity: 100,
+   *   ...
+   * });
+   */
+  createWithReceipt(data: VaccineBatchCreateInput): Promise<VaccineBatch>;
+
+  /**
+   * Applies a stock change to a batch and records it in the stock ledger
+   *
+   * The batch update, the vaccine's totalStock adjustment and the stock
+   * movement are written in the same transaction. Every change to
+   * currentQuantity must go through this method (or the ones built on it).
+   *
+   * @param id - Batch UUID
+   * @param change - Movement type, signed quantity and who/why
+   * @param data - Other fields to update along with the quantity (e.g. status)
+   * @returns Updated batch
+   * @throws Error if quantity would go negative
+   *
+   * @example
+   * // Manual correction: 3 doses missing in the count
+   * await batchStore.applyStockChange('batch-id', {
+   *   type: 'ADJUSTMENT',
+   *   quantity: -3,
+   *   reason: 'Inventory count',
+   *   createdById: 'manager-id',
+   * });
+   */
+  applyStockChange(
+    id: string,
+    change: BatchStockChange,
+    data?: VaccineBatchUpdateInput,
+  ): Promise<VaccineBatch>;
+
+  /**
+   * Quarantines or recalls a batch in a single transaction
+   *
+   * 1. Sets the status to QUARANTINED or RECALLED (its doses leave totalStock)
+   * 2. Cancels the pending schedulings of the vaccine that the remaining
+   *    stock no longer covers, latest scheduled date first
+   * 3. Writes the BatchQuarantine record
+   * 4. Writes the event built by buildOutboxEvent, if given, to the outbox
+   *
+   * The vaccine row is locked like in createSchedulingWithStockValidation,
+   * so no scheduling is booked against the doses being removed.
+   *
+   * @param id - Batch UUID
+   * @param data - Quarantine or recall, reason and author
+   * @param buildOutboxEvent - Builds the event to publish from the result
+   */
+  quarantineBatch(
+    id: string,
+    data: BatchQuarantineInput,
+    buildOutboxEvent?: (
+      result: BatchQuarantineResult,
+    ) => OutboxEventCreateInput,
+  ): Promise<BatchQuarantineResult>;
+
+  /**
+   * Lifts the quarantine of a batch
+   *
+   * The batch becomes AVAILABLE (DEPLETED without doses), its doses count
+   * towards totalStock again and the open quarantine record is closed.
+   *
+   * @param id - Batch UUID (must be QUARANTINED)
+   * @param releasedById - ID of the user lifting the quarantine
+   */
+  releaseQuarantine(id: string, releasedById: string): Promise<VaccineBatch>;
+
+  /**
+   * Quarantine and recall history of a batch, newest first
+   */
+  findQuarantinesByBatchId(batchId: string): Promise<BatchQuarantine[]>;
+
   /**
    * Decrements the current quantity of a batch
    * Automatically updates status to DEPLETED if quantity reaches 0
    *
    * @param id - Batch UUID
    * @param quantity - Amount to decrement
+   * @param movement - Movement type and who/why, recorded in the stock ledger
    * @returns Updated batch
    * @throws Error if quantity would go negative
    *
    * @example
-   * // After vaccine application
-   * const batch = await batchStore.decrementQuantity('batch-id', 1);
+   * const batch = await batchStore.decrementQuantity('batch-id', 2, {
+   *   type: 'DISCARD',
+   *   reason: 'Broken vials',
+   *   createdById: 'manager-id',
+   * });
    */
-  decrementQuantity(id: string, quantity: number): Promise<VaccineBatch>;
+  decrementQuantity(
+    id: string,
+    quantity: number,
+    movement: Omit<BatchStockChange, 'quantity'>,
+  ): Promise<VaccineBatch>;
 
   /**
    * Increments the current quantity of a batch
@@ -178,13 +300,21 @@ export interface IVaccineBatchStore
    *
    * @param id - Batch UUID
    * @param quantity - Amount to increment
+   * @param movement - Movement type and who/why, recorded in the stock ledger
    * @returns Updated batch
    *
    * @example
    * // Correction or batch adjustment
-   * const batch = await batchStore.incrementQuantity('batch-id', 5);
+   * const batch = await batchStore.incrementQuantity('batch-id', 5, {
+   *   type: 'ADJUSTMENT',
+   *   createdById: 'manager-id',
+   * });
    */
-  incrementQuantity(id: string, quantity: number): Promise<VaccineBatch>;
+  incrementQuantity(
+    id: string,
+    quantity: number,
+    movement: Omit<BatchStockChange, 'quantity'>,
+  ): Promise<VaccineBatch>;
 
   /**
    * Gets the current available quantity for a batch
@@ -214,8 +344,9 @@ export interface IVaccineBatchStore
   // ==========================================
 
   /**
-   * Finds all batches that have expired (expiration date < now)
-   * but status is still AVAILABLE
+   * Finds all batches that have expired (expiration date before today)
+   * but status is still AVAILABLE. A batch stays usable through the
+   * whole of its expiration day
    *
    * @returns Array of expired batches
    *
@@ -230,17 +361,18 @@ export interface IVaccineBatchStore
    * Useful for alerts and prioritization
    *
    * @param days - Number of days from now
-   * @returns Array of batches expiring soon
+   * @returns Array of batches expiring soon, with vaccine relation included
    *
    * @example
    * // Find batches expiring in next 30 days
    * const expiringSoon = await batchStore.findBatchesExpiringSoon(30);
    */
-  findBatchesExpiringSoon(days: number): Promise<VaccineBatch[]>;
+  findBatchesExpiringSoon(days: number): Promise<VaccineBatchWithVaccine[]>;
 
   /**
    * Marks a batch as expired
-   * Updates status to EXPIRED
+   * Updates status to EXPIRED and writes off the remaining doses
+   * (EXPIRY movement)
    *
    * @param id - Batch UUID
    * @returns Updated batch
@@ -251,8 +383,8 @@ export interface IVaccineBatchStore
   markAsExpired(id: string): Promise<VaccineBatch>;
 
   /**
-   * Marks multiple batches as expired in a single transaction
-   * More efficient than marking one by one
+   * Marks multiple AVAILABLE batches as expired in a single transaction
+   * Writes off the remaining doses of each one (EXPIRY movement)
    *
    * @param ids - Array of batch UUIDs
    * @returns Number of batches updated
@@ -266,7 +398,7 @@ export interface IVaccineBatchStore
    * Checks if a batch is expired
    *
    * @param id - Batch UUID
-   * @returns True if batch expiration date is in the past
+   * @returns True if batch expiration date is before today
    *
    * @example
    * const isExpired = await batchStore.isExpired('batch-id');
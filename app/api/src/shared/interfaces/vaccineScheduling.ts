@@ -1,11 +1,17 @@
 import type { VaccineScheduling } from '@infrastructure/database';
+import type { SlotReservation } from '@shared/models/nurseAvailability';
 import type {
   VaccineSchedulingCreateInput,
+  VaccineSchedulingListItem,
   VaccineSchedulingUpdateInput,
   VaccineSchedulingWithRelations,
 } from '@shared/models/vaccineScheduling';
 import type { IBaseStore } from '@shared/stores/baseStore';
-import type { PaginatedResponse, PaginationParams } from './pagination';
+import type {
+  PaginatedResponse,
+  PaginationParams,
+  SortParams,
+} from './pagination';
 
 // Filter parameters for vaccine scheduling queries
 export interface VaccineSchedulingFilterParams {
@@ -31,6 +37,14 @@ export interface IVaccineSchedulingStore
     params: PaginationParams,
     filters?: VaccineSchedulingFilterParams,
   ): Promise<PaginatedResponse<VaccineScheduling>>;
+  /**
+   * Same filters as findPaginatedSchedulings, without pagination, read in
+   * batches for exports
+   */
+  findSchedulingsForExport(
+    sort: SortParams,
+    filters?: VaccineSchedulingFilterParams,
+  ): AsyncIterable<VaccineSchedulingListItem[]>;
   existsByUserVaccineDose(
     userId: string,
     vaccineId: string,
@@ -41,6 +55,23 @@ export interface IVaccineSchedulingStore
     vaccineId: string,
   ): Promise<VaccineScheduling[]>;
   findByVaccineId(vaccineId: string): Promise<VaccineScheduling[]>;
+  /**
+   * Finds SCHEDULED/CONFIRMED schedulings whose date falls in [from, to]
+   * Used by the reminder job
+   */
+  findUpcomingSchedulings(
+    from: Date,
+    to: Date,
+  ): Promise<VaccineSchedulingWithRelations[]>;
+  /**
+   * Finds SCHEDULED/CONFIRMED schedulings whose date falls in [from, to]
+   * Used to count the bookings of each nurse slot
+   */
+  findPendingByPeriod(from: Date, to: Date): Promise<VaccineScheduling[]>;
+  countByStatus(
+    startDate?: Date,
+    endDate?: Date,
+  ): Promise<Record<string, number>>;
   getSchedulingsByDate(
     date: Date,
     relations?: {
@@ -54,20 +85,26 @@ export interface IVaccineSchedulingStore
    * This method ensures race condition safety by:
    * 1. Locking the vaccine row (FOR UPDATE) within a transaction
    * 2. Validating available stock atomically
-   * 3. Creating the scheduling only if stock is available
+   * 3. With a slot, locking the nurse row and recounting the pending
+   *    schedulings of the nurse in that slot
+   * 4. Creating the scheduling only if stock and slot are available
    *
    * The entire operation is wrapped in a database transaction to guarantee
    * that no other concurrent request can create a scheduling for the same
-   * vaccine between the stock check and scheduling creation.
+   * vaccine (or the same nurse slot) between the checks and scheduling
+   * creation.
    *
    * @param data - Vaccine scheduling creation data
    * @param vaccineId - ID of the vaccine to validate stock for
+   * @param slot - Slot of the assigned nurse taken by the scheduling
    * @returns Created vaccine scheduling
    * @throws InsufficientStockError if no available doses
    * @throws VaccineNotFoundError if vaccine not found or deleted
+   * @throws SlotUnavailableError if the slot is already full
    */
   createSchedulingWithStockValidation(
     data: VaccineSchedulingCreateInput,
     vaccineId: string,
+    slot?: SlotReservation,
   ): Promise<VaccineScheduling>;
 }
@@ -4,12 +4,19 @@
  * This middleware validates JWT tokens from the Authorization header
  * and attaches the decoded user data to req.user for downstream handlers.
  *
+ * Tokens are bound to a login session (`sid` claim), which must still be
+ * active: logout, session revocation, user deactivation and deletion take
+ * effect immediately instead of waiting for the token to expire.
+ *
  */
 
+import { TOKENS } from "@infrastructure/di/tokens";
 import { verifyToken, TokenValidationError } from "@shared/helpers/tokenHelper";
+import type { IUserSessionStore } from "@shared/interfaces/userSession";
 import { NextFunction, Response, Request } from "express";
 import { TokenExpiredError, JsonWebTokenError } from "jsonwebtoken";
 import { env } from 'node:process';
+import { container } from "tsyringe";
 
 interface AuthErrorResponse {
   error: string;
@@ -27,16 +34,17 @@ interface AuthErrorResponse {
  * @security
  * - Validates Bearer token format
  * - Verifies JWT signature and expiration
+ * - Verifies the token's session is still active (not revoked/expired)
  * - Attaches decoded payload to req.user (NOT req.body.user)
  * - Prevents privilege escalation via client-controlled req.body
  *
  * @returns 401 Unauthorized if authentication fails
  */
-export const authMiddleware = (
+export const authMiddleware = async (
   req: Request,
   res: Response,
   next: NextFunction,
-): void => {
+): Promise<void> => {
   const authHeader = req.headers?.authorization;
 
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
@@ -65,6 +73,32 @@ export const authMiddleware = (
   try {
     const decoded = verifyToken(token);
 
+    // Tokens issued before sessions existed have no sid and are rejected
+    if (!decoded.sid) {
+      throw new TokenValidationError("Token is not bound to a session");
+    }
+
+    const userSessionStore = container.resolve<IUserSessionStore>(
+      TOKENS.IUserSessionStore,
+    );
+    const session = await userSessionStore.findActiveById(decoded.sid);
+
+    if (!session || session.userId !== decoded.userId) {
+      const response: AuthErrorResponse = {
+        error: "Unauthorized",
+        message: "Session has ended. Please login again.",
+        code: "SESSION_REVOKED",
+      };
+
+      if (env.NODE_ENV === "production") {
+        res.status(401).json({ error: "Unauthorized" });
+        return;
+      }
+
+      res.status(401).json(response);
+      return;
+    }
+
     req.user = decoded;
 
     console.log(`Authenticated request for user ${decoded.userId}`);
@@ -0,0 +1,72 @@
+/**
+ * Permission middleware for route-level authorization
+ *
+ * Must run after authMiddleware. Loads the authenticated user and checks
+ * that their role grants the permission (see ROLE_PERMISSIONS), so routes
+ * reserved to some roles are rejected before reaching the controller.
+ *
+ * The role is read from the database on every request instead of the
+ * token, so a role change takes effect immediately.
+ *
+ * Services keep their own guards (assertPermission) for rules that depend
+ * on the data (e.g. own records), this middleware only covers the route.
+ */
+
+import { TOKENS } from '@infrastructure/di/tokens';
+import { ForbiddenError } from '@modules/user/errors';
+import type { Permission } from '@shared/constants/permissions';
+import { assertPermission } from '@shared/helpers/permissionHelper';
+import type { IUserStore } from '@shared/interfaces/user';
+import type { NextFunction, Request, Response } from 'express';
+import { container } from 'tsyringe';
+
+/**
+ * Requires the authenticated user to have a permission
+ *
+ * @param permission - Permission required by the route
+ * @returns Middleware function
+ *
+ * @example
+ * router.post(
+ *   '/',
+ *   authMiddleware,
+ *   requirePermission(Permissions.BATCH_WRITE),
+ *   validateRequest(CreateVaccineBatchBodySchema),
+ *   controller.create.bind(controller),
+ * );
+ *
+ * @returns 401 Unauthorized if there is no authenticated user
+ * @returns 403 Forbidden if the user's role does not grant the permission
+ */
+export const requirePermission = (permission: Permission) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+  ): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    try {
+      const userStore = container.resolve<IUserStore>(TOKENS.IUserStore);
+      const user = await userStore.findById(userId);
+
+      if (!user || user.deletedAt) {
+        throw new ForbiddenError('User not found or deleted');
+      }
+
+      assertPermission(user, permission);
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,28 @@
+/**
+ * Query token middleware for EventSource endpoints
+ *
+ * The browser EventSource API cannot send an Authorization header, so
+ * streaming endpoints accept the JWT as the `token` query parameter. This
+ * middleware copies it into the Authorization header so authMiddleware
+ * validates it exactly like any other request.
+ *
+ * Must be registered right before authMiddleware, and only on routes that
+ * are consumed through EventSource.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+
+export const queryTokenMiddleware = (
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+): void => {
+  const { token } = req.query;
+
+  // A header sent by non-browser clients takes precedence
+  if (!req.headers.authorization && typeof token === 'string' && token) {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+
+  next();
+};
@@ -35,3 +35,39 @@ export const registerRateLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
 });
+
+/**
+ * Rate limiter para endpoints de recuperação de senha
+ * Previne envio em massa de emails e tentativas de adivinhar tokens
+ *
+ * Configuração:
+ * - 5 tentativas por IP a cada 15 minutos
+ */
+export const passwordResetRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutos
+  max: 5, // 5 tentativas
+  message: {
+    success: false,
+    error: 'Too many password reset attempts from this IP, please try again after 15 minutes'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Rate limiter para a verificação pública de certificados
+ * Dificulta a enumeração de códigos
+ *
+ * Configuração:
+ * - 30 verificações por IP a cada 15 minutos
+ */
+export const certificateVerifyRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutos
+  max: 30, // 30 verificações
+  message: {
+    success: false,
+    error: 'Too many certificate verifications from this IP, please try again after 15 minutes'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
@@ -0,0 +1,78 @@
+/**
+ * Upload middleware for multipart/form-data requests
+ *
+ * Parses a single file field with multer and keeps it in memory
+ * (req.file.buffer), so services decide where it is stored.
+ *
+ * Validation:
+ * - Maximum size (multer limit, the body stops being read once exceeded)
+ * - Declared content type (fast rejection, services must still check the
+ *   file content)
+ * - The field is required
+ *
+ * Multer errors are converted into ValidationError (400) so the global
+ * error handler returns them like any other validation failure.
+ */
+
+import { ValidationError } from '@modules/user/errors';
+import type { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+
+interface SingleFileUploadOptions {
+  /** Multipart field name */
+  fieldName: string;
+  /** Maximum file size in bytes */
+  maxSizeBytes: number;
+  /** Accepted content types */
+  allowedContentTypes: string[];
+}
+
+export const singleFileUpload = ({
+  fieldName,
+  maxSizeBytes,
+  allowedContentTypes,
+}: SingleFileUploadOptions) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxSizeBytes, files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (!allowedContentTypes.includes(file.mimetype)) {
+        callback(
+          new ValidationError(
+            `Invalid file type. Accepted types: ${allowedContentTypes.join(', ')}`,
+          ),
+        );
+        return;
+      }
+
+      callback(null, true);
+    },
+  }).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        next(
+          new ValidationError(
+            error.code === 'LIMIT_FILE_SIZE'
+              ? `File must be at most ${Math.floor(maxSizeBytes / 1024 / 1024)} MB`
+              : `Invalid upload: ${error.message}`,
+          ),
+        );
+        return;
+      }
+
+      if (error) {
+        next(error);
+        return;
+      }
+
+      if (!req.file) {
+        next(new ValidationError(`File field '${fieldName}' is required`));
+        return;
+      }
+
+      next();
+    });
+  };
+};
@@ -0,0 +1,92 @@
+import type {
+  BatchStatus,
+  Prisma,
+  AdverseEvent as PrismaAdverseEvent,
+  AdverseEventOutcome as PrismaAdverseEventOutcome,
+  AdverseEventSeverity as PrismaAdverseEventSeverity,
+  AdverseEventSymptom as PrismaAdverseEventSymptom,
+} from '@infrastructure/database';
+
+// DTOs (Data Transfer Objects) for API layer
+export interface CreateAdverseEventDTO {
+  applicationId: string;
+  symptoms: AdverseEventSymptom[];
+  severity: AdverseEventSeverity;
+  onsetAt: Date;
+  outcome?: AdverseEventOutcome;
+  description?: string;
+}
+
+export interface UpdateAdverseEventDTO {
+  outcome: AdverseEventOutcome;
+  description?: string;
+}
+
+// Store input types (independent of Prisma implementation)
+export interface AdverseEventCreateInput {
+  applicationId: string; // Simple ID, not Prisma connect
+  userId: string; // Patient, copied from the application
+  vaccineId: string; // Copied from the application
+  batchId: string; // Copied from the application
+  symptoms: AdverseEventSymptom[];
+  severity: AdverseEventSeverity;
+  onsetAt: Date;
+  outcome?: AdverseEventOutcome;
+  description?: string;
+  reportedById: string; // Simple ID, not Prisma connect
+}
+
+export interface AdverseEventUpdateInput {
+  outcome?: AdverseEventOutcome;
+  description?: string;
+}
+
+// Type aliases from Prisma
+export type AdverseEvent = PrismaAdverseEvent;
+export type AdverseEventSeverity = PrismaAdverseEventSeverity;
+export type AdverseEventSymptom = PrismaAdverseEventSymptom;
+export type AdverseEventOutcome = PrismaAdverseEventOutcome;
+export type AdverseEventDelegate = Prisma.AdverseEventDelegate;
+
+export type AdverseEventWithRelations = Prisma.AdverseEventGetPayload<{
+  include: {
+    application: {
+      select: {
+        id: true;
+        applicationDate: true;
+        doseNumber: true;
+      };
+    };
+    user: { select: { id: true; name: true; email: true } };
+    vaccine: { select: { id: true; name: true; manufacturer: true } };
+    batch: { select: { id: true; batchNumber: true; status: true } };
+    reportedBy: { select: { id: true; name: true; role: true } };
+  };
+}>;
+
+export type AdverseEventStatisticsGroupBy = 'vaccine' | 'batch';
+
+/**
+ * Adverse events of one vaccine (or one batch) against the doses applied
+ *
+ * ratePer1000Doses = totalEvents / dosesApplied * 1000, rounded to 2 decimals
+ */
+export interface AdverseEventStatisticsRow {
+  vaccineId: string;
+  vaccineName: string;
+  manufacturer: string;
+  batchId?: string; // Only when grouped by batch
+  batchNumber?: string;
+  batchStatus?: BatchStatus;
+  dosesApplied: number;
+  totalEvents: number;
+  bySeverity: Record<AdverseEventSeverity, number>;
+  ratePer1000Doses: number;
+}
+
+export interface AdverseEventStatistics {
+  groupBy: AdverseEventStatisticsGroupBy;
+  from?: Date;
+  to?: Date;
+  rows: AdverseEventStatisticsRow[];
+}
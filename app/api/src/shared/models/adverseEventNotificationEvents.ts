@@ -0,0 +1,68 @@
+/**
+ * Adverse Event Notification Events
+ *
+ * Event definitions for adverse events following immunization (ESAVI).
+ * These events are written to the outbox by the AdverseEventStore, in the
+ * same transaction as the adverse event.
+ */
+
+import type {
+  AdverseEventOutcome,
+  AdverseEventSeverity,
+  AdverseEventSymptom,
+} from '@infrastructure/database';
+import type { NotificationEvent } from './notificationEvent';
+
+// ============================================
+// Severe Adverse Event
+// ============================================
+
+/**
+ * Data payload for severe adverse event alert
+ *
+ * Emitted when an adverse event with SEVERE severity is registered.
+ * Carries the batch so managers can decide whether to quarantine it.
+ *
+ * Target audience: MANAGER role users (all managers receive this notification)
+ */
+export interface SevereAdverseEventEventData {
+  adverseEventId: string;
+  applicationId: string;
+  patientId: string;
+  patientName: string;
+  vaccineId: string;
+  vaccineName: string;
+  batchId: string;
+  batchNumber: string;
+  doseNumber: number;
+  severity: AdverseEventSeverity;
+  symptoms: AdverseEventSymptom[];
+  outcome: AdverseEventOutcome;
+  onsetAt: Date;
+  reportedById: string;
+  reportedByName: string;
+}
+
+/**
+ * Severe adverse event
+ *
+ * @example
+ * eventBus.emit<SevereAdverseEventEvent>('adverse-event.severe', {
+ *   type: 'adverse-event.severe',
+ *   channels: ['in-app', 'email'],
+ *   data: {
+ *     adverseEventId: '123',
+ *     patientName: 'Maria Santos',
+ *     vaccineName: 'COVID-19',
+ *     batchNumber: 'ABC123',
+ *     severity: 'SEVERE',
+ *     symptoms: ['ANAPHYLAXIS'],
+ *     outcome: 'HOSPITALIZED',
+ *     onsetAt: new Date(),
+ *     ...
+ *   },
+ *   priority: 'urgent'
+ * });
+ */
+export type SevereAdverseEventEvent =
+  NotificationEvent<SevereAdverseEventEventData>;
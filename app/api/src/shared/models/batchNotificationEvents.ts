@@ -5,7 +5,9 @@
  * These events are typically emitted by scheduled jobs or VaccineBatchService.
  */
 
+import type { BatchQuarantineType } from '@infrastructure/database';
 import type { NotificationEvent } from './notificationEvent';
+import type { CancelledScheduling } from './vaccineBatch';
 
 // ============================================
 // Batch Expiring Event
@@ -89,3 +91,49 @@ export interface LowStockEventData {
  * });
  */
 export type LowStockEvent = NotificationEvent<LowStockEventData>;
+
+// ============================================
+// Batch Quarantined Event
+// ============================================
+
+/**
+ * Data payload for batch quarantine/recall event
+ *
+ * Emitted when a batch is quarantined or recalled by a manager, through the
+ * outbox in the same transaction as the status change.
+ *
+ * Target audience: Every user who received a dose from the batch, and the
+ * patients whose schedulings were cancelled for lack of stock
+ */
+export interface BatchQuarantinedEventData {
+  quarantineId: string;
+  type: BatchQuarantineType;
+  batchId: string;
+  batchNumber: string;
+  vaccineId: string;
+  vaccineName: string;
+  manufacturer: string;
+  reason: string;
+  cancelledSchedulings: CancelledScheduling[];
+}
+
+/**
+ * Batch quarantined event
+ *
+ * @example
+ * eventBus.emit<BatchQuarantinedEvent>('batch.quarantined', {
+ *   type: 'batch.quarantined',
+ *   channels: ['in-app'],
+ *   data: {
+ *     type: 'RECALL',
+ *     batchNumber: 'ABC123',
+ *     vaccineName: 'COVID-19',
+ *     reason: 'Recolhimento pelo fabricante',
+ *     cancelledSchedulings: [],
+ *     ...
+ *   },
+ *   priority: 'urgent'
+ * });
+ */
+export type BatchQuarantinedEvent =
+  NotificationEvent<BatchQuarantinedEventData>;
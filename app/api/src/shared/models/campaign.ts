@@ -0,0 +1,115 @@
+import type {
+  Prisma,
+  Campaign as PrismaCampaign,
+  CampaignStatus as PrismaCampaignStatus,
+} from '@infrastructure/database';
+import type { UserRole } from './user';
+
+// DTOs (Data Transfer Objects) for API layer
+export interface CreateCampaignDTO {
+  name: string;
+  description?: string;
+  vaccineId: string;
+  doseNumber?: number;
+  targetRoles: UserRole[];
+  onlyActiveUsers?: boolean;
+  onlyMissingDoses?: boolean;
+  startDate: Date;
+  endDate: Date;
+  dailyCapacity: number;
+  nurseIds?: string[];
+}
+
+export type UpdateCampaignDTO = Partial<Omit<CreateCampaignDTO, 'vaccineId'>>;
+
+// Store input types (independent of Prisma implementation)
+export interface CampaignCreateInput {
+  name: string;
+  description?: string;
+  vaccineId: string; // Simple ID, not Prisma connect
+  doseNumber: number;
+  targetRoles: UserRole[];
+  onlyActiveUsers: boolean;
+  onlyMissingDoses: boolean;
+  startDate: Date;
+  endDate: Date;
+  dailyCapacity: number;
+  nurseIds: string[]; // Replaces the nurse list
+  createdById: string; // Simple ID, not Prisma connect
+}
+
+export interface CampaignUpdateInput {
+  name?: string;
+  description?: string;
+  doseNumber?: number;
+  targetRoles?: UserRole[];
+  onlyActiveUsers?: boolean;
+  onlyMissingDoses?: boolean;
+  startDate?: Date;
+  endDate?: Date;
+  dailyCapacity?: number;
+  nurseIds?: string[]; // Replaces the nurse list
+  status?: CampaignStatus;
+}
+
+// Type aliases from Prisma
+export type Campaign = PrismaCampaign;
+export type CampaignStatus = PrismaCampaignStatus;
+export type CampaignDelegate = Prisma.CampaignDelegate;
+
+export type CampaignWithRelations = Prisma.CampaignGetPayload<{
+  include: {
+    vaccine: {
+      select: {
+        id: true;
+        name: true;
+        manufacturer: true;
+        dosesRequired: true;
+        intervalDays: true;
+      };
+    };
+    nurses: { select: { id: true; name: true; coren: true } };
+    createdBy: { select: { id: true; name: true } };
+  };
+}>;
+
+/**
+ * Schedulings of a campaign by outcome
+ *
+ * - scheduled: SCHEDULED/CONFIRMED with a future date
+ * - noShow: SCHEDULED/CONFIRMED whose date has passed
+ * - applied: COMPLETED
+ * - completionRate = applied / (total - cancelled) * 100, rounded to 2 decimals
+ */
+export interface CampaignProgress {
+  total: number;
+  scheduled: number;
+  applied: number;
+  noShow: number;
+  cancelled: number;
+  completionRate: number;
+}
+
+export type CampaignWithProgress = CampaignWithRelations & {
+  progress: CampaignProgress;
+};
+
+/**
+ * User targeted by a campaign
+ * previousDoseAppliedAt is only set for campaigns of a dose above 1
+ */
+export interface CampaignAudienceMember {
+  id: string;
+  name: string;
+  previousDoseAppliedAt: Date | null;
+}
+
+export interface CampaignGenerationResult {
+  campaignId: string;
+  created: number;
+  skipped: {
+    previousDoseMissing: number; // Previous dose not applied
+    noCapacity: number; // No free slot left in the date window
+  };
+  stoppedByStock: boolean; // Generation stopped when the stock ran out
+}
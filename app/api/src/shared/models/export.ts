@@ -0,0 +1,25 @@
+import type { CsvValue } from '@shared/helpers/csvHelper';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * A column of an exported list
+ *
+ * Dates are written as DD/MM/YYYY HH:mm and booleans as "Sim"/"Não".
+ * Columns holding only a day format it themselves (EXPORT_DATE_FORMAT).
+ */
+export interface ExportColumn<T> {
+  header: string; // pt-BR, shown in the first line
+  value: (item: T) => CsvValue;
+  width?: number; // XLSX column width, in characters
+}
+
+/**
+ * Full result set of a list, read in batches while it is written
+ */
+export interface DataExport<T> {
+  fileName: string; // Without date and extension, e.g. "vacinas"
+  sheetName: string;
+  columns: ExportColumn<T>[];
+  batches: AsyncIterable<T[]>;
+}
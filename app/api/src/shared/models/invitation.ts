@@ -0,0 +1,73 @@
+import type {
+  Prisma,
+  Invitation as PrismaInvitation,
+} from '@infrastructure/database';
+import type { UserRole } from './user';
+
+// DTOs (Data Transfer Objects) for API layer
+export interface CreateInvitationDTO {
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * Account data filled in by the invited person. Email and role come from
+ * the invitation.
+ */
+export interface AcceptInvitationDTO {
+  name: string;
+  password: string;
+  cpf: string;
+  phone?: string;
+  coren?: string;
+}
+
+// Store input types (independent of Prisma implementation)
+export interface InvitationCreateInput {
+  email: string;
+  role: UserRole;
+  tokenHash: string; // Only the SHA-256 hash is stored, never the token
+  expiresAt: Date;
+  invitedById: string;
+}
+
+export interface InvitationUpdateInput {
+  revokedAt?: Date | null;
+}
+
+// Type aliases from Prisma
+export type Invitation = PrismaInvitation;
+export type InvitationDelegate = Prisma.InvitationDelegate;
+
+export type InvitationWithRelations = Prisma.InvitationGetPayload<{
+  include: {
+    invitedBy: { select: { id: true; name: true } };
+    acceptedUser: { select: { id: true; name: true } };
+  };
+}>;
+
+/**
+ * Derived from acceptedAt, revokedAt and expiresAt, never stored
+ */
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'EXPIRED' | 'REVOKED';
+
+// Invitation as returned by the API, without the token hash
+export type InvitationResponse = Omit<InvitationWithRelations, 'tokenHash'> & {
+  status: InvitationStatus;
+};
+
+/**
+ * What the invite link reveals before the account is created
+ */
+export interface InvitationPreview {
+  email: string;
+  role: UserRole;
+  expiresAt: Date;
+}
+
+/**
+ * Created invitation, with the link sent to the invited person
+ */
+export interface CreatedInvitation extends InvitationResponse {
+  inviteUrl: string;
+}
@@ -102,7 +102,9 @@ export type NotificationTypes =
   | 'LOW_STOCK'
   | 'SCHEDULING_CONFIRMED'
   | 'GENERAL'
-  | 'VACCINE_APPLIED';
+  | 'VACCINE_APPLIED'
+  | 'ADVERSE_EVENT'
+  | 'BATCH_RECALL';
 
 // ============================================
 // Response Types
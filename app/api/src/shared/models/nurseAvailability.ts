@@ -0,0 +1,84 @@
+import type {
+  Prisma,
+  NurseAvailability as PrismaNurseAvailability,
+} from '@infrastructure/database';
+
+// DTOs (Data Transfer Objects) for API layer
+export interface NurseAvailabilityDTO {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  breakStart?: string; // HH:mm
+  breakEnd?: string; // HH:mm
+  slotMinutes?: number;
+  maxPerSlot?: number;
+}
+
+// Store input types (independent of Prisma implementation)
+export interface NurseAvailabilityCreateInput {
+  nurseId: string;
+  weekday: number;
+  startTime: string;
+  endTime: string;
+  breakStart?: string;
+  breakEnd?: string;
+  slotMinutes: number;
+  maxPerSlot: number;
+}
+
+export type NurseAvailabilityUpdateInput = Partial<
+  Omit<NurseAvailabilityCreateInput, 'nurseId'>
+>;
+
+// Type aliases from Prisma
+export type NurseAvailability = PrismaNurseAvailability;
+export type NurseAvailabilityDelegate = Prisma.NurseAvailabilityDelegate;
+
+export type NurseAvailabilityWithNurse = Prisma.NurseAvailabilityGetPayload<{
+  include: { nurse: { select: { id: true; name: true } } };
+}>;
+
+/**
+ * Appointment slot of a nurse on a given day
+ *
+ * booked counts the pending (SCHEDULED/CONFIRMED) schedulings assigned to
+ * the nurse that start within the slot.
+ */
+export interface SchedulingSlot {
+  startTime: Date;
+  endTime: Date;
+  nurseId: string;
+  nurseName: string;
+  capacity: number;
+  booked: number;
+  available: number;
+}
+
+/**
+ * Slot taken by a new scheduling, recounted when the scheduling is created
+ */
+export type SlotReservation = Pick<
+  SchedulingSlot,
+  'nurseId' | 'startTime' | 'endTime' | 'capacity'
+>;
+
+/**
+ * Pending schedulings of a nurse on the rebalanced day, before and after
+ */
+export interface NurseWorkload {
+  nurseId: string;
+  nurseName: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * Outcome of rebalancing the nurse assignments of a day
+ */
+export interface RebalanceResult {
+  date: string; // YYYY-MM-DD
+  reassigned: number;
+  unchanged: number;
+  unassigned: number; // Left without a nurse: no slot with room at that time
+  workload: NurseWorkload[];
+}
@@ -0,0 +1,75 @@
+import type {
+  OutboxEventStatus,
+  Prisma,
+  DeadLetterEvent as PrismaDeadLetterEvent,
+  OutboxEvent as PrismaOutboxEvent,
+} from '@infrastructure/database';
+
+// Type aliases from Prisma
+export type OutboxEvent = PrismaOutboxEvent;
+export type OutboxEventDelegate = Prisma.OutboxEventDelegate;
+
+export type DeadLetterEvent = PrismaDeadLetterEvent;
+export type DeadLetterEventDelegate = Prisma.DeadLetterEventDelegate;
+
+// Store input types (independent of Prisma implementation)
+export interface OutboxEventCreateInput {
+  eventName: string;
+  payload: unknown; // Serialized to JSON by the store
+  pendingHandlers?: string[]; // Empty = every handler registered for the event
+  status?: OutboxEventStatus;
+}
+
+export interface OutboxEventUpdateInput {
+  status?: OutboxEventStatus;
+  attempts?: number;
+  pendingHandlers?: string[];
+  lastError?: string | null;
+  nextAttemptAt?: Date;
+  lockedAt?: Date | null;
+  processedAt?: Date | null;
+}
+
+/**
+ * Data used to reschedule an outbox event after a failed delivery
+ */
+export interface OutboxEventRetryInput {
+  attempts: number;
+  pendingHandlers: string[]; // Only the handlers that failed
+  lastError: string;
+  nextAttemptAt: Date;
+}
+
+/**
+ * A handler that failed to process an outbox event
+ */
+export interface HandlerFailure {
+  handlerName: string;
+  error: string;
+}
+
+export interface DeadLetterEventCreateInput {
+  eventName: string;
+  handlerName: string;
+  payload: unknown;
+  error: string;
+  attempts: number;
+  outboxEventId: string;
+}
+
+export interface DeadLetterEventUpdateInput {
+  replayedAt?: Date;
+  replayedById?: string;
+}
+
+export type DeadLetterEventWithRelations = Prisma.DeadLetterEventGetPayload<{
+  include: {
+    replayedBy: {
+      select: {
+        id: true;
+        name: true;
+        email: true;
+      };
+    };
+  };
+}>;
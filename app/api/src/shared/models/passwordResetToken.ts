@@ -0,0 +1,17 @@
+import type {
+  Prisma,
+  PasswordResetToken as PrismaPasswordResetToken,
+} from '@infrastructure/database';
+
+export type PasswordResetToken = PrismaPasswordResetToken;
+export type PasswordResetTokenDelegate = Prisma.PasswordResetTokenDelegate;
+
+export interface PasswordResetTokenCreateInput {
+  userId: string;
+  tokenHash: string; // Only the SHA-256 hash is stored, never the token
+  expiresAt: Date;
+}
+
+export interface PasswordResetTokenUpdateInput {
+  usedAt?: Date | null;
+}
@@ -0,0 +1,89 @@
+import type {
+  Prisma,
+  Report as PrismaReport,
+  ReportType,
+} from '@infrastructure/database';
+
+// DTOs (Data Transfer Objects) for API layer
+export interface GenerateReportDTO {
+  type: ReportType;
+  title?: string;
+  description?: string;
+  startDate?: string;
+  endDate?: string;
+  userId?: string;
+  vaccineId?: string;
+}
+
+export type ReportDownloadFormat = 'json' | 'csv';
+
+/**
+ * A single flat row of a report
+ *
+ * Rows are kept flat (primitive values only) so they can be exported
+ * to CSV without any knowledge about the report type.
+ */
+export type ReportRow = Record<string, string | number | boolean | null>;
+
+/**
+ * Content persisted in the `data` column of a report
+ */
+export interface ReportContent {
+  summary: Record<string, string | number | boolean | null>;
+  rows: ReportRow[];
+}
+
+export interface ReportDownload {
+  fileName: string;
+  contentType: string;
+  content: string;
+}
+
+// Store input types (independent of Prisma implementation)
+export interface ReportCreateInput {
+  title: string;
+  type: ReportType;
+  description?: string;
+  fileUrl?: string;
+  startDate?: Date;
+  endDate?: Date;
+  data?: ReportContent;
+  generatedById: string; // Simple ID, not Prisma connect
+  userId?: string; // Simple ID, not Prisma connect
+}
+
+export interface ReportUpdateInput {
+  title?: string;
+  description?: string;
+  fileUrl?: string;
+  deletedAt?: Date;
+}
+
+// Type aliases from Prisma
+export type Report = PrismaReport;
+
+export type ReportWithRelations = Prisma.ReportGetPayload<{
+  include: {
+    generatedBy: {
+      select: {
+        id: true;
+        name: true;
+        email: true;
+      };
+    };
+    user: {
+      select: {
+        id: true;
+        name: true;
+        email: true;
+      };
+    };
+  };
+}>;
+
+/**
+ * Report listing entry - the heavy `data` column is omitted
+ */
+export type ReportSummary = Omit<ReportWithRelations, 'data'>;
+
+export type ReportDelegate = Prisma.ReportDelegate;
@@ -23,7 +23,7 @@ import type { NotificationEvent } from './notificationEvent';
 export interface ReportGeneratedEventData {
   reportId: string;
   title: string;
-  type: ReportType; // GENERAL, BY_EMPLOYEE, BY_VACCINE, BY_PERIOD, COVERAGE
+  type: ReportType; // GENERAL, BY_EMPLOYEE, BY_VACCINE, BY_PERIOD, COVERAGE, WASTE
   description?: string;
   fileUrl?: string; // URL or path to download the generated file (PDF, Excel, etc.)
   generatedById: string;
@@ -0,0 +1,14 @@
+import type {
+  Prisma,
+  SentReminder as PrismaSentReminder,
+} from '@infrastructure/database';
+
+export type SentReminder = PrismaSentReminder;
+export type SentReminderDelegate = Prisma.SentReminderDelegate;
+
+export interface SentReminderCreateInput {
+  reminderKey: string;
+  userId: string;
+}
+
+export type SentReminderUpdateInput = Partial<SentReminderCreateInput>;
@@ -0,0 +1,71 @@
+import type {
+  Prisma,
+  DiscardReason as PrismaDiscardReason,
+  StockMovement as PrismaStockMovement,
+  StockMovementType as PrismaStockMovementType,
+} from '@infrastructure/database';
+
+export type StockMovement = PrismaStockMovement;
+export type StockMovementType = PrismaStockMovementType;
+export type DiscardReason = PrismaDiscardReason;
+export type StockMovementDelegate = Prisma.StockMovementDelegate;
+
+export type StockMovementWithCreator = Prisma.StockMovementGetPayload<{
+  include: {
+    createdBy: { select: { id: true; name: true; email: true } };
+  };
+}>;
+
+export type StockMovementWithBatch = Prisma.StockMovementGetPayload<{
+  include: {
+    vaccine: { select: { id: true; name: true; manufacturer: true } };
+    batch: { select: { id: true; batchNumber: true } };
+  };
+}>;
+
+// Store input types (independent of Prisma implementation)
+export interface StockMovementCreateInput {
+  batchId: string;
+  vaccineId: string;
+  type: StockMovementType;
+  quantity: number; // Signed: positive adds doses, negative removes them
+  balanceAfter: number; // Batch currentQuantity after the movement
+  reason?: string;
+  discardReason?: DiscardReason;
+  applicationId?: string;
+  createdById?: string | null; // Null when recorded by a background job
+}
+
+// Movements are append-only, there is nothing to update
+export type StockMovementUpdateInput = never;
+
+/**
+ * A stock change to apply to a batch and record in the ledger
+ */
+export interface BatchStockChange {
+  type: StockMovementType;
+  quantity: number; // Signed change applied to currentQuantity
+  reason?: string;
+  discardReason?: DiscardReason;
+  applicationId?: string;
+  createdById?: string | null;
+}
+
+/**
+ * Batch whose currentQuantity differs from the sum of its movements
+ */
+export interface StockReconciliationMismatch {
+  batchId: string;
+  batchNumber: string;
+  vaccineId: string;
+  currentQuantity: number;
+  ledgerBalance: number;
+  difference: number; // currentQuantity - ledgerBalance
+}
+
+export interface StockReconciliationResult {
+  checkedBatches: number;
+  consistent: boolean;
+  mismatches: StockReconciliationMismatch[];
+  checkedAt: Date;
+}
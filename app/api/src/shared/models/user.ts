@@ -39,6 +39,7 @@ export interface UserResponse {
   role: Role;
   coren: string | null;
   isActive: boolean;
+  photoUrl: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -89,8 +90,52 @@ export interface UserUpdateInput {
   isActive?: boolean;
   role?: Role;
   coren?: string;
+  photoKey?: string | null;
+  photoContentType?: string | null;
   updatedAt?: Date;
   deletedAt?: Date;
 }
 
+/**
+ * Uploaded profile photo (multipart `photo` field)
+ */
+export interface UploadUserPhotoDTO {
+  content: Buffer;
+  contentType: string;
+}
+
+/**
+ * Profile photo read from the file storage
+ */
+export interface UserPhoto {
+  content: Buffer;
+  contentType: string;
+}
+
+/**
+ * Validation result of one employee of the CSV import
+ */
+export interface UserImportRowResult {
+  /** Line in the CSV file (the header is line 1) */
+  line: number;
+  name: string;
+  email: string;
+  role: string;
+  /** Empty when the row can be imported */
+  errors: string[];
+}
+
+/**
+ * Result of an employee CSV import
+ * On a dry run nothing is created and createdCount is 0
+ */
+export interface UserImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  createdCount: number;
+  rows: UserImportRowResult[];
+}
+
 export type UserDelegate = Prisma.UserDelegate;
@@ -0,0 +1,38 @@
+import type {
+  Prisma,
+  UserSession as PrismaUserSession,
+  SessionRevocationReason,
+} from '@infrastructure/database';
+
+export type UserSession = PrismaUserSession;
+export type UserSessionDelegate = Prisma.UserSessionDelegate;
+
+export interface UserSessionCreateInput {
+  userId: string;
+  refreshTokenHash: string; // Only the SHA-256 hash is stored, never the token
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  expiresAt: Date;
+}
+
+export interface UserSessionUpdateInput {
+  refreshTokenHash?: string;
+  previousTokenHash?: string | null;
+  rotatedAt?: Date | null;
+  lastUsedAt?: Date;
+  revokedAt?: Date | null;
+  revokedReason?: SessionRevocationReason | null;
+}
+
+/**
+ * Session as listed to its owner (token hashes are never exposed)
+ */
+export interface UserSessionResponse {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean; // Session of the access token used in the request
+}
@@ -0,0 +1,81 @@
+import type {
+  Prisma,
+  VaccinationCertificate as PrismaVaccinationCertificate,
+} from '@infrastructure/database';
+
+// DTOs (Data Transfer Objects) for API layer
+export interface IssueCertificateDTO {
+  userId: string;
+}
+
+// Store input types (independent of Prisma implementation)
+export interface VaccinationCertificateCreateInput {
+  userId: string;
+  issuedById: string;
+  payload: string;
+  verificationCode?: string; // Only for certificates printed on a vaccination card
+  issuedAt?: Date;
+  expiresAt: Date;
+  applicationIds: string[]; // Voiding any of them revokes the certificate
+}
+
+export interface VaccinationCertificateUpdateInput {
+  revokedAt?: Date | null;
+  revocationReason?: string | null;
+}
+
+// Type aliases from Prisma
+export type VaccinationCertificate = PrismaVaccinationCertificate;
+export type VaccinationCertificateDelegate =
+  Prisma.VaccinationCertificateDelegate;
+
+/**
+ * Vaccine listed on a certificate, with only what a third party needs
+ */
+export interface CertificateVaccine {
+  name: string;
+  isComplete: boolean;
+  doses: Array<{
+    doseNumber: number;
+    applicationDate: string;
+  }>;
+}
+
+/**
+ * Signed content of a certificate (stored as JSON text)
+ *
+ * Holds the minimal data shown by the public verification, never the
+ * name, CPF or email of the holder.
+ */
+export interface CertificatePayload {
+  holderInitials: string;
+  issuedAt: string;
+  expiresAt: string;
+  vaccines: CertificateVaccine[];
+}
+
+/**
+ * Derived from revokedAt and expiresAt, never stored
+ */
+export type CertificateStatus = 'VALID' | 'EXPIRED' | 'REVOKED';
+
+/**
+ * Certificate returned to the holder when it is issued
+ */
+export interface IssuedCertificate {
+  id: string;
+  code: string;
+  verifyUrl: string;
+  qrCode: string; // PNG data URL of verifyUrl
+  issuedAt: Date;
+  expiresAt: Date;
+  vaccines: CertificateVaccine[];
+}
+
+/**
+ * Public result of GET /certificates/verify/:code
+ */
+export interface CertificateVerification extends CertificatePayload {
+  status: CertificateStatus;
+  revokedAt: Date | null;
+}
@@ -1,12 +1,14 @@
 import type {
   Prisma,
   VaccineApplication as PrismaVaccineApplication,
+  VaccineApplicationVoid as PrismaVaccineApplicationVoid,
 } from '@infrastructure/database';
+import type { VaccineBatch } from './vaccineBatch';
 
 export interface CreateVaccineApplicationDTO {
   receivedById: string;
   vaccineId: string;
-  batchId: string;
+  batchId?: string; // Picked by FEFO when omitted
   doseNumber: number;
   applicationSite: string;
   observations?: string;
@@ -37,7 +39,29 @@ export interface VaccineApplicationUpdateInput {
   deletedAt?: Date;
 }
 
+export interface VaccineApplicationVoidInput {
+  reason: string;
+  voidedById: string; // Simple ID, not Prisma connect
+}
+
 export type VaccineApplication = PrismaVaccineApplication;
+export type VaccineApplicationVoid = PrismaVaccineApplicationVoid;
+
+/**
+ * Soft-deleted application with the audit record of its void
+ */
+export type VoidedVaccineApplication = VaccineApplication & {
+  voidRecord: VaccineApplicationVoid | null;
+};
+
+/**
+ * Created application plus the batch it was taken from
+ * batchAutoSelected is true when the batch was picked by FEFO
+ */
+export type CreatedVaccineApplication = VaccineApplication & {
+  batch: Pick<VaccineBatch, 'id' | 'batchNumber' | 'expirationDate'>;
+  batchAutoSelected: boolean;
+};
 export type VaccineApplicationWithRelations =
   Prisma.VaccineApplicationGetPayload<{
     include: {
@@ -58,4 +82,57 @@ export type VaccineApplicationWithRelations =
       };
     };
   }>;
+export type VaccineApplicationDetailed = Prisma.VaccineApplicationGetPayload<{
+  include: {
+    user: {
+      select: {
+        id: true;
+        name: true;
+        email: true;
+      };
+    };
+    vaccine: true;
+    batch: {
+      select: {
+        batchNumber: true;
+        expirationDate: true;
+      };
+    };
+    appliedBy: {
+      select: {
+        id: true;
+        name: true;
+        email: true;
+      };
+    };
+  };
+}>;
+/**
+ * Dose applied from a given batch, used to follow up recipients of a
+ * quarantined or recalled batch
+ */
+export type BatchRecipient = Prisma.VaccineApplicationGetPayload<{
+  select: {
+    id: true;
+    applicationDate: true;
+    doseNumber: true;
+    user: {
+      select: {
+        id: true;
+        name: true;
+        email: true;
+        phone: true;
+      };
+    };
+    _count: { select: { adverseEvents: true } };
+  };
+}>;
+/**
+ * Vaccination card rendered as PDF
+ */
+export interface VaccinationCardFile {
+  fileName: string;
+  content: Buffer;
+}
+
 export type VaccineApplicationDelegate = Prisma.VaccineApplicationDelegate;
@@ -1,7 +1,10 @@
 import type {
   Prisma,
+  BatchQuarantine as PrismaBatchQuarantine,
+  BatchQuarantineType as PrismaBatchQuarantineType,
   VaccineBatch as PrismaVaccineBatch,
 } from '@infrastructure/database';
+import type { DiscardReason } from './stockMovement';
 
 // Store input types (independent of Prisma implementation)
 export interface VaccineBatchCreateInput {
@@ -11,8 +14,8 @@ export interface VaccineBatchCreateInput {
   expirationDate: Date;
   receivedDate: Date;
   status: string;
-  vaccineId: string;     // Simple ID, not Prisma connect
-  createdById: string;   // Simple ID, not Prisma connect
+  vaccineId: string; // Simple ID, not Prisma connect
+  createdById: string; // Simple ID, not Prisma connect
 }
 
 export interface VaccineBatchUpdateInput {
@@ -29,11 +32,29 @@ export interface VaccineBatchUpdateInput {
 export type VaccineBatch = PrismaVaccineBatch;
 export type VaccineBatchDelegate = Prisma.VaccineBatchDelegate;
 
+export type VaccineBatchWithVaccine = Prisma.VaccineBatchGetPayload<{
+  include: { vaccine: true };
+}>;
+
+export type VaccineBatchWithCreator = Prisma.VaccineBatchGetPayload<{
+  include: {
+    createdBy: {
+      select: {
+        id: true;
+        name: true;
+        email: true;
+      };
+    };
+  };
+}>;
+
 export type VaccineBatchStatus =
   | 'AVAILABLE'
   | 'EXPIRED'
   | 'DEPLETED'
-  | 'DISCARDED';
+  | 'DISCARDED'
+  | 'QUARANTINED'
+  | 'RECALLED';
 
 export interface CreateVaccineBatchDTO {
   vaccineId: string;
@@ -49,4 +70,42 @@ export interface UpdateVaccineBatchDTO {
   expirationDate?: Date;
   receivedDate?: Date;
   status?: VaccineBatchStatus;
+  reason?: string; // Recorded in the stock movement of a quantity or status change
+}
+
+export interface DiscardBatchDTO {
+  quantity?: number; // Omitted: discard every remaining dose
+  reason: DiscardReason;
+  notes?: string;
+}
+
+export interface QuarantineBatchDTO {
+  reason: string;
+}
+
+export type BatchQuarantine = PrismaBatchQuarantine;
+export type BatchQuarantineType = PrismaBatchQuarantineType;
+
+// Store input types (independent of Prisma implementation)
+export interface BatchQuarantineInput {
+  type: BatchQuarantineType;
+  reason: string;
+  createdById: string; // Simple ID, not Prisma connect
+}
+
+/**
+ * Pending scheduling cancelled because the quarantined doses were reserved
+ */
+export interface CancelledScheduling {
+  id: string;
+  userId: string;
+  scheduledDate: Date;
+  doseNumber: number;
+}
+
+export interface BatchQuarantineResult {
+  batch: VaccineBatch;
+  quarantine: BatchQuarantine;
+  cancelledSchedulings: CancelledScheduling[];
+  reassignedSchedulings: number; // Pending schedulings still covered by other batches
 }
@@ -65,7 +65,7 @@ export type VaccineScheduledEvent =
  */
 export interface NurseChangedEventData {
   schedulingId: string;
-  oldNurseId: string;
+  oldNurseId?: string; // Omitted when the scheduling had no nurse
   newNurseId: string;
 }
 
@@ -90,6 +90,52 @@ export interface NurseChangedEventData {
  */
 export type NurseChangedEvent = NotificationEvent<NurseChangedEventData>;
 
+// ============================================
+// Dose Reminder Event
+// ============================================
+
+/**
+ * Data payload for dose reminder event
+ *
+ * Emitted by DoseReminderJob in two situations:
+ * - 'scheduling': an appointment (SCHEDULED/CONFIRMED) is approaching
+ * - 'dose_due': the next dose of an incomplete vaccine is due and
+ *   there is no appointment for it yet
+ */
+export interface DoseReminderEventData {
+  reminderType: 'scheduling' | 'dose_due';
+  userId: string;
+  userName: string;
+  vaccineId: string;
+  vaccineName: string;
+  doseNumber: number;
+  /** Appointment date (scheduling) or expected date of the dose (dose_due) */
+  dueDate: Date;
+  schedulingId?: string;
+}
+
+/**
+ * Dose reminder event
+ *
+ * @example
+ * eventBus.emit<DoseReminderEvent>('dose.reminder', {
+ *   type: 'dose.reminder',
+ *   channels: ['in-app'],
+ *   data: {
+ *     reminderType: 'scheduling',
+ *     userId: '123',
+ *     userName: 'João Silva',
+ *     vaccineId: '456',
+ *     vaccineName: 'Hepatite B',
+ *     doseNumber: 2,
+ *     dueDate: new Date('2025-03-10T09:00:00Z'),
+ *     schedulingId: '789',
+ *   },
+ *   priority: 'normal'
+ * });
+ */
+export type DoseReminderEvent = NotificationEvent<DoseReminderEventData>;
+
 // ============================================
 // Vaccine Applied Event (Future)
 // ============================================
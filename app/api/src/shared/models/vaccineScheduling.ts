@@ -5,6 +5,7 @@ import type {
 
 // DTOs (Data Transfer Objects) for API layer
 export interface CreateVaccineSchedulingDTO {
+  patientId?: string; // Defaults to the requesting user
   nurseId?: string;
   vaccineId: string;
   scheduledDate: string;
@@ -33,6 +34,7 @@ export interface VaccineSchedulingCreateInput {
   doseNumber: number;
   notes?: string;
   status?: 'SCHEDULED' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED';
+  campaignId?: string; // Set when generated by a vaccination campaign
 }
 
 export interface VaccineSchedulingUpdateInput {
@@ -60,4 +62,36 @@ export type VaccineSchedulingWithRelations =
     };
   }>;
 
+// Scheduling as returned by the scheduling list
+export type VaccineSchedulingListItem = Prisma.VaccineSchedulingGetPayload<{
+  include: {
+    user: {
+      select: {
+        id: true;
+        name: true;
+        email: true;
+        cpf: true;
+        role: true;
+      };
+    };
+    vaccine: {
+      select: {
+        id: true;
+        name: true;
+        manufacturer: true;
+        dosesRequired: true;
+      };
+    };
+    assignedNurse: {
+      select: {
+        id: true;
+        name: true;
+        email: true;
+        cpf: true;
+        role: true;
+      };
+    };
+  };
+}>;
+
 export type VaccineSchedulingDelegate = Prisma.VaccineSchedulingDelegate;
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+/**
+ * `?format=csv|xlsx` on list endpoints: exports the full filtered result set
+ * instead of returning a page
+ */
+export const exportFormatSchema = z
+  .enum(['csv', 'xlsx'], { message: 'Format must be one of: csv, xlsx' })
+  .optional();
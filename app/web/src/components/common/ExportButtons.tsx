@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '../ui/Button';
+import type { ExportFormat } from '../../types';
+
+interface ExportButtonsProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Buttons to download the filtered list as CSV or Excel
+ * The export contains every matching row, not only the current page
+ */
+export const ExportButtons: React.FC<ExportButtonsProps> = ({
+  onExport,
+  disabled,
+}) => {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+
+    try {
+      await onExport(format);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao exportar.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          onClick={() => handleExport('csv')}
+          isLoading={exporting === 'csv'}
+          disabled={disabled || exporting !== null}
+        >
+          {exporting !== 'csv' && <Download className="h-4 w-4 mr-2" />}
+          CSV
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => handleExport('xlsx')}
+          isLoading={exporting === 'xlsx'}
+          disabled={disabled || exporting !== null}
+        >
+          {exporting !== 'xlsx' && <Download className="h-4 w-4 mr-2" />}
+          Excel
+        </Button>
+      </div>
+      {error && <p className="text-sm text-danger-600">{error}</p>}
+    </div>
+  );
+};
@@ -152,7 +152,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           <div className="text-center">
             <Upload className="mx-auto h-12 w-12 text-gray-400" />
             <p className="mt-2 text-sm text-gray-600">
-              Clique ou arraste o arquivo aqui
+              {file ? file.name : 'Clique ou arraste o arquivo aqui'}
             </p>
             <p className="mt-1 text-xs text-gray-500">
               Tamanho máximo: {maxSize}MB
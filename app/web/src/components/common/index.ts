@@ -2,3 +2,4 @@ export { FormInput } from './FormInput';
 export { MaskedInput } from './MaskedInput';
 export { Select } from './Select';
 export { FileUpload } from './FileUpload';
+export { ExportButtons } from './ExportButtons';
@@ -1,52 +1,25 @@
 import { LogOut } from 'lucide-react';
 import type React from 'react';
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
-import { notificationService } from '../../services/notification.service';
+import { useNotificationStream } from '../../hooks/useNotificationStream';
 import { getInitials } from '../../utils/formatters';
 import { NotificationDropdown } from '../notifications/NotificationDropdown';
 import { RoleBadge } from '../ui/Badge';
 import { Button } from '../ui/Button';
 import { LogoutConfirmationModal } from './LogoutConfirmationModal';
 
-const POLLING_INTERVAL = 10000; // 10 seconds
-
 /**
  * Header component with user info and notifications
  */
 export const Header: React.FC = () => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
-  const [unreadCount, setUnreadCount] = useState(0);
+  const { unreadCount, setUnreadCount, latestNotification } =
+    useNotificationStream(Boolean(user));
   const [isLogoutModalOpen, setIsLogoutModalOpen] = useState(false);
 
-  // Fetch unread count on mount and set up polling
-  useEffect(() => {
-    if (!user) return;
-
-    // Initial fetch
-    fetchUnreadCount();
-
-    // Set up polling interval
-    const intervalId = setInterval(fetchUnreadCount, POLLING_INTERVAL);
-
-    // Cleanup on unmount
-    return () => {
-      clearInterval(intervalId);
-    };
-  }, [user]);
-
-  const fetchUnreadCount = async () => {
-    try {
-      const count = await notificationService.getUnreadCount();
-      setUnreadCount(count);
-    } catch (error) {
-      // Silently fail - don't disrupt user experience
-      console.error('Error fetching unread count:', error);
-    }
-  };
-
   const handleLogoutClick = () => {
     setIsLogoutModalOpen(true);
   };
@@ -85,6 +58,7 @@ export const Header: React.FC = () => {
           <NotificationDropdown
             unreadCount={unreadCount}
             onUnreadCountChange={setUnreadCount}
+            latestNotification={latestNotification}
           />
 
           {/* User info */}
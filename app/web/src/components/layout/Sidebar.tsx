@@ -5,6 +5,7 @@ import {
   ClipboardList,
   FileText,
   LayoutDashboard,
+  Megaphone,
   Syringe,
   User,
   Users,
@@ -12,13 +13,14 @@ import {
 import type React from 'react';
 import { NavLink } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
+import { Permission } from '../../types';
 import { cn } from '../../utils/cn';
 
 interface NavItem {
   label: string;
   path: string;
   icon: React.ElementType;
-  roles?: string[];
+  permission?: Permission;
 }
 
 const navItems: NavItem[] = [
@@ -41,31 +43,37 @@ const navItems: NavItem[] = [
     label: 'Minha Agenda',
     path: '/nurse-schedule',
     icon: Calendar,
-    roles: ['NURSE'],
+    permission: Permission.SCHEDULING_ASSIGNED_READ,
   },
   {
     label: 'Aplicações de Vacinas',
     path: '/vaccine-applications',
     icon: Activity,
-    roles: ['NURSE'],
+    permission: Permission.APPLICATION_CREATE,
   },
   {
     label: 'Gerenciar Vacinas',
     path: '/vaccines',
     icon: ClipboardList,
-    roles: ['MANAGER', 'NURSE'],
+    permission: Permission.BATCH_READ,
+  },
+  {
+    label: 'Campanhas',
+    path: '/campaigns',
+    icon: Megaphone,
+    permission: Permission.CAMPAIGN_READ,
   },
   {
     label: 'Funcionários',
     path: '/funcionarios',
     icon: Users,
-    roles: ['MANAGER'],
+    permission: Permission.USER_WRITE,
   },
   {
     label: 'Relatórios',
     path: '/reports',
     icon: BarChart3,
-    roles: ['MANAGER'],
+    permission: Permission.REPORT_MANAGE,
   },
   {
     label: 'Perfil',
@@ -75,16 +83,16 @@ const navItems: NavItem[] = [
 ];
 
 /**
- * Sidebar navigation component with role-based menu items
+ * Sidebar navigation component with permission-based menu items
  */
 export const Sidebar: React.FC = () => {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
 
   if (!user) return null;
 
-  // Filter nav items based on user role
+  // Filter nav items based on user permissions
   const filteredNavItems = navItems.filter(
-    (item) => !item.roles || item.roles.includes(user.role),
+    (item) => !item.permission || can(item.permission),
   );
 
   return (
@@ -9,6 +9,8 @@ import type { Notification } from '../../types';
 interface NotificationDropdownProps {
   unreadCount: number;
   onUnreadCountChange: (count: number) => void;
+  /** Notification pushed by the real-time stream, shown while open */
+  latestNotification?: Notification | null;
 }
 
 /**
@@ -18,6 +20,7 @@ interface NotificationDropdownProps {
 export const NotificationDropdown: React.FC<NotificationDropdownProps> = ({
   unreadCount,
   onUnreadCountChange,
+  latestNotification,
 }) => {
   const navigate = useNavigate();
   const dropdownRef = useRef<HTMLDivElement>(null);
@@ -34,6 +37,17 @@ export const NotificationDropdown: React.FC<NotificationDropdownProps> = ({
     }
   }, [isOpen]);
 
+  // Show notifications pushed while the dropdown is open
+  useEffect(() => {
+    if (!isOpen || !latestNotification) return;
+
+    setNotifications(prev =>
+      prev.some(n => n.id === latestNotification.id)
+        ? prev
+        : [latestNotification, ...prev]
+    );
+  }, [isOpen, latestNotification]);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
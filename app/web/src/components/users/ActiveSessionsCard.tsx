@@ -0,0 +1,71 @@
+import React from 'react';
+import { Monitor, LogOut } from 'lucide-react';
+import { useSessions } from '../../hooks/useSessions';
+import { Button } from '../ui/Button';
+import { Card, CardContent } from '../ui/Card';
+import { Badge } from '../ui/Badge';
+import { formatDateTime, truncate } from '../../utils/formatters';
+
+/**
+ * Active sessions card
+ * Lists the devices logged in to the user's account and lets the user end them
+ */
+export const ActiveSessionsCard: React.FC = () => {
+  const { sessions, isLoading, error, revokeSession, revokeOtherSessions } = useSessions();
+  const hasOtherSessions = sessions.some((session) => !session.current);
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Sessões Ativas</h3>
+          {hasOtherSessions && (
+            <Button onClick={revokeOtherSessions} variant="outline" size="sm">
+              <LogOut className="h-4 w-4 mr-2" />
+              Encerrar outras sessões
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-danger-50 border border-danger-200 rounded-lg">
+            <p className="text-danger-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Carregando sessões...</p>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-lg"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <Monitor className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {session.userAgent ? truncate(session.userAgent, 80) : 'Dispositivo desconhecido'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.ipAddress ?? 'IP desconhecido'} · Último acesso em{' '}
+                      {formatDateTime(session.lastUsedAt)}
+                    </p>
+                  </div>
+                </div>
+                {session.current ? (
+                  <Badge variant="success">Este dispositivo</Badge>
+                ) : (
+                  <Button onClick={() => revokeSession(session.id)} variant="ghost" size="sm">
+                    Encerrar
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { KeyRound } from 'lucide-react';
+import { ChangePasswordFormSchema } from '../../utils/validationSchemas';
+import type { ChangePasswordFormData } from '../../utils/validationSchemas';
+import { userService } from '../../services/user.service';
+import { FormInput } from '../common/FormInput';
+import { Button } from '../ui/Button';
+import { Card, CardContent } from '../ui/Card';
+import type { ApiError } from '../../types';
+
+/**
+ * Change password card
+ * Lets the authenticated user set a new password after confirming the current one
+ */
+export const ChangePasswordCard: React.FC = () => {
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(ChangePasswordFormSchema),
+    defaultValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmNewPassword: '',
+    },
+  });
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setError(null);
+    setSuccess(false);
+
+    try {
+      await userService.changePassword(data.currentPassword, data.newPassword);
+      reset();
+      setSuccess(true);
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      // Translate common error messages to Portuguese
+      if (apiError.message === 'Current password is incorrect') {
+        setError('Senha atual incorreta');
+      } else {
+        setError(apiError.message || 'Erro ao alterar senha');
+      }
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Alterar Senha</h3>
+
+        {error && (
+          <div className="mb-4 p-3 bg-danger-50 border border-danger-200 rounded-lg" role="alert">
+            <p className="text-danger-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-4 p-3 bg-success-50 border border-success-200 rounded-lg">
+            <p className="text-success-700 text-sm">
+              Senha alterada com sucesso. As sessões em outros dispositivos foram encerradas.
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-w-md">
+          <FormInput
+            label="Senha Atual"
+            type="password"
+            autoComplete="current-password"
+            register={register('currentPassword')}
+            error={errors.currentPassword?.message}
+          />
+
+          <FormInput
+            label="Nova Senha"
+            type="password"
+            autoComplete="new-password"
+            register={register('newPassword')}
+            error={errors.newPassword?.message}
+            helperText="Mínimo de 8 caracteres, com letras maiúsculas e minúsculas, número e caractere especial"
+          />
+
+          <FormInput
+            label="Confirmar Nova Senha"
+            type="password"
+            autoComplete="new-password"
+            register={register('confirmNewPassword')}
+            error={errors.confirmNewPassword?.message}
+          />
+
+          <Button type="submit" isLoading={isSubmitting} disabled={isSubmitting}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Alterar Senha
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
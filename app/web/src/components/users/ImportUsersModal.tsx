@@ -0,0 +1,169 @@
+import { AlertCircle, CheckCircle, Upload } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { userService } from '../../services/user.service';
+import type { UserImportResult } from '../../types';
+import { formatRole } from '../../utils/formatters';
+import { FileUpload } from '../common/FileUpload';
+import { Button } from '../ui/Button';
+import { Modal, ModalFooter } from '../ui/Modal';
+
+export interface ImportUsersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (createdCount: number) => void;
+}
+
+/**
+ * Modal for importing employees from a CSV file (MANAGER only)
+ * The file is validated first (dry run) and the preview lists the errors of
+ * each row; confirming creates only the valid rows
+ */
+export const ImportUsersModal = ({ isOpen, onClose, onImported }: ImportUsersModalProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<UserImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFile(null);
+      setPreview(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleFileChange = (selectedFile: File | null) => {
+    setFile(selectedFile);
+    setPreview(null);
+    setError(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await userService.importCsv(file, dryRun);
+
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        onImported(result.createdCount);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '';
+      setError(message || 'Erro ao importar funcionários');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Importar Funcionários" size="xl">
+      <div className="space-y-4">
+        <FileUpload
+          label="Arquivo CSV"
+          accept=".csv,text/csv"
+          maxSize={1}
+          preview={false}
+          onChange={handleFileChange}
+          helperText="Colunas: nome, email, cpf, telefone, perfil (EMPLOYEE, NURSE ou MANAGER, padrão EMPLOYEE) e coren (obrigatório para NURSE). Até 500 funcionários."
+        />
+
+        {error && (
+          <div className="p-3 bg-danger-50 border border-danger-200 rounded-lg">
+            <p className="text-danger-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {preview && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700">
+              <strong>{preview.validRows}</strong> de {preview.totalRows} linha(s) prontas
+              para importar
+              {preview.invalidRows > 0 &&
+                `, ${preview.invalidRows} com erro serão ignoradas`}
+              .
+            </p>
+
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50">
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-700">Linha</th>
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-700">Nome</th>
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-700">Email</th>
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-700">Função</th>
+                    <th className="text-left py-2 px-3 text-xs font-semibold text-gray-700">Situação</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((row) => (
+                    <tr key={row.line} className="border-b border-gray-100 align-top">
+                      <td className="py-2 px-3 text-sm text-gray-600">{row.line}</td>
+                      <td className="py-2 px-3 text-sm text-gray-900">{row.name || '-'}</td>
+                      <td className="py-2 px-3 text-sm text-gray-600">{row.email || '-'}</td>
+                      <td className="py-2 px-3 text-sm text-gray-600">
+                        {row.role ? formatRole(row.role) : '-'}
+                      </td>
+                      <td className="py-2 px-3 text-sm">
+                        {row.errors.length === 0 ? (
+                          <span className="flex items-center gap-1 text-success-700">
+                            <CheckCircle className="h-4 w-4" />
+                            OK
+                          </span>
+                        ) : (
+                          <ul className="text-danger-700 space-y-0.5">
+                            {row.errors.map((rowError) => (
+                              <li key={rowError} className="flex items-start gap-1">
+                                <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                                {rowError}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Os funcionários importados definem a senha pelo link "Esqueceu a senha?" da
+          tela de login.
+        </p>
+
+        <ModalFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
+            Cancelar
+          </Button>
+          {preview ? (
+            <Button
+              type="button"
+              onClick={() => runImport(false)}
+              isLoading={isLoading}
+              disabled={isLoading || preview.validRows === 0}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Importar {preview.validRows} funcionário(s)
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={() => runImport(true)}
+              isLoading={isLoading}
+              disabled={isLoading || !file}
+            >
+              Validar arquivo
+            </Button>
+          )}
+        </ModalFooter>
+      </div>
+    </Modal>
+  );
+};
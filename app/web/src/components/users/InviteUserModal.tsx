@@ -0,0 +1,168 @@
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Check, Copy } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { invitationService } from '../../services/invitation.service';
+import { UserRole } from '../../types';
+import type { CreatedInvitation } from '../../types/invitations';
+import { formatDateTime, formatRole } from '../../utils/formatters';
+import { FormInput } from '../common/FormInput';
+import { Select } from '../common/Select';
+import { Button } from '../ui/Button';
+import { Modal, ModalFooter } from '../ui/Modal';
+
+const InviteUserSchema = z.object({
+  email: z
+    .string()
+    .min(1, 'Email é obrigatório')
+    .email('Formato de email inválido')
+    .toLowerCase()
+    .trim()
+    .max(255, 'Email muito longo'),
+  role: z.enum(['EMPLOYEE', 'NURSE', 'MANAGER'], {
+    error: () => ({ message: 'Selecione uma função válida' }),
+  }),
+});
+
+type InviteUserFormData = z.infer<typeof InviteUserSchema>;
+
+export interface InviteUserModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Modal for inviting a person to create an account (MANAGER only)
+ * The link is sent by email and also shown, so it can be shared by other means
+ */
+export const InviteUserModal = ({ isOpen, onClose }: InviteUserModalProps) => {
+  const [invitation, setInvitation] = useState<CreatedInvitation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<InviteUserFormData>({
+    resolver: zodResolver(InviteUserSchema),
+    defaultValues: { email: '', role: UserRole.NURSE },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      reset({ email: '', role: UserRole.NURSE });
+      setInvitation(null);
+      setError(null);
+      setCopied(false);
+    }
+  }, [isOpen, reset]);
+
+  const onSubmit = async (data: InviteUserFormData) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setInvitation(await invitationService.create(data));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '';
+      setError(
+        message.toLowerCase().includes('already registered')
+          ? 'Este email já está cadastrado'
+          : message || 'Erro ao enviar convite'
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!invitation) return;
+    await navigator.clipboard.writeText(invitation.inviteUrl);
+    setCopied(true);
+  };
+
+  const roleOptions = [
+    { value: UserRole.EMPLOYEE, label: 'Funcionário' },
+    { value: UserRole.NURSE, label: 'Enfermeiro' },
+    { value: UserRole.MANAGER, label: 'Gerente' },
+  ];
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Convidar Usuário" size="md">
+      {invitation ? (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            Convite enviado para <strong>{invitation.email}</strong> como{' '}
+            <strong>{formatRole(invitation.role)}</strong>. O link vale até{' '}
+            {formatDateTime(invitation.expiresAt)} e só pode ser usado uma vez.
+          </p>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={invitation.inviteUrl}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-gray-50"
+            />
+            <Button type="button" variant="outline" onClick={copyLink}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+
+          <ModalFooter>
+            <Button type="button" onClick={onClose}>
+              Fechar
+            </Button>
+          </ModalFooter>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {error && (
+            <div className="p-3 bg-danger-50 border border-danger-200 rounded-lg">
+              <p className="text-danger-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <FormInput
+            label="Email"
+            type="email"
+            placeholder="ana@exemplo.com"
+            register={register('email')}
+            error={errors.email?.message}
+            required
+          />
+
+          <Select
+            label="Função"
+            options={roleOptions}
+            register={register('role')}
+            error={errors.role?.message}
+            required
+          />
+
+          <p className="text-xs text-gray-500">
+            Convites anteriores pendentes para o mesmo email deixam de valer.
+          </p>
+
+          <ModalFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isLoading}
+            >
+              Cancelar
+            </Button>
+            <Button type="submit" isLoading={isLoading} disabled={isLoading}>
+              Enviar Convite
+            </Button>
+          </ModalFooter>
+        </form>
+      )}
+    </Modal>
+  );
+};
@@ -1,2 +1,6 @@
 export { UserFormModal } from './UserFormModal';
 export type { UserFormModalProps } from './UserFormModal';
+export { InviteUserModal } from './InviteUserModal';
+export type { InviteUserModalProps } from './InviteUserModal';
+export { ActiveSessionsCard } from './ActiveSessionsCard';
+export { ChangePasswordCard } from './ChangePasswordCard';
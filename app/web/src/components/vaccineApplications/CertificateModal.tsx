@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, Download, QrCode } from 'lucide-react';
+import { Modal, ModalFooter } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { certificateService } from '../../services/certificate.service';
+import type { IssuedCertificate } from '../../types/certificates';
+import { formatDate, formatDateTime } from '../../utils/formatters';
+
+interface CertificateModalProps {
+  userId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * CertificateModal - Issues a vaccination certificate with a signed QR code
+ * The QR code opens the public verification page, which shows only the
+ * initials of the holder, the vaccines and their dates
+ */
+export const CertificateModal: React.FC<CertificateModalProps> = ({
+  userId,
+  isOpen,
+  onClose,
+}) => {
+  const [certificate, setCertificate] = useState<IssuedCertificate | null>(null);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setCertificate(null);
+      setError(null);
+      setCopied(false);
+    }
+  }, [isOpen]);
+
+  const handleIssue = async () => {
+    setIsIssuing(true);
+    setError(null);
+
+    try {
+      setCertificate(await certificateService.issue(userId));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : '';
+      setError(
+        message.includes('no vaccine applications')
+          ? 'Nenhuma vacina aplicada para certificar.'
+          : 'Erro ao emitir certificado.'
+      );
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const copyLink = async () => {
+    if (!certificate) return;
+    await navigator.clipboard.writeText(certificate.verifyUrl);
+    setCopied(true);
+  };
+
+  const downloadQrCode = () => {
+    if (!certificate) return;
+    const a = document.createElement('a');
+    a.href = certificate.qrCode;
+    a.download = `certificado-vacinacao-${certificate.issuedAt.split('T')[0]}.png`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Certificado de Vacinação" size="md">
+      {certificate ? (
+        <div className="space-y-4">
+          <div className="flex justify-center">
+            <img
+              src={certificate.qrCode}
+              alt="QR code do certificado"
+              className="w-56 h-56 border border-gray-200 rounded-lg"
+            />
+          </div>
+
+          <p className="text-sm text-gray-700 text-center">
+            Válido até <strong>{formatDate(certificate.expiresAt)}</strong>.
+            Quem ler o QR code verá apenas as iniciais do nome, as vacinas e as
+            datas das doses.
+          </p>
+
+          <ul className="text-sm text-gray-700 space-y-1">
+            {certificate.vaccines.map((vaccine) => (
+              <li key={vaccine.name} className="flex justify-between">
+                <span>{vaccine.name}</span>
+                <span className="text-gray-500">
+                  {vaccine.doses.length} dose(s)
+                  {vaccine.isComplete ? ' - completa' : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              readOnly
+              value={certificate.verifyUrl}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-gray-50"
+            />
+            <Button type="button" variant="outline" onClick={copyLink}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Emitido em {formatDateTime(certificate.issuedAt)}. O certificado é
+            revogado se alguma das doses for anulada.
+          </p>
+
+          <ModalFooter>
+            <Button type="button" variant="outline" onClick={downloadQrCode}>
+              <Download className="h-4 w-4 mr-2" />
+              Baixar QR code
+            </Button>
+            <Button type="button" onClick={onClose}>
+              Fechar
+            </Button>
+          </ModalFooter>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            O certificado comprova as vacinas aplicadas para clínicas e
+            contratantes externos. Ele é assinado digitalmente e pode ser
+            conferido pelo QR code, sem acesso ao sistema.
+          </p>
+
+          {error && (
+            <div className="p-3 bg-danger-50 border border-danger-200 rounded-lg">
+              <p className="text-danger-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <ModalFooter>
+            <Button type="button" variant="outline" onClick={onClose} disabled={isIssuing}>
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleIssue} isLoading={isIssuing} disabled={isIssuing}>
+              <QrCode className="h-4 w-4 mr-2" />
+              Emitir Certificado
+            </Button>
+          </ModalFooter>
+        </div>
+      )}
+    </Modal>
+  );
+};
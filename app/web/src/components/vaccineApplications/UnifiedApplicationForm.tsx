@@ -10,6 +10,7 @@ import { ModalFooter } from '../ui/Modal';
 import { SchedulingMiniCard } from '../vaccineScheduling/SchedulingMiniCard';
 import { userService } from '../../services/user.service';
 import { vaccineService } from '../../services/vaccine.service';
+import { vaccineApplicationService } from '../../services/vaccineApplication.service';
 
 type ApplicationType = 'scheduled' | 'walkin';
 
@@ -35,6 +36,7 @@ export const UnifiedApplicationForm: React.FC<UnifiedApplicationFormProps> = ({
   const [users, setUsers] = useState<User[]>([]);
   const [vaccines, setVaccines] = useState<Vaccine[]>([]);
   const [batches, setBatches] = useState<VaccineBatch[]>([]);
+  const [suggestedBatchId, setSuggestedBatchId] = useState<string | null>(null);
   const [schedulings, setSchedulings] = useState<VaccineScheduling[]>([]);
   const [selectedScheduling, setSelectedScheduling] = useState<VaccineScheduling | null>(null);
 
@@ -91,6 +93,7 @@ export const UnifiedApplicationForm: React.FC<UnifiedApplicationFormProps> = ({
     }
     setSelectedScheduling(null);
     setBatches([]);
+    setSuggestedBatchId(null);
   }, [applicationType, scheduledForm, walkInForm]);
 
   // Fetch today's schedulings for scheduled applications
@@ -169,6 +172,7 @@ export const UnifiedApplicationForm: React.FC<UnifiedApplicationFormProps> = ({
   }, [applicationType, selectedSchedulingId, schedulings]);
 
   // Fetch batches when vaccine is determined (either from scheduling or direct selection)
+  // and pre-fill the batch that expires first (FEFO)
   useEffect(() => {
     const vaccineId = applicationType === 'scheduled'
       ? selectedScheduling?.vaccineId
@@ -176,34 +180,50 @@ export const UnifiedApplicationForm: React.FC<UnifiedApplicationFormProps> = ({
 
     if (!vaccineId) {
       setBatches([]);
+      setSuggestedBatchId(null);
       return;
     }
 
     const fetchBatches = async () => {
       setLoadingBatches(true);
       try {
-        const response = await vaccineService.getBatches(vaccineId, {
-          page: 1,
-          perPage: 100,
-          status: 'AVAILABLE',
-        });
+        const [response, suggestion] = await Promise.all([
+          vaccineService.getBatches(vaccineId, {
+            page: 1,
+            perPage: 100,
+            status: 'AVAILABLE',
+          }),
+          // No suggestion just leaves the batch for the nurse to pick
+          vaccineApplicationService.suggestBatch(vaccineId).catch(() => null),
+        ]);
         // Filter batches with quantity > 0
         const availableBatches = response.data.filter(batch => batch.currentQuantity > 0);
         setBatches(availableBatches);
+        setSuggestedBatchId(suggestion?.id ?? null);
+
+        if (suggestion) {
+          if (applicationType === 'scheduled') {
+            scheduledForm.setValue('batchId', suggestion.id);
+          } else {
+            walkInForm.setValue('batchId', suggestion.id);
+          }
+        }
       } catch (error) {
         console.error('Error fetching batches:', error);
         setBatches([]);
+        setSuggestedBatchId(null);
       } finally {
         setLoadingBatches(false);
       }
     };
 
     fetchBatches();
-  }, [applicationType, selectedScheduling?.vaccineId, selectedVaccineId]);
+  }, [applicationType, selectedScheduling?.vaccineId, selectedVaccineId, scheduledForm, walkInForm]);
 
+  // An empty batch is left out so the backend picks it (FEFO)
   const handleScheduledSubmit = async (data: CreateScheduledApplicationFormData) => {
     try {
-      await onSubmit(data);
+      await onSubmit({ ...data, batchId: data.batchId || undefined });
     } catch (error) {
       console.error('Form submission error:', error);
     }
@@ -211,7 +231,7 @@ export const UnifiedApplicationForm: React.FC<UnifiedApplicationFormProps> = ({
 
   const handleWalkInSubmit = async (data: CreateWalkInApplicationFormData) => {
     try {
-      await onSubmit(data);
+      await onSubmit({ ...data, batchId: data.batchId || undefined });
     } catch (error) {
       console.error('Form submission error:', error);
     }
@@ -416,7 +436,7 @@ export const UnifiedApplicationForm: React.FC<UnifiedApplicationFormProps> = ({
 
         <div>
           <label htmlFor="batchId" className="block text-sm font-medium text-gray-700 mb-1.5">
-            Lote da Vacina <span className="text-danger-500">*</span>
+            Lote da Vacina
           </label>
           {applicationType === 'scheduled' && !selectedScheduling ? (
             <p className="text-sm text-gray-500">Selecione um agendamento primeiro</p>
@@ -437,15 +457,21 @@ export const UnifiedApplicationForm: React.FC<UnifiedApplicationFormProps> = ({
               }`}
               disabled={isLoading}
             >
-              <option value="">Selecione um lote</option>
+              <option value="">Automático (lote que vence primeiro)</option>
               {batches.map((batch) => (
                 <option key={batch.id} value={batch.id}>
                   {batch.batchNumber} - Qtd: {batch.currentQuantity} - Validade:{' '}
                   {new Date(batch.expirationDate).toLocaleDateString('pt-BR')}
+                  {batch.id === suggestedBatchId && ' (sugerido)'}
                 </option>
               ))}
             </select>
           )}
+          {suggestedBatchId && !loadingBatches && batches.length > 0 && (
+            <p className="mt-1 text-xs text-gray-500">
+              Sugerimos o lote que vence primeiro para evitar perdas por validade
+            </p>
+          )}
           {(applicationType === 'scheduled' ? scheduledForm.formState.errors.batchId : walkInForm.formState.errors.batchId) && (
             <p className="mt-1 text-sm text-danger-600">
               {(applicationType === 'scheduled' ? scheduledForm.formState.errors.batchId?.message : walkInForm.formState.errors.batchId?.message)}
@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { Calendar, User as UserIcon, Download, X } from 'lucide-react';
+import { Calendar, User as UserIcon, Download, QrCode, X } from 'lucide-react';
 import { Modal } from '../ui/Modal';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 import { Button } from '../ui/Button';
@@ -8,6 +8,7 @@ import { VaccinesByTypeList } from './VaccinesByTypeList';
 import { PendingDosesList } from './PendingDosesList';
 import { MandatoryVaccinesList } from './MandatoryVaccinesList';
 import { OptionalVaccinesList } from './OptionalVaccinesList';
+import { CertificateModal } from './CertificateModal';
 import { useVaccinationHistory } from '../../hooks/useVaccinationHistory';
 import { userService } from '../../services/user.service';
 import type { User } from '../../types';
@@ -27,9 +28,11 @@ export const VaccinationCardModal: React.FC<VaccinationCardModalProps> = ({
   isOpen,
   onClose,
 }) => {
-  const { history, isLoading, error, fetchHistory, clearError } = useVaccinationHistory();
+  const { history, isLoading, isDownloading, error, fetchHistory, downloadCard, clearError } =
+    useVaccinationHistory();
   const [targetUser, setTargetUser] = useState<User | null>(null);
   const [loadingUser, setLoadingUser] = useState(false);
+  const [isCertificateOpen, setIsCertificateOpen] = useState(false);
 
   // Fetch user info and history when modal opens
   useEffect(() => {
@@ -63,56 +66,31 @@ export const VaccinationCardModal: React.FC<VaccinationCardModalProps> = ({
     }
   }, [isOpen, clearError]);
 
-  const handleExport = () => {
-    if (!history || !targetUser) return;
-
-    // Create a simple text export
-    let exportText = '=== CARTÃO DE VACINAÇÃO ===\n\n';
-    exportText += `Paciente: ${targetUser.name}\n`;
-    exportText += `CPF: ${targetUser.cpf}\n`;
-    exportText += `Emitido em: ${new Date(history.issuedAt).toLocaleString('pt-BR')}\n\n`;
-
-    exportText += '=== RESUMO ===\n';
-    exportText += `Vacinas Aplicadas: ${history.summary.totalVaccinesApplied}\n`;
-    exportText += `Vacinas Completas: ${history.summary.totalVaccinesCompleted}\n`;
-    exportText += `Doses Pendentes: ${history.summary.totalDosesPending}\n`;
-    exportText += `Obrigatórias Pendentes: ${history.summary.totalMandatoryPending}\n`;
-    exportText += `Conformidade: ${history.summary.compliancePercentage}%\n\n`;
-
-    exportText += '=== VACINAS APLICADAS ===\n';
-    history.vaccinesByType.forEach((vt) => {
-      exportText += `\n${vt.vaccine.name} (${vt.vaccine.manufacturer})\n`;
-      exportText += `Status: ${vt.isComplete ? 'Completa' : 'Em andamento'}\n`;
-      exportText += `Doses: ${vt.dosesApplied}/${vt.totalDosesRequired}\n`;
-      vt.doses.forEach((dose) => {
-        exportText += `  Dose ${dose.doseNumber}: ${new Date(dose.applicationDate).toLocaleDateString('pt-BR')}\n`;
-        exportText += `    Local: ${dose.applicationSite}\n`;
-        exportText += `    Lote: ${dose.batch.batchNumber}\n`;
-        exportText += `    Aplicado por: ${dose.appliedBy.name}\n`;
-      });
-    });
-
-    // Create download
-    const blob = new Blob([exportText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `cartao-vacinacao-${targetUser.name.replace(/\s/g, '-')}-${new Date().toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
   return (
+    <>
     <Modal isOpen={isOpen} onClose={onClose} size="xl" showCloseButton={false}>
       {/* Custom Header with close button */}
       <div className="flex items-center justify-between mb-4">
         <h2 className="text-2xl font-bold text-gray-900">Cartão de Vacinação</h2>
         <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={handleExport} disabled={!history}>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => downloadCard(userId)}
+            disabled={!history || isDownloading}
+            isLoading={isDownloading}
+          >
             <Download className="h-4 w-4 mr-2" />
-            Exportar
+            Baixar PDF
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsCertificateOpen(true)}
+            disabled={!history?.applied.length}
+          >
+            <QrCode className="h-4 w-4 mr-2" />
+            Certificado
           </Button>
           <Button variant="ghost" size="sm" onClick={onClose}>
             <X className="h-5 w-5" />
@@ -236,5 +214,12 @@ export const VaccinationCardModal: React.FC<VaccinationCardModalProps> = ({
         )}
       </div>
     </Modal>
+
+    <CertificateModal
+      userId={userId}
+      isOpen={isCertificateOpen}
+      onClose={() => setIsCertificateOpen(false)}
+    />
+    </>
   );
 };
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '../ui/Button';
-import type { CreateVaccineSchedulingData, Vaccine, User } from '../../types';
-import { UserRole } from '../../types';
+import type { CreateVaccineSchedulingData, SchedulingSlot, Vaccine, User } from '../../types';
+import { Permission } from '../../types';
+import { useAuth } from '../../hooks/useAuth';
 import { userService } from '../../services/user.service';
 import { vaccineService } from '../../services/vaccine.service';
+import { vaccineSchedulingService } from '../../services/vaccineScheduling.service';
 
 interface SchedulingFormProps {
   onSubmit: (data: CreateVaccineSchedulingData) => Promise<void>;
@@ -14,13 +16,19 @@ interface SchedulingFormProps {
 /**
  * SchedulingForm component
  * Form for creating a new vaccine scheduling
+ * Nurses and managers can pick the patient to schedule for
+ * The time and nurse come from the free slots of the chosen day
  */
 export const SchedulingForm: React.FC<SchedulingFormProps> = ({
   onSubmit,
   onCancel,
   isLoading = false,
 }) => {
+  const { can } = useAuth();
+  const canScheduleForOthers = can(Permission.SCHEDULING_CREATE_OTHERS);
+
   const [formData, setFormData] = useState<CreateVaccineSchedulingData>({
+    patientId: undefined,
     vaccineId: '',
     scheduledDate: '',
     doseNumber: 1,
@@ -28,22 +36,23 @@ export const SchedulingForm: React.FC<SchedulingFormProps> = ({
     notes: '',
   });
 
-  // Separate state for date and time
   const [selectedDate, setSelectedDate] = useState('');
-  const [selectedTime, setSelectedTime] = useState('');
+  const [selectedSlot, setSelectedSlot] = useState<SchedulingSlot | null>(null);
 
   const [vaccines, setVaccines] = useState<Vaccine[]>([]);
-  const [nurses, setNurses] = useState<User[]>([]);
+  const [slots, setSlots] = useState<SchedulingSlot[]>([]);
+  const [patients, setPatients] = useState<User[]>([]);
   const [selectedVaccine, setSelectedVaccine] = useState<Vaccine | null>(null);
   const [loadingVaccines, setLoadingVaccines] = useState(true);
-  const [loadingNurses, setLoadingNurses] = useState(true);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [slotsError, setSlotsError] = useState<string | null>(null);
+  const [loadingPatients, setLoadingPatients] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  // Load vaccines and nurses on mount
+  // Load vaccines on mount
   useEffect(() => {
     const loadData = async () => {
       try {
-        // Load vaccines
         setLoadingVaccines(true);
         const vaccinesResponse = await vaccineService.list({ page: 1, perPage: 100 });
         setVaccines(vaccinesResponse.data);
@@ -52,21 +61,37 @@ export const SchedulingForm: React.FC<SchedulingFormProps> = ({
       } finally {
         setLoadingVaccines(false);
       }
+    };
+
+    loadData();
+  }, []);
+
+  // Load patients when the user can schedule for others
+  useEffect(() => {
+    if (!canScheduleForOthers) {
+      return;
+    }
 
+    const loadPatients = async () => {
       try {
-        // Load nurses
-        setLoadingNurses(true);
-        const nursesResponse = await userService.list({ role: UserRole.NURSE, page: 1, perPage: 100 });
-        setNurses(nursesResponse.data);
+        setLoadingPatients(true);
+        const patientsResponse = await userService.list({
+          isActive: true,
+          sortBy: 'name',
+          sortOrder: 'asc',
+          page: 1,
+          perPage: 100,
+        });
+        setPatients(patientsResponse.data);
       } catch (error) {
-        console.error('Error loading nurses:', error);
+        console.error('Error loading patients:', error);
       } finally {
-        setLoadingNurses(false);
+        setLoadingPatients(false);
       }
     };
 
-    loadData();
-  }, []);
+    loadPatients();
+  }, [canScheduleForOthers]);
 
   // Update selected vaccine when vaccineId changes
   useEffect(() => {
@@ -78,22 +103,54 @@ export const SchedulingForm: React.FC<SchedulingFormProps> = ({
     }
   }, [formData.vaccineId, vaccines]);
 
-  // Combine date and time into ISO string
+  // Load free slots when both the day and the vaccine are chosen
   useEffect(() => {
-    if (selectedDate && selectedTime) {
-      const dateTimeString = `${selectedDate}T${selectedTime}:00`;
-      const dateTime = new Date(dateTimeString);
-      setFormData((prev) => ({
-        ...prev,
-        scheduledDate: dateTime.toISOString(),
-      }));
-    } else if (!selectedDate && !selectedTime) {
-      setFormData((prev) => ({
-        ...prev,
-        scheduledDate: '',
-      }));
+    setSelectedSlot(null);
+    setSlots([]);
+    setSlotsError(null);
+
+    if (!selectedDate || !formData.vaccineId) {
+      return;
     }
-  }, [selectedDate, selectedTime]);
+
+    let cancelled = false;
+
+    const loadSlots = async () => {
+      try {
+        setLoadingSlots(true);
+        const response = await vaccineSchedulingService.getSlots(selectedDate, formData.vaccineId);
+        if (!cancelled) {
+          setSlots(response.slots);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setSlotsError(error instanceof Error ? error.message : 'Erro ao buscar horários disponíveis');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoadingSlots(false);
+        }
+      }
+    };
+
+    loadSlots();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDate, formData.vaccineId]);
+
+  // The chosen slot sets both the time and the nurse
+  useEffect(() => {
+    setFormData((prev) => ({
+      ...prev,
+      scheduledDate: selectedSlot?.startTime ?? '',
+      nurseId: selectedSlot?.nurseId,
+    }));
+  }, [selectedSlot]);
+
+  const formatSlotTime = (date: string) =>
+    new Date(date).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' });
 
   const handleChange = (field: keyof CreateVaccineSchedulingData, value: string | number) => {
     setFormData((prev) => ({
@@ -119,7 +176,7 @@ export const SchedulingForm: React.FC<SchedulingFormProps> = ({
     }
 
     if (!formData.scheduledDate) {
-      newErrors.scheduledDate = 'Selecione uma data e hora';
+      newErrors.scheduledDate = 'Selecione uma data e um horário';
     } else {
       const selectedDate = new Date(formData.scheduledDate);
       const now = new Date();
@@ -153,6 +210,7 @@ export const SchedulingForm: React.FC<SchedulingFormProps> = ({
         ...formData,
         notes: formData.notes?.trim() || undefined,
         nurseId: formData.nurseId || undefined,
+        patientId: formData.patientId || undefined,
       };
 
       await onSubmit(submitData);
@@ -167,6 +225,32 @@ export const SchedulingForm: React.FC<SchedulingFormProps> = ({
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Patient selection (NURSE/MANAGER) */}
+      {canScheduleForOthers && (
+        <div>
+          <label htmlFor="patient" className="block text-sm font-medium text-gray-700 mb-2">
+            Paciente
+          </label>
+          <select
+            id="patient"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            value={formData.patientId || ''}
+            onChange={(e) => handleChange('patientId', e.target.value)}
+            disabled={isLoading || loadingPatients}
+          >
+            <option value="">Eu mesmo(a)</option>
+            {patients.map((patient) => (
+              <option key={patient.id} value={patient.id}>
+                {patient.name} - {patient.email}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-sm text-gray-600">
+            O paciente será notificado sobre o agendamento
+          </p>
+        </div>
+      )}
+
       {/* Vaccine selection */}
       <div>
         <label htmlFor="vaccine" className="block text-sm font-medium text-gray-700 mb-2">
@@ -223,70 +307,91 @@ export const SchedulingForm: React.FC<SchedulingFormProps> = ({
         )}
       </div>
 
-      {/* Scheduled date and time - Separate fields */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {/* Date field */}
-        <div>
-          <label htmlFor="scheduledDate" className="block text-sm font-medium text-gray-700 mb-2">
-            📅 Data do agendamento <span className="text-red-500">*</span>
-          </label>
-          <input
-            type="date"
-            id="scheduledDate"
-            min={minDateTime.toISOString().split('T')[0]}
-            className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
-              errors.scheduledDate ? 'border-red-500' : 'border-gray-300'
-            }`}
-            value={selectedDate}
-            onChange={(e) => {
-              setSelectedDate(e.target.value);
-              if (errors.scheduledDate) {
-                setErrors((prev) => {
-                  const { scheduledDate: _, ...rest } = prev;
-                  return rest;
-                });
-              }
-            }}
-            disabled={isLoading}
-            required
-          />
-          {errors.scheduledDate && (
-            <p className="mt-1 text-sm text-red-600">{errors.scheduledDate}</p>
-          )}
-        </div>
+      {/* Scheduled date */}
+      <div>
+        <label htmlFor="scheduledDate" className="block text-sm font-medium text-gray-700 mb-2">
+          📅 Data do agendamento <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="date"
+          id="scheduledDate"
+          min={minDateTime.toISOString().split('T')[0]}
+          className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
+            errors.scheduledDate ? 'border-red-500' : 'border-gray-300'
+          }`}
+          value={selectedDate}
+          onChange={(e) => {
+            setSelectedDate(e.target.value);
+            if (errors.scheduledDate) {
+              setErrors((prev) => {
+                const { scheduledDate: _, ...rest } = prev;
+                return rest;
+              });
+            }
+          }}
+          disabled={isLoading}
+          required
+        />
+        {errors.scheduledDate && (
+          <p className="mt-1 text-sm text-red-600">{errors.scheduledDate}</p>
+        )}
+      </div>
 
-        {/* Time field */}
-        <div>
-          <label htmlFor="scheduledTime" className="block text-sm font-medium text-gray-700 mb-2">
-            🕐 Horário do agendamento <span className="text-red-500">*</span>
-          </label>
-          <input
-            type="time"
-            id="scheduledTime"
-            className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent ${
-              errors.scheduledDate ? 'border-red-500' : 'border-gray-300'
-            }`}
-            value={selectedTime}
-            onChange={(e) => {
-              setSelectedTime(e.target.value);
-              if (errors.scheduledDate) {
-                setErrors((prev) => {
-                  const { scheduledDate: _, ...rest } = prev;
-                  return rest;
-                });
-              }
-            }}
-            disabled={isLoading || !selectedDate}
-            required
-          />
-          {!selectedDate && (
-            <p className="mt-1 text-xs text-gray-500">Selecione a data primeiro</p>
-          )}
-        </div>
+      {/* Slot picker */}
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">
+          🕐 Horário e enfermeiro(a) <span className="text-red-500">*</span>
+        </span>
+        {!selectedDate || !formData.vaccineId ? (
+          <p className="text-sm text-gray-500">Selecione a vacina e a data primeiro</p>
+        ) : loadingSlots ? (
+          <p className="text-sm text-gray-500">Carregando horários...</p>
+        ) : slotsError ? (
+          <p className="text-sm text-red-600">{slotsError}</p>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum horário disponível nesta data</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2 max-h-64 overflow-y-auto">
+            {slots.map((slot) => {
+              const isSelected =
+                selectedSlot?.startTime === slot.startTime && selectedSlot?.nurseId === slot.nurseId;
+
+              return (
+                <button
+                  key={`${slot.startTime}-${slot.nurseId}`}
+                  type="button"
+                  onClick={() => {
+                    setSelectedSlot(slot);
+                    if (errors.scheduledDate) {
+                      setErrors((prev) => {
+                        const { scheduledDate: _, ...rest } = prev;
+                        return rest;
+                      });
+                    }
+                  }}
+                  disabled={isLoading}
+                  className={`px-3 py-2 border rounded-lg text-left text-sm transition-colors ${
+                    isSelected
+                      ? 'border-primary-500 bg-primary-50 text-primary-700'
+                      : 'border-gray-300 hover:border-primary-400'
+                  }`}
+                >
+                  <span className="block font-medium">
+                    {formatSlotTime(slot.startTime)} - {formatSlotTime(slot.endTime)}
+                  </span>
+                  <span className="block text-xs text-gray-600 truncate">{slot.nurseName}</span>
+                  <span className="block text-xs text-gray-500">
+                    {slot.available} vaga(s)
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
       </div>
 
-      {/* Combined date/time preview */}
-      {selectedDate && selectedTime && (
+      {/* Selected slot preview */}
+      {selectedSlot && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
           <div className="flex items-center gap-2 text-sm">
             <svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
@@ -294,40 +399,18 @@ export const SchedulingForm: React.FC<SchedulingFormProps> = ({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
             <span className="text-blue-900 font-medium">
-              Agendamento será criado para: {new Date(`${selectedDate}T${selectedTime}`).toLocaleString('pt-BR', {
+              Agendamento será criado para: {new Date(selectedSlot.startTime).toLocaleString('pt-BR', {
                 day: '2-digit',
                 month: 'long',
                 year: 'numeric',
                 hour: '2-digit',
                 minute: '2-digit'
-              })}
+              })} com {selectedSlot.nurseName}
             </span>
           </div>
         </div>
       )}
 
-      {/* Nurse selection (optional) */}
-      <div>
-        <label htmlFor="nurse" className="block text-sm font-medium text-gray-700 mb-2">
-          Enfermeiro(a) (opcional)
-        </label>
-        <select
-          id="nurse"
-          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          value={formData.nurseId || ''}
-          onChange={(e) => handleChange('nurseId', e.target.value)}
-          disabled={isLoading || loadingNurses}
-        >
-          <option value="">Nenhum enfermeiro selecionado</option>
-          {nurses.map((nurse) => (
-            <option key={nurse.id} value={nurse.id}>
-              {nurse.name}
-              {nurse.coren && ` - COREN: ${nurse.coren}`}
-            </option>
-          ))}
-        </select>
-      </div>
-
       {/* Notes */}
       <div>
         <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
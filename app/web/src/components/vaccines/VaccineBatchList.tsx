@@ -33,6 +33,8 @@ export const VaccineBatchList: React.FC<VaccineBatchListProps> = ({
       EXPIRED: { variant: 'danger' as const, label: 'Expirado' },
       DEPLETED: { variant: 'warning' as const, label: 'Esgotado' },
       DISCARDED: { variant: 'default' as const, label: 'Descartado' },
+      QUARANTINED: { variant: 'warning' as const, label: 'Em quarentena' },
+      RECALLED: { variant: 'danger' as const, label: 'Recolhido' },
     };
 
     const config = statusConfig[status] || { variant: 'default' as const, label: status };
@@ -79,6 +81,8 @@ export const VaccineBatchList: React.FC<VaccineBatchListProps> = ({
             <option value="EXPIRED">Expirado</option>
             <option value="DEPLETED">Esgotado</option>
             <option value="DISCARDED">Descartado</option>
+            <option value="QUARANTINED">Em quarentena</option>
+            <option value="RECALLED">Recolhido</option>
           </select>
         </div>
       )}
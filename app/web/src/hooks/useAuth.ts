@@ -1,12 +1,19 @@
+import { useCallback } from 'react';
 import { useAuthStore } from '../store/authStore';
+import type { Permission } from '../types';
 
 /**
  * Custom hook to access auth state and actions
  * Provides a clean interface to the auth store
+ *
+ * Use `can(permission)` to show or hide features: permissions come from the
+ * API (GET /auth/me), so the UI follows the same rules as the backend.
  */
 export const useAuth = () => {
   const {
     user,
+    permissions,
+    permissionsLoaded,
     token,
     isAuthenticated,
     isLoading,
@@ -18,8 +25,16 @@ export const useAuth = () => {
     initAuth,
   } = useAuthStore();
 
+  const can = useCallback(
+    (permission: Permission) => permissions.includes(permission),
+    [permissions]
+  );
+
   return {
     user,
+    permissions,
+    permissionsLoaded,
+    can,
     token,
     isAuthenticated,
     isLoading,
@@ -0,0 +1,142 @@
+/**
+ * useNotificationStream Hook - Real-time notifications for the header
+ *
+ * Listens to GET /notifications/stream (Server-Sent Events) and keeps the
+ * unread count and the latest notification up to date. When the stream is
+ * unavailable (no EventSource support, connection lost, server rejected it)
+ * it falls back to polling the unread count until the stream reconnects.
+ *
+ * @example
+ * ```typescript
+ * const { unreadCount, setUnreadCount, latestNotification } =
+ *   useNotificationStream(Boolean(user));
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { notificationService } from '../services/notification.service';
+import type { Notification } from '../types';
+
+const POLLING_INTERVAL = 10000; // 10 seconds
+const STREAM_RECONNECT_INTERVAL = 60000; // 1 minute, after the browser gives up
+
+/**
+ * Return type for useNotificationStream hook
+ */
+export interface UseNotificationStreamReturn {
+  /** Unread notifications of the authenticated user */
+  unreadCount: number;
+  /** Local update after marking notifications as read */
+  setUnreadCount: (count: number) => void;
+  /** Last notification pushed by the stream (null until one arrives) */
+  latestNotification: Notification | null;
+  /** True while connected to the stream, false while polling */
+  isLive: boolean;
+}
+
+/**
+ * Custom hook to receive notification updates in real time
+ *
+ * Features:
+ * - Unread count pushed by the server on connection and on every change
+ * - New notifications exposed as latestNotification
+ * - Browser reconnection resumes from the last notification (Last-Event-ID)
+ * - Polling fallback while the stream is down
+ *
+ * @param enabled - Connect only when there is an authenticated user
+ * @returns {UseNotificationStreamReturn} Notification state
+ */
+export const useNotificationStream = (
+  enabled: boolean
+): UseNotificationStreamReturn => {
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [latestNotification, setLatestNotification] =
+    useState<Notification | null>(null);
+  const [isLive, setIsLive] = useState(false);
+
+  const fetchUnreadCount = useCallback(async () => {
+    try {
+      const count = await notificationService.getUnreadCount();
+      setUnreadCount(count);
+    } catch (error) {
+      // Silently fail - don't disrupt user experience
+      console.error('Error fetching unread count:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let source: EventSource | null = null;
+    let pollingId: ReturnType<typeof setInterval> | undefined;
+    let reconnectId: ReturnType<typeof setTimeout> | undefined;
+
+    const startPolling = () => {
+      if (pollingId) return;
+
+      fetchUnreadCount();
+      pollingId = setInterval(fetchUnreadCount, POLLING_INTERVAL);
+    };
+
+    const stopPolling = () => {
+      clearInterval(pollingId);
+      pollingId = undefined;
+    };
+
+    const connect = () => {
+      source = notificationService.openStream();
+
+      if (!source) {
+        startPolling();
+        return;
+      }
+
+      source.onopen = () => {
+        setIsLive(true);
+        stopPolling();
+      };
+
+      source.addEventListener('unread-count', (event) => {
+        const { unreadCount: count } = JSON.parse(
+          (event as MessageEvent<string>).data
+        ) as { unreadCount: number };
+        setUnreadCount(count);
+      });
+
+      source.addEventListener('notification', (event) => {
+        setLatestNotification(
+          JSON.parse((event as MessageEvent<string>).data) as Notification
+        );
+      });
+
+      source.onerror = () => {
+        setIsLive(false);
+        startPolling();
+
+        // CONNECTING: the browser retries by itself
+        // CLOSED: it gave up (e.g. 401), try again later
+        if (source?.readyState === EventSource.CLOSED) {
+          source.close();
+          reconnectId = setTimeout(connect, STREAM_RECONNECT_INTERVAL);
+        }
+      };
+    };
+
+    connect();
+
+    // Cleanup on unmount or logout
+    return () => {
+      source?.close();
+      stopPolling();
+      clearTimeout(reconnectId);
+      setIsLive(false);
+    };
+  }, [enabled, fetchUnreadCount]);
+
+  return {
+    unreadCount,
+    setUnreadCount,
+    latestNotification,
+    isLive,
+  };
+};
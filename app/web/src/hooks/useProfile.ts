@@ -102,7 +102,7 @@ export const useProfile = (userId?: string): UseProfileReturn => {
       const response = await userService.uploadPhoto(targetUserId, file);
 
       // Update user with new photo URL
-      const updatedUser = { ...user!, profilePhotoUrl: response.url };
+      const updatedUser = { ...user!, photoUrl: response.url };
       setUser(updatedUser);
 
       // Update auth store if updating own profile
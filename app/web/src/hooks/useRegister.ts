@@ -1,10 +1,12 @@
 import { useState } from 'react';
 import { authService } from '../services/auth.service';
-import type { RegisterData, ApiError } from '../types';
+import type { RegisterData, ApiError, AuthResponse } from '../types';
+import type { AcceptInvitationData } from '../types/invitations';
 import { useAuthStore } from '../store/authStore';
 
 interface UseRegisterReturn {
   register: (data: RegisterData) => Promise<void>;
+  acceptInvitation: (data: AcceptInvitationData) => Promise<void>;
   isLoading: boolean;
   error: string | null;
   clearError: () => void;
@@ -12,22 +14,24 @@ interface UseRegisterReturn {
 
 /**
  * Custom hook for user registration
- * Handles registration logic, loading states, and error handling
+ * Handles open registration and registration through an invite link,
+ * loading states, and error handling
  */
 export const useRegister = (): UseRegisterReturn => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const setUser = useAuthStore((state) => state.setUser);
 
-  const register = async (data: RegisterData): Promise<void> => {
+  const startSession = async (request: () => Promise<AuthResponse>): Promise<void> => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const response = await authService.register(data);
+      const response = await request();
 
-      // Store token and user in localStorage
+      // Store tokens and user in localStorage
       localStorage.setItem('authToken', response.token || '');
+      localStorage.setItem('refreshToken', response.refreshToken || '');
       localStorage.setItem('authUser', JSON.stringify(response.user));
 
       // Update auth store
@@ -42,7 +46,11 @@ export const useRegister = (): UseRegisterReturn => {
         const message = apiError.message;
 
         // Translate common error messages to Portuguese
-        if (message.toLowerCase().includes('email already exists') ||
+        if (message.toLowerCase().includes('invitation')) {
+          errorMessage = 'Este convite é inválido, expirou ou já foi utilizado';
+        } else if (message.toLowerCase().includes('registration is disabled')) {
+          errorMessage = 'O cadastro está disponível apenas por convite';
+        } else if (message.toLowerCase().includes('email already exists') ||
             message.toLowerCase().includes('email já existe') ||
             message.toLowerCase().includes('already registered')) {
           errorMessage = 'Este email já está cadastrado';
@@ -64,12 +72,19 @@ export const useRegister = (): UseRegisterReturn => {
     }
   };
 
+  const register = (data: RegisterData): Promise<void> =>
+    startSession(() => authService.register(data));
+
+  const acceptInvitation = (data: AcceptInvitationData): Promise<void> =>
+    startSession(() => authService.acceptInvitation(data));
+
   const clearError = () => {
     setError(null);
   };
 
   return {
     register,
+    acceptInvitation,
     isLoading,
     error,
     clearError,
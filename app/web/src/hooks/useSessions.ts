@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback } from 'react';
+import { authService } from '../services/auth.service';
+import type { ApiError, UserSession } from '../types';
+
+interface UseSessionsReturn {
+  sessions: UserSession[];
+  isLoading: boolean;
+  error: string | null;
+  revokeSession: (id: string) => Promise<void>;
+  revokeOtherSessions: () => Promise<void>;
+}
+
+/**
+ * Custom hook for the active sessions (devices) of the authenticated user
+ * Handles listing and ending sessions
+ */
+export const useSessions = (): UseSessionsReturn => {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch active sessions
+   */
+  const fetchSessions = useCallback(async () => {
+    try {
+      const data = await authService.getSessions();
+      setSessions(data);
+      setError(null);
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Erro ao carregar sessões');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * End one session
+   */
+  const revokeSession = async (id: string): Promise<void> => {
+    try {
+      await authService.revokeSession(id);
+      setSessions((current) => current.filter((session) => session.id !== id));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Erro ao encerrar sessão');
+    }
+  };
+
+  /**
+   * End every session except this one
+   */
+  const revokeOtherSessions = async (): Promise<void> => {
+    try {
+      await authService.revokeOtherSessions();
+      setSessions((current) => current.filter((session) => session.current));
+    } catch (err) {
+      const apiError = err as ApiError;
+      setError(apiError.message || 'Erro ao encerrar sessões');
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  return {
+    sessions,
+    isLoading,
+    error,
+    revokeSession,
+    revokeOtherSessions,
+  };
+};
@@ -0,0 +1,62 @@
+/**
+ * useUserPhoto Hook - Loads a user's profile photo
+ *
+ * The photo endpoint requires the Authorization header, which <img> cannot
+ * send, so the image is downloaded as a blob and exposed as an object URL.
+ * It is downloaded again whenever photoUrl changes (new upload).
+ *
+ * @example
+ * ```typescript
+ * const photoSrc = useUserPhoto(user.id, user.photoUrl);
+ *
+ * return photoSrc ? <img src={photoSrc} /> : <Initials />;
+ * ```
+ */
+
+import { useState, useEffect } from 'react';
+import { userService } from '../services/user.service';
+
+/**
+ * Custom hook to display an authenticated profile photo
+ *
+ * @param userId - User ID
+ * @param photoUrl - User's photoUrl (null/undefined when there is no photo)
+ * @returns Object URL of the photo, or null while loading / without photo
+ */
+export const useUserPhoto = (
+  userId: string | undefined,
+  photoUrl: string | null | undefined
+): string | null => {
+  // Keeps the photoUrl the blob was loaded for, so a stale photo is never shown
+  const [photo, setPhoto] = useState<{ photoUrl: string; objectUrl: string } | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!userId || !photoUrl) return;
+
+    let isCancelled = false;
+    let createdUrl: string | null = null;
+
+    userService
+      .getPhoto(userId)
+      .then((blob) => {
+        if (isCancelled) return;
+
+        createdUrl = URL.createObjectURL(blob);
+        setPhoto({ photoUrl, objectUrl: createdUrl });
+      })
+      .catch((err: unknown) => {
+        // Keep the initials avatar
+        console.error('Error loading profile photo:', err);
+      });
+
+    // Release the previous blob when the photo changes or on unmount
+    return () => {
+      isCancelled = true;
+      if (createdUrl) URL.revokeObjectURL(createdUrl);
+    };
+  }, [userId, photoUrl]);
+
+  return photo && photo.photoUrl === photoUrl ? photo.objectUrl : null;
+};
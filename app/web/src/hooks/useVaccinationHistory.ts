@@ -5,18 +5,21 @@ import type { VaccinationHistory } from '../types';
 interface UseVaccinationHistoryReturn {
   history: VaccinationHistory | null;
   isLoading: boolean;
+  isDownloading: boolean;
   error: string | null;
   fetchHistory: (userId: string) => Promise<void>;
+  downloadCard: (userId: string) => Promise<void>;
   clearError: () => void;
 }
 
 /**
  * Custom hook for managing user vaccination history
- * Handles fetching complete vaccination card data
+ * Handles fetching complete vaccination card data and downloading it as PDF
  */
 export const useVaccinationHistory = (): UseVaccinationHistoryReturn => {
   const [history, setHistory] = useState<VaccinationHistory | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   /**
@@ -38,6 +41,23 @@ export const useVaccinationHistory = (): UseVaccinationHistoryReturn => {
     }
   }, []);
 
+  /**
+   * Download the vaccination card of a user as PDF
+   */
+  const downloadCard = useCallback(async (userId: string) => {
+    setIsDownloading(true);
+    setError(null);
+
+    try {
+      await vaccineApplicationService.downloadCardPdf(userId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Erro ao baixar cartão de vacinação';
+      setError(errorMessage);
+    } finally {
+      setIsDownloading(false);
+    }
+  }, []);
+
   /**
    * Clear error
    */
@@ -48,8 +68,10 @@ export const useVaccinationHistory = (): UseVaccinationHistoryReturn => {
   return {
     history,
     isLoading,
+    isDownloading,
     error,
     fetchHistory,
+    downloadCard,
     clearError,
   };
 };
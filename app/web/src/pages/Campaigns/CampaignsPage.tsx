@@ -0,0 +1,609 @@
+import { useEffect, useState } from 'react';
+import {
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Megaphone,
+  Play,
+  Plus,
+  RefreshCw,
+  XCircle,
+} from 'lucide-react';
+import { DashboardLayout } from '../../components/layout/DashboardLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
+import { Badge } from '../../components/ui/Badge';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Modal } from '../../components/ui/Modal';
+import { Select } from '../../components/common/Select';
+import { ConfirmDialog } from '../../components/ui/ConfirmDialog';
+import { useAuth } from '../../hooks/useAuth';
+import { campaignService } from '../../services/campaign.service';
+import { userService } from '../../services/user.service';
+import { vaccineService } from '../../services/vaccine.service';
+import { Permission, UserRole, type User, type Vaccine } from '../../types';
+import {
+  CampaignStatus,
+  type Campaign,
+  type CreateCampaignData,
+} from '../../types/campaigns';
+import { formatDate, formatRole } from '../../utils/formatters';
+import { cn } from '../../utils/cn';
+
+const campaignStatusLabels: Record<CampaignStatus, string> = {
+  [CampaignStatus.DRAFT]: 'Rascunho',
+  [CampaignStatus.ACTIVE]: 'Em andamento',
+  [CampaignStatus.FINISHED]: 'Encerrada',
+  [CampaignStatus.CANCELLED]: 'Cancelada',
+};
+
+const campaignStatusVariants: Record<
+  CampaignStatus,
+  'default' | 'success' | 'warning' | 'danger' | 'info'
+> = {
+  [CampaignStatus.DRAFT]: 'default',
+  [CampaignStatus.ACTIVE]: 'info',
+  [CampaignStatus.FINISHED]: 'success',
+  [CampaignStatus.CANCELLED]: 'danger',
+};
+
+const emptyForm = {
+  name: '',
+  description: '',
+  vaccineId: '',
+  doseNumber: '1',
+  targetRoles: [UserRole.EMPLOYEE] as UserRole[],
+  onlyMissingDoses: true,
+  startDate: '',
+  endDate: '',
+  dailyCapacity: '40',
+  nurseIds: [] as string[],
+};
+
+/**
+ * Campaigns Page (NURSE and MANAGER)
+ * Lists vaccination campaigns with their progress. Managers create campaigns,
+ * generate their schedulings and finish or cancel them.
+ */
+export const CampaignsPage = () => {
+  const { can } = useAuth();
+  const canManage = can(Permission.CAMPAIGN_MANAGE);
+
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState('');
+
+  // Pagination
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const perPage = 10;
+
+  // Create form
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [vaccines, setVaccines] = useState<Vaccine[]>([]);
+  const [nurses, setNurses] = useState<User[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Actions
+  const [campaignToCancel, setCampaignToCancel] = useState<Campaign | null>(null);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const showError = (message: string) => {
+    setError(message);
+    setTimeout(() => setError(null), 5000);
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 5000);
+  };
+
+  const loadCampaigns = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await campaignService.list({
+        page: currentPage,
+        perPage,
+        sortBy: 'startDate',
+        sortOrder: 'desc',
+        status: (statusFilter || undefined) as CampaignStatus | undefined,
+      });
+      setCampaigns(response.data);
+      setTotalPages(response.pagination.totalPages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar campanhas');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCampaigns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentPage, statusFilter]);
+
+  // Load vaccines and nurses for the create form
+  useEffect(() => {
+    if (!canManage) return;
+
+    const loadOptions = async () => {
+      try {
+        const [vaccinesResponse, nursesResponse] = await Promise.all([
+          vaccineService.list({ page: 1, perPage: 100, sortBy: 'name', sortOrder: 'asc' }),
+          userService.list({
+            page: 1,
+            perPage: 100,
+            sortBy: 'name',
+            sortOrder: 'asc',
+            role: UserRole.NURSE,
+            isActive: true,
+          }),
+        ]);
+        setVaccines(vaccinesResponse.data);
+        setNurses(nursesResponse.data);
+      } catch (err) {
+        console.error('Error loading campaign options:', err);
+      }
+    };
+
+    loadOptions();
+  }, [canManage]);
+
+  const toggleValue = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.targetRoles.length === 0) {
+      showError('Selecione ao menos um perfil de público-alvo');
+      return;
+    }
+
+    const data: CreateCampaignData = {
+      name: form.name.trim(),
+      vaccineId: form.vaccineId,
+      doseNumber: Number(form.doseNumber),
+      targetRoles: form.targetRoles,
+      onlyMissingDoses: form.onlyMissingDoses,
+      startDate: form.startDate,
+      endDate: form.endDate,
+      dailyCapacity: Number(form.dailyCapacity),
+      nurseIds: form.nurseIds,
+    };
+    if (form.description.trim()) data.description = form.description.trim();
+
+    setIsSaving(true);
+    try {
+      await campaignService.create(data);
+      setIsFormOpen(false);
+      setForm(emptyForm);
+      showSuccess('Campanha criada com sucesso! Gere os agendamentos quando estiver pronta.');
+      loadCampaigns();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erro ao criar campanha');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleGenerate = async (campaign: Campaign) => {
+    setActionLoading(campaign.id);
+    try {
+      const result = await campaignService.generate(campaign.id);
+      const skipped = result.skipped.noCapacity + result.skipped.previousDoseMissing;
+      let message = `${result.created} agendamento(s) criado(s) para "${campaign.name}".`;
+      if (skipped > 0) message += ` ${skipped} pessoa(s) sem vaga ou sem a dose anterior.`;
+      if (result.stoppedByStock) message += ' Geração interrompida por falta de estoque.';
+      showSuccess(message);
+      loadCampaigns();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erro ao gerar agendamentos');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleFinish = async (campaign: Campaign) => {
+    setActionLoading(campaign.id);
+    try {
+      await campaignService.finish(campaign.id);
+      showSuccess(`Campanha "${campaign.name}" encerrada.`);
+      loadCampaigns();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erro ao encerrar campanha');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!campaignToCancel) return;
+
+    setActionLoading(campaignToCancel.id);
+    try {
+      await campaignService.cancel(campaignToCancel.id);
+      showSuccess(`Campanha "${campaignToCancel.name}" cancelada.`);
+      loadCampaigns();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erro ao cancelar campanha');
+    } finally {
+      setCampaignToCancel(null);
+      setActionLoading(null);
+    }
+  };
+
+  const selectedVaccine = vaccines.find((vaccine) => vaccine.id === form.vaccineId);
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Campanhas de Vacinação</h1>
+            <p className="text-gray-600 mt-1">
+              Acompanhe o andamento das campanhas e seus agendamentos
+            </p>
+          </div>
+          {canManage && (
+            <Button onClick={() => setIsFormOpen(true)} className="flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              Nova Campanha
+            </Button>
+          )}
+        </div>
+
+        {/* Success/Error messages */}
+        {successMessage && (
+          <div className="p-4 bg-success-50 border border-success-200 rounded-lg">
+            <p className="text-success-700 text-sm font-medium">{successMessage}</p>
+          </div>
+        )}
+        {error && (
+          <div className="p-4 bg-danger-50 border border-danger-200 rounded-lg">
+            <p className="text-danger-700 text-sm font-medium">{error}</p>
+          </div>
+        )}
+
+        {/* Campaigns */}
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <CardTitle className="text-xl font-bold text-gray-900">Campanhas</CardTitle>
+              <div className="flex items-center gap-2">
+                <div className="w-48">
+                  <Select
+                    id="campaign-status"
+                    options={Object.values(CampaignStatus).map((value) => ({
+                      value,
+                      label: campaignStatusLabels[value],
+                    }))}
+                    value={statusFilter}
+                    onChange={(e) => {
+                      setStatusFilter(e.target.value);
+                      setCurrentPage(1);
+                    }}
+                    placeholder="Todos os status"
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={loadCampaigns}
+                  disabled={isLoading}
+                  className="flex items-center gap-2"
+                >
+                  <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+                  Atualizar
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16">
+                <div className="text-center">
+                  <RefreshCw className="h-10 w-10 animate-spin text-primary-600 mx-auto mb-4" />
+                  <p className="text-gray-600 font-medium">Carregando campanhas...</p>
+                </div>
+              </div>
+            ) : campaigns.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+                <Megaphone className="h-16 w-16 mb-4 opacity-40" />
+                <p className="text-lg font-semibold text-gray-700">Nenhuma campanha encontrada</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-100">
+                {campaigns.map((campaign) => {
+                  const { progress } = campaign;
+                  const isBusy = actionLoading === campaign.id;
+
+                  return (
+                    <div key={campaign.id} className="py-5 space-y-3">
+                      <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <h3 className="text-lg font-semibold text-gray-900">{campaign.name}</h3>
+                            <Badge variant={campaignStatusVariants[campaign.status]} size="sm">
+                              {campaignStatusLabels[campaign.status]}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-gray-600 mt-1">
+                            {campaign.vaccine.name} ({campaign.vaccine.manufacturer}) ·{' '}
+                            {campaign.doseNumber}ª dose · {formatDate(campaign.startDate)} a{' '}
+                            {formatDate(campaign.endDate)} · {campaign.dailyCapacity} por dia
+                          </p>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Público: {campaign.targetRoles.map(formatRole).join(', ')}
+                            {campaign.nurses.length > 0 &&
+                              ` · Equipe: ${campaign.nurses.map((nurse) => nurse.name).join(', ')}`}
+                          </p>
+                        </div>
+
+                        {canManage && (
+                          <div className="flex gap-2 shrink-0">
+                            {(campaign.status === CampaignStatus.DRAFT ||
+                              campaign.status === CampaignStatus.ACTIVE) && (
+                              <Button
+                                size="sm"
+                                onClick={() => handleGenerate(campaign)}
+                                isLoading={isBusy}
+                                className="flex items-center gap-1"
+                              >
+                                {!isBusy && <Play className="h-4 w-4" />}
+                                Gerar agendamentos
+                              </Button>
+                            )}
+                            {campaign.status === CampaignStatus.ACTIVE && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleFinish(campaign)}
+                                disabled={isBusy}
+                                className="flex items-center gap-1"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                                Encerrar
+                              </Button>
+                            )}
+                            {(campaign.status === CampaignStatus.DRAFT ||
+                              campaign.status === CampaignStatus.ACTIVE) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setCampaignToCancel(campaign)}
+                                disabled={isBusy}
+                                className="flex items-center gap-1 text-danger-600"
+                              >
+                                <XCircle className="h-4 w-4" />
+                                Cancelar
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Progress */}
+                      <div>
+                        <div className="flex justify-between text-xs text-gray-600 mb-1">
+                          <span>{progress.completionRate}% aplicado</span>
+                          <span>
+                            {progress.applied} de {progress.total - progress.cancelled} doses
+                          </span>
+                        </div>
+                        <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-success-500"
+                            style={{ width: `${Math.min(progress.completionRate, 100)}%` }}
+                          />
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {[
+                          { label: 'Agendados', value: progress.scheduled },
+                          { label: 'Aplicados', value: progress.applied },
+                          { label: 'Não compareceram', value: progress.noShow },
+                          { label: 'Cancelados', value: progress.cancelled },
+                        ].map((item) => (
+                          <div key={item.label} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                            <p className="text-xs text-gray-500">{item.label}</p>
+                            <p className="text-lg font-semibold text-gray-900">{item.value}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {!isLoading && campaigns.length > 0 && totalPages > 1 && (
+              <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mt-6 pt-6 border-t border-gray-200">
+                <p className="text-sm text-gray-600 font-medium">
+                  Página {currentPage} de {totalPages}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage - 1)}
+                    disabled={currentPage === 1}
+                    className="flex items-center gap-1"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Anterior
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage + 1)}
+                    disabled={currentPage === totalPages}
+                    className="flex items-center gap-1"
+                  >
+                    Próxima
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Create Campaign Modal */}
+        <Modal
+          isOpen={isFormOpen}
+          onClose={() => setIsFormOpen(false)}
+          title="Nova Campanha"
+          size="lg"
+        >
+          <form onSubmit={handleCreate} className="space-y-4">
+            <Input
+              id="campaign-name"
+              label="Nome *"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              minLength={3}
+              maxLength={120}
+              required
+            />
+            <Input
+              id="campaign-description"
+              label="Descrição"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              maxLength={1000}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                id="campaign-vaccine"
+                label="Vacina *"
+                options={vaccines.map((vaccine) => ({
+                  value: vaccine.id,
+                  label: `${vaccine.name} (${vaccine.manufacturer})`,
+                }))}
+                value={form.vaccineId}
+                onChange={(e) => setForm({ ...form, vaccineId: e.target.value, doseNumber: '1' })}
+                required
+              />
+              <Select
+                id="campaign-dose"
+                label="Dose *"
+                options={Array.from(
+                  { length: selectedVaccine?.dosesRequired ?? 1 },
+                  (_, index) => ({ value: String(index + 1), label: `${index + 1}ª dose` }),
+                )}
+                value={form.doseNumber}
+                onChange={(e) => setForm({ ...form, doseNumber: e.target.value })}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input
+                id="campaign-start-date"
+                type="date"
+                label="Início *"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                required
+              />
+              <Input
+                id="campaign-end-date"
+                type="date"
+                label="Fim *"
+                value={form.endDate}
+                min={form.startDate || undefined}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                required
+              />
+              <Input
+                id="campaign-capacity"
+                type="number"
+                label="Vagas por dia *"
+                value={form.dailyCapacity}
+                min={1}
+                max={500}
+                onChange={(e) => setForm({ ...form, dailyCapacity: e.target.value })}
+                required
+              />
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Público-alvo *</p>
+              <div className="flex flex-wrap gap-4">
+                {Object.values(UserRole).map((role) => (
+                  <label key={role} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.targetRoles.includes(role)}
+                      onChange={() =>
+                        setForm({ ...form, targetRoles: toggleValue(form.targetRoles, role) })
+                      }
+                    />
+                    {formatRole(role)}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 mt-2">
+                <input
+                  type="checkbox"
+                  checked={form.onlyMissingDoses}
+                  onChange={(e) => setForm({ ...form, onlyMissingDoses: e.target.checked })}
+                />
+                Apenas quem ainda não recebeu esta dose
+              </label>
+            </div>
+
+            {nurses.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Equipe de enfermagem</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 max-h-40 overflow-y-auto">
+                  {nurses.map((nurse) => (
+                    <label key={nurse.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={form.nurseIds.includes(nurse.id)}
+                        onChange={() =>
+                          setForm({ ...form, nurseIds: toggleValue(form.nurseIds, nurse.id) })
+                        }
+                      />
+                      {nurse.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => setIsFormOpen(false)}>
+                Cancelar
+              </Button>
+              <Button type="submit" isLoading={isSaving}>
+                Criar Campanha
+              </Button>
+            </div>
+          </form>
+        </Modal>
+
+        {/* Cancel Confirmation Dialog */}
+        <ConfirmDialog
+          isOpen={Boolean(campaignToCancel)}
+          onClose={() => setCampaignToCancel(null)}
+          onConfirm={handleCancel}
+          title="Cancelar Campanha"
+          message={`Tem certeza que deseja cancelar a campanha "${campaignToCancel?.name}"? Os agendamentos pendentes serão cancelados.`}
+          confirmText="Cancelar campanha"
+          cancelText="Voltar"
+          variant="danger"
+          isLoading={actionLoading === campaignToCancel?.id}
+        />
+      </div>
+    </DashboardLayout>
+  );
+};
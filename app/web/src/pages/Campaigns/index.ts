@@ -0,0 +1 @@
+export { CampaignsPage } from './CampaignsPage';
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { CheckCircle, Clock, Syringe, XCircle } from 'lucide-react';
+import { certificateService } from '../../services/certificate.service';
+import {
+  CertificateStatus,
+  type CertificateVerification,
+} from '../../types/certificates';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
+import { formatDate } from '../../utils/formatters';
+
+const STATUS_DISPLAY: Record<
+  CertificateStatus,
+  { label: string; className: string; icon: React.ReactNode }
+> = {
+  VALID: {
+    label: 'Certificado válido',
+    className: 'bg-success-50 border-success-200 text-success-700',
+    icon: <CheckCircle className="h-6 w-6" />,
+  },
+  EXPIRED: {
+    label: 'Certificado expirado',
+    className: 'bg-warning-50 border-warning-200 text-warning-700',
+    icon: <Clock className="h-6 w-6" />,
+  },
+  REVOKED: {
+    label: 'Certificado revogado',
+    className: 'bg-danger-50 border-danger-200 text-danger-700',
+    icon: <XCircle className="h-6 w-6" />,
+  },
+};
+
+/**
+ * Certificate verification page (public)
+ * Opened from the QR code of a vaccination certificate (/certificates/verify/:code)
+ */
+export const CertificateVerificationPage: React.FC = () => {
+  const { code } = useParams<{ code: string }>();
+  const [verification, setVerification] = useState<CertificateVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (!code) return;
+
+    certificateService
+      .verify(code)
+      .then(setVerification)
+      .catch(() => setError('Certificado não encontrado ou assinatura inválida.'))
+      .finally(() => setIsLoading(false));
+  }, [code]);
+
+  const renderContent = () => {
+    if (isLoading && code) {
+      return (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-primary-600"></div>
+        </div>
+      );
+    }
+
+    if (!verification) {
+      return (
+        <div className="p-4 bg-danger-50 border border-danger-200 rounded-lg flex items-center gap-3 text-danger-700">
+          <XCircle className="h-6 w-6" />
+          <p className="text-sm">{error ?? 'Link de verificação inválido.'}</p>
+        </div>
+      );
+    }
+
+    const status = STATUS_DISPLAY[verification.status];
+
+    return (
+      <div className="space-y-4">
+        <div className={`p-4 border rounded-lg flex items-center gap-3 ${status.className}`}>
+          {status.icon}
+          <div>
+            <p className="font-semibold">{status.label}</p>
+            {verification.status === CertificateStatus.REVOKED && verification.revokedAt && (
+              <p className="text-sm">Revogado em {formatDate(verification.revokedAt)}</p>
+            )}
+          </div>
+        </div>
+
+        <dl className="grid grid-cols-2 gap-2 text-sm">
+          <dt className="text-gray-500">Titular</dt>
+          <dd className="text-gray-900 font-medium">{verification.holderInitials}</dd>
+          <dt className="text-gray-500">Emitido em</dt>
+          <dd className="text-gray-900">{formatDate(verification.issuedAt)}</dd>
+          <dt className="text-gray-500">Válido até</dt>
+          <dd className="text-gray-900">{formatDate(verification.expiresAt)}</dd>
+        </dl>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Vacinas</h3>
+          <ul className="space-y-3">
+            {verification.vaccines.map((vaccine) => (
+              <li key={vaccine.name} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex justify-between items-center">
+                  <span className="font-medium text-gray-900">{vaccine.name}</span>
+                  <span className="text-xs text-gray-500">
+                    {vaccine.isComplete ? 'Esquema completo' : 'Esquema em andamento'}
+                  </span>
+                </div>
+                <ul className="mt-1 text-sm text-gray-600">
+                  {vaccine.doses.map((dose) => (
+                    <li key={dose.doseNumber}>
+                      {dose.doseNumber}ª dose: {formatDate(dose.applicationDate)}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-medical-lightBlue flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo and branding */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary-500 rounded-2xl mb-4">
+            <Syringe className="h-8 w-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Univas Enfermagem
+          </h1>
+          <p className="text-gray-600">Sistema de Gestão de Vacinação</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Verificação de Certificado</CardTitle>
+          </CardHeader>
+          <CardContent>{renderContent()}</CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
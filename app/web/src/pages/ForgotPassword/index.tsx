@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Syringe } from 'lucide-react';
+import { ForgotPasswordFormSchema } from '../../utils/validationSchemas';
+import type { ForgotPasswordFormData } from '../../utils/validationSchemas';
+import { authService } from '../../services/auth.service';
+import { handleApiError } from '../../services/api';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
+
+/**
+ * Forgot password page
+ * Requests a password reset link, sent to the user's email
+ */
+export const ForgotPasswordPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [isSent, setIsSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(ForgotPasswordFormSchema),
+    defaultValues: {
+      email: '',
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    setError(null);
+
+    try {
+      await authService.forgotPassword(data.email);
+      setIsSent(true);
+    } catch (err) {
+      setError(handleApiError(err));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-medical-lightBlue flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo and branding */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary-500 rounded-2xl mb-4">
+            <Syringe className="h-8 w-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Univas Enfermagem
+          </h1>
+          <p className="text-gray-600">Sistema de Gestão de Vacinação</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recuperar Senha</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isSent ? (
+              <p className="text-sm text-gray-700">
+                Se o email estiver cadastrado, você receberá um link para redefinir sua senha.
+                O link expira em 30 minutos.
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  Informe o email da sua conta para receber um link de redefinição de senha.
+                </p>
+
+                <Input
+                  label="Email"
+                  type="email"
+                  placeholder="seu.email@exemplo.com"
+                  error={errors.email?.message}
+                  {...register('email')}
+                  autoComplete="email"
+                />
+
+                {error && (
+                  <div
+                    className="p-3 bg-danger-50 border border-danger-200 rounded-lg"
+                    role="alert"
+                  >
+                    <p className="text-sm text-danger-700">{error}</p>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  isLoading={isSubmitting}
+                  disabled={isSubmitting}
+                >
+                  Enviar link
+                </Button>
+              </form>
+            )}
+
+            <div className="mt-6 text-center">
+              <button
+                type="button"
+                onClick={() => navigate('/login')}
+                className="text-sm font-semibold text-primary-600 hover:text-primary-700 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 rounded"
+              >
+                Voltar para o login
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -98,6 +98,17 @@ export const LoginPage: React.FC = () => {
                 autoComplete="current-password"
               />
 
+              {/* Forgot password link */}
+              <div className="text-right">
+                <button
+                  type="button"
+                  onClick={() => navigate('/forgot-password')}
+                  className="text-sm text-primary-600 hover:text-primary-700 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 rounded"
+                >
+                  Esqueceu a senha?
+                </button>
+              </div>
+
               {/* Error message */}
               {error && (
                 <div
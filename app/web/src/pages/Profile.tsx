@@ -5,6 +5,7 @@ import { Camera, Save, X, Mail, Phone, Calendar, Shield } from 'lucide-react';
 import { UpdateProfileSchema } from '../utils/validationSchemas';
 import type { UpdateProfileFormData } from '../utils/validationSchemas';
 import { useProfile } from '../hooks/useProfile';
+import { useUserPhoto } from '../hooks/useUserPhoto';
 import { useAuthStore } from '../store/authStore';
 import { FormInput } from '../components/common/FormInput';
 import { MaskedInput } from '../components/common/MaskedInput';
@@ -12,23 +13,26 @@ import { Select } from '../components/common/Select';
 import { Button } from '../components/ui/Button';
 import { Card, CardContent } from '../components/ui/Card';
 import { Badge } from '../components/ui/Badge';
-import { UserRole } from '../types';
+import { Permission, UserRole } from '../types';
 import { formatCPF, formatPhone, formatRole, formatDate, getInitials } from '../utils/formatters';
 import { DashboardLayout } from '../components/layout/DashboardLayout';
+import { ActiveSessionsCard, ChangePasswordCard } from '../components/users';
 
 /**
  * Profile page component
  * Displays and allows editing of the authenticated user's profile
  */
 export const Profile: React.FC = () => {
-  const authUser = useAuthStore((state) => state.user);
+  const authPermissions = useAuthStore((state) => state.permissions);
   const { user, isLoading, error, updateProfile, uploadPhoto } = useProfile();
   const [isEditing, setIsEditing] = useState(false);
   const [photoFile, setPhotoFile] = useState<File | null>(null);
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
   const [isUploadingPhoto, setIsUploadingPhoto] = useState(false);
+  const photoSrc = useUserPhoto(user?.id, user?.photoUrl);
 
-  const isManager = authUser?.role === UserRole.MANAGER;
+  // Role and COREN of any user can only be changed with user:write
+  const canManageUsers = authPermissions.includes(Permission.USER_WRITE);
 
   const {
     register,
@@ -58,8 +62,8 @@ export const Profile: React.FC = () => {
     const currentPhone = watchedPhone || '';
     const originalPhone = user.phone || '';
     const phoneChanged = currentPhone !== originalPhone;
-    const roleChanged = isManager && watchedRole && watchedRole !== user.role;
-    const corenChanged = isManager && watchedRole === 'NURSE' && watchedCoren && watchedCoren.trim() !== (user.coren || '');
+    const roleChanged = canManageUsers && watchedRole && watchedRole !== user.role;
+    const corenChanged = canManageUsers && watchedRole === 'NURSE' && watchedCoren && watchedCoren.trim() !== (user.coren || '');
 
     console.log('hasChanges debug:', {
       watchedPhone,
@@ -74,7 +78,7 @@ export const Profile: React.FC = () => {
     });
 
     return nameChanged || phoneChanged || roleChanged || corenChanged;
-  }, [user, watchedName, watchedPhone, watchedRole, watchedCoren, isManager]);
+  }, [user, watchedName, watchedPhone, watchedRole, watchedCoren, canManageUsers]);
 
   // Reset form when user data loads or when starting edit
   React.useEffect(() => {
@@ -116,7 +120,7 @@ export const Profile: React.FC = () => {
       }
 
       // Only MANAGER can update role and coren
-      if (isManager) {
+      if (canManageUsers) {
         if (data.role && data.role !== user.role) {
           updateData.role = data.role;
         }
@@ -226,9 +230,9 @@ export const Profile: React.FC = () => {
             <div className="flex flex-col md:flex-row items-center md:items-start gap-6">
             {/* Profile Photo */}
             <div className="relative">
-              {photoPreview || user.profilePhotoUrl ? (
+              {photoPreview || photoSrc ? (
                 <img
-                  src={photoPreview || user.profilePhotoUrl!}
+                  src={photoPreview || photoSrc!}
                   alt={user.name}
                   className="w-32 h-32 rounded-full object-cover border-4 border-white shadow-lg"
                 />
@@ -428,7 +432,7 @@ export const Profile: React.FC = () => {
                 </div>
 
                 {/* Only managers can change role */}
-                {isManager && (
+                {canManageUsers && (
                   <div className="space-y-4">
                     <h3 className="text-sm font-semibold text-gray-900 pb-2 border-b border-gray-200">
                       Informações da Conta
@@ -479,6 +483,12 @@ export const Profile: React.FC = () => {
             </CardContent>
           </Card>
         )}
+
+        {/* Change Password */}
+        <ChangePasswordCard />
+
+        {/* Active Sessions */}
+        <ActiveSessionsCard />
       </div>
     </DashboardLayout>
   );
@@ -1,15 +1,17 @@
 import { zodResolver } from '@hookform/resolvers/zod';
 import { Eye, EyeOff, UserPlus } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { FormInput } from '../components/common/FormInput';
 import { MaskedInput } from '../components/common/MaskedInput';
-import { Select } from '../components/common/Select';
 import { Button } from '../components/ui/Button';
 import { Card, CardContent } from '../components/ui/Card';
 import { useRegister } from '../hooks/useRegister';
+import { invitationService } from '../services/invitation.service';
 import { UserRole } from '../types';
+import type { InvitationPreview } from '../types/invitations';
+import { formatDate, formatRole } from '../utils/formatters';
 import {
   type RegisterFormData,
   RegisterFormSchema,
@@ -17,13 +19,24 @@ import {
 
 /**
  * Registration page component
- * Allows new users to create an account with all required fields
+ * Open registration creates EMPLOYEE accounts. With an invite link
+ * (/register?invite=<token>), the email and role come from the invitation.
  */
 export const Registration = () => {
   const navigate = useNavigate();
-  const { register: registerUser, isLoading, error } = useRegister();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const {
+    register: registerUser,
+    acceptInvitation,
+    isLoading,
+    error,
+  } = useRegister();
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  const [invitation, setInvitation] = useState<InvitationPreview | null>(null);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [isLoadingInvite, setIsLoadingInvite] = useState(!!inviteToken);
 
   const {
     register,
@@ -34,18 +47,48 @@ export const Registration = () => {
   } = useForm<RegisterFormData>({
     resolver: zodResolver(RegisterFormSchema),
     defaultValues: {
-      role: '' as any,
+      role: UserRole.EMPLOYEE,
     },
   });
 
   const selectedRole = watch('role');
 
+  // Load the invitation of the link, which fixes the email and the role
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    invitationService
+      .preview(inviteToken)
+      .then((preview) => {
+        setInvitation(preview);
+        setValue('email', preview.email);
+        setValue('role', preview.role);
+      })
+      .catch(() => {
+        setInviteError(
+          'Este convite é inválido, expirou ou já foi utilizado. Peça um novo convite ao gerente.'
+        );
+      })
+      .finally(() => setIsLoadingInvite(false));
+  }, [inviteToken, setValue]);
+
   const onSubmit = async (data: RegisterFormData) => {
     try {
       // Remove confirmPassword before sending to API
       const { confirmPassword, ...registerData } = data;
 
-      await registerUser(registerData);
+      if (inviteToken && invitation) {
+        await acceptInvitation({
+          token: inviteToken,
+          name: registerData.name,
+          password: registerData.password,
+          cpf: registerData.cpf,
+          phone: registerData.phone,
+          coren: registerData.coren,
+        });
+      } else {
+        await registerUser({ ...registerData, role: UserRole.EMPLOYEE });
+      }
 
       // Navigate to dashboard on success
       navigate('/dashboard');
@@ -55,12 +98,6 @@ export const Registration = () => {
     }
   };
 
-  const roleOptions = [
-    { value: UserRole.EMPLOYEE, label: 'Funcionário' },
-    { value: UserRole.NURSE, label: 'Enfermeiro' },
-    { value: UserRole.MANAGER, label: 'Gerente' },
-  ];
-
   return (
     <div className="min-h-screen bg-linear-to-br from-primary-50 via-white to-medical-lightBlue flex items-center justify-center px-4 py-8">
       <div className="w-full max-w-2xl">
@@ -71,12 +108,20 @@ export const Registration = () => {
           </div>
           <h1 className="text-2xl font-bold text-gray-900">Criar Conta</h1>
           <p className="text-gray-600 mt-1 text-sm">
-            Preencha os dados abaixo para se cadastrar no sistema
+            {invitation
+              ? `Você foi convidado como ${formatRole(invitation.role)}. Complete seu cadastro até ${formatDate(invitation.expiresAt)}`
+              : 'Preencha os dados abaixo para se cadastrar no sistema'}
           </p>
         </div>
 
         <Card>
           <CardContent className="pt-6">
+            {inviteError && (
+              <div className="mb-6 p-3 bg-warning-50 border border-warning-200 rounded-lg">
+                <p className="text-warning-700 text-sm">{inviteError}</p>
+              </div>
+            )}
+
             {error && (
               <div className="mb-6 p-3 bg-danger-50 border border-danger-200 rounded-lg">
                 <p className="text-danger-700 text-sm">{error}</p>
@@ -106,6 +151,10 @@ export const Registration = () => {
                     placeholder="joao@exemplo.com"
                     register={register('email')}
                     error={errors.email?.message}
+                    readOnly={!!invitation}
+                    helperText={
+                      invitation ? 'Email do convite' : undefined
+                    }
                     required
                   />
                 </div>
@@ -140,13 +189,16 @@ export const Registration = () => {
                 </h2>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <Select
+                  <FormInput
                     label="Função"
-                    options={roleOptions}
-                    placeholder="Selecione sua função"
-                    register={register('role')}
-                    error={errors.role?.message}
-                    required
+                    type="text"
+                    value={formatRole(selectedRole)}
+                    readOnly
+                    helperText={
+                      invitation
+                        ? 'Definida pelo convite'
+                        : 'Enfermeiros e gerentes se cadastram por convite'
+                    }
                   />
 
                   {selectedRole === UserRole.NURSE && (
@@ -215,7 +267,7 @@ export const Registration = () => {
                   className="w-full"
                   size="lg"
                   isLoading={isLoading}
-                  disabled={isLoading}
+                  disabled={isLoading || isLoadingInvite}
                 >
                   {isLoading ? 'Criando conta...' : 'Criar Conta'}
                 </Button>
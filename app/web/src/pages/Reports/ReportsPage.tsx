@@ -0,0 +1,563 @@
+import { useEffect, useState } from 'react';
+import {
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Eye,
+  FileBarChart,
+  FileText,
+  RefreshCw,
+  Trash2,
+} from 'lucide-react';
+import { DashboardLayout } from '../../components/layout/DashboardLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Select } from '../../components/common/Select';
+import { ConfirmDialog } from '../../components/ui/ConfirmDialog';
+import { reportService } from '../../services/report.service';
+import { userService } from '../../services/user.service';
+import { vaccineService } from '../../services/vaccine.service';
+import type { User, Vaccine } from '../../types';
+import {
+  ReportType,
+  type GenerateReportData,
+  type Report,
+  type ReportDownloadFormat,
+  type ReportValue,
+  type ReportWithContent,
+} from '../../types/reports';
+import { formatDate, formatDateTime } from '../../utils/formatters';
+import { cn } from '../../utils/cn';
+
+const reportTypeLabels: Record<ReportType, string> = {
+  [ReportType.GENERAL]: 'Geral',
+  [ReportType.BY_EMPLOYEE]: 'Por Funcionário',
+  [ReportType.BY_VACCINE]: 'Por Vacina',
+  [ReportType.BY_PERIOD]: 'Por Período',
+  [ReportType.COVERAGE]: 'Cobertura Vacinal',
+  [ReportType.WASTE]: 'Perdas de Doses',
+};
+
+const reportTypeDescriptions: Record<ReportType, string> = {
+  [ReportType.GENERAL]: 'Visão geral de aplicações, agendamentos e estoque por vacina.',
+  [ReportType.BY_EMPLOYEE]: 'Histórico de vacinação de um funcionário específico.',
+  [ReportType.BY_VACCINE]: 'Aplicações agrupadas por vacina e dose.',
+  [ReportType.BY_PERIOD]: 'Todas as aplicações realizadas no período informado.',
+  [ReportType.COVERAGE]: 'Retrato da cobertura vacinal atual da organização.',
+  [ReportType.WASTE]: 'Doses descartadas e vencidas por vacina, com o motivo do descarte.',
+};
+
+const formatReportValue = (value: ReportValue): string => {
+  if (value === null) return '-';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  return String(value);
+};
+
+/**
+ * Reports Page (MANAGER only)
+ * Allows managers to generate reports, browse the history and download files
+ */
+export const ReportsPage = () => {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Pagination
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalReports, setTotalReports] = useState(0);
+  const perPage = 10;
+
+  // Generate form
+  const [type, setType] = useState<ReportType>(ReportType.GENERAL);
+  const [title, setTitle] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [userId, setUserId] = useState('');
+  const [vaccineId, setVaccineId] = useState('');
+  const [users, setUsers] = useState<User[]>([]);
+  const [vaccines, setVaccines] = useState<Vaccine[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Preview / delete
+  const [selectedReport, setSelectedReport] = useState<ReportWithContent | null>(null);
+  const [reportToDelete, setReportToDelete] = useState<Report | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const showError = (message: string) => {
+    setError(message);
+    setTimeout(() => setError(null), 5000);
+  };
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  // Load report history
+  const loadReports = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await reportService.list({
+        page: currentPage,
+        perPage,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+      });
+      setReports(response.data);
+      setTotalPages(response.pagination.totalPages);
+      setTotalReports(response.pagination.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar relatórios');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReports();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentPage]);
+
+  // Load options for the target user / vaccine selects
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [usersResponse, vaccinesResponse] = await Promise.all([
+          userService.list({ page: 1, perPage: 100, sortBy: 'name', sortOrder: 'asc' }),
+          vaccineService.list({ page: 1, perPage: 100, sortBy: 'name', sortOrder: 'asc' }),
+        ]);
+        setUsers(usersResponse.data);
+        setVaccines(vaccinesResponse.data);
+      } catch (err) {
+        console.error('Error loading report options:', err);
+      }
+    };
+
+    loadOptions();
+  }, []);
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (type === ReportType.BY_EMPLOYEE && !userId) {
+      showError('Selecione o funcionário para gerar o relatório');
+      return;
+    }
+
+    if (type === ReportType.BY_PERIOD && (!startDate || !endDate)) {
+      showError('Informe a data inicial e final do período');
+      return;
+    }
+
+    const data: GenerateReportData = { type };
+    if (title.trim()) data.title = title.trim();
+    if (startDate) data.startDate = startDate;
+    if (endDate) data.endDate = endDate;
+    if (userId && type !== ReportType.COVERAGE && type !== ReportType.WASTE) data.userId = userId;
+    if (vaccineId && type !== ReportType.COVERAGE) data.vaccineId = vaccineId;
+
+    setIsGenerating(true);
+    try {
+      const report = await reportService.generate(data);
+      setSelectedReport(report);
+      setTitle('');
+      showSuccess('Relatório gerado com sucesso!');
+      if (currentPage === 1) {
+        loadReports();
+      } else {
+        setCurrentPage(1);
+      }
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erro ao gerar relatório');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleView = async (report: Report) => {
+    try {
+      const fullReport = await reportService.getById(report.id);
+      setSelectedReport(fullReport);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erro ao carregar relatório');
+    }
+  };
+
+  const handleDownload = async (report: Report, format: ReportDownloadFormat) => {
+    try {
+      await reportService.download(report, format);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erro ao baixar relatório');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!reportToDelete) return;
+
+    setActionLoading(true);
+    try {
+      await reportService.delete(reportToDelete.id);
+      if (selectedReport?.id === reportToDelete.id) {
+        setSelectedReport(null);
+      }
+      setReportToDelete(null);
+      showSuccess('Relatório excluído com sucesso!');
+      loadReports();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Erro ao excluir relatório');
+      setReportToDelete(null);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const previewRows = selectedReport?.data?.rows.slice(0, 20) ?? [];
+  const previewColumns = previewRows.length > 0 ? Object.keys(previewRows[0]) : [];
+
+  return (
+    <DashboardLayout>
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Relatórios</h1>
+          <p className="text-gray-600 mt-1">
+            Gere relatórios de vacinação e consulte o histórico de relatórios gerados
+          </p>
+        </div>
+
+        {/* Success/Error messages */}
+        {successMessage && (
+          <div className="p-4 bg-success-50 border border-success-200 rounded-lg">
+            <p className="text-success-700 text-sm font-medium">{successMessage}</p>
+          </div>
+        )}
+        {error && (
+          <div className="p-4 bg-danger-50 border border-danger-200 rounded-lg">
+            <p className="text-danger-700 text-sm font-medium">{error}</p>
+          </div>
+        )}
+
+        {/* Generate form */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileBarChart className="h-5 w-5 text-primary-600" />
+              Novo Relatório
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-6">
+            <form onSubmit={handleGenerate} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Select
+                    id="report-type"
+                    label="Tipo de relatório"
+                    options={Object.values(ReportType).map((value) => ({
+                      value,
+                      label: reportTypeLabels[value],
+                    }))}
+                    value={type}
+                    onChange={(e) => setType(e.target.value as ReportType)}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{reportTypeDescriptions[type]}</p>
+                </div>
+                <Input
+                  id="report-title"
+                  label="Título (opcional)"
+                  placeholder={`Relatório ${reportTypeLabels[type]}`}
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={150}
+                />
+              </div>
+
+              {type !== ReportType.COVERAGE && (
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <Input
+                    id="report-start-date"
+                    type="date"
+                    label={type === ReportType.BY_PERIOD ? 'Data inicial *' : 'Data inicial'}
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                  <Input
+                    id="report-end-date"
+                    type="date"
+                    label={type === ReportType.BY_PERIOD ? 'Data final *' : 'Data final'}
+                    value={endDate}
+                    min={startDate || undefined}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                  {type !== ReportType.WASTE && (
+                    <Select
+                      id="report-user"
+                      label={type === ReportType.BY_EMPLOYEE ? 'Funcionário *' : 'Funcionário'}
+                      options={users.map((user) => ({ value: user.id, label: user.name }))}
+                      value={userId}
+                      onChange={(e) => setUserId(e.target.value)}
+                      placeholder="Todos"
+                    />
+                  )}
+                  <Select
+                    id="report-vaccine"
+                    label="Vacina"
+                    options={vaccines.map((vaccine) => ({
+                      value: vaccine.id,
+                      label: `${vaccine.name} (${vaccine.manufacturer})`,
+                    }))}
+                    value={vaccineId}
+                    onChange={(e) => setVaccineId(e.target.value)}
+                    placeholder="Todas"
+                  />
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button type="submit" isLoading={isGenerating} className="flex items-center gap-2">
+                  {!isGenerating && <FileText className="h-5 w-5" />}
+                  Gerar Relatório
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Selected report preview */}
+        {selectedReport && (
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div>
+                  <CardTitle>{selectedReport.title}</CardTitle>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {reportTypeLabels[selectedReport.type]} · Gerado em{' '}
+                    {formatDateTime(selectedReport.createdAt)} por {selectedReport.generatedBy.name}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDownload(selectedReport, 'csv')}
+                  >
+                    <Download className="h-4 w-4" />
+                    CSV
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDownload(selectedReport, 'json')}
+                  >
+                    <Download className="h-4 w-4" />
+                    JSON
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedReport(null)}>
+                    Fechar
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="p-6 space-y-6">
+              {selectedReport.data && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {Object.entries(selectedReport.data.summary).map(([key, value]) => (
+                    <div key={key} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+                      <p className="text-xs text-gray-500 break-words">{key}</p>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {formatReportValue(value)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {previewRows.length === 0 ? (
+                <p className="text-sm text-gray-500">Nenhum registro encontrado para os filtros informados.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200 bg-gray-50">
+                        {previewColumns.map((column) => (
+                          <th
+                            key={column}
+                            className="text-left py-2 px-3 text-xs font-semibold text-gray-700"
+                          >
+                            {column}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {previewRows.map((row, index) => (
+                        <tr key={index} className="border-b border-gray-100">
+                          {previewColumns.map((column) => (
+                            <td key={column} className="py-2 px-3 text-sm text-gray-700">
+                              {formatReportValue(row[column] ?? null)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {(selectedReport.data?.rows.length ?? 0) > previewRows.length && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Exibindo {previewRows.length} de {selectedReport.data?.rows.length} registros.
+                      Baixe o arquivo para ver todos.
+                    </p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Reports history */}
+        <Card>
+          <CardHeader className="border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-xl font-bold text-gray-900">
+                Histórico ({totalReports})
+              </CardTitle>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={loadReports}
+                disabled={isLoading}
+                className="flex items-center gap-2"
+              >
+                <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+                Atualizar
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16">
+                <div className="text-center">
+                  <RefreshCw className="h-10 w-10 animate-spin text-primary-600 mx-auto mb-4" />
+                  <p className="text-gray-600 font-medium">Carregando relatórios...</p>
+                </div>
+              </div>
+            ) : reports.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-16 text-gray-500">
+                <FileBarChart className="h-16 w-16 mb-4 opacity-40" />
+                <p className="text-lg font-semibold text-gray-700">Nenhum relatório gerado</p>
+                <p className="text-sm text-gray-500 mt-1">Use o formulário acima para gerar o primeiro relatório</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 bg-gray-50">
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Título</th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Tipo</th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Período</th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Funcionário</th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Gerado por</th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700">Gerado em</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700">Ações</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reports.map((report) => (
+                      <tr key={report.id} className="border-b border-gray-100 hover:bg-gray-50 transition-colors">
+                        <td className="py-3 px-4 text-sm text-gray-900 font-medium">{report.title}</td>
+                        <td className="py-3 px-4 text-sm text-gray-600">{reportTypeLabels[report.type]}</td>
+                        <td className="py-3 px-4 text-sm text-gray-600">
+                          {report.startDate || report.endDate
+                            ? `${report.startDate ? formatDate(report.startDate) : '...'} a ${report.endDate ? formatDate(report.endDate) : '...'}`
+                            : '-'}
+                        </td>
+                        <td className="py-3 px-4 text-sm text-gray-600">{report.user?.name || '-'}</td>
+                        <td className="py-3 px-4 text-sm text-gray-600">{report.generatedBy.name}</td>
+                        <td className="py-3 px-4 text-sm text-gray-600">{formatDateTime(report.createdAt)}</td>
+                        <td className="py-3 px-4 text-sm">
+                          <div className="flex items-center justify-end gap-1">
+                            <button
+                              type="button"
+                              onClick={() => handleView(report)}
+                              className="p-2 rounded-md hover:bg-gray-100 text-primary-600 hover:text-primary-700 transition-colors"
+                              title="Visualizar"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDownload(report, 'csv')}
+                              className="p-2 rounded-md hover:bg-gray-100 text-success-600 hover:text-success-700 transition-colors"
+                              title="Baixar CSV"
+                            >
+                              <Download className="h-4 w-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setReportToDelete(report)}
+                              className="p-2 rounded-md hover:bg-gray-100 text-danger-600 hover:text-danger-700 transition-colors"
+                              title="Excluir"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Pagination */}
+            {!isLoading && reports.length > 0 && totalPages > 1 && (
+              <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mt-6 pt-6 border-t border-gray-200">
+                <p className="text-sm text-gray-600 font-medium">
+                  Página {currentPage} de {totalPages}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage - 1)}
+                    disabled={currentPage === 1}
+                    className="flex items-center gap-1"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Anterior
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCurrentPage(currentPage + 1)}
+                    disabled={currentPage === totalPages}
+                    className="flex items-center gap-1"
+                  >
+                    Próxima
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Delete Confirmation Dialog */}
+        <ConfirmDialog
+          isOpen={Boolean(reportToDelete)}
+          onClose={() => setReportToDelete(null)}
+          onConfirm={handleDelete}
+          title="Excluir Relatório"
+          message={`Tem certeza que deseja excluir o relatório "${reportToDelete?.title}"?`}
+          confirmText="Excluir"
+          cancelText="Cancelar"
+          variant="danger"
+          isLoading={actionLoading}
+        />
+      </div>
+    </DashboardLayout>
+  );
+};
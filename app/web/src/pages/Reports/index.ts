@@ -0,0 +1 @@
+export { ReportsPage } from './ReportsPage';
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Syringe } from 'lucide-react';
+import { ResetPasswordFormSchema } from '../../utils/validationSchemas';
+import type { ResetPasswordFormData } from '../../utils/validationSchemas';
+import { authService } from '../../services/auth.service';
+import { handleApiError } from '../../services/api';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
+
+/**
+ * Reset password page
+ * Opened from the link sent by email (/reset-password?token=...)
+ */
+export const ResetPasswordPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(ResetPasswordFormSchema),
+    defaultValues: {
+      newPassword: '',
+      confirmNewPassword: '',
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!token) return;
+
+    setError(null);
+
+    try {
+      await authService.resetPassword(token, data.newPassword);
+      setIsDone(true);
+    } catch (err) {
+      const message = handleApiError(err);
+
+      // Translate common error messages to Portuguese
+      setError(
+        message === 'Invalid or expired password reset token'
+          ? 'Link inválido ou expirado. Solicite um novo link.'
+          : message
+      );
+    }
+  };
+
+  const renderContent = () => {
+    if (!token) {
+      return (
+        <p className="text-sm text-gray-700">
+          Link inválido. Solicite um novo link de redefinição de senha.
+        </p>
+      );
+    }
+
+    if (isDone) {
+      return (
+        <p className="text-sm text-gray-700">
+          Senha redefinida com sucesso. Entre novamente com a nova senha.
+        </p>
+      );
+    }
+
+    return (
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <Input
+          label="Nova Senha"
+          type="password"
+          placeholder="••••••••"
+          error={errors.newPassword?.message}
+          helperText="Mínimo de 8 caracteres, com letras maiúsculas e minúsculas, número e caractere especial"
+          {...register('newPassword')}
+          autoComplete="new-password"
+        />
+
+        <Input
+          label="Confirmar Nova Senha"
+          type="password"
+          placeholder="••••••••"
+          error={errors.confirmNewPassword?.message}
+          {...register('confirmNewPassword')}
+          autoComplete="new-password"
+        />
+
+        {error && (
+          <div
+            className="p-3 bg-danger-50 border border-danger-200 rounded-lg"
+            role="alert"
+          >
+            <p className="text-sm text-danger-700">{error}</p>
+          </div>
+        )}
+
+        <Button
+          type="submit"
+          className="w-full"
+          isLoading={isSubmitting}
+          disabled={isSubmitting}
+        >
+          Redefinir senha
+        </Button>
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary-50 via-white to-medical-lightBlue flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        {/* Logo and branding */}
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-primary-500 rounded-2xl mb-4">
+            <Syringe className="h-8 w-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Univas Enfermagem
+          </h1>
+          <p className="text-gray-600">Sistema de Gestão de Vacinação</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Redefinir Senha</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {renderContent()}
+
+            <div className="mt-6 text-center">
+              <button
+                type="button"
+                onClick={() => navigate(token && !isDone ? '/login' : '/forgot-password')}
+                className="text-sm font-semibold text-primary-600 hover:text-primary-700 hover:underline focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 rounded"
+              >
+                {token && !isDone ? 'Voltar para o login' : 'Solicitar novo link'}
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
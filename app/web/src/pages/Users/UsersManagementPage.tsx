@@ -10,6 +10,8 @@ import {
   RefreshCw,
   ChevronLeft,
   ChevronRight,
+  Mail,
+  Upload,
 } from 'lucide-react';
 import { DashboardLayout } from '../../components/layout/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
@@ -18,8 +20,11 @@ import { Input } from '../../components/ui/Input';
 import { Select } from '../../components/common/Select';
 import { ConfirmDialog } from '../../components/ui/ConfirmDialog';
 import { UserFormModal } from '../../components/users/UserFormModal';
+import { InviteUserModal } from '../../components/users/InviteUserModal';
+import { ImportUsersModal } from '../../components/users/ImportUsersModal';
+import { useAuth } from '../../hooks/useAuth';
 import { userService } from '../../services/user.service';
-import { UserRole, type User } from '../../types';
+import { Permission, UserRole, type User } from '../../types';
 import { formatDate, formatCPF, formatPhone } from '../../utils/formatters';
 import { cn } from '../../utils/cn';
 
@@ -28,6 +33,9 @@ import { cn } from '../../utils/cn';
  * Allows managers to list, create, edit, activate/deactivate, and delete employees
  */
 export const UsersManagementPage = () => {
+  const { can } = useAuth();
+  const canInvite = can(Permission.USER_INVITE);
+
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -46,6 +54,8 @@ export const UsersManagementPage = () => {
 
   // Modals
   const [isFormModalOpen, setIsFormModalOpen] = useState(false);
+  const [isInviteModalOpen, setIsInviteModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isToggleActiveDialogOpen, setIsToggleActiveDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
@@ -88,6 +98,14 @@ export const UsersManagementPage = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentPage, roleFilter, statusFilter]);
 
+  // Import users from CSV
+  const handleUsersImported = (createdCount: number) => {
+    setIsImportModalOpen(false);
+    setSuccessMessage(`${createdCount} funcionário(s) importado(s) com sucesso!`);
+    loadUsers();
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
   // Create user
   const handleCreateUser = async (data: any) => {
     setActionLoading(true);
@@ -203,16 +221,36 @@ export const UsersManagementPage = () => {
               Gerencie os funcionários do sistema
             </p>
           </div>
-          <Button
-            onClick={() => {
-              setSelectedUser(null);
-              setIsFormModalOpen(true);
-            }}
-            className="flex items-center gap-2"
-          >
-            <UserPlus className="h-5 w-5" />
-            Novo Funcionário
-          </Button>
+          <div className="flex items-center gap-2">
+            {canInvite && (
+              <Button
+                variant="outline"
+                onClick={() => setIsInviteModalOpen(true)}
+                className="flex items-center gap-2"
+              >
+                <Mail className="h-5 w-5" />
+                Convidar
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => setIsImportModalOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Upload className="h-5 w-5" />
+              Importar CSV
+            </Button>
+            <Button
+              onClick={() => {
+                setSelectedUser(null);
+                setIsFormModalOpen(true);
+              }}
+              className="flex items-center gap-2"
+            >
+              <UserPlus className="h-5 w-5" />
+              Novo Funcionário
+            </Button>
+          </div>
         </div>
 
         {/* Success/Error messages */}
@@ -472,6 +510,19 @@ export const UsersManagementPage = () => {
           isLoading={actionLoading}
         />
 
+        {/* Invite Modal */}
+        <InviteUserModal
+          isOpen={isInviteModalOpen}
+          onClose={() => setIsInviteModalOpen(false)}
+        />
+
+        {/* Import Modal */}
+        <ImportUsersModal
+          isOpen={isImportModalOpen}
+          onClose={() => setIsImportModalOpen(false)}
+          onImported={handleUsersImported}
+        />
+
         {/* Delete Confirmation Dialog */}
         <ConfirmDialog
           isOpen={isDeleteDialogOpen}
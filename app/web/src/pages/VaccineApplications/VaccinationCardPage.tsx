@@ -1,5 +1,5 @@
-import React, { useEffect } from 'react';
-import { Download, Calendar, User as UserIcon } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Download, Calendar, QrCode, User as UserIcon } from 'lucide-react';
 import { DashboardLayout } from '../../components/layout/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
 import { Button } from '../../components/ui/Button';
@@ -8,6 +8,7 @@ import { VaccinesByTypeList } from '../../components/vaccineApplications/Vaccine
 import { PendingDosesList } from '../../components/vaccineApplications/PendingDosesList';
 import { MandatoryVaccinesList } from '../../components/vaccineApplications/MandatoryVaccinesList';
 import { OptionalVaccinesList } from '../../components/vaccineApplications/OptionalVaccinesList';
+import { CertificateModal } from '../../components/vaccineApplications/CertificateModal';
 import { useVaccinationHistory } from '../../hooks/useVaccinationHistory';
 import { useAuthStore } from '../../store/authStore';
 
@@ -19,7 +20,9 @@ import { useAuthStore } from '../../store/authStore';
  */
 export const VaccinationCardPage: React.FC = () => {
   const user = useAuthStore((state) => state.user);
-  const { history, isLoading, error, fetchHistory, clearError } = useVaccinationHistory();
+  const { history, isLoading, isDownloading, error, fetchHistory, downloadCard, clearError } =
+    useVaccinationHistory();
+  const [isCertificateOpen, setIsCertificateOpen] = useState(false);
 
   // Fetch logged-in user's vaccination history
   useEffect(() => {
@@ -36,51 +39,6 @@ export const VaccinationCardPage: React.FC = () => {
     fetchUserHistory();
   }, [user?.id, fetchHistory]);
 
-  const handlePrint = () => {
-    window.print();
-  };
-
-  const handleExport = () => {
-    if (!history || !user) return;
-
-    // Create a simple text export
-    let exportText = '=== CARTÃO DE VACINAÇÃO ===\n\n';
-    exportText += `Paciente: ${user.name}\n`;
-    exportText += `CPF: ${user.cpf}\n`;
-    exportText += `Emitido em: ${new Date(history.issuedAt).toLocaleString('pt-BR')}\n\n`;
-
-    exportText += '=== RESUMO ===\n';
-    exportText += `Vacinas Aplicadas: ${history.summary.totalVaccinesApplied}\n`;
-    exportText += `Vacinas Completas: ${history.summary.totalVaccinesCompleted}\n`;
-    exportText += `Doses Pendentes: ${history.summary.totalDosesPending}\n`;
-    exportText += `Obrigatórias Pendentes: ${history.summary.totalMandatoryPending}\n`;
-    exportText += `Conformidade: ${history.summary.compliancePercentage}%\n\n`;
-
-    exportText += '=== VACINAS APLICADAS ===\n';
-    history.vaccinesByType.forEach((vt) => {
-      exportText += `\n${vt.vaccine.name} (${vt.vaccine.manufacturer})\n`;
-      exportText += `Status: ${vt.isComplete ? 'Completa' : 'Em andamento'}\n`;
-      exportText += `Doses: ${vt.dosesApplied}/${vt.totalDosesRequired}\n`;
-      vt.doses.forEach((dose) => {
-        exportText += `  Dose ${dose.doseNumber}: ${new Date(dose.applicationDate).toLocaleDateString('pt-BR')}\n`;
-        exportText += `    Local: ${dose.applicationSite}\n`;
-        exportText += `    Lote: ${dose.batch.batchNumber}\n`;
-        exportText += `    Aplicado por: ${dose.appliedBy.name}\n`;
-      });
-    });
-
-    // Create download
-    const blob = new Blob([exportText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `cartao-vacinacao-${new Date().toISOString().split('T')[0]}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
   return (
     <DashboardLayout>
       <div className="p-6 space-y-6">
@@ -94,13 +52,22 @@ export const VaccinationCardPage: React.FC = () => {
           </div>
 
           <div className="flex gap-2">
-            <Button variant="outline" onClick={handleExport} disabled={!history}>
+            <Button
+              variant="outline"
+              onClick={() => user && downloadCard(user.id)}
+              disabled={!history || isDownloading}
+              isLoading={isDownloading}
+            >
               <Download className="h-4 w-4 mr-2" />
-              Exportar
+              Baixar PDF
             </Button>
-            <Button variant="outline" onClick={handlePrint} disabled={!history}>
-              <Download className="h-4 w-4 mr-2" />
-              Imprimir
+            <Button
+              variant="outline"
+              onClick={() => setIsCertificateOpen(true)}
+              disabled={!history?.applied.length}
+            >
+              <QrCode className="h-4 w-4 mr-2" />
+              Certificado
             </Button>
           </div>
         </div>
@@ -208,6 +175,15 @@ export const VaccinationCardPage: React.FC = () => {
             </CardContent>
           </Card>
         )}
+
+        {/* Certificate Modal */}
+        {user && (
+          <CertificateModal
+            userId={user.id}
+            isOpen={isCertificateOpen}
+            onClose={() => setIsCertificateOpen(false)}
+          />
+        )}
       </div>
     </DashboardLayout>
   );
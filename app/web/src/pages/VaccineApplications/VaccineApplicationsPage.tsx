@@ -5,11 +5,13 @@ import { DashboardLayout } from '../../components/layout/DashboardLayout';
 import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/Card';
 import { Button } from '../../components/ui/Button';
 import { Modal } from '../../components/ui/Modal';
+import { ExportButtons } from '../../components/common';
 import { UnifiedApplicationForm } from '../../components/vaccineApplications/UnifiedApplicationForm';
 import { VaccinationCardModal } from '../../components/vaccineApplications/VaccinationCardModal';
 import { useVaccineApplications } from '../../hooks/useVaccineApplications';
 import { userService } from '../../services/user.service';
-import type { VaccineApplication, User } from '../../types';
+import { vaccineApplicationService } from '../../services/vaccineApplication.service';
+import type { ExportFormat, VaccineApplication, User } from '../../types';
 
 /**
  * Vaccine Applications Management Page (NURSE only)
@@ -115,6 +117,12 @@ export const VaccineApplicationsPage: React.FC = () => {
     }
   };
 
+  const handleExport = (format: ExportFormat) =>
+    vaccineApplicationService.exportList(format, {
+      sortBy: 'applicationDate',
+      sortOrder: 'desc',
+    });
+
   const handleUserSelect = (user: User) => {
     setSelectedUser(user);
     setSearchQuery(user.name);
@@ -145,10 +153,13 @@ export const VaccineApplicationsPage: React.FC = () => {
             </p>
           </div>
 
-          <Button onClick={handleOpenModal}>
-            <Plus className="h-4 w-4 mr-2" />
-            Registrar Nova Aplicação
-          </Button>
+          <div className="flex items-start gap-2">
+            <ExportButtons onExport={handleExport} disabled={applications.length === 0} />
+            <Button onClick={handleOpenModal}>
+              <Plus className="h-4 w-4 mr-2" />
+              Registrar Nova Aplicação
+            </Button>
+          </div>
         </div>
 
         {/* Error Message */}
@@ -2,6 +2,7 @@ import { Calendar, ChevronLeft, ChevronRight, Plus } from 'lucide-react';
 import type React from 'react';
 import { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { ExportButtons } from '../../components/common';
 import { DashboardLayout } from '../../components/layout/DashboardLayout';
 import { Button } from '../../components/ui/Button';
 import { Card, CardContent } from '../../components/ui/Card';
@@ -15,7 +16,8 @@ import { useAuth } from '../../hooks/useAuth';
 import { useVaccineSchedulings } from '../../hooks/useVaccineSchedulings';
 import { useVaccines } from '../../hooks/useVaccines';
 import { userService } from '../../services/user.service';
-import type { User } from '../../types';
+import { vaccineSchedulingService } from '../../services/vaccineScheduling.service';
+import type { ExportFormat, User } from '../../types';
 
 /**
  * Schedulings List Page - "Meus Agendamentos"
@@ -139,6 +141,12 @@ export const SchedulingsListPage: React.FC = () => {
     }
   };
 
+  const handleExport = (format: ExportFormat) =>
+    vaccineSchedulingService.exportList(format, {
+      userId: user?.id,
+      ...filters,
+    });
+
   const handlePageChange = (newPage: number) => {
     setCurrentPage(newPage);
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -158,13 +166,19 @@ export const SchedulingsListPage: React.FC = () => {
               Visualize e gerencie seus agendamentos de vacinas
             </p>
           </div>
-          <Button
-            variant="primary"
-            onClick={() => navigate('/schedulings/new')}
-          >
-            <Plus className="w-5 h-5 mr-2" />
-            Novo Agendamento
-          </Button>
+          <div className="flex items-start gap-2">
+            <ExportButtons
+              onExport={handleExport}
+              disabled={schedulings.length === 0}
+            />
+            <Button
+              variant="primary"
+              onClick={() => navigate('/schedulings/new')}
+            >
+              <Plus className="w-5 h-5 mr-2" />
+              Novo Agendamento
+            </Button>
+          </div>
         </div>
 
         {/* Error message */}
@@ -7,9 +7,11 @@ import { Button } from '../../components/ui/Button';
 import { Badge } from '../../components/ui/Badge';
 import { Modal } from '../../components/ui/Modal';
 import { VaccineForm } from '../../components/vaccines/VaccineForm';
+import { ExportButtons } from '../../components/common';
 import { useVaccines } from '../../hooks/useVaccines';
-import { useAuthStore } from '../../store/authStore';
-import { UserRole, type Vaccine } from '../../types';
+import { useAuth } from '../../hooks/useAuth';
+import { vaccineService } from '../../services/vaccine.service';
+import { Permission, type ExportFormat, type Vaccine } from '../../types';
 import type { CreateVaccineFormData, UpdateVaccineFormData } from '../../utils/vaccineSchemas';
 
 /**
@@ -18,8 +20,8 @@ import type { CreateVaccineFormData, UpdateVaccineFormData } from '../../utils/v
  */
 export const VaccinesListPage: React.FC = () => {
   const navigate = useNavigate();
-  const user = useAuthStore((state) => state.user);
-  const isManager = user?.role === UserRole.MANAGER;
+  const { can } = useAuth();
+  const canDeleteVaccines = can(Permission.VACCINE_WRITE);
 
   const {
     vaccines,
@@ -100,6 +102,14 @@ export const VaccinesListPage: React.FC = () => {
     }
   };
 
+  const handleExport = (format: ExportFormat) =>
+    vaccineService.exportList(format, {
+      sortBy: 'name',
+      sortOrder: 'asc',
+      ...(manufacturerFilter && { manufacturer: manufacturerFilter }),
+      ...(isObligatoryFilter !== undefined && { isObligatory: isObligatoryFilter }),
+    });
+
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -117,10 +127,13 @@ export const VaccinesListPage: React.FC = () => {
             </p>
           </div>
 
-          <Button onClick={() => setShowCreateModal(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Adicionar Vacina
-          </Button>
+          <div className="flex items-start gap-2">
+            <ExportButtons onExport={handleExport} disabled={vaccines.length === 0} />
+            <Button onClick={() => setShowCreateModal(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar Vacina
+            </Button>
+          </div>
         </div>
 
         {/* Filters */}
@@ -287,7 +300,7 @@ export const VaccinesListPage: React.FC = () => {
                       Editar
                     </Button>
 
-                    {isManager && (
+                    {canDeleteVaccines && (
                       <Button
                         variant="outline"
                         size="sm"
@@ -1,22 +1,22 @@
 import React, { useEffect } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
-import { UserRole } from '../types';
+import type { Permission } from '../types';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  allowedRoles?: UserRole[];
+  permission?: Permission;
 }
 
 /**
  * Protected route component that requires authentication
- * Optionally restricts access to specific roles
+ * Optionally requires a permission (from GET /auth/me)
  */
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
-  allowedRoles,
+  permission,
 }) => {
-  const { user, isAuthenticated, initAuth } = useAuth();
+  const { isAuthenticated, initAuth, permissionsLoaded, can } = useAuth();
 
   // Initialize auth from localStorage on mount
   useEffect(() => {
@@ -28,10 +28,16 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return <Navigate to="/login" replace />;
   }
 
-  // Check role permissions if specified
-  if (allowedRoles && user && !allowedRoles.includes(user.role as UserRole)) {
-    // Redirect to dashboard if user doesn't have required role
-    return <Navigate to="/dashboard" replace />;
+  if (permission) {
+    // Wait for the permissions before deciding
+    if (!permissionsLoaded) {
+      return null;
+    }
+
+    // Redirect to dashboard if user doesn't have the required permission
+    if (!can(permission)) {
+      return <Navigate to="/dashboard" replace />;
+    }
   }
 
   return <>{children}</>;
@@ -1,10 +1,15 @@
 import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom';
+import { CampaignsPage } from '../pages/Campaigns';
+import { CertificateVerificationPage } from '../pages/CertificateVerification';
 import { DashboardPage } from '../pages/Dashboard';
+import { ForgotPasswordPage } from '../pages/ForgotPassword';
 import { LoginPage } from '../pages/Login';
 import { NotificationsPage } from '../pages/Notifications';
 import { NurseSchedulePage } from '../pages/NurseSchedule/NurseSchedulePage';
 import { Profile } from '../pages/Profile';
 import { Registration } from '../pages/Registration';
+import { ReportsPage } from '../pages/Reports';
+import { ResetPasswordPage } from '../pages/ResetPassword';
 import { UsersManagementPage } from '../pages/Users/UsersManagementPage';
 import { VaccinationCardPage } from '../pages/VaccineApplications/VaccinationCardPage';
 import { VaccineApplicationsPage } from '../pages/VaccineApplications/VaccineApplicationsPage';
@@ -14,17 +19,9 @@ import {
 } from '../pages/VaccineScheduling';
 import { VaccineDetailsPage } from '../pages/Vaccines/VaccineDetailsPage';
 import { VaccinesListPage } from '../pages/Vaccines/VaccinesListPage';
-import { UserRole } from '../types';
+import { Permission } from '../types';
 import { ProtectedRoute } from './ProtectedRoute';
 
-// Placeholder components for future pages
-
-const ReportsPage: React.FC = () => (
-  <div className="p-6">
-    <h1 className="text-2xl font-bold">Relatórios</h1>
-    <p className="text-gray-600 mt-2">Página em desenvolvimento</p>
-  </div>
-);
 /**
  * Main router configuration
  */
@@ -35,6 +32,9 @@ export const AppRouter: React.FC = () => {
         {/* Public routes */}
         <Route path="/login" element={<LoginPage />} />
         <Route path="/register" element={<Registration />} />
+        <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+        <Route path="/certificates/verify/:code" element={<CertificateVerificationPage />} />
 
         {/* Protected routes */}
         <Route
@@ -51,7 +51,7 @@ export const AppRouter: React.FC = () => {
         <Route
           path="/nurse-schedule"
           element={
-            <ProtectedRoute allowedRoles={[UserRole.NURSE]}>
+            <ProtectedRoute permission={Permission.SCHEDULING_ASSIGNED_READ}>
               <NurseSchedulePage />
             </ProtectedRoute>
           }
@@ -61,7 +61,7 @@ export const AppRouter: React.FC = () => {
         <Route
           path="/vaccines"
           element={
-            <ProtectedRoute allowedRoles={[UserRole.MANAGER, UserRole.NURSE]}>
+            <ProtectedRoute permission={Permission.BATCH_READ}>
               <VaccinesListPage />
             </ProtectedRoute>
           }
@@ -70,7 +70,7 @@ export const AppRouter: React.FC = () => {
         <Route
           path="/vaccines/:id"
           element={
-            <ProtectedRoute allowedRoles={[UserRole.MANAGER, UserRole.NURSE]}>
+            <ProtectedRoute permission={Permission.BATCH_READ}>
               <VaccineDetailsPage />
             </ProtectedRoute>
           }
@@ -80,7 +80,7 @@ export const AppRouter: React.FC = () => {
         <Route
           path="/vaccine-applications"
           element={
-            <ProtectedRoute allowedRoles={[UserRole.NURSE]}>
+            <ProtectedRoute permission={Permission.APPLICATION_CREATE}>
               <VaccineApplicationsPage />
             </ProtectedRoute>
           }
@@ -89,7 +89,7 @@ export const AppRouter: React.FC = () => {
         <Route
           path="/vaccine-applications/new"
           element={
-            <ProtectedRoute allowedRoles={[UserRole.NURSE]}>
+            <ProtectedRoute permission={Permission.APPLICATION_CREATE}>
               <VaccineApplicationsPage />
             </ProtectedRoute>
           }
@@ -124,11 +124,21 @@ export const AppRouter: React.FC = () => {
           }
         />
 
+        {/* Manager and Nurse routes - Vaccination Campaigns */}
+        <Route
+          path="/campaigns"
+          element={
+            <ProtectedRoute permission={Permission.CAMPAIGN_READ}>
+              <CampaignsPage />
+            </ProtectedRoute>
+          }
+        />
+
         {/* Manager routes */}
         <Route
           path="/funcionarios"
           element={
-            <ProtectedRoute allowedRoles={[UserRole.MANAGER]}>
+            <ProtectedRoute permission={Permission.USER_WRITE}>
               <UsersManagementPage />
             </ProtectedRoute>
           }
@@ -143,7 +153,7 @@ export const AppRouter: React.FC = () => {
         <Route
           path="/reports"
           element={
-            <ProtectedRoute allowedRoles={[UserRole.MANAGER]}>
+            <ProtectedRoute permission={Permission.REPORT_MANAGE}>
               <ReportsPage />
             </ProtectedRoute>
           }
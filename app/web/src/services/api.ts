@@ -29,22 +29,89 @@ api.interceptors.request.use(
   }
 );
 
+const AUTH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/logout',
+  '/invitations/accept',
+];
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+/**
+ * Refresh in progress, shared by every request that got a 401 meanwhile
+ * (the refresh token is single-use, so only one refresh may run at a time)
+ */
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new access token
+ * Uses plain axios so a failed refresh does not go through the interceptors
+ * Returns the new access token, or null when the session has ended
+ */
+const refreshAccessToken = async (): Promise<string | null> => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) return null;
+
+  try {
+    const response = await axios.post<{ data: { token: string; refreshToken: string } }>(
+      `${API_URL}/auth/refresh`,
+      { refreshToken }
+    );
+    const { token, refreshToken: nextRefreshToken } = response.data.data;
+
+    localStorage.setItem('authToken', token);
+    localStorage.setItem('refreshToken', nextRefreshToken);
+
+    return token;
+  } catch {
+    // Another tab may have refreshed with the same token first
+    const storedToken = localStorage.getItem('authToken');
+    return localStorage.getItem('refreshToken') !== refreshToken ? storedToken : null;
+  }
+};
+
+const redirectToLogin = () => {
+  localStorage.removeItem('authToken');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('authUser');
+  localStorage.removeItem('authPermissions');
+  window.location.href = '/login';
+};
+
 /**
  * Response interceptor for error handling
  */
 api.interceptors.response.use(
   (response) => response,
-  (error: AxiosError<ApiError>) => {
-    // Handle 401 Unauthorized - token expired or invalid
-    // But DON'T redirect if it's a login/register attempt (those endpoints should handle their own errors)
-    if (error.response?.status === 401) {
-      const isAuthEndpoint = error.config?.url?.includes('/auth/login') ||
-                             error.config?.url?.includes('/auth/register');
-
-      if (!isAuthEndpoint) {
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('authUser');
-        window.location.href = '/login';
+  async (error: AxiosError<ApiError>) => {
+    // Handle 401 Unauthorized - access token expired or session ended
+    // Try a refresh once, then retry the request with the new token
+    // But DON'T refresh/redirect on auth endpoints (those handle their own errors)
+    const config = error.config as RetriableRequestConfig | undefined;
+
+    if (error.response?.status === 401 && config) {
+      const isAuthEndpoint = AUTH_ENDPOINTS.some((endpoint) =>
+        config.url?.includes(endpoint)
+      );
+
+      if (!isAuthEndpoint && !config._retried) {
+        refreshPromise ??= refreshAccessToken().finally(() => {
+          refreshPromise = null;
+        });
+
+        const token = await refreshPromise;
+
+        if (token) {
+          config._retried = true;
+          config.headers.Authorization = `Bearer ${token}`;
+          return api(config);
+        }
+
+        redirectToLogin();
+      } else if (!isAuthEndpoint) {
+        redirectToLogin();
       }
     }
 
@@ -1,5 +1,6 @@
 import { api } from './api';
-import type { AuthResponse, LoginCredentials, RegisterData, User } from '../types';
+import type { AuthResponse, CurrentUser, LoginCredentials, RegisterData, UserSession } from '../types';
+import type { AcceptInvitationData } from '../types/invitations';
 
 /**
  * Authentication service
@@ -12,11 +13,12 @@ export const authService = {
   login: async (credentials: LoginCredentials): Promise<AuthResponse> => {
     const response = await api.post<AuthResponse>('/auth/login', credentials);
 
-    // Backend returns { success: true, data: { user, token, expiresIn } }
+    // Backend returns { success: true, data: { user, token, expiresIn, refreshToken, refreshTokenExpiresAt } }
     if (response.data.data) {
       return {
         user: response.data.data.user,
         token: response.data.data.token,
+        refreshToken: response.data.data.refreshToken,
       };
     }
 
@@ -30,11 +32,12 @@ export const authService = {
   register: async (data: RegisterData): Promise<AuthResponse> => {
     const response = await api.post<AuthResponse>('/auth/register', data);
 
-    // Backend returns { success: true, data: { user, token, expiresIn } }
+    // Backend returns { success: true, data: { user, token, expiresIn, refreshToken, refreshTokenExpiresAt } }
     if (response.data.data) {
       return {
         user: response.data.data.user,
         token: response.data.data.token,
+        refreshToken: response.data.data.refreshToken,
       };
     }
 
@@ -42,27 +45,92 @@ export const authService = {
     return response.data;
   },
 
+  /**
+   * Create the account of an invite link
+   * Email and role come from the invitation
+   */
+  acceptInvitation: async (data: AcceptInvitationData): Promise<AuthResponse> => {
+    const response = await api.post<AuthResponse>('/invitations/accept', data);
+
+    // Same response as /auth/register
+    if (response.data.data) {
+      return {
+        user: response.data.data.user,
+        token: response.data.data.token,
+        refreshToken: response.data.data.refreshToken,
+      };
+    }
+
+    return response.data;
+  },
+
   /**
    * Logout user
+   * Local data is cleared right away; ending the session on the backend
+   * is best-effort, so logging out works offline too
    */
   logout: (): void => {
+    const refreshToken = localStorage.getItem('refreshToken');
+
     localStorage.removeItem('authToken');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('authUser');
+    localStorage.removeItem('authPermissions');
+
+    if (refreshToken) {
+      api.post('/auth/logout', { refreshToken }).catch(() => {
+        // Session expires by itself on the backend
+      });
+    }
   },
 
   /**
-   * Get current user from localStorage
-   * Note: Backend doesn't have a /auth/me endpoint, so we use localStorage
+   * Request a password reset link by email
+   * Succeeds whether or not the email is registered
    */
-  getCurrentUser: async (): Promise<User> => {
-    const userString = localStorage.getItem('authUser');
-    if (userString) {
-      return Promise.resolve(JSON.parse(userString));
-    }
-    return Promise.reject({
-      message: 'User not authenticated',
-      statusCode: 401,
-    });
+  forgotPassword: async (email: string): Promise<void> => {
+    await api.post('/auth/forgot-password', { email });
+  },
+
+  /**
+   * Set a new password with the token from the reset link
+   */
+  resetPassword: async (token: string, newPassword: string): Promise<void> => {
+    await api.post('/auth/reset-password', { token, newPassword });
+  },
+
+  /**
+   * List active sessions (devices) of the current user
+   */
+  getSessions: async (): Promise<UserSession[]> => {
+    const response = await api.get<{ success: boolean; data: UserSession[] }>('/auth/sessions');
+    return response.data.data;
+  },
+
+  /**
+   * End one session of the current user (e.g. a lost device)
+   */
+  revokeSession: async (id: string): Promise<void> => {
+    await api.delete(`/auth/sessions/${id}`);
+  },
+
+  /**
+   * End every session except the current one
+   * Returns the number of sessions ended
+   */
+  revokeOtherSessions: async (): Promise<number> => {
+    const response = await api.delete<{ success: boolean; data: { revoked: number } }>(
+      '/auth/sessions'
+    );
+    return response.data.data.revoked;
+  },
+
+  /**
+   * Get the authenticated user and their permissions
+   */
+  getCurrentUser: async (): Promise<CurrentUser> => {
+    const response = await api.get<{ success: boolean; data: CurrentUser }>('/auth/me');
+    return response.data.data;
   },
 
   /**
@@ -0,0 +1,97 @@
+/**
+ * Campaign Service - API integration for vaccination campaigns
+ *
+ * Provides campaign management including:
+ * - Listing campaigns with their progress (NURSE, MANAGER)
+ * - Creating campaigns and generating their schedulings (MANAGER)
+ * - Finishing and cancelling campaigns (MANAGER)
+ */
+
+import { api, handleApiError } from './api';
+import type { PaginatedResponse } from '../types';
+import type {
+  Campaign,
+  CampaignGenerationResult,
+  CreateCampaignData,
+  ListCampaignsParams,
+} from '../types/campaigns';
+
+/**
+ * Campaign service class
+ */
+class CampaignService {
+  private readonly baseURL = '/campaigns';
+
+  /**
+   * List campaigns with their progress
+   */
+  async list(params?: ListCampaignsParams): Promise<PaginatedResponse<Campaign>> {
+    try {
+      const response = await api.get<PaginatedResponse<Campaign>>(
+        this.baseURL,
+        { params },
+      );
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Create a campaign in DRAFT status
+   *
+   * @throws {Error} 400 if the period starts in the past or the dose is invalid
+   * @throws {Error} 403 if user is not a MANAGER
+   */
+  async create(data: CreateCampaignData): Promise<Campaign> {
+    try {
+      const response = await api.post<Campaign>(this.baseURL, data);
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Generate the schedulings of a DRAFT or ACTIVE campaign
+   */
+  async generate(id: string): Promise<CampaignGenerationResult> {
+    try {
+      const response = await api.post<CampaignGenerationResult>(
+        `${this.baseURL}/${id}/generate`,
+      );
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Finish an ACTIVE campaign (pending schedulings are kept)
+   */
+  async finish(id: string): Promise<Campaign> {
+    try {
+      const response = await api.post<Campaign>(`${this.baseURL}/${id}/finish`);
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Cancel a campaign and its pending schedulings
+   */
+  async cancel(id: string): Promise<Campaign> {
+    try {
+      const response = await api.post<Campaign>(`${this.baseURL}/${id}/cancel`);
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+}
+
+/**
+ * Singleton instance of CampaignService
+ */
+export const campaignService = new CampaignService();
@@ -0,0 +1,54 @@
+/**
+ * Certificate Service - API integration for vaccination certificates
+ *
+ * Provides:
+ * - Issuing a certificate with a signed QR code
+ * - Verifying a certificate code (public, used by the verification page)
+ */
+
+import { api, handleApiError } from './api';
+import type {
+  CertificateVerification,
+  IssuedCertificate,
+} from '../types/certificates';
+
+/**
+ * Certificate service class
+ */
+class CertificateService {
+  private readonly baseURL = '/certificates';
+
+  /**
+   * Issue a vaccination certificate
+   *
+   * @throws {Error} 400 if the user has no applied vaccine
+   */
+  async issue(userId: string): Promise<IssuedCertificate> {
+    try {
+      const response = await api.post<IssuedCertificate>(this.baseURL, {
+        userId,
+      });
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Verify a certificate code read from its QR code
+   *
+   * @throws {Error} 404 if the code is unknown or its signature is invalid
+   */
+  async verify(code: string): Promise<CertificateVerification> {
+    try {
+      const response = await api.get<CertificateVerification>(
+        `${this.baseURL}/verify/${encodeURIComponent(code)}`
+      );
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+}
+
+export const certificateService = new CertificateService();
@@ -0,0 +1,90 @@
+/**
+ * Invitation Service - API integration for invitation-based onboarding
+ *
+ * Provides:
+ * - Inviting people with a given role, listing and revoking invitations (MANAGER)
+ * - Previewing an invite link on the registration page (public)
+ *
+ * Accepting an invitation opens a session, see authService.acceptInvitation
+ */
+
+import { api, handleApiError } from './api';
+import type { PaginatedResponse } from '../types';
+import type {
+  CreateInvitationData,
+  CreatedInvitation,
+  Invitation,
+  InvitationPreview,
+  ListInvitationsParams,
+} from '../types/invitations';
+
+/**
+ * Invitation service class
+ */
+class InvitationService {
+  private readonly baseURL = '/invitations';
+
+  /**
+   * Invite a person to create an account
+   *
+   * @throws {Error} 409 if the email is already registered
+   * @throws {Error} 403 if user is not a MANAGER
+   */
+  async create(data: CreateInvitationData): Promise<CreatedInvitation> {
+    try {
+      const response = await api.post<CreatedInvitation>(this.baseURL, data);
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * List invitations
+   */
+  async list(params?: ListInvitationsParams): Promise<PaginatedResponse<Invitation>> {
+    try {
+      const response = await api.get<PaginatedResponse<Invitation>>(
+        this.baseURL,
+        { params },
+      );
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Revoke a pending invitation
+   */
+  async revoke(id: string): Promise<Invitation> {
+    try {
+      const response = await api.delete<Invitation>(`${this.baseURL}/${id}`);
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Email and role of an invite link
+   *
+   * @throws {Error} 400 if the invitation was accepted, revoked or expired
+   */
+  async preview(token: string): Promise<InvitationPreview> {
+    try {
+      const response = await api.get<InvitationPreview>(
+        `${this.baseURL}/preview`,
+        { params: { token } },
+      );
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+}
+
+/**
+ * Singleton instance of InvitationService
+ */
+export const invitationService = new InvitationService();
@@ -85,4 +85,20 @@ export const notificationService = {
       return 0;
     }
   },
+
+  /**
+   * Open the real-time notification stream (Server-Sent Events)
+   * EventSource cannot send headers, so the token goes in the query string
+   * Returns null when the browser has no EventSource support or no token
+   */
+  openStream: (): EventSource | null => {
+    const token = localStorage.getItem('authToken');
+
+    if (!token || typeof EventSource === 'undefined') {
+      return null;
+    }
+
+    const url = `${api.defaults.baseURL}/notifications/stream?token=${encodeURIComponent(token)}`;
+    return new EventSource(url);
+  },
 };
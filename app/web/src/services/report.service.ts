@@ -0,0 +1,115 @@
+/**
+ * Report Service - API integration for manager reports
+ *
+ * Provides report generation and history for managers including:
+ * - Generating GENERAL, BY_EMPLOYEE, BY_VACCINE, BY_PERIOD, COVERAGE and WASTE reports
+ * - Listing previously generated reports
+ * - Downloading reports as CSV or JSON
+ *
+ * @requires MANAGER role
+ */
+
+import { api, handleApiError } from './api';
+import type { PaginatedResponse } from '../types';
+import type {
+  GenerateReportData,
+  ListReportsParams,
+  Report,
+  ReportDownloadFormat,
+  ReportWithContent,
+} from '../types/reports';
+
+/**
+ * Report service class
+ */
+class ReportService {
+  private readonly baseURL = '/reports';
+
+  /**
+   * Generate a new report
+   *
+   * @param data - Report type, optional period and target user/vaccine
+   * @returns Promise<ReportWithContent> Persisted report with its content
+   * @throws {Error} 400 if required fields for the type are missing
+   * @throws {Error} 403 if user is not a MANAGER
+   */
+  async generate(data: GenerateReportData): Promise<ReportWithContent> {
+    try {
+      const response = await api.post<ReportWithContent>(this.baseURL, data);
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * List previously generated reports (content omitted)
+   */
+  async list(params?: ListReportsParams): Promise<PaginatedResponse<Report>> {
+    try {
+      const response = await api.get<PaginatedResponse<Report>>(
+        this.baseURL,
+        { params },
+      );
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Get a single report with its content
+   */
+  async getById(id: string): Promise<ReportWithContent> {
+    try {
+      const response = await api.get<ReportWithContent>(
+        `${this.baseURL}/${id}`,
+      );
+      return response.data;
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Download a report file and trigger the browser save dialog
+   *
+   * The request goes through the authenticated axios instance, so the
+   * file is fetched as a blob instead of navigating to the fileUrl.
+   */
+  async download(report: Report, format: ReportDownloadFormat): Promise<void> {
+    try {
+      const response = await api.get<Blob>(
+        `${this.baseURL}/${report.id}/download`,
+        { params: { format }, responseType: 'blob' },
+      );
+
+      const url = URL.createObjectURL(response.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `relatorio-${report.type.toLowerCase()}-${report.createdAt.split('T')[0]}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+
+  /**
+   * Delete a report (soft delete)
+   */
+  async delete(id: string): Promise<void> {
+    try {
+      await api.delete(`${this.baseURL}/${id}`);
+    } catch (error) {
+      throw new Error(handleApiError(error));
+    }
+  }
+}
+
+/**
+ * Singleton instance of ReportService
+ */
+export const reportService = new ReportService();
@@ -4,6 +4,7 @@ import type {
   RegisterData,
   UpdateUserData,
   User,
+  UserImportResult,
   UserRole,
 } from '../types';
 import { api } from './api';
@@ -42,16 +43,28 @@ export const userService = {
   },
 
   /**
-   * Create a new user (MANAGER only)
-   * Uses the /auth/register endpoint
+   * Create a new user with any role (MANAGER only)
    */
   create: async (data: RegisterData): Promise<User> => {
-    const response = await api.post<{
-      success: boolean;
-      data: { user: User; token: string; expiresIn: string };
-    }>('/auth/register', data);
-    // Return only the user data, not the token (since it's created by a manager)
-    return response.data.data.user;
+    const response = await api.post<User>('/users', data);
+    return response.data;
+  },
+
+  /**
+   * Import employees from a CSV file (MANAGER only)
+   * With dryRun the backend only validates the rows, nothing is created
+   */
+  importCsv: async (file: File, dryRun: boolean): Promise<UserImportResult> => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await api.post<UserImportResult>('/users/import', formData, {
+      params: { dryRun },
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
   },
 
   /**
@@ -77,14 +90,25 @@ export const userService = {
     return response.data;
   },
 
+  /**
+   * Change the authenticated user's password
+   * Other sessions of the user are ended by the backend
+   */
+  changePassword: async (currentPassword: string, newPassword: string): Promise<void> => {
+    await api.patch('/users/me/password', { currentPassword, newPassword });
+  },
+
   /**
    * Upload profile photo
    */
-  uploadPhoto: async (id: string, file: File): Promise<{ url: string }> => {
+  uploadPhoto: async (
+    id: string,
+    file: File,
+  ): Promise<{ url: string; user: User }> => {
     const formData = new FormData();
     formData.append('photo', file);
 
-    const response = await api.post<{ url: string }>(
+    const response = await api.post<{ url: string; user: User }>(
       `/users/${id}/photo`,
       formData,
       {
@@ -96,6 +120,24 @@ export const userService = {
     return response.data;
   },
 
+  /**
+   * Download profile photo
+   * The endpoint requires the auth header, so <img> cannot load it directly
+   */
+  getPhoto: async (id: string): Promise<Blob> => {
+    const response = await api.get<Blob>(`/users/${id}/photo`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  /**
+   * Remove profile photo
+   */
+  deletePhoto: async (id: string): Promise<void> => {
+    await api.delete(`/users/${id}/photo`);
+  },
+
   /**
    * List all users (simplified for compatibility)
    */
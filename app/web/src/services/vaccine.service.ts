@@ -3,6 +3,7 @@ import type {
   CreateVaccineBatchData,
   CreateVaccineData,
   CreateVaccineSchedulingData,
+  ExportFormat,
   ListVaccineBatchesParams,
   ListVaccinesParams,
   PaginatedResponse,
@@ -12,6 +13,7 @@ import type {
   VaccineBatch,
   VaccineScheduling,
 } from '../types';
+import { downloadBlob, getExportFileName } from '../utils/download';
 import { api, handleApiError } from './api';
 
 /**
@@ -35,6 +37,24 @@ export const vaccineService = {
     }
   },
 
+  /**
+   * Download every vaccine matching the filters as CSV or Excel
+   */
+  exportList: async (
+    format: ExportFormat,
+    params?: Omit<ListVaccinesParams, 'page' | 'perPage'>,
+  ): Promise<void> => {
+    try {
+      const response = await api.get<Blob>('/vaccines', {
+        params: { ...params, format },
+        responseType: 'blob',
+      });
+      downloadBlob(response.data, getExportFileName('vacinas', format));
+    } catch {
+      throw new Error('Erro ao exportar vacinas.');
+    }
+  },
+
   /**
    * Get vaccine by ID
    */
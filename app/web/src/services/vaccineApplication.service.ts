@@ -1,11 +1,14 @@
 import { api, handleApiError } from './api';
+import { downloadBlob, getExportFileName } from '../utils/download';
 import type {
+  ExportFormat,
   VaccineApplication,
   CreateVaccineApplicationData,
   UpdateVaccineApplicationData,
   ListVaccineApplicationsParams,
   ListVaccineApplicationsResponse,
   VaccinationHistory,
+  VaccineBatch,
 } from '../types';
 
 /**
@@ -53,6 +56,9 @@ export const vaccineApplicationService = {
       }
 
       // Business rule errors
+      if (message.includes('No available batch')) {
+        throw new Error('Nenhum lote disponível para esta vacina.');
+      }
       if (message.includes('Batch is not available')) {
         throw new Error('Lote não está disponível para uso.');
       }
@@ -84,6 +90,29 @@ export const vaccineApplicationService = {
     }
   },
 
+  /**
+   * Get the batch to use for a vaccine (the one that expires first)
+   */
+  suggestBatch: async (vaccineId: string): Promise<VaccineBatch> => {
+    try {
+      const response = await api.get<VaccineBatch>('/vaccine-applications/batch-suggestion', {
+        params: { vaccineId },
+      });
+      return response.data;
+    } catch (error) {
+      const message = handleApiError(error);
+
+      if (message.includes('No available batch')) {
+        throw new Error('Nenhum lote disponível para esta vacina.');
+      }
+      if (message.includes('Authentication') || message.includes('Unauthorized')) {
+        throw new Error('Sessão expirada. Faça login novamente.');
+      }
+
+      throw new Error('Erro ao buscar lote sugerido.');
+    }
+  },
+
   /**
    * Get vaccine application by ID
    */
@@ -126,6 +155,24 @@ export const vaccineApplicationService = {
     }
   },
 
+  /**
+   * Download every application matching the filters as CSV or Excel
+   */
+  exportList: async (
+    format: ExportFormat,
+    params?: Omit<ListVaccineApplicationsParams, 'page' | 'perPage'>,
+  ): Promise<void> => {
+    try {
+      const response = await api.get<Blob>('/vaccine-applications', {
+        params: { ...params, format },
+        responseType: 'blob',
+      });
+      downloadBlob(response.data, getExportFileName('aplicacoes', format));
+    } catch {
+      throw new Error('Erro ao exportar aplicações.');
+    }
+  },
+
   /**
    * Update vaccine application
    */
@@ -176,4 +223,27 @@ export const vaccineApplicationService = {
       throw new Error('Erro ao buscar histórico de vacinação.');
     }
   },
+
+  /**
+   * Download user vaccination card as PDF (generated by the API)
+   */
+  downloadCardPdf: async (userId: string): Promise<void> => {
+    try {
+      const response = await api.get<Blob>(
+        `/vaccine-applications/users/${userId}/history.pdf`,
+        { responseType: 'blob' },
+      );
+
+      const url = URL.createObjectURL(response.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `cartao-vacinacao-${new Date().toISOString().split('T')[0]}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch {
+      throw new Error('Erro ao baixar cartão de vacinação.');
+    }
+  },
 };
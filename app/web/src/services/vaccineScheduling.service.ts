@@ -1,10 +1,13 @@
 import { api, handleApiError } from './api';
+import { downloadBlob, getExportFileName } from '../utils/download';
 import type {
+  ExportFormat,
   VaccineScheduling,
   CreateVaccineSchedulingData,
   UpdateVaccineSchedulingData,
   ListVaccineSchedulingsParams,
   PaginatedResponse,
+  AvailableSlotsResponse,
 } from '../types';
 
 /**
@@ -60,6 +63,8 @@ const ERROR_MESSAGES: Record<string, string> = {
   VaccineSchedulingNotFoundError: 'Agendamento não encontrado',
   UnauthorizedSchedulingAccessError: 'Você não tem permissão para acessar este agendamento',
   SchedulingAlreadyCompletedError: 'Não é possível modificar um agendamento já concluído',
+  OutsideAvailabilityError: 'Horário fora do expediente dos enfermeiros',
+  SlotUnavailableError: 'Este horário já está lotado, escolha outro',
 };
 
 /**
@@ -134,6 +139,25 @@ export const vaccineSchedulingService = {
     }
   },
 
+  /**
+   * Download every scheduling matching the filters as CSV or Excel
+   * Same role-based filtering as list()
+   */
+  exportList: async (
+    format: ExportFormat,
+    params?: Omit<ListVaccineSchedulingsParams, 'page' | 'limit'>,
+  ): Promise<void> => {
+    try {
+      const response = await api.get<Blob>('/vaccine-schedulings', {
+        params: { ...params, format },
+        responseType: 'blob',
+      });
+      downloadBlob(response.data, getExportFileName('agendamentos', format));
+    } catch {
+      throw new Error('Erro ao exportar agendamentos.');
+    }
+  },
+
   /**
    * List user's own appointments (as patient)
    * USE CASE: My Appointments page - Works for ALL roles (NURSE, EMPLOYEE, MANAGER)
@@ -180,6 +204,22 @@ export const vaccineSchedulingService = {
     }
   },
 
+  /**
+   * Get free appointment slots of a day for a vaccine
+   * @param date - Day (YYYY-MM-DD)
+   * @param vaccineId - Vaccine to be applied
+   */
+  getSlots: async (date: string, vaccineId: string): Promise<AvailableSlotsResponse> => {
+    try {
+      const response = await api.get<AvailableSlotsResponse>('/vaccine-schedulings/slots', {
+        params: { date, vaccineId },
+      });
+      return response.data;
+    } catch (error) {
+      throw new Error(getErrorMessage(error, 'Erro ao buscar horários disponíveis'));
+    }
+  },
+
   /**
    * Get monthly schedulings for a nurse
    * @param _nurseId - ID of the nurse (not used in API call - uses authenticated user)
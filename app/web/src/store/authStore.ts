@@ -1,9 +1,12 @@
 import { create } from 'zustand';
-import type { User, LoginCredentials } from '../types';
+import type { User, LoginCredentials, Permission } from '../types';
 import { authService } from '../services/auth.service';
 
 interface AuthState {
   user: User | null;
+  permissions: Permission[];
+  // False until permissions are known (cached or loaded from the API)
+  permissionsLoaded: boolean;
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
@@ -15,13 +18,27 @@ interface AuthState {
   setUser: (user: User) => void;
   clearError: () => void;
   initAuth: () => void;
+  loadPermissions: () => Promise<void>;
 }
 
+/**
+ * Reads the permissions cached by the last GET /auth/me
+ */
+const getStoredPermissions = (): Permission[] => {
+  try {
+    return JSON.parse(localStorage.getItem('authPermissions') || '[]') as Permission[];
+  } catch {
+    return [];
+  }
+};
+
 /**
  * Zustand store for authentication state management
  */
-export const useAuthStore = create<AuthState>((set) => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
+  permissions: [],
+  permissionsLoaded: false,
   token: null,
   isAuthenticated: false,
   isLoading: false,
@@ -36,17 +53,21 @@ export const useAuthStore = create<AuthState>((set) => ({
     try {
       const response = await authService.login(credentials);
 
-      // Store token and user in localStorage
+      // Store tokens and user in localStorage
       localStorage.setItem('authToken', response.token);
+      localStorage.setItem('refreshToken', response.refreshToken || '');
       localStorage.setItem('authUser', JSON.stringify(response.user));
 
       set({
         user: response.user,
         token: response.token,
         isAuthenticated: true,
-        isLoading: false,
         error: null,
       });
+
+      await get().loadPermissions();
+
+      set({ isLoading: false });
     } catch (error: unknown) {
       let errorMessage = 'Falha ao fazer login';
 
@@ -65,6 +86,8 @@ export const useAuthStore = create<AuthState>((set) => ({
 
       set({
         user: null,
+        permissions: [],
+        permissionsLoaded: false,
         token: null,
         isAuthenticated: false,
         isLoading: false,
@@ -82,6 +105,8 @@ export const useAuthStore = create<AuthState>((set) => ({
     authService.logout();
     set({
       user: null,
+      permissions: [],
+      permissionsLoaded: false,
       token: null,
       isAuthenticated: false,
       error: null,
@@ -104,24 +129,52 @@ export const useAuthStore = create<AuthState>((set) => ({
 
   /**
    * Initialize auth from localStorage
+   * Permissions are refreshed from the API once per page load, in the background
    */
   initAuth: () => {
     const token = localStorage.getItem('authToken');
     const userString = localStorage.getItem('authUser');
+    const wasAuthenticated = get().isAuthenticated;
 
     if (token && userString) {
       try {
         const user = JSON.parse(userString) as User;
         set({
           user,
+          permissions: getStoredPermissions(),
+          permissionsLoaded: localStorage.getItem('authPermissions') !== null,
           token,
           isAuthenticated: true,
         });
+
+        if (!wasAuthenticated) {
+          get().loadPermissions();
+        }
       } catch {
         // Invalid data in localStorage, clear it
         localStorage.removeItem('authToken');
+        localStorage.removeItem('refreshToken');
         localStorage.removeItem('authUser');
+        localStorage.removeItem('authPermissions');
       }
     }
   },
+
+  /**
+   * Load the current user and their permissions (GET /auth/me)
+   * Keeps the cached permissions if the request fails
+   */
+  loadPermissions: async () => {
+    try {
+      const { user, permissions } = await authService.getCurrentUser();
+
+      localStorage.setItem('authUser', JSON.stringify(user));
+      localStorage.setItem('authPermissions', JSON.stringify(permissions));
+
+      set({ user, permissions, permissionsLoaded: true });
+    } catch (error) {
+      console.error('Error loading permissions:', error);
+      set({ permissionsLoaded: true });
+    }
+  },
 }));
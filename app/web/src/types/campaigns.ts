@@ -0,0 +1,97 @@
+/**
+ * Campaign Types
+ * Based on /api/campaigns endpoint documentation
+ */
+
+import type { UserRole } from './index';
+
+// ==================== Campaign Status ====================
+
+export const CampaignStatus = {
+  DRAFT: 'DRAFT',
+  ACTIVE: 'ACTIVE',
+  FINISHED: 'FINISHED',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type CampaignStatus =
+  (typeof CampaignStatus)[keyof typeof CampaignStatus];
+
+// ==================== Campaign ====================
+
+/**
+ * Schedulings of a campaign by outcome
+ * - noShow: pending schedulings whose date has passed
+ * - completionRate: applied / (total - cancelled) * 100
+ */
+export interface CampaignProgress {
+  total: number;
+  scheduled: number;
+  applied: number;
+  noShow: number;
+  cancelled: number;
+  completionRate: number;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  description: string | null;
+  vaccineId: string;
+  doseNumber: number;
+  targetRoles: UserRole[];
+  onlyActiveUsers: boolean;
+  onlyMissingDoses: boolean;
+  startDate: string;
+  endDate: string;
+  dailyCapacity: number;
+  status: CampaignStatus;
+  createdById: string;
+  createdAt: string;
+  updatedAt: string;
+  vaccine: {
+    id: string;
+    name: string;
+    manufacturer: string;
+    dosesRequired: number;
+    intervalDays: number | null;
+  };
+  nurses: { id: string; name: string; coren: string | null }[];
+  createdBy: { id: string; name: string };
+  progress: CampaignProgress;
+}
+
+/**
+ * Result of POST /campaigns/:id/generate
+ */
+export interface CampaignGenerationResult {
+  campaignId: string;
+  created: number;
+  skipped: { previousDoseMissing: number; noCapacity: number };
+  stoppedByStock: boolean;
+}
+
+// ==================== Requests ====================
+
+export interface CreateCampaignData {
+  name: string;
+  description?: string;
+  vaccineId: string;
+  doseNumber?: number;
+  targetRoles: UserRole[];
+  onlyActiveUsers?: boolean;
+  onlyMissingDoses?: boolean;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  dailyCapacity: number;
+  nurseIds?: string[];
+}
+
+export interface ListCampaignsParams {
+  page?: number;
+  perPage?: number;
+  sortBy?: 'name' | 'startDate' | 'endDate' | 'status' | 'createdAt';
+  sortOrder?: 'asc' | 'desc';
+  status?: CampaignStatus;
+  vaccineId?: string;
+}
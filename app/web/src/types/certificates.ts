@@ -0,0 +1,51 @@
+/**
+ * Certificate Types
+ * Based on /api/certificates endpoint documentation
+ */
+
+// ==================== Certificate Status ====================
+
+export const CertificateStatus = {
+  VALID: 'VALID',
+  EXPIRED: 'EXPIRED',
+  REVOKED: 'REVOKED',
+} as const;
+
+export type CertificateStatus =
+  (typeof CertificateStatus)[keyof typeof CertificateStatus];
+
+// ==================== Certificate ====================
+
+export interface CertificateVaccine {
+  name: string;
+  isComplete: boolean;
+  doses: Array<{
+    doseNumber: number;
+    applicationDate: string;
+  }>;
+}
+
+/**
+ * Certificate returned when it is issued (POST /certificates)
+ */
+export interface IssuedCertificate {
+  id: string;
+  code: string;
+  verifyUrl: string;
+  qrCode: string; // PNG data URL
+  issuedAt: string;
+  expiresAt: string;
+  vaccines: CertificateVaccine[];
+}
+
+/**
+ * Public result of the verification (GET /certificates/verify/:code)
+ */
+export interface CertificateVerification {
+  status: CertificateStatus;
+  holderInitials: string;
+  issuedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  vaccines: CertificateVaccine[];
+}
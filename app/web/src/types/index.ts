@@ -8,6 +8,43 @@ export const UserRole = {
 
 export type UserRole = (typeof UserRole)[keyof typeof UserRole];
 
+/**
+ * Permission catalog (same values as the API)
+ * Which role has which permission is only defined by the API and comes
+ * from GET /auth/me, so the UI never drifts from the backend rules
+ */
+export const Permission = {
+  USER_READ: 'user:read',
+  USER_WRITE: 'user:write',
+  USER_DELETE: 'user:delete',
+  USER_INVITE: 'user:invite',
+  VACCINE_READ: 'vaccine:read',
+  VACCINE_WRITE: 'vaccine:write',
+  BATCH_READ: 'batch:read',
+  BATCH_WRITE: 'batch:write',
+  APPLICATION_CREATE: 'application:create',
+  APPLICATION_READ: 'application:read',
+  APPLICATION_UPDATE: 'application:update',
+  APPLICATION_VOID: 'application:void',
+  ADVERSE_EVENT_CREATE: 'adverse-event:create',
+  ADVERSE_EVENT_READ: 'adverse-event:read',
+  SCHEDULING_CREATE: 'scheduling:create',
+  SCHEDULING_CREATE_OTHERS: 'scheduling:create:others',
+  SCHEDULING_AGENDA_READ: 'scheduling:agenda:read',
+  SCHEDULING_ASSIGNED_READ: 'scheduling:assigned:read',
+  SCHEDULING_DELETE: 'scheduling:delete',
+  SCHEDULING_REBALANCE: 'scheduling:rebalance',
+  AVAILABILITY_MANAGE: 'availability:manage',
+  CAMPAIGN_READ: 'campaign:read',
+  CAMPAIGN_MANAGE: 'campaign:manage',
+  COVERAGE_READ: 'coverage:read',
+  ALERT_READ: 'alert:read',
+  REPORT_MANAGE: 'report:manage',
+  DEAD_LETTER_MANAGE: 'dead-letter:manage',
+} as const;
+
+export type Permission = (typeof Permission)[keyof typeof Permission];
+
 export const VaccineApplicationStatus = {
   SCHEDULED: 'SCHEDULED',
   APPLIED: 'APPLIED',
@@ -50,7 +87,7 @@ export interface User {
   role: UserRole;
   coren?: string | null;
   isActive?: boolean;
-  profilePhotoUrl?: string | null;
+  photoUrl?: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -60,6 +97,8 @@ export const VaccineBatchStatus = {
   EXPIRED: 'EXPIRED',
   DEPLETED: 'DEPLETED',
   DISCARDED: 'DISCARDED',
+  QUARANTINED: 'QUARANTINED',
+  RECALLED: 'RECALLED',
 } as const;
 
 export type VaccineBatchStatus =
@@ -181,7 +220,26 @@ export interface UpdateUserData {
   coren?: string;
 }
 
+// Validation result of one employee of the CSV import
+export interface UserImportRow {
+  line: number; // line of the file, the header is line 1
+  name: string;
+  email: string;
+  role: string;
+  errors: string[];
+}
+
+export interface UserImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  createdCount: number;
+  rows: UserImportRow[];
+}
+
 export interface CreateVaccineSchedulingData {
+  patientId?: string; // NURSE/MANAGER only, defaults to the logged user
   vaccineId: string;
   nurseId?: string;
   scheduledDate: string;
@@ -206,10 +264,27 @@ export interface ListVaccineSchedulingsParams {
   endDate?: string;
 }
 
+// Appointment slot built from the nurses' availability
+export interface SchedulingSlot {
+  startTime: string;
+  endTime: string;
+  nurseId: string;
+  nurseName: string;
+  capacity: number;
+  booked: number;
+  available: number;
+}
+
+export interface AvailableSlotsResponse {
+  date: string;
+  vaccineId: string;
+  slots: SchedulingSlot[];
+}
+
 // Scheduled application (Type A)
 export interface CreateScheduledApplicationData {
   schedulingId: string;
-  batchId: string;
+  batchId?: string; // Omit to let the backend pick by FEFO
   applicationSite: string;
   observations?: string;
 }
@@ -219,7 +294,7 @@ export interface CreateWalkInApplicationData {
   receivedById: string;
   vaccineId: string;
   doseNumber: number;
-  batchId: string;
+  batchId?: string; // Omit to let the backend pick by FEFO
   applicationSite: string;
   observations?: string;
 }
@@ -279,11 +354,30 @@ export interface AuthResponse {
     token: string;
     user: User;
     expiresIn?: string;
+    refreshToken: string;
+    refreshTokenExpiresAt?: string;
   };
   token?: string;
+  refreshToken?: string;
   user?: User;
 }
 
+export interface CurrentUser {
+  user: User;
+  permissions: Permission[];
+}
+
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  /** Session of this browser */
+  current: boolean;
+}
+
 export interface PaginationParams {
   page?: number;
   limit?: number;
@@ -328,6 +422,9 @@ export interface MarkAllAsReadResponse {
   count: number;
 }
 
+// File formats of the list exports (?format=csv|xlsx)
+export type ExportFormat = 'csv' | 'xlsx';
+
 export interface ListVaccinesParams {
   page?: number;
   perPage?: number;
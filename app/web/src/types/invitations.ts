@@ -0,0 +1,77 @@
+/**
+ * Invitation Types
+ * Based on /api/invitations endpoint documentation
+ */
+
+import type { UserRole } from './index';
+
+// ==================== Invitation Status ====================
+
+export const InvitationStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  EXPIRED: 'EXPIRED',
+  REVOKED: 'REVOKED',
+} as const;
+
+export type InvitationStatus =
+  (typeof InvitationStatus)[keyof typeof InvitationStatus];
+
+// ==================== Invitation ====================
+
+export interface Invitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  status: InvitationStatus;
+  expiresAt: string;
+  acceptedAt: string | null;
+  revokedAt: string | null;
+  invitedById: string;
+  acceptedUserId: string | null;
+  createdAt: string;
+  invitedBy: { id: string; name: string };
+  acceptedUser: { id: string; name: string } | null;
+}
+
+/**
+ * Invitation just created, with the link sent to the invited person
+ */
+export interface CreatedInvitation extends Invitation {
+  inviteUrl: string;
+}
+
+/**
+ * What the invite link reveals on the registration page
+ */
+export interface InvitationPreview {
+  email: string;
+  role: UserRole;
+  expiresAt: string;
+}
+
+// ==================== Requests ====================
+
+export interface CreateInvitationData {
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * Account data of the invited person. Email and role come from the invitation
+ */
+export interface AcceptInvitationData {
+  token: string;
+  name: string;
+  password: string;
+  cpf: string;
+  phone?: string;
+  coren?: string;
+}
+
+export interface ListInvitationsParams {
+  page?: number;
+  perPage?: number;
+  status?: InvitationStatus;
+  email?: string;
+}
@@ -0,0 +1,87 @@
+/**
+ * Report Types
+ * Based on /api/reports endpoint documentation
+ */
+
+// ==================== Report Type Enum ====================
+
+export const ReportType = {
+  GENERAL: 'GENERAL',
+  BY_EMPLOYEE: 'BY_EMPLOYEE',
+  BY_VACCINE: 'BY_VACCINE',
+  BY_PERIOD: 'BY_PERIOD',
+  COVERAGE: 'COVERAGE',
+  WASTE: 'WASTE',
+} as const;
+
+export type ReportType = (typeof ReportType)[keyof typeof ReportType];
+
+export type ReportDownloadFormat = 'csv' | 'json';
+
+// ==================== Report Content ====================
+
+export type ReportValue = string | number | boolean | null;
+
+/**
+ * Generated content stored with the report
+ * - summary: aggregated values
+ * - rows: flat entries (exported as CSV lines)
+ */
+export interface ReportContent {
+  summary: Record<string, ReportValue>;
+  rows: Record<string, ReportValue>[];
+}
+
+interface ReportUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Report entry as returned by the listing endpoint (content omitted)
+ */
+export interface Report {
+  id: string;
+  title: string;
+  type: ReportType;
+  description: string | null;
+  fileUrl: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  generatedById: string;
+  userId: string | null;
+  generatedBy: ReportUser;
+  user: ReportUser | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Report with its generated content
+ */
+export interface ReportWithContent extends Report {
+  data: ReportContent | null;
+}
+
+// ==================== Requests ====================
+
+export interface GenerateReportData {
+  type: ReportType;
+  title?: string;
+  description?: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  userId?: string;
+  vaccineId?: string;
+}
+
+export interface ListReportsParams {
+  page?: number;
+  perPage?: number;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  type?: ReportType;
+  generatedById?: string;
+  userId?: string;
+}
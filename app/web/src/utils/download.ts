@@ -0,0 +1,19 @@
+/**
+ * Triggers the browser save dialog for a file fetched as a blob
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * File name of a list export, e.g. "vacinas-2025-12-15.xlsx"
+ */
+export const getExportFileName = (baseName: string, extension: string): string =>
+  `${baseName}-${new Date().toISOString().split('T')[0]}.${extension}`;
@@ -95,6 +95,8 @@ export const formatBatchStatus = (status: string): string => {
     EXPIRED: 'Expirado',
     DEPLETED: 'Esgotado',
     DISCARDED: 'Descartado',
+    QUARANTINED: 'Em quarentena',
+    RECALLED: 'Recolhido',
   };
   return statusMap[status] || status;
 };
@@ -22,10 +22,12 @@ export const CreateScheduledApplicationSchema = z.object({
     .string()
     .min(1, 'Agendamento é obrigatório')
     .uuid('ID de agendamento inválido'),
+  // Empty means the backend picks the batch that expires first (FEFO)
   batchId: z
     .string()
-    .min(1, 'Lote é obrigatório')
-    .uuid('ID de lote inválido'),
+    .uuid('ID de lote inválido')
+    .or(z.literal(''))
+    .optional(),
   applicationSite: z
     .string()
     .min(1, 'Local de aplicação é obrigatório')
@@ -56,10 +58,12 @@ export const CreateWalkInApplicationSchema = z.object({
     .int('Número da dose deve ser um número inteiro')
     .min(1, 'Número da dose deve ser no mínimo 1')
     .max(10, 'Número da dose deve ser no máximo 10'),
+  // Empty means the backend picks the batch that expires first (FEFO)
   batchId: z
     .string()
-    .min(1, 'Lote é obrigatório')
-    .uuid('ID de lote inválido'),
+    .uuid('ID de lote inválido')
+    .or(z.literal(''))
+    .optional(),
   applicationSite: z
     .string()
     .min(1, 'Local de aplicação é obrigatório')
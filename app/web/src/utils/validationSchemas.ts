@@ -1,8 +1,22 @@
 import { z } from 'zod';
 
+/**
+ * Password policy
+ * Matches backend passwordHelper (8+ characters, upper and lowercase
+ * letters, number and special character)
+ */
+const PasswordPolicySchema = z
+  .string()
+  .min(8, 'Senha deve ter no mínimo 8 caracteres')
+  .max(128, 'Senha muito longa')
+  .regex(/[A-Z]/, 'Senha deve conter ao menos uma letra maiúscula')
+  .regex(/[a-z]/, 'Senha deve conter ao menos uma letra minúscula')
+  .regex(/[0-9]/, 'Senha deve conter ao menos um número')
+  .regex(/[^A-Za-z0-9]/, 'Senha deve conter ao menos um caractere especial');
+
 /**
  * Registration form validation schema
- * Matches backend RegisterSchema (password min 6 characters)
+ * Matches backend RegisterSchema
  */
 export const RegisterFormSchema = z.object({
   email: z
@@ -12,10 +26,7 @@ export const RegisterFormSchema = z.object({
     .toLowerCase()
     .trim()
     .max(255, 'Email muito longo'),
-  password: z
-    .string()
-    .min(6, 'Senha deve ter no mínimo 6 caracteres')
-    .max(128, 'Senha muito longa'),
+  password: PasswordPolicySchema,
   confirmPassword: z.string().min(1, 'Confirmação de senha é obrigatória'),
   name: z
     .string()
@@ -109,3 +120,48 @@ export const LoginFormSchema = z.object({
 });
 
 export type LoginFormData = z.infer<typeof LoginFormSchema>;
+
+/**
+ * Change password validation schema (Profile page)
+ */
+export const ChangePasswordFormSchema = z.object({
+  currentPassword: z.string().min(1, 'Senha atual é obrigatória'),
+  newPassword: PasswordPolicySchema,
+  confirmNewPassword: z.string().min(1, 'Confirmação de senha é obrigatória'),
+})
+  .refine((data) => data.newPassword === data.confirmNewPassword, {
+    message: 'As senhas não coincidem',
+    path: ['confirmNewPassword'],
+  })
+  .refine((data) => data.newPassword !== data.currentPassword, {
+    message: 'A nova senha deve ser diferente da atual',
+    path: ['newPassword'],
+  });
+
+export type ChangePasswordFormData = z.infer<typeof ChangePasswordFormSchema>;
+
+/**
+ * Forgot password validation schema
+ */
+export const ForgotPasswordFormSchema = z.object({
+  email: z
+    .string()
+    .min(1, 'Email é obrigatório')
+    .email('Formato de email inválido'),
+});
+
+export type ForgotPasswordFormData = z.infer<typeof ForgotPasswordFormSchema>;
+
+/**
+ * Reset password validation schema (link received by email)
+ */
+export const ResetPasswordFormSchema = z.object({
+  newPassword: PasswordPolicySchema,
+  confirmNewPassword: z.string().min(1, 'Confirmação de senha é obrigatória'),
+})
+  .refine((data) => data.newPassword === data.confirmNewPassword, {
+    message: 'As senhas não coincidem',
+    path: ['confirmNewPassword'],
+  });
+
+export type ResetPasswordFormData = z.infer<typeof ResetPasswordFormSchema>;